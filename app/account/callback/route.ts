@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient } from '@/lib/supabase-server-client'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+
+/**
+ * Magic link landing page: exchange the code in the emailed link for a rider
+ * session, then continue to `next` (defaults to /account).
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl
+  const code = searchParams.get('code')
+  const next = searchParams.get('next')
+  const nextPath = next && next.startsWith('/') && !next.startsWith('//') ? next : '/account'
+
+  if (!code) {
+    return NextResponse.redirect(new URL('/account/login?error=link', origin))
+  }
+
+  const supabase = await createSupabaseServerClient()
+  const { data, error } = await supabase.auth.exchangeCodeForSession(code)
+
+  if (error || !data.user) {
+    return NextResponse.redirect(new URL('/account/login?error=link', origin))
+  }
+
+  // Rider sessions are kept separate from admin accounts
+  const { data: admin } = await getSupabaseAdmin()
+    .from('admins')
+    .select('id')
+    .eq('id', data.user.id)
+    .maybeSingle()
+
+  if (admin) {
+    await supabase.auth.signOut()
+    return NextResponse.redirect(new URL('/admin/login', origin))
+  }
+
+  return NextResponse.redirect(new URL(nextPath, origin))
+}
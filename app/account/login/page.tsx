@@ -0,0 +1,45 @@
+import { redirect } from 'next/navigation'
+import { PageShell } from '@/components/page-shell'
+import { RiderLoginForm } from '@/components/rider-login-form'
+import { getRiderSession } from '@/lib/auth/get-rider'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata = {
+  title: 'Sign In',
+  robots: { index: false },
+}
+
+interface PageProps {
+  searchParams: Promise<{ next?: string; error?: string }>
+}
+
+export default async function AccountLoginPage({ searchParams }: PageProps) {
+  const { next, error } = await searchParams
+
+  if (await getRiderSession()) {
+    redirect('/account')
+  }
+
+  return (
+    <PageShell>
+      <div className="content-container-wide py-8 md:py-12">
+        <div className="max-w-md mx-auto md:rounded-2xl md:border md:border-border md:bg-card md:p-8">
+          <h1 className="font-serif text-2xl md:text-3xl tracking-tight mb-2">Sign in</h1>
+          <p className="text-sm text-muted-foreground mb-6">
+            No password needed. We&apos;ll email you a link that signs you in, so you can see your
+            registrations and results and register without retyping your details.
+          </p>
+          <RiderLoginForm
+            next={next}
+            initialError={
+              error === 'link'
+                ? 'That sign-in link is invalid or has expired. Please try again.'
+                : null
+            }
+          />
+        </div>
+      </div>
+    </PageShell>
+  )
+}
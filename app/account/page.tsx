@@ -0,0 +1,257 @@
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { PageShell } from '@/components/page-shell'
+import { Button } from '@/components/ui/button'
+import { AccountProfileForm } from '@/components/account-profile-form'
+import { AccountErasureRequest } from '@/components/account-erasure-request'
+import { requireRiderSession } from '@/lib/auth/get-rider'
+import { riderLogout } from '@/lib/actions/account'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import type { PendingResultForAccount, RegistrationForAccount } from '@/types/queries'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata = {
+  title: 'Your Account',
+  robots: { index: false },
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  registered: 'Registered',
+  waitlisted: 'On the waitlist',
+  'incomplete: membership': 'Awaiting membership',
+  cancelled: 'Cancelled',
+}
+
+async function getRegistrations(riderId: string): Promise<RegistrationForAccount[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('registrations')
+    .select(
+      `
+      id, status, registered_at, manage_token,
+      events (id, slug, name, event_date, distance_km, status, chapters (name))
+    `
+    )
+    .eq('rider_id', riderId)
+
+  return ((data as RegistrationForAccount[] | null) ?? []).sort((a, b) =>
+    (b.events?.event_date ?? '').localeCompare(a.events?.event_date ?? '')
+  )
+}
+
+async function getPendingResults(riderId: string): Promise<PendingResultForAccount[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('results')
+    .select('id, submission_token, events!inner (name, event_date, distance_km, status)')
+    .eq('rider_id', riderId)
+    .eq('status', 'pending')
+    .not('submission_token', 'is', null)
+    // Results can't be changed once the organizer has submitted the event
+    .neq('events.status', 'submitted')
+
+  return (data as PendingResultForAccount[] | null) ?? []
+}
+
+async function getPendingErasureDate(riderId: string): Promise<string | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('rider_data_requests')
+    .select('requested_at')
+    .eq('rider_id', riderId)
+    .eq('request_type', 'erasure')
+    .eq('status', 'pending')
+    .maybeSingle()
+
+  return data?.requested_at ?? null
+}
+
+function formatDate(dateString: string): string {
+  return format(new Date(dateString + 'T00:00:00'), 'MMM d, yyyy')
+}
+
+function SignOutButton() {
+  return (
+    <form action={riderLogout}>
+      <Button type="submit" variant="outline" size="sm">
+        Sign out
+      </Button>
+    </form>
+  )
+}
+
+function RegistrationRow({ registration }: { registration: RegistrationForAccount }) {
+  const event = registration.events
+  if (!event) return null
+
+  return (
+    <li className="flex flex-wrap items-baseline justify-between gap-2 py-3">
+      <div className="min-w-0">
+        <Link href={`/register/${event.slug}`} className="font-medium hover:underline">
+          {event.name}
+        </Link>
+        <div className="text-sm text-muted-foreground">
+          {formatDate(event.event_date)} · {event.distance_km} km
+          {event.chapters?.name && <> · {event.chapters.name}</>}
+        </div>
+      </div>
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-muted-foreground">
+          {event.status === 'cancelled'
+            ? 'Event cancelled'
+            : (registration.status && STATUS_LABELS[registration.status]) || registration.status}
+        </span>
+        {registration.manage_token && registration.status !== 'cancelled' && (
+          <Link
+            href={`/register/manage/${registration.manage_token}`}
+            className="text-primary hover:underline underline-offset-2"
+          >
+            Manage
+          </Link>
+        )}
+      </div>
+    </li>
+  )
+}
+
+export default async function AccountPage() {
+  const session = await requireRiderSession()
+  const rider = session.rider
+
+  if (!rider) {
+    return (
+      <PageShell>
+        <div className="content-container py-8 md:py-12 max-w-2xl">
+          <div className="flex items-start justify-between gap-4 mb-6">
+            <h1 className="font-serif text-3xl md:text-4xl tracking-tight">Your Account</h1>
+            <SignOutButton />
+          </div>
+          <p className="text-muted-foreground">
+            You&apos;re signed in as <span className="font-medium">{session.email}</span>, but we
+            don&apos;t have any registrations for that email yet. Once you{' '}
+            <Link href="/calendar" className="text-primary hover:underline">
+              register for a ride
+            </Link>{' '}
+            with it, your rides and results will show up here.
+          </p>
+        </div>
+      </PageShell>
+    )
+  }
+
+  const [registrations, pendingResults, pendingErasureDate] = await Promise.all([
+    getRegistrations(rider.id),
+    getPendingResults(rider.id),
+    getPendingErasureDate(rider.id),
+  ])
+
+  const today = new Date().toISOString().split('T')[0]
+  const upcoming = registrations.filter((r) => r.events && r.events.event_date >= today).reverse()
+  const past = registrations.filter((r) => r.events && r.events.event_date < today)
+
+  return (
+    <PageShell>
+      <div className="content-container py-8 md:py-12 max-w-2xl space-y-10">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="font-serif text-3xl md:text-4xl tracking-tight">
+              {rider.first_name} {rider.last_name}
+            </h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {session.email}
+              {rider.profile_visibility === 'public' && (
+                <>
+                  {' · '}
+                  <Link href={`/riders/${rider.slug}`} className="text-primary hover:underline">
+                    Public profile
+                  </Link>
+                </>
+              )}
+            </p>
+          </div>
+          <SignOutButton />
+        </div>
+
+        {pendingResults.length > 0 && (
+          <section>
+            <h2 className="font-serif text-2xl tracking-tight mb-2">Results to Submit</h2>
+            <ul className="divide-y divide-border">
+              {pendingResults.map((result) => (
+                <li
+                  key={result.id}
+                  className="flex flex-wrap items-baseline justify-between gap-2 py-3"
+                >
+                  <div>
+                    <div className="font-medium">{result.events?.name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {result.events && formatDate(result.events.event_date)} ·{' '}
+                      {result.events?.distance_km} km
+                    </div>
+                  </div>
+                  <Link
+                    href={`/results/submit/${result.submission_token}`}
+                    className="text-sm text-primary hover:underline underline-offset-2"
+                  >
+                    Submit result
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section>
+          <h2 className="font-serif text-2xl tracking-tight mb-2">Upcoming Rides</h2>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You&apos;re not registered for any upcoming rides.{' '}
+              <Link href="/calendar" className="text-primary hover:underline">
+                Browse the calendar
+              </Link>
+            </p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {upcoming.map((registration) => (
+                <RegistrationRow key={registration.id} registration={registration} />
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {past.length > 0 && (
+          <section>
+            <h2 className="font-serif text-2xl tracking-tight mb-2">Past Registrations</h2>
+            <ul className="divide-y divide-border">
+              {past.map((registration) => (
+                <RegistrationRow key={registration.id} registration={registration} />
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section>
+          <h2 className="font-serif text-2xl tracking-tight mb-4">Profile</h2>
+          <AccountProfileForm rider={rider} />
+        </section>
+
+        <section>
+          <h2 className="font-serif text-2xl tracking-tight mb-2">Your Data</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Download everything we hold about you: your profile, registrations, results, memberships
+            and the emails we&apos;ve sent you.{' '}
+            <a href="/api/account/export" download className="text-primary hover:underline">
+              Download JSON
+            </a>{' '}
+            ·{' '}
+            <a
+              href="/api/account/export?format=csv"
+              download
+              className="text-primary hover:underline"
+            >
+              Download CSV
+            </a>
+          </p>
+          <AccountErasureRequest pendingSince={pendingErasureDate} />
+        </section>
+      </div>
+    </PageShell>
+  )
+}
@@ -0,0 +1,55 @@
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { PendingAwardsList } from '@/components/admin/pending-awards-list'
+import type { PendingAwardForAdmin } from '@/types/queries'
+
+async function getPendingAwards(): Promise<PendingAwardForAdmin[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('pending_awards')
+    .select(
+      `
+      id,
+      created_at,
+      awards (id, slug, title, description),
+      results (
+        id,
+        season,
+        riders (id, first_name, last_name),
+        events (id, name, event_date, distance_km)
+      )
+    `
+    )
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+
+  return (data as PendingAwardForAdmin[] | null) ?? []
+}
+
+export default async function AdminAwardsPage() {
+  await requireAdmin()
+
+  const pendingAwards = await getPendingAwards()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Awards</h1>
+        <p className="text-muted-foreground">
+          Awards earned from new or updated results, waiting to be published.
+        </p>
+      </div>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-xl font-semibold">New Awards ({pendingAwards.length})</h2>
+          <p className="text-sm text-muted-foreground">
+            Super Randonneur, O-5000, O-12, Ontario Rover and Ontario Explorer are worked out
+            automatically whenever results are entered or submitted. Publishing an award adds it to
+            the rider&apos;s profile. Awards a rider no longer qualifies for are removed right away.
+          </p>
+        </div>
+        <PendingAwardsList pendingAwards={pendingAwards} />
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { redirect } from 'next/navigation'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { isFullAdmin } from '@/lib/auth/roles'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { ChapterContactsForm } from '@/components/admin/chapter-contacts-form'
+import { ChapterRegistrationDefaultsForm } from '@/components/admin/chapter-registration-defaults-form'
+import { ChapterRemindersForm } from '@/components/admin/chapter-reminders-form'
+import { ChapterResultFollowupForm } from '@/components/admin/chapter-result-followup-form'
+import type {
+  ChapterOptionWithContacts,
+  ChapterOptionWithReminders,
+  ChapterOptionWithResultFollowup,
+  ChapterOptionWithWindowDefaults,
+} from '@/types/ui'
+
+const ALLOWED_CHAPTER_SLUGS = ['huron', 'ottawa', 'simcoe', 'toronto']
+
+async function getChapters(): Promise<
+  Array<
+    ChapterOptionWithContacts &
+      ChapterOptionWithWindowDefaults &
+      ChapterOptionWithReminders &
+      ChapterOptionWithResultFollowup
+  >
+> {
+  const { data } = await getSupabaseAdmin()
+    .from('chapters')
+    .select(
+      'id, name, registration_opens_days_before, registration_closes_hours_before, vp_email, route_coordinator_email, treasurer_email, reminder_days_before, reminder_checklist, result_reminder_days, result_deadline_days, result_deadline_action'
+    )
+    .in('slug', ALLOWED_CHAPTER_SLUGS)
+    .order('name', { ascending: true })
+
+  return data ?? []
+}
+
+export default async function AdminChaptersPage() {
+  const admin = await requireAdmin()
+
+  if (!isFullAdmin(admin.role)) {
+    redirect('/admin')
+  }
+
+  const chapters = await getChapters()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Chapters</h1>
+        <p className="text-muted-foreground">
+          Chapter contacts and defaults. Individual events can override the registration window on
+          the event form.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Contacts</h2>
+        <div className="grid gap-6 max-w-2xl">
+          {chapters.map((chapter) => (
+            <ChapterContactsForm key={chapter.id} chapter={chapter} />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Registration Defaults</h2>
+        <div className="grid gap-6 max-w-2xl">
+          {chapters.map((chapter) => (
+            <ChapterRegistrationDefaultsForm key={chapter.id} chapter={chapter} />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Ride Reminders</h2>
+        <div className="grid gap-6 max-w-2xl">
+          {chapters.map((chapter) => (
+            <ChapterRemindersForm key={chapter.id} chapter={chapter} />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Result Follow-up</h2>
+        <div className="grid gap-6 max-w-2xl">
+          {chapters.map((chapter) => (
+            <ChapterResultFollowupForm key={chapter.id} chapter={chapter} />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
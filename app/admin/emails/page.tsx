@@ -0,0 +1,213 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { isFullAdmin } from '@/lib/auth/roles'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { EmailFilters } from '@/components/admin/email-filters'
+import { ResendEmailButton } from '@/components/admin/resend-email-button'
+import { X } from 'lucide-react'
+import type { EmailOutboxForAdmin } from '@/types/queries'
+
+const statusLabels: Record<
+  string,
+  { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }
+> = {
+  pending: { label: 'Retrying', variant: 'outline' },
+  sending: { label: 'Sending', variant: 'outline' },
+  sent: { label: 'Sent', variant: 'secondary' },
+  failed: { label: 'Failed', variant: 'destructive' },
+}
+
+const kindLabels: Record<string, string> = {
+  registration_confirmation: 'Registration',
+  waitlist_promotion: 'Waitlist',
+  registration_change: 'Rider change',
+  result_submission_request: 'Result request',
+  result_submission_reminder: 'Result reminder',
+  results_submission: 'Results',
+  results_digest: 'Results digest',
+  event_reminder: 'Ride reminder',
+  event_roster: 'Roster',
+  permanent_request_update: 'Permanent request',
+}
+
+const STATUSES = ['pending', 'sent', 'failed']
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-CA', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+async function getEmails(filters: {
+  status: string | null
+  riderId: string | null
+  eventId: string | null
+}): Promise<EmailOutboxForAdmin[]> {
+  let query = getSupabaseAdmin()
+    .from('email_outbox')
+    .select(
+      `
+      id, kind, to_emails, cc_emails, subject, status, attempts, max_attempts,
+      last_error, next_attempt_at, sent_at, created_at, resend_of,
+      riders (id, slug, first_name, last_name),
+      events (id, name, event_date)
+    `
+    )
+    .order('created_at', { ascending: false })
+    .limit(100)
+
+  if (filters.status) query = query.eq('status', filters.status)
+  if (filters.riderId) query = query.eq('rider_id', filters.riderId)
+  if (filters.eventId) query = query.eq('event_id', filters.eventId)
+
+  const { data } = await query
+  return (data ?? []) as EmailOutboxForAdmin[]
+}
+
+interface AdminEmailsPageProps {
+  searchParams: Promise<{ status?: string; rider?: string; event?: string }>
+}
+
+export default async function AdminEmailsPage({ searchParams }: AdminEmailsPageProps) {
+  const admin = await requireAdmin()
+
+  if (!isFullAdmin(admin.role)) {
+    redirect('/admin')
+  }
+
+  const params = await searchParams
+  const status = params.status && STATUSES.includes(params.status) ? params.status : null
+  const riderId = params.rider || null
+  const eventId = params.event || null
+
+  const emails = await getEmails({ status, riderId, eventId })
+
+  // Filtered to one rider or event: name it from the first row
+  const riderFilter = riderId && emails.find((email) => email.riders)?.riders
+  const eventFilter = eventId && emails.find((email) => email.events)?.events
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Emails</h1>
+        <p className="text-muted-foreground">
+          Recent outbound emails. Failed deliveries are retried automatically; resend any message to
+          send it again.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <EmailFilters status={status} riderId={riderId} eventId={eventId} />
+        {(riderId || eventId) && (
+          <Button variant="outline" size="sm" asChild>
+            <Link href={status ? `/admin/emails?status=${status}` : '/admin/emails'}>
+              {riderId
+                ? `Rider: ${riderFilter ? `${riderFilter.first_name} ${riderFilter.last_name}` : 'Unknown'}`
+                : `Event: ${eventFilter ? eventFilter.name : 'Unknown'}`}
+              <X className="h-4 w-4 ml-2" />
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      {emails.length === 0 ? (
+        <p className="text-muted-foreground py-8 text-center">No emails found.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date/Time</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Subject</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[50px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {emails.map((email) => {
+              const statusInfo = statusLabels[email.status] || {
+                label: email.status,
+                variant: 'outline' as const,
+              }
+              return (
+                <TableRow key={email.id}>
+                  <TableCell className="text-muted-foreground tabular-nums whitespace-nowrap">
+                    {email.created_at && formatDateTime(email.created_at)}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {kindLabels[email.kind] || email.kind}
+                    {email.resend_of && (
+                      <span className="block text-xs text-muted-foreground">Resent</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-[220px]">
+                    <span className="block truncate">{email.to_emails.join(', ')}</span>
+                    {email.riders && !riderId && (
+                      <Link
+                        href={`/admin/emails?rider=${email.riders.id}`}
+                        className="block text-xs text-muted-foreground hover:underline"
+                      >
+                        {email.riders.first_name} {email.riders.last_name}
+                      </Link>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-md">
+                    <span className="block truncate">{email.subject}</span>
+                    {email.events && !eventId && (
+                      <Link
+                        href={`/admin/emails?event=${email.events.id}`}
+                        className="block text-xs text-muted-foreground hover:underline"
+                      >
+                        {email.events.name} ({email.events.event_date})
+                      </Link>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusInfo.variant}>{statusInfo.label}</Badge>
+                    <span className="block text-xs text-muted-foreground mt-1 whitespace-nowrap">
+                      {email.status === 'sent' && email.sent_at
+                        ? formatDateTime(email.sent_at)
+                        : `${email.attempts} of ${email.max_attempts} attempts`}
+                    </span>
+                    {email.status === 'pending' && email.attempts > 0 && (
+                      <span className="block text-xs text-muted-foreground whitespace-nowrap">
+                        Next try {formatDateTime(email.next_attempt_at)}
+                      </span>
+                    )}
+                    {email.last_error && email.status !== 'sent' && (
+                      <span
+                        className="block text-xs text-destructive max-w-[200px] truncate"
+                        title={email.last_error}
+                      >
+                        {email.last_error}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <ResendEmailButton emailId={email.id} />
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { notFound } from 'next/navigation'
 import Link from 'next/link'
 import { ChevronLeft } from 'lucide-react'
 import { ControlCardsForm } from '@/components/admin/control-cards-form'
+import { getEventControls } from '@/lib/events/event-controls'
 import type {
   EventForControlCards,
   RegistrationForControlCards,
@@ -62,6 +63,7 @@ export default async function ControlCardsPage({ params }: ControlCardsPageProps
     notFound()
   }
 
+  const savedControls = await getEventControls(event.id, event.routes?.id ?? null)
   const eventDate = parseLocalDate(event.event_date)
 
   return (
@@ -88,6 +90,10 @@ export default async function ControlCardsPage({ params }: ControlCardsPageProps
       </div>
 
       <ControlCardsForm
+        // Re-mount when switching between event and route controls
+        key={savedControls.source}
+        initialControls={savedControls.controls}
+        controlsSource={savedControls.source}
         event={{
           id: event.id,
           name: event.name,
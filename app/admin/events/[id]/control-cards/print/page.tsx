@@ -2,8 +2,16 @@ import { requireAdmin } from '@/lib/auth/get-admin'
 import { getSupabaseAdmin } from '@/lib/supabase-server'
 import { notFound } from 'next/navigation'
 import { ControlCardsPrint } from '@/components/admin/control-cards-print'
-import { computeControlTimes, getNominalDistance, formatControlTime, formatCardDate, createTorontoDate } from '@/lib/brmTimes'
-import type { ControlPoint, CardRider, OrganizerInfo, CardEvent } from '@/types/control-card'
+import { computeControlTimes, formatControlTime, formatCardDate, createTorontoDate } from '@/lib/brmTimes'
+import { getTimeRuleSet } from '@/lib/time-rules'
+import { getEventControls } from '@/lib/events/event-controls'
+import type {
+  ControlPoint,
+  ControlType,
+  CardRider,
+  OrganizerInfo,
+  CardEvent,
+} from '@/types/control-card'
 import type {
   EventForControlCards,
   RegistrationForControlCards,
@@ -12,6 +20,8 @@ import type {
 interface ControlInput {
   name: string
   distance: number
+  controlType?: ControlType
+  infoQuestion?: string
 }
 
 async function getEventDetails(eventId: string): Promise<EventForControlCards | null> {
@@ -82,7 +92,8 @@ export default async function PrintPage({ params, searchParams }: PrintPageProps
     email: search.organizerEmail || '',
   }
 
-  // Parse controls from search params
+  // Parse controls from search params, falling back to the event's saved
+  // controls (e.g. a permanent printed straight from the approval queue)
   let controlInputs: ControlInput[] = []
   try {
     if (search.controls) {
@@ -91,21 +102,30 @@ export default async function PrintPage({ params, searchParams }: PrintPageProps
   } catch {
     controlInputs = []
   }
+  if (!search.controls) {
+    const saved = await getEventControls(event.id, event.routes?.id ?? null)
+    controlInputs = saved.controls.map((control) => ({
+      name: control.name,
+      distance: control.distance,
+      controlType: control.controlType,
+      infoQuestion: control.infoQuestion ?? undefined,
+    }))
+  }
 
   // Calculate the start datetime in Toronto timezone
   const [year, month, day] = event.event_date.split('-').map(Number)
   const [hours, minutes] = (event.start_time || '06:00').split(':').map(Number)
   const startDate = createTorontoDate(year, month - 1, day, hours, minutes)
 
-  // Get nominal distance for BRM calculations
-  const nominalDistance = getNominalDistance(event.distance_km)
+  // Pick the control time rules for this event type (brevet, populaire, flèche, ...)
+  const timeRules = getTimeRuleSet(event.event_type, event.distance_km)
 
   // Calculate control times
   const controls: ControlPoint[] = controlInputs.map((input, index) => {
     const { openAt, closeAt } = computeControlTimes(
       startDate,
       input.distance,
-      nominalDistance,
+      timeRules,
       event.distance_km
     )
 
@@ -115,6 +135,8 @@ export default async function PrintPage({ params, searchParams }: PrintPageProps
       distance: input.distance,
       openTime: formatControlTime(openAt),
       closeTime: formatControlTime(closeAt),
+      controlType: input.controlType,
+      infoQuestion: input.infoQuestion || null,
     }
   })
 
@@ -122,7 +144,7 @@ export default async function PrintPage({ params, searchParams }: PrintPageProps
   const { closeMin } = computeControlTimes(
     startDate,
     event.distance_km,
-    nominalDistance,
+    timeRules,
     event.distance_km
   )
   const totalHours = Math.floor(closeMin / 60)
@@ -134,7 +156,7 @@ export default async function PrintPage({ params, searchParams }: PrintPageProps
     name: event.name,
     routeName: event.routes?.name || event.name,
     distance: event.distance_km,
-    nominalDistance,
+    timeRules: timeRules.name,
     date: startDate,
     startTime: event.start_time || '06:00',
     startLocation: event.start_location || '',
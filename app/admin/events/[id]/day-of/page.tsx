@@ -0,0 +1,82 @@
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { DAY_OF_REGISTRATION_STATUSES, sortDayOfRoster } from '@/lib/events/day-of'
+import { parseLocalDate } from '@/lib/utils'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { ChevronLeft } from 'lucide-react'
+import { DayOfConsole } from '@/components/admin/day-of-console'
+import type { EventForDayOf, RegistrationForDayOf } from '@/types/queries'
+
+async function getEventDetails(eventId: string): Promise<EventForDayOf | null> {
+  const { data: event } = await getSupabaseAdmin()
+    .from('events')
+    .select(
+      'id, name, event_date, start_time, start_location, distance_km, season, chapters (name, slug)'
+    )
+    .eq('id', eventId)
+    .single()
+
+  return event as EventForDayOf | null
+}
+
+async function getRoster(eventId: string): Promise<RegistrationForDayOf[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('registrations')
+    .select(
+      `
+      id,
+      rider_id,
+      status,
+      notes,
+      checked_in_at,
+      riders (first_name, last_name, rider_number, emergency_contact_name, emergency_contact_phone)
+    `
+    )
+    .eq('event_id', eventId)
+    .in('status', DAY_OF_REGISTRATION_STATUSES)
+
+  return sortDayOfRoster((data as RegistrationForDayOf[]) ?? [])
+}
+
+interface DayOfPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function DayOfPage({ params }: DayOfPageProps) {
+  const { id } = await params
+  await requireAdmin()
+
+  const [event, registrations] = await Promise.all([getEventDetails(id), getRoster(id)])
+
+  if (!event) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-4">
+      <Link
+        href={`/admin/events/${event.id}`}
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground print:hidden"
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Back to Event
+      </Link>
+
+      <div className="print:hidden">
+        <h1 className="text-2xl font-bold">{event.name}</h1>
+        <p className="text-muted-foreground">
+          {parseLocalDate(event.event_date).toLocaleDateString('en-CA', {
+            weekday: 'long',
+            month: 'long',
+            day: 'numeric',
+          })}{' '}
+          &middot; Start {event.start_time?.slice(0, 5) || 'TBD'}
+          {event.start_location && <> &middot; {event.start_location}</>}
+        </p>
+      </div>
+
+      <DayOfConsole event={event} registrations={registrations} />
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import dynamic from 'next/dynamic'
 import { notFound } from 'next/navigation'
 import Link from 'next/link'
 import { ChevronLeft } from 'lucide-react'
+import type { SeriesOption } from '@/types/ui'
 import type { EventDetailForEdit } from '@/types/queries'
 import type { EventFormData } from '@/components/admin/event-form'
 
@@ -22,7 +23,17 @@ const EventForm = dynamic(() => import('@/components/admin/event-form').then(mod
 async function getChapters() {
   const { data } = await getSupabaseAdmin()
     .from('chapters')
-    .select('id, name')
+    .select('id, name, registration_opens_days_before, registration_closes_hours_before')
+    .order('name', { ascending: true })
+
+  return data ?? []
+}
+
+async function getSeries(): Promise<SeriesOption[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('event_series')
+    .select('id, name, season')
+    .order('season', { ascending: false })
     .order('name', { ascending: true })
 
   return data ?? []
@@ -42,7 +53,13 @@ async function getEvent(eventId: string): Promise<EventFormData | null> {
       start_time,
       start_location,
       description,
-      image_url
+      image_url,
+      max_riders,
+      registration_opens_at,
+      registration_closes_at,
+      series_id,
+      send_reminders,
+      send_roster
     `)
     .eq('id', eventId)
     .single()
@@ -62,6 +79,12 @@ async function getEvent(eventId: string): Promise<EventFormData | null> {
     startLocation: e.start_location,
     description: e.description,
     imageUrl: e.image_url,
+    maxRiders: e.max_riders,
+    registrationOpensAt: e.registration_opens_at,
+    registrationClosesAt: e.registration_closes_at,
+    seriesId: e.series_id,
+    sendReminders: e.send_reminders,
+    sendRoster: e.send_roster,
   }
 }
 
@@ -73,10 +96,11 @@ export default async function EditEventPage({ params }: EditEventPageProps) {
   const { id } = await params
   await requireAdmin()
 
-  const [event, chapters, routes] = await Promise.all([
+  const [event, chapters, routes, series] = await Promise.all([
     getEvent(id),
     getChapters(),
     getActiveRoutes(),
+    getSeries(),
   ])
 
   if (!event) {
@@ -97,6 +121,7 @@ export default async function EditEventPage({ params }: EditEventPageProps) {
         <EventForm
           chapters={chapters}
           routes={routes}
+          series={series}
           event={event}
           mode="edit"
         />
@@ -1,9 +1,19 @@
 import { requireAdmin } from '@/lib/auth/get-admin'
+import { isFullAdmin } from '@/lib/auth/roles'
 import { getSupabaseAdmin } from '@/lib/supabase-server'
 import { parseLocalDate } from '@/lib/utils'
 import { notFound } from 'next/navigation'
 import Link from 'next/link'
-import { ChevronLeft, FileText, Pencil, Calendar, Clock, Users } from 'lucide-react'
+import {
+  ChevronLeft,
+  ClipboardCheck,
+  FileText,
+  Pencil,
+  Calendar,
+  Clock,
+  Users,
+  Mail,
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { EventResultsManager } from '@/components/admin/event-results-manager'
 import { EventStatusSelect } from '@/components/admin/event-status-select'
@@ -28,6 +38,8 @@ async function getEventDetails(eventId: string): Promise<EventDetailForAdmin | n
       event_type,
       status,
       season,
+      max_riders,
+      homologation_file_path,
       chapters (id, name)
     `
     )
@@ -51,7 +63,7 @@ async function getRegistrations(eventId: string): Promise<RegistrationWithRiderF
     `
     )
     .eq('event_id', eventId)
-    .in('status', ['registered', 'incomplete: membership'])
+    .in('status', ['registered', 'incomplete: membership', 'waitlisted'])
     .order('registered_at', { ascending: true })
 
   return (data as RegistrationWithRiderForAdmin[]) ?? []
@@ -74,6 +86,11 @@ async function getResults(eventId: string): Promise<ResultWithRiderForAdmin[]> {
       control_card_back_path,
       rider_notes,
       submitted_at,
+      gpx_verification,
+      gpx_verified_at,
+      medal_requested,
+      homologation_number,
+      overdue_at,
       riders (id, first_name, last_name, email)
     `
     )
@@ -98,7 +115,7 @@ function buildBackUrl(fromSeason?: string, fromChapter?: string): string {
 
 export default async function EventDetailPage({ params, searchParams }: EventPageProps) {
   const [{ id }, search] = await Promise.all([params, searchParams])
-  await requireAdmin()
+  const admin = await requireAdmin()
   const backUrl = buildBackUrl(search.from_season, search.from_chapter)
 
   const [event, registrations, results] = await Promise.all([
@@ -111,6 +128,9 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
     notFound()
   }
 
+  const activeRegistrations = registrations.filter((r) => r.status !== 'waitlisted')
+  const waitlistedCount = registrations.length - activeRegistrations.length
+
   return (
     <div className="space-y-6">
       <Link
@@ -135,12 +155,26 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
               Edit
             </Link>
           </Button>
+          <Button variant="outline" asChild>
+            <Link href={`/admin/events/${event.id}/day-of`}>
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Day-of
+            </Link>
+          </Button>
           <Button variant="outline" asChild>
             <Link href={`/admin/events/${event.id}/control-cards`}>
               <FileText className="h-4 w-4 mr-2" />
               Control Cards
             </Link>
           </Button>
+          {isFullAdmin(admin.role) && (
+            <Button variant="outline" asChild>
+              <Link href={`/admin/emails?event=${event.id}`}>
+                <Mail className="h-4 w-4 mr-2" />
+                Emails
+              </Link>
+            </Button>
+          )}
           <EventStatusSelect
             eventId={event.id}
             initialStatus={event.status as EventStatus}
@@ -150,7 +184,7 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
             eventId={event.id}
             eventName={event.name}
             isPastEvent={event.event_date < new Date().toISOString().split('T')[0]}
-            registrationsCount={registrations.length}
+            registrationsCount={activeRegistrations.length}
           />
         </div>
       </div>
@@ -175,15 +209,17 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
           <Users className="h-4 w-4" />
           <span>
             {(() => {
-              const registeredRiderIds = new Set(registrations.map((r) => r.rider_id))
+              const registeredRiderIds = new Set(activeRegistrations.map((r) => r.rider_id))
               const resultsOnlyCount = results.filter(
                 (r) => !registeredRiderIds.has(r.rider_id)
               ).length
-              const total = registrations.length + resultsOnlyCount
-              return `${total} ${total === 1 ? 'rider' : 'riders'}`
+              const total = activeRegistrations.length + resultsOnlyCount
+              const riders = `${total} ${total === 1 ? 'rider' : 'riders'}`
+              return event.max_riders ? `${riders} of ${event.max_riders}` : riders
             })()}
           </span>
         </div>
+        {waitlistedCount > 0 && <span>{waitlistedCount} waitlisted</span>}
       </div>
 
       <EventResultsManager
@@ -191,6 +227,7 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
         eventName={event.name}
         eventDate={event.event_date}
         eventStatus={event.status}
+        hasHomologationFile={!!event.homologation_file_path}
         isPastEvent={event.event_date < new Date().toISOString().split('T')[0]}
         season={event.season}
         distanceKm={event.distance_km}
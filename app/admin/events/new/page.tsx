@@ -4,6 +4,7 @@ import { getActiveRoutes } from '@/lib/data/routes'
 import dynamic from 'next/dynamic'
 import Link from 'next/link'
 import { ChevronLeft } from 'lucide-react'
+import type { SeriesOption } from '@/types/ui'
 
 // Lazy-load EventForm (complex form component)
 const EventForm = dynamic(() => import('@/components/admin/event-form').then(mod => ({ default: mod.EventForm })), {
@@ -19,7 +20,17 @@ const EventForm = dynamic(() => import('@/components/admin/event-form').then(mod
 async function getChapters() {
   const { data } = await getSupabaseAdmin()
     .from('chapters')
-    .select('id, name')
+    .select('id, name, registration_opens_days_before, registration_closes_hours_before')
+    .order('name', { ascending: true })
+
+  return data ?? []
+}
+
+async function getSeries(): Promise<SeriesOption[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('event_series')
+    .select('id, name, season')
+    .order('season', { ascending: false })
     .order('name', { ascending: true })
 
   return data ?? []
@@ -27,9 +38,10 @@ async function getChapters() {
 
 export default async function NewEventPage() {
   const admin = await requireAdmin()
-  const [chapters, routes] = await Promise.all([
+  const [chapters, routes, series] = await Promise.all([
     getChapters(),
     getActiveRoutes(),
+    getSeries(),
   ])
 
   return (
@@ -46,6 +58,7 @@ export default async function NewEventPage() {
         <EventForm
           chapters={chapters}
           routes={routes}
+          series={series}
           defaultChapterId={admin.chapter_id}
         />
       </div>
@@ -89,6 +89,12 @@ export default async function AdminEventsPage({ searchParams }: AdminEventsPageP
 
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case 'requested':
+        return (
+          <Badge variant="outline" className="border-amber-500 text-amber-700">
+            Awaiting approval
+          </Badge>
+        )
       case 'scheduled':
         return <Badge variant="secondary">Scheduled</Badge>
       case 'completed':
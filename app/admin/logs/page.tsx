@@ -14,6 +14,7 @@ import { Badge } from '@/components/ui/badge'
 
 interface AuditLogRow {
   id: string
+  admin_id: string | null
   action: string
   entity_type: string
   entity_id: string | null
@@ -33,7 +34,9 @@ const actionLabels: Record<
   delete: { label: 'Delete', variant: 'destructive' },
   status_change: { label: 'Status Change', variant: 'outline' },
   merge: { label: 'Merge', variant: 'secondary' },
+  unmerge: { label: 'Unmerge', variant: 'outline' },
   submit: { label: 'Submit', variant: 'default' },
+  anonymize: { label: 'Anonymize', variant: 'destructive' },
 }
 
 const entityTypeLabels: Record<string, string> = {
@@ -44,6 +47,12 @@ const entityTypeLabels: Record<string, string> = {
   page: 'Page',
   admin_user: 'Admin User',
   news: 'News',
+  registration: 'Registration',
+  chapter: 'Chapter',
+  membership: 'Membership',
+  award: 'Award',
+  series: 'Series',
+  email: 'Email',
 }
 
 function formatDateTime(dateString: string): string {
@@ -65,7 +74,7 @@ export default async function AuditLogsPage() {
 
   const { data: logs } = await getSupabaseAdmin()
     .from('audit_logs')
-    .select('id, action, entity_type, entity_id, description, created_at, admins (name)')
+    .select('id, admin_id, action, entity_type, entity_id, description, created_at, admins (name)')
     .order('created_at', { ascending: false })
     .limit(100)
 
@@ -75,7 +84,9 @@ export default async function AuditLogsPage() {
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold">Audit Log</h1>
-        <p className="text-muted-foreground">Recent admin actions across the system</p>
+        <p className="text-muted-foreground">
+          Recent admin actions and rider self-service changes across the system
+        </p>
       </div>
 
       {typedLogs.length === 0 ? (
@@ -102,7 +113,9 @@ export default async function AuditLogsPage() {
                   <TableCell className="text-muted-foreground tabular-nums">
                     {formatDateTime(log.created_at)}
                   </TableCell>
-                  <TableCell>{log.admins?.name || 'Unknown'}</TableCell>
+                  <TableCell>
+                    {log.admin_id === null ? 'Rider (self-service)' : log.admins?.name || 'Unknown'}
+                  </TableCell>
                   <TableCell>
                     <Badge variant={actionInfo.variant}>{actionInfo.label}</Badge>
                   </TableCell>
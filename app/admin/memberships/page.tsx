@@ -0,0 +1,142 @@
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { MEMBERSHIP_TYPES, getCurrentSeason } from '@/lib/memberships/service'
+import { MembershipReviewQueue } from '@/components/admin/membership-review-queue'
+import { MembershipsTable } from '@/components/admin/memberships-table'
+import { IncompleteRegistrationsList } from '@/components/admin/incomplete-registrations-list'
+import type {
+  IncompleteRegistrationForAdmin,
+  MembershipForAdmin,
+  MembershipReviewForAdmin,
+  MembershipType,
+} from '@/types/queries'
+
+async function getPendingReviews(): Promise<MembershipReviewForAdmin[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('membership_reviews')
+    .select('id, season, created_at, candidates, riders (id, first_name, last_name, email, slug)')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+
+  return (data as MembershipReviewForAdmin[] | null) ?? []
+}
+
+async function getMemberships(season: number, type: string | null): Promise<MembershipForAdmin[]> {
+  let query = getSupabaseAdmin()
+    .from('memberships')
+    .select(
+      'id, season, membership_id, type, source, note, created_at, riders (id, first_name, last_name, email), admins (name)'
+    )
+    .eq('season', season)
+
+  if (type === 'manual') {
+    query = query.eq('source', 'manual')
+  } else if (type) {
+    query = query.eq('type', type)
+  }
+
+  const { data } = await query
+
+  const memberships = (data as MembershipForAdmin[] | null) ?? []
+  return memberships.sort((a, b) =>
+    `${a.riders?.last_name} ${a.riders?.first_name}`.localeCompare(
+      `${b.riders?.last_name} ${b.riders?.first_name}`
+    )
+  )
+}
+
+async function getMembershipSeasons(): Promise<number[]> {
+  const { data } = await getSupabaseAdmin().from('memberships').select('season')
+
+  const seasons = new Set((data ?? []).map((m) => m.season))
+  seasons.add(getCurrentSeason())
+  return Array.from(seasons).sort((a, b) => b - a)
+}
+
+async function getIncompleteRegistrations(): Promise<IncompleteRegistrationForAdmin[]> {
+  const today = new Date().toISOString().split('T')[0]
+
+  const { data } = await getSupabaseAdmin()
+    .from('registrations')
+    .select(
+      'id, registered_at, riders (id, first_name, last_name, email), events!inner (id, name, event_date, season)'
+    )
+    .eq('status', 'incomplete: membership')
+    .gte('events.event_date', today)
+
+  const registrations = (data as IncompleteRegistrationForAdmin[] | null) ?? []
+  return registrations.sort((a, b) => a.events.event_date.localeCompare(b.events.event_date))
+}
+
+interface AdminMembershipsPageProps {
+  searchParams: Promise<{ season?: string; type?: string }>
+}
+
+export default async function AdminMembershipsPage({ searchParams }: AdminMembershipsPageProps) {
+  await requireAdmin()
+
+  const params = await searchParams
+  const season = params.season ? parseInt(params.season, 10) : getCurrentSeason()
+  const type =
+    params.type === 'manual' || MEMBERSHIP_TYPES.includes(params.type as MembershipType)
+      ? params.type!
+      : null
+
+  const [reviews, incomplete, memberships, seasons] = await Promise.all([
+    getPendingReviews(),
+    getIncompleteRegistrations(),
+    getMemberships(season, type),
+    getMembershipSeasons(),
+  ])
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Memberships</h1>
+        <p className="text-muted-foreground">
+          Saved CCN memberships, manual memberships, and registrations waiting on a membership.
+        </p>
+      </div>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-xl font-semibold">Needs Review ({reviews.length})</h2>
+          <p className="text-sm text-muted-foreground">
+            CCN returned more than one possible member for these riders, or only near matches. Pick
+            the right member to save their membership and confirm their registrations.
+          </p>
+        </div>
+        <MembershipReviewQueue reviews={reviews} />
+      </section>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-xl font-semibold">Incomplete Registrations ({incomplete.length})</h2>
+          <p className="text-sm text-muted-foreground">
+            Upcoming registrations stuck in <code>incomplete: membership</code>. Re-verify checks
+            CCN again and confirms the registration if the rider has since joined.
+          </p>
+        </div>
+        <IncompleteRegistrationsList registrations={incomplete} />
+      </section>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-xl font-semibold">
+            {season} Memberships ({memberships.length})
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Memberships saved from CCN lookups or added by hand. Expire an entry to force a fresh
+            CCN check the next time the rider registers.
+          </p>
+        </div>
+        <MembershipsTable
+          memberships={memberships}
+          seasons={seasons}
+          season={season}
+          membershipTypes={MEMBERSHIP_TYPES}
+        />
+      </section>
+    </div>
+  )
+}
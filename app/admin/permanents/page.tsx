@@ -0,0 +1,43 @@
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { PERMANENT_REQUEST_FIELDS } from '@/lib/events/permanent-requests'
+import { PermanentRequestQueue } from '@/components/admin/permanent-request-queue'
+import type { PermanentRequestForAdmin } from '@/types/queries'
+
+async function getPermanentRequests(): Promise<PermanentRequestForAdmin[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('events')
+    .select(
+      `${PERMANENT_REQUEST_FIELDS}, created_at, reviewed_at,
+      registrations (id, status, notes, riders (id, first_name, last_name, email))`
+    )
+    .eq('event_type', 'permanent')
+    .eq('status', 'requested')
+    .order('event_date', { ascending: true })
+
+  return (data as PermanentRequestForAdmin[] | null) ?? []
+}
+
+export default async function AdminPermanentsPage() {
+  await requireAdmin()
+
+  const requests = await getPermanentRequests()
+  const today = new Date().toISOString().split('T')[0]
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Permanents</h1>
+        <p className="text-muted-foreground">
+          Permanent rides requested by riders. Approve a request to schedule it and email riders
+          their control times, propose a different date, start time or start location, or reject it.
+        </p>
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-xl font-semibold">Awaiting Approval ({requests.length})</h2>
+        <PermanentRequestQueue requests={requests} today={today} />
+      </section>
+    </div>
+  )
+}
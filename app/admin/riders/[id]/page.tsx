@@ -4,7 +4,8 @@ import { getSupabaseAdmin } from '@/lib/supabase-server'
 import { parseLocalDate, formatFinishTime } from '@/lib/utils'
 import { notFound, redirect } from 'next/navigation'
 import Link from 'next/link'
-import { ChevronLeft, Clock } from 'lucide-react'
+import { ChevronLeft, Clock, Mail } from 'lucide-react'
+import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import {
@@ -15,7 +16,14 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import type { RiderDetail, RegistrationWithEvent, ResultWithEventForRider } from '@/types/queries'
+import { RiderMergeHistory } from '@/components/admin/rider-merge-history'
+import { AnonymizeRiderButton } from '@/components/admin/anonymize-rider-button'
+import type {
+  RiderDetail,
+  RegistrationWithEvent,
+  ResultWithEventForRider,
+  RiderMergeForAdmin,
+} from '@/types/queries'
 
 async function getRiderDetails(riderId: string): Promise<RiderDetail | null> {
   const { data: rider } = await getSupabaseAdmin()
@@ -64,6 +72,31 @@ async function getRiderResults(riderId: string): Promise<ResultWithEventForRider
   return (data as ResultWithEventForRider[]) ?? []
 }
 
+async function getRiderMerges(riderId: string): Promise<RiderMergeForAdmin[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('rider_merge_snapshots')
+    .select(
+      `
+      id,
+      merged_at,
+      unmerged_at,
+      source_riders,
+      dropped_rows,
+      merged_by_admin:admins!rider_merge_snapshots_merged_by_fkey (name)
+    `
+    )
+    .eq('target_rider_id', riderId)
+    .order('merged_at', { ascending: false })
+
+  return (data as RiderMergeForAdmin[]) ?? []
+}
+
+const PROFILE_VISIBILITY_LABELS: Record<string, string> = {
+  public: 'Full name',
+  initials: 'Initials only',
+  hidden: 'Hidden',
+}
+
 function getStatusBadge(status: string) {
   switch (status) {
     case 'finished':
@@ -78,6 +111,8 @@ function getStatusBadge(status: string) {
       return <Badge variant="destructive">DQ</Badge>
     case 'registered':
       return <Badge variant="secondary">Registered</Badge>
+    case 'waitlisted':
+      return <Badge variant="outline">Waitlisted</Badge>
     case 'cancelled':
       return <Badge variant="destructive">Cancelled</Badge>
     default:
@@ -97,10 +132,11 @@ export default async function RiderDetailPage({ params }: RiderPageProps) {
     redirect('/admin')
   }
 
-  const [rider, registrations, results] = await Promise.all([
+  const [rider, registrations, results, merges] = await Promise.all([
     getRiderDetails(id),
     getRiderRegistrations(id),
     getRiderResults(id),
+    getRiderMerges(id),
   ])
 
   if (!rider) {
@@ -122,11 +158,43 @@ export default async function RiderDetailPage({ params }: RiderPageProps) {
         Back to Riders
       </Link>
 
-      <div>
-        <h1 className="text-3xl font-bold">
-          {rider.first_name} {rider.last_name}
-        </h1>
-        <p className="text-muted-foreground">{rider.email || 'No email on file'}</p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">
+            {rider.first_name} {rider.last_name}
+          </h1>
+          <p className="text-muted-foreground">{rider.email || 'No email on file'}</p>
+          {rider.anonymized_at ? (
+            <p className="text-sm text-muted-foreground">
+              Personal data erased on{' '}
+              {new Date(rider.anonymized_at).toLocaleDateString('en-CA', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric',
+              })}
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Public profile:{' '}
+              {PROFILE_VISIBILITY_LABELS[rider.profile_visibility] ?? rider.profile_visibility}
+              {rider.exclude_from_records && ' · Left out of records'}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" asChild>
+            <Link href={`/admin/emails?rider=${rider.id}`}>
+              <Mail className="h-4 w-4 mr-2" />
+              Emails
+            </Link>
+          </Button>
+          {!rider.anonymized_at && (
+            <AnonymizeRiderButton
+              riderId={rider.id}
+              riderName={`${rider.first_name} ${rider.last_name}`}
+            />
+          )}
+        </div>
       </div>
 
       <div className="grid gap-4 md:grid-cols-4">
@@ -294,6 +362,19 @@ export default async function RiderDetailPage({ params }: RiderPageProps) {
           )}
         </CardContent>
       </Card>
+
+      {/* Merge history */}
+      {merges.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Merge History</CardTitle>
+            <CardDescription>Riders merged into this rider</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RiderMergeHistory merges={merges} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
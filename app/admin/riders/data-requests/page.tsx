@@ -0,0 +1,55 @@
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { isFullAdmin } from '@/lib/auth/roles'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { ChevronLeft } from 'lucide-react'
+import { DataRequestQueue } from '@/components/admin/data-request-queue'
+import type { RiderDataRequestForAdmin } from '@/types/queries'
+
+async function getPendingErasureRequests(): Promise<RiderDataRequestForAdmin[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('rider_data_requests')
+    .select(
+      'id, request_type, status, note, requested_at, riders (id, first_name, last_name, email, anonymized_at)'
+    )
+    .eq('request_type', 'erasure')
+    .eq('status', 'pending')
+    .order('requested_at', { ascending: true })
+
+  return (data as RiderDataRequestForAdmin[] | null) ?? []
+}
+
+export default async function AdminDataRequestsPage() {
+  const admin = await requireAdmin()
+
+  // Only full admins can access this page
+  if (!isFullAdmin(admin.role)) {
+    redirect('/admin')
+  }
+
+  const requests = await getPendingErasureRequests()
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/riders"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Back to Riders
+      </Link>
+
+      <div>
+        <h1 className="text-3xl font-bold">Erasure Requests</h1>
+        <p className="text-muted-foreground">
+          Riders who asked, from their signed-in account, for their personal data to be erased.
+          Anonymizing keeps their results in club and route totals. Decline a request if it
+          shouldn&apos;t go ahead, with a note saying why.
+        </p>
+      </div>
+
+      <DataRequestQueue requests={requests} />
+    </div>
+  )
+}
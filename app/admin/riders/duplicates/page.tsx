@@ -0,0 +1,77 @@
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { isFullAdmin } from '@/lib/auth/roles'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { ChevronLeft } from 'lucide-react'
+import { DuplicateRidersList } from '@/components/admin/duplicate-riders-list'
+import type { DuplicateClusterForAdmin, DuplicateRiderForAdmin } from '@/types/queries'
+
+async function getDuplicateClusters(): Promise<DuplicateClusterForAdmin[]> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: clusters } = await supabase
+    .from('rider_duplicate_clusters')
+    .select('id, score, reasons, created_at, rider_ids')
+    .eq('status', 'pending')
+    .order('score', { ascending: false })
+
+  if (!clusters || clusters.length === 0) {
+    return []
+  }
+
+  const riderIds = Array.from(new Set(clusters.flatMap((c) => c.rider_ids)))
+  const { data: riders } = await supabase
+    .from('riders')
+    .select(
+      'id, first_name, last_name, email, gender, created_at, registrations (count), results (season)'
+    )
+    .in('id', riderIds)
+
+  const riderById = new Map(
+    ((riders as DuplicateRiderForAdmin[] | null) ?? []).map((rider) => [rider.id, rider])
+  )
+
+  // Riders merged since the last scan drop out; skip clusters left with one
+  return clusters
+    .map(({ rider_ids, ...cluster }) => ({
+      ...cluster,
+      riders: rider_ids
+        .map((id) => riderById.get(id))
+        .filter((rider): rider is DuplicateRiderForAdmin => !!rider),
+    }))
+    .filter((cluster) => cluster.riders.length >= 2)
+}
+
+export default async function AdminDuplicateRidersPage() {
+  const admin = await requireAdmin()
+
+  // Only full admins can access this page
+  if (!isFullAdmin(admin.role)) {
+    redirect('/admin')
+  }
+
+  const clusters = await getDuplicateClusters()
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/riders"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Back to Riders
+      </Link>
+
+      <div>
+        <h1 className="text-3xl font-bold">Possible Duplicates</h1>
+        <p className="text-muted-foreground">
+          Riders who are probably the same person, based on similar names, shared emails, the
+          seasons they rode and events they never both rode. The list is refreshed nightly.
+        </p>
+      </div>
+
+      <DuplicateRidersList clusters={clusters} />
+    </div>
+  )
+}
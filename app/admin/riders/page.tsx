@@ -4,6 +4,9 @@ import { getSupabaseAdmin } from '@/lib/supabase-server'
 import { applyRiderSearchFilter } from '@/lib/utils/rider-search'
 import { redirect } from 'next/navigation'
 import dynamic from 'next/dynamic'
+import Link from 'next/link'
+import { ShieldCheck, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
 import type { RiderWithStats } from '@/types/queries'
 
 // Lazy-load RidersTable (large table component)
@@ -68,11 +71,27 @@ export default async function AdminRidersPage({ searchParams }: AdminRidersPageP
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Riders</h1>
-        <p className="text-muted-foreground">
-          View registered riders and their participation history
-        </p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Riders</h1>
+          <p className="text-muted-foreground">
+            View registered riders and their participation history
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/riders/data-requests">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Erasure Requests
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/riders/duplicates">
+              <Users className="h-4 w-4 mr-2" />
+              Possible Duplicates
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <RidersTable riders={riders} searchQuery={search} />
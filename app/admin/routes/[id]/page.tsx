@@ -4,8 +4,13 @@ import { notFound } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import Link from 'next/link'
 import { ChevronLeft } from 'lucide-react'
-import type { Route } from '@/types/queries'
+import { RouteControlsEditor } from '@/components/admin/route-controls-editor'
+import { toControlDefinition, waypointsToControls } from '@/lib/controls'
+import { parseRouteFile } from '@/lib/routes/route-file'
+import { logError } from '@/lib/errors'
+import type { ControlRow, Route } from '@/types/queries'
 import type { RouteOption } from '@/types/ui'
+import type { ControlDefinition } from '@/types/control-card'
 
 // Lazy-load RouteForm (complex form component)
 const RouteForm = dynamic(() => import('@/components/admin/route-form').then(mod => ({ default: mod.RouteForm })), {
@@ -40,9 +45,37 @@ async function getRoute(id: string): Promise<RouteOption | null> {
     cue_sheet_url: route.cue_sheet_url,
     notes: route.notes,
     is_active: route.is_active,
+    route_file_path: route.route_file_path,
+    elevation_gain_m: route.elevation_gain_m,
   }
 }
 
+/**
+ * Named waypoints from the route's stored GPX/TCX file, proposed as controls
+ */
+async function getRouteFileControls(path: string | null): Promise<ControlDefinition[]> {
+  if (!path) return []
+
+  const { data, error } = await getSupabaseAdmin().storage.from('route-files').download(path)
+  if (error || !data) {
+    logError(error, { operation: 'getRouteFileControls', context: { path } })
+    return []
+  }
+
+  const parsed = parseRouteFile(await data.text())
+  return parsed.route ? waypointsToControls(parsed.route.waypoints) : []
+}
+
+async function getRouteControls(routeId: string): Promise<ControlDefinition[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('route_controls')
+    .select('name, distance_km, address, control_type, info_question')
+    .eq('route_id', routeId)
+    .order('position', { ascending: true })
+
+  return ((data as ControlRow[]) ?? []).map(toControlDefinition)
+}
+
 async function getChapters() {
   const { data } = await getSupabaseAdmin()
     .from('chapters')
@@ -60,15 +93,18 @@ export default async function EditRoutePage({ params }: EditRoutePageProps) {
   const { id } = await params
   await requireAdmin()
 
-  const [route, chapters] = await Promise.all([
+  const [route, chapters, controls] = await Promise.all([
     getRoute(id),
     getChapters(),
+    getRouteControls(id),
   ])
 
   if (!route) {
     notFound()
   }
 
+  const fileControls = await getRouteFileControls(route.route_file_path)
+
   return (
     <div className="space-y-6">
       <Link
@@ -79,8 +115,14 @@ export default async function EditRoutePage({ params }: EditRoutePageProps) {
         Back to Routes
       </Link>
 
-      <div className="max-w-2xl">
+      <div className="max-w-2xl space-y-6">
         <RouteForm chapters={chapters} route={route} mode="edit" />
+        <RouteControlsEditor
+          routeId={route.id}
+          distanceKm={route.distance_km}
+          initialControls={controls}
+          fileControls={fileControls}
+        />
       </div>
     </div>
   )
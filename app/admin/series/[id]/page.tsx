@@ -0,0 +1,119 @@
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { notFound } from 'next/navigation'
+import { SeriesForm, type SeriesFormData } from '@/components/admin/series-form'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatEventType } from '@/lib/utils'
+import Link from 'next/link'
+import { ChevronLeft, ExternalLink } from 'lucide-react'
+
+interface SeriesEventRow {
+  id: string
+  name: string
+  event_date: string
+  distance_km: number
+  event_type: string
+  status: string | null
+}
+
+async function getSeries(seriesId: string) {
+  const { data } = await getSupabaseAdmin()
+    .from('event_series')
+    .select(
+      'id, slug, name, season, description, collection, award_id, required_distances, min_events, events (id, name, event_date, distance_km, event_type, status)'
+    )
+    .eq('id', seriesId)
+    .single()
+
+  return data
+}
+
+async function getAwards() {
+  const { data } = await getSupabaseAdmin()
+    .from('awards')
+    .select('id, title')
+    .order('title', { ascending: true })
+
+  return data ?? []
+}
+
+interface EditSeriesPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function EditSeriesPage({ params }: EditSeriesPageProps) {
+  const { id } = await params
+  await requireAdmin()
+
+  const [series, awards] = await Promise.all([getSeries(id), getAwards()])
+
+  if (!series) {
+    notFound()
+  }
+
+  const formData: SeriesFormData = {
+    id: series.id,
+    name: series.name,
+    season: series.season,
+    description: series.description,
+    collection: series.collection,
+    awardId: series.award_id,
+    requiredDistances: series.required_distances,
+    minEvents: series.min_events,
+  }
+  const events = [...(series.events as SeriesEventRow[])].sort((a, b) =>
+    a.event_date.localeCompare(b.event_date)
+  )
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/series"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Back to Series
+      </Link>
+
+      <div className="max-w-2xl space-y-6">
+        <SeriesForm awards={awards} series={formData} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Events</CardTitle>
+            <CardDescription>
+              Set the series on each event&apos;s edit form.{' '}
+              <Link
+                href={`/series/${series.slug}`}
+                className="inline-flex items-center gap-1 text-primary hover:underline"
+              >
+                View series page
+                <ExternalLink className="h-3 w-3" />
+              </Link>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No events in this series yet</p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {events.map((event) => (
+                  <li key={event.id} className="flex items-center justify-between py-2 text-sm">
+                    <Link href={`/admin/events/${event.id}`} className="hover:underline">
+                      {event.name}
+                    </Link>
+                    <span className="text-muted-foreground tabular-nums">
+                      {event.event_date} · {event.distance_km} km{' '}
+                      {formatEventType(event.event_type)}
+                      {event.status === 'cancelled' && ' · Cancelled'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { SeriesForm } from '@/components/admin/series-form'
+import Link from 'next/link'
+import { ChevronLeft } from 'lucide-react'
+
+async function getAwards() {
+  const { data } = await getSupabaseAdmin()
+    .from('awards')
+    .select('id, title')
+    .order('title', { ascending: true })
+
+  return data ?? []
+}
+
+export default async function NewSeriesPage() {
+  await requireAdmin()
+  const awards = await getAwards()
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/series"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Back to Series
+      </Link>
+
+      <div className="max-w-2xl">
+        <SeriesForm awards={awards} />
+      </div>
+    </div>
+  )
+}
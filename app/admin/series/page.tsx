@@ -0,0 +1,98 @@
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { describeSeriesRule } from '@/lib/series/completion'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ClickableTableRow } from '@/components/admin/clickable-table-row'
+import { Button } from '@/components/ui/button'
+import { Layers, Plus } from 'lucide-react'
+import Link from 'next/link'
+import type { EventSeriesForAdmin } from '@/types/queries'
+
+async function getSeries(): Promise<EventSeriesForAdmin[]> {
+  const { data } = await getSupabaseAdmin()
+    .from('event_series')
+    .select(
+      'id, slug, name, season, collection, required_distances, min_events, awards (title), events (count)'
+    )
+    .order('season', { ascending: false })
+    .order('name', { ascending: true })
+
+  return (data ?? []) as EventSeriesForAdmin[]
+}
+
+export default async function AdminSeriesPage() {
+  await requireAdmin()
+  const series = await getSeries()
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Series</h1>
+          <p className="text-muted-foreground">
+            Events ridden as one challenge, like Devil Week and Granite Anvil
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/admin/series/new">
+            <Plus className="h-4 w-4 mr-2" />
+            New Series
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Series</CardTitle>
+          <CardDescription>{series.length} series</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {series.length === 0 ? (
+            <div className="text-center py-8">
+              <Layers className="h-12 w-12 mx-auto text-muted-foreground/50" />
+              <p className="mt-4 text-muted-foreground">No series yet</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Season</TableHead>
+                    <TableHead>Events</TableHead>
+                    <TableHead>Completion</TableHead>
+                    <TableHead>Award</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {series.map((s) => (
+                    <ClickableTableRow key={s.id} href={`/admin/series/${s.id}`}>
+                      <TableCell className="font-medium">{s.name}</TableCell>
+                      <TableCell>{s.season}</TableCell>
+                      <TableCell>{s.events[0]?.count ?? 0}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {describeSeriesRule({
+                          requiredDistances: s.required_distances,
+                          minEvents: s.min_events,
+                        })}
+                      </TableCell>
+                      <TableCell>{s.awards?.title ?? '—'}</TableCell>
+                    </ClickableTableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
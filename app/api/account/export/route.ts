@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { getRider } from '@/lib/auth/get-rider'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logError } from '@/lib/errors'
+import { buildRiderDataExportCsv, getRiderDataExport } from '@/lib/riders/data-export'
+
+// Personal data, never cached
+export const dynamic = 'force-dynamic'
+
+/**
+ * Download everything we hold about the signed-in rider.
+ *
+ * Usage:
+ * - /api/account/export (JSON)
+ * - /api/account/export?format=csv
+ */
+export async function GET(request: Request) {
+  const rider = await getRider()
+  if (!rider) {
+    return NextResponse.json({ error: 'Please sign in again' }, { status: 401 })
+  }
+
+  const format = new URL(request.url).searchParams.get('format') === 'csv' ? 'csv' : 'json'
+
+  let data
+  try {
+    data = await getRiderDataExport(rider.id)
+  } catch (error) {
+    logError(error, { operation: 'account.exportData', context: { riderId: rider.id } })
+    return NextResponse.json({ error: 'Failed to export your data' }, { status: 500 })
+  }
+
+  if (!data) {
+    return NextResponse.json({ error: 'Rider not found' }, { status: 404 })
+  }
+
+  // Exports are logged so riders (and admins) can see when their data was downloaded
+  const { error: logRequestError } = await getSupabaseAdmin().from('rider_data_requests').insert({
+    rider_id: rider.id,
+    request_type: 'export',
+    status: 'completed',
+    resolved_at: new Date().toISOString(),
+  })
+
+  if (logRequestError) {
+    logError(logRequestError, {
+      operation: 'account.logExportRequest',
+      context: { riderId: rider.id },
+    })
+  }
+
+  const fileName = `randonneurs-ontario-data-${data.exportedAt.split('T')[0]}.${format}`
+  const body = format === 'csv' ? buildRiderDataExportCsv(data) : JSON.stringify(data, null, 2)
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type':
+        format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  })
+}
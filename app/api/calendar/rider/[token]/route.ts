@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logError } from '@/lib/errors'
+import { buildCalendar, CALENDAR_EVENT_FIELDS } from '@/lib/calendar/ics'
+import type { EventForCalendar, RegistrationForRiderCalendar } from '@/types/queries'
+
+// Personal feeds change whenever the rider registers, so they're never shared
+export const dynamic = 'force-dynamic'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+/**
+ * Generate a rider's personal iCal feed: every upcoming event they are
+ * registered for, including permanents. The token (riders.calendar_token) is
+ * the only credential, so unknown tokens get the same 404 as malformed ones.
+ *
+ * Usage:
+ * - /api/calendar/rider/[token].ics
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { token: tokenParam } = await params
+
+  // Strip .ics extension if present
+  const token = tokenParam.replace(/\.ics$/, '')
+  if (!UUID_PATTERN.test(token)) {
+    return NextResponse.json({ error: 'Calendar not found' }, { status: 404 })
+  }
+
+  const supabase = getSupabaseAdmin()
+
+  const { data: rider, error: riderError } = await supabase
+    .from('riders')
+    .select('id, first_name, last_name')
+    .eq('calendar_token', token)
+    .maybeSingle()
+
+  if (riderError) {
+    logError(riderError, { operation: 'calendar.fetchRider' })
+    return NextResponse.json({ error: 'Failed to fetch calendar' }, { status: 500 })
+  }
+
+  if (!rider) {
+    return NextResponse.json({ error: 'Calendar not found' }, { status: 404 })
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+  const { data: registrations, error: registrationsError } = await supabase
+    .from('registrations')
+    .select(`events!inner (${CALENDAR_EVENT_FIELDS}, chapters (slug, name))`)
+    .eq('rider_id', rider.id)
+    .eq('status', 'registered')
+    .gte('events.event_date', today)
+
+  if (registrationsError) {
+    logError(registrationsError, {
+      operation: 'calendar.fetchRiderEvents',
+      context: { riderId: rider.id },
+    })
+    return NextResponse.json({ error: 'Failed to fetch events' }, { status: 500 })
+  }
+
+  const events = ((registrations || []) as RegistrationForRiderCalendar[])
+    .map((registration) => registration.events)
+    .filter((event): event is EventForCalendar => event !== null)
+    .sort((a, b) => a.event_date.localeCompare(b.event_date))
+
+  const { error: icsError, value: icsContent } = buildCalendar(
+    events,
+    `Randonneurs Ontario - ${rider.first_name}'s Rides`
+  )
+
+  if (icsError || !icsContent) {
+    logError(icsError || new Error('iCal generation returned no content'), {
+      operation: 'calendar.generateICS',
+      context: { riderId: rider.id },
+    })
+    return NextResponse.json({ error: 'Failed to generate calendar' }, { status: 500 })
+  }
+
+  return new NextResponse(icsContent, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="my-rides.ics"',
+      'Cache-Control': 'private, max-age=900',
+    },
+  })
+}
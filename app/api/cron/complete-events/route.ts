@@ -1,15 +1,19 @@
 import { NextResponse } from 'next/server'
 import { getSupabaseAdmin } from '@/lib/supabase-server'
-import { closeHours, createTorontoDate } from '@/lib/brmTimes'
+import { createTorontoDate } from '@/lib/brmTimes'
+import { getTimeRuleSet } from '@/lib/time-rules'
 import { createPendingResultsAndSendEmails } from '@/lib/events/complete-event'
+import { expirePermanentRequests } from '@/lib/events/permanent-requests'
 import { logError } from '@/lib/errors'
 import type { EventForCronCompletion, EventUpdate } from '@/types/queries'
 
 /**
  * Cron endpoint to automatically mark events as 'completed' once their
  * closing time has passed, and send result submission emails to riders.
+ * Permanent requests still unreviewed after their ride date are cancelled.
  *
- * Closing time is calculated as: event_date + start_time + closeHours(distance)
+ * Closing time is calculated as: event_date + start_time + the overall time limit
+ * from the event type's rule set (see lib/time-rules.ts).
  * All times are interpreted as Toronto timezone (America/Toronto).
  *
  * This endpoint is called by GitHub Actions (see .github/workflows/complete-events.yml).
@@ -19,7 +23,7 @@ import type { EventForCronCompletion, EventUpdate } from '@/types/queries'
 const DEFAULT_START_TIME = '08:00' // 8am default if no start time specified
 
 function calculateClosingTime(event: EventForCronCompletion): Date {
-  const { event_date, start_time, distance_km } = event
+  const { event_date, start_time, distance_km, event_type } = event
 
   // Parse event date and start time
   const [year, month, day] = event_date.split('-').map(Number)
@@ -28,8 +32,8 @@ function calculateClosingTime(event: EventForCronCompletion): Date {
   // Create start datetime in Toronto timezone (handles EST/EDT correctly)
   const startDate = createTorontoDate(year, month - 1, day, hours, minutes)
 
-  // Calculate closing time by adding closeHours to start time
-  const closingMinutes = closeHours(distance_km) * 60
+  // Calculate closing time by adding the overall time limit to start time
+  const closingMinutes = getTimeRuleSet(event_type, distance_km).finishLimitMinutes(distance_km)
   const closingDate = new Date(startDate.getTime() + closingMinutes * 60 * 1000)
 
   return closingDate
@@ -62,7 +66,7 @@ export async function GET(request: Request) {
     // Fetch all scheduled events (exclude cancelled and already completed/submitted)
     const { data: events, error: fetchError } = await supabase
       .from('events')
-      .select('id, name, event_date, start_time, distance_km, chapters(name)')
+      .select('id, name, event_date, start_time, distance_km, event_type, chapters(name)')
       .eq('status', 'scheduled')
 
     if (fetchError) {
@@ -113,11 +117,14 @@ export async function GET(request: Request) {
       }
     }
 
+    const expiredRequests = await expirePermanentRequests(now)
+
     return NextResponse.json({
       success: true,
       checked: scheduledEvents.length,
       completed: completedEvents.length,
       completedEvents,
+      expiredRequests,
       errors: errors.length > 0 ? errors : undefined,
     })
   } catch (error) {
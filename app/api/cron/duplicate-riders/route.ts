@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { scanForDuplicateRiders } from '@/lib/riders/duplicate-scan'
+import { logError } from '@/lib/errors'
+
+/**
+ * Cron endpoint that scans the riders table for likely duplicates and
+ * refreshes the clusters shown on /admin/riders/duplicates (see
+ * lib/riders/duplicate-scan.ts).
+ *
+ * This endpoint is called by GitHub Actions (see .github/workflows/duplicate-riders.yml).
+ * It requires the CRON_SECRET environment variable for authentication.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    logError(new Error('CRON_SECRET environment variable not configured'), {
+      operation: 'duplicate-riders.auth',
+    })
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 })
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { riders, clusters, added, removed } = await scanForDuplicateRiders()
+
+    return NextResponse.json({ success: true, riders, clusters, added, removed })
+  } catch (error) {
+    logError(error, { operation: 'duplicate-riders' })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
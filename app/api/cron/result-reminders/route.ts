@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { sendDueResultFollowups } from '@/lib/events/result-followup'
+import { logError } from '@/lib/errors'
+
+/**
+ * Cron endpoint that reminds riders to submit their results, applies each
+ * chapter's results deadline and sends organizers a digest of who hasn't
+ * responded (see lib/events/result-followup.ts). Each step runs once, however
+ * often this runs.
+ *
+ * This endpoint is called by GitHub Actions (see .github/workflows/result-reminders.yml).
+ * It requires the CRON_SECRET environment variable for authentication.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    logError(new Error('CRON_SECRET environment variable not configured'), {
+      operation: 'result-reminders.auth',
+    })
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 })
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { checked, remindersSent, digestsSent, resultsFlagged, resultsMarkedDns, errors } =
+      await sendDueResultFollowups()
+
+    return NextResponse.json({
+      success: true,
+      checked,
+      remindersSent,
+      digestsSent,
+      resultsFlagged,
+      resultsMarkedDns,
+      errors: errors.length > 0 ? errors : undefined,
+    })
+  } catch (error) {
+    logError(error, { operation: 'result-reminders' })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { processEmailOutbox } from '@/lib/email/outbox'
+import { logError } from '@/lib/errors'
+
+/**
+ * Cron endpoint that retries emails in the outbox whose delivery failed
+ * (see lib/email/outbox.ts for the backoff schedule).
+ *
+ * This endpoint is called by GitHub Actions (see .github/workflows/send-emails.yml).
+ * It requires the CRON_SECRET environment variable for authentication.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    logError(new Error('CRON_SECRET environment variable not configured'), {
+      operation: 'send-emails.auth',
+    })
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 })
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { processed, sent, failed } = await processEmailOutbox()
+
+    return NextResponse.json({ success: true, processed, sent, failed })
+  } catch (error) {
+    logError(error, { operation: 'send-emails' })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
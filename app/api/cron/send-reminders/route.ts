@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { sendDueEventReminders } from '@/lib/events/reminders'
+import { logError } from '@/lib/errors'
+
+/**
+ * Cron endpoint that sends pre-ride reminders to registered riders and the
+ * final roster to each event's organizer (see lib/events/reminders.ts).
+ * Each email is sent once, however often this runs.
+ *
+ * This endpoint is called by GitHub Actions (see .github/workflows/send-reminders.yml).
+ * It requires the CRON_SECRET environment variable for authentication.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    logError(new Error('CRON_SECRET environment variable not configured'), {
+      operation: 'send-reminders.auth',
+    })
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 })
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { checked, remindersSent, rostersSent, errors } = await sendDueEventReminders()
+
+    return NextResponse.json({
+      success: true,
+      checked,
+      remindersSent,
+      rostersSent,
+      errors: errors.length > 0 ? errors : undefined,
+    })
+  } catch (error) {
+    logError(error, { operation: 'send-reminders' })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { getEventBySlug, getRegisteredRiders } from '@/lib/data/events'
+import { apiError, apiJson, apiRoute } from '@/lib/api/respond'
+import { toApiEventDetail } from '@/lib/api/serialize'
+
+interface RouteParams {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * GET /api/v1/events/{slug}
+ *
+ * Event detail with registered riders, named as on the event page.
+ */
+export const GET = apiRoute('api.v1.event', async (request: Request, { params }: RouteParams) => {
+  const { slug } = await params
+
+  const event = await getEventBySlug(slug)
+  if (!event) return apiError(404, 'Event not found')
+
+  const riders = await getRegisteredRiders(event.id)
+
+  return apiJson(request, { data: toApiEventDetail(event, riders) })
+})
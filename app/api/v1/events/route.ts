@@ -0,0 +1,54 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { getAllChapterSlugs, getChapterInfo, getEventsInRange } from '@/lib/data/events'
+import { apiError, apiJson, apiRoute } from '@/lib/api/respond'
+import { paginate, parsePageRequest } from '@/lib/api/pagination'
+import { isParamError, parseDateParam } from '@/lib/api/params'
+import { toApiEvent } from '@/lib/api/serialize'
+
+// Longest from–to range in one request
+const MAX_RANGE_DAYS = 366
+
+const EVENT_TYPES = ['brevet', 'populaire', 'fleche', 'permanent']
+
+/**
+ * GET /api/v1/events?chapter=toronto&from=2025-01-01&to=2025-12-31&type=brevet
+ *
+ * Events between two dates (default: the next year), oldest first.
+ */
+export const GET = apiRoute('api.v1.events', async (request: Request) => {
+  const { searchParams } = new URL(request.url)
+
+  const pageRequest = parsePageRequest(searchParams)
+  if (isParamError(pageRequest)) return apiError(400, pageRequest.error)
+
+  const chapter = searchParams.get('chapter')
+  if (chapter && !getChapterInfo(chapter)) {
+    return apiError(400, `Invalid chapter. Valid chapters: ${getAllChapterSlugs().join(', ')}`)
+  }
+
+  const type = searchParams.get('type')
+  if (type && !EVENT_TYPES.includes(type)) {
+    return apiError(400, `Invalid type. Valid types: ${EVENT_TYPES.join(', ')}`)
+  }
+
+  const fromParam = parseDateParam(searchParams, 'from')
+  if (isParamError(fromParam)) return apiError(400, fromParam.error)
+  const toParam = parseDateParam(searchParams, 'to')
+  if (isParamError(toParam)) return apiError(400, toParam.error)
+
+  const from = fromParam ?? format(new Date(), 'yyyy-MM-dd')
+  const to = toParam ?? format(addDays(parseISO(from), MAX_RANGE_DAYS - 1), 'yyyy-MM-dd')
+  const rangeDays = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1
+  if (rangeDays < 1) {
+    return apiError(400, 'to must be on or after from')
+  }
+  if (rangeDays > MAX_RANGE_DAYS) {
+    return apiError(400, `The date range can be at most ${MAX_RANGE_DAYS} days`)
+  }
+
+  const events = (await getEventsInRange(from, to, chapter))
+    .map(toApiEvent)
+    .filter((event) => !type || event.type === type)
+
+  return apiJson(request, paginate(events, pageRequest))
+})
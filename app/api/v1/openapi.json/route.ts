@@ -0,0 +1,11 @@
+import { apiJson, apiRoute } from '@/lib/api/respond'
+import { getOpenApiDocument } from '@/lib/api/openapi'
+
+/**
+ * GET /api/v1/openapi.json
+ *
+ * OpenAPI 3.1 description of the public API.
+ */
+export const GET = apiRoute('api.v1.openapi', async (request: Request) => {
+  return apiJson(request, getOpenApiDocument())
+})
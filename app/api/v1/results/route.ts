@@ -0,0 +1,56 @@
+import { getAllChapterSlugs, getChapterMeta, getChapterResults } from '@/lib/data/results'
+import { getDbSlug } from '@/lib/chapter-config'
+import { apiError, apiJson, apiRoute } from '@/lib/api/respond'
+import { paginate, parsePageRequest } from '@/lib/api/pagination'
+import { isParamError, parseSeasonParam } from '@/lib/api/params'
+import { toApiEventResults, type ApiEventResults } from '@/lib/api/serialize'
+
+/**
+ * Results chapters that together cover every event once. PBP and series
+ * collections (e.g. granite-anvil) are subsets of these.
+ */
+function getSeasonChapterSlugs(): string[] {
+  return getAllChapterSlugs().filter((slug) => slug !== 'pbp' && getDbSlug(slug) !== null)
+}
+
+/**
+ * GET /api/v1/results?season=2025&chapter=toronto
+ *
+ * A season's results by event, oldest first. Without a chapter, every
+ * chapter's events are included.
+ */
+export const GET = apiRoute('api.v1.results', async (request: Request) => {
+  const { searchParams } = new URL(request.url)
+
+  const pageRequest = parsePageRequest(searchParams)
+  if (isParamError(pageRequest)) return apiError(400, pageRequest.error)
+
+  const season = parseSeasonParam(searchParams)
+  if (isParamError(season)) return apiError(400, season.error)
+  if (season === null) return apiError(400, 'season is required')
+
+  const chapter = searchParams.get('chapter')
+  if (chapter && !getChapterMeta(chapter)) {
+    return apiError(400, `Invalid chapter. Valid chapters: ${getAllChapterSlugs().join(', ')}`)
+  }
+
+  const chapters = chapter ? [chapter] : getSeasonChapterSlugs()
+  const chapterResults = await Promise.all(
+    chapters.map(async (slug) =>
+      (await getChapterResults(slug, season)).map((event) => toApiEventResults(event, slug))
+    )
+  )
+
+  const seen = new Set<string>()
+  const events: ApiEventResults[] = []
+  for (const event of chapterResults.flat()) {
+    if (event.eventId) {
+      if (seen.has(event.eventId)) continue
+      seen.add(event.eventId)
+    }
+    events.push(event)
+  }
+  events.sort((a, b) => a.date.localeCompare(b.date) || b.distanceKm - a.distanceKm)
+
+  return apiJson(request, paginate(events, pageRequest))
+})
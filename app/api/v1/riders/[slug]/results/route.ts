@@ -0,0 +1,33 @@
+import { getRiderBySlug, getRiderResults } from '@/lib/data/results'
+import { apiError, apiJson, apiRoute } from '@/lib/api/respond'
+import { isParamError, parseSeasonParam } from '@/lib/api/params'
+import { toApiRiderResults } from '@/lib/api/serialize'
+
+interface RouteParams {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * GET /api/v1/riders/{slug}/results?season=2025
+ *
+ * A rider's results by season, most recent season first.
+ */
+export const GET = apiRoute(
+  'api.v1.riderResults',
+  async (request: Request, { params }: RouteParams) => {
+    const { slug } = await params
+    const { searchParams } = new URL(request.url)
+
+    const season = parseSeasonParam(searchParams)
+    if (isParamError(season)) return apiError(400, season.error)
+
+    const rider = await getRiderBySlug(slug)
+    if (!rider) return apiError(404, 'Rider not found')
+
+    const years = (await getRiderResults(slug)).filter(
+      (year) => season === null || year.year === season
+    )
+
+    return apiJson(request, { data: toApiRiderResults(rider, years) })
+  }
+)
@@ -0,0 +1,21 @@
+import { getRouteBySlug, getRouteControls } from '@/lib/data/routes'
+import { apiError, apiJson, apiRoute } from '@/lib/api/respond'
+import { toApiRouteDetail } from '@/lib/api/serialize'
+
+interface RouteParams {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * GET /api/v1/routes/{slug}
+ *
+ * Route detail with its controls in order.
+ */
+export const GET = apiRoute('api.v1.route', async (request: Request, { params }: RouteParams) => {
+  const { slug } = await params
+
+  const [route, controls] = await Promise.all([getRouteBySlug(slug), getRouteControls(slug)])
+  if (!route) return apiError(404, 'Route not found')
+
+  return apiJson(request, { data: toApiRouteDetail(route, controls) })
+})
@@ -0,0 +1,28 @@
+import { getActiveRoutes, getAllChapterSlugs, getChapterInfo } from '@/lib/data/routes'
+import { apiError, apiJson, apiRoute } from '@/lib/api/respond'
+import { paginate, parsePageRequest } from '@/lib/api/pagination'
+import { isParamError } from '@/lib/api/params'
+import { toApiRoute } from '@/lib/api/serialize'
+
+/**
+ * GET /api/v1/routes?chapter=ottawa
+ *
+ * Active routes, by name.
+ */
+export const GET = apiRoute('api.v1.routes', async (request: Request) => {
+  const { searchParams } = new URL(request.url)
+
+  const pageRequest = parsePageRequest(searchParams)
+  if (isParamError(pageRequest)) return apiError(400, pageRequest.error)
+
+  const chapter = searchParams.get('chapter')
+  if (chapter && !getChapterInfo(chapter)) {
+    return apiError(400, `Invalid chapter. Valid chapters: ${getAllChapterSlugs().join(', ')}`)
+  }
+
+  const routes = (await getActiveRoutes())
+    .filter((route) => !chapter || route.chapterSlug === chapter)
+    .map(toApiRoute)
+
+  return apiJson(request, paginate(routes, pageRequest))
+})
@@ -3,9 +3,11 @@ import Link from 'next/link'
 import Image from 'next/image'
 import { PageShell } from '@/components/page-shell'
 import { RegisterCTA } from '@/components/register-cta'
+import { RegistrationWindowNotice } from '@/components/registration-window-notice'
 import { MarkdownContent } from '@/components/markdown-content'
 import { RwgpsEmbed } from '@/components/rwgps-embed'
 import { getEventBySlug, getRegisteredRiders } from '@/lib/data/events'
+import { getRegistrationWindowState } from '@/lib/registrations/window'
 import { MapPinIcon, CalendarIcon } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 
@@ -70,6 +72,12 @@ export default async function RegisterPage({ params }: PageProps) {
   }
 
   const registeredRiders = await getRegisteredRiders(event.id)
+  const isFull = event.maxRiders !== null && registeredRiders.length >= event.maxRiders
+  const isRegistrationOpen =
+    getRegistrationWindowState({
+      opensAt: event.registrationOpensAt ? new Date(event.registrationOpensAt) : null,
+      closesAt: event.registrationClosesAt ? new Date(event.registrationClosesAt) : null,
+    }) === 'open'
 
   return (
     <PageShell>
@@ -134,7 +142,17 @@ export default async function RegisterPage({ params }: PageProps) {
 
           {/* Mobile Register CTA */}
           <div className="lg:hidden mt-6">
-            <RegisterCTA eventId={event.id} isPermanent={event.type === 'Permanent'} />
+            <RegistrationWindowNotice
+              opensAt={event.registrationOpensAt}
+              closesAt={event.registrationClosesAt}
+            />
+            {isRegistrationOpen && (
+              <RegisterCTA
+                eventId={event.id}
+                isPermanent={event.type === 'Permanent'}
+                isFull={isFull}
+              />
+            )}
           </div>
         </div>
       </header>
@@ -205,6 +223,8 @@ export default async function RegisterPage({ params }: PageProps) {
                 <h2 className="font-serif text-2xl tracking-tight">Registered</h2>
                 <span className="text-sm tabular-nums text-muted-foreground">
                   {registeredRiders.length} {registeredRiders.length === 1 ? 'rider' : 'riders'}
+                  {event.maxRiders !== null && ` of ${event.maxRiders}`}
+                  {isFull && ' · Full'}
                 </span>
               </div>
               {registeredRiders.length > 0 ? (
@@ -225,7 +245,17 @@ export default async function RegisterPage({ params }: PageProps) {
 
           {/* Right Column - Registration Form (desktop only) */}
           <div className="hidden lg:block lg:w-[400px] lg:shrink-0">
-            <RegisterCTA eventId={event.id} isPermanent={event.type === 'Permanent'} />
+            <RegistrationWindowNotice
+              opensAt={event.registrationOpensAt}
+              closesAt={event.registrationClosesAt}
+            />
+            {isRegistrationOpen && (
+              <RegisterCTA
+                eventId={event.id}
+                isPermanent={event.type === 'Permanent'}
+                isFull={isFull}
+              />
+            )}
           </div>
         </div>
       </div>
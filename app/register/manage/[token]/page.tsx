@@ -0,0 +1,45 @@
+import { notFound } from 'next/navigation'
+import { PageShell } from '@/components/page-shell'
+import { ManageRegistrationForm } from '@/components/manage-registration-form'
+import { getRegistrationByToken } from '@/lib/actions/manage-registration'
+
+interface PageProps {
+  params: Promise<{ token: string }>
+}
+
+export const dynamic = 'force-dynamic'
+
+export async function generateMetadata({ params }: PageProps) {
+  const { token } = await params
+  const result = await getRegistrationByToken(token)
+
+  if (!result.success || !result.data) {
+    return {
+      title: 'Manage Registration',
+    }
+  }
+
+  return {
+    title: `Manage Registration: ${result.data.eventName} ${result.data.eventDistance}km`,
+    robots: { index: false },
+  }
+}
+
+export default async function ManageRegistrationPage({ params }: PageProps) {
+  const { token } = await params
+  const result = await getRegistrationByToken(token)
+
+  if (!result.success || !result.data) {
+    notFound()
+  }
+
+  return (
+    <PageShell>
+      <div className="content-container-wide py-8 md:py-12">
+        <div className="max-w-2xl mx-auto">
+          <ManageRegistrationForm token={token} initialData={result.data} />
+        </div>
+      </div>
+    </PageShell>
+  )
+}
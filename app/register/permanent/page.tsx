@@ -52,7 +52,7 @@ export default async function PermanentRegistrationPage() {
                     </li>
                     <li className="flex gap-3">
                       <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary/10 text-primary text-xs font-medium flex items-center justify-center">4</span>
-                      <span>You&apos;ll receive a control card and route details by email</span>
+                      <span>Once the route coordinator approves your ride, you&apos;ll receive your control times and route details by email</span>
                     </li>
                     <li className="flex gap-3">
                       <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary/10 text-primary text-xs font-medium flex items-center justify-center">5</span>
@@ -2,7 +2,14 @@ import { notFound } from 'next/navigation'
 import Link from 'next/link'
 import { PageShell } from '@/components/page-shell'
 import { PageHero } from '@/components/page-hero'
-import { getRouteBySlug, getRouteResults, getChapterInfo } from '@/lib/data/routes'
+import {
+  getRouteBySlug,
+  getRouteResults,
+  getRouteControls,
+  getRouteRecordProgression,
+  getChapterInfo,
+} from '@/lib/data/routes'
+import { getControlTypeLabel } from '@/lib/controls'
 import { AwardBadge } from '@/components/award-badge'
 
 interface PageProps {
@@ -39,7 +46,12 @@ export default async function RouteDetailPage({ params }: PageProps) {
     notFound()
   }
 
-  const [route, results] = await Promise.all([getRouteBySlug(slug), getRouteResults(slug)])
+  const [route, results, controls, recordProgression] = await Promise.all([
+    getRouteBySlug(slug),
+    getRouteResults(slug),
+    getRouteControls(slug),
+    getRouteRecordProgression(slug),
+  ])
 
   if (!route) {
     notFound()
@@ -108,6 +120,71 @@ export default async function RouteDetailPage({ params }: PageProps) {
         </div>
       </div>
 
+      {/* Controls */}
+      {controls.length > 0 && (
+        <div className="content-container pt-16 md:pt-20">
+          <h2 className="font-serif text-2xl md:text-3xl tracking-tight mb-6">Controls</h2>
+          <ol className="divide-y divide-border/50 border-y border-border/50">
+            {controls.map((control, index) => (
+              <li
+                key={`${control.distance}-${index}`}
+                className="flex items-baseline gap-4 py-2 text-sm"
+              >
+                <span className="w-16 shrink-0 tabular-nums text-muted-foreground">
+                  {control.distance} km
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium">{control.name}</p>
+                  {control.address && <p className="text-muted-foreground">{control.address}</p>}
+                </div>
+                {control.controlType !== 'staffed' && (
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {getControlTypeLabel(control.controlType)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Record Progression */}
+      {recordProgression.length > 0 && (
+        <div className="content-container pt-16 md:pt-20">
+          <h2 className="font-serif text-2xl md:text-3xl tracking-tight mb-6">
+            Record Progression
+          </h2>
+          <ol className="divide-y divide-border/50 border-y border-border/50">
+            {recordProgression.map((record, index) => (
+              <li
+                key={`${record.date}-${record.riderSlug ?? index}`}
+                className="flex items-center gap-4 py-2 text-sm"
+              >
+                <span className="w-36 shrink-0 text-muted-foreground">
+                  {formatFullDate(record.date)}
+                </span>
+                <div className="flex min-w-0 flex-1 items-center gap-1.5">
+                  {record.riderSlug ? (
+                    <Link
+                      href={`/riders/${record.riderSlug}`}
+                      className="truncate hover:text-primary transition-colors"
+                    >
+                      {record.riderName}
+                    </Link>
+                  ) : (
+                    <span className="truncate">{record.riderName}</span>
+                  )}
+                  {record.isCurrent && (
+                    <AwardBadge award={{ title: 'Course Record' }} className="shrink-0" />
+                  )}
+                </div>
+                <span className="shrink-0 tabular-nums text-muted-foreground">{record.time}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {/* Results */}
       <div className="content-container py-16 md:py-20">
         {results.length === 0 ? (
@@ -132,16 +209,20 @@ export default async function RouteDetailPage({ params }: PageProps) {
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-8 gap-y-1">
                   {event.riders.map((rider, index) => (
                     <div
-                      key={`${rider.slug}-${index}`}
+                      key={`${rider.slug ?? rider.name}-${index}`}
                       className="flex items-center justify-between py-1.5 border-b border-border/50 gap-2"
                     >
                       <div className="flex items-center gap-1.5 min-w-0">
-                        <Link
-                          href={`/riders/${rider.slug}`}
-                          className="text-sm hover:text-primary transition-colors truncate"
-                        >
-                          {rider.name}
-                        </Link>
+                        {rider.slug ? (
+                          <Link
+                            href={`/riders/${rider.slug}`}
+                            className="text-sm hover:text-primary transition-colors truncate"
+                          >
+                            {rider.name}
+                          </Link>
+                        ) : (
+                          <span className="text-sm truncate">{rider.name}</span>
+                        )}
                         {rider.isCourseRecord && (
                           <AwardBadge award={{ title: 'Course Record' }} className="shrink-0" />
                         )}
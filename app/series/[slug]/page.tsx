@@ -0,0 +1,206 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { PageShell } from '@/components/page-shell'
+import { PageHero } from '@/components/page-hero'
+import { MarkdownContent } from '@/components/markdown-content'
+import { RegistrationForm } from '@/components/registration-form'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { getSeriesBySlug, getSeriesProgress, type SeriesLeg } from '@/lib/data/series'
+import { getRegistrationWindowState } from '@/lib/registrations/window'
+
+interface PageProps {
+  params: Promise<{ slug: string }>
+}
+
+// Always render fresh - the progress board changes as riders register and finish
+export const dynamic = 'force-dynamic'
+
+export async function generateMetadata({ params }: PageProps) {
+  const { slug } = await params
+  const series = await getSeriesBySlug(slug)
+
+  if (!series) {
+    return {
+      title: 'Series Not Found',
+    }
+  }
+
+  return {
+    title: series.name,
+    description: `${series.name}: ${series.ruleDescription.toLowerCase()}. Register for every event at once and follow the progress board.`,
+  }
+}
+
+function formatLegDate(dateString: string): string {
+  const date = new Date(dateString + 'T00:00:00')
+  return date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+function isLegOpen(leg: SeriesLeg): boolean {
+  return (
+    leg.status === 'scheduled' &&
+    getRegistrationWindowState({
+      opensAt: leg.registrationOpensAt ? new Date(leg.registrationOpensAt) : null,
+      closesAt: leg.registrationClosesAt ? new Date(leg.registrationClosesAt) : null,
+    }) === 'open'
+  )
+}
+
+export default async function SeriesPage({ params }: PageProps) {
+  const { slug } = await params
+  const series = await getSeriesBySlug(slug)
+
+  if (!series) {
+    notFound()
+  }
+
+  const progress = await getSeriesProgress(slug)
+  const openLegs = series.legs.filter(isLegOpen)
+
+  return (
+    <PageShell>
+      <PageHero
+        eyebrow={`${series.season} Series`}
+        title={series.name}
+        description={series.ruleDescription}
+      />
+
+      <div className="content-container-wide pt-8 md:pt-12 pb-12 md:pb-16">
+        <div className="flex flex-col gap-8 md:gap-12 lg:flex-row lg:gap-16">
+          <div className="flex-1 min-w-0 space-y-12">
+            {series.description && <MarkdownContent content={series.description} />}
+
+            {/* Events */}
+            <section>
+              <h2 className="font-serif text-2xl tracking-tight pb-4">Events</h2>
+              {series.legs.length > 0 ? (
+                <ul className="divide-y divide-border border-y border-border">
+                  {series.legs.map((leg) => (
+                    <li key={leg.id} className="flex items-baseline justify-between gap-4 py-3">
+                      <div className="min-w-0">
+                        <Link
+                          href={`/register/${leg.slug}`}
+                          className="font-medium hover:underline underline-offset-2"
+                        >
+                          {leg.name}
+                        </Link>
+                        {leg.startLocation && (
+                          <p className="text-sm text-muted-foreground truncate">
+                            {leg.startLocation}
+                          </p>
+                        )}
+                      </div>
+                      <span className="shrink-0 text-sm tabular-nums text-muted-foreground">
+                        {formatLegDate(leg.date)} · {leg.distance} km
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Events for this series haven&apos;t been scheduled yet.
+                </p>
+              )}
+              {series.awardTitle && (
+                <p className="mt-4 text-sm text-muted-foreground">
+                  Riders who complete the series receive the{' '}
+                  <span className="font-medium text-foreground">{series.awardTitle}</span> award.
+                </p>
+              )}
+            </section>
+
+            {/* Progress Board */}
+            <section>
+              <div className="flex items-baseline justify-between pb-4">
+                <h2 className="font-serif text-2xl tracking-tight">Progress</h2>
+                <span className="text-sm tabular-nums text-muted-foreground">
+                  {progress.filter((row) => row.complete).length} of {progress.length}{' '}
+                  {progress.length === 1 ? 'rider' : 'riders'} complete
+                </span>
+              </div>
+              {progress.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Rider</TableHead>
+                        {series.legs.map((leg) => (
+                          <TableHead key={leg.id} className="text-right whitespace-nowrap">
+                            {leg.distance} km
+                          </TableHead>
+                        ))}
+                        <TableHead className="w-[100px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {progress.map((row, index) => (
+                        <TableRow key={row.riderSlug ?? `registrant-${index}`}>
+                          <TableCell className="font-medium">
+                            {row.riderSlug ? (
+                              <Link
+                                href={`/riders/${row.riderSlug}`}
+                                className="hover:underline underline-offset-2"
+                              >
+                                {row.name}
+                              </Link>
+                            ) : (
+                              row.name
+                            )}
+                          </TableCell>
+                          {series.legs.map((leg) => {
+                            const entry = row.legs[leg.id]
+                            return (
+                              <TableCell
+                                key={leg.id}
+                                className={`text-right font-mono whitespace-nowrap ${
+                                  entry?.status !== 'finished' ? 'text-muted-foreground' : ''
+                                }`}
+                              >
+                                {entry?.label ?? '—'}
+                              </TableCell>
+                            )
+                          })}
+                          <TableCell className="text-right">
+                            {row.complete && <Badge variant="secondary">Complete</Badge>}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No riders yet.</p>
+              )}
+            </section>
+          </div>
+
+          {/* Series Registration */}
+          {openLegs.length > 0 && (
+            <div className="lg:w-[400px] lg:shrink-0">
+              <p className="text-sm text-muted-foreground mb-4">
+                Register once for{' '}
+                {openLegs.length === 1
+                  ? 'the one event still open'
+                  : `all ${openLegs.length} events open for registration`}
+                . Full events put you on their waitlist.
+              </p>
+              <RegistrationForm eventId={openLegs[0].id} seriesId={series.id} />
+            </div>
+          )}
+        </div>
+      </div>
+    </PageShell>
+  )
+}
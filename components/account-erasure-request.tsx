@@ -0,0 +1,86 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { requestRiderErasure } from '@/lib/actions/account'
+
+interface AccountErasureRequestProps {
+  /** When the rider's open erasure request was made, if they have one */
+  pendingSince: string | null
+}
+
+export function AccountErasureRequest({ pendingSince }: AccountErasureRequestProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [note, setNote] = useState('')
+  const [confirming, setConfirming] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (pendingSince) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You asked us to erase your data on {format(new Date(pendingSince), 'MMM d, yyyy')}. An
+        organizer will review the request.
+      </p>
+    )
+  }
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+
+    if (!confirming) {
+      setConfirming(true)
+      return
+    }
+
+    startTransition(async () => {
+      const result = await requestRiderErasure(note)
+      if (result.success) {
+        setError(null)
+        router.refresh()
+      } else {
+        setError(result.error || 'Something went wrong')
+      }
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {error && (
+        <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">{error}</div>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        We&apos;ll remove your name, email, emergency contact, notes and uploaded files, and close
+        your account. Your results stay in event and club totals as &ldquo;Anonymous Rider&rdquo;.
+        This can&apos;t be undone.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="erasureNote">Anything we should know (optional)</Label>
+        <Textarea
+          id="erasureNote"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          disabled={isPending}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="submit" variant="destructive" disabled={isPending}>
+          {isPending ? 'Sending...' : confirming ? 'Yes, erase my data' : 'Ask us to erase my data'}
+        </Button>
+        {confirming && !isPending && (
+          <Button type="button" variant="ghost" onClick={() => setConfirming(false)}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { updateAccountProfile } from '@/lib/actions/account'
+import { isProfileVisibility, type ProfileVisibility } from '@/lib/riders/privacy'
+import type { RiderAccount } from '@/types/queries'
+
+interface AccountProfileFormProps {
+  rider: RiderAccount
+}
+
+export function AccountProfileForm({ rider }: AccountProfileFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [gender, setGender] = useState(rider.gender || '')
+  const [emergencyContactName, setEmergencyContactName] = useState(
+    rider.emergency_contact_name || ''
+  )
+  const [emergencyContactPhone, setEmergencyContactPhone] = useState(
+    rider.emergency_contact_phone || ''
+  )
+  const [visibility, setVisibility] = useState<ProfileVisibility>(
+    isProfileVisibility(rider.profile_visibility) ? rider.profile_visibility : 'public'
+  )
+  const [excludeFromRecords, setExcludeFromRecords] = useState(rider.exclude_from_records)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+
+    startTransition(async () => {
+      const result = await updateAccountProfile({
+        gender: gender || null,
+        emergencyContactName,
+        emergencyContactPhone,
+        profileVisibility: visibility,
+        excludeFromRecords,
+      })
+
+      if (result.success) {
+        setError(null)
+        setMessage('Your profile has been updated.')
+        router.refresh()
+      } else {
+        setMessage(null)
+        setError(result.error || 'Something went wrong')
+      }
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {message && (
+        <div className="p-3 rounded-lg bg-green-50 text-green-800 dark:bg-green-950/30 dark:text-green-300 text-sm">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="gender">Gender</Label>
+        <Select value={gender} onValueChange={setGender} disabled={isPending}>
+          <SelectTrigger id="gender" className="w-full">
+            <SelectValue placeholder="Select..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="M">Male</SelectItem>
+            <SelectItem value="F">Female</SelectItem>
+            <SelectItem value="X">Non-binary / Other</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="emergencyContactName">Emergency contact name</Label>
+          <Input
+            id="emergencyContactName"
+            value={emergencyContactName}
+            onChange={(e) => setEmergencyContactName(e.target.value)}
+            disabled={isPending}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="emergencyContactPhone">Emergency contact phone</Label>
+          <Input
+            id="emergencyContactPhone"
+            type="tel"
+            value={emergencyContactPhone}
+            onChange={(e) => setEmergencyContactPhone(e.target.value)}
+            disabled={isPending}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="profileVisibility">How your name appears publicly</Label>
+        <Select
+          value={visibility}
+          onValueChange={(value) => {
+            if (isProfileVisibility(value)) setVisibility(value)
+          }}
+          disabled={isPending}
+        >
+          <SelectTrigger id="profileVisibility" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="public">Full name, with a public profile page</SelectItem>
+            <SelectItem value="initials">Initials only, no profile page</SelectItem>
+            <SelectItem value="hidden">Full name in results, no profile page</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Your results always count towards event and club totals. Without a profile page you
+          aren&apos;t listed in the rider directory.
+        </p>
+      </div>
+
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="excludeFromRecords"
+          checked={excludeFromRecords}
+          onCheckedChange={(checked) => setExcludeFromRecords(checked === true)}
+          disabled={isPending}
+        />
+        <div className="space-y-1">
+          <Label htmlFor="excludeFromRecords">Leave me out of the records tables</Label>
+          <p className="text-xs text-muted-foreground">
+            You won&apos;t be listed on the records page, in streaks or in fastest times.
+          </p>
+        </div>
+      </div>
+
+      <Button type="submit" disabled={isPending}>
+        {isPending ? 'Saving...' : 'Save profile'}
+      </Button>
+    </form>
+  )
+}
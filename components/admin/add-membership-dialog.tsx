@@ -0,0 +1,228 @@
+'use client'
+
+import { useState, useTransition, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { InputGroup, InputGroupAddon, InputGroupInput } from '@/components/ui/input-group'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { searchRiders, type RiderSearchResult } from '@/lib/actions/riders'
+import { addManualMembership } from '@/lib/actions/memberships'
+import { toast } from 'sonner'
+import { Loader2, Plus, Search } from 'lucide-react'
+import type { MembershipType } from '@/types/queries'
+
+interface AddMembershipDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  season: number
+  membershipTypes: MembershipType[]
+}
+
+export function AddMembershipDialog({
+  open,
+  onOpenChange,
+  season,
+  membershipTypes,
+}: AddMembershipDialogProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<RiderSearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [selectedRider, setSelectedRider] = useState<RiderSearchResult | null>(null)
+
+  const [type, setType] = useState<MembershipType>('Individual Membership')
+  const [membershipId, setMembershipId] = useState('')
+  const [reason, setReason] = useState('')
+
+  // Debounced search
+  useEffect(() => {
+    if (searchQuery.length < 2 || selectedRider) {
+      setSearchResults([])
+      return
+    }
+
+    const timeoutId = setTimeout(async () => {
+      setIsSearching(true)
+      setSearchResults(await searchRiders(searchQuery))
+      setIsSearching(false)
+    }, 300)
+
+    return () => clearTimeout(timeoutId)
+  }, [searchQuery, selectedRider])
+
+  // Reset state when dialog closes
+  useEffect(() => {
+    if (!open) {
+      setSearchQuery('')
+      setSearchResults([])
+      setSelectedRider(null)
+      setType('Individual Membership')
+      setMembershipId('')
+      setReason('')
+    }
+  }, [open])
+
+  const handleSelectRider = (rider: RiderSearchResult) => {
+    setSelectedRider(rider)
+    setSearchQuery(`${rider.first_name} ${rider.last_name}`)
+    setSearchResults([])
+  }
+
+  const handleSubmit = () => {
+    if (!selectedRider) return
+
+    startTransition(async () => {
+      const result = await addManualMembership({
+        riderId: selectedRider.id,
+        season,
+        type,
+        membershipId: membershipId ? Number(membershipId) : null,
+        reason,
+      })
+
+      if (result.success) {
+        const count = result.data?.registrationsUpdated ?? 0
+        toast.success(
+          `Added membership for ${selectedRider.first_name} ${selectedRider.last_name}` +
+            (count > 0 ? `, ${count} registration${count !== 1 ? 's' : ''} confirmed` : '')
+        )
+        router.refresh()
+        onOpenChange(false)
+      } else {
+        toast.error(result.error || 'Failed to add membership')
+      }
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Manual Membership</DialogTitle>
+          <DialogDescription>
+            For riders CCN can&apos;t find. Replaces any saved {season} membership.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Rider *</Label>
+            <InputGroup>
+              <InputGroupAddon>
+                <Search className="h-4 w-4" />
+              </InputGroupAddon>
+              <InputGroupInput
+                placeholder="Search by name or email…"
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value)
+                  setSelectedRider(null)
+                }}
+              />
+            </InputGroup>
+
+            {isSearching && (
+              <div className="flex items-center justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {!isSearching && searchResults.length > 0 && (
+              <div className="border rounded-md max-h-40 overflow-y-auto">
+                {searchResults.map((rider) => (
+                  <button
+                    key={rider.id}
+                    type="button"
+                    className="w-full px-3 py-2 text-left hover:bg-muted/50 border-b last:border-b-0"
+                    onClick={() => handleSelectRider(rider)}
+                  >
+                    <p className="font-medium">
+                      {rider.first_name} {rider.last_name}
+                    </p>
+                    {rider.email && <p className="text-xs text-muted-foreground">{rider.email}</p>}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="membershipType">Type *</Label>
+            <Select value={type} onValueChange={(v) => setType(v as MembershipType)}>
+              <SelectTrigger id="membershipType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent position="popper" sideOffset={4}>
+                {membershipTypes.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {t}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="membershipId">CCN membership # (optional)</Label>
+            <Input
+              id="membershipId"
+              inputMode="numeric"
+              value={membershipId}
+              onChange={(e) => setMembershipId(e.target.value.replace(/\D/g, ''))}
+              placeholder="11669640"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason *</Label>
+            <Textarea
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Joined under a different name, confirmed receipt by email"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!selectedRider || !reason.trim() || isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Adding...
+              </>
+            ) : (
+              <>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Membership
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
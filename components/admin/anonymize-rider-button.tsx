@@ -0,0 +1,92 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Loader2, UserX } from 'lucide-react'
+import { anonymizeRider } from '@/lib/actions/rider-data-requests'
+import { toast } from 'sonner'
+
+interface AnonymizeRiderButtonProps {
+  riderId: string
+  riderName: string
+  size?: 'default' | 'sm'
+}
+
+export function AnonymizeRiderButton({
+  riderId,
+  riderName,
+  size = 'default',
+}: AnonymizeRiderButtonProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [open, setOpen] = useState(false)
+
+  const handleAnonymize = () => {
+    startTransition(async () => {
+      const result = await anonymizeRider(riderId)
+
+      if (result.success) {
+        toast.success('Rider anonymized')
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to anonymize rider')
+        setOpen(false)
+      }
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size={size} className="text-destructive hover:text-destructive">
+          <UserX className="h-4 w-4 mr-2" />
+          Anonymize
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Anonymize Rider</AlertDialogTitle>
+          <AlertDialogDescription>
+            This erases <strong>{riderName}</strong>&apos;s name, email, emergency contact, notes,
+            uploaded files, merge history and sign-in account. Their results, registrations and
+            memberships are kept for club totals under &ldquo;Anonymous Rider&rdquo;. This action
+            cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault()
+              handleAnonymize()
+            }}
+            disabled={isPending}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Anonymizing...
+              </>
+            ) : (
+              'Anonymize Rider'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
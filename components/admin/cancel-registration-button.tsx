@@ -0,0 +1,93 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { UserMinus, Loader2 } from 'lucide-react'
+import { cancelRegistration } from '@/lib/actions/registrations'
+import { toast } from 'sonner'
+
+interface CancelRegistrationButtonProps {
+  registrationId: string
+  riderName: string
+  isWaitlisted: boolean
+}
+
+export function CancelRegistrationButton({
+  registrationId,
+  riderName,
+  isWaitlisted,
+}: CancelRegistrationButtonProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [open, setOpen] = useState(false)
+
+  const handleCancel = () => {
+    startTransition(async () => {
+      const result = await cancelRegistration(registrationId)
+
+      if (result.success) {
+        toast.success('Registration cancelled')
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to cancel registration')
+        setOpen(false)
+      }
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+          title="Cancel registration"
+        >
+          <UserMinus className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel Registration</AlertDialogTitle>
+          <AlertDialogDescription>
+            Cancel <strong>{riderName}</strong>&apos;s{' '}
+            {isWaitlisted ? 'spot on the waitlist' : 'registration'}?
+            {!isWaitlisted &&
+              ' If the event has a waitlist, the next rider will be registered and emailed.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Keep</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleCancel}
+            disabled={isPending}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Cancelling...
+              </>
+            ) : (
+              'Cancel Registration'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, Loader2, Check } from 'lucide-react'
+import { updateChapterContacts } from '@/lib/actions/chapters'
+import type { ChapterOptionWithContacts } from '@/types/ui'
+
+interface ChapterContactsFormProps {
+  chapter: ChapterOptionWithContacts
+}
+
+export function ChapterContactsForm({ chapter }: ChapterContactsFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+  const [vpEmail, setVpEmail] = useState(chapter.vp_email ?? '')
+  const [routeCoordinatorEmail, setRouteCoordinatorEmail] = useState(
+    chapter.route_coordinator_email ?? ''
+  )
+  const [treasurerEmail, setTreasurerEmail] = useState(chapter.treasurer_email ?? '')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSuccess(false)
+
+    startTransition(async () => {
+      const result = await updateChapterContacts(chapter.id, {
+        vpEmail: vpEmail || null,
+        routeCoordinatorEmail: routeCoordinatorEmail || null,
+        treasurerEmail: treasurerEmail || null,
+      })
+
+      if (result.success) {
+        setSuccess(true)
+        router.refresh()
+      } else {
+        setError(result.error || 'Failed to update chapter')
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{chapter.name}</CardTitle>
+        <CardDescription>Who receives this chapter&apos;s admin emails</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert>
+              <Check className="h-4 w-4" />
+              <AlertDescription>Contacts saved</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor={`vp-${chapter.id}`}>VP</Label>
+            <Input
+              id={`vp-${chapter.id}`}
+              type="email"
+              value={vpEmail}
+              onChange={(e) => setVpEmail(e.target.value)}
+              disabled={isPending}
+            />
+            <p className="text-xs text-muted-foreground">
+              Result submissions, registration confirmations, rider changes and event rosters
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`route-coordinator-${chapter.id}`}>Route Coordinator</Label>
+            <Input
+              id={`route-coordinator-${chapter.id}`}
+              type="email"
+              value={routeCoordinatorEmail}
+              onChange={(e) => setRouteCoordinatorEmail(e.target.value)}
+              placeholder="Same as VP"
+              disabled={isPending}
+            />
+            <p className="text-xs text-muted-foreground">
+              New permanent requests and their rosters
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`treasurer-${chapter.id}`}>Treasurer</Label>
+            <Input
+              id={`treasurer-${chapter.id}`}
+              type="email"
+              value={treasurerEmail}
+              onChange={(e) => setTreasurerEmail(e.target.value)}
+              disabled={isPending}
+            />
+            <p className="text-xs text-muted-foreground">
+              Registrations where membership couldn&apos;t be verified
+            </p>
+          </div>
+
+          <Button type="submit" disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Contacts'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, Loader2, Check } from 'lucide-react'
+import { updateChapterRegistrationDefaults } from '@/lib/actions/chapters'
+import type { ChapterOptionWithWindowDefaults } from '@/types/ui'
+
+interface ChapterRegistrationDefaultsFormProps {
+  chapter: ChapterOptionWithWindowDefaults
+}
+
+export function ChapterRegistrationDefaultsForm({ chapter }: ChapterRegistrationDefaultsFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+  const [opensDaysBefore, setOpensDaysBefore] = useState(
+    chapter.registration_opens_days_before?.toString() ?? ''
+  )
+  const [closesHoursBefore, setClosesHoursBefore] = useState(
+    chapter.registration_closes_hours_before?.toString() ?? ''
+  )
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSuccess(false)
+
+    startTransition(async () => {
+      const result = await updateChapterRegistrationDefaults(chapter.id, {
+        opensDaysBefore: opensDaysBefore ? parseInt(opensDaysBefore, 10) : null,
+        closesHoursBefore: closesHoursBefore ? parseInt(closesHoursBefore, 10) : null,
+      })
+
+      if (result.success) {
+        setSuccess(true)
+        router.refresh()
+      } else {
+        setError(result.error || 'Failed to update chapter')
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{chapter.name}</CardTitle>
+        <CardDescription>
+          Default registration window for events that don&apos;t set their own
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert>
+              <Check className="h-4 w-4" />
+              <AlertDescription>Registration defaults saved</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`opens-${chapter.id}`}>Opens (days before start)</Label>
+              <Input
+                id={`opens-${chapter.id}`}
+                type="number"
+                min="0"
+                step="1"
+                value={opensDaysBefore}
+                onChange={(e) => setOpensDaysBefore(e.target.value)}
+                placeholder="As soon as listed"
+                disabled={isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`closes-${chapter.id}`}>Closes (hours before start)</Label>
+              <Input
+                id={`closes-${chapter.id}`}
+                type="number"
+                min="0"
+                step="1"
+                value={closesHoursBefore}
+                onChange={(e) => setClosesHoursBefore(e.target.value)}
+                placeholder="At start"
+                disabled={isPending}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Defaults'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
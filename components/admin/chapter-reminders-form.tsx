@@ -0,0 +1,115 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, Loader2, Check } from 'lucide-react'
+import { updateChapterReminders } from '@/lib/actions/chapters'
+import type { ChapterOptionWithReminders } from '@/types/ui'
+
+interface ChapterRemindersFormProps {
+  chapter: ChapterOptionWithReminders
+}
+
+export function ChapterRemindersForm({ chapter }: ChapterRemindersFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+  const [daysBefore, setDaysBefore] = useState(chapter.reminder_days_before.toString())
+  const [checklist, setChecklist] = useState(chapter.reminder_checklist ?? '')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSuccess(false)
+
+    startTransition(async () => {
+      const result = await updateChapterReminders(chapter.id, {
+        daysBefore: parseInt(daysBefore, 10),
+        checklist: checklist || null,
+      })
+
+      if (result.success) {
+        setSuccess(true)
+        router.refresh()
+      } else {
+        setError(result.error || 'Failed to update chapter')
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{chapter.name}</CardTitle>
+        <CardDescription>
+          Reminder emailed to registered riders before each event, with the start details and
+          controls
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert>
+              <Check className="h-4 w-4" />
+              <AlertDescription>Reminder settings saved</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor={`reminder-days-${chapter.id}`}>Send (days before start)</Label>
+            <Input
+              id={`reminder-days-${chapter.id}`}
+              type="number"
+              min="1"
+              max="14"
+              step="1"
+              value={daysBefore}
+              onChange={(e) => setDaysBefore(e.target.value)}
+              required
+              disabled={isPending}
+              className="sm:w-1/2"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`reminder-checklist-${chapter.id}`}>Checklist</Label>
+            <Textarea
+              id={`reminder-checklist-${chapter.id}`}
+              value={checklist}
+              onChange={(e) => setChecklist(e.target.value)}
+              placeholder={'Front and rear lights\nReflective vest\nBrevet card and pen'}
+              rows={5}
+              disabled={isPending}
+              className="resize-y"
+            />
+            <p className="text-xs text-muted-foreground">One item per line</p>
+          </div>
+
+          <Button type="submit" disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Reminders'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertCircle, Loader2, Check } from 'lucide-react'
+import { updateChapterResultFollowup } from '@/lib/actions/chapters'
+import type { ChapterOptionWithResultFollowup } from '@/types/ui'
+
+interface ChapterResultFollowupFormProps {
+  chapter: ChapterOptionWithResultFollowup
+}
+
+/**
+ * Parse "3, 7" into days; null if any entry isn't a whole number.
+ */
+function parseDays(value: string): number[] | null {
+  const days = value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((part) => Number(part))
+  return days.every((day) => Number.isInteger(day) && day > 0) ? days : null
+}
+
+export function ChapterResultFollowupForm({ chapter }: ChapterResultFollowupFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+  const [reminderDays, setReminderDays] = useState(chapter.result_reminder_days.join(', '))
+  const [deadlineDays, setDeadlineDays] = useState(chapter.result_deadline_days.toString())
+  const [deadlineAction, setDeadlineAction] = useState(chapter.result_deadline_action)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSuccess(false)
+
+    const days = parseDays(reminderDays)
+    if (!days) {
+      setError('Reminder days must be a list of days, e.g. 3, 7')
+      return
+    }
+
+    startTransition(async () => {
+      const result = await updateChapterResultFollowup(chapter.id, {
+        reminderDays: days,
+        deadlineDays: parseInt(deadlineDays, 10),
+        deadlineAction: deadlineAction === 'dns' ? 'dns' : 'flag',
+      })
+
+      if (result.success) {
+        setSuccess(true)
+        router.refresh()
+      } else {
+        setError(result.error || 'Failed to update chapter')
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{chapter.name}</CardTitle>
+        <CardDescription>
+          Riders who haven&apos;t submitted their results are reminded after the event, and the
+          organizer gets a list of who hasn&apos;t responded
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert>
+              <Check className="h-4 w-4" />
+              <AlertDescription>Result follow-up settings saved</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`result-reminder-days-${chapter.id}`}>
+                Remind (days after the event)
+              </Label>
+              <Input
+                id={`result-reminder-days-${chapter.id}`}
+                value={reminderDays}
+                onChange={(e) => setReminderDays(e.target.value)}
+                placeholder="e.g., 3, 7"
+                disabled={isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`result-deadline-days-${chapter.id}`}>
+                Deadline (days after the event)
+              </Label>
+              <Input
+                id={`result-deadline-days-${chapter.id}`}
+                type="number"
+                min="1"
+                max="90"
+                step="1"
+                value={deadlineDays}
+                onChange={(e) => setDeadlineDays(e.target.value)}
+                required
+                disabled={isPending}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`result-deadline-action-${chapter.id}`}>At the deadline</Label>
+            <Select value={deadlineAction} onValueChange={setDeadlineAction} disabled={isPending}>
+              <SelectTrigger id={`result-deadline-action-${chapter.id}`} className="sm:w-1/2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="flag">Flag as no response</SelectItem>
+                <SelectItem value="dns">Mark as DNS</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Days count from when the event closes. Leave reminders blank to only apply the
+              deadline.
+            </p>
+          </div>
+
+          <Button type="submit" disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Follow-up'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,17 +1,44 @@
 'use client'
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Plus, Trash2, Printer, GripVertical, Download, Loader2 } from 'lucide-react'
-import type { CardRider } from '@/types/control-card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2, Printer, GripVertical, Download, Loader2, Save, Undo2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { saveEventControls, clearEventControls } from '@/lib/actions/controls'
+import { CONTROL_TYPES } from '@/lib/controls'
+import type { CardRider, ControlDefinition, ControlType } from '@/types/control-card'
 
 interface ControlInput {
   id: string
   name: string
   distance: string
+  address: string
+  controlType: ControlType
+  infoQuestion: string
+}
+
+type ControlInputField = 'name' | 'distance' | 'controlType' | 'infoQuestion'
+
+function newControlInput(name = '', distance = ''): ControlInput {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    distance,
+    address: '',
+    controlType: 'staffed',
+    infoQuestion: '',
+  }
 }
 
 interface EventInput {
@@ -36,26 +63,48 @@ interface ControlCardsFormProps {
   event: EventInput
   riders: CardRider[]
   organizer?: OrganizerInput
+  initialControls?: ControlDefinition[]
+  controlsSource?: 'event' | 'route' | 'none' // where initialControls came from
 }
 
-export function ControlCardsForm({ event, riders, organizer }: ControlCardsFormProps) {
+export function ControlCardsForm({
+  event,
+  riders,
+  organizer,
+  initialControls = [],
+  controlsSource = 'none',
+}: ControlCardsFormProps) {
+  const router = useRouter()
+  const [isSaving, startSaving] = useTransition()
+
   // Organizer details - pre-fill from logged-in admin
   const [organizerName, setOrganizerName] = useState(organizer?.name || '')
   const [organizerPhone, setOrganizerPhone] = useState(organizer?.phone || '')
   const [organizerEmail, setOrganizerEmail] = useState(organizer?.email || '')
 
-  // Controls - initialize with start and finish
-  const [controls, setControls] = useState<ControlInput[]>([
-    { id: crypto.randomUUID(), name: event.startLocation || 'Start', distance: '0' },
-    { id: crypto.randomUUID(), name: 'Finish', distance: String(event.distance) },
-  ])
+  // Controls - initialize from saved controls, otherwise start and finish
+  const [controls, setControls] = useState<ControlInput[]>(() =>
+    initialControls.length > 0
+      ? initialControls.map((c) => ({
+          id: crypto.randomUUID(),
+          name: c.name,
+          distance: String(c.distance),
+          address: c.address || '',
+          controlType: c.controlType,
+          infoQuestion: c.infoQuestion || '',
+        }))
+      : [
+          newControlInput(event.startLocation || 'Start', '0'),
+          newControlInput('Finish', String(event.distance)),
+        ]
+  )
 
   // Extra blank cards for day-of registrations
   const [extraBlankCards, setExtraBlankCards] = useState(0)
 
   const addControl = useCallback(() => {
     // Insert before the last control (finish)
-    const newControl = { id: crypto.randomUUID(), name: '', distance: '' }
+    const newControl = newControlInput()
     setControls((prev) => [...prev.slice(0, -1), newControl, prev[prev.length - 1]])
   }, [])
 
@@ -63,7 +112,7 @@ export function ControlCardsForm({ event, riders, organizer }: ControlCardsFormP
     setControls((prev) => prev.filter((c) => c.id !== id))
   }, [])
 
-  const updateControl = useCallback((id: string, field: 'name' | 'distance', value: string) => {
+  const updateControl = useCallback((id: string, field: ControlInputField, value: string) => {
     setControls((prev) => prev.map((c) => (c.id === id ? { ...c, [field]: value } : c)))
   }, [])
 
@@ -172,11 +221,7 @@ export function ControlCardsForm({ event, riders, organizer }: ControlCardsFormP
           const distanceKm = (distanceMeters / 1000).toFixed(1)
           console.log(`[RWGPS] Control: "${name}" at ${distanceKm}km (${distanceMeters}m)`)
 
-          return {
-            id: crypto.randomUUID(),
-            name,
-            distance: distanceKm,
-          }
+          return newControlInput(name, distanceKm)
         }
       )
 
@@ -193,9 +238,9 @@ export function ControlCardsForm({ event, riders, organizer }: ControlCardsFormP
     }
   }, [event.rwgpsId])
 
-  // Auto-import controls from RWGPS on mount
+  // Auto-import controls from RWGPS on mount, unless the route or event has saved controls
   useEffect(() => {
-    if (event.rwgpsId) {
+    if (event.rwgpsId && initialControls.length === 0) {
       importFromRwgps()
     }
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
@@ -216,6 +261,8 @@ export function ControlCardsForm({ event, riders, organizer }: ControlCardsFormP
         sortedControls.map((c) => ({
           name: c.name,
           distance: parseFloat(c.distance || '0'),
+          controlType: c.controlType,
+          infoQuestion: c.controlType === 'info' ? c.infoQuestion || undefined : undefined,
         }))
       )
     )
@@ -227,6 +274,41 @@ export function ControlCardsForm({ event, riders, organizer }: ControlCardsFormP
     return `/admin/events/${event.id}/control-cards/print?${params.toString()}`
   }, [event.id, organizerName, organizerPhone, organizerEmail, controls, extraBlankCards])
 
+  const saveForEvent = useCallback(() => {
+    startSaving(async () => {
+      const result = await saveEventControls(
+        event.id,
+        controls.map((c) => ({
+          name: c.name,
+          distance: c.distance === '' ? NaN : parseFloat(c.distance),
+          address: c.address || null,
+          controlType: c.controlType,
+          infoQuestion: c.infoQuestion || null,
+        }))
+      )
+
+      if (result.success) {
+        toast.success('Controls saved for this event')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to save controls')
+      }
+    })
+  }, [event.id, controls, router])
+
+  const resetToRouteControls = useCallback(() => {
+    startSaving(async () => {
+      const result = await clearEventControls(event.id)
+
+      if (result.success) {
+        toast.success('Event now uses the route controls')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to reset controls')
+      }
+    })
+  }, [event.id, router])
+
   const isFormValid =
     organizerName &&
     organizerPhone &&
@@ -280,80 +362,106 @@ export function ControlCardsForm({ event, riders, organizer }: ControlCardsFormP
         <CardHeader>
           <CardTitle>Control Points</CardTitle>
           <CardDescription>
-            Define control checkpoints along the route. Times will be calculated automatically based
-            on BRM rules.
+            Define control checkpoints along the route. Times will be calculated automatically using
+            the rules for this event type (brevet, populaire, flèche, or LRM 1200+).
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
             {controls.map((control, index) => (
-              <div key={control.id} className="flex items-center gap-2">
-                <div className="flex items-center gap-1 text-muted-foreground">
-                  <GripVertical className="h-4 w-4" />
-                  <div className="flex flex-col">
-                    <button
-                      type="button"
-                      onClick={() => moveControl(index, 'up')}
-                      disabled={index === 0}
-                      className="h-3 hover:text-foreground disabled:opacity-30"
-                    >
-                      <svg
-                        className="h-3 w-3"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="2"
+              <div key={control.id} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-1 text-muted-foreground">
+                    <GripVertical className="h-4 w-4" />
+                    <div className="flex flex-col">
+                      <button
+                        type="button"
+                        onClick={() => moveControl(index, 'up')}
+                        disabled={index === 0}
+                        className="h-3 hover:text-foreground disabled:opacity-30"
                       >
-                        <polyline points="18 15 12 9 6 15" />
-                      </svg>
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => moveControl(index, 'down')}
-                      disabled={index === controls.length - 1}
-                      className="h-3 hover:text-foreground disabled:opacity-30"
-                    >
-                      <svg
-                        className="h-3 w-3"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="2"
+                        <svg
+                          className="h-3 w-3"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                        >
+                          <polyline points="18 15 12 9 6 15" />
+                        </svg>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveControl(index, 'down')}
+                        disabled={index === controls.length - 1}
+                        className="h-3 hover:text-foreground disabled:opacity-30"
                       >
-                        <polyline points="6 9 12 15 18 9" />
-                      </svg>
-                    </button>
+                        <svg
+                          className="h-3 w-3"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                        >
+                          <polyline points="6 9 12 15 18 9" />
+                        </svg>
+                      </button>
+                    </div>
                   </div>
-                </div>
-                <Input
-                  placeholder="Control name"
-                  value={control.name}
-                  onChange={(e) => updateControl(control.id, 'name', e.target.value)}
-                  className="flex-1"
-                />
-                <div className="flex items-center gap-1">
                   <Input
-                    type="number"
-                    placeholder="km"
-                    value={control.distance}
-                    onChange={(e) => updateControl(control.id, 'distance', e.target.value)}
-                    className="w-24"
-                    min="0"
-                    step="0.1"
+                    placeholder="Control name"
+                    value={control.name}
+                    onChange={(e) => updateControl(control.id, 'name', e.target.value)}
+                    className="flex-1"
                   />
-                  <span className="text-sm text-muted-foreground">km</span>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      placeholder="km"
+                      value={control.distance}
+                      onChange={(e) => updateControl(control.id, 'distance', e.target.value)}
+                      className="w-24"
+                      min="0"
+                      step="0.1"
+                    />
+                    <span className="text-sm text-muted-foreground">km</span>
+                  </div>
+                  <Select
+                    value={control.controlType}
+                    onValueChange={(value) => updateControl(control.id, 'controlType', value)}
+                  >
+                    <SelectTrigger className="w-28" aria-label="Control type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONTROL_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeControl(control.id)}
+                    disabled={controls.length <= 2}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove control</span>
+                  </Button>
                 </div>
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => removeControl(control.id)}
-                  disabled={controls.length <= 2}
-                  className="text-muted-foreground hover:text-destructive"
-                >
-                  <Trash2 className="h-4 w-4" />
-                  <span className="sr-only">Remove control</span>
-                </Button>
+                {control.controlType === 'info' && (
+                  <Input
+                    placeholder="Info question, e.g. What colour is the church door?"
+                    aria-label="Info question"
+                    value={control.infoQuestion}
+                    onChange={(e) => updateControl(control.id, 'infoQuestion', e.target.value)}
+                    className="ml-8 w-auto"
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -378,9 +486,45 @@ export function ControlCardsForm({ event, riders, organizer }: ControlCardsFormP
                 Import from RWGPS
               </Button>
             )}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={saveForEvent}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-1" />
+              )}
+              Save for this Event
+            </Button>
+            {controlsSource === 'event' && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={resetToRouteControls}
+                disabled={isSaving}
+              >
+                <Undo2 className="h-4 w-4 mr-1" />
+                Use Route Controls
+              </Button>
+            )}
           </div>
+          {controlsSource === 'event' && (
+            <p className="text-sm text-muted-foreground">
+              Using controls saved for this event instead of the route&apos;s controls.
+            </p>
+          )}
+          {controlsSource === 'route' && (
+            <p className="text-sm text-muted-foreground">
+              Pre-filled from the route&apos;s saved controls.
+            </p>
+          )}
           {rwgpsError && <p className="text-sm text-destructive">{rwgpsError}</p>}
-          {!event.rwgpsId && (
+          {!event.rwgpsId && controlsSource === 'none' && (
             <p className="text-sm text-muted-foreground">
               No RWGPS route linked to this event. Add control points manually or link a route.
             </p>
@@ -2,6 +2,7 @@
 
 import type { ControlPoint, CardRider, OrganizerInfo, CardEvent } from '@/types/control-card'
 import { REGULATIONS_TEXT, EVENT_INFO_TEXT } from '@/types/control-card'
+import { getControlTypeLabel } from '@/lib/controls'
 import Image from 'next/image'
 
 // Helper to render text with bold label (text before first colon)
@@ -360,6 +361,12 @@ export function ControlCardsPrint({
           margin-top: 0.02in;
         }
 
+        .control-question {
+          font-size: 8pt;
+          font-style: italic;
+          margin-top: 0.02in;
+        }
+
         .time-cell {
           border-left: 1px solid #d9d9d9;
           padding: 0.04in 0 0.04in 0.06in;
@@ -508,6 +515,7 @@ function CardFront({
               {String(totalAllowableTime.minutes).padStart(2, '0')}
             </span>
           </div>
+          <div style={{ fontSize: '7pt', marginTop: '0.02in' }}>{event.timeRules} rules</div>
         </div>
 
         <div style={{ marginTop: '0.12in' }}>
@@ -643,12 +651,20 @@ function CardBack({
             <div key={control.id} className="control-row">
               <div className="control-info">
                 <div className="control-name">{control.name}</div>
-                <div className="control-distance">{control.distance} km</div>
+                <div className="control-distance">
+                  {control.distance} km
+                  {control.controlType && control.controlType !== 'staffed' && (
+                    <> &middot; {getControlTypeLabel(control.controlType)} control</>
+                  )}
+                </div>
                 <div className="control-times">
                   Open: {control.openTime}
                   <br />
                   Close: {control.closeTime}
                 </div>
+                {control.infoQuestion && (
+                  <div className="control-question">Q: {control.infoQuestion}</div>
+                )}
               </div>
               <div className="time-cell"></div>
               <div className="signature-cell"></div>
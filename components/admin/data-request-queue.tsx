@@ -0,0 +1,112 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AnonymizeRiderButton } from './anonymize-rider-button'
+import { declineDataRequest } from '@/lib/actions/rider-data-requests'
+import { toast } from 'sonner'
+import type { RiderDataRequestForAdmin } from '@/types/queries'
+
+function RequestRow({ request }: { request: RiderDataRequestForAdmin }) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [declineNote, setDeclineNote] = useState('')
+  const rider = request.riders
+
+  const handleDecline = () => {
+    startTransition(async () => {
+      const result = await declineDataRequest(request.id, declineNote)
+      if (result.success) {
+        toast.success('Request declined')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to decline request')
+      }
+    })
+  }
+
+  return (
+    <TableRow className={isPending ? 'opacity-60' : ''}>
+      <TableCell>
+        {rider ? (
+          <Link href={`/admin/riders/${rider.id}`} className="font-medium hover:underline">
+            {rider.first_name} {rider.last_name}
+          </Link>
+        ) : (
+          '—'
+        )}
+        <p className="text-sm text-muted-foreground">{rider?.email || 'No email on file'}</p>
+      </TableCell>
+      <TableCell className="whitespace-nowrap">
+        {new Date(request.requested_at).toLocaleDateString('en-CA', {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric',
+        })}
+      </TableCell>
+      <TableCell className="max-w-xs text-sm">{request.note || '—'}</TableCell>
+      <TableCell>
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <Input
+            value={declineNote}
+            onChange={(e) => setDeclineNote(e.target.value)}
+            placeholder="Reason for declining"
+            className="h-8 w-48"
+            disabled={isPending}
+          />
+          <Button variant="outline" size="sm" onClick={handleDecline} disabled={isPending}>
+            Decline
+          </Button>
+          {rider && (
+            <AnonymizeRiderButton
+              riderId={rider.id}
+              riderName={`${rider.first_name} ${rider.last_name}`}
+              size="sm"
+            />
+          )}
+        </div>
+      </TableCell>
+    </TableRow>
+  )
+}
+
+interface DataRequestQueueProps {
+  requests: RiderDataRequestForAdmin[]
+}
+
+export function DataRequestQueue({ requests }: DataRequestQueueProps) {
+  if (requests.length === 0) {
+    return <p className="text-muted-foreground text-sm">No erasure requests waiting for review.</p>
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Rider</TableHead>
+            <TableHead>Requested</TableHead>
+            <TableHead>Note</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {requests.map((request) => (
+            <RequestRow key={request.id} request={request} />
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
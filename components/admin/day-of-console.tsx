@@ -0,0 +1,398 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Check, CloudOff, Download, Loader2, Phone, Printer, RefreshCw } from 'lucide-react'
+import { markNonStartersDns, syncCheckIns } from '@/lib/actions/day-of'
+import {
+  applyCheckInQueue,
+  getCheckInQueueKey,
+  parseCheckInQueue,
+  queueCheckIn,
+  removeSyncedChanges,
+  type CheckInQueue,
+} from '@/lib/events/check-in-queue'
+import { buildDayOfRosterCsv, formatCheckInTime, getDayOfRosterFileName } from '@/lib/events/day-of'
+import { parseLocalDate } from '@/lib/utils'
+import { toast } from 'sonner'
+import type { EventForDayOf, RegistrationForDayOf } from '@/types/queries'
+
+// How often to retry queued check-ins when the browser says it's online but
+// the last sync failed (captive portals, one bar of signal)
+const RETRY_INTERVAL_MS = 30_000
+
+function saveQueue(eventId: string, queue: CheckInQueue): void {
+  try {
+    localStorage.setItem(getCheckInQueueKey(eventId), JSON.stringify(queue))
+  } catch {
+    // Ignore storage errors; the queue still lives in memory
+  }
+}
+
+function riderName(registration: RegistrationForDayOf): string {
+  return registration.riders
+    ? `${registration.riders.first_name} ${registration.riders.last_name}`
+    : 'Unknown rider'
+}
+
+interface DayOfConsoleProps {
+  event: EventForDayOf
+  /** Roster in display order, as last loaded from the server */
+  registrations: RegistrationForDayOf[]
+}
+
+export function DayOfConsole({ event, registrations }: DayOfConsoleProps) {
+  const router = useRouter()
+  const [queue, setQueue] = useState<CheckInQueue>({})
+  const [online, setOnline] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const [search, setSearch] = useState('')
+  const [dnsOpen, setDnsOpen] = useState(false)
+  const [isMarkingDns, startDnsTransition] = useTransition()
+  const queueRef = useRef<CheckInQueue>({})
+  const syncingRef = useRef(false)
+
+  const updateQueue = useCallback(
+    (update: (queue: CheckInQueue) => CheckInQueue) => {
+      const next = update(queueRef.current)
+      queueRef.current = next
+      saveQueue(event.id, next)
+      setQueue(next)
+    },
+    [event.id]
+  )
+
+  // Restore check-ins made before a reload that never reached the server
+  useEffect(() => {
+    const saved = parseCheckInQueue(localStorage.getItem(getCheckInQueueKey(event.id)))
+    queueRef.current = saved
+    setQueue(saved)
+    setOnline(navigator.onLine)
+  }, [event.id])
+
+  const sync = useCallback(async () => {
+    const changes = Object.values(queueRef.current)
+    if (changes.length === 0 || syncingRef.current) return
+
+    syncingRef.current = true
+    setSyncing(true)
+    try {
+      const result = await syncCheckIns(event.id, changes)
+      if (result.success) {
+        updateQueue((current) => removeSyncedChanges(current, changes))
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to save check-ins')
+      }
+    } catch {
+      // No connection; keep the queue and try again later
+      setOnline(false)
+    } finally {
+      syncingRef.current = false
+      setSyncing(false)
+    }
+  }, [event.id, router, updateQueue])
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true)
+    const handleOffline = () => setOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    const retry = setInterval(() => {
+      if (navigator.onLine) {
+        setOnline(true)
+        sync()
+      }
+    }, RETRY_INTERVAL_MS)
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      clearInterval(retry)
+    }
+  }, [sync])
+
+  // Sync shortly after each tap, so a run of check-ins goes up together
+  const pendingCount = Object.keys(queue).length
+  useEffect(() => {
+    if (!online || pendingCount === 0) return
+    const timeout = setTimeout(sync, 1000)
+    return () => clearTimeout(timeout)
+  }, [queue, online, pendingCount, sync])
+
+  const roster = applyCheckInQueue(registrations, queue)
+  const checkedInCount = roster.filter((r) => r.checked_in_at).length
+  const notCheckedInCount = roster.length - checkedInCount
+
+  const query = search.trim().toLowerCase()
+  const visibleRoster = query
+    ? roster.filter(
+        (r) =>
+          riderName(r).toLowerCase().includes(query) ||
+          String(r.riders?.rider_number ?? '').startsWith(query)
+      )
+    : roster
+
+  const toggleCheckIn = (registration: RegistrationForDayOf) => {
+    updateQueue((current) =>
+      queueCheckIn(current, {
+        registrationId: registration.id,
+        checkedInAt: registration.checked_in_at ? null : new Date().toISOString(),
+      })
+    )
+  }
+
+  const downloadCsv = () => {
+    const blob = new Blob([buildDayOfRosterCsv(roster)], { type: 'text/csv;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = getDayOfRosterFileName(event)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleMarkDns = () => {
+    startDnsTransition(async () => {
+      const result = await markNonStartersDns(event.id)
+      setDnsOpen(false)
+
+      if (result.success) {
+        const marked = result.data?.marked ?? 0
+        toast.success(
+          marked === 0
+            ? 'No riders to mark DNS'
+            : `Marked ${marked} ${marked === 1 ? 'rider' : 'riders'} DNS`
+        )
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to mark riders DNS')
+      }
+    })
+  }
+
+  const eventDate = parseLocalDate(event.event_date).toLocaleDateString('en-CA', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  })
+
+  return (
+    <>
+      <style jsx global>{`
+        @media print {
+          /* Hide the admin sidebar and let the roster use the whole page */
+          [data-slot='sidebar'],
+          [data-sidebar] {
+            display: none !important;
+          }
+          main,
+          [data-slot='sidebar-inset'] {
+            margin: 0 !important;
+            padding: 0 !important;
+          }
+        }
+      `}</style>
+
+      <div className="space-y-4 print:hidden">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium">
+            {checkedInCount} of {roster.length} checked in
+          </span>
+          {!online ? (
+            <Badge variant="outline" className="gap-1 border-amber-300 text-amber-700">
+              <CloudOff className="h-3 w-3" />
+              Offline{pendingCount > 0 && ` · ${pendingCount} waiting to sync`}
+            </Badge>
+          ) : pendingCount > 0 || syncing ? (
+            <Badge variant="outline" className="gap-1">
+              <RefreshCw className="h-3 w-3 animate-spin" />
+              Syncing {pendingCount}
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="gap-1 border-green-300 text-green-700">
+              <Check className="h-3 w-3" />
+              All saved
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={downloadCsv}>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print / PDF
+          </Button>
+          <AlertDialog open={dnsOpen} onOpenChange={setDnsOpen}>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!online || pendingCount > 0 || notCheckedInCount === 0}
+              >
+                Mark {notCheckedInCount} DNS
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Mark Non-Starters DNS</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The {notCheckedInCount} {notCheckedInCount === 1 ? 'rider' : 'riders'} who
+                  haven&apos;t checked in will get a DNS result, and won&apos;t be asked to submit
+                  one. Results already entered are left alone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isMarkingDns}>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => {
+                    e.preventDefault()
+                    handleMarkDns()
+                  }}
+                  disabled={isMarkingDns}
+                >
+                  {isMarkingDns ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Marking...
+                    </>
+                  ) : (
+                    'Mark DNS'
+                  )}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        <Input
+          type="search"
+          placeholder="Find by name or rider number"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          aria-label="Find rider"
+        />
+
+        {roster.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No riders registered.</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {visibleRoster.map((registration) => {
+              const rider = registration.riders
+              const checkedIn = !!registration.checked_in_at
+              return (
+                <li key={registration.id} className="flex items-center gap-3 p-3">
+                  <div className="w-12 shrink-0 text-center font-mono text-lg font-semibold">
+                    {rider?.rider_number ?? '—'}
+                  </div>
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{riderName(registration)}</span>
+                      {registration.status !== 'registered' && (
+                        <Badge variant="outline" className="border-amber-300 text-amber-700">
+                          Membership incomplete
+                        </Badge>
+                      )}
+                    </div>
+                    {rider?.emergency_contact_name || rider?.emergency_contact_phone ? (
+                      <div className="text-sm text-muted-foreground">
+                        {rider.emergency_contact_name}
+                        {rider.emergency_contact_phone && (
+                          <a
+                            href={`tel:${rider.emergency_contact_phone}`}
+                            className="ml-2 inline-flex items-center gap-1 text-primary hover:underline"
+                          >
+                            <Phone className="h-3 w-3" />
+                            {rider.emergency_contact_phone}
+                          </a>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="text-sm text-destructive">No emergency contact</div>
+                    )}
+                    {registration.notes && (
+                      <div className="text-sm text-muted-foreground">{registration.notes}</div>
+                    )}
+                  </div>
+                  <Button
+                    variant={checkedIn ? 'default' : 'outline'}
+                    className="h-12 w-24 shrink-0"
+                    onClick={() => toggleCheckIn(registration)}
+                    aria-pressed={checkedIn}
+                  >
+                    {checkedIn ? (
+                      <>
+                        <Check className="h-4 w-4 mr-1" />
+                        {formatCheckInTime(registration.checked_in_at!)}
+                      </>
+                    ) : (
+                      'Check in'
+                    )}
+                  </Button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="hidden print:block text-xs">
+        <h1 className="text-lg font-bold">{event.name}</h1>
+        <p className="mb-2">
+          {eventDate} &middot; {event.start_time?.slice(0, 5) || 'TBD'}
+          {event.start_location && ` · ${event.start_location}`} &middot; {roster.length} riders
+        </p>
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="py-1 pr-2">#</th>
+              <th className="py-1 pr-2">Rider</th>
+              <th className="py-1 pr-2">Emergency contact</th>
+              <th className="py-1 pr-2">Phone</th>
+              <th className="py-1 pr-2">In</th>
+              <th className="py-1">Notes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {roster.map((registration) => (
+              <tr key={registration.id} className="border-b align-top">
+                <td className="py-1 pr-2">{registration.riders?.rider_number ?? ''}</td>
+                <td className="py-1 pr-2">
+                  {registration.riders
+                    ? `${registration.riders.last_name}, ${registration.riders.first_name}`
+                    : 'Unknown rider'}
+                </td>
+                <td className="py-1 pr-2">{registration.riders?.emergency_contact_name}</td>
+                <td className="py-1 pr-2 whitespace-nowrap">
+                  {registration.riders?.emergency_contact_phone}
+                </td>
+                <td className="py-1 pr-2">
+                  {registration.checked_in_at ? formatCheckInTime(registration.checked_in_at) : ''}
+                </td>
+                <td className="py-1">{registration.notes}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  )
+}
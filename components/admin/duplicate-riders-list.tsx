@@ -0,0 +1,164 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { GitMerge, Loader2, RefreshCw } from 'lucide-react'
+import { MergeRidersDialog, type RiderForMerge } from './merge-riders-dialog'
+import { dismissDuplicateCluster, scanDuplicateRiders } from '@/lib/actions/rider-duplicates'
+import { toast } from 'sonner'
+import type { DuplicateClusterForAdmin, DuplicateRiderForAdmin } from '@/types/queries'
+
+function formatSeasons(rider: DuplicateRiderForAdmin): string {
+  const seasons = (rider.results ?? []).map((r) => r.season)
+  if (seasons.length === 0) return '—'
+
+  const first = Math.min(...seasons)
+  const last = Math.max(...seasons)
+  return first === last ? `${first}` : `${first}–${last}`
+}
+
+function ClusterCard({ cluster }: { cluster: DuplicateClusterForAdmin }) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [mergeOpen, setMergeOpen] = useState(false)
+
+  const ridersForMerge: RiderForMerge[] = cluster.riders.map((rider) => ({
+    id: rider.id,
+    first_name: rider.first_name,
+    last_name: rider.last_name,
+    email: rider.email,
+    gender: rider.gender,
+  }))
+
+  const handleDismiss = () => {
+    startTransition(async () => {
+      const result = await dismissDuplicateCluster(cluster.id)
+      if (result.success) {
+        toast.success('Marked as not a duplicate')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to dismiss')
+      }
+    })
+  }
+
+  return (
+    <div className={`rounded-md border ${isPending ? 'opacity-60' : ''}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b p-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge>{Math.round(cluster.score * 100)}% match</Badge>
+          {cluster.reasons.map((reason) => (
+            <Badge key={reason} variant="outline">
+              {reason}
+            </Badge>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={handleDismiss} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Not a duplicate
+          </Button>
+          <Button size="sm" onClick={() => setMergeOpen(true)} disabled={isPending}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Merge
+          </Button>
+        </div>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Email</TableHead>
+            <TableHead>Gender</TableHead>
+            <TableHead>Seasons</TableHead>
+            <TableHead className="text-right">Registrations</TableHead>
+            <TableHead className="text-right">Results</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {cluster.riders.map((rider) => (
+            <TableRow key={rider.id}>
+              <TableCell className="font-medium">
+                <Link href={`/admin/riders/${rider.id}`} className="hover:underline">
+                  {rider.first_name} {rider.last_name}
+                </Link>
+              </TableCell>
+              <TableCell className="text-muted-foreground">{rider.email || '—'}</TableCell>
+              <TableCell>{rider.gender || '—'}</TableCell>
+              <TableCell>{formatSeasons(rider)}</TableCell>
+              <TableCell className="text-right">{rider.registrations?.[0]?.count ?? 0}</TableCell>
+              <TableCell className="text-right">{rider.results?.length ?? 0}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <MergeRidersDialog
+        selectedRiders={ridersForMerge}
+        open={mergeOpen}
+        onOpenChange={setMergeOpen}
+      />
+    </div>
+  )
+}
+
+interface DuplicateRidersListProps {
+  clusters: DuplicateClusterForAdmin[]
+}
+
+export function DuplicateRidersList({ clusters }: DuplicateRidersListProps) {
+  const router = useRouter()
+  const [isScanning, startScan] = useTransition()
+
+  const handleScan = () => {
+    startScan(async () => {
+      const result = await scanDuplicateRiders()
+      if (result.success && result.data) {
+        const { clusters: found, added } = result.data
+        toast.success(
+          `Scan complete: ${found} possible duplicate${found !== 1 ? 's' : ''}` +
+            (added > 0 ? ` (${added} new)` : '')
+        )
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to scan riders')
+      }
+    })
+  }
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">To Review ({clusters.length})</h2>
+        <Button variant="outline" size="sm" onClick={handleScan} disabled={isScanning}>
+          {isScanning ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Scan now
+        </Button>
+      </div>
+
+      {clusters.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No possible duplicates to review.</p>
+      ) : (
+        <div className="space-y-4">
+          {clusters.map((cluster) => (
+            <ClusterCard key={cluster.id} cluster={cluster} />
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface EmailFiltersProps {
+  status: string | null
+  riderId: string | null
+  eventId: string | null
+}
+
+const STATUS_OPTIONS = [
+  { value: 'all', label: 'All' },
+  { value: 'pending', label: 'Retrying' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'sent', label: 'Sent' },
+]
+
+function buildEmailFilterUrl(
+  status: string | null,
+  riderId: string | null,
+  eventId: string | null
+) {
+  const params = new URLSearchParams()
+  if (status) params.set('status', status)
+  if (riderId) params.set('rider', riderId)
+  if (eventId) params.set('event', eventId)
+  const qs = params.toString()
+  return `/admin/emails${qs ? `?${qs}` : ''}`
+}
+
+export function EmailFilters({ status, riderId, eventId }: EmailFiltersProps) {
+  const router = useRouter()
+
+  const handleStatusChange = (value: string) => {
+    router.push(buildEmailFilterUrl(value === 'all' ? null : value, riderId, eventId))
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-muted-foreground">Status:</span>
+      <Select value={status || 'all'} onValueChange={handleStatusChange}>
+        <SelectTrigger className="w-[120px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent position="popper" sideOffset={4}>
+          {STATUS_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { format } from 'date-fns'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import { Textarea } from '@/components/ui/textarea'
 import { Calendar } from '@/components/ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
@@ -41,7 +42,7 @@ import { AlertCircle, Loader2, CalendarIcon, ChevronDownIcon } from 'lucide-reac
 import { createEvent, updateEvent, type EventType } from '@/lib/actions/events'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
-import type { ChapterOption } from '@/types/ui'
+import type { ChapterOptionWithWindowDefaults, SeriesOption } from '@/types/ui'
 import type { ActiveRoute } from '@/lib/data/routes'
 import { ImageUpload } from '@/components/admin/image-upload'
 
@@ -57,16 +58,53 @@ export interface EventFormData {
   startLocation: string | null
   description: string | null
   imageUrl: string | null
+  maxRiders: number | null
+  registrationOpensAt: string | null // ISO timestamp
+  registrationClosesAt: string | null // ISO timestamp
+  seriesId: string | null
+  sendReminders: boolean
+  sendRoster: boolean
 }
 
 interface EventFormProps {
-  chapters: ChapterOption[]
+  chapters: ChapterOptionWithWindowDefaults[]
   routes: ActiveRoute[]
+  series?: SeriesOption[]
   defaultChapterId?: string | null
   event?: EventFormData | null
   mode?: 'create' | 'edit'
 }
 
+/**
+ * Convert an ISO timestamp to a datetime-local input value (browser time zone).
+ */
+function toDateTimeLocal(iso: string | null | undefined): string {
+  return iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : ''
+}
+
+/**
+ * Convert a datetime-local input value to an ISO timestamp, or null when empty.
+ */
+function fromDateTimeLocal(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
+/**
+ * Describe a chapter's default registration window for the form hint.
+ */
+function describeChapterWindow(chapter: ChapterOptionWithWindowDefaults | undefined): string {
+  const parts: string[] = []
+  if (chapter?.registration_opens_days_before != null) {
+    parts.push(`opens ${chapter.registration_opens_days_before} days before start`)
+  }
+  if (chapter?.registration_closes_hours_before != null) {
+    parts.push(`closes ${chapter.registration_closes_hours_before} hours before start`)
+  }
+  return parts.length > 0
+    ? `Leave blank to use the chapter default: ${parts.join(', ')}`
+    : 'Leave blank to keep registration open until the event starts'
+}
+
 // Match the order used in the main site navbar
 const CHAPTER_ORDER = ['Huron', 'Ottawa', 'Simcoe-Muskoka', 'Toronto']
 
@@ -80,6 +118,7 @@ const EVENT_TYPES: { value: EventType; label: string }[] = [
 export function EventForm({
   chapters,
   routes,
+  series = [],
   defaultChapterId,
   event,
   mode = 'create',
@@ -106,10 +145,20 @@ export function EventForm({
   const [startLocation, setStartLocation] = useState(event?.startLocation || '')
   const [description, setDescription] = useState(event?.description || '')
   const [imageUrl, setImageUrl] = useState(event?.imageUrl || '')
+  const [maxRiders, setMaxRiders] = useState(event?.maxRiders?.toString() || '')
+  const [seriesId, setSeriesId] = useState(event?.seriesId || '')
+  const [sendReminders, setSendReminders] = useState(event?.sendReminders ?? true)
+  const [sendRoster, setSendRoster] = useState(event?.sendRoster ?? true)
+  const [registrationOpensAt, setRegistrationOpensAt] = useState(
+    toDateTimeLocal(event?.registrationOpensAt)
+  )
+  const [registrationClosesAt, setRegistrationClosesAt] = useState(
+    toDateTimeLocal(event?.registrationClosesAt)
+  )
 
   // Separate chapters into main chapters and others
   const mainChapters = CHAPTER_ORDER.map((name) => chapters.find((c) => c.name === name)).filter(
-    (c): c is ChapterOption => c !== undefined
+    (c): c is ChapterOptionWithWindowDefaults => c !== undefined
   )
 
   const otherChapters = chapters
@@ -198,6 +247,12 @@ export function EventForm({
           startLocation: startLocation.trim() || null,
           description: description.trim() || null,
           imageUrl: imageUrl || null,
+          maxRiders: maxRiders ? parseInt(maxRiders, 10) : null,
+          registrationOpensAt: fromDateTimeLocal(registrationOpensAt),
+          registrationClosesAt: fromDateTimeLocal(registrationClosesAt),
+          seriesId: seriesId || null,
+          sendReminders,
+          sendRoster,
         })
 
         if (result.success) {
@@ -218,6 +273,12 @@ export function EventForm({
           startLocation: startLocation.trim() || null,
           description: description.trim() || null,
           imageUrl: imageUrl || null,
+          maxRiders: maxRiders ? parseInt(maxRiders, 10) : null,
+          registrationOpensAt: fromDateTimeLocal(registrationOpensAt),
+          registrationClosesAt: fromDateTimeLocal(registrationClosesAt),
+          seriesId: seriesId || null,
+          sendReminders,
+          sendRoster,
         })
 
         if (result.success) {
@@ -498,6 +559,123 @@ export function EventForm({
               </p>
             </div>
 
+            {/* Series */}
+            {series.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="series">Series (optional)</Label>
+                <Select
+                  value={seriesId || 'none'}
+                  onValueChange={(v) => setSeriesId(v === 'none' ? '' : v)}
+                  disabled={isPending}
+                >
+                  <SelectTrigger id="series" className="w-full sm:w-1/2">
+                    <SelectValue placeholder="No series" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No series</SelectItem>
+                    {series.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Events in a series (e.g. Devil Week) can be registered for together and count
+                  toward the series award
+                </p>
+              </div>
+            )}
+
+            {/* Rider Limit */}
+            <div className="space-y-2">
+              <Label htmlFor="maxRiders">Rider Limit (optional)</Label>
+              <Input
+                id="maxRiders"
+                type="number"
+                value={maxRiders}
+                onChange={(e) => setMaxRiders(e.target.value)}
+                placeholder="No limit"
+                min="1"
+                step="1"
+                disabled={isPending}
+                className="sm:w-1/2"
+              />
+              <p className="text-xs text-muted-foreground">
+                Once full, new registrants join a waitlist and are promoted automatically when
+                someone cancels
+              </p>
+            </div>
+
+            {/* Registration Window */}
+            {eventType !== 'permanent' && (
+              <div className="space-y-2">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="registrationOpensAt">Registration Opens (optional)</Label>
+                    <Input
+                      id="registrationOpensAt"
+                      type="datetime-local"
+                      value={registrationOpensAt}
+                      onChange={(e) => setRegistrationOpensAt(e.target.value)}
+                      disabled={isPending}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="registrationClosesAt">Registration Closes (optional)</Label>
+                    <Input
+                      id="registrationClosesAt"
+                      type="datetime-local"
+                      value={registrationClosesAt}
+                      onChange={(e) => setRegistrationClosesAt(e.target.value)}
+                      disabled={isPending}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {describeChapterWindow(chapters.find((c) => c.id === chapterId))}
+                </p>
+              </div>
+            )}
+
+            {/* Pre-ride Emails */}
+            <div className="space-y-3">
+              <div className="flex items-center gap-3 rounded-lg border p-4">
+                <Switch
+                  id="sendReminders"
+                  checked={sendReminders}
+                  onCheckedChange={setSendReminders}
+                  disabled={isPending}
+                />
+                <div>
+                  <Label htmlFor="sendReminders" className="cursor-pointer">
+                    Rider Reminders
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Email registered riders the start details, controls and chapter checklist a few
+                    days before the event
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 rounded-lg border p-4">
+                <Switch
+                  id="sendRoster"
+                  checked={sendRoster}
+                  onCheckedChange={setSendRoster}
+                  disabled={isPending}
+                />
+                <div>
+                  <Label htmlFor="sendRoster" className="cursor-pointer">
+                    Organizer Roster
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Email the organizer the final roster with emergency contacts when registration
+                    closes
+                  </p>
+                </div>
+              </div>
+            </div>
+
             {/* Event Image */}
             <div className="space-y-2">
               <Label>Event Image (optional)</Label>
@@ -20,6 +20,7 @@ import {
   CardTitle,
 } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Select,
   SelectContent,
@@ -34,7 +35,11 @@ import { createResult, updateResult, type ResultStatus } from '@/lib/actions/res
 import { formatFinishTime, buildParticipantMailtoUrl } from '@/lib/utils'
 import { SubmitResultsButton } from './submit-results-button'
 import { AddRiderDialog } from './add-rider-dialog'
+import { CancelRegistrationButton } from './cancel-registration-button'
+import { GpxVerificationBadge } from './gpx-verification-badge'
+import { HomologationDownloadButton } from './homologation-download-button'
 import { toast } from 'sonner'
+import type { GpxVerificationReport } from '@/types/gpx-verification'
 
 interface Registration {
   id: string
@@ -67,6 +72,11 @@ interface Result {
   control_card_back_path: string | null
   rider_notes: string | null
   submitted_at: string | null
+  gpx_verification: GpxVerificationReport | null
+  gpx_verified_at: string | null
+  medal_requested: boolean
+  homologation_number: string | null
+  overdue_at: string | null // Set when the chapter's results deadline passed without a response
   riders: {
     id: string
     first_name: string
@@ -95,6 +105,7 @@ interface EventResultsManagerProps {
   eventName: string
   eventDate: string
   eventStatus: string | null
+  hasHomologationFile: boolean
   isPastEvent: boolean
   season: number | null
   distanceKm: number
@@ -117,14 +128,26 @@ interface RiderRowProps {
   eventId: string
   season: number | null
   distanceKm: number
+  canCancel: boolean
+  showHomologation: boolean
 }
 
-function RiderRow({ participant, result, eventId, season, distanceKm }: RiderRowProps) {
+function RiderRow({
+  participant,
+  result,
+  eventId,
+  season,
+  distanceKm,
+  canCancel,
+  showHomologation,
+}: RiderRowProps) {
   const [isPending, startTransition] = useTransition()
   const [localStatus, setLocalStatus] = useState<ResultStatus>(
     (result?.status as ResultStatus) || 'pending'
   )
   const [localTime, setLocalTime] = useState(formatFinishTime(result?.finish_time ?? null))
+  const [localMedal, setLocalMedal] = useState(result?.medal_requested ?? false)
+  const [localHomologation, setLocalHomologation] = useState(result?.homologation_number ?? '')
   const [showSaved, setShowSaved] = useState(false)
 
   const riderName = `${participant.firstName} ${participant.lastName}`
@@ -193,6 +216,35 @@ function RiderRow({ participant, result, eventId, season, distanceKm }: RiderRow
     })
   }
 
+  const handleMedalChange = (checked: boolean) => {
+    if (!result) return
+    setLocalMedal(checked)
+
+    startTransition(async () => {
+      const res = await updateResult(result.id, { medalRequested: checked })
+      if (res.success) {
+        flashSaved()
+      } else {
+        toast.error(res.error || 'Failed to update medal request')
+        setLocalMedal(result.medal_requested)
+      }
+    })
+  }
+
+  const handleHomologationBlur = () => {
+    if (!result || localHomologation === (result.homologation_number ?? '')) return
+
+    startTransition(async () => {
+      const res = await updateResult(result.id, { homologationNumber: localHomologation })
+      if (res.success) {
+        flashSaved()
+      } else {
+        toast.error(res.error || 'Failed to update homologation number')
+        setLocalHomologation(result.homologation_number ?? '')
+      }
+    })
+  }
+
   const handleTimeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       e.currentTarget.blur()
@@ -200,7 +252,7 @@ function RiderRow({ participant, result, eventId, season, distanceKm }: RiderRow
   }
 
   return (
-    <TableRow className={isPending ? 'opacity-60' : undefined}>
+    <TableRow id={`rider-${participant.riderId}`} className={isPending ? 'opacity-60' : undefined}>
       <TableCell className="font-medium">
         <div>
           {riderName}
@@ -216,6 +268,16 @@ function RiderRow({ participant, result, eventId, season, distanceKm }: RiderRow
                 Trial
               </Badge>
             )}
+          {result?.overdue_at && localStatus === 'pending' && (
+            <Badge variant="outline" className="ml-2">
+              No response
+            </Badge>
+          )}
+          {result?.overdue_at && localStatus === 'dns' && (
+            <Badge variant="outline" className="ml-2">
+              Auto DNS
+            </Badge>
+          )}
           {participant.email && (
             <p className="text-xs text-muted-foreground">{participant.email}</p>
           )}
@@ -257,6 +319,29 @@ function RiderRow({ participant, result, eventId, season, distanceKm }: RiderRow
           className="w-[80px] h-8 font-mono"
         />
       </TableCell>
+      <TableCell>
+        <Checkbox
+          checked={localMedal}
+          onCheckedChange={(checked) => handleMedalChange(checked === true)}
+          disabled={isPending || !result || localStatus !== 'finished'}
+          aria-label={`Medal requested for ${riderName}`}
+        />
+      </TableCell>
+      {showHomologation && (
+        <TableCell>
+          <Input
+            type="text"
+            placeholder="—"
+            value={localHomologation}
+            onChange={(e) => setLocalHomologation(e.target.value)}
+            onBlur={handleHomologationBlur}
+            onKeyDown={handleTimeKeyDown}
+            disabled={isPending || localStatus !== 'finished'}
+            className="w-[100px] h-8 font-mono"
+            aria-label={`Homologation number for ${riderName}`}
+          />
+        </TableCell>
+      )}
       <TableCell>
         {/* Evidence - Strava/GPX links, Control Card thumbnails */}
         {result &&
@@ -287,6 +372,13 @@ function RiderRow({ participant, result, eventId, season, distanceKm }: RiderRow
                 <FileText className="h-4 w-4" />
               </a>
             )}
+            {result.gpx_file_path && (
+              <GpxVerificationBadge
+                resultId={result.id}
+                report={result.gpx_verification}
+                verifiedAt={result.gpx_verified_at}
+              />
+            )}
             {result.control_card_front_path && (
               <a
                 href={`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/rider-submissions/${result.control_card_front_path}`}
@@ -339,6 +431,12 @@ function RiderRow({ participant, result, eventId, season, distanceKm }: RiderRow
           <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
         ) : showSaved ? (
           <Check className="h-4 w-4 text-green-600" />
+        ) : canCancel && participant.hasRegistration ? (
+          <CancelRegistrationButton
+            registrationId={participant.id}
+            riderName={riderName}
+            isWaitlisted={false}
+          />
         ) : null}
       </TableCell>
     </TableRow>
@@ -350,6 +448,7 @@ export function EventResultsManager({
   eventName,
   eventDate,
   eventStatus,
+  hasHomologationFile,
   isPastEvent,
   season,
   distanceKm,
@@ -362,10 +461,14 @@ export function EventResultsManager({
   // Create a map of rider_id -> result for quick lookup
   const resultsByRiderId = new Map(results.map((r) => [r.rider_id, r]))
 
+  // Waitlisted riders are listed separately, in waitlist order
+  const waitlist = registrations.filter((reg) => reg.status === 'waitlisted' && reg.riders)
+  const activeRegistrations = registrations.filter((reg) => reg.status !== 'waitlisted')
+
   // Build unified participants list: registrations + results-only riders
-  const registeredRiderIds = new Set(registrations.map((r) => r.rider_id))
+  const registeredRiderIds = new Set(activeRegistrations.map((r) => r.rider_id))
 
-  const participantsFromRegistrations: Participant[] = registrations
+  const participantsFromRegistrations: Participant[] = activeRegistrations
     .filter((reg) => reg.riders)
     .map((reg) => {
       const currentMembership = reg.riders!.memberships?.find((m) => m.season === season)
@@ -403,7 +506,10 @@ export function EventResultsManager({
   const allParticipants = [...participantsFromRegistrations, ...participantsFromResultsOnly]
 
   // All rider IDs already in the event (for filtering in add rider dialog)
-  const existingRiderIds = new Set(allParticipants.map((p) => p.riderId))
+  const existingRiderIds = new Set([
+    ...allParticipants.map((p) => p.riderId),
+    ...waitlist.map((reg) => reg.rider_id),
+  ])
 
   // Sort by last name ascending
   const sortedParticipants = [...allParticipants].sort((a, b) => {
@@ -456,8 +562,14 @@ export function EventResultsManager({
               Results Submitted
             </AlertTitle>
             <AlertDescription className="text-green-700 dark:text-green-400">
-              Results have been emailed to the VP of Brevet Administration for recording.
+              Results and the homologation file have been emailed to the chapter VP. Enter
+              homologation numbers as brevet cards come back.
             </AlertDescription>
+            {hasHomologationFile && (
+              <div className="mt-3">
+                <HomologationDownloadButton eventId={eventId} />
+              </div>
+            )}
           </Alert>
         )}
         {allParticipants.length === 0 ? (
@@ -472,6 +584,8 @@ export function EventResultsManager({
                   <TableHead>Rider</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Time</TableHead>
+                  <TableHead>Medal</TableHead>
+                  {isSubmitted && <TableHead>Homologation #</TableHead>}
                   <TableHead>Evidence</TableHead>
                   <TableHead>Note</TableHead>
                   <TableHead className="w-[50px]"></TableHead>
@@ -486,12 +600,41 @@ export function EventResultsManager({
                     eventId={eventId}
                     season={season}
                     distanceKm={distanceKm}
+                    canCancel={!isPastEvent}
+                    showHomologation={isSubmitted}
                   />
                 ))}
               </TableBody>
             </Table>
           </div>
         )}
+        {waitlist.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Waitlist ({waitlist.length})</h3>
+            <ol className="rounded-md border divide-y text-sm">
+              {waitlist.map((reg, index) => (
+                <li key={reg.id} className="flex items-center justify-between px-4 py-2">
+                  <div>
+                    <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                    {reg.riders!.first_name} {reg.riders!.last_name}
+                    {reg.riders!.email && (
+                      <span className="text-xs text-muted-foreground ml-2">
+                        {reg.riders!.email}
+                      </span>
+                    )}
+                  </div>
+                  {!isPastEvent && (
+                    <CancelRegistrationButton
+                      registrationId={reg.id}
+                      riderName={`${reg.riders!.first_name} ${reg.riders!.last_name}`}
+                      isWaitlisted
+                    />
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
       </CardContent>
 
       {/* Footer actions - Submit for completed events */}
@@ -17,8 +17,12 @@ import { toast } from 'sonner'
 import { Loader2, Check, AlertTriangle } from 'lucide-react'
 
 // Only these statuses are selectable in the dropdown
-// 'submitted' is set programmatically when results are emailed
-const STATUS_OPTIONS: { value: Exclude<EventStatus, 'submitted'>; label: string }[] = [
+// 'submitted' is set programmatically when results are emailed, and permanent
+// requests leave 'requested' from the approval queue (/admin/permanents)
+const STATUS_OPTIONS: {
+  value: Exclude<EventStatus, 'submitted' | 'requested'>
+  label: string
+}[] = [
   { value: 'scheduled', label: 'Scheduled' },
   { value: 'completed', label: 'Completed' },
   { value: 'cancelled', label: 'Cancelled' },
@@ -80,6 +84,14 @@ export function EventStatusSelect({ eventId, initialStatus, resultsCount }: Even
     )
   }
 
+  if (status === 'requested') {
+    return (
+      <Badge variant="outline" className="border-amber-500 text-amber-700">
+        Awaiting approval
+      </Badge>
+    )
+  }
+
   return (
     <>
       <div className="flex items-center gap-2">
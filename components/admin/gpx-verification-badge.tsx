@@ -0,0 +1,102 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { CheckCircle2, AlertTriangle, XCircle, Loader2, RefreshCw } from 'lucide-react'
+import { recheckResultGpx } from '@/lib/actions/results'
+import { toast } from 'sonner'
+import type { GpxCheckStatus, GpxVerificationReport } from '@/types/gpx-verification'
+
+const STATUS_STYLES: Record<GpxCheckStatus, { label: string; className: string }> = {
+  pass: { label: 'GPX pass', className: 'bg-green-100 text-green-800 hover:bg-green-200' },
+  warn: { label: 'GPX warn', className: 'bg-amber-100 text-amber-800 hover:bg-amber-200' },
+  fail: { label: 'GPX fail', className: 'bg-red-100 text-red-800 hover:bg-red-200' },
+}
+
+function StatusIcon({ status }: { status: GpxCheckStatus }) {
+  if (status === 'pass') return <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+  if (status === 'warn') return <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+  return <XCircle className="h-4 w-4 shrink-0 text-red-600" />
+}
+
+interface GpxVerificationBadgeProps {
+  resultId: string
+  report: GpxVerificationReport | null
+  verifiedAt: string | null
+}
+
+export function GpxVerificationBadge({ resultId, report, verifiedAt }: GpxVerificationBadgeProps) {
+  const [isPending, startTransition] = useTransition()
+  const [currentReport, setCurrentReport] = useState(report)
+  const [checkedAt, setCheckedAt] = useState(verifiedAt)
+
+  const handleRecheck = () => {
+    startTransition(async () => {
+      const result = await recheckResultGpx(resultId)
+      if (result.success && result.data) {
+        setCurrentReport(result.data)
+        setCheckedAt(new Date().toISOString())
+      } else {
+        toast.error(result.error || 'Failed to check GPX')
+      }
+    })
+  }
+
+  if (!currentReport) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-1.5 text-xs"
+        onClick={handleRecheck}
+        disabled={isPending}
+      >
+        {isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Check GPX'}
+      </Button>
+    )
+  }
+
+  const style = STATUS_STYLES[currentReport.status]
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`rounded px-1.5 py-0.5 text-xs font-medium transition-colors ${style.className}`}
+        >
+          {style.label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96" align="start">
+        <div className="space-y-3">
+          <ul className="space-y-2">
+            {currentReport.checks.map((check, index) => (
+              <li key={index} className="flex gap-2 text-sm">
+                <StatusIcon status={check.status} />
+                <div>
+                  <p className="font-medium">{check.label}</p>
+                  <p className="text-muted-foreground">{check.detail}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center justify-between border-t pt-2">
+            <span className="text-xs text-muted-foreground">
+              {checkedAt && `Checked ${new Date(checkedAt).toLocaleString('en-CA')}`}
+            </span>
+            <Button variant="outline" size="sm" onClick={handleRecheck} disabled={isPending}>
+              {isPending ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <RefreshCw className="h-3 w-3 mr-1" />
+              )}
+              Re-check
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { useTransition } from 'react'
+import { Button } from '@/components/ui/button'
+import { Download, Loader2 } from 'lucide-react'
+import { getHomologationFileUrl } from '@/lib/actions/events'
+import { toast } from 'sonner'
+
+interface HomologationDownloadButtonProps {
+  eventId: string
+}
+
+export function HomologationDownloadButton({ eventId }: HomologationDownloadButtonProps) {
+  const [isPending, startTransition] = useTransition()
+
+  const handleDownload = () => {
+    startTransition(async () => {
+      const result = await getHomologationFileUrl(eventId)
+      if (result.success && result.data) {
+        window.location.href = result.data
+      } else {
+        toast.error(result.error || 'Failed to download homologation file')
+      }
+    })
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleDownload} disabled={isPending}>
+      {isPending ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <Download className="mr-2 h-4 w-4" />
+      )}
+      Homologation CSV
+    </Button>
+  )
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Loader2, RefreshCw } from 'lucide-react'
+import { reverifyRegistration } from '@/lib/actions/memberships'
+import { parseLocalDate } from '@/lib/utils'
+import { toast } from 'sonner'
+import type { IncompleteRegistrationForAdmin } from '@/types/queries'
+
+function IncompleteRegistrationRow({
+  registration,
+}: {
+  registration: IncompleteRegistrationForAdmin
+}) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const handleReverify = () => {
+    startTransition(async () => {
+      const result = await reverifyRegistration(registration.id)
+      if (result.success) {
+        const count = result.data?.registrationsUpdated ?? 0
+        toast.success(
+          count > 0
+            ? `Membership found, ${count} registration${count !== 1 ? 's' : ''} confirmed`
+            : 'Membership found, but the registration could not be confirmed (trial already used?)'
+        )
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to check membership')
+      }
+    })
+  }
+
+  return (
+    <TableRow className={isPending ? 'opacity-60' : undefined}>
+      <TableCell className="font-medium">
+        {registration.riders ? (
+          <Link href={`/admin/riders/${registration.riders.id}`} className="hover:underline">
+            {registration.riders.first_name} {registration.riders.last_name}
+          </Link>
+        ) : (
+          'Unknown rider'
+        )}
+        {registration.riders?.email && (
+          <p className="text-xs text-muted-foreground">{registration.riders.email}</p>
+        )}
+      </TableCell>
+      <TableCell>
+        <Link href={`/admin/events/${registration.events.id}`} className="hover:underline">
+          {registration.events.name}
+        </Link>
+      </TableCell>
+      <TableCell>
+        {parseLocalDate(registration.events.event_date).toLocaleDateString('en-CA', {
+          month: 'short',
+          day: 'numeric',
+        })}
+      </TableCell>
+      <TableCell className="text-right">
+        <Button variant="outline" size="sm" onClick={handleReverify} disabled={isPending}>
+          {isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Re-verify
+        </Button>
+      </TableCell>
+    </TableRow>
+  )
+}
+
+interface IncompleteRegistrationsListProps {
+  registrations: IncompleteRegistrationForAdmin[]
+}
+
+export function IncompleteRegistrationsList({ registrations }: IncompleteRegistrationsListProps) {
+  if (registrations.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No registrations waiting on a membership.</p>
+    )
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Rider</TableHead>
+            <TableHead>Event</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead className="w-[140px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {registrations.map((registration) => (
+            <IncompleteRegistrationRow key={registration.id} registration={registration} />
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
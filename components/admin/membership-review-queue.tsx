@@ -0,0 +1,137 @@
+'use client'
+
+import { useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Loader2 } from 'lucide-react'
+import { resolveMembershipReview, dismissMembershipReview } from '@/lib/actions/memberships'
+import { toast } from 'sonner'
+import type { MembershipReviewForAdmin } from '@/types/queries'
+
+interface ReviewRowProps {
+  review: MembershipReviewForAdmin
+}
+
+function ReviewRow({ review }: ReviewRowProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const handleResolve = (membershipId: number) => {
+    startTransition(async () => {
+      const result = await resolveMembershipReview(review.id, membershipId)
+      if (result.success) {
+        const count = result.data?.registrationsUpdated ?? 0
+        toast.success(
+          count > 0
+            ? `Membership saved, ${count} registration${count !== 1 ? 's' : ''} confirmed`
+            : 'Membership saved'
+        )
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to save membership')
+      }
+    })
+  }
+
+  const handleDismiss = () => {
+    startTransition(async () => {
+      const result = await dismissMembershipReview(review.id)
+      if (result.success) {
+        toast.success('Review dismissed')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to dismiss review')
+      }
+    })
+  }
+
+  return (
+    <TableRow className={isPending ? 'opacity-60' : undefined}>
+      <TableCell className="align-top font-medium">
+        {review.riders ? (
+          <Link href={`/admin/riders/${review.riders.id}`} className="hover:underline">
+            {review.riders.first_name} {review.riders.last_name}
+          </Link>
+        ) : (
+          'Unknown rider'
+        )}
+        {review.riders?.email && (
+          <p className="text-xs text-muted-foreground">{review.riders.email}</p>
+        )}
+      </TableCell>
+      <TableCell className="align-top">{review.season}</TableCell>
+      <TableCell>
+        <ul className="space-y-2">
+          {review.candidates.map((candidate) => (
+            <li key={candidate.membershipId} className="flex items-center justify-between gap-4">
+              <div className="text-sm">
+                <span className="font-medium">{candidate.fullName}</span>
+                <span className="text-muted-foreground">
+                  {' '}
+                  · #{candidate.membershipId} · {candidate.type} ·{' '}
+                  {Math.round(candidate.score * 100)}% match
+                </span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleResolve(candidate.membershipId)}
+                disabled={isPending}
+              >
+                This is them
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </TableCell>
+      <TableCell className="align-top text-right">
+        {isPending ? (
+          <Loader2 className="ml-auto h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <Button variant="ghost" size="sm" onClick={handleDismiss}>
+            None of these
+          </Button>
+        )}
+      </TableCell>
+    </TableRow>
+  )
+}
+
+interface MembershipReviewQueueProps {
+  reviews: MembershipReviewForAdmin[]
+}
+
+export function MembershipReviewQueue({ reviews }: MembershipReviewQueueProps) {
+  if (reviews.length === 0) {
+    return <p className="text-sm text-muted-foreground">No memberships waiting for review.</p>
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Rider</TableHead>
+            <TableHead>Season</TableHead>
+            <TableHead>CCN candidates</TableHead>
+            <TableHead className="w-[140px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {reviews.map((review) => (
+            <ReviewRow key={review.id} review={review} />
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
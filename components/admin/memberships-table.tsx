@@ -0,0 +1,255 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { expireMembership } from '@/lib/actions/memberships'
+import { AddMembershipDialog } from './add-membership-dialog'
+import { toast } from 'sonner'
+import type { MembershipForAdmin, MembershipType } from '@/types/queries'
+
+function ExpireMembershipButton({ membership }: { membership: MembershipForAdmin }) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [open, setOpen] = useState(false)
+
+  const riderName = membership.riders
+    ? `${membership.riders.first_name} ${membership.riders.last_name}`
+    : 'this rider'
+
+  const handleExpire = () => {
+    startTransition(async () => {
+      const result = await expireMembership(membership.id)
+      setOpen(false)
+      if (result.success) {
+        toast.success('Membership expired')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to expire membership')
+      }
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+          title="Expire membership"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Expire Membership</AlertDialogTitle>
+          <AlertDialogDescription>
+            Remove <strong>{riderName}</strong>&apos;s {membership.season} {membership.type}?
+            They&apos;ll be checked against CCN again the next time they register.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Keep</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleExpire}
+            disabled={isPending}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Expiring...
+              </>
+            ) : (
+              'Expire'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+interface MembershipsTableProps {
+  memberships: MembershipForAdmin[]
+  seasons: number[]
+  season: number
+  membershipTypes: MembershipType[]
+}
+
+export function MembershipsTable({
+  memberships,
+  seasons,
+  season,
+  membershipTypes,
+}: MembershipsTableProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [addOpen, setAddOpen] = useState(false)
+
+  const currentType = searchParams.get('type') || 'all'
+
+  function updateFilters(key: string, value: string) {
+    const params = new URLSearchParams(searchParams.toString())
+
+    if (value === 'all') {
+      params.delete(key)
+    } else {
+      params.set(key, value)
+    }
+
+    const queryString = params.toString()
+    router.push(`/admin/memberships${queryString ? `?${queryString}` : ''}`)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Season:</span>
+            <Select
+              value={season.toString()}
+              onValueChange={(value) => updateFilters('season', value)}
+            >
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent position="popper" sideOffset={4}>
+                {seasons.map((s) => (
+                  <SelectItem key={s} value={s.toString()}>
+                    {s}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Type:</span>
+            <Select value={currentType} onValueChange={(value) => updateFilters('type', value)}>
+              <SelectTrigger className="w-[280px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent position="popper" sideOffset={4}>
+                <SelectItem value="all">All Types</SelectItem>
+                <SelectItem value="manual">Manual only</SelectItem>
+                <SelectSeparator />
+                {membershipTypes.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {t}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setAddOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Manual Membership
+        </Button>
+      </div>
+
+      {memberships.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No memberships found.</p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rider</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>CCN #</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {memberships.map((membership) => (
+                <TableRow key={membership.id}>
+                  <TableCell className="font-medium">
+                    {membership.riders ? (
+                      <Link
+                        href={`/admin/riders/${membership.riders.id}`}
+                        className="hover:underline"
+                      >
+                        {membership.riders.last_name}, {membership.riders.first_name}
+                      </Link>
+                    ) : (
+                      'Unknown rider'
+                    )}
+                  </TableCell>
+                  <TableCell>{membership.type}</TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {membership.membership_id ?? '—'}
+                  </TableCell>
+                  <TableCell>
+                    {membership.source === 'manual' ? (
+                      <div>
+                        <Badge variant="secondary">Manual</Badge>
+                        {membership.note && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            {membership.note}
+                            {membership.admins && ` — ${membership.admins.name}`}
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">CCN</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {membership.created_at &&
+                      new Date(membership.created_at).toLocaleDateString('en-CA')}
+                  </TableCell>
+                  <TableCell>
+                    <ExpireMembershipButton membership={membership} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <AddMembershipDialog
+        open={addOpen}
+        onOpenChange={setAddOpen}
+        season={season}
+        membershipTypes={membershipTypes}
+      />
+    </div>
+  )
+}
@@ -182,7 +182,7 @@ export function MergeRidersDialog({
             Merge Riders
           </DialogTitle>
           <DialogDescription>
-            Merging {selectedRiders.length} riders into one. All registrations and results will be transferred.
+            Merging {selectedRiders.length} riders into one. All registrations and results will be transferred. If two riders were on the same event, the better entry is kept. You can undo the merge from the rider&apos;s page.
           </DialogDescription>
         </DialogHeader>
 
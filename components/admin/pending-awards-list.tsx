@@ -0,0 +1,157 @@
+'use client'
+
+import { useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AwardBadge } from '@/components/award-badge'
+import { Loader2 } from 'lucide-react'
+import { publishPendingAwards, dismissPendingAward } from '@/lib/actions/awards'
+import { parseLocalDate } from '@/lib/utils'
+import { toast } from 'sonner'
+import type { PendingAwardForAdmin } from '@/types/queries'
+
+function PendingAwardRow({ pendingAward }: { pendingAward: PendingAwardForAdmin }) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const { awards: award, results: result } = pendingAward
+  const rider = result.riders
+  const event = result.events
+
+  const handlePublish = () => {
+    startTransition(async () => {
+      const response = await publishPendingAwards([pendingAward.id])
+      if (response.success) {
+        toast.success(`${award.title} published`)
+        router.refresh()
+      } else {
+        toast.error(response.error || 'Failed to publish award')
+      }
+    })
+  }
+
+  const handleDismiss = () => {
+    startTransition(async () => {
+      const response = await dismissPendingAward(pendingAward.id)
+      if (response.success) {
+        toast.success('Award dismissed')
+        router.refresh()
+      } else {
+        toast.error(response.error || 'Failed to dismiss award')
+      }
+    })
+  }
+
+  return (
+    <TableRow className={isPending ? 'opacity-60' : undefined}>
+      <TableCell className="font-medium">
+        {rider ? (
+          <Link href={`/admin/riders/${rider.id}`} className="hover:underline">
+            {rider.first_name} {rider.last_name}
+          </Link>
+        ) : (
+          'Unknown rider'
+        )}
+      </TableCell>
+      <TableCell>
+        <AwardBadge award={award} />
+      </TableCell>
+      <TableCell>
+        {event ? (
+          <Link href={`/admin/events/${event.id}`} className="hover:underline">
+            {event.name}
+          </Link>
+        ) : (
+          '—'
+        )}
+        {event && (
+          <p className="text-xs text-muted-foreground">
+            {parseLocalDate(event.event_date).toLocaleDateString('en-CA', {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric',
+            })}{' '}
+            · {event.distance_km} km
+          </p>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        {isPending ? (
+          <Loader2 className="ml-auto h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={handleDismiss}>
+              Dismiss
+            </Button>
+            <Button variant="outline" size="sm" onClick={handlePublish}>
+              Publish
+            </Button>
+          </div>
+        )}
+      </TableCell>
+    </TableRow>
+  )
+}
+
+interface PendingAwardsListProps {
+  pendingAwards: PendingAwardForAdmin[]
+}
+
+export function PendingAwardsList({ pendingAwards }: PendingAwardsListProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  if (pendingAwards.length === 0) {
+    return <p className="text-sm text-muted-foreground">No new awards waiting to be published.</p>
+  }
+
+  const handlePublishAll = () => {
+    startTransition(async () => {
+      const response = await publishPendingAwards(pendingAwards.map((p) => p.id))
+      if (response.success) {
+        const count = response.data?.published ?? 0
+        toast.success(`Published ${count} award${count !== 1 ? 's' : ''}`)
+        router.refresh()
+      } else {
+        toast.error(response.error || 'Failed to publish awards')
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handlePublishAll} disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Publish All ({pendingAwards.length})
+        </Button>
+      </div>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rider</TableHead>
+              <TableHead>Award</TableHead>
+              <TableHead>Earned on</TableHead>
+              <TableHead className="w-[180px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pendingAwards.map((pendingAward) => (
+              <PendingAwardRow key={pendingAward.id} pendingAward={pendingAward} />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
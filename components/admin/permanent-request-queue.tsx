@@ -0,0 +1,329 @@
+'use client'
+
+import { useState, useTransition, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Loader2 } from 'lucide-react'
+import {
+  approvePermanentRequest,
+  proposePermanentChange,
+  rejectPermanentRequest,
+} from '@/lib/actions/permanent-requests'
+import { toast } from 'sonner'
+import type { PermanentRequestForAdmin } from '@/types/queries'
+
+type ReviewMode = 'approve' | 'propose' | 'reject'
+
+const DIALOG_COPY: Record<ReviewMode, { title: string; description: string; submit: string }> = {
+  approve: {
+    title: 'Approve Permanent',
+    description:
+      'Schedules the ride and emails riders their control times. Set a start time or location to impose one.',
+    submit: 'Approve',
+  },
+  propose: {
+    title: 'Propose a Change',
+    description:
+      'Riders are emailed the proposal and can accept it from their registration link. Leave a field blank to keep it.',
+    submit: 'Send Proposal',
+  },
+  reject: {
+    title: 'Reject Request',
+    description: 'Cancels the ride and emails riders your reason.',
+    submit: 'Reject Request',
+  },
+}
+
+interface ReviewDialogProps {
+  request: PermanentRequestForAdmin
+  mode: ReviewMode | null
+  onOpenChange: (open: boolean) => void
+}
+
+function ReviewDialog({ request, mode, onOpenChange }: ReviewDialogProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [eventDate, setEventDate] = useState('')
+  const [startTime, setStartTime] = useState('')
+  const [startLocation, setStartLocation] = useState('')
+  const [note, setNote] = useState('')
+
+  // Reset state when dialog closes
+  useEffect(() => {
+    if (!mode) {
+      setEventDate('')
+      setStartTime('')
+      setStartLocation('')
+      setNote('')
+    }
+  }, [mode])
+
+  if (!mode) return null
+
+  const copy = DIALOG_COPY[mode]
+  const noteRequired = mode !== 'approve'
+  const canSubmit =
+    (!noteRequired || note.trim()) &&
+    (mode !== 'propose' || eventDate || startTime || startLocation.trim())
+
+  const handleSubmit = () => {
+    startTransition(async () => {
+      const result =
+        mode === 'approve'
+          ? await approvePermanentRequest(request.id, { startTime, startLocation, note })
+          : mode === 'propose'
+            ? await proposePermanentChange(request.id, {
+                eventDate,
+                startTime,
+                startLocation,
+                note,
+              })
+            : await rejectPermanentRequest(request.id, note)
+
+      if (result.success) {
+        toast.success(
+          mode === 'approve'
+            ? 'Permanent approved'
+            : mode === 'propose'
+              ? 'Proposal sent to riders'
+              : 'Request rejected'
+        )
+        onOpenChange(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to update request')
+      }
+    })
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {mode === 'propose' && (
+            <div className="space-y-2">
+              <Label htmlFor="proposedDate">Date</Label>
+              <Input
+                id="proposedDate"
+                type="date"
+                value={eventDate}
+                onChange={(e) => setEventDate(e.target.value)}
+              />
+            </div>
+          )}
+
+          {mode !== 'reject' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="startTime">Start time</Label>
+                <Input
+                  id="startTime"
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  placeholder={request.start_time?.slice(0, 5) ?? ''}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="startLocation">Start location</Label>
+                <Input
+                  id="startLocation"
+                  value={startLocation}
+                  onChange={(e) => setStartLocation(e.target.value)}
+                  placeholder={request.start_location || 'Start control per route'}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="note">
+              {mode === 'reject' ? 'Reason *' : mode === 'propose' ? 'Note *' : 'Note (optional)'}
+            </Label>
+            <Textarea
+              id="note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={
+                mode === 'reject'
+                  ? 'e.g. The start control is closed for renovations that weekend'
+                  : 'Shown to riders in the email'
+              }
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={mode === 'reject' ? 'destructive' : 'default'}
+            onClick={handleSubmit}
+            disabled={!canSubmit || isPending}
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {copy.submit}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface RequestRowProps {
+  request: PermanentRequestForAdmin
+  today: string
+}
+
+function RequestRow({ request, today }: RequestRowProps) {
+  const [mode, setMode] = useState<ReviewMode | null>(null)
+  const riders = request.registrations.filter((r) => r.status !== 'cancelled')
+  const hasProposal =
+    !!request.proposed_event_date ||
+    !!request.proposed_start_time ||
+    !!request.proposed_start_location
+
+  return (
+    <TableRow>
+      <TableCell className="align-top">
+        <p className="font-medium">{format(parseISO(request.event_date), 'EEE, MMM d, yyyy')}</p>
+        <p className="text-xs text-muted-foreground">
+          {request.start_time?.slice(0, 5) ?? 'TBD'}
+          {request.event_date < today && (
+            <Badge variant="destructive" className="ml-2">
+              Date passed
+            </Badge>
+          )}
+        </p>
+      </TableCell>
+      <TableCell className="align-top">
+        <Link href={`/admin/events/${request.id}`} className="font-medium hover:underline">
+          {request.name}
+        </Link>
+        <p className="text-xs text-muted-foreground">
+          {request.distance_km} km · {request.chapters?.name}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {request.start_location || 'Start control per route'}
+        </p>
+        {hasProposal && (
+          <p className="mt-1 text-xs text-amber-700">
+            Proposed:{' '}
+            {[
+              request.proposed_event_date && format(parseISO(request.proposed_event_date), 'MMM d'),
+              request.proposed_start_time?.slice(0, 5),
+              request.proposed_start_location,
+            ]
+              .filter(Boolean)
+              .join(' · ')}{' '}
+            (waiting for the rider)
+          </p>
+        )}
+      </TableCell>
+      <TableCell className="align-top">
+        <ul className="space-y-1 text-sm">
+          {riders.map((registration) => (
+            <li key={registration.id}>
+              {registration.riders ? (
+                <Link href={`/admin/riders/${registration.riders.id}`} className="hover:underline">
+                  {registration.riders.first_name} {registration.riders.last_name}
+                </Link>
+              ) : (
+                'Unknown rider'
+              )}
+              {registration.notes && (
+                <p className="text-xs text-muted-foreground">{registration.notes}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </TableCell>
+      <TableCell className="align-top text-right">
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button size="sm" onClick={() => setMode('approve')}>
+            Approve
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setMode('propose')}>
+            Propose
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={() => setMode('reject')}
+          >
+            Reject
+          </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <Link href={`/admin/events/${request.id}/control-cards`}>Controls</Link>
+          </Button>
+        </div>
+        <ReviewDialog
+          request={request}
+          mode={mode}
+          onOpenChange={(open) => !open && setMode(null)}
+        />
+      </TableCell>
+    </TableRow>
+  )
+}
+
+interface PermanentRequestQueueProps {
+  requests: PermanentRequestForAdmin[]
+  today: string // YYYY-MM-DD, to flag requests whose date has passed
+}
+
+export function PermanentRequestQueue({ requests, today }: PermanentRequestQueueProps) {
+  if (requests.length === 0) {
+    return <p className="text-sm text-muted-foreground">No permanent requests waiting.</p>
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Ride</TableHead>
+            <TableHead>Riders</TableHead>
+            <TableHead className="w-[280px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {requests.map((request) => (
+            <RequestRow key={request.id} request={request} today={today} />
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Loader2, RotateCw } from 'lucide-react'
+import { resendEmail } from '@/lib/actions/emails'
+import { toast } from 'sonner'
+
+interface ResendEmailButtonProps {
+  emailId: string
+}
+
+export function ResendEmailButton({ emailId }: ResendEmailButtonProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const handleResend = () => {
+    startTransition(async () => {
+      const result = await resendEmail(emailId)
+
+      if (result.success) {
+        if (result.data?.sent) {
+          toast.success('Email sent')
+        } else {
+          toast.warning('Email queued, but delivery failed. It will be retried.')
+        }
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to resend email')
+      }
+    })
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8 text-muted-foreground"
+      title="Resend email"
+      onClick={handleResend}
+      disabled={isPending}
+    >
+      {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCw className="h-4 w-4" />}
+    </Button>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Loader2, Undo2 } from 'lucide-react'
+import { unmergeRiders } from '@/lib/actions/riders'
+import { toast } from 'sonner'
+import type { MergedRiderSnapshot, RiderMergeForAdmin } from '@/types/queries'
+
+function countDropped(merge: RiderMergeForAdmin): number {
+  const dropped = (merge.dropped_rows ?? {}) as Record<string, unknown[] | undefined>
+  return (dropped.registrations?.length ?? 0) + (dropped.results?.length ?? 0)
+}
+
+function formatRiderName(rider: MergedRiderSnapshot): string {
+  return `${rider.first_name} ${rider.last_name}`.trim()
+}
+
+interface UnmergeButtonProps {
+  mergeId: string
+  riders: MergedRiderSnapshot[]
+}
+
+function UnmergeButton({ mergeId, riders }: UnmergeButtonProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [open, setOpen] = useState(false)
+
+  const handleUnmerge = () => {
+    startTransition(async () => {
+      const result = await unmergeRiders(mergeId)
+
+      if (result.success) {
+        toast.success(
+          `Restored ${riders.length} rider${riders.length !== 1 ? 's' : ''}: ${riders.map(formatRiderName).join(', ')}`
+        )
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to undo merge')
+        setOpen(false)
+      }
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Undo2 className="h-4 w-4 mr-2" />
+          Unmerge
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Undo Merge</AlertDialogTitle>
+          <AlertDialogDescription>
+            Restore <strong>{riders.map(formatRiderName).join(', ')}</strong> and move their
+            registrations, results and memberships back. This rider&apos;s name and email go back to
+            what they were before the merge. Anything added since the merge stays with this rider.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Keep Merged</AlertDialogCancel>
+          <AlertDialogAction onClick={handleUnmerge} disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              'Unmerge'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+interface RiderMergeHistoryProps {
+  merges: RiderMergeForAdmin[] // newest first
+}
+
+export function RiderMergeHistory({ merges }: RiderMergeHistoryProps) {
+  // Merges into the same rider are undone newest first
+  const latestActiveId = merges.find((merge) => !merge.unmerged_at)?.id
+
+  return (
+    <ul className="divide-y">
+      {merges.map((merge) => {
+        const riders = (merge.source_riders ?? []) as MergedRiderSnapshot[]
+        const dropped = countDropped(merge)
+
+        return (
+          <li key={merge.id} className="flex items-start justify-between gap-4 py-3">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">
+                {riders.map((rider) => (
+                  <span key={rider.id} className="mr-3 inline-block">
+                    {formatRiderName(rider)}
+                    {rider.email && (
+                      <span className="text-muted-foreground font-normal"> ({rider.email})</span>
+                    )}
+                  </span>
+                ))}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Merged{' '}
+                {new Date(merge.merged_at).toLocaleDateString('en-CA', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                })}
+                {merge.merged_by_admin && ` by ${merge.merged_by_admin.name}`}
+                {dropped > 0 &&
+                  ` · ${dropped} duplicate event row${dropped !== 1 ? 's' : ''} removed`}
+              </p>
+            </div>
+            {merge.unmerged_at ? (
+              <Badge variant="outline">Undone</Badge>
+            ) : (
+              merge.id === latestActiveId && <UnmergeButton mergeId={merge.id} riders={riders} />
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
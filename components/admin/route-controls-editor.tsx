@@ -0,0 +1,250 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, FileUp, Loader2, Plus, Trash2 } from 'lucide-react'
+import { saveRouteControls } from '@/lib/actions/controls'
+import { CONTROL_TYPES } from '@/lib/controls'
+import { toast } from 'sonner'
+import type { ControlDefinition, ControlType } from '@/types/control-card'
+
+interface ControlRowState {
+  id: string
+  name: string
+  distance: string
+  address: string
+  controlType: ControlType
+  infoQuestion: string
+}
+
+interface RouteControlsEditorProps {
+  routeId: string
+  distanceKm: number | null
+  initialControls: ControlDefinition[]
+  fileControls?: ControlDefinition[] // Proposed from the route file's named waypoints
+}
+
+function toRowState(control: ControlDefinition): ControlRowState {
+  return {
+    id: crypto.randomUUID(),
+    name: control.name,
+    distance: String(control.distance),
+    address: control.address || '',
+    controlType: control.controlType,
+    infoQuestion: control.infoQuestion || '',
+  }
+}
+
+function emptyRow(name = '', distance = ''): ControlRowState {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    distance,
+    address: '',
+    controlType: 'staffed',
+    infoQuestion: '',
+  }
+}
+
+export function RouteControlsEditor({
+  routeId,
+  distanceKm,
+  initialControls,
+  fileControls = [],
+}: RouteControlsEditorProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+  const [controls, setControls] = useState<ControlRowState[]>(() =>
+    initialControls.length > 0
+      ? initialControls.map(toRowState)
+      : [emptyRow('Start', '0'), emptyRow('Finish', distanceKm ? String(distanceKm) : '')]
+  )
+
+  const updateControl = (id: string, changes: Partial<ControlRowState>) => {
+    setControls((prev) => prev.map((c) => (c.id === id ? { ...c, ...changes } : c)))
+  }
+
+  const addControl = () => {
+    // Insert before the finish
+    setControls((prev) =>
+      prev.length === 0 ? [emptyRow()] : [...prev.slice(0, -1), emptyRow(), prev[prev.length - 1]]
+    )
+  }
+
+  const removeControl = (id: string) => {
+    setControls((prev) => prev.filter((c) => c.id !== id))
+  }
+
+  const importFromFile = () => {
+    setControls(fileControls.map(toRowState))
+    toast.success(`Imported ${fileControls.length} waypoints. Review them, then save.`)
+  }
+
+  const handleSave = () => {
+    setError(null)
+
+    startTransition(async () => {
+      const result = await saveRouteControls(
+        routeId,
+        controls.map((c) => ({
+          name: c.name,
+          distance: c.distance === '' ? NaN : parseFloat(c.distance),
+          address: c.address || null,
+          controlType: c.controlType,
+          infoQuestion: c.infoQuestion || null,
+        }))
+      )
+
+      if (result.success) {
+        toast.success('Controls saved')
+        router.refresh()
+      } else {
+        setError(result.error || 'Failed to save controls')
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Controls</CardTitle>
+        <CardDescription>
+          Saved with the route and used to pre-fill control cards for every event on it. Events can
+          override these from their control cards page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {controls.map((control, index) => (
+          <div key={control.id} className="space-y-2 rounded-lg border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label={`Control ${index + 1} name`}
+                placeholder="Control name"
+                value={control.name}
+                onChange={(e) => updateControl(control.id, { name: e.target.value })}
+                disabled={isPending}
+                className="flex-1"
+              />
+              <Input
+                aria-label={`Control ${index + 1} distance`}
+                type="number"
+                placeholder="km"
+                value={control.distance}
+                onChange={(e) => updateControl(control.id, { distance: e.target.value })}
+                disabled={isPending}
+                className="w-24"
+                min="0"
+                step="0.1"
+              />
+              <Select
+                value={control.controlType}
+                onValueChange={(value) =>
+                  updateControl(control.id, { controlType: value as ControlType })
+                }
+                disabled={isPending}
+              >
+                <SelectTrigger className="w-32" aria-label={`Control ${index + 1} type`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTROL_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeControl(control.id)}
+                disabled={isPending}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove control</span>
+              </Button>
+            </div>
+            <Input
+              aria-label={`Control ${index + 1} address`}
+              placeholder="Address (optional)"
+              value={control.address}
+              onChange={(e) => updateControl(control.id, { address: e.target.value })}
+              disabled={isPending}
+            />
+            {control.controlType === 'info' && (
+              <div className="space-y-1">
+                <Label htmlFor={`question-${control.id}`} className="text-xs">
+                  Info question
+                </Label>
+                <Input
+                  id={`question-${control.id}`}
+                  placeholder="e.g. What colour is the church door?"
+                  value={control.infoQuestion}
+                  onChange={(e) => updateControl(control.id, { infoQuestion: e.target.value })}
+                  disabled={isPending}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addControl}
+            disabled={isPending}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Control
+          </Button>
+          {fileControls.length > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={importFromFile}
+              disabled={isPending}
+            >
+              <FileUp className="h-4 w-4 mr-1" />
+              Import from Route File ({fileControls.length})
+            </Button>
+          )}
+          <Button type="button" size="sm" onClick={handleSave} disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving…
+              </>
+            ) : (
+              'Save Controls'
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -16,12 +16,19 @@ import {
 } from '@/components/ui/select'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { AlertCircle, Loader2, ExternalLink } from 'lucide-react'
-import { createRoute, updateRoute } from '@/lib/actions/routes'
+import { AlertCircle, Loader2, ExternalLink, FileUp } from 'lucide-react'
+import { createRoute, updateRoute, uploadRouteFile } from '@/lib/actions/routes'
+import { getRouteFileFormat, parseRouteFile } from '@/lib/routes/route-file'
 import { createSlug } from '@/lib/utils'
 import { toast } from 'sonner'
 import type { ChapterOption, RouteOption } from '@/types/ui'
 
+interface RouteFileSummary {
+  distanceKm: number
+  elevationGainM: number | null
+  waypointCount: number
+}
+
 interface RouteFormProps {
   chapters: ChapterOption[]
   route?: RouteOption | null
@@ -46,6 +53,11 @@ export function RouteForm({ chapters, route, mode }: RouteFormProps) {
   const [notes, setNotes] = useState(route?.notes || '')
   const [isActive, setIsActive] = useState(route?.is_active ?? true)
 
+  // GPX/TCX upload - parsed in the browser for a preview, uploaded on save
+  const [routeFile, setRouteFile] = useState<File | null>(null)
+  const [routeFileSummary, setRouteFileSummary] = useState<RouteFileSummary | null>(null)
+  const [routeFileError, setRouteFileError] = useState<string | null>(null)
+
   // Auto-generate slug from name and distance
   const generateSlug = (routeName: string, distance: string) => {
     const parts = [routeName]
@@ -69,6 +81,34 @@ export function RouteForm({ chapters, route, mode }: RouteFormProps) {
     }
   }
 
+  const handleRouteFileChange = async (file: File | null) => {
+    setRouteFile(null)
+    setRouteFileSummary(null)
+    setRouteFileError(null)
+    if (!file) return
+
+    if (!getRouteFileFormat(file.name)) {
+      setRouteFileError('Route files must be GPX or TCX')
+      return
+    }
+
+    const parsed = parseRouteFile(await file.text())
+    if (parsed.error !== undefined) {
+      setRouteFileError(parsed.error)
+      return
+    }
+
+    setRouteFile(file)
+    setRouteFileSummary({
+      distanceKm: parsed.route.distanceKm,
+      elevationGainM: parsed.route.elevationGainM,
+      waypointCount: parsed.route.waypoints.length,
+    })
+    if (!distanceKm) {
+      handleDistanceChange(String(parsed.route.distanceKm))
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
@@ -79,6 +119,21 @@ export function RouteForm({ chapters, route, mode }: RouteFormProps) {
     }
 
     startTransition(async () => {
+      let uploadedFile: { routeFilePath: string; elevationGainM: number | null } | undefined
+      if (routeFile) {
+        const formData = new FormData()
+        formData.append('file', routeFile)
+        const upload = await uploadRouteFile(formData)
+        if (!upload.success || !upload.data) {
+          setError(upload.error || 'Failed to upload route file')
+          return
+        }
+        uploadedFile = {
+          routeFilePath: upload.data.path,
+          elevationGainM: upload.data.elevationGainM,
+        }
+      }
+
       const data = {
         name: name.trim(),
         slug,
@@ -90,6 +145,7 @@ export function RouteForm({ chapters, route, mode }: RouteFormProps) {
         cueSheetUrl: cueSheetUrl || null,
         notes: notes || null,
         isActive,
+        ...uploadedFile,
       }
 
       const result =
@@ -226,6 +282,58 @@ export function RouteForm({ chapters, route, mode }: RouteFormProps) {
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="routeFile">Route File (GPX or TCX)</Label>
+            <Input
+              id="routeFile"
+              type="file"
+              accept=".gpx,.tcx"
+              onChange={(e) => handleRouteFileChange(e.target.files?.[0] ?? null)}
+              disabled={isPending}
+            />
+            {routeFileError && <p className="text-sm text-destructive">{routeFileError}</p>}
+            {routeFileSummary ? (
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground">
+                <FileUp className="h-4 w-4" />
+                <span>
+                  {routeFileSummary.distanceKm} km
+                  {routeFileSummary.elevationGainM !== null &&
+                    ` · ${routeFileSummary.elevationGainM.toLocaleString()} m climbing`}
+                  {` · ${routeFileSummary.waypointCount} named ${
+                    routeFileSummary.waypointCount === 1 ? 'waypoint' : 'waypoints'
+                  }`}
+                </span>
+                {distanceKm !== String(routeFileSummary.distanceKm) && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => handleDistanceChange(String(routeFileSummary.distanceKm))}
+                  >
+                    Use file distance
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Stored as the route&apos;s canonical copy. Named waypoints can be imported as
+                controls after saving.
+              </p>
+            )}
+            {route?.route_file_path && (
+              <a
+                href={`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/route-files/${route.route_file_path}`}
+                className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+              >
+                Download current route file
+                {route.elevation_gain_m !== null &&
+                  ` (${route.elevation_gain_m.toLocaleString()} m climbing)`}
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="cueSheet">Cue Sheet URL</Label>
             <Input
@@ -0,0 +1,242 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { createSeries, updateSeries } from '@/lib/actions/series'
+
+export interface SeriesFormData {
+  id: string
+  name: string
+  season: number
+  description: string | null
+  collection: string | null
+  awardId: string | null
+  requiredDistances: number[]
+  minEvents: number
+}
+
+interface SeriesFormProps {
+  awards: Array<{ id: string; title: string }>
+  series?: SeriesFormData | null
+}
+
+/**
+ * Parse "200, 300, 400, 600" into distances; null if any entry isn't a number.
+ */
+function parseDistances(value: string): number[] | null {
+  const parts = value
+    .split(/[\s,]+/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+  const distances = parts.map((part) => Number(part))
+  return distances.every((km) => Number.isInteger(km) && km > 0) ? distances : null
+}
+
+export function SeriesForm({ awards, series }: SeriesFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState(series?.name || '')
+  const [season, setSeason] = useState(
+    series?.season?.toString() || process.env.NEXT_PUBLIC_CURRENT_SEASON || ''
+  )
+  const [collection, setCollection] = useState(series?.collection || '')
+  const [awardId, setAwardId] = useState(series?.awardId || '')
+  const [requiredDistances, setRequiredDistances] = useState(
+    series?.requiredDistances.join(', ') || ''
+  )
+  const [minEvents, setMinEvents] = useState(series?.minEvents?.toString() || '1')
+  const [description, setDescription] = useState(series?.description || '')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const distances = parseDistances(requiredDistances)
+    if (!distances) {
+      setError('Required distances must be a list of kilometres, e.g. 200, 300, 400, 600')
+      return
+    }
+
+    const data = {
+      name: name.trim(),
+      season: parseInt(season, 10),
+      description: description.trim() || null,
+      collection: collection.trim() || null,
+      awardId: awardId || null,
+      requiredDistances: distances,
+      minEvents: parseInt(minEvents, 10),
+    }
+
+    startTransition(async () => {
+      if (series) {
+        const result = await updateSeries(series.id, data)
+        if (result.success) {
+          toast.success('Series updated')
+          router.refresh()
+        } else {
+          setError(result.error || 'Failed to update series')
+        }
+      } else {
+        const result = await createSeries(data)
+        if (result.success && result.data) {
+          toast.success('Series created')
+          router.push(`/admin/series/${result.data.id}`)
+        } else {
+          setError(result.error || 'Failed to create series')
+        }
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{series ? 'Edit Series' : 'Create Series'}</CardTitle>
+        <CardDescription>
+          Add events to the series from the event form. Riders can register for all of its open
+          events at once, and get the award when they complete it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Devil Week 2026"
+                required
+                disabled={isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="season">Season</Label>
+              <Input
+                id="season"
+                type="number"
+                value={season}
+                onChange={(e) => setSeason(e.target.value)}
+                required
+                disabled={isPending}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="requiredDistances">Required Distances (km)</Label>
+              <Input
+                id="requiredDistances"
+                value={requiredDistances}
+                onChange={(e) => setRequiredDistances(e.target.value)}
+                placeholder="e.g., 200, 300, 400, 600"
+                disabled={isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="minEvents">Minimum Events Finished</Label>
+              <Input
+                id="minEvents"
+                type="number"
+                min="1"
+                step="1"
+                value={minEvents}
+                onChange={(e) => setMinEvents(e.target.value)}
+                required
+                disabled={isPending}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-4">
+            A rider completes the series with a finished event of at least each required distance
+            (each event counts once). Leave distances blank to only count finished events.
+          </p>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="award">Award</Label>
+              <Select
+                value={awardId || 'none'}
+                onValueChange={(v) => setAwardId(v === 'none' ? '' : v)}
+                disabled={isPending}
+              >
+                <SelectTrigger id="award" className="w-full">
+                  <SelectValue placeholder="No award" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No award</SelectItem>
+                  {awards.map((award) => (
+                    <SelectItem key={award.id} value={award.id}>
+                      {award.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="collection">Results Collection (optional)</Label>
+              <Input
+                id="collection"
+                value={collection}
+                onChange={(e) => setCollection(e.target.value)}
+                placeholder="e.g., granite-anvil"
+                disabled={isPending}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description (optional)</Label>
+            <Textarea
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Shown on the series page. Markdown formatting is supported."
+              rows={6}
+              disabled={isPending}
+              className="resize-y"
+            />
+          </div>
+
+          <Button type="submit" disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {series ? 'Saving…' : 'Creating…'}
+              </>
+            ) : series ? (
+              'Save Changes'
+            ) : (
+              'Create Series'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -28,6 +28,12 @@ import {
   ScrollText,
   Settings,
   Megaphone,
+  Building2,
+  IdCard,
+  Award,
+  Layers,
+  Mail,
+  Bike,
 } from 'lucide-react'
 import { logout } from '@/lib/actions/auth'
 import { isSuperAdmin, isFullAdmin } from '@/lib/auth/roles'
@@ -50,6 +56,18 @@ const mainNavItems = [
     icon: Calendar,
     testId: 'nav-events',
   },
+  {
+    title: 'Permanents',
+    href: '/admin/permanents',
+    icon: Bike,
+    testId: 'nav-permanents',
+  },
+  {
+    title: 'Series',
+    href: '/admin/series',
+    icon: Layers,
+    testId: 'nav-series',
+  },
   {
     title: 'Routes',
     href: '/admin/routes',
@@ -68,6 +86,18 @@ const mainNavItems = [
     icon: Trophy,
     testId: 'nav-results',
   },
+  {
+    title: 'Memberships',
+    href: '/admin/memberships',
+    icon: IdCard,
+    testId: 'nav-memberships',
+  },
+  {
+    title: 'Awards',
+    href: '/admin/awards',
+    icon: Award,
+    testId: 'nav-awards',
+  },
   {
     title: 'News',
     href: '/admin/news',
@@ -84,6 +114,13 @@ const managementNavItems = [
     testId: 'nav-pages',
     requiresSuperAdmin: false,
   },
+  {
+    title: 'Chapters',
+    href: '/admin/chapters',
+    icon: Building2,
+    testId: 'nav-chapters',
+    requiresSuperAdmin: false,
+  },
   {
     title: 'Admin Users',
     href: '/admin/users',
@@ -91,6 +128,13 @@ const managementNavItems = [
     testId: 'nav-users',
     requiresSuperAdmin: true,
   },
+  {
+    title: 'Emails',
+    href: '/admin/emails',
+    icon: Mail,
+    testId: 'nav-emails',
+    requiresSuperAdmin: false,
+  },
   {
     title: 'Audit Log',
     href: '/admin/logs',
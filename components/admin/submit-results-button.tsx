@@ -56,7 +56,7 @@ export function SubmitResultsButton({ eventId, eventName, resultsCount, onSucces
         ) : (
           <>
             <Send className="mr-2 h-4 w-4" />
-            Submit Results to VP of Brevet Administration
+            Submit Results to Chapter VP
           </>
         )}
       </Button>
@@ -66,7 +66,7 @@ export function SubmitResultsButton({ eventId, eventName, resultsCount, onSucces
           <DialogHeader>
             <DialogTitle>Submit Results?</DialogTitle>
             <DialogDescription>
-              This will email the results for <strong>{eventName}</strong> ({resultsCount} rider{resultsCount !== 1 ? 's' : ''}) to the VP of Brevet Administration and mark the event as submitted.
+              This will email the results for <strong>{eventName}</strong> ({resultsCount} rider{resultsCount !== 1 ? 's' : ''}) with the homologation file to the chapter VP and mark the event as submitted.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -5,6 +5,7 @@ import dynamic from 'next/dynamic'
 import { PageShell } from '@/components/page-shell'
 import { PageHero } from '@/components/page-hero'
 import { EventList, type Event } from '@/components/event-card'
+import { DISTANCE_BANDS, matchesDistanceBand, type DistanceBand } from '@/lib/calendar/filters'
 import {
   Select,
   SelectContent,
@@ -19,31 +20,25 @@ const CalendarSubscribeButton = dynamic(
   { ssr: false }
 )
 
-type DistanceFilter = 'all' | 'populaire' | '200' | '300' | '400' | '600' | '1000'
+type DistanceFilter = 'all' | DistanceBand
+
+const distanceBandLabels: Record<DistanceBand, string> = {
+  populaire: 'Populaires (under 200 km)',
+  '200': '200 km',
+  '300': '300 km',
+  '400': '400 km',
+  '600': '600 km',
+  '1000': '1000+ km',
+}
 
 const distanceFilterOptions: { value: DistanceFilter; label: string }[] = [
   { value: 'all', label: 'All distances' },
-  { value: 'populaire', label: 'Populaires (under 200 km)' },
-  { value: '200', label: '200 km' },
-  { value: '300', label: '300 km' },
-  { value: '400', label: '400 km' },
-  { value: '600', label: '600 km' },
-  { value: '1000', label: '1000+ km' },
+  ...DISTANCE_BANDS.map((band) => ({ value: band, label: distanceBandLabels[band] })),
 ]
 
 function filterEvents(events: Event[], filter: DistanceFilter): Event[] {
   if (filter === 'all') return events
-  return events.filter((event) => {
-    const distance = parseInt(event.distance, 10)
-    switch (filter) {
-      case 'populaire':
-        return distance < 200
-      case '1000':
-        return distance >= 1000
-      default:
-        return distance === parseInt(filter, 10)
-    }
-  })
+  return events.filter((event) => matchesDistanceBand(parseInt(event.distance, 10), filter))
 }
 
 export interface CalendarPageProps {
@@ -68,6 +63,12 @@ export function CalendarPage({
     [events, distanceFilter]
   )
 
+  // The feed carries the distance filter so subscribers get the same events
+  const feedPath =
+    distanceFilter === 'all'
+      ? `/api/calendar/${chapterSlug}.ics`
+      : `/api/calendar/${chapterSlug}.ics?distance=${distanceFilter}`
+
   return (
     <PageShell>
       <PageHero
@@ -93,7 +94,8 @@ export function CalendarPage({
               ))}
             </SelectContent>
           </Select>
-          <CalendarSubscribeButton chapter={chapterSlug} />
+          {/* The feed carries the distance filter so subscribers get the same events */}
+          <CalendarSubscribeButton feedPath={feedPath} />
         </div>
         {filteredEvents.length > 0 ? (
           <EventList events={filteredEvents} />
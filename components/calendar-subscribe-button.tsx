@@ -12,13 +12,13 @@ import {
 } from '@/components/ui/dropdown-menu'
 
 interface CalendarSubscribeButtonProps {
-  chapter: string
+  feedPath: string // e.g. /api/calendar/toronto.ics or a rider's personal feed
   variant?: 'default' | 'outline' | 'ghost'
   size?: 'default' | 'sm' | 'lg'
 }
 
 export function CalendarSubscribeButton({
-  chapter,
+  feedPath,
   variant = 'outline',
   size = 'default',
 }: CalendarSubscribeButtonProps) {
@@ -26,7 +26,6 @@ export function CalendarSubscribeButton({
 
   // Build the calendar feed URL using the configured site URL
   // Using NEXT_PUBLIC_SITE_URL consistently avoids hydration mismatches
-  const feedPath = `/api/calendar/${chapter}.ics`
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://randonneurs.to'
   const feedUrl = `${siteUrl}${feedPath}`
 
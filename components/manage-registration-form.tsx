@@ -0,0 +1,304 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import dynamic from 'next/dynamic'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import {
+  acceptPermanentProposal,
+  cancelRegistrationByToken,
+  updateRegistrationStartTime,
+  updateRegistrationEmergencyContact,
+  type ManageRegistrationData,
+} from '@/lib/actions/manage-registration'
+
+// Dynamic import to avoid Radix UI hydration mismatch with DropdownMenu
+const CalendarSubscribeButton = dynamic(
+  () => import('@/components/calendar-subscribe-button').then((mod) => mod.CalendarSubscribeButton),
+  { ssr: false }
+)
+
+interface ManageRegistrationFormProps {
+  token: string
+  initialData: ManageRegistrationData
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  registered: 'Registered',
+  waitlisted: 'On the waitlist',
+  'incomplete: membership': 'Awaiting membership',
+  cancelled: 'Cancelled',
+}
+
+export function ManageRegistrationForm({ token, initialData }: ManageRegistrationFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [startTime, setStartTime] = useState(initialData.startTime || '')
+  const [emergencyContactName, setEmergencyContactName] = useState(
+    initialData.emergencyContactName || ''
+  )
+  const [emergencyContactPhone, setEmergencyContactPhone] = useState(
+    initialData.emergencyContactPhone || ''
+  )
+  const [cancelOpen, setCancelOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const eventDate = format(new Date(initialData.eventDate + 'T00:00:00'), 'EEEE, MMMM d, yyyy')
+
+  function handleResult(result: { success: boolean; error?: string }, successMessage: string) {
+    if (result.success) {
+      setError(null)
+      setMessage(successMessage)
+      router.refresh()
+    } else {
+      setMessage(null)
+      setError(result.error || 'Something went wrong')
+    }
+  }
+
+  function handleStartTimeSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await updateRegistrationStartTime(token, startTime)
+      handleResult(result, 'Your start time has been updated.')
+    })
+  }
+
+  function handleEmergencyContactSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await updateRegistrationEmergencyContact(token, {
+        name: emergencyContactName,
+        phone: emergencyContactPhone,
+      })
+      handleResult(result, 'Your emergency contact has been updated.')
+    })
+  }
+
+  function handleAcceptProposal() {
+    startTransition(async () => {
+      const result = await acceptPermanentProposal(token)
+      handleResult(result, 'Thanks! Your permanent ride has been approved with the new details.')
+    })
+  }
+
+  function handleCancel() {
+    startTransition(async () => {
+      const result = await cancelRegistrationByToken(token)
+      setCancelOpen(false)
+      handleResult(result, 'Your registration has been cancelled.')
+    })
+  }
+
+  return (
+    <div className="md:rounded-2xl md:border md:border-border md:bg-card md:p-8">
+      {/* Event Header */}
+      <header className="mb-8 pb-6 border-b border-border text-center">
+        <p className="text-base md:text-lg mb-1">
+          Registration for <span className="font-medium">{initialData.riderName}</span>
+        </p>
+        <h1 className="font-serif text-2xl md:text-3xl tracking-tight mb-2">
+          <Link
+            href={`/register/${initialData.eventSlug}`}
+            className="hover:underline underline-offset-4"
+          >
+            {initialData.eventName}
+          </Link>
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          {eventDate} · {initialData.eventDistance} km · {initialData.chapterName}
+        </p>
+        <p className="text-sm mt-2" data-testid="registration-status">
+          Status:{' '}
+          <span className="font-medium">
+            {STATUS_LABELS[initialData.status] || initialData.status}
+          </span>
+        </p>
+      </header>
+
+      {message && (
+        <div className="mb-6 p-3 rounded-lg bg-green-50 text-green-800 dark:bg-green-950/30 dark:text-green-300 text-sm">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="mb-6 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+          {error}
+        </div>
+      )}
+
+      {initialData.status === 'registered' && (
+        <div className="mb-8 pb-6 border-b border-border flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            Add all your upcoming rides, including permanents, to your calendar. It updates as you
+            register and shows cancelled events.
+          </p>
+          <CalendarSubscribeButton
+            feedPath={`/api/calendar/rider/${initialData.calendarToken}.ics`}
+            size="sm"
+          />
+        </div>
+      )}
+
+      {!initialData.canChange ? (
+        <p className="text-sm text-muted-foreground text-center">
+          {initialData.status === 'cancelled'
+            ? 'This registration has been cancelled.'
+            : 'This registration can no longer be changed.'}{' '}
+          Contact your chapter VP if you need help.
+        </p>
+      ) : (
+        <div className="space-y-8">
+          {/* Permanent request awaiting the route coordinator */}
+          {initialData.awaitingApproval && !initialData.proposal && (
+            <p
+              className="p-3 rounded-lg bg-muted text-sm text-muted-foreground"
+              data-testid="awaiting-approval"
+            >
+              Your permanent request is waiting for the route coordinator&apos;s approval.
+              We&apos;ll email you once it&apos;s approved.
+            </p>
+          )}
+
+          {/* The route coordinator's proposed change */}
+          {initialData.proposal && (
+            <div
+              className="space-y-3 p-4 rounded-lg border border-amber-300 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/30"
+              data-testid="permanent-proposal"
+            >
+              <p className="text-sm font-medium">The route coordinator has proposed a change</p>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt className="text-muted-foreground">Date</dt>
+                <dd>
+                  {format(
+                    new Date(initialData.proposal.eventDate + 'T00:00:00'),
+                    'EEEE, MMMM d, yyyy'
+                  )}
+                </dd>
+                <dt className="text-muted-foreground">Start time</dt>
+                <dd>{initialData.proposal.startTime || 'TBD'}</dd>
+                <dt className="text-muted-foreground">Start location</dt>
+                <dd>{initialData.proposal.startLocation || 'Start control per route'}</dd>
+              </dl>
+              {initialData.proposal.note && (
+                <p className="text-sm whitespace-pre-line">{initialData.proposal.note}</p>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Accept to have your ride approved with these details, or cancel your request below.
+              </p>
+              <Button onClick={handleAcceptProposal} disabled={isPending}>
+                Accept Change
+              </Button>
+            </div>
+          )}
+
+          {/* Start Time (permanents only) */}
+          {initialData.isPermanent && (
+            <form className="space-y-2" onSubmit={handleStartTimeSubmit}>
+              <Label htmlFor="startTime">Start Time</Label>
+              {initialData.canChangeStartTime ? (
+                <div className="flex gap-2">
+                  <Input
+                    id="startTime"
+                    type="time"
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
+                    disabled={isPending}
+                    required
+                  />
+                  <Button type="submit" variant="outline" disabled={isPending}>
+                    Update
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Other riders are registered for this permanent. Contact your chapter VP to change
+                  the start time.
+                </p>
+              )}
+            </form>
+          )}
+
+          {/* Emergency Contact */}
+          <form className="space-y-4" onSubmit={handleEmergencyContactSubmit}>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="emergencyContactName">Emergency Contact Name</Label>
+                <Input
+                  id="emergencyContactName"
+                  value={emergencyContactName}
+                  onChange={(e) => setEmergencyContactName(e.target.value)}
+                  disabled={isPending}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="emergencyContactPhone">Emergency Contact Phone</Label>
+                <Input
+                  id="emergencyContactPhone"
+                  type="tel"
+                  value={emergencyContactPhone}
+                  onChange={(e) => setEmergencyContactPhone(e.target.value)}
+                  disabled={isPending}
+                  required
+                />
+              </div>
+            </div>
+            <Button type="submit" variant="outline" disabled={isPending}>
+              Update Emergency Contact
+            </Button>
+          </form>
+
+          {/* Cancel */}
+          <div className="pt-6 border-t border-border">
+            <p className="text-sm text-muted-foreground mb-3">
+              Can&apos;t make it? Cancelling frees up your spot for another rider.
+            </p>
+            <AlertDialog open={cancelOpen} onOpenChange={setCancelOpen}>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="text-destructive hover:text-destructive">
+                  Cancel Registration
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Cancel Registration</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Are you sure you want to cancel your registration for{' '}
+                    <strong>{initialData.eventName}</strong>? This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel disabled={isPending}>Keep Registration</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleCancel}
+                    disabled={isPending}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    {isPending ? 'Cancelling…' : 'Cancel Registration'}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -204,6 +204,11 @@ export function Navbar() {
                       Records
                     </Link>
                   </li>
+                  <li>
+                    <Link href="/account" className={dropdownLinkStyles}>
+                      Your Account
+                    </Link>
+                  </li>
                 </ul>
               </NavigationMenuContent>
             </NavigationMenuItem>
@@ -387,6 +392,13 @@ export function Navbar() {
                 >
                   Records
                 </Link>
+                <Link
+                  href="/account"
+                  onClick={() => setOpen(false)}
+                  className="block px-3 py-2 text-sm text-muted-foreground hover:text-foreground hover:bg-muted rounded-md transition-colors"
+                >
+                  Your Account
+                </Link>
               </MobileNavSection>
 
               {/* Membership */}
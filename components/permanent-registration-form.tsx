@@ -27,6 +27,7 @@ import {
   CommandList,
 } from '@/components/ui/command'
 import { registerForPermanent, completeRegistrationWithRider } from '@/lib/actions/register'
+import { getAccountRegistrationDetails } from '@/lib/actions/account'
 import { RiderMatchDialog } from '@/components/rider-match-dialog'
 import type { RiderMatchCandidate } from '@/lib/actions/rider-match'
 import type { ActiveRoute } from '@/lib/data/routes'
@@ -94,6 +95,7 @@ export function PermanentRegistrationForm({ routes }: PermanentRegistrationFormP
   // UI state
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [pendingApproval, setPendingApproval] = useState(false)
 
   // Fuzzy matching state
   const [matchDialogOpen, setMatchDialogOpen] = useState(false)
@@ -130,6 +132,20 @@ export function PermanentRegistrationForm({ routes }: PermanentRegistrationFormP
     }
   }, [])
 
+  // A signed-in rider's account details take precedence over saved data
+  useEffect(() => {
+    getAccountRegistrationDetails().then((result) => {
+      if (!result.success || !result.data) return
+      const details = result.data
+      setFirstName(details.firstName)
+      setLastName(details.lastName)
+      setEmail(details.email)
+      if (details.gender) setGender(details.gender)
+      if (details.emergencyContactName) setEmergencyContactName(details.emergencyContactName)
+      if (details.emergencyContactPhone) setEmergencyContactPhone(details.emergencyContactPhone)
+    })
+  }, [])
+
   // Scroll error into view when it appears
   useEffect(() => {
     if (error && errorRef.current) {
@@ -184,6 +200,7 @@ export function PermanentRegistrationForm({ routes }: PermanentRegistrationFormP
           emergencyContactName,
           emergencyContactPhone,
         })
+        setPendingApproval(!!result.pendingApproval)
         setSuccess(true)
         router.refresh()
       } else if (result.needsRiderMatch && result.matchCandidates && result.pendingData) {
@@ -223,6 +240,7 @@ export function PermanentRegistrationForm({ routes }: PermanentRegistrationFormP
           emergencyContactName,
           emergencyContactPhone,
         })
+        setPendingApproval(!!result.pendingApproval)
         setSuccess(true)
         router.refresh()
       } else {
@@ -251,11 +269,24 @@ export function PermanentRegistrationForm({ routes }: PermanentRegistrationFormP
               />
             </svg>
           </div>
-          <h2 className="font-serif text-2xl mb-2">You&apos;re registered!</h2>
-          <p className="text-sm text-muted-foreground">
-            Your permanent ride has been scheduled. You&apos;ll receive a confirmation email
-            shortly.
-          </p>
+          {pendingApproval ? (
+            <>
+              <h2 className="font-serif text-2xl mb-2">Request sent!</h2>
+              <p className="text-sm text-muted-foreground">
+                Your permanent ride is waiting for the route coordinator&apos;s approval.
+                You&apos;ll receive a confirmation email shortly, and another once it&apos;s
+                approved.
+              </p>
+            </>
+          ) : (
+            <>
+              <h2 className="font-serif text-2xl mb-2">You&apos;re registered!</h2>
+              <p className="text-sm text-muted-foreground">
+                Your permanent ride has been scheduled. You&apos;ll receive a confirmation email
+                shortly.
+              </p>
+            </>
+          )}
         </div>
       </div>
     )
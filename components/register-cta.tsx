@@ -8,9 +8,10 @@ import { RegistrationForm } from '@/components/registration-form'
 interface RegisterCTAProps {
   eventId: string
   isPermanent: boolean
+  isFull?: boolean
 }
 
-export function RegisterCTA({ eventId, isPermanent }: RegisterCTAProps) {
+export function RegisterCTA({ eventId, isPermanent, isFull = false }: RegisterCTAProps) {
   const [isOpen, setIsOpen] = useState(false)
 
   return (
@@ -18,7 +19,7 @@ export function RegisterCTA({ eventId, isPermanent }: RegisterCTAProps) {
       {/* Mobile CTA Button */}
       <div className="lg:hidden">
         <Button size="lg" className="w-full text-base h-12" onClick={() => setIsOpen(true)}>
-          Register for this event
+          {isFull ? 'Join the waitlist' : 'Register for this event'}
         </Button>
       </div>
 
@@ -26,10 +27,17 @@ export function RegisterCTA({ eventId, isPermanent }: RegisterCTAProps) {
       <Drawer open={isOpen} onOpenChange={setIsOpen}>
         <DrawerContent className="px-2 pb-safe">
           <DrawerHeader>
-            <DrawerTitle className="font-serif text-2xl tracking-tight">Register</DrawerTitle>
+            <DrawerTitle className="font-serif text-2xl tracking-tight">
+              {isFull ? 'Join the Waitlist' : 'Register'}
+            </DrawerTitle>
           </DrawerHeader>
           <div className="overflow-y-auto px-4 pb-6">
-            <RegistrationForm eventId={eventId} isPermanent={isPermanent} variant="plain" />
+            <RegistrationForm
+              eventId={eventId}
+              isPermanent={isPermanent}
+              variant="plain"
+              isFull={isFull}
+            />
           </div>
         </DrawerContent>
       </Drawer>
@@ -37,7 +45,7 @@ export function RegisterCTA({ eventId, isPermanent }: RegisterCTAProps) {
       {/* Desktop Sidebar Form */}
       <div className="hidden lg:block">
         <div className="lg:sticky lg:top-8">
-          <RegistrationForm eventId={eventId} isPermanent={isPermanent} />
+          <RegistrationForm eventId={eventId} isPermanent={isPermanent} isFull={isFull} />
         </div>
       </div>
     </>
@@ -15,7 +15,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { registerForEvent, completeRegistrationWithRider } from '@/lib/actions/register'
+import {
+  registerForEvent,
+  registerForSeries,
+  completeRegistrationWithRider,
+} from '@/lib/actions/register'
+import { getAccountRegistrationDetails } from '@/lib/actions/account'
 import { RiderMatchDialog } from '@/components/rider-match-dialog'
 import type { RiderMatchCandidate } from '@/lib/actions/rider-match'
 import { getUpcomingEventsByEventId, type UpcomingEvent } from '@/lib/actions/rider-results'
@@ -58,12 +63,18 @@ interface RegistrationFormProps {
   isPermanent?: boolean
   /** "card" shows border/title container, "plain" for use in drawers/modals */
   variant?: 'card' | 'plain'
+  /** Event is at its rider limit; new registrations join the waitlist */
+  isFull?: boolean
+  /** Register for every open event in this series (eventId is its first open event) */
+  seriesId?: string
 }
 
 export function RegistrationForm({
   eventId,
   isPermanent,
   variant = 'card',
+  isFull = false,
+  seriesId,
 }: RegistrationFormProps) {
   const router = useRouter()
   const [isPending, startTransition] = useTransition()
@@ -76,6 +87,8 @@ export function RegistrationForm({
   const [emergencyContactPhone, setEmergencyContactPhone] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [waitlisted, setWaitlisted] = useState(false)
+  const [failedEvents, setFailedEvents] = useState<string[]>([])
 
   // Membership error state
   const [membershipErrorVariant, setMembershipErrorVariant] = useState<
@@ -86,6 +99,7 @@ export function RegistrationForm({
   const [matchDialogOpen, setMatchDialogOpen] = useState(false)
   const [matchCandidates, setMatchCandidates] = useState<RiderMatchCandidate[]>([])
   const [pendingNotes, setPendingNotes] = useState<string>('')
+  const [pendingEventId, setPendingEventId] = useState<string>(eventId)
 
   // Upcoming events state
   const [upcomingEvents, setUpcomingEvents] = useState<UpcomingEvent[]>([])
@@ -107,6 +121,20 @@ export function RegistrationForm({
     }
   }, [])
 
+  // A signed-in rider's account details take precedence over saved data
+  useEffect(() => {
+    getAccountRegistrationDetails().then((result) => {
+      if (!result.success || !result.data) return
+      const details = result.data
+      setFirstName(details.firstName)
+      setLastName(details.lastName)
+      setEmail(details.email)
+      if (details.gender) setGender(details.gender)
+      if (details.emergencyContactName) setEmergencyContactName(details.emergencyContactName)
+      if (details.emergencyContactPhone) setEmergencyContactPhone(details.emergencyContactPhone)
+    })
+  }, [])
+
   // Scroll error into view when it appears
   useEffect(() => {
     if (error && errorRef.current) {
@@ -122,8 +150,7 @@ export function RegistrationForm({
     const notes = formData.get('notes') as string
 
     startTransition(async () => {
-      const result = await registerForEvent({
-        eventId,
+      const registrationData = {
         firstName,
         lastName,
         email,
@@ -132,7 +159,10 @@ export function RegistrationForm({
         notes: notes || undefined,
         emergencyContactName,
         emergencyContactPhone,
-      })
+      }
+      const result = seriesId
+        ? await registerForSeries({ ...registrationData, seriesId })
+        : await registerForEvent({ ...registrationData, eventId })
 
       if (result.success) {
         // Save form data to localStorage for next registration
@@ -145,11 +175,13 @@ export function RegistrationForm({
           emergencyContactName,
           emergencyContactPhone,
         })
+        setWaitlisted(result.waitlisted ?? false)
+        setFailedEvents(result.failedEvents ?? [])
         setSuccess(true)
         router.refresh()
 
-        // Fetch upcoming events for non-permanents
-        if (!isPermanent) {
+        // Fetch upcoming events for single events (not permanents or series)
+        if (!isPermanent && !seriesId) {
           setLoadingEvents(true)
           getUpcomingEventsByEventId(eventId, 3)
             .then((eventsResult) => {
@@ -168,6 +200,7 @@ export function RegistrationForm({
         // Show fuzzy matching dialog
         setMatchCandidates(result.matchCandidates)
         setPendingNotes(notes || '')
+        setPendingEventId(result.pendingData?.eventId ?? eventId)
         setMatchDialogOpen(true)
       } else if (result.membershipError) {
         setMembershipErrorVariant(result.membershipError)
@@ -179,9 +212,7 @@ export function RegistrationForm({
 
   async function handleRiderSelection(riderId: string | null) {
     startTransition(async () => {
-      const result = await completeRegistrationWithRider({
-        eventId,
-        selectedRiderId: riderId,
+      const registrationData = {
         firstName,
         lastName,
         email,
@@ -190,8 +221,23 @@ export function RegistrationForm({
         notes: pendingNotes || undefined,
         emergencyContactName,
         emergencyContactPhone,
+      }
+      let result = await completeRegistrationWithRider({
+        ...registrationData,
+        eventId: pendingEventId,
+        selectedRiderId: riderId,
       })
 
+      // For a series, the first event is done; the rider is now found by email
+      // for the rest. Failing that (e.g. there were no other open events) the
+      // first registration still stands.
+      if (result.success && seriesId) {
+        const seriesResult = await registerForSeries({ ...registrationData, seriesId })
+        if (seriesResult.success || seriesResult.membershipError) {
+          result = { ...seriesResult, waitlisted: result.waitlisted || seriesResult.waitlisted }
+        }
+      }
+
       if (result.success) {
         setMatchDialogOpen(false)
         saveData({
@@ -203,11 +249,13 @@ export function RegistrationForm({
           emergencyContactName,
           emergencyContactPhone,
         })
+        setWaitlisted(result.waitlisted ?? false)
+        setFailedEvents(result.failedEvents ?? [])
         setSuccess(true)
         router.refresh()
 
-        // Fetch upcoming events for non-permanents
-        if (!isPermanent) {
+        // Fetch upcoming events for single events (not permanents or series)
+        if (!isPermanent && !seriesId) {
           setLoadingEvents(true)
           getUpcomingEventsByEventId(eventId, 3)
             .then((eventsResult) => {
@@ -256,8 +304,31 @@ export function RegistrationForm({
               />
             </svg>
           </div>
-          <h2 className="font-serif text-2xl tracking-tight mb-2">You're registered!</h2>
-          <p className="text-sm text-muted-foreground">See you at the start line.</p>
+          {waitlisted ? (
+            <>
+              <h2 className="font-serif text-2xl tracking-tight mb-2">You're on the waitlist</h2>
+              <p className="text-sm text-muted-foreground">
+                {seriesId
+                  ? "Some events in the series are full. Your confirmation emails say which; we'll email you if a spot opens up."
+                  : "This event is full. We'll email you if a spot opens up."}
+              </p>
+            </>
+          ) : (
+            <>
+              <h2 className="font-serif text-2xl tracking-tight mb-2">You're registered!</h2>
+              <p className="text-sm text-muted-foreground">
+                {seriesId
+                  ? "You'll get a confirmation email for each event in the series."
+                  : 'See you at the start line.'}
+              </p>
+            </>
+          )}
+          {failedEvents.length > 0 && (
+            <p className="text-sm text-destructive mt-4">
+              We couldn&apos;t register you for {failedEvents.join(', ')}. Please try again from
+              those events&apos; pages.
+            </p>
+          )}
         </div>
 
         {/* Upcoming Events Section */}
@@ -286,7 +357,17 @@ export function RegistrationForm({
 
   return (
     <div className={wrapperClassName}>
-      {variant === 'card' && <h2 className="font-serif text-2xl tracking-tight mb-6">Register</h2>}
+      {variant === 'card' && (
+        <h2 className="font-serif text-2xl tracking-tight mb-6">
+          {isFull ? 'Join the Waitlist' : 'Register'}
+        </h2>
+      )}
+      {isFull && (
+        <p className="text-sm text-muted-foreground mb-6">
+          This event is full. Register below to join the waitlist — riders are added in order as
+          spots open up, and you&apos;ll be emailed if you get in.
+        </p>
+      )}
 
       {isPermanent && (
         <div className="bg-muted/50 border border-border rounded-lg p-4 mb-6 text-sm">
@@ -472,7 +553,7 @@ export function RegistrationForm({
           disabled={isPending}
           data-testid="registration-submit"
         >
-          {isPending ? 'Registering…' : 'Register'}
+          {isPending ? 'Registering…' : isFull ? 'Join Waitlist' : 'Register'}
         </Button>
       </form>
 
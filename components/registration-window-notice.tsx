@@ -0,0 +1,84 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  formatCountdown,
+  formatRegistrationWindowDate,
+  getRegistrationWindowState,
+} from '@/lib/registrations/window'
+
+interface RegistrationWindowNoticeProps {
+  opensAt: string | null // ISO timestamp
+  closesAt: string | null // ISO timestamp
+}
+
+/**
+ * Shows when registration opens or closes, with a live countdown.
+ * Refreshes the page when a boundary passes so the form appears or disappears.
+ */
+export function RegistrationWindowNotice({ opensAt, closesAt }: RegistrationWindowNoticeProps) {
+  const router = useRouter()
+  // Countdown is rendered only after mount to avoid a server/client mismatch
+  const [now, setNow] = useState<Date | null>(null)
+
+  const registrationWindow = {
+    opensAt: opensAt ? new Date(opensAt) : null,
+    closesAt: closesAt ? new Date(closesAt) : null,
+  }
+  // State as rendered by the server; a change means the page needs refreshing
+  const [initialState] = useState(() => getRegistrationWindowState(registrationWindow))
+  const state = now ? getRegistrationWindowState(registrationWindow, now) : initialState
+  const refreshedFor = useRef(initialState)
+
+  useEffect(() => {
+    setNow(new Date())
+    const interval = setInterval(() => setNow(new Date()), 60_000)
+    return () => clearInterval(interval)
+  }, [])
+
+  useEffect(() => {
+    if (state !== refreshedFor.current) {
+      refreshedFor.current = state
+      router.refresh()
+    }
+  }, [state, router])
+
+  if (state === 'not-yet-open' && registrationWindow.opensAt) {
+    return (
+      <div
+        className="rounded-2xl border border-border bg-card p-6 text-center"
+        data-testid="registration-window-notice"
+      >
+        <p className="font-serif text-xl tracking-tight mb-1">Registration opens soon</p>
+        <p className="text-sm text-muted-foreground">
+          Opens {formatRegistrationWindowDate(registrationWindow.opensAt)}
+          {now && ` (in ${formatCountdown(registrationWindow.opensAt.getTime() - now.getTime())})`}
+        </p>
+      </div>
+    )
+  }
+
+  if (state === 'closed') {
+    return (
+      <div
+        className="rounded-2xl border border-border bg-card p-6 text-center"
+        data-testid="registration-window-notice"
+      >
+        <p className="font-serif text-xl tracking-tight mb-1">Registration closed</p>
+        <p className="text-sm text-muted-foreground">
+          Contact the chapter organizer if you still hope to ride.
+        </p>
+      </div>
+    )
+  }
+
+  if (!registrationWindow.closesAt) return null
+
+  return (
+    <p className="text-sm text-muted-foreground mb-3" data-testid="registration-window-notice">
+      Registration closes {formatRegistrationWindowDate(registrationWindow.closesAt)}
+      {now && ` (in ${formatCountdown(registrationWindow.closesAt.getTime() - now.getTime())})`}
+    </p>
+  )
+}
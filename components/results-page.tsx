@@ -211,12 +211,16 @@ export function ResultsPage({
                         className="flex items-center justify-between py-1.5 border-b border-border/50 group gap-2"
                       >
                         <div className="flex items-center gap-1.5 min-w-0">
-                          <Link
-                            href={`/riders/${rider.slug}`}
-                            className="text-sm hover:text-primary transition-colors truncate"
-                          >
-                            {rider.name}
-                          </Link>
+                          {rider.slug ? (
+                            <Link
+                              href={`/riders/${rider.slug}`}
+                              className="text-sm hover:text-primary transition-colors truncate"
+                            >
+                              {rider.name}
+                            </Link>
+                          ) : (
+                            <span className="text-sm truncate">{rider.name}</span>
+                          )}
                           {rider.isFirstBrevet && (
                             <AwardBadge award={{ title: 'First Brevet' }} className="shrink-0" />
                           )}
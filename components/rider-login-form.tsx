@@ -0,0 +1,80 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { requestRiderMagicLink } from '@/lib/actions/account'
+import { Loader2 } from 'lucide-react'
+
+interface RiderLoginFormProps {
+  /** Where to send the rider after they follow the link */
+  next?: string
+  initialError?: string | null
+}
+
+export function RiderLoginForm({ next, initialError = null }: RiderLoginFormProps) {
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState<string | null>(initialError)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setError(null)
+
+    startTransition(async () => {
+      const result = await requestRiderMagicLink(email, next)
+      if (result.success) {
+        setSentTo(email.trim())
+      } else {
+        setError(result.error || 'Failed to send sign-in link')
+      }
+    })
+  }
+
+  if (sentTo) {
+    return (
+      <div className="p-4 rounded-lg bg-green-50 text-green-800 dark:bg-green-950/30 dark:text-green-300 text-sm">
+        Check your inbox. We sent a sign-in link to <span className="font-medium">{sentTo}</span>.
+        It works once and expires after an hour.
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input
+          id="email"
+          type="email"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          autoComplete="email"
+          disabled={isPending}
+        />
+        <p className="text-xs text-muted-foreground">
+          Use the email you register for rides with, so we can find your registrations and results.
+        </p>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Sending link...
+          </>
+        ) : (
+          'Email me a sign-in link'
+        )}
+      </Button>
+    </form>
+  )
+}
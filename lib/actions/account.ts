@@ -0,0 +1,220 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createSupabaseServerClient } from '@/lib/supabase-server-client'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { getRider } from '@/lib/auth/get-rider'
+import { isProfileVisibility, type ProfileVisibility } from '@/lib/riders/privacy'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/** Only return to pages on this site after sign-in */
+function getSafeNextPath(next?: string): string {
+  if (next && next.startsWith('/') && !next.startsWith('//')) return next
+  return '/account'
+}
+
+/**
+ * Email a rider a sign-in link. The link lands on /account/callback, which
+ * exchanges it for a session and sends the rider on to `next`.
+ */
+export async function requestRiderMagicLink(email: string, next?: string): Promise<ActionResult> {
+  const normalizedEmail = email?.toLowerCase().trim()
+  if (!normalizedEmail || !EMAIL_PATTERN.test(normalizedEmail)) {
+    return { success: false, error: 'Please enter a valid email address' }
+  }
+
+  try {
+    // Admin accounts sign in with a password; a magic link would bypass it
+    const { data: admin } = await getSupabaseAdmin()
+      .from('admins')
+      .select('id')
+      .eq('email', normalizedEmail)
+      .maybeSingle()
+
+    if (admin) {
+      return { success: false, error: 'Admins sign in at /admin/login' }
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://randonneursontario.ca'
+    const callbackUrl = new URL('/account/callback', baseUrl)
+    callbackUrl.searchParams.set('next', getSafeNextPath(next))
+
+    const supabase = await createSupabaseServerClient()
+    const { error } = await supabase.auth.signInWithOtp({
+      email: normalizedEmail,
+      options: {
+        emailRedirectTo: callbackUrl.toString(),
+        shouldCreateUser: true,
+      },
+    })
+
+    if (error) {
+      // Don't log auth errors to Sentry (security/privacy)
+      return { success: false, error: error.message }
+    }
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'requestRiderMagicLink' },
+      'Failed to send sign-in link'
+    )
+  }
+}
+
+export async function riderLogout(): Promise<void> {
+  const supabase = await createSupabaseServerClient()
+  await supabase.auth.signOut()
+  redirect('/')
+}
+
+export interface AccountRegistrationDetails {
+  firstName: string
+  lastName: string
+  email: string
+  gender: string
+  emergencyContactName: string
+  emergencyContactPhone: string
+}
+
+/**
+ * Details to pre-fill registration forms with. Returns null when no rider is
+ * signed in, so forms fall back to what the browser remembered.
+ */
+export async function getAccountRegistrationDetails(): Promise<
+  ActionResult<AccountRegistrationDetails | null>
+> {
+  try {
+    const rider = await getRider()
+    if (!rider) {
+      return createActionResult(null)
+    }
+
+    return createActionResult({
+      firstName: rider.first_name,
+      lastName: rider.last_name,
+      email: rider.email || '',
+      gender: rider.gender || '',
+      emergencyContactName: rider.emergency_contact_name || '',
+      emergencyContactPhone: rider.emergency_contact_phone || '',
+    })
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'getAccountRegistrationDetails' },
+      'Failed to load your details'
+    )
+  }
+}
+
+export interface UpdateAccountProfileData {
+  gender: string | null
+  emergencyContactName: string
+  emergencyContactPhone: string
+  profileVisibility: ProfileVisibility
+  excludeFromRecords: boolean
+}
+
+/**
+ * Update the signed-in rider's own profile.
+ */
+export async function updateAccountProfile(data: UpdateAccountProfileData): Promise<ActionResult> {
+  try {
+    const rider = await getRider()
+    if (!rider) {
+      return { success: false, error: 'Please sign in again' }
+    }
+
+    if (data.gender !== null && !['M', 'F', 'X'].includes(data.gender)) {
+      return { success: false, error: 'Invalid gender' }
+    }
+
+    if (!isProfileVisibility(data.profileVisibility)) {
+      return { success: false, error: 'Invalid profile visibility' }
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('riders')
+      .update({
+        gender: data.gender,
+        emergency_contact_name: data.emergencyContactName.trim() || null,
+        emergency_contact_phone: data.emergencyContactPhone.trim() || null,
+        profile_visibility: data.profileVisibility,
+        exclude_from_records: data.excludeFromRecords === true,
+      })
+      .eq('id', rider.id)
+
+    if (error) {
+      return handleSupabaseError(
+        error,
+        { operation: 'updateAccountProfile', context: { riderId: rider.id } },
+        'Failed to update your profile'
+      )
+    }
+
+    // Privacy settings change how the rider appears across the public site
+    revalidateTag('riders', 'max')
+    revalidateTag(`rider-${rider.slug}`, 'max')
+    revalidateTag('results', 'max')
+    revalidateTag('records', 'max')
+    revalidateTag('registrations', 'max')
+    revalidatePath('/account')
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'updateAccountProfile' },
+      'Failed to update your profile'
+    )
+  }
+}
+
+/**
+ * Ask for the signed-in rider's personal data to be erased. An admin reviews
+ * the request and anonymizes the rider (see anonymizeRider).
+ */
+export async function requestRiderErasure(note: string): Promise<ActionResult> {
+  try {
+    const rider = await getRider()
+    if (!rider) {
+      return { success: false, error: 'Please sign in again' }
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('rider_data_requests')
+      .insert({
+        rider_id: rider.id,
+        request_type: 'erasure',
+        note: note.trim() || null,
+      })
+
+    if (error) {
+      // Unique index allows one pending erasure request per rider
+      if (error.code === '23505') {
+        return { success: false, error: 'You already have an erasure request pending' }
+      }
+      return handleSupabaseError(
+        error,
+        { operation: 'requestRiderErasure', context: { riderId: rider.id } },
+        'Failed to send your request'
+      )
+    }
+
+    revalidatePath('/account')
+    revalidatePath('/admin/riders/data-requests')
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'requestRiderErasure' },
+      'Failed to send your request'
+    )
+  }
+}
@@ -0,0 +1,164 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logAuditEvent } from '@/lib/audit-log'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+
+interface PendingAwardForPublish {
+  id: string
+  result_id: string
+  award_id: string
+  awards: { title: string } | null
+  results: { riders: { first_name: string; last_name: string; slug: string } | null } | null
+}
+
+/**
+ * Publish queued awards: copy them to result_awards so they show on rider
+ * profiles, then clear them from the queue.
+ */
+export async function publishPendingAwards(
+  pendingAwardIds: string[]
+): Promise<ActionResult<{ published: number }>> {
+  try {
+    const admin = await requireAdmin()
+
+    if (pendingAwardIds.length === 0) {
+      return { success: false, error: 'No awards selected' }
+    }
+
+    const supabase = getSupabaseAdmin()
+
+    const { data, error: fetchError } = await supabase
+      .from('pending_awards')
+      .select(
+        'id, result_id, award_id, awards (title), results (riders (first_name, last_name, slug))'
+      )
+      .in('id', pendingAwardIds)
+      .eq('status', 'pending')
+
+    if (fetchError) {
+      return handleSupabaseError(
+        fetchError,
+        { operation: 'publishPendingAwards.fetch' },
+        'Failed to load awards'
+      )
+    }
+
+    const pending = (data ?? []) as PendingAwardForPublish[]
+    if (pending.length === 0) {
+      return { success: false, error: 'These awards have already been published or dismissed' }
+    }
+
+    const { error: insertError } = await supabase.from('result_awards').upsert(
+      pending.map((p) => ({ result_id: p.result_id, award_id: p.award_id })),
+      { onConflict: 'result_id,award_id', ignoreDuplicates: true }
+    )
+
+    if (insertError) {
+      return handleSupabaseError(
+        insertError,
+        { operation: 'publishPendingAwards.insert' },
+        'Failed to publish awards'
+      )
+    }
+
+    const { error: deleteError } = await supabase
+      .from('pending_awards')
+      .delete()
+      .in(
+        'id',
+        pending.map((p) => p.id)
+      )
+
+    if (deleteError) {
+      return handleSupabaseError(
+        deleteError,
+        { operation: 'publishPendingAwards.delete' },
+        'Awards published but the queue could not be cleared'
+      )
+    }
+
+    revalidatePath('/admin/awards')
+    revalidateTag('results', 'max')
+    revalidateTag('riders', 'max')
+
+    for (const award of pending) {
+      const rider = award.results?.riders
+      if (rider) revalidateTag(`rider-${rider.slug}`, 'max')
+
+      await logAuditEvent({
+        adminId: admin.id,
+        action: 'create',
+        entityType: 'award',
+        entityId: award.result_id,
+        description: `Published ${award.awards?.title ?? 'award'}${
+          rider ? ` for ${rider.first_name} ${rider.last_name}` : ''
+        }`,
+      })
+    }
+
+    return createActionResult({ published: pending.length })
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'publishPendingAwards' },
+      'Failed to publish awards'
+    )
+  }
+}
+
+/**
+ * Dismiss a queued award. It stays in the queue as dismissed so the award
+ * engine won't propose it again.
+ */
+export async function dismissPendingAward(pendingAwardId: string): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const { data, error } = await getSupabaseAdmin()
+      .from('pending_awards')
+      .update({
+        status: 'dismissed',
+        reviewed_by: admin.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', pendingAwardId)
+      .eq('status', 'pending')
+      .select('result_id, awards (title), results (riders (first_name, last_name))')
+      .single()
+
+    if (error || !data) {
+      return handleSupabaseError(
+        error,
+        { operation: 'dismissPendingAward' },
+        'Award not found or already reviewed'
+      )
+    }
+
+    revalidatePath('/admin/awards')
+
+    const award = data as {
+      result_id: string
+      awards: { title: string } | null
+      results: { riders: { first_name: string; last_name: string } | null } | null
+    }
+    const rider = award.results?.riders
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'award',
+      entityId: award.result_id,
+      description: `Dismissed ${award.awards?.title ?? 'award'}${
+        rider ? ` for ${rider.first_name} ${rider.last_name}` : ''
+      }`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(error, { operation: 'dismissPendingAward' }, 'Failed to dismiss award')
+  }
+}
@@ -0,0 +1,319 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { isFullAdmin } from '@/lib/auth/roles'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logAuditEvent } from '@/lib/audit-log'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+
+export interface ChapterRegistrationDefaultsData {
+  opensDaysBefore: number | null // null for no default (open as soon as the event is listed)
+  closesHoursBefore: number | null // null for no default (open until the event starts)
+}
+
+function isValidOffset(value: number | null): boolean {
+  return value === null || (Number.isInteger(value) && value >= 0)
+}
+
+/**
+ * Set a chapter's default registration window. Events without their own
+ * registration_opens_at / registration_closes_at use these.
+ */
+export async function updateChapterRegistrationDefaults(
+  chapterId: string,
+  data: ChapterRegistrationDefaultsData
+): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    if (!isFullAdmin(admin.role)) {
+      return { success: false, error: 'You do not have permission to change chapter settings' }
+    }
+
+    if (!chapterId) {
+      return { success: false, error: 'Chapter is required' }
+    }
+
+    const { opensDaysBefore, closesHoursBefore } = data
+    if (!isValidOffset(opensDaysBefore) || !isValidOffset(closesHoursBefore)) {
+      return {
+        success: false,
+        error: 'Registration defaults must be whole numbers of zero or more',
+      }
+    }
+
+    const { data: chapter, error } = await getSupabaseAdmin()
+      .from('chapters')
+      .update({
+        registration_opens_days_before: opensDaysBefore,
+        registration_closes_hours_before: closesHoursBefore,
+      })
+      .eq('id', chapterId)
+      .select('name')
+      .single()
+
+    if (error || !chapter) {
+      return handleSupabaseError(
+        error,
+        { operation: 'updateChapterRegistrationDefaults' },
+        'Failed to update chapter'
+      )
+    }
+
+    // Event pages cache their effective registration window
+    revalidateTag('events', 'max')
+    revalidatePath('/admin/chapters')
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'chapter',
+      entityId: chapterId,
+      description: `Updated registration defaults for ${chapter.name}: opens ${
+        opensDaysBefore === null ? 'anytime' : `${opensDaysBefore} days before`
+      }, closes ${closesHoursBefore === null ? 'at start' : `${closesHoursBefore} hours before`}`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'updateChapterRegistrationDefaults' },
+      'Failed to update chapter'
+    )
+  }
+}
+
+export interface ChapterContactsData {
+  vpEmail: string | null
+  routeCoordinatorEmail: string | null // null sends permanent requests to the VP
+  treasurerEmail: string | null
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function normalizeContactEmail(value: string | null): string | null {
+  return value?.trim().toLowerCase() || null
+}
+
+/**
+ * Set a chapter's contact addresses. Admin notifications are sent to these
+ * by role (see lib/email/chapter-contacts.ts).
+ */
+export async function updateChapterContacts(
+  chapterId: string,
+  data: ChapterContactsData
+): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    if (!isFullAdmin(admin.role)) {
+      return { success: false, error: 'You do not have permission to change chapter settings' }
+    }
+
+    if (!chapterId) {
+      return { success: false, error: 'Chapter is required' }
+    }
+
+    const vpEmail = normalizeContactEmail(data.vpEmail)
+    const routeCoordinatorEmail = normalizeContactEmail(data.routeCoordinatorEmail)
+    const treasurerEmail = normalizeContactEmail(data.treasurerEmail)
+
+    if (
+      [vpEmail, routeCoordinatorEmail, treasurerEmail].some(
+        (email) => email !== null && !EMAIL_PATTERN.test(email)
+      )
+    ) {
+      return { success: false, error: 'Please enter valid email addresses' }
+    }
+
+    const { data: chapter, error } = await getSupabaseAdmin()
+      .from('chapters')
+      .update({
+        vp_email: vpEmail,
+        route_coordinator_email: routeCoordinatorEmail,
+        treasurer_email: treasurerEmail,
+      })
+      .eq('id', chapterId)
+      .select('name')
+      .single()
+
+    if (error || !chapter) {
+      return handleSupabaseError(
+        error,
+        { operation: 'updateChapterContacts' },
+        'Failed to update chapter'
+      )
+    }
+
+    revalidatePath('/admin/chapters')
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'chapter',
+      entityId: chapterId,
+      description: `Updated contacts for ${chapter.name}: VP ${vpEmail ?? 'none'}, route coordinator ${
+        routeCoordinatorEmail ?? 'none'
+      }, treasurer ${treasurerEmail ?? 'none'}`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'updateChapterContacts' },
+      'Failed to update chapter'
+    )
+  }
+}
+
+export interface ChapterRemindersData {
+  daysBefore: number // Days before the start that riders get their reminder
+  checklist: string | null // One item per line; null for none
+}
+
+/**
+ * Set when a chapter's pre-ride reminders go out and the checklist they
+ * include (see lib/events/reminders.ts).
+ */
+export async function updateChapterReminders(
+  chapterId: string,
+  data: ChapterRemindersData
+): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    if (!isFullAdmin(admin.role)) {
+      return { success: false, error: 'You do not have permission to change chapter settings' }
+    }
+
+    if (!chapterId) {
+      return { success: false, error: 'Chapter is required' }
+    }
+
+    if (!Number.isInteger(data.daysBefore) || data.daysBefore < 1 || data.daysBefore > 14) {
+      return { success: false, error: 'Reminders must go out between 1 and 14 days before' }
+    }
+
+    const { data: chapter, error } = await getSupabaseAdmin()
+      .from('chapters')
+      .update({
+        reminder_days_before: data.daysBefore,
+        reminder_checklist: data.checklist?.trim() || null,
+      })
+      .eq('id', chapterId)
+      .select('name')
+      .single()
+
+    if (error || !chapter) {
+      return handleSupabaseError(
+        error,
+        { operation: 'updateChapterReminders' },
+        'Failed to update chapter'
+      )
+    }
+
+    revalidatePath('/admin/chapters')
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'chapter',
+      entityId: chapterId,
+      description: `Updated ride reminders for ${chapter.name}: ${data.daysBefore} days before`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'updateChapterReminders' },
+      'Failed to update chapter'
+    )
+  }
+}
+
+export interface ChapterResultFollowupData {
+  reminderDays: number[] // Days after the event closes that pending riders are reminded
+  deadlineDays: number // Days after the event closes that pending results are resolved
+  deadlineAction: 'flag' | 'dns' // Flag pending results as overdue, or mark them DNS
+}
+
+/**
+ * Set when riders are reminded to submit their results and what happens at
+ * the deadline (see lib/events/result-followup.ts).
+ */
+export async function updateChapterResultFollowup(
+  chapterId: string,
+  data: ChapterResultFollowupData
+): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    if (!isFullAdmin(admin.role)) {
+      return { success: false, error: 'You do not have permission to change chapter settings' }
+    }
+
+    if (!chapterId) {
+      return { success: false, error: 'Chapter is required' }
+    }
+
+    if (!Number.isInteger(data.deadlineDays) || data.deadlineDays < 1 || data.deadlineDays > 90) {
+      return { success: false, error: 'The deadline must be between 1 and 90 days after the event' }
+    }
+
+    if (
+      data.reminderDays.some(
+        (days) => !Number.isInteger(days) || days < 1 || days >= data.deadlineDays
+      )
+    ) {
+      return { success: false, error: 'Reminders must go out before the deadline' }
+    }
+
+    if (data.deadlineAction !== 'flag' && data.deadlineAction !== 'dns') {
+      return { success: false, error: 'Invalid deadline action' }
+    }
+
+    const reminderDays = [...new Set(data.reminderDays)].sort((a, b) => a - b)
+
+    const { data: chapter, error } = await getSupabaseAdmin()
+      .from('chapters')
+      .update({
+        result_reminder_days: reminderDays,
+        result_deadline_days: data.deadlineDays,
+        result_deadline_action: data.deadlineAction,
+      })
+      .eq('id', chapterId)
+      .select('name')
+      .single()
+
+    if (error || !chapter) {
+      return handleSupabaseError(
+        error,
+        { operation: 'updateChapterResultFollowup' },
+        'Failed to update chapter'
+      )
+    }
+
+    revalidatePath('/admin/chapters')
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'chapter',
+      entityId: chapterId,
+      description: `Updated result follow-up for ${chapter.name}: reminders on days ${reminderDays.join(', ') || 'none'}, ${data.deadlineAction === 'dns' ? 'DNS' : 'flag'} after ${data.deadlineDays} days`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'updateChapterResultFollowup' },
+      'Failed to update chapter'
+    )
+  }
+}
@@ -0,0 +1,179 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { logAuditEvent } from '@/lib/audit-log'
+import { normalizeControls } from '@/lib/controls'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+import type { ControlDefinition } from '@/types/control-card'
+
+function toRows(controls: ControlDefinition[]) {
+  return controls.map((control, index) => ({
+    position: index,
+    name: control.name,
+    distance_km: control.distance,
+    address: control.address,
+    control_type: control.controlType,
+    info_question: control.infoQuestion,
+  }))
+}
+
+/**
+ * Replace a route's saved controls. Passing an empty list clears them.
+ */
+export async function saveRouteControls(
+  routeId: string,
+  controls: ControlDefinition[]
+): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const normalized = normalizeControls(controls)
+    if (normalized.error !== undefined) {
+      return { success: false, error: normalized.error }
+    }
+
+    const { data: route, error: routeError } = await getSupabaseAdmin()
+      .from('routes')
+      .select('name, slug')
+      .eq('id', routeId)
+      .single()
+
+    if (routeError || !route) {
+      return handleSupabaseError(
+        routeError,
+        { operation: 'saveRouteControls.routeLookup', userMessage: 'Route not found' },
+        'Route not found'
+      )
+    }
+
+    // Delete and insert in one transaction so a failed save keeps the old controls
+    const { error: saveError } = await getSupabaseAdmin().rpc('replace_route_controls', {
+      p_route_id: routeId,
+      p_controls: toRows(normalized.controls),
+    })
+
+    if (saveError) {
+      return handleSupabaseError(
+        saveError,
+        { operation: 'saveRouteControls.replace' },
+        'Failed to save controls'
+      )
+    }
+
+    revalidatePath(`/admin/routes/${routeId}`)
+    revalidateTag(`route-${route.slug}`, 'max')
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'route',
+      entityId: routeId,
+      description: `Updated controls for route: ${route.name} (${normalized.controls.length} controls)`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(error, { operation: 'saveRouteControls' }, 'Failed to save controls')
+  }
+}
+
+/**
+ * Save event-specific controls that override the route's controls.
+ */
+export async function saveEventControls(
+  eventId: string,
+  controls: ControlDefinition[]
+): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const normalized = normalizeControls(controls)
+    if (normalized.error !== undefined) {
+      return { success: false, error: normalized.error }
+    }
+
+    if (normalized.controls.length === 0) {
+      return { success: false, error: 'Add at least one control' }
+    }
+
+    const { data: event, error: eventError } = await getSupabaseAdmin()
+      .from('events')
+      .select('name')
+      .eq('id', eventId)
+      .single()
+
+    if (eventError || !event) {
+      return handleSupabaseError(
+        eventError,
+        { operation: 'saveEventControls.eventLookup', userMessage: 'Event not found' },
+        'Event not found'
+      )
+    }
+
+    const { error: saveError } = await getSupabaseAdmin().rpc('replace_event_controls', {
+      p_event_id: eventId,
+      p_controls: toRows(normalized.controls),
+    })
+
+    if (saveError) {
+      return handleSupabaseError(
+        saveError,
+        { operation: 'saveEventControls.replace' },
+        'Failed to save controls'
+      )
+    }
+
+    revalidatePath(`/admin/events/${eventId}/control-cards`)
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'event',
+      entityId: eventId,
+      description: `Set event-specific controls for: ${event.name} (${normalized.controls.length} controls)`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(error, { operation: 'saveEventControls' }, 'Failed to save controls')
+  }
+}
+
+/**
+ * Remove an event's control override so it uses its route's controls again.
+ */
+export async function clearEventControls(eventId: string): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const { error } = await getSupabaseAdmin()
+      .from('event_controls')
+      .delete()
+      .eq('event_id', eventId)
+
+    if (error) {
+      return handleSupabaseError(
+        error,
+        { operation: 'clearEventControls' },
+        'Failed to reset controls'
+      )
+    }
+
+    revalidatePath(`/admin/events/${eventId}/control-cards`)
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'event',
+      entityId: eventId,
+      description: 'Reset event controls to the route defaults',
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(error, { operation: 'clearEventControls' }, 'Failed to reset controls')
+  }
+}
@@ -0,0 +1,202 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getUrlSlugFromDbSlug } from '@/lib/chapter-config'
+import { createTorontoDate } from '@/lib/brmTimes'
+import { logAuditEvent } from '@/lib/audit-log'
+import { DAY_OF_REGISTRATION_STATUSES } from '@/lib/events/day-of'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { CheckInChange } from '@/lib/events/check-in-queue'
+import type { ActionResult } from '@/types/actions'
+import type { ResultInsert } from '@/types/queries'
+
+/**
+ * Save check-ins queued by the day-of console. Changes can arrive long after
+ * they were made, so each keeps the time the organizer tapped the rider in
+ * (clamped to now, in case a phone clock runs fast). Changes for
+ * registrations on other events are ignored.
+ */
+export async function syncCheckIns(
+  eventId: string,
+  changes: CheckInChange[]
+): Promise<ActionResult<{ synced: number }>> {
+  try {
+    const admin = await requireAdmin()
+    const supabase = getSupabaseAdmin()
+    const now = new Date()
+
+    let synced = 0
+    for (const change of changes) {
+      let checkedInAt: string | null = null
+      if (change.checkedInAt) {
+        const tappedAt = new Date(change.checkedInAt)
+        if (isNaN(tappedAt.getTime())) continue
+        checkedInAt = (tappedAt > now ? now : tappedAt).toISOString()
+      }
+
+      const { data, error } = await supabase
+        .from('registrations')
+        .update({
+          checked_in_at: checkedInAt,
+          checked_in_by: checkedInAt ? admin.id : null,
+        })
+        .eq('id', change.registrationId)
+        .eq('event_id', eventId)
+        .select('id')
+
+      if (error) {
+        return handleSupabaseError(
+          error,
+          { operation: 'syncCheckIns', context: { eventId } },
+          'Failed to save check-ins'
+        )
+      }
+
+      synced += data?.length ?? 0
+    }
+
+    revalidatePath(`/admin/events/${eventId}/day-of`)
+
+    return createActionResult({ synced })
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'syncCheckIns', context: { eventId } },
+      'Failed to save check-ins'
+    )
+  }
+}
+
+/**
+ * Mark every rider on the roster who never checked in as DNS. Riders without
+ * a result get a DNS result; pending results (created when the event was
+ * completed) become DNS, which also stops the "submit your result"
+ * reminders. Results the rider or an admin already entered are left alone.
+ */
+export async function markNonStartersDns(
+  eventId: string
+): Promise<ActionResult<{ marked: number }>> {
+  try {
+    const admin = await requireAdmin()
+    const supabase = getSupabaseAdmin()
+
+    const { data: event } = await supabase
+      .from('events')
+      .select('name, status, event_date, season, distance_km, chapters (slug)')
+      .eq('id', eventId)
+      .single()
+
+    if (!event) {
+      return { success: false, error: 'Event not found' }
+    }
+
+    if (event.status !== 'scheduled' && event.status !== 'completed') {
+      return {
+        success: false,
+        error: 'Riders can only be marked DNS for scheduled or completed events',
+      }
+    }
+
+    // The event day starts at midnight Toronto time, not UTC
+    const [year, month, day] = event.event_date.split('-').map(Number)
+    if (createTorontoDate(year, month - 1, day, 0, 0) > new Date()) {
+      return { success: false, error: 'Riders can only be marked DNS once the event has started' }
+    }
+
+    const [{ data: registrations, error: regError }, { data: results, error: resError }] =
+      await Promise.all([
+        supabase
+          .from('registrations')
+          .select('rider_id')
+          .eq('event_id', eventId)
+          .in('status', DAY_OF_REGISTRATION_STATUSES)
+          .is('checked_in_at', null),
+        supabase.from('results').select('id, rider_id, status').eq('event_id', eventId),
+      ])
+
+    if (regError || resError) {
+      return handleSupabaseError(
+        regError ?? resError,
+        { operation: 'markNonStartersDns', context: { eventId } },
+        'Failed to load the roster'
+      )
+    }
+
+    const season = event.season ?? parseInt(event.event_date.split('-')[0])
+    const resultsByRider = new Map((results ?? []).map((r) => [r.rider_id, r]))
+    const toInsert: ResultInsert[] = []
+    const pendingIds: string[] = []
+
+    for (const { rider_id } of registrations ?? []) {
+      const existing = resultsByRider.get(rider_id)
+      if (!existing) {
+        toInsert.push({
+          event_id: eventId,
+          rider_id,
+          status: 'dns',
+          season,
+          distance_km: event.distance_km,
+        })
+      } else if (existing.status === 'pending') {
+        pendingIds.push(existing.id)
+      }
+    }
+
+    const marked = toInsert.length + pendingIds.length
+    if (marked === 0) {
+      return createActionResult({ marked })
+    }
+
+    if (toInsert.length > 0) {
+      const { error } = await supabase.from('results').insert(toInsert)
+      if (error) {
+        return handleSupabaseError(
+          error,
+          { operation: 'markNonStartersDns', context: { eventId } },
+          'Failed to mark riders DNS'
+        )
+      }
+    }
+
+    if (pendingIds.length > 0) {
+      const { error } = await supabase
+        .from('results')
+        .update({ status: 'dns' })
+        .in('id', pendingIds)
+      if (error) {
+        return handleSupabaseError(
+          error,
+          { operation: 'markNonStartersDns', context: { eventId } },
+          'Failed to mark riders DNS'
+        )
+      }
+    }
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'result',
+      entityId: eventId,
+      description: `Marked ${marked} ${marked === 1 ? 'rider' : 'riders'} DNS for ${event.name} (not checked in)`,
+    })
+
+    revalidatePath(`/admin/events/${eventId}`)
+    revalidatePath(`/admin/events/${eventId}/day-of`)
+    revalidateTag('results', 'max')
+    const urlSlug = event.chapters?.slug ? getUrlSlugFromDbSlug(event.chapters.slug) : null
+    if (urlSlug) {
+      revalidateTag(`chapter-${urlSlug}`, 'max')
+      revalidateTag(`year-${season}`, 'max')
+    }
+
+    return createActionResult({ marked })
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'markNonStartersDns', context: { eventId } },
+      'Failed to mark riders DNS'
+    )
+  }
+}
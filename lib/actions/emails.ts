@@ -0,0 +1,43 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { isFullAdmin } from '@/lib/auth/roles'
+import { logAuditEvent } from '@/lib/audit-log'
+import { requeueEmail } from '@/lib/email/outbox'
+import { handleActionError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+
+/**
+ * Resend an email from the outbox. It's sent as a new message, so the
+ * original keeps its delivery history.
+ */
+export async function resendEmail(emailId: string): Promise<ActionResult<{ sent: boolean }>> {
+  try {
+    const admin = await requireAdmin()
+
+    if (!isFullAdmin(admin.role)) {
+      return { success: false, error: 'You do not have permission to resend emails' }
+    }
+
+    const { emailId: newEmailId, sent, error } = await requeueEmail(emailId)
+
+    if (!newEmailId) {
+      return { success: false, error: error || 'Failed to resend email' }
+    }
+
+    revalidatePath('/admin/emails')
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'create',
+      entityType: 'email',
+      entityId: newEmailId,
+      description: `Resent email ${emailId}${sent ? '' : ' (delivery failed, will retry)'}`,
+    })
+
+    return createActionResult({ sent })
+  } catch (error) {
+    return handleActionError(error, { operation: 'resendEmail' }, 'Failed to resend email')
+  }
+}
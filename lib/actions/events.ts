@@ -3,11 +3,22 @@
 import { revalidatePath, revalidateTag } from 'next/cache'
 import { getSupabaseAdmin } from '@/lib/supabase-server'
 import { requireAdmin } from '@/lib/auth/get-admin'
-import { sendgrid, fromEmail, suppressAdminEmails } from '@/lib/email/sendgrid'
+import { suppressAdminEmails } from '@/lib/email/sendgrid'
+import { queueEmail } from '@/lib/email/outbox'
+import { getChapterContactEmails } from '@/lib/email/chapter-contacts'
 import { parseLocalDate, createSlug } from '@/lib/utils'
 import { getUrlSlugFromDbSlug } from '@/lib/chapter-config'
 import { createPendingResultsAndSendEmails } from '@/lib/events/complete-event'
 import { logAuditEvent } from '@/lib/audit-log'
+import { fillFromWaitlist } from '@/lib/registrations/waitlist'
+import { evaluateEventAwards, updateSeriesAwards } from '@/lib/awards/engine'
+import {
+  buildHomologationCsv,
+  getHomologationAuthority,
+  getHomologationFileName,
+  type HomologationEvent,
+  type HomologationResult,
+} from '@/lib/results/homologation'
 import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
 import type { ActionResult } from '@/types/actions'
 import type {
@@ -53,9 +64,25 @@ async function revalidateCalendarTags(chapterId: string, eventType: string, even
   }
 }
 
-export type EventStatus = 'scheduled' | 'completed' | 'cancelled' | 'submitted'
+export type EventStatus = 'requested' | 'scheduled' | 'completed' | 'cancelled' | 'submitted'
 export type EventType = 'brevet' | 'populaire' | 'fleche' | 'permanent'
 
+/**
+ * Validate explicit registration window overrides.
+ * Returns an error message, or null when valid.
+ */
+function validateRegistrationWindow(
+  opensAt: string | null | undefined,
+  closesAt: string | null | undefined
+): string | null {
+  if (opensAt && isNaN(Date.parse(opensAt))) return 'Invalid registration open time'
+  if (closesAt && isNaN(Date.parse(closesAt))) return 'Invalid registration close time'
+  if (opensAt && closesAt && Date.parse(opensAt) >= Date.parse(closesAt)) {
+    return 'Registration must open before it closes'
+  }
+  return null
+}
+
 export interface CreateEventData {
   name: string
   chapterId: string
@@ -67,6 +94,12 @@ export interface CreateEventData {
   startLocation?: string | null
   description?: string | null // Markdown-formatted description
   imageUrl?: string | null // URL to event image from Supabase Storage
+  maxRiders?: number | null // Rider limit; null for no limit
+  registrationOpensAt?: string | null // ISO timestamp; null to use the chapter default
+  registrationClosesAt?: string | null // ISO timestamp; null to use the chapter default
+  seriesId?: string | null // Event series (e.g. Devil Week); null for none
+  sendReminders?: boolean // Pre-ride reminder to registered riders (default on)
+  sendRoster?: boolean // Final roster to the organizer (default on)
 }
 
 export async function createEvent(data: CreateEventData): Promise<ActionResult<{ id: string }>> {
@@ -84,6 +117,12 @@ export async function createEvent(data: CreateEventData): Promise<ActionResult<{
       startLocation,
       description,
       imageUrl,
+      maxRiders,
+      registrationOpensAt,
+      registrationClosesAt,
+      seriesId,
+      sendReminders,
+      sendRoster,
     } = data
 
     // Validate required fields
@@ -91,6 +130,11 @@ export async function createEvent(data: CreateEventData): Promise<ActionResult<{
       return { success: false, error: 'Missing required fields' }
     }
 
+    const windowError = validateRegistrationWindow(registrationOpensAt, registrationClosesAt)
+    if (windowError) {
+      return { success: false, error: windowError }
+    }
+
     // Generate slug from name, distance, and date
     const slug = createSlug(`${name}-${distanceKm}-${eventDate}`)
 
@@ -106,6 +150,12 @@ export async function createEvent(data: CreateEventData): Promise<ActionResult<{
       start_location: startLocation || null,
       description: description || null,
       image_url: imageUrl || null,
+      max_riders: maxRiders || null,
+      registration_opens_at: registrationOpensAt || null,
+      registration_closes_at: registrationClosesAt || null,
+      series_id: seriesId || null,
+      send_reminders: sendReminders ?? true,
+      send_roster: sendRoster ?? true,
       status: 'scheduled',
       // Note: season is a generated column computed from event_date
     }
@@ -166,12 +216,26 @@ export interface UpdateEventData {
   startLocation?: string | null
   description?: string | null // Markdown-formatted description
   imageUrl?: string | null // URL to event image from Supabase Storage
+  maxRiders?: number | null // Rider limit; null for no limit
+  registrationOpensAt?: string | null // ISO timestamp; null to use the chapter default
+  registrationClosesAt?: string | null // ISO timestamp; null to use the chapter default
+  seriesId?: string | null // Event series (e.g. Devil Week); null for none
+  sendReminders?: boolean // Pre-ride reminder to registered riders (default on)
+  sendRoster?: boolean // Final roster to the organizer (default on)
 }
 
 export async function updateEvent(eventId: string, data: UpdateEventData): Promise<ActionResult> {
   try {
     const admin = await requireAdmin()
 
+    const windowError = validateRegistrationWindow(
+      data.registrationOpensAt,
+      data.registrationClosesAt
+    )
+    if (windowError) {
+      return { success: false, error: windowError }
+    }
+
     const updateData: Record<string, unknown> = {}
 
     if (data.name !== undefined) {
@@ -205,6 +269,33 @@ export async function updateEvent(eventId: string, data: UpdateEventData): Promi
     if (data.imageUrl !== undefined) {
       updateData.image_url = data.imageUrl || null
     }
+    if (data.maxRiders !== undefined) {
+      updateData.max_riders = data.maxRiders || null
+    }
+    if (data.registrationOpensAt !== undefined) {
+      updateData.registration_opens_at = data.registrationOpensAt || null
+    }
+    if (data.registrationClosesAt !== undefined) {
+      updateData.registration_closes_at = data.registrationClosesAt || null
+    }
+    if (data.sendReminders !== undefined) {
+      updateData.send_reminders = data.sendReminders
+    }
+    if (data.sendRoster !== undefined) {
+      updateData.send_roster = data.sendRoster
+    }
+
+    // Moving an event between series changes who has completed each of them
+    let previousSeriesId: string | null = null
+    if (data.seriesId !== undefined) {
+      updateData.series_id = data.seriesId || null
+      const { data: current } = await getSupabaseAdmin()
+        .from('events')
+        .select('series_id')
+        .eq('id', eventId)
+        .single()
+      previousSeriesId = current?.series_id ?? null
+    }
 
     const typedUpdateData: EventUpdate = updateData
 
@@ -217,6 +308,18 @@ export async function updateEvent(eventId: string, data: UpdateEventData): Promi
       return handleSupabaseError(error, { operation: 'updateEvent' }, 'Failed to update event')
     }
 
+    // Raising or removing the rider limit may free up spots for waitlisted riders
+    if (data.maxRiders !== undefined) {
+      await fillFromWaitlist(eventId)
+    }
+
+    if (data.seriesId !== undefined && (data.seriesId || null) !== previousSeriesId) {
+      for (const seriesId of [previousSeriesId, data.seriesId]) {
+        if (seriesId) await updateSeriesAwards(seriesId)
+      }
+      revalidateTag('series', 'max')
+    }
+
     // Revalidate admin pages (still use revalidatePath for admin routes)
     revalidatePath(`/admin/events/${eventId}`)
     revalidatePath('/admin/events')
@@ -423,23 +526,16 @@ export async function updateEventStatus(
   }
 }
 
-interface ResultForEmail {
-  riders: {
-    first_name: string
-    last_name: string
-  }
-  status: string
-  finish_time: string | null
+interface ResultForEmail extends HomologationResult {
   note: string | null
 }
 
-interface EventForSubmission {
+interface EventForSubmission extends HomologationEvent {
   id: string
-  name: string
-  event_date: string
   status: string | null
   chapters: {
     name: string
+    slug: string
   } | null
 }
 
@@ -455,8 +551,10 @@ export async function submitEventResults(eventId: string): Promise<ActionResult>
         id,
         name,
         event_date,
+        event_type,
+        distance_km,
         status,
-        chapters (name)
+        chapters (name, slug)
       `
       )
       .eq('id', eventId)
@@ -476,15 +574,30 @@ export async function submitEventResults(eventId: string): Promise<ActionResult>
       return { success: false, error: 'Only completed events can have results submitted' }
     }
 
+    // Results go to the chapter VP set on /admin/chapters
+    const [vpEmail] = typedEvent.chapters
+      ? await getChapterContactEmails(typedEvent.chapters.slug, ['vp'])
+      : []
+
+    if (!vpEmail && !suppressAdminEmails) {
+      return {
+        success: false,
+        error:
+          "No VP email is set for this event's chapter. Add one on the Chapters settings page.",
+      }
+    }
+
     // Fetch all results for this event
     const { data: results, error: resultsError } = await getSupabaseAdmin()
       .from('results')
       .select(
         `
-        riders (first_name, last_name),
+        riders (first_name, last_name, gender, rider_number),
         status,
         finish_time,
-        note
+        note,
+        medal_requested,
+        homologation_number
       `
       )
       .eq('event_id', eventId)
@@ -496,6 +609,23 @@ export async function submitEventResults(eventId: string): Promise<ActionResult>
 
     const typedResults = (results || []) as ResultForEmail[]
 
+    // Build the homologation CSV and keep a copy on the event
+    const csv = buildHomologationCsv(typedEvent, typedResults)
+    const fileName = getHomologationFileName(typedEvent)
+    const filePath = `${eventId}/${fileName}`
+
+    const { error: uploadError } = await getSupabaseAdmin()
+      .storage.from('homologation-files')
+      .upload(filePath, csv, { contentType: 'text/csv', upsert: true })
+
+    if (uploadError) {
+      return handleSupabaseError(
+        uploadError,
+        { operation: 'submitEventResults.upload', context: { eventId } },
+        'Failed to save homologation file'
+      )
+    }
+
     // Build email content
     const eventDate = parseLocalDate(typedEvent.event_date).toLocaleDateString('en-CA', {
       weekday: 'long',
@@ -505,14 +635,16 @@ export async function submitEventResults(eventId: string): Promise<ActionResult>
     })
 
     const chapterName = typedEvent.chapters?.name || 'Unknown'
+    const authority = getHomologationAuthority(typedEvent)
     const subject = `Results for ${typedEvent.name} - ${eventDate} (${chapterName} chapter)`
 
     const resultLines = typedResults.map((r) => {
-      const name = `${r.riders.first_name} ${r.riders.last_name}`
-      const status = r.status.toUpperCase()
+      const name = r.riders ? `${r.riders.first_name} ${r.riders.last_name}` : 'Unknown rider'
+      const status = (r.status || 'pending').toUpperCase()
       const time = r.finish_time || '-'
+      const medal = r.medal_requested ? ' | Medal requested' : ''
       const note = r.note ? ` | Note: ${r.note}` : ''
-      return `${name}: ${status}${r.status === 'finished' ? ` (${time})` : ''}${note}`
+      return `${name}: ${status}${r.status === 'finished' ? ` (${time})` : ''}${medal}${note}`
     })
 
     const emailBody = `Results for ${typedEvent.name}
@@ -528,30 +660,35 @@ RESULTS (${typedResults.length} rider${typedResults.length !== 1 ? 's' : ''}):
 ${resultLines.length > 0 ? resultLines.join('\n') : 'No results recorded.'}
 
 ---
+The ${authority} homologation file is attached (${fileName}).
+
 This email was sent from the Randonneurs Ontario admin system.
 `
 
-    // Send email
-    if (!process.env.SENDGRID_API_KEY) {
-      console.warn('SendGrid API key not configured, skipping email')
-    } else {
-      try {
-        await sendgrid.send({
-          to: suppressAdminEmails ? admin.email : 'vp-toronto@randonneursontario.ca',
-          cc: suppressAdminEmails ? undefined : admin.email,
-          from: fromEmail,
-          replyTo: admin.email,
-          subject,
-          text: emailBody,
-        })
-      } catch (emailError) {
-        console.error('Failed to send results email:', emailError)
-        return { success: false, error: 'Failed to send email. Please try again.' }
-      }
+    // Send email (a failed delivery stays in the outbox and is retried)
+    const { emailId } = await queueEmail({
+      kind: 'results_submission',
+      to: suppressAdminEmails || !vpEmail ? admin.email : vpEmail,
+      cc: suppressAdminEmails ? undefined : [admin.email],
+      replyTo: admin.email,
+      subject,
+      text: emailBody,
+      attachments: [
+        {
+          content: Buffer.from(csv).toString('base64'),
+          filename: fileName,
+          type: 'text/csv',
+        },
+      ],
+      eventId,
+    })
+
+    if (!emailId) {
+      return { success: false, error: 'Failed to send email. Please try again.' }
     }
 
     // Update event status to submitted
-    const updateData: EventUpdate = { status: 'submitted' }
+    const updateData: EventUpdate = { status: 'submitted', homologation_file_path: filePath }
     const { error: updateError } = await getSupabaseAdmin()
       .from('events')
       .update(updateData)
@@ -562,11 +699,14 @@ This email was sent from the Randonneurs Ontario admin system.
       return { success: false, error: 'Email sent but failed to update event status' }
     }
 
+    await evaluateEventAwards(eventId)
+
     // Revalidate admin pages (still use revalidatePath for admin routes)
     revalidatePath(`/admin/events/${eventId}`)
     revalidatePath('/admin/events')
     revalidatePath('/admin')
     revalidatePath('/admin/results')
+    revalidatePath('/admin/awards')
 
     await logAuditEvent({
       adminId: admin.id,
@@ -582,3 +722,36 @@ This email was sent from the Randonneurs Ontario admin system.
     return { success: false, error: 'An unexpected error occurred' }
   }
 }
+
+/**
+ * Short-lived download link for the homologation CSV saved when results were submitted.
+ */
+export async function getHomologationFileUrl(eventId: string): Promise<ActionResult<string>> {
+  await requireAdmin()
+
+  const { data: event } = await getSupabaseAdmin()
+    .from('events')
+    .select('homologation_file_path')
+    .eq('id', eventId)
+    .single()
+
+  const filePath = (event as { homologation_file_path: string | null } | null)
+    ?.homologation_file_path
+  if (!filePath) {
+    return { success: false, error: 'No homologation file for this event' }
+  }
+
+  const { data, error } = await getSupabaseAdmin()
+    .storage.from('homologation-files')
+    .createSignedUrl(filePath, 60, { download: true })
+
+  if (error || !data) {
+    return handleSupabaseError(
+      error,
+      { operation: 'getHomologationFileUrl', context: { eventId } },
+      'Failed to create download link'
+    )
+  }
+
+  return createActionResult(data.signedUrl)
+}
@@ -0,0 +1,435 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { format, parseISO } from 'date-fns'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logAuditEvent } from '@/lib/audit-log'
+import { promoteFromWaitlist } from '@/lib/registrations/waitlist'
+import { approvePermanent } from '@/lib/events/permanent-requests'
+import { sendRegistrationChangeNotification } from '@/lib/email/send-registration-email'
+import { handleSupabaseError, createActionResult, logError } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+import type { RegistrationForManagement } from '@/types/queries'
+
+export interface ManageRegistrationData {
+  eventName: string
+  eventSlug: string
+  eventDate: string
+  eventDistance: number
+  startTime: string | null // HH:MM
+  startLocation: string | null
+  chapterName: string
+  riderName: string
+  status: string
+  emergencyContactName: string | null
+  emergencyContactPhone: string | null
+  isPermanent: boolean
+  awaitingApproval: boolean // permanent request not yet approved by the route coordinator
+  proposal: PermanentProposal | null // the route coordinator's proposed change, if any
+  canChange: boolean // false once cancelled, or the event is past or no longer scheduled
+  canChangeStartTime: boolean // permanents only, and only when no one else shares the event
+  calendarToken: string // for the rider's personal calendar feed
+}
+
+export interface PermanentProposal {
+  eventDate: string
+  startTime: string | null // HH:MM
+  startLocation: string | null
+  note: string | null
+}
+
+/**
+ * Format a time string (HH:MM) for display in 12-hour format.
+ * @example formatTime("14:30") → "2:30 PM"
+ */
+function formatTime(timeStr: string | null): string {
+  if (!timeStr) return 'TBD'
+  const [hours, minutes] = timeStr.split(':')
+  const hour = parseInt(hours, 10)
+  const ampm = hour >= 12 ? 'PM' : 'AM'
+  const hour12 = hour % 12 || 12
+  return `${hour12}:${minutes} ${ampm}`
+}
+
+/**
+ * Look up a registration by its manage token.
+ */
+async function getRegistrationRecord(token: string): Promise<RegistrationForManagement | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('registrations')
+    .select(
+      `
+      id,
+      event_id,
+      rider_id,
+      status,
+      events (
+        id, slug, name, event_date, start_time, start_location,
+        distance_km, event_type, status,
+        proposed_event_date, proposed_start_time, proposed_start_location, review_note,
+        chapters (name, slug)
+      ),
+      riders (
+        first_name, last_name, email, emergency_contact_name, emergency_contact_phone,
+        calendar_token
+      )
+    `
+    )
+    .eq('manage_token', token)
+    .single()
+
+  if (error || !data) return null
+  return data as RegistrationForManagement
+}
+
+/**
+ * Whether the rider can still change this registration.
+ */
+function isChangeable(registration: RegistrationForManagement): boolean {
+  const event = registration.events
+  if (!event || registration.status === 'cancelled') return false
+  const today = new Date().toISOString().split('T')[0]
+  return (event.status === 'scheduled' || event.status === 'requested') && event.event_date >= today
+}
+
+/**
+ * The route coordinator's proposed change to a permanent request, if any.
+ */
+function getProposal(registration: RegistrationForManagement): PermanentProposal | null {
+  const event = registration.events
+  if (
+    !event ||
+    event.status !== 'requested' ||
+    (!event.proposed_event_date && !event.proposed_start_time && !event.proposed_start_location)
+  ) {
+    return null
+  }
+
+  return {
+    eventDate: event.proposed_event_date || event.event_date,
+    startTime: (event.proposed_start_time || event.start_time)?.slice(0, 5) ?? null,
+    startLocation: event.proposed_start_location || event.start_location,
+    note: event.review_note,
+  }
+}
+
+/**
+ * Count other active registrations on the same event.
+ * Permanent events can be shared by riders who picked the same route and date.
+ */
+async function countOtherRegistrations(registration: RegistrationForManagement): Promise<number> {
+  const { count } = await getSupabaseAdmin()
+    .from('registrations')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_id', registration.event_id)
+    .neq('id', registration.id)
+    .neq('status', 'cancelled')
+
+  return count ?? 0
+}
+
+/**
+ * Audit-log a rider's change and notify the chapter VP (fire-and-forget).
+ */
+async function recordChange(
+  registration: RegistrationForManagement,
+  changeLabel: string,
+  changes: string[]
+): Promise<void> {
+  const event = registration.events!
+  const rider = registration.riders
+  const riderName = rider ? `${rider.first_name} ${rider.last_name}` : 'Unknown rider'
+
+  await logAuditEvent({
+    adminId: null,
+    action: changeLabel === 'Cancelled' ? 'status_change' : 'update',
+    entityType: 'registration',
+    entityId: registration.id,
+    description: `Rider self-service (${riderName}, ${event.name}): ${changes.join('; ')}`,
+  })
+
+  sendRegistrationChangeNotification({
+    riderName,
+    riderEmail: rider?.email || '',
+    riderId: registration.rider_id,
+    eventId: registration.event_id,
+    eventName: event.name,
+    eventDate: format(parseISO(event.event_date), 'EEEE, MMMM d, yyyy'),
+    eventDistance: event.distance_km,
+    chapterName: event.chapters?.name || '',
+    chapterSlug: event.chapters?.slug || '',
+    changeLabel,
+    changes,
+  }).catch((error) => {
+    logError(error, {
+      operation: 'manageRegistration.sendNotification',
+      context: { registrationId: registration.id },
+    })
+  })
+}
+
+function revalidateRegistration(registration: RegistrationForManagement) {
+  revalidateTag('registrations', 'max')
+  revalidatePath(`/admin/events/${registration.event_id}`)
+  if (registration.events?.slug) {
+    revalidateTag(`event-${registration.events.slug}`, 'max')
+    revalidatePath(`/register/${registration.events.slug}`)
+  }
+}
+
+/**
+ * Get registration data by manage token. No authentication required.
+ */
+export async function getRegistrationByToken(
+  token: string
+): Promise<ActionResult<ManageRegistrationData>> {
+  if (!token) {
+    return { success: false, error: 'Invalid registration link' }
+  }
+
+  const registration = await getRegistrationRecord(token)
+  const event = registration?.events
+  const rider = registration?.riders
+
+  if (!registration || !event || !rider) {
+    return { success: false, error: 'Registration not found or invalid link' }
+  }
+
+  const canChange = isChangeable(registration)
+  const isPermanent = event.event_type === 'permanent'
+  const canChangeStartTime =
+    canChange && isPermanent && (await countOtherRegistrations(registration)) === 0
+
+  return {
+    success: true,
+    data: {
+      eventName: event.name,
+      eventSlug: event.slug,
+      eventDate: event.event_date,
+      eventDistance: event.distance_km,
+      startTime: event.start_time?.slice(0, 5) ?? null,
+      startLocation: event.start_location,
+      chapterName: event.chapters?.name || 'Randonneurs Ontario',
+      riderName: `${rider.first_name} ${rider.last_name}`,
+      status: registration.status ?? 'registered',
+      emergencyContactName: rider.emergency_contact_name,
+      emergencyContactPhone: rider.emergency_contact_phone,
+      isPermanent,
+      awaitingApproval: isPermanent && event.status === 'requested',
+      proposal: canChange ? getProposal(registration) : null,
+      canChange,
+      canChangeStartTime,
+      calendarToken: rider.calendar_token,
+    },
+  }
+}
+
+/**
+ * Cancel a registration by manage token. No authentication required.
+ * Promotes the next waitlisted rider if this one held a spot.
+ */
+export async function cancelRegistrationByToken(token: string): Promise<ActionResult> {
+  if (!token) {
+    return { success: false, error: 'Invalid registration link' }
+  }
+
+  const registration = await getRegistrationRecord(token)
+  if (!registration || !registration.events) {
+    return { success: false, error: 'Registration not found or invalid link' }
+  }
+
+  if (!isChangeable(registration)) {
+    return { success: false, error: 'This registration can no longer be changed' }
+  }
+
+  const { error: updateError } = await getSupabaseAdmin()
+    .from('registrations')
+    .update({ status: 'cancelled' })
+    .eq('id', registration.id)
+
+  if (updateError) {
+    return handleSupabaseError(
+      updateError,
+      { operation: 'cancelRegistrationByToken' },
+      'Failed to cancel registration'
+    )
+  }
+
+  if (registration.status === 'registered') {
+    await promoteFromWaitlist(registration.event_id)
+  }
+
+  revalidateRegistration(registration)
+  await recordChange(registration, 'Cancelled', [
+    `Cancelled registration (was ${registration.status ?? 'registered'})`,
+  ])
+
+  return createActionResult()
+}
+
+/**
+ * Change the start time of a permanent ride by manage token. No authentication required.
+ * Only allowed when the rider is the only one registered on the permanent event.
+ */
+export async function updateRegistrationStartTime(
+  token: string,
+  startTime: string
+): Promise<ActionResult> {
+  if (!token) {
+    return { success: false, error: 'Invalid registration link' }
+  }
+
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(startTime)) {
+    return { success: false, error: 'Invalid start time. Use HH:MM (e.g., 07:00)' }
+  }
+
+  const registration = await getRegistrationRecord(token)
+  const event = registration?.events
+  if (!registration || !event) {
+    return { success: false, error: 'Registration not found or invalid link' }
+  }
+
+  if (!isChangeable(registration)) {
+    return { success: false, error: 'This registration can no longer be changed' }
+  }
+
+  if (event.event_type !== 'permanent') {
+    return { success: false, error: 'Start times can only be changed for permanent rides' }
+  }
+
+  if ((await countOtherRegistrations(registration)) > 0) {
+    return {
+      success: false,
+      error:
+        'Other riders are registered for this permanent. Contact your chapter VP to change the start time.',
+    }
+  }
+
+  const { error: updateError } = await getSupabaseAdmin()
+    .from('events')
+    .update({ start_time: startTime })
+    .eq('id', event.id)
+
+  if (updateError) {
+    return handleSupabaseError(
+      updateError,
+      { operation: 'updateRegistrationStartTime' },
+      'Failed to update start time'
+    )
+  }
+
+  revalidateTag('permanents', 'max')
+  revalidateRegistration(registration)
+  await recordChange(registration, 'Start Time Changed', [
+    `Start time: ${formatTime(event.start_time)} → ${formatTime(startTime)}`,
+  ])
+
+  return createActionResult()
+}
+
+/**
+ * Accept the route coordinator's proposed change to a permanent request by
+ * manage token. No authentication required. The proposal becomes the ride's
+ * details and the request is approved; declining is cancelling.
+ */
+export async function acceptPermanentProposal(token: string): Promise<ActionResult> {
+  if (!token) {
+    return { success: false, error: 'Invalid registration link' }
+  }
+
+  const registration = await getRegistrationRecord(token)
+  const event = registration?.events
+  if (!registration || !event) {
+    return { success: false, error: 'Registration not found or invalid link' }
+  }
+
+  if (!isChangeable(registration)) {
+    return { success: false, error: 'This registration can no longer be changed' }
+  }
+
+  const proposal = getProposal(registration)
+  if (!proposal) {
+    return { success: false, error: 'There is no proposed change to accept' }
+  }
+
+  const result = await approvePermanent(event.id, {
+    reviewedBy: null,
+    eventDate: proposal.eventDate,
+    startTime: proposal.startTime,
+    startLocation: proposal.startLocation,
+    note: proposal.note,
+  })
+
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  revalidateTag('events', 'max')
+  revalidateTag('permanents', 'max')
+  revalidatePath('/admin/permanents')
+  revalidateRegistration(registration)
+  if (result.event.slug !== event.slug) {
+    revalidatePath(`/register/${result.event.slug}`)
+  }
+
+  const changes = [
+    `Accepted the proposed change to ${format(parseISO(proposal.eventDate), 'MMM d, yyyy')}`,
+  ]
+  if (proposal.startTime) changes.push(`start ${formatTime(proposal.startTime)}`)
+  if (proposal.startLocation) changes.push(`at ${proposal.startLocation}`)
+  await recordChange(registration, 'Proposal Accepted', [changes.join(', ')])
+
+  return createActionResult()
+}
+
+export interface EmergencyContactInput {
+  name: string
+  phone: string
+}
+
+/**
+ * Update the rider's emergency contact by manage token. No authentication required.
+ */
+export async function updateRegistrationEmergencyContact(
+  token: string,
+  contact: EmergencyContactInput
+): Promise<ActionResult> {
+  if (!token) {
+    return { success: false, error: 'Invalid registration link' }
+  }
+
+  const name = contact.name.trim()
+  const phone = contact.phone.trim()
+  if (!name || !phone) {
+    return { success: false, error: 'Emergency contact name and phone are required' }
+  }
+
+  const registration = await getRegistrationRecord(token)
+  if (!registration || !registration.events) {
+    return { success: false, error: 'Registration not found or invalid link' }
+  }
+
+  if (!isChangeable(registration)) {
+    return { success: false, error: 'This registration can no longer be changed' }
+  }
+
+  const { error: updateError } = await getSupabaseAdmin()
+    .from('riders')
+    .update({ emergency_contact_name: name, emergency_contact_phone: phone })
+    .eq('id', registration.rider_id)
+
+  if (updateError) {
+    return handleSupabaseError(
+      updateError,
+      { operation: 'updateRegistrationEmergencyContact' },
+      'Failed to update emergency contact'
+    )
+  }
+
+  revalidatePath(`/admin/events/${registration.event_id}`)
+  await recordChange(registration, 'Emergency Contact Updated', [
+    `Emergency contact: ${name} (${phone})`,
+  ])
+
+  return createActionResult()
+}
@@ -0,0 +1,418 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logAuditEvent } from '@/lib/audit-log'
+import {
+  MEMBERSHIP_TYPES,
+  getCurrentSeason,
+  getMembershipForRider,
+  promoteIncompleteRegistrations,
+} from '@/lib/memberships/service'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+import type { MembershipType } from '@/types/queries'
+import type { MembershipCandidate } from '@/types/membership-review'
+
+function revalidateMembershipPages() {
+  revalidatePath('/admin/memberships')
+  revalidatePath('/admin/riders')
+  revalidatePath('/admin/events')
+}
+
+interface PendingReview {
+  id: string
+  rider_id: string
+  season: number
+  status: string
+  candidates: MembershipCandidate[]
+  riders: { first_name: string; last_name: string } | null
+}
+
+async function getPendingReview(reviewId: string): Promise<PendingReview | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('membership_reviews')
+    .select('id, rider_id, season, status, candidates, riders (first_name, last_name)')
+    .eq('id', reviewId)
+    .single()
+
+  const review = data as PendingReview | null
+  return review?.status === 'pending' ? review : null
+}
+
+/**
+ * Resolve a review by picking the CCN member who is this rider. Saves the
+ * membership and moves the rider's incomplete registrations to registered.
+ */
+export async function resolveMembershipReview(
+  reviewId: string,
+  membershipId: number
+): Promise<ActionResult<{ registrationsUpdated: number }>> {
+  try {
+    const admin = await requireAdmin()
+
+    const review = await getPendingReview(reviewId)
+    if (!review) {
+      return { success: false, error: 'Review not found or already resolved' }
+    }
+
+    const candidate = review.candidates.find((c) => c.membershipId === membershipId)
+    if (!candidate) {
+      return { success: false, error: 'That member is not one of the candidates' }
+    }
+
+    const supabase = getSupabaseAdmin()
+
+    const { error: membershipError } = await supabase.from('memberships').upsert(
+      {
+        rider_id: review.rider_id,
+        season: review.season,
+        membership_id: candidate.membershipId,
+        type: candidate.type,
+        source: 'ccn',
+        note: null,
+        created_by: admin.id,
+      },
+      { onConflict: 'rider_id,season' }
+    )
+
+    if (membershipError) {
+      return handleSupabaseError(
+        membershipError,
+        { operation: 'resolveMembershipReview.membership' },
+        'Failed to save membership'
+      )
+    }
+
+    const { error: reviewError } = await supabase
+      .from('membership_reviews')
+      .update({
+        status: 'resolved',
+        resolved_membership_id: candidate.membershipId,
+        resolved_by: admin.id,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('id', reviewId)
+
+    if (reviewError) {
+      return handleSupabaseError(
+        reviewError,
+        { operation: 'resolveMembershipReview.review' },
+        'Failed to update review'
+      )
+    }
+
+    const registrationsUpdated = await promoteIncompleteRegistrations(
+      review.rider_id,
+      review.season,
+      candidate.type
+    )
+
+    revalidateMembershipPages()
+
+    const riderName = review.riders
+      ? `${review.riders.first_name} ${review.riders.last_name}`
+      : review.rider_id
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'membership',
+      entityId: reviewId,
+      description: `Matched ${riderName} to CCN member ${candidate.fullName} (#${candidate.membershipId}, ${candidate.type})`,
+    })
+
+    return createActionResult({ registrationsUpdated })
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'resolveMembershipReview' },
+      'Failed to resolve membership review'
+    )
+  }
+}
+
+/**
+ * Close a review without saving a membership (none of the candidates is the rider).
+ */
+export async function dismissMembershipReview(reviewId: string): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const review = await getPendingReview(reviewId)
+    if (!review) {
+      return { success: false, error: 'Review not found or already resolved' }
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('membership_reviews')
+      .update({
+        status: 'dismissed',
+        resolved_by: admin.id,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('id', reviewId)
+
+    if (error) {
+      return handleSupabaseError(
+        error,
+        { operation: 'dismissMembershipReview' },
+        'Failed to dismiss review'
+      )
+    }
+
+    revalidatePath('/admin/memberships')
+
+    const riderName = review.riders
+      ? `${review.riders.first_name} ${review.riders.last_name}`
+      : review.rider_id
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'membership',
+      entityId: reviewId,
+      description: `Dismissed CCN membership review for ${riderName}`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'dismissMembershipReview' },
+      'Failed to dismiss membership review'
+    )
+  }
+}
+
+export interface ManualMembershipData {
+  riderId: string
+  season: number
+  type: MembershipType
+  membershipId?: number | null // CCN membership number, if known
+  reason: string
+}
+
+/**
+ * Add (or replace) a rider's membership for a season by hand, e.g. when the
+ * CCN lookup can't find them. Closes any open review and confirms their
+ * incomplete registrations.
+ */
+export async function addManualMembership(
+  data: ManualMembershipData
+): Promise<ActionResult<{ registrationsUpdated: number }>> {
+  try {
+    const admin = await requireAdmin()
+
+    const { riderId, season, type, membershipId } = data
+    const reason = data.reason?.trim()
+
+    if (!riderId) {
+      return { success: false, error: 'Rider is required' }
+    }
+    if (!Number.isInteger(season) || season < 2000) {
+      return { success: false, error: 'Season is invalid' }
+    }
+    if (!MEMBERSHIP_TYPES.includes(type)) {
+      return { success: false, error: 'Membership type is invalid' }
+    }
+    if (membershipId != null && (!Number.isInteger(membershipId) || membershipId <= 0)) {
+      return { success: false, error: 'CCN membership number must be a positive whole number' }
+    }
+    if (!reason) {
+      return { success: false, error: 'A reason is required for manual memberships' }
+    }
+
+    const supabase = getSupabaseAdmin()
+
+    const { error } = await supabase.from('memberships').upsert(
+      {
+        rider_id: riderId,
+        season,
+        type,
+        membership_id: membershipId ?? null,
+        source: 'manual',
+        note: reason,
+        created_by: admin.id,
+      },
+      { onConflict: 'rider_id,season' }
+    )
+
+    if (error) {
+      return handleSupabaseError(
+        error,
+        { operation: 'addManualMembership' },
+        'Failed to save membership'
+      )
+    }
+
+    // The manual entry answers any open CCN review for this rider
+    await supabase
+      .from('membership_reviews')
+      .update({
+        status: 'resolved',
+        resolved_membership_id: membershipId ?? null,
+        resolved_by: admin.id,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('rider_id', riderId)
+      .eq('season', season)
+      .eq('status', 'pending')
+
+    const registrationsUpdated = await promoteIncompleteRegistrations(riderId, season, type)
+
+    revalidateMembershipPages()
+
+    const { data: rider } = await supabase
+      .from('riders')
+      .select('first_name, last_name')
+      .eq('id', riderId)
+      .single()
+    const riderName = rider ? `${rider.first_name} ${rider.last_name}` : riderId
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'create',
+      entityType: 'membership',
+      entityId: riderId,
+      description: `Added manual ${season} ${type} for ${riderName}: ${reason}`,
+    })
+
+    return createActionResult({ registrationsUpdated })
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'addManualMembership' },
+      'Failed to add membership'
+    )
+  }
+}
+
+/**
+ * Remove a membership row so the rider is checked against CCN again on their
+ * next registration (or re-verify). Used for bad cache entries.
+ */
+export async function expireMembership(membershipRowId: string): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const { data: membership, error } = await getSupabaseAdmin()
+      .from('memberships')
+      .delete()
+      .eq('id', membershipRowId)
+      .select('season, type, riders (first_name, last_name)')
+      .single()
+
+    if (error || !membership) {
+      return handleSupabaseError(
+        error,
+        { operation: 'expireMembership' },
+        'Failed to expire membership'
+      )
+    }
+
+    revalidateMembershipPages()
+
+    const rider = (membership as { riders: { first_name: string; last_name: string } | null })
+      .riders
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'delete',
+      entityType: 'membership',
+      entityId: membershipRowId,
+      description: `Expired ${membership.season} ${membership.type}${
+        rider ? ` for ${rider.first_name} ${rider.last_name}` : ''
+      }`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'expireMembership' },
+      'Failed to expire membership'
+    )
+  }
+}
+
+interface RegistrationForReverify {
+  id: string
+  status: string | null
+  riders: { id: string; first_name: string; last_name: string; email: string | null } | null
+  events: { event_date: string; season: number | null } | null
+}
+
+/**
+ * Re-run the membership check (saved membership, then CCN) for a registration
+ * stuck in `incomplete: membership`, and confirm it if the rider is now a member.
+ */
+export async function reverifyRegistration(
+  registrationId: string
+): Promise<ActionResult<{ registrationsUpdated: number }>> {
+  try {
+    const admin = await requireAdmin()
+
+    const { data } = await getSupabaseAdmin()
+      .from('registrations')
+      .select('id, status, riders (id, first_name, last_name, email), events (event_date, season)')
+      .eq('id', registrationId)
+      .single()
+
+    const registration = data as RegistrationForReverify | null
+    if (!registration?.riders) {
+      return { success: false, error: 'Registration not found' }
+    }
+    if (registration.status !== 'incomplete: membership') {
+      return { success: false, error: 'This registration is not waiting on a membership' }
+    }
+
+    const rider = registration.riders
+    const riderName = `${rider.first_name} ${rider.last_name}`
+    // Use the season of the registration's event, which isn't always the current one
+    const season = registration.events
+      ? (registration.events.season ?? parseInt(registration.events.event_date.split('-')[0], 10))
+      : getCurrentSeason()
+    const membership = await getMembershipForRider(
+      rider.id,
+      rider.first_name,
+      rider.last_name,
+      rider.email
+    )
+
+    if (!membership.found) {
+      return {
+        success: false,
+        error: membership.needsReview
+          ? `CCN returned more than one possible member for ${riderName}. See Needs Review.`
+          : `No ${season} CCN membership found for ${riderName}`,
+      }
+    }
+
+    const registrationsUpdated = await promoteIncompleteRegistrations(
+      rider.id,
+      season,
+      membership.type
+    )
+
+    revalidateMembershipPages()
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'status_change',
+      entityType: 'registration',
+      entityId: registrationId,
+      description: `Re-verified membership for ${riderName} (${membership.type}): ${registrationsUpdated} registration${
+        registrationsUpdated !== 1 ? 's' : ''
+      } confirmed`,
+    })
+
+    return createActionResult({ registrationsUpdated })
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'reverifyRegistration' },
+      'Failed to check membership'
+    )
+  }
+}
@@ -1,6 +1,7 @@
 'use server'
 
 import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { getRider } from '@/lib/auth/get-rider'
 import { handleSupabaseError } from '@/lib/errors'
 import type { ActionResult } from '@/types/actions'
 
@@ -14,30 +15,22 @@ export interface MyUpcomingRide {
   chapterName: string
 }
 
+export interface MyUpcomingRides {
+  firstName: string
+  rides: MyUpcomingRide[]
+}
+
 /**
- * Get upcoming registered rides for a rider by email.
- * Returns [] for unknown emails — no enumeration possible.
+ * Get upcoming registered rides for the signed-in rider.
+ * Returns null when no rider is signed in.
  */
-export async function getMyUpcomingRides(email: string): Promise<ActionResult<MyUpcomingRide[]>> {
-  const normalizedEmail = email?.toLowerCase().trim()
-  if (!normalizedEmail) {
-    return { success: true, data: [] }
+export async function getMyUpcomingRides(): Promise<ActionResult<MyUpcomingRides | null>> {
+  const rider = await getRider()
+  if (!rider) {
+    return { success: true, data: null }
   }
 
   const supabase = getSupabaseAdmin()
-
-  // Find rider by email
-  const { data: rider, error: riderError } = await supabase
-    .from('riders')
-    .select('id')
-    .eq('email', normalizedEmail)
-    .single()
-
-  if (riderError || !rider) {
-    // Unknown email — return empty array (no enumeration)
-    return { success: true, data: [] }
-  }
-
   const today = new Date().toISOString().split('T')[0]
 
   // Get registrations for future events
@@ -100,5 +93,5 @@ export async function getMyUpcomingRides(email: string): Promise<ActionResult<My
   // Sort by date ascending
   upcomingRides.sort((a, b) => a.date.localeCompare(b.date))
 
-  return { success: true, data: upcomingRides }
+  return { success: true, data: { firstName: rider.first_name, rides: upcomingRides } }
 }
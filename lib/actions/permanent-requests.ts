@@ -0,0 +1,261 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { format, parseISO } from 'date-fns'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logAuditEvent } from '@/lib/audit-log'
+import {
+  PERMANENT_REQUEST_FIELDS,
+  approvePermanent,
+  getPermanentRequest,
+  notifyPermanentRiders,
+} from '@/lib/events/permanent-requests'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+import type { EventForPermanentRequest, EventUpdate } from '@/types/queries'
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export interface ApprovePermanentRequestInput {
+  startTime?: string // HH:MM, imposed by the coordinator
+  startLocation?: string // imposed by the coordinator
+  note?: string
+}
+
+export interface ProposePermanentChangeInput {
+  eventDate?: string // YYYY-MM-DD
+  startTime?: string // HH:MM
+  startLocation?: string
+  note: string
+}
+
+function revalidatePermanentPages(event: Pick<EventForPermanentRequest, 'id' | 'slug'>) {
+  revalidateTag('events', 'max')
+  revalidateTag('permanents', 'max')
+  revalidateTag('registrations', 'max')
+  revalidateTag(`event-${event.slug}`, 'max')
+  revalidatePath('/admin/permanents')
+  revalidatePath('/admin/events')
+  revalidatePath(`/admin/events/${event.id}`)
+  revalidatePath('/calendar/permanents')
+}
+
+function describeRequest(event: EventForPermanentRequest): string {
+  return `${event.name} ${event.distance_km}km on ${format(parseISO(event.event_date), 'MMM d, yyyy')}`
+}
+
+/**
+ * Approve a permanent request. The coordinator can impose a start time or
+ * start location; the route's controls are copied onto the event and riders
+ * get their control times by email.
+ */
+export async function approvePermanentRequest(
+  eventId: string,
+  input: ApprovePermanentRequestInput = {}
+): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const startTime = input.startTime?.trim() || undefined
+    if (startTime && !TIME_PATTERN.test(startTime)) {
+      return { success: false, error: 'Invalid start time. Use HH:MM (e.g., 07:00)' }
+    }
+
+    const result = await approvePermanent(eventId, {
+      reviewedBy: admin.id,
+      startTime,
+      startLocation: input.startLocation?.trim() || undefined,
+      note: input.note,
+    })
+
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+
+    revalidatePermanentPages(result.event)
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'status_change',
+      entityType: 'event',
+      entityId: eventId,
+      description: `Approved permanent request: ${describeRequest(result.event)}`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'approvePermanentRequest' },
+      'Failed to approve permanent request'
+    )
+  }
+}
+
+/**
+ * Reject a permanent request. The event is cancelled and riders are emailed
+ * the coordinator's reason.
+ */
+export async function rejectPermanentRequest(eventId: string, note: string): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const reason = note.trim()
+    if (!reason) {
+      return { success: false, error: 'Please give the rider a reason' }
+    }
+
+    const request = await getPermanentRequest(eventId)
+    if (!request || request.status !== 'requested') {
+      return { success: false, error: 'Permanent request not found or already reviewed' }
+    }
+
+    const update: EventUpdate = {
+      status: 'cancelled',
+      proposed_event_date: null,
+      proposed_start_time: null,
+      proposed_start_location: null,
+      review_note: reason,
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: admin.id,
+    }
+
+    const { data: updated, error } = await getSupabaseAdmin()
+      .from('events')
+      .update(update)
+      .eq('id', eventId)
+      .eq('status', 'requested')
+      .select(PERMANENT_REQUEST_FIELDS)
+
+    if (error) {
+      return handleSupabaseError(
+        error,
+        { operation: 'rejectPermanentRequest' },
+        'Failed to reject permanent request'
+      )
+    }
+
+    const event = (updated as EventForPermanentRequest[] | null)?.[0]
+    if (!event) {
+      return { success: false, error: 'Permanent request not found or already reviewed' }
+    }
+
+    await notifyPermanentRiders(event, 'rejected')
+    revalidatePermanentPages(event)
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'status_change',
+      entityType: 'event',
+      entityId: eventId,
+      description: `Rejected permanent request: ${describeRequest(event)} (${reason})`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'rejectPermanentRequest' },
+      'Failed to reject permanent request'
+    )
+  }
+}
+
+/**
+ * Propose a different date, start time or start location. The request stays
+ * 'requested' until a rider accepts the proposal from their manage
+ * registration page (or cancels).
+ */
+export async function proposePermanentChange(
+  eventId: string,
+  input: ProposePermanentChangeInput
+): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const eventDate = input.eventDate?.trim() || null
+    const startTime = input.startTime?.trim() || null
+    const startLocation = input.startLocation?.trim() || null
+    const note = input.note.trim()
+
+    if (!eventDate && !startTime && !startLocation) {
+      return { success: false, error: 'Propose a new date, start time or start location' }
+    }
+    if (!note) {
+      return { success: false, error: 'Please add a note explaining the change' }
+    }
+    if (eventDate) {
+      const today = new Date().toISOString().split('T')[0]
+      if (!DATE_PATTERN.test(eventDate) || isNaN(parseISO(eventDate).getTime())) {
+        return { success: false, error: 'Invalid date. Use YYYY-MM-DD' }
+      }
+      if (eventDate < today) {
+        return { success: false, error: 'The proposed date has already passed' }
+      }
+    }
+    if (startTime && !TIME_PATTERN.test(startTime)) {
+      return { success: false, error: 'Invalid start time. Use HH:MM (e.g., 07:00)' }
+    }
+
+    const request = await getPermanentRequest(eventId)
+    if (!request || request.status !== 'requested') {
+      return { success: false, error: 'Permanent request not found or already reviewed' }
+    }
+
+    const update: EventUpdate = {
+      proposed_event_date: eventDate,
+      proposed_start_time: startTime,
+      proposed_start_location: startLocation,
+      review_note: note,
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: admin.id,
+    }
+
+    const { data: updated, error } = await getSupabaseAdmin()
+      .from('events')
+      .update(update)
+      .eq('id', eventId)
+      .eq('status', 'requested')
+      .select(PERMANENT_REQUEST_FIELDS)
+
+    if (error) {
+      return handleSupabaseError(
+        error,
+        { operation: 'proposePermanentChange' },
+        'Failed to save the proposed change'
+      )
+    }
+
+    const event = (updated as EventForPermanentRequest[] | null)?.[0]
+    if (!event) {
+      return { success: false, error: 'Permanent request not found or already reviewed' }
+    }
+
+    await notifyPermanentRiders(event, 'proposed')
+    revalidatePermanentPages(event)
+
+    const changes = [
+      eventDate && `date ${eventDate}`,
+      startTime && `start ${startTime}`,
+      startLocation && `location ${startLocation}`,
+    ].filter(Boolean)
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'event',
+      entityId: eventId,
+      description: `Proposed a change to permanent request ${describeRequest(event)}: ${changes.join(', ')}`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'proposePermanentChange' },
+      'Failed to save the proposed change'
+    )
+  }
+}
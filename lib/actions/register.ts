@@ -4,6 +4,7 @@
  * This module handles all event registration logic including:
  * - Registering for scheduled events (brevets, populaires)
  * - Registering for permanent rides
+ * - Registering for every open event in a series at once (e.g. Devil Week)
  * - Finding or creating rider records
  * - Sending confirmation emails
  *
@@ -12,7 +13,7 @@
  * 2. Verify event exists and is open for registration
  * 3. Find existing rider by email OR create new rider
  * 4. Check for duplicate registration
- * 5. Create registration record
+ * 5. Create registration record (waitlisted if the event is at its rider limit)
  * 6. Send confirmation email (async, non-blocking)
  * 7. Revalidate cache to update UI
  *
@@ -22,10 +23,21 @@
  * 2. Multiple riders can share the same event if same route/date
  * 3. Must be scheduled at least 2 weeks in advance
  *
+ * CAPACITY:
+ * Events may set a rider limit (max_riders). Once full, new registrants are
+ * waitlisted and promoted automatically when someone cancels.
+ * @see lib/registrations/waitlist.ts
+ *
+ * REGISTRATION WINDOWS:
+ * Scheduled events accept registrations only between their opens/closes
+ * times, falling back to chapter defaults (e.g. close 48 hours before start).
+ * @see lib/registrations/window.ts
+ *
  * @see docs/DATA_LAYER.md for more on server actions
  */
 'use server'
 
+import { randomUUID } from 'crypto'
 import { revalidatePath, revalidateTag } from 'next/cache'
 import { getSupabaseAdmin } from '@/lib/supabase-server'
 import { sendRegistrationConfirmationEmail } from '@/lib/email/send-registration-email'
@@ -33,16 +45,22 @@ import { formatEventType } from '@/lib/utils'
 import { format, parseISO } from 'date-fns'
 import { searchRiderCandidates, type RiderMatchCandidate } from './rider-match'
 import { getMembershipForRider, isTrialUsed } from '@/lib/memberships/service'
+import { getRegistrationSlotStatus } from '@/lib/registrations/waitlist'
+import { getRegistrationWindowError, resolveRegistrationWindow } from '@/lib/registrations/window'
+import { getPermanentSlug } from '@/lib/events/permanent-requests'
 import { handleActionError, handleSupabaseError, createActionResult, logError } from '@/lib/errors'
 import type {
   RiderInsert,
   RiderUpdate,
   RegistrationInsert,
+  RegistrationUpdate,
+  RegistrationWithManageToken,
   EventInsert,
   EventWithRelations,
   RouteWithChapter,
   RiderIdOnly,
   EventIdOnly,
+  EventIdWithStatus,
   RiderMergeInsert,
 } from '@/types/queries'
 
@@ -69,6 +87,12 @@ export interface RegistrationResult {
   pendingData?: RegistrationData
   /** Set when membership verification fails */
   membershipError?: 'no-membership' | 'trial-used'
+  /** Set when the event was full and the rider was added to the waitlist */
+  waitlisted?: boolean
+  /** Set when a permanent request is waiting for the route coordinator's approval */
+  pendingApproval?: boolean
+  /** Names of series events the rider couldn't be registered for */
+  failedEvents?: string[]
 }
 
 // ============================================================================
@@ -123,9 +147,23 @@ function buildRouteUrl(
   return `https://randonneursontario.ca/routes/${chapterSlug}/${routeSlug}`
 }
 
+/**
+ * Build the rider's self-service link for cancelling or changing a registration.
+ */
+function buildManageUrl(manageToken: string | null): string | undefined {
+  if (!manageToken) return undefined
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://randonneursontario.ca'
+  return `${baseUrl}/register/manage/${manageToken}`
+}
+
 /**
  * Result type for findOrCreateRider helper
  */
+interface CreatedRegistration {
+  manageToken: string | null
+  status: string
+}
+
 interface FindOrCreateRiderResult {
   success: true
   riderId: string
@@ -238,6 +276,7 @@ async function checkDuplicateRegistration(eventId: string, riderId: string): Pro
     .select('id')
     .eq('event_id', eventId)
     .eq('rider_id', riderId)
+    .neq('status', 'cancelled')
     .single()
 
   return existingRegistration !== null
@@ -251,6 +290,8 @@ async function checkDuplicateRegistration(eventId: string, riderId: string): Pro
  * @param shareRegistration - Whether to share registration publicly
  * @param notes - Optional registration notes
  * @param status - Registration status (defaults to 'registered')
+ * @returns The manage token for the self-service link, and the status the
+ *   registration was stored with (a full event turns 'registered' into 'waitlisted')
  * @throws Error if registration creation fails
  */
 async function createRegistrationRecord(
@@ -258,8 +299,21 @@ async function createRegistrationRecord(
   riderId: string,
   shareRegistration: boolean,
   notes?: string,
-  status: 'registered' | 'incomplete: membership' = 'registered'
-): Promise<void> {
+  status: 'registered' | 'waitlisted' | 'incomplete: membership' = 'registered'
+): Promise<CreatedRegistration> {
+  const supabase = getSupabaseAdmin()
+
+  // There is one row per event and rider, so a rider who cancelled and signs
+  // up again gets their old row back, with a new manage link and a new place
+  // in line
+  const { data: cancelled } = await supabase
+    .from('registrations')
+    .select('id')
+    .eq('event_id', eventId)
+    .eq('rider_id', riderId)
+    .eq('status', 'cancelled')
+    .maybeSingle()
+
   const insertRegistration: RegistrationInsert = {
     event_id: eventId,
     rider_id: riderId,
@@ -267,14 +321,42 @@ async function createRegistrationRecord(
     share_registration: shareRegistration,
     notes: notes || null,
   }
-  const { error: registrationError } = await getSupabaseAdmin()
-    .from('registrations')
-    .insert(insertRegistration)
+  const reactivate: RegistrationUpdate = {
+    status,
+    share_registration: shareRegistration,
+    notes: notes || null,
+    manage_token: randomUUID(),
+    registered_at: new Date().toISOString(),
+    reminder_sent_at: null,
+    checked_in_at: null,
+    checked_in_by: null,
+  }
+
+  const { data: registration, error: registrationError } = cancelled
+    ? await supabase
+        .from('registrations')
+        .update(reactivate)
+        .eq('id', cancelled.id)
+        .eq('status', 'cancelled')
+        .select('manage_token, status')
+        .single()
+    : await supabase
+        .from('registrations')
+        .insert(insertRegistration)
+        .select('manage_token, status')
+        .single()
 
   if (registrationError) {
     console.error('🚨 Error creating registration:', registrationError)
     throw new Error('Failed to complete registration')
   }
+
+  // The database waitlists the rider if the last spot went in the meantime
+  const created = registration as RegistrationWithManageToken | null
+  return {
+    manageToken: created?.manage_token ?? null,
+    status: created?.status ?? status,
+  }
 }
 
 // ============================================================================
@@ -319,8 +401,9 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
     .select(
       `
       id, slug, status, name, event_date, start_time,
-      start_location, distance_km, event_type,
-      chapters (slug, name),
+      start_location, distance_km, event_type, max_riders,
+      registration_opens_at, registration_closes_at,
+      chapters (slug, name, registration_opens_days_before, registration_closes_hours_before),
       routes (slug)
     `
     )
@@ -341,6 +424,14 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
     return { success: false, error: 'Registration is not open for this event' }
   }
 
+  // Permanents have their own advance-notice rule (see registerForPermanent)
+  if (event.event_type !== 'permanent') {
+    const windowError = getRegistrationWindowError(resolveRegistrationWindow(event, event.chapters))
+    if (windowError) {
+      return { success: false, error: windowError }
+    }
+  }
+
   // Find or create rider
   try {
     const riderResult = await findOrCreateRider(
@@ -366,11 +457,16 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
     const riderId = riderResult.riderId
 
     // Step: Verify membership
-    const membershipResult = await getMembershipForRider(riderId, trimmedFirstName, trimmedLastName)
+    const membershipResult = await getMembershipForRider(
+      riderId,
+      trimmedFirstName,
+      trimmedLastName,
+      normalizedEmail
+    )
 
     if (!membershipResult.found) {
       // Create incomplete registration
-      await createRegistrationRecord(
+      const { manageToken } = await createRegistrationRecord(
         eventId,
         riderId,
         shareRegistration,
@@ -384,6 +480,8 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
       sendRegistrationConfirmationEmail({
         registrantName: fullName,
         registrantEmail: normalizedEmail,
+        riderId,
+        eventId,
         eventName: event.name,
         eventDate: formatEventDate(event.event_date),
         eventTime: formatEventTime(event.start_time),
@@ -394,7 +492,8 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
         chapterSlug: chapter?.slug || '',
         routeUrl: buildRouteUrl(chapter?.slug, event.routes?.slug),
         notes: notes || undefined,
-        membershipStatus: 'none',
+        manageUrl: buildManageUrl(manageToken),
+        membershipStatus: membershipResult.needsReview ? 'pending-review' : 'none',
       }).catch((error) => {
         logError(error, {
           operation: 'registerForEvent.sendEmail',
@@ -413,7 +512,7 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
     if (membershipResult.type === 'Trial Member') {
       const trialUsed = await isTrialUsed(riderId)
       if (trialUsed) {
-        await createRegistrationRecord(
+        const { manageToken } = await createRegistrationRecord(
           eventId,
           riderId,
           shareRegistration,
@@ -426,6 +525,8 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
         sendRegistrationConfirmationEmail({
           registrantName: fullName,
           registrantEmail: normalizedEmail,
+          riderId,
+          eventId,
           eventName: event.name,
           eventDate: formatEventDate(event.event_date),
           eventTime: formatEventTime(event.start_time),
@@ -436,6 +537,7 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
           chapterSlug: chapter?.slug || '',
           routeUrl: buildRouteUrl(chapter?.slug, event.routes?.slug),
           notes: notes || undefined,
+          manageUrl: buildManageUrl(manageToken),
           membershipStatus: 'trial-used',
         }).catch((error) => {
           logError(error, {
@@ -458,8 +560,17 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
       return { success: false, error: 'You are already registered for this event' }
     }
 
-    // Create registration
-    await createRegistrationRecord(eventId, riderId, shareRegistration, notes)
+    // Create registration (waitlisted if the event is at its rider limit)
+    const slotStatus = await getRegistrationSlotStatus(eventId, event.max_riders)
+    const created = await createRegistrationRecord(
+      eventId,
+      riderId,
+      shareRegistration,
+      notes,
+      slotStatus
+    )
+    const manageToken = created.manageToken
+    const waitlisted = created.status === 'waitlisted'
 
     // Send confirmation email (fire-and-forget - don't block registration on email)
     const chapter = event.chapters
@@ -467,6 +578,8 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
     sendRegistrationConfirmationEmail({
       registrantName: fullName,
       registrantEmail: normalizedEmail,
+      riderId,
+      eventId,
       eventName: event.name,
       eventDate: formatEventDate(event.event_date),
       eventTime: formatEventTime(event.start_time),
@@ -477,8 +590,10 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
       chapterSlug: chapter?.slug || '',
       routeUrl: buildRouteUrl(chapter?.slug, event.routes?.slug),
       notes: notes || undefined,
+      manageUrl: buildManageUrl(manageToken),
       membershipType: membershipResult.type,
       membershipStatus: 'valid',
+      waitlisted,
     }).catch((error) => {
       logError(error, {
         operation: 'registerForEvent.sendEmail',
@@ -492,12 +607,245 @@ export async function registerForEvent(data: RegistrationData): Promise<Registra
     // Also revalidate the path for immediate UI update
     revalidatePath(`/register/${event.slug}`)
 
-    return createActionResult()
+    return waitlisted ? { success: true, waitlisted } : createActionResult()
   } catch (error) {
     return handleActionError(error, { operation: 'registerForEvent' }, 'Registration failed')
   }
 }
 
+export interface SeriesRegistrationData extends Omit<RegistrationData, 'eventId'> {
+  seriesId: string
+}
+
+/**
+ * Register a rider for every event in a series that is open for registration
+ * (e.g. all of Devil Week), as if they had registered for each one.
+ *
+ * Events the rider is already registered for are skipped, and each event
+ * gets its own confirmation email and manage link. If some events fail, the
+ * rest stay registered and the failures are listed in failedEvents. Full events put the rider
+ * on that event's waitlist. When the email is new and fuzzy name matches are
+ * found, the first open event is returned in pendingData: the form completes
+ * that one with completeRegistrationWithRider, then calls this again for the
+ * rest (the rider is then found by email).
+ *
+ * A Trial Membership only covers one event, so it can't be used to register
+ * for several events at once.
+ */
+export async function registerForSeries(data: SeriesRegistrationData): Promise<RegistrationResult> {
+  const {
+    seriesId,
+    firstName,
+    lastName,
+    email,
+    gender,
+    shareRegistration,
+    notes,
+    emergencyContactName,
+    emergencyContactPhone,
+  } = data
+
+  if (!seriesId || !firstName.trim() || !lastName.trim() || !email.trim()) {
+    return { success: false, error: 'Missing required fields' }
+  }
+
+  const trimmedFirstName = firstName.trim()
+  const trimmedLastName = lastName.trim()
+  const normalizedEmail = email.toLowerCase().trim()
+
+  try {
+    const { data: eventsData, error: eventsError } = await getSupabaseAdmin()
+      .from('events')
+      .select(
+        `
+        id, slug, status, name, event_date, start_time,
+        start_location, distance_km, event_type, max_riders,
+        registration_opens_at, registration_closes_at,
+        chapters (slug, name, registration_opens_days_before, registration_closes_hours_before),
+        routes (slug)
+      `
+      )
+      .eq('series_id', seriesId)
+      .eq('status', 'scheduled')
+      .neq('event_type', 'permanent')
+      .order('event_date', { ascending: true })
+
+    if (eventsError) {
+      return handleSupabaseError(
+        eventsError,
+        { operation: 'registerForSeries.eventLookup' },
+        'Series not found'
+      )
+    }
+
+    const openEvents = ((eventsData ?? []) as EventWithRelations[]).filter(
+      (event) => !getRegistrationWindowError(resolveRegistrationWindow(event, event.chapters))
+    )
+
+    if (openEvents.length === 0) {
+      return { success: false, error: 'Registration is not open for any events in this series' }
+    }
+
+    const riderResult = await findOrCreateRider(
+      email,
+      firstName,
+      lastName,
+      gender,
+      emergencyContactName,
+      emergencyContactPhone
+    )
+
+    if (!riderResult.success) {
+      const matchResult = riderResult as FindOrCreateRiderMatchResult
+      return {
+        success: false,
+        needsRiderMatch: true,
+        matchCandidates: matchResult.matchCandidates,
+        pendingData: {
+          eventId: openEvents[0].id,
+          firstName,
+          lastName,
+          email,
+          gender,
+          shareRegistration,
+          notes,
+          emergencyContactName,
+          emergencyContactPhone,
+        },
+      }
+    }
+
+    const riderId = riderResult.riderId
+
+    const membershipResult = await getMembershipForRider(
+      riderId,
+      trimmedFirstName,
+      trimmedLastName,
+      normalizedEmail
+    )
+
+    if (
+      membershipResult.found &&
+      membershipResult.type === 'Trial Member' &&
+      openEvents.length > 1
+    ) {
+      return {
+        success: false,
+        error:
+          'A Trial Membership covers a single event. Register for one event on its own page, or upgrade to a full membership to ride the series.',
+      }
+    }
+
+    const membershipType = membershipResult.found ? membershipResult.type : undefined
+    const trialUsed = membershipType === 'Trial Member' && (await isTrialUsed(riderId))
+    const membershipStatus = !membershipResult.found
+      ? membershipResult.needsReview
+        ? 'pending-review'
+        : 'none'
+      : trialUsed
+        ? 'trial-used'
+        : 'valid'
+
+    let registered = 0
+    let waitlisted = false
+    const failedEvents: string[] = []
+
+    for (const event of openEvents) {
+      if (await checkDuplicateRegistration(event.id, riderId)) continue
+
+      // Each event is registered on its own, so one failure doesn't undo the
+      // others; the rider is told which events to try again
+      let created: CreatedRegistration
+      try {
+        // Without a valid membership the registration is kept as incomplete,
+        // the same as registering for the event on its own
+        const status =
+          membershipStatus === 'valid'
+            ? await getRegistrationSlotStatus(event.id, event.max_riders)
+            : 'incomplete: membership'
+        created = await createRegistrationRecord(
+          event.id,
+          riderId,
+          shareRegistration,
+          notes,
+          status
+        )
+      } catch (error) {
+        logError(error, {
+          operation: 'registerForSeries.createRegistration',
+          context: { eventId: event.id, email: normalizedEmail },
+        })
+        failedEvents.push(event.name)
+        continue
+      }
+      const eventWaitlisted = created.status === 'waitlisted'
+      registered++
+      if (eventWaitlisted) waitlisted = true
+
+      const chapter = event.chapters
+      sendRegistrationConfirmationEmail({
+        registrantName: `${trimmedFirstName} ${trimmedLastName}`,
+        registrantEmail: normalizedEmail,
+        riderId,
+        eventId: event.id,
+        eventName: event.name,
+        eventDate: formatEventDate(event.event_date),
+        eventTime: formatEventTime(event.start_time),
+        eventLocation: event.start_location || 'TBD',
+        eventDistance: event.distance_km,
+        eventType: formatEventType(event.event_type),
+        chapterName: chapter?.name || '',
+        chapterSlug: chapter?.slug || '',
+        routeUrl: buildRouteUrl(chapter?.slug, event.routes?.slug),
+        notes: notes || undefined,
+        manageUrl: buildManageUrl(created.manageToken),
+        membershipType: membershipStatus === 'valid' ? membershipType : undefined,
+        membershipStatus,
+        waitlisted: eventWaitlisted,
+      }).catch((error) => {
+        logError(error, {
+          operation: 'registerForSeries.sendEmail',
+          context: { eventId: event.id, email: normalizedEmail },
+        })
+      })
+
+      revalidateTag(`event-${event.slug}`, 'max')
+      revalidatePath(`/register/${event.slug}`)
+    }
+
+    if (registered > 0) {
+      revalidateTag('registrations', 'max')
+    }
+
+    if (registered === 0 && failedEvents.length > 0) {
+      return { success: false, error: 'Registration failed' }
+    }
+
+    if (membershipStatus !== 'valid') {
+      return {
+        success: false,
+        membershipError: membershipStatus === 'trial-used' ? 'trial-used' : 'no-membership',
+        error: 'Membership verification failed',
+      }
+    }
+
+    if (registered === 0) {
+      return {
+        success: false,
+        error: "You're already registered for every open event in this series",
+      }
+    }
+
+    if (failedEvents.length > 0) {
+      return { success: true, waitlisted, failedEvents }
+    }
+
+    return waitlisted ? { success: true, waitlisted } : createActionResult()
+  } catch (error) {
+    return handleActionError(error, { operation: 'registerForSeries' }, 'Registration failed')
+  }
+}
+
 export interface PermanentRegistrationData {
   routeId: string
   eventDate: string // YYYY-MM-DD
@@ -590,28 +938,36 @@ export async function registerForPermanent(
 
   // Generate event name and slug
   const eventName = direction === 'reversed' ? `${route.name} (Reversed)` : route.name
-  const eventSlug = `permanent-${route.slug}-${eventDate}`
+  const eventSlug = getPermanentSlug(route.slug, eventDate)
 
   // Check if an event with this slug already exists
   const { data: existingEvent } = await getSupabaseAdmin()
     .from('events')
-    .select('id')
+    .select('id, status')
     .eq('slug', eventSlug)
     .single()
 
   let eventId: string
+  let pendingApproval: boolean
 
   if (existingEvent) {
-    // Use existing event (another rider might have created it for the same route/date)
-    const typedExistingEvent = existingEvent as EventIdOnly
+    // Use existing event (another rider might have requested the same route/date)
+    const typedExistingEvent = existingEvent as EventIdWithStatus
+    if (typedExistingEvent.status !== 'scheduled' && typedExistingEvent.status !== 'requested') {
+      return {
+        success: false,
+        error: "This date isn't available for this route. Please choose another date.",
+      }
+    }
     eventId = typedExistingEvent.id
+    pendingApproval = typedExistingEvent.status === 'requested'
   } else {
-    // Create new event
+    // Create a new request for the route coordinator to review (see lib/events/permanent-requests.ts)
     const insertEvent: EventInsert = {
       slug: eventSlug,
       name: eventName,
       event_type: 'permanent',
-      status: 'scheduled',
+      status: 'requested',
       route_id: route.id,
       chapter_id: route.chapter_id,
       distance_km: route.distance_km || 0,
@@ -633,6 +989,7 @@ export async function registerForPermanent(
 
     const typedNewEvent = newEvent as EventIdOnly
     eventId = typedNewEvent.id
+    pendingApproval = true
   }
 
   // Find or create rider
@@ -672,11 +1029,16 @@ export async function registerForPermanent(
     const riderId = riderResult.riderId
 
     // Step: Verify membership
-    const membershipResult = await getMembershipForRider(riderId, trimmedFirstName, trimmedLastName)
+    const membershipResult = await getMembershipForRider(
+      riderId,
+      trimmedFirstName,
+      trimmedLastName,
+      normalizedEmail
+    )
 
     if (!membershipResult.found) {
       // Create incomplete registration
-      await createRegistrationRecord(
+      const { manageToken } = await createRegistrationRecord(
         eventId,
         riderId,
         shareRegistration,
@@ -690,6 +1052,8 @@ export async function registerForPermanent(
       sendRegistrationConfirmationEmail({
         registrantName: fullName,
         registrantEmail: normalizedEmail,
+        riderId,
+        eventId,
         eventName: eventName,
         eventDate: formatEventDate(eventDate),
         eventTime: formatEventTime(startTime),
@@ -700,7 +1064,8 @@ export async function registerForPermanent(
         chapterSlug: chapter?.slug || '',
         routeUrl: buildRouteUrl(chapter?.slug, route.slug),
         notes: notes || undefined,
-        membershipStatus: 'none',
+        manageUrl: buildManageUrl(manageToken),
+        membershipStatus: membershipResult.needsReview ? 'pending-review' : 'none',
       }).catch((error) => {
         logError(error, {
           operation: 'registerForPermanent.sendEmail',
@@ -719,7 +1084,7 @@ export async function registerForPermanent(
     if (membershipResult.type === 'Trial Member') {
       const trialUsed = await isTrialUsed(riderId)
       if (trialUsed) {
-        await createRegistrationRecord(
+        const { manageToken } = await createRegistrationRecord(
           eventId,
           riderId,
           shareRegistration,
@@ -732,6 +1097,8 @@ export async function registerForPermanent(
         sendRegistrationConfirmationEmail({
           registrantName: fullName,
           registrantEmail: normalizedEmail,
+          riderId,
+          eventId,
           eventName: eventName,
           eventDate: formatEventDate(eventDate),
           eventTime: formatEventTime(startTime),
@@ -742,6 +1109,7 @@ export async function registerForPermanent(
           chapterSlug: chapter?.slug || '',
           routeUrl: buildRouteUrl(chapter?.slug, route.slug),
           notes: notes || undefined,
+          manageUrl: buildManageUrl(manageToken),
           membershipStatus: 'trial-used',
         }).catch((error) => {
           logError(error, {
@@ -764,8 +1132,17 @@ export async function registerForPermanent(
       return { success: false, error: 'You are already registered for this permanent ride' }
     }
 
-    // Create registration
-    await createRegistrationRecord(eventId, riderId, shareRegistration, notes)
+    // Create registration (waitlisted if the event is at its rider limit)
+    const slotStatus = await getRegistrationSlotStatus(eventId)
+    const created = await createRegistrationRecord(
+      eventId,
+      riderId,
+      shareRegistration,
+      notes,
+      slotStatus
+    )
+    const manageToken = created.manageToken
+    const waitlisted = created.status === 'waitlisted'
 
     // Send confirmation email (fire-and-forget)
     const chapter = route.chapters
@@ -773,6 +1150,8 @@ export async function registerForPermanent(
     sendRegistrationConfirmationEmail({
       registrantName: fullName,
       registrantEmail: normalizedEmail,
+      riderId,
+      eventId,
       eventName: eventName,
       eventDate: formatEventDate(eventDate),
       eventTime: formatEventTime(startTime),
@@ -783,8 +1162,11 @@ export async function registerForPermanent(
       chapterSlug: chapter?.slug || '',
       routeUrl: buildRouteUrl(chapter?.slug, route.slug),
       notes: notes || undefined,
+      manageUrl: buildManageUrl(manageToken),
       membershipType: membershipResult.type,
       membershipStatus: 'valid',
+      waitlisted,
+      pendingApproval,
     }).catch((error) => {
       logError(error, {
         operation: 'registerForPermanent.sendEmail',
@@ -800,7 +1182,11 @@ export async function registerForPermanent(
     // Also revalidate the paths for immediate UI update
     revalidatePath(`/register/${eventSlug}`)
     revalidatePath('/calendar/permanents')
+    revalidatePath('/admin/permanents')
 
+    if (waitlisted || pendingApproval) {
+      return { success: true, waitlisted, pendingApproval }
+    }
     return createActionResult()
   } catch (error) {
     return handleActionError(error, { operation: 'registerForPermanent' }, 'Registration failed')
@@ -868,8 +1254,9 @@ export async function completeRegistrationWithRider(
     .select(
       `
       id, slug, status, name, event_date, start_time,
-      start_location, distance_km, event_type,
-      chapters (slug, name),
+      start_location, distance_km, event_type, max_riders,
+      registration_opens_at, registration_closes_at,
+      chapters (slug, name, registration_opens_days_before, registration_closes_hours_before),
       routes (slug)
     `
     )
@@ -882,10 +1269,20 @@ export async function completeRegistrationWithRider(
 
   const event = eventData as EventWithRelations
 
-  if (event.status !== 'scheduled') {
+  // Permanent requests can be joined while they wait for approval
+  const pendingApproval = event.event_type === 'permanent' && event.status === 'requested'
+  if (event.status !== 'scheduled' && !pendingApproval) {
     return { success: false, error: 'Registration is not open for this event' }
   }
 
+  // Permanents have their own advance-notice rule (see registerForPermanent)
+  if (event.event_type !== 'permanent') {
+    const windowError = getRegistrationWindowError(resolveRegistrationWindow(event, event.chapters))
+    if (windowError) {
+      return { success: false, error: windowError }
+    }
+  }
+
   let riderId: string
 
   if (selectedRiderId) {
@@ -961,10 +1358,15 @@ export async function completeRegistrationWithRider(
   }
 
   // Verify membership (same as registerForEvent / registerForPermanent)
-  const membershipResult = await getMembershipForRider(riderId, trimmedFirstName, trimmedLastName)
+  const membershipResult = await getMembershipForRider(
+    riderId,
+    trimmedFirstName,
+    trimmedLastName,
+    normalizedEmail
+  )
 
   if (!membershipResult.found) {
-    await createRegistrationRecord(
+    const { manageToken } = await createRegistrationRecord(
       eventId,
       riderId,
       shareRegistration,
@@ -976,6 +1378,8 @@ export async function completeRegistrationWithRider(
     sendRegistrationConfirmationEmail({
       registrantName: fullName,
       registrantEmail: normalizedEmail,
+      riderId,
+      eventId,
       eventName: event.name,
       eventDate: formatEventDate(event.event_date),
       eventTime: formatEventTime(event.start_time),
@@ -986,7 +1390,8 @@ export async function completeRegistrationWithRider(
       chapterSlug: chapter?.slug || '',
       routeUrl: buildRouteUrl(chapter?.slug, event.routes?.slug),
       notes: notes || undefined,
-      membershipStatus: 'none',
+      manageUrl: buildManageUrl(manageToken),
+      membershipStatus: membershipResult.needsReview ? 'pending-review' : 'none',
     }).catch((error) => {
       logError(error, {
         operation: 'completeRegistrationWithRider.sendEmail',
@@ -1003,7 +1408,7 @@ export async function completeRegistrationWithRider(
   if (membershipResult.type === 'Trial Member') {
     const trialUsed = await isTrialUsed(riderId)
     if (trialUsed) {
-      await createRegistrationRecord(
+      const { manageToken } = await createRegistrationRecord(
         eventId,
         riderId,
         shareRegistration,
@@ -1015,6 +1420,8 @@ export async function completeRegistrationWithRider(
       sendRegistrationConfirmationEmail({
         registrantName: fullName,
         registrantEmail: normalizedEmail,
+        riderId,
+        eventId,
         eventName: event.name,
         eventDate: formatEventDate(event.event_date),
         eventTime: formatEventTime(event.start_time),
@@ -1025,6 +1432,7 @@ export async function completeRegistrationWithRider(
         chapterSlug: chapter?.slug || '',
         routeUrl: buildRouteUrl(chapter?.slug, event.routes?.slug),
         notes: notes || undefined,
+        manageUrl: buildManageUrl(manageToken),
         membershipStatus: 'trial-used',
       }).catch((error) => {
         logError(error, {
@@ -1040,13 +1448,17 @@ export async function completeRegistrationWithRider(
     }
   }
 
-  // Create registration
+  // Create registration (waitlisted if the event is at its rider limit)
+  const slotStatus = await getRegistrationSlotStatus(eventId, event.max_riders)
+  let created: CreatedRegistration
   try {
-    await createRegistrationRecord(eventId, riderId, shareRegistration, notes)
+    created = await createRegistrationRecord(eventId, riderId, shareRegistration, notes, slotStatus)
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to complete registration'
     return { success: false, error: errorMessage }
   }
+  const manageToken = created.manageToken
+  const waitlisted = created.status === 'waitlisted'
 
   // Send confirmation email (fire-and-forget)
   const chapter = event.chapters
@@ -1054,6 +1466,8 @@ export async function completeRegistrationWithRider(
   sendRegistrationConfirmationEmail({
     registrantName: fullName,
     registrantEmail: normalizedEmail,
+    riderId,
+    eventId,
     eventName: event.name,
     eventDate: formatEventDate(event.event_date),
     eventTime: formatEventTime(event.start_time),
@@ -1064,8 +1478,11 @@ export async function completeRegistrationWithRider(
     chapterSlug: chapter?.slug || '',
     routeUrl: buildRouteUrl(chapter?.slug, event.routes?.slug),
     notes: notes || undefined,
+    manageUrl: buildManageUrl(manageToken),
     membershipType: membershipResult.type,
     membershipStatus: 'valid',
+    waitlisted,
+    pendingApproval,
   }).catch((error) => {
     logError(error, {
       operation: 'completeRegistrationWithRider.sendEmail',
@@ -1079,5 +1496,8 @@ export async function completeRegistrationWithRider(
   // Also revalidate the path for immediate UI update
   revalidatePath(`/register/${event.slug}`)
 
+  if (waitlisted || pendingApproval) {
+    return { success: true, waitlisted, pendingApproval }
+  }
   return { success: true }
 }
@@ -0,0 +1,90 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { logAuditEvent } from '@/lib/audit-log'
+import { promoteFromWaitlist } from '@/lib/registrations/waitlist'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+import type { RegistrationForCancellation } from '@/types/queries'
+
+/**
+ * Cancel a rider's registration for an event.
+ *
+ * If the cancelled registration held a spot on a capped event, the next
+ * waitlisted rider is promoted and emailed.
+ */
+export async function cancelRegistration(registrationId: string): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const { data, error: fetchError } = await getSupabaseAdmin()
+      .from('registrations')
+      .select(
+        'id, event_id, status, riders (first_name, last_name), events (name, slug, event_date)'
+      )
+      .eq('id', registrationId)
+      .single()
+
+    if (fetchError || !data) {
+      return { success: false, error: 'Registration not found' }
+    }
+
+    const registration = data as RegistrationForCancellation
+
+    if (registration.status === 'cancelled') {
+      return { success: false, error: 'Registration is already cancelled' }
+    }
+
+    const today = new Date().toISOString().split('T')[0]
+    if (registration.events && registration.events.event_date < today) {
+      return { success: false, error: 'Cannot cancel registrations for past events' }
+    }
+
+    const { error: updateError } = await getSupabaseAdmin()
+      .from('registrations')
+      .update({ status: 'cancelled' })
+      .eq('id', registrationId)
+
+    if (updateError) {
+      return handleSupabaseError(
+        updateError,
+        { operation: 'cancelRegistration' },
+        'Failed to cancel registration'
+      )
+    }
+
+    // Only a registered rider frees up a spot
+    if (registration.status === 'registered') {
+      await promoteFromWaitlist(registration.event_id)
+    }
+
+    revalidatePath(`/admin/events/${registration.event_id}`)
+    revalidateTag('registrations', 'max')
+    if (registration.events?.slug) {
+      revalidateTag(`event-${registration.events.slug}`, 'max')
+      revalidatePath(`/register/${registration.events.slug}`)
+    }
+
+    const riderName = registration.riders
+      ? `${registration.riders.first_name} ${registration.riders.last_name}`
+      : 'Unknown rider'
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'status_change',
+      entityType: 'registration',
+      entityId: registrationId,
+      description: `Cancelled registration for ${riderName} in ${registration.events?.name ?? 'event'}`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'cancelRegistration' },
+      'Failed to cancel registration'
+    )
+  }
+}
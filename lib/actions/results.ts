@@ -6,7 +6,10 @@ import { requireAdmin } from '@/lib/auth/get-admin'
 import { getUrlSlugFromDbSlug } from '@/lib/chapter-config'
 import { logAuditEvent } from '@/lib/audit-log'
 import { handleSupabaseError, createActionResult } from '@/lib/errors'
+import { verifyResultGpx } from '@/lib/results/verify-result'
+import { evaluateEventAwards, evaluateResultAwards } from '@/lib/awards/engine'
 import type { ActionResult } from '@/types/actions'
+import type { GpxVerificationReport } from '@/types/gpx-verification'
 import type {
   ResultInsert,
   ResultUpdate,
@@ -60,6 +63,8 @@ export interface UpdateResultData {
   status?: ResultStatus
   teamName?: string | null
   note?: string | null
+  medalRequested?: boolean
+  homologationNumber?: string | null
 }
 
 export async function createResult(data: CreateResultData): Promise<ActionResult> {
@@ -96,7 +101,10 @@ export async function createResult(data: CreateResultData): Promise<ActionResult
     return handleSupabaseError(error, { operation: 'createResult' }, 'Failed to create result')
   }
 
+  await evaluateResultAwards(riderId, eventId, season)
+
   revalidatePath(`/admin/events/${eventId}`)
+  revalidatePath('/admin/awards')
 
   // Revalidate public results pages
   await revalidateResultsTags(eventId)
@@ -133,6 +141,9 @@ export async function updateResult(
     status: data.status,
     team_name: data.teamName,
     note: data.note,
+    medal_requested: data.medalRequested,
+    homologation_number:
+      data.homologationNumber === undefined ? undefined : data.homologationNumber?.trim() || null,
   }
 
   const { error } = await getSupabaseAdmin().from('results').update(updateData).eq('id', resultId)
@@ -147,11 +158,14 @@ export async function updateResult(
   // Get the event_id to revalidate results cache tags
   const { data: result } = await getSupabaseAdmin()
     .from('results')
-    .select('event_id, events (name), riders (first_name, last_name)')
+    .select('event_id, rider_id, season, events (name), riders (first_name, last_name)')
     .eq('id', resultId)
     .single()
 
   if (result) {
+    await evaluateResultAwards(result.rider_id, result.event_id, result.season)
+    revalidatePath('/admin/awards')
+
     const typedResult = result as ResultWithEventId
     if (typedResult.event_id) {
       await revalidateResultsTags(typedResult.event_id)
@@ -186,7 +200,7 @@ export async function deleteResult(resultId: string): Promise<ActionResult> {
   // Fetch event_id and names before deleting for revalidation and audit log
   const { data: result } = await getSupabaseAdmin()
     .from('results')
-    .select('event_id, events (name), riders (first_name, last_name)')
+    .select('event_id, rider_id, season, events (name), riders (first_name, last_name)')
     .eq('id', resultId)
     .single()
 
@@ -199,8 +213,12 @@ export async function deleteResult(resultId: string): Promise<ActionResult> {
   // Revalidate admin pages (still use revalidatePath for admin routes)
   revalidatePath('/admin/events')
 
-  // Revalidate cache tags for results pages
   if (result) {
+    // The result's own awards go with it; others may have depended on it
+    await evaluateResultAwards(result.rider_id, result.event_id, result.season)
+    revalidatePath('/admin/awards')
+
+    // Revalidate cache tags for results pages
     const typedResult = result as ResultWithEventId
     if (typedResult.event_id) {
       await revalidateResultsTags(typedResult.event_id)
@@ -229,6 +247,24 @@ export async function deleteResult(resultId: string): Promise<ActionResult> {
   return createActionResult()
 }
 
+/**
+ * Re-run the GPX check for a result, e.g. after the route's controls or file change.
+ */
+export async function recheckResultGpx(
+  resultId: string
+): Promise<ActionResult<GpxVerificationReport>> {
+  await requireAdmin()
+
+  const report = await verifyResultGpx(resultId)
+  if (!report) {
+    return { success: false, error: 'Could not check this GPX file' }
+  }
+
+  revalidatePath('/admin/events')
+
+  return createActionResult(report)
+}
+
 export async function createBulkResults(
   eventId: string,
   results: Array<{
@@ -264,7 +300,10 @@ export async function createBulkResults(
     )
   }
 
+  await evaluateEventAwards(eventId)
+
   revalidatePath(`/admin/events/${eventId}`)
+  revalidatePath('/admin/awards')
 
   // Revalidate public results pages
   await revalidateResultsTags(eventId)
@@ -0,0 +1,160 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { isFullAdmin } from '@/lib/auth/roles'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logAuditEvent } from '@/lib/audit-log'
+import { handleActionError, handleSupabaseError, createActionResult, logError } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+
+const SUBMISSIONS_BUCKET = 'rider-submissions'
+
+interface AnonymizeRiderResponse {
+  success: boolean
+  auth_user_id: string | null
+  file_paths: string[] | null
+}
+
+/**
+ * Erase a rider's personal data (the anonymize_rider database function).
+ * Results, registrations and memberships are kept so club and route totals
+ * don't change, but the rider becomes "Anonymous Rider" with no profile and
+ * no records entries. Their uploaded files and sign-in account are deleted
+ * afterwards; a failure there is logged rather than undoing the erasure.
+ */
+export async function anonymizeRider(riderId: string): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    if (!isFullAdmin(admin.role)) {
+      return { success: false, error: 'You do not have permission to erase rider data' }
+    }
+
+    const supabase = getSupabaseAdmin()
+
+    // The old slug, to clear the profile page from the cache afterwards
+    const { data: rider } = await supabase
+      .from('riders')
+      .select('slug')
+      .eq('id', riderId)
+      .maybeSingle()
+
+    if (!rider) {
+      return { success: false, error: 'Rider not found' }
+    }
+
+    const { data: response, error } = await supabase.rpc('anonymize_rider', {
+      p_rider_id: riderId,
+      p_anonymized_by: admin.id,
+    })
+
+    if (error) {
+      return handleSupabaseError(
+        error,
+        { operation: 'anonymizeRider', context: { riderId } },
+        error.message.includes('already been anonymized')
+          ? 'This rider has already been anonymized'
+          : 'Failed to anonymize rider'
+      )
+    }
+
+    const result = response as AnonymizeRiderResponse | null
+
+    const filePaths = result?.file_paths ?? []
+    if (filePaths.length > 0) {
+      const { error: storageError } = await supabase.storage
+        .from(SUBMISSIONS_BUCKET)
+        .remove(filePaths)
+      if (storageError) {
+        logError(storageError, { operation: 'anonymizeRider.storage', context: { riderId } })
+      }
+    }
+
+    if (result?.auth_user_id) {
+      const { error: authError } = await supabase.auth.admin.deleteUser(result.auth_user_id)
+      if (authError) {
+        logError(authError, { operation: 'anonymizeRider.auth', context: { riderId } })
+      }
+    }
+
+    // The description can't name the rider, or the audit log would keep what was erased
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'anonymize',
+      entityType: 'rider',
+      entityId: riderId,
+      description: 'Erased personal data for a rider',
+    })
+
+    revalidateTag('riders', 'max')
+    revalidateTag(`rider-${rider.slug}`, 'max')
+    revalidateTag('results', 'max')
+    revalidateTag('records', 'max')
+    revalidateTag('registrations', 'max')
+    revalidatePath('/admin/riders')
+    revalidatePath(`/admin/riders/${riderId}`)
+    revalidatePath('/admin/riders/data-requests')
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'anonymizeRider', context: { riderId } },
+      'Failed to anonymize rider'
+    )
+  }
+}
+
+/**
+ * Decline an erasure request, e.g. when it can't be verified as coming from
+ * the rider. The note is kept on the request alongside the rider's own.
+ */
+export async function declineDataRequest(requestId: string, note: string): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    if (!isFullAdmin(admin.role)) {
+      return { success: false, error: 'You do not have permission to review data requests' }
+    }
+
+    const { data, error } = await getSupabaseAdmin()
+      .from('rider_data_requests')
+      .update({
+        status: 'declined',
+        resolution_note: note.trim() || null,
+        resolved_at: new Date().toISOString(),
+        resolved_by: admin.id,
+      })
+      .eq('id', requestId)
+      .eq('status', 'pending')
+      .select('rider_id')
+      .single()
+
+    if (error || !data) {
+      return handleSupabaseError(
+        error,
+        { operation: 'declineDataRequest', context: { requestId } },
+        'Request not found or already resolved'
+      )
+    }
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'rider',
+      entityId: data.rider_id,
+      description: 'Declined a data erasure request',
+    })
+
+    revalidatePath('/admin/riders/data-requests')
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'declineDataRequest', context: { requestId } },
+      'Failed to decline request'
+    )
+  }
+}
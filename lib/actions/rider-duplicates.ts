@@ -0,0 +1,87 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logAuditEvent } from '@/lib/audit-log'
+import { scanForDuplicateRiders, type DuplicateScanResult } from '@/lib/riders/duplicate-scan'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+
+/**
+ * Run the duplicate rider scan now rather than waiting for the nightly job.
+ */
+export async function scanDuplicateRiders(): Promise<ActionResult<DuplicateScanResult>> {
+  try {
+    await requireAdmin()
+
+    const result = await scanForDuplicateRiders()
+
+    revalidatePath('/admin/riders/duplicates')
+
+    return createActionResult(result)
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'scanDuplicateRiders' },
+      'Failed to scan for duplicate riders'
+    )
+  }
+}
+
+/**
+ * Mark a cluster as "not a duplicate". It's kept as dismissed so the scan
+ * won't propose these riders together again.
+ */
+export async function dismissDuplicateCluster(clusterId: string): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const supabase = getSupabaseAdmin()
+
+    const { data, error } = await supabase
+      .from('rider_duplicate_clusters')
+      .update({
+        status: 'dismissed',
+        reviewed_by: admin.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', clusterId)
+      .eq('status', 'pending')
+      .select('rider_ids')
+      .single()
+
+    if (error || !data) {
+      return handleSupabaseError(
+        error,
+        { operation: 'dismissDuplicateCluster' },
+        'Cluster not found or already reviewed'
+      )
+    }
+
+    revalidatePath('/admin/riders/duplicates')
+
+    const { data: riders } = await supabase
+      .from('riders')
+      .select('first_name, last_name')
+      .in('id', data.rider_ids)
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'rider',
+      entityId: data.rider_ids[0],
+      description: `Dismissed possible duplicate: ${(riders ?? [])
+        .map((r) => `${r.first_name} ${r.last_name}`)
+        .join(' / ')}`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'dismissDuplicateCluster' },
+      'Failed to dismiss cluster'
+    )
+  }
+}
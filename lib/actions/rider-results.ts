@@ -2,6 +2,8 @@
 
 import { getSupabaseAdmin } from '@/lib/supabase-server'
 import { handleSupabaseError, createActionResult, logError } from '@/lib/errors'
+import { verifyResultGpx } from '@/lib/results/verify-result'
+import { evaluateResultAwards } from '@/lib/awards/engine'
 import type { ActionResult } from '@/types/actions'
 import type {
   ResultForSubmission,
@@ -172,7 +174,7 @@ export async function submitRiderResult(input: SubmitResultInput): Promise<Actio
   // First, verify the token and check event status
   const { data: result, error: fetchError } = await supabase
     .from('results')
-    .select('id, events(status)')
+    .select('id, event_id, rider_id, season, gpx_file_path, events(status)')
     .eq('submission_token', token)
     .single()
 
@@ -196,6 +198,7 @@ export async function submitRiderResult(input: SubmitResultInput): Promise<Actio
     gpx_url: gpxUrl || null,
     rider_notes: riderNotes || null,
     submitted_at: new Date().toISOString(),
+    overdue_at: null, // A late response clears the results deadline flag
   }
 
   const { error: updateError } = await supabase
@@ -211,6 +214,13 @@ export async function submitRiderResult(input: SubmitResultInput): Promise<Actio
     )
   }
 
+  // Re-check the GPX against the newly claimed finish time
+  if (typedResult.gpx_file_path) {
+    await verifyResultGpx(typedResult.id)
+  }
+
+  await evaluateResultAwards(typedResult.rider_id, typedResult.event_id, typedResult.season)
+
   return createActionResult()
 }
 
@@ -318,6 +328,10 @@ export async function uploadResultFile(
     )
   }
 
+  if (fileType === 'gpx') {
+    await verifyResultGpx(typedResult.id)
+  }
+
   return {
     success: true,
     data: { path: filePath, url: publicUrl },
@@ -377,8 +391,11 @@ export async function deleteResultFile(
     // Continue anyway to clear the reference
   }
 
-  // Clear the file path in the database
-  const updateData: ResultUpdate = { [pathField]: null } as ResultUpdate
+  // Clear the file path in the database (and the GPX report with the GPX)
+  const updateData: ResultUpdate =
+    fileType === 'gpx'
+      ? { gpx_file_path: null, gpx_verification: null, gpx_verified_at: null }
+      : ({ [pathField]: null } as ResultUpdate)
   const { error: updateError } = await supabase
     .from('results')
     .update(updateData)
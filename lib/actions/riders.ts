@@ -1,5 +1,6 @@
 'use server'
 
+import { revalidatePath } from 'next/cache'
 import { getSupabaseAdmin } from '@/lib/supabase-server'
 import { requireAdmin } from '@/lib/auth/get-admin'
 import { applyRiderSearchFilter } from '@/lib/utils/rider-search'
@@ -8,10 +9,7 @@ import { handleActionError, handleSupabaseError, handleDataError } from '@/lib/e
 import type { ActionResult } from '@/types/actions'
 import type {
   RiderInsert,
-  RiderUpdate,
   RiderIdOnly,
-  RegistrationUpdate,
-  ResultUpdate,
   RegistrationWithRiderId,
   ResultWithRiderId,
 } from '@/types/queries'
@@ -127,11 +125,30 @@ export interface MergeRidersData {
 }
 
 export interface MergeRidersResult extends ActionResult {
+  mergeId?: string
   updatedRegistrationsCount?: number
   updatedResultsCount?: number
+  droppedRegistrationsCount?: number
+  droppedResultsCount?: number
   deletedRidersCount?: number
 }
 
+interface MergeRidersResponse {
+  success: boolean
+  error?: string
+  merge_id?: string
+  moved_registrations?: number
+  moved_results?: number
+  dropped_registrations?: number
+  dropped_results?: number
+}
+
+/**
+ * Merge riders into the target in one transaction (the merge_riders database
+ * function). Where two riders have a registration or result on the same event
+ * only the best row is kept; everything removed is snapshotted so the merge
+ * can be undone with unmergeRiders().
+ */
 export async function mergeRiders(data: MergeRidersData): Promise<MergeRidersResult> {
   const admin = await requireAdmin()
 
@@ -151,83 +168,129 @@ export async function mergeRiders(data: MergeRidersData): Promise<MergeRidersRes
   const ridersToDelete = sourceRiderIds.filter((id) => id !== targetRiderId)
 
   try {
-    // Step 1: Update all registrations to use target rider
-    const regUpdateData: RegistrationUpdate = { rider_id: targetRiderId }
-    const { data: updatedRegistrations, error: updateRegsError } = await getSupabaseAdmin()
-      .from('registrations')
-      .update(regUpdateData)
-      .in('rider_id', ridersToDelete)
-      .select('id')
+    const { data: response, error } = await getSupabaseAdmin().rpc('merge_riders', {
+      p_target_id: targetRiderId,
+      p_source_ids: ridersToDelete,
+      p_first_name: riderData.firstName.trim(),
+      p_last_name: riderData.lastName.trim(),
+      p_email: riderData.email || undefined,
+      p_gender: riderData.gender || undefined,
+      p_merged_by: admin.id,
+    })
 
-    if (updateRegsError) {
-      console.error('Error updating registrations:', updateRegsError)
-      return { success: false, error: 'Failed to update registrations' }
+    if (error) {
+      return handleSupabaseError(
+        error,
+        { operation: 'mergeRiders', context: { targetRiderId } },
+        'Failed to merge riders'
+      )
     }
 
-    // Step 2: Update all results to use target rider
-    const resultUpdateData: ResultUpdate = { rider_id: targetRiderId }
-    const { data: updatedResults, error: updateResultsError } = await getSupabaseAdmin()
-      .from('results')
-      .update(resultUpdateData)
-      .in('rider_id', ridersToDelete)
-      .select('id')
-
-    if (updateResultsError) {
-      console.error('Error updating results:', updateResultsError)
-      return { success: false, error: 'Failed to update results' }
+    const result = response as MergeRidersResponse | null
+    if (!result?.success) {
+      return { success: false, error: result?.error || 'Failed to merge riders' }
     }
 
-    // Step 3: Delete the other riders
-    const { error: deleteError } = await getSupabaseAdmin()
-      .from('riders')
+    const dropped = (result.dropped_registrations ?? 0) + (result.dropped_results ?? 0)
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'merge',
+      entityType: 'rider',
+      entityId: targetRiderId,
+      description:
+        `Merged ${sourceRiderIds.length} riders into: ${riderData.firstName} ${riderData.lastName}` +
+        (dropped > 0 ? ` (${dropped} duplicate event rows removed)` : ''),
+    })
+
+    // Clear possible-duplicate clusters for these riders; the next scan
+    // proposes any that still apply
+    await getSupabaseAdmin()
+      .from('rider_duplicate_clusters')
       .delete()
-      .in('id', ridersToDelete)
+      .eq('status', 'pending')
+      .overlaps('rider_ids', sourceRiderIds)
 
-    if (deleteError) {
-      console.error('Error deleting old riders:', deleteError)
-      return { success: false, error: 'Failed to delete old riders' }
-    }
+    revalidatePath('/admin/riders')
+    revalidatePath('/admin/riders/duplicates')
+    revalidatePath(`/admin/riders/${targetRiderId}`)
 
-    // Step 4: Update the target rider with new properties
-    const parsedGender =
-      riderData.gender === 'M' || riderData.gender === 'F' || riderData.gender === 'X'
-        ? riderData.gender
-        : null
-
-    const riderUpdateData: RiderUpdate = {
-      first_name: riderData.firstName.trim(),
-      last_name: riderData.lastName.trim(),
-      email: riderData.email || null,
-      gender: parsedGender,
+    return {
+      success: true,
+      mergeId: result.merge_id,
+      updatedRegistrationsCount: result.moved_registrations ?? 0,
+      updatedResultsCount: result.moved_results ?? 0,
+      droppedRegistrationsCount: result.dropped_registrations ?? 0,
+      droppedResultsCount: result.dropped_results ?? 0,
+      deletedRidersCount: ridersToDelete.length,
     }
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'mergeRiders', context: { targetRiderId } },
+      'An unexpected error occurred while merging riders'
+    )
+  }
+}
 
-    const { error: updateRiderError } = await getSupabaseAdmin()
-      .from('riders')
-      .update(riderUpdateData)
-      .eq('id', targetRiderId)
+interface UnmergeRidersResponse {
+  success: boolean
+  error?: string
+  target_rider_id?: string
+  restored_rider_ids?: string[]
+}
+
+export interface UnmergeRidersResult extends ActionResult {
+  restoredRiderIds?: string[]
+}
+
+/**
+ * Undo a merge: restore the merged riders from the snapshot and move their
+ * registrations, results and memberships back. Anything added to the target
+ * since the merge stays with the target.
+ */
+export async function unmergeRiders(mergeId: string): Promise<UnmergeRidersResult> {
+  const admin = await requireAdmin()
+
+  try {
+    const { data: response, error } = await getSupabaseAdmin().rpc('unmerge_riders', {
+      p_merge_id: mergeId,
+      p_unmerged_by: admin.id,
+    })
+
+    if (error) {
+      return handleSupabaseError(
+        error,
+        { operation: 'unmergeRiders', context: { mergeId } },
+        'Failed to undo merge'
+      )
+    }
 
-    if (updateRiderError) {
-      console.error('Error updating target rider:', updateRiderError)
-      return { success: false, error: 'Failed to update merged rider' }
+    const result = response as UnmergeRidersResponse | null
+    if (!result?.success || !result.target_rider_id) {
+      return { success: false, error: result?.error || 'Failed to undo merge' }
     }
 
+    const restoredRiderIds = result.restored_rider_ids ?? []
+
     await logAuditEvent({
       adminId: admin.id,
-      action: 'merge',
+      action: 'unmerge',
       entityType: 'rider',
-      entityId: targetRiderId,
-      description: `Merged ${sourceRiderIds.length} riders into: ${riderData.firstName} ${riderData.lastName}`,
+      entityId: result.target_rider_id,
+      description: `Undid merge: restored ${restoredRiderIds.length} rider${restoredRiderIds.length !== 1 ? 's' : ''}`,
     })
 
-    return {
-      success: true,
-      updatedRegistrationsCount: updatedRegistrations?.length || 0,
-      updatedResultsCount: updatedResults?.length || 0,
-      deletedRidersCount: ridersToDelete.length,
-    }
-  } catch (err) {
-    console.error('Error merging riders:', err)
-    return { success: false, error: 'An unexpected error occurred while merging riders' }
+    revalidatePath('/admin/riders')
+    revalidatePath(`/admin/riders/${result.target_rider_id}`)
+
+    return { success: true, restoredRiderIds }
+  } catch (error) {
+    return handleActionError(
+      error,
+      { operation: 'unmergeRiders', context: { mergeId } },
+      'An unexpected error occurred while undoing the merge'
+    )
   }
 }
 
@@ -6,6 +6,8 @@ import { requireAdmin } from '@/lib/auth/get-admin'
 import { createSlug } from '@/lib/utils'
 import { getUrlSlugFromDbSlug } from '@/lib/chapter-config'
 import { logAuditEvent } from '@/lib/audit-log'
+import { getRouteFileFormat, parseRouteFile } from '@/lib/routes/route-file'
+import { MAX_ROUTE_FILE_SIZE } from '@/lib/upload-limits'
 import { handleActionError, handleSupabaseError, createActionResult, logError } from '@/lib/errors'
 import type { ActionResult, MergeResult } from '@/types/actions'
 import type {
@@ -61,8 +63,24 @@ export interface RouteData {
   cueSheetUrl?: string | null
   notes?: string | null
   isActive?: boolean
+  routeFilePath?: string | null // From uploadRouteFile
+  elevationGainM?: number | null
 }
 
+export interface UploadedRouteFile {
+  path: string
+  url: string
+  distanceKm: number
+  elevationGainM: number | null
+  waypointCount: number
+}
+
+const ROUTE_FILES_BUCKET = 'route-files'
+const ROUTE_FILE_CONTENT_TYPES = {
+  gpx: 'application/gpx+xml',
+  tcx: 'application/vnd.garmin.tcx+xml',
+} as const
+
 /**
  * Extract RWGPS route ID from various URL formats:
  * - https://ridewithgps.com/routes/12345678
@@ -113,6 +131,8 @@ export async function createRoute(data: RouteData): Promise<ActionResult> {
     cueSheetUrl,
     notes,
     isActive,
+    routeFilePath,
+    elevationGainM,
   } = data
 
   if (!name?.trim()) {
@@ -133,6 +153,8 @@ export async function createRoute(data: RouteData): Promise<ActionResult> {
     cue_sheet_url: cueSheetUrl || null,
     notes: notes || null,
     is_active: isActive ?? true,
+    route_file_path: routeFilePath || null,
+    elevation_gain_m: elevationGainM ?? null,
   }
 
   const { error } = await getSupabaseAdmin().from('routes').insert(insertData)
@@ -201,6 +223,12 @@ export async function updateRoute(
   if (data.isActive !== undefined) {
     updateData.is_active = data.isActive
   }
+  if (data.routeFilePath !== undefined) {
+    updateData.route_file_path = data.routeFilePath || null
+  }
+  if (data.elevationGainM !== undefined) {
+    updateData.elevation_gain_m = data.elevationGainM
+  }
 
   const typedUpdateData: RouteUpdate = updateData
 
@@ -248,6 +276,74 @@ export async function updateRoute(
   return { success: true }
 }
 
+/**
+ * Upload a GPX or TCX route file to storage.
+ * The file is parsed first so only valid route files are kept. Save the
+ * returned path on the route with createRoute/updateRoute.
+ */
+export async function uploadRouteFile(
+  formData: FormData
+): Promise<ActionResult<UploadedRouteFile>> {
+  try {
+    await requireAdmin()
+
+    const file = formData.get('file') as File | null
+    if (!file) {
+      return { success: false, error: 'No file provided' }
+    }
+
+    const format = getRouteFileFormat(file.name)
+    if (!format) {
+      return { success: false, error: 'Route files must be GPX or TCX' }
+    }
+
+    if (file.size > MAX_ROUTE_FILE_SIZE) {
+      return {
+        success: false,
+        error: `File too large. Maximum size: ${MAX_ROUTE_FILE_SIZE / 1024 / 1024}MB`,
+      }
+    }
+
+    const text = await file.text()
+    const parsed = parseRouteFile(text)
+    if (parsed.error !== undefined) {
+      return { success: false, error: parsed.error }
+    }
+
+    const timestamp = Date.now()
+    const randomId = Math.random().toString(36).substring(2, 8)
+    const path = `${timestamp}-${randomId}.${format}`
+
+    const supabase = getSupabaseAdmin()
+    const { error: uploadError } = await supabase.storage
+      .from(ROUTE_FILES_BUCKET)
+      .upload(path, new TextEncoder().encode(text), {
+        contentType: ROUTE_FILE_CONTENT_TYPES[format],
+        upsert: false,
+      })
+
+    if (uploadError) {
+      return handleSupabaseError(
+        uploadError,
+        { operation: 'uploadRouteFile.storage' },
+        'Failed to upload route file'
+      )
+    }
+
+    const { data: urlData } = supabase.storage.from(ROUTE_FILES_BUCKET).getPublicUrl(path)
+
+    return createActionResult({
+      path,
+      url: urlData.publicUrl,
+      distanceKm: parsed.route.distanceKm,
+      elevationGainM: parsed.route.elevationGainM,
+      waypointCount: parsed.route.waypoints.length,
+    })
+  } catch (error) {
+    return handleActionError(error, { operation: 'uploadRouteFile' }, 'Failed to upload route file')
+  }
+}
+
 export async function deleteRoute(routeId: string): Promise<ActionResult> {
   const admin = await requireAdmin()
 
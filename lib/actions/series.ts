@@ -0,0 +1,139 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { requireAdmin } from '@/lib/auth/get-admin'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logAuditEvent } from '@/lib/audit-log'
+import { updateSeriesAwards } from '@/lib/awards/engine'
+import { createSlug } from '@/lib/utils'
+import { handleActionError, handleSupabaseError, createActionResult } from '@/lib/errors'
+import type { ActionResult } from '@/types/actions'
+import type { EventSeriesInsert } from '@/types/queries'
+
+export interface SeriesData {
+  name: string
+  season: number
+  description?: string | null // Markdown, shown on the series page
+  collection?: string | null // Groups editions on the results pages, e.g. 'granite-anvil'
+  awardId?: string | null // Granted automatically when a rider completes the series
+  requiredDistances: number[] // One finished event of at least each distance
+  minEvents: number // Minimum finished events overall
+}
+
+function validateSeriesData(data: SeriesData): string | null {
+  if (!data.name.trim()) {
+    return 'Series name is required'
+  }
+  if (!Number.isInteger(data.season) || data.season < 1900) {
+    return 'Season must be a year'
+  }
+  if (data.requiredDistances.some((km) => !Number.isInteger(km) || km <= 0)) {
+    return 'Required distances must be whole numbers of kilometres'
+  }
+  if (!Number.isInteger(data.minEvents) || data.minEvents < 1) {
+    return 'Minimum events must be at least 1'
+  }
+  return null
+}
+
+function toSeriesRow(data: SeriesData): Omit<EventSeriesInsert, 'slug'> {
+  return {
+    name: data.name.trim(),
+    season: data.season,
+    description: data.description?.trim() || null,
+    collection: data.collection?.trim() || null,
+    award_id: data.awardId || null,
+    required_distances: [...data.requiredDistances].sort((a, b) => a - b),
+    min_events: data.minEvents,
+  }
+}
+
+export async function createSeries(data: SeriesData): Promise<ActionResult<{ id: string }>> {
+  try {
+    const admin = await requireAdmin()
+
+    const validationError = validateSeriesData(data)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    // e.g. "Devil Week 2026" → devil-week-2026 (the year is added if the name lacks it)
+    const name = data.name.trim()
+    const slug = createSlug(name.includes(String(data.season)) ? name : `${name} ${data.season}`)
+
+    const { data: series, error } = await getSupabaseAdmin()
+      .from('event_series')
+      .insert({ ...toSeriesRow(data), slug })
+      .select('id')
+      .single()
+
+    if (error || !series) {
+      return handleSupabaseError(
+        error,
+        { operation: 'createSeries', userMessage: 'A series with this name already exists' },
+        'Failed to create series'
+      )
+    }
+
+    revalidatePath('/admin/series')
+    revalidateTag('series', 'max')
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'create',
+      entityType: 'series',
+      entityId: series.id,
+      description: `Created series: ${data.name}`,
+    })
+
+    return createActionResult({ id: series.id })
+  } catch (error) {
+    return handleActionError(error, { operation: 'createSeries' }, 'Failed to create series')
+  }
+}
+
+/**
+ * Update a series. Its completion rule or award may have changed, so the
+ * series award is re-evaluated for everyone with a result in it.
+ */
+export async function updateSeries(seriesId: string, data: SeriesData): Promise<ActionResult> {
+  try {
+    const admin = await requireAdmin()
+
+    const validationError = validateSeriesData(data)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const { data: series, error } = await getSupabaseAdmin()
+      .from('event_series')
+      .update(toSeriesRow(data))
+      .eq('id', seriesId)
+      .select('slug')
+      .single()
+
+    if (error || !series) {
+      return handleSupabaseError(error, { operation: 'updateSeries' }, 'Failed to update series')
+    }
+
+    await updateSeriesAwards(seriesId)
+
+    revalidatePath('/admin/series')
+    revalidatePath(`/admin/series/${seriesId}`)
+    revalidateTag('series', 'max')
+    revalidateTag(`series-${series.slug}`, 'max')
+    revalidateTag('results', 'max')
+
+    await logAuditEvent({
+      adminId: admin.id,
+      action: 'update',
+      entityType: 'series',
+      entityId: seriesId,
+      description: `Updated series: ${data.name}`,
+    })
+
+    return createActionResult()
+  } catch (error) {
+    return handleActionError(error, { operation: 'updateSeries' }, 'Failed to update series')
+  }
+}
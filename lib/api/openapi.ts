@@ -0,0 +1,361 @@
+/**
+ * OpenAPI document for the public API, served at /api/v1/openapi.json.
+ * Keep it in step with the handlers in app/api/v1 and the shapes in
+ * lib/api/serialize.ts.
+ */
+import { getAllChapterSlugs, getAllResultsChapterSlugs } from '@/lib/chapter-config'
+import { getSiteUrl } from '@/lib/site-url'
+import { DEFAULT_PER_PAGE, MAX_PER_PAGE } from './pagination'
+import { RATE_LIMIT_PER_MINUTE } from './rate-limit'
+
+const nullable = (type: string) => ({ type: [type, 'null'] })
+
+const pageParams = [
+  {
+    name: 'page',
+    in: 'query',
+    schema: { type: 'integer', minimum: 1, default: 1 },
+  },
+  {
+    name: 'per_page',
+    in: 'query',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_PER_PAGE, default: DEFAULT_PER_PAGE },
+  },
+]
+
+const slugParam = { name: 'slug', in: 'path', required: true, schema: { type: 'string' } }
+
+const seasonParam = {
+  name: 'season',
+  in: 'query',
+  schema: { type: 'integer', example: 2025 },
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+})
+
+const standardResponses = {
+  '304': { description: 'Not modified (the If-None-Match ETag is current)' },
+  '400': errorResponse('Invalid query parameters'),
+  '429': errorResponse(`Rate limited (${RATE_LIMIT_PER_MINUTE} requests per minute per IP)`),
+}
+
+const listResponse = (schema: string) => ({
+  description: 'OK',
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['data', 'pagination'],
+        properties: {
+          data: { type: 'array', items: { $ref: `#/components/schemas/${schema}` } },
+          pagination: { $ref: '#/components/schemas/Pagination' },
+        },
+      },
+    },
+  },
+})
+
+const itemResponse = (schema: string) => ({
+  description: 'OK',
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['data'],
+        properties: { data: { $ref: `#/components/schemas/${schema}` } },
+      },
+    },
+  },
+})
+
+const chapterSchema = {
+  type: 'object',
+  properties: { slug: { type: 'string' }, name: { type: 'string' } },
+}
+
+export function getOpenApiDocument() {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Randonneurs Ontario API',
+      version: '1.0.0',
+      description:
+        'Read-only access to the Randonneurs Ontario calendar, routes and results. ' +
+        'Responses carry an ETag; send it back in If-None-Match to get 304 Not Modified. ' +
+        `Requests are limited to ${RATE_LIMIT_PER_MINUTE} per minute per IP.`,
+    },
+    servers: [{ url: `${getSiteUrl()}/api/v1` }],
+    paths: {
+      '/events': {
+        get: {
+          summary: 'List events',
+          description: 'Events between two dates, oldest first. Defaults to the next year.',
+          parameters: [
+            {
+              name: 'chapter',
+              in: 'query',
+              schema: { type: 'string', enum: getAllChapterSlugs() },
+            },
+            {
+              name: 'from',
+              in: 'query',
+              description: 'First date (default today)',
+              schema: { type: 'string', format: 'date' },
+            },
+            {
+              name: 'to',
+              in: 'query',
+              description: 'Last date; at most 366 days after from',
+              schema: { type: 'string', format: 'date' },
+            },
+            {
+              name: 'type',
+              in: 'query',
+              schema: { type: 'string', enum: ['brevet', 'populaire', 'fleche', 'permanent'] },
+            },
+            ...pageParams,
+          ],
+          responses: { '200': listResponse('Event'), ...standardResponses },
+        },
+      },
+      '/events/{slug}': {
+        get: {
+          summary: 'Get an event',
+          description:
+            'Event detail with registered riders. Riders who chose not to share their registration are listed as "Anonymous".',
+          parameters: [slugParam],
+          responses: {
+            '200': itemResponse('EventDetail'),
+            '404': errorResponse('Event not found'),
+            ...standardResponses,
+          },
+        },
+      },
+      '/routes': {
+        get: {
+          summary: 'List routes',
+          description: 'Active routes, by name.',
+          parameters: [
+            {
+              name: 'chapter',
+              in: 'query',
+              schema: { type: 'string', enum: getAllChapterSlugs() },
+            },
+            ...pageParams,
+          ],
+          responses: { '200': listResponse('Route'), ...standardResponses },
+        },
+      },
+      '/routes/{slug}': {
+        get: {
+          summary: 'Get a route',
+          description: 'Route detail with its controls in order.',
+          parameters: [slugParam],
+          responses: {
+            '200': itemResponse('RouteDetail'),
+            '404': errorResponse('Route not found'),
+            ...standardResponses,
+          },
+        },
+      },
+      '/results': {
+        get: {
+          summary: 'List results',
+          description: "A season's results by event, oldest first.",
+          parameters: [
+            { ...seasonParam, required: true },
+            {
+              name: 'chapter',
+              in: 'query',
+              description: 'Results chapter or collection; all chapters when omitted',
+              schema: { type: 'string', enum: getAllResultsChapterSlugs() },
+            },
+            ...pageParams,
+          ],
+          responses: { '200': listResponse('EventResults'), ...standardResponses },
+        },
+      },
+      '/riders/{slug}/results': {
+        get: {
+          summary: "Get a rider's results",
+          description: 'Results by season, most recent first.',
+          parameters: [slugParam, seasonParam],
+          responses: {
+            '200': itemResponse('RiderResults'),
+            '404': errorResponse('Rider not found'),
+            ...standardResponses,
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: { error: { type: 'string' } },
+        },
+        Pagination: {
+          type: 'object',
+          properties: {
+            page: { type: 'integer' },
+            perPage: { type: 'integer' },
+            total: { type: 'integer' },
+            totalPages: { type: 'integer' },
+          },
+        },
+        Chapter: chapterSchema,
+        Event: {
+          type: 'object',
+          properties: {
+            id: nullable('string'),
+            slug: { type: 'string' },
+            name: { type: 'string' },
+            date: { type: 'string', format: 'date' },
+            startTime: { type: 'string', description: 'HH:MM, Toronto time' },
+            startLocation: { type: 'string' },
+            distanceKm: { type: 'number' },
+            type: { type: 'string', enum: ['brevet', 'populaire', 'fleche', 'permanent'] },
+            status: {
+              type: 'string',
+              enum: ['scheduled', 'cancelled', 'completed', 'submitted'],
+            },
+            chapter: { $ref: '#/components/schemas/Chapter' },
+            registeredCount: { type: 'integer' },
+            url: { type: 'string', format: 'uri' },
+          },
+        },
+        EventDetail: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            slug: { type: 'string' },
+            name: { type: 'string' },
+            date: { type: 'string', format: 'date' },
+            startTime: { type: 'string' },
+            startLocation: { type: 'string' },
+            distanceKm: { type: 'number' },
+            type: { type: 'string' },
+            chapter: { $ref: '#/components/schemas/Chapter' },
+            description: { ...nullable('string'), description: 'Markdown' },
+            maxRiders: nullable('integer'),
+            registrationOpensAt: { ...nullable('string'), format: 'date-time' },
+            registrationClosesAt: { ...nullable('string'), format: 'date-time' },
+            route: {
+              type: ['object', 'null'],
+              properties: {
+                slug: { type: 'string' },
+                rwgpsUrl: nullable('string'),
+                cueSheetUrl: nullable('string'),
+              },
+            },
+            registeredRiders: {
+              type: 'array',
+              items: { type: 'object', properties: { name: { type: 'string' } } },
+            },
+            url: { type: 'string', format: 'uri' },
+          },
+        },
+        Route: {
+          type: 'object',
+          properties: {
+            slug: { type: 'string' },
+            name: { type: 'string' },
+            distanceKm: nullable('number'),
+            chapter: { oneOf: [{ $ref: '#/components/schemas/Chapter' }, { type: 'null' }] },
+            url: nullable('string'),
+          },
+        },
+        RouteDetail: {
+          type: 'object',
+          properties: {
+            slug: { type: 'string' },
+            name: { type: 'string' },
+            distanceKm: nullable('number'),
+            description: nullable('string'),
+            rwgpsUrl: nullable('string'),
+            chapter: { oneOf: [{ $ref: '#/components/schemas/Chapter' }, { type: 'null' }] },
+            controls: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  distanceKm: { type: 'number' },
+                  address: nullable('string'),
+                  type: { type: 'string' },
+                },
+              },
+            },
+            url: nullable('string'),
+          },
+        },
+        ResultEntry: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            riderSlug: nullable('string'),
+            status: { type: 'string', enum: ['finished', 'dnf', 'dns', 'otl', 'dq'] },
+            time: { ...nullable('string'), description: 'H:MM elapsed, finished riders only' },
+          },
+        },
+        EventResults: {
+          type: 'object',
+          properties: {
+            eventId: nullable('string'),
+            name: { type: 'string' },
+            date: { type: 'string', format: 'date' },
+            distanceKm: { type: 'number' },
+            chapter: { type: 'string' },
+            routeSlug: nullable('string'),
+            results: { type: 'array', items: { $ref: '#/components/schemas/ResultEntry' } },
+          },
+        },
+        RiderResults: {
+          type: 'object',
+          properties: {
+            rider: {
+              type: 'object',
+              properties: {
+                slug: { type: 'string' },
+                firstName: { type: 'string' },
+                lastName: { type: 'string' },
+                riderNumber: nullable('integer'),
+              },
+            },
+            seasons: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  season: { type: 'integer' },
+                  completedCount: { type: 'integer' },
+                  totalDistanceKm: { type: 'number' },
+                  results: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        date: { type: 'string', format: 'date' },
+                        eventName: { type: 'string' },
+                        distanceKm: { type: 'number' },
+                        eventType: { type: 'string' },
+                        chapter: nullable('string'),
+                        status: { type: 'string' },
+                        time: nullable('string'),
+                        awards: { type: 'array', items: { type: 'string' } },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Pagination for the public API: ?page=2&per_page=50
+ */
+
+export const DEFAULT_PER_PAGE = 50
+export const MAX_PER_PAGE = 200
+
+export interface PageRequest {
+  page: number
+  perPage: number
+}
+
+export interface PageInfo {
+  page: number
+  perPage: number
+  total: number
+  totalPages: number
+}
+
+export interface Paginated<T> {
+  data: T[]
+  pagination: PageInfo
+}
+
+function parsePositiveInt(value: string | null): number | null {
+  if (value === null) return null
+  return /^\d+$/.test(value) && parseInt(value, 10) > 0 ? parseInt(value, 10) : NaN
+}
+
+/**
+ * Read page and per_page from the query string. Returns an error message for
+ * values that aren't positive whole numbers or are over MAX_PER_PAGE.
+ */
+export function parsePageRequest(searchParams: URLSearchParams): PageRequest | { error: string } {
+  const page = parsePositiveInt(searchParams.get('page')) ?? 1
+  const perPage = parsePositiveInt(searchParams.get('per_page')) ?? DEFAULT_PER_PAGE
+
+  if (Number.isNaN(page)) {
+    return { error: 'page must be a positive whole number' }
+  }
+  if (Number.isNaN(perPage) || perPage > MAX_PER_PAGE) {
+    return { error: `per_page must be a whole number from 1 to ${MAX_PER_PAGE}` }
+  }
+  return { page, perPage }
+}
+
+/**
+ * Slice one page out of a full list.
+ */
+export function paginate<T>(items: T[], { page, perPage }: PageRequest): Paginated<T> {
+  const start = (page - 1) * perPage
+  return {
+    data: items.slice(start, start + perPage),
+    pagination: {
+      page,
+      perPage,
+      total: items.length,
+      totalPages: Math.ceil(items.length / perPage),
+    },
+  }
+}
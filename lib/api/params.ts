@@ -0,0 +1,35 @@
+/**
+ * Query string parsing for the public API
+ */
+import { isValid, parseISO } from 'date-fns'
+
+/**
+ * A YYYY-MM-DD date parameter: null when absent, an error for bad values.
+ */
+export function parseDateParam(
+  searchParams: URLSearchParams,
+  name: string
+): string | null | { error: string } {
+  const value = searchParams.get(name)
+  if (value === null) return null
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !isValid(parseISO(value))) {
+    return { error: `${name} must be a date in YYYY-MM-DD format` }
+  }
+  return value
+}
+
+/**
+ * A season (year) parameter: null when absent, an error for bad values.
+ */
+export function parseSeasonParam(searchParams: URLSearchParams): number | null | { error: string } {
+  const value = searchParams.get('season')
+  if (value === null) return null
+  if (!/^\d{4}$/.test(value)) {
+    return { error: 'season must be a year, e.g. 2025' }
+  }
+  return parseInt(value, 10)
+}
+
+export function isParamError(value: unknown): value is { error: string } {
+  return typeof value === 'object' && value !== null && 'error' in value
+}
@@ -0,0 +1,65 @@
+/**
+ * Rate limiting for the public API
+ *
+ * Fixed one-minute windows per client IP, counted in memory. Each server
+ * instance keeps its own counts, so this is a guard against runaway scripts
+ * rather than an exact quota.
+ */
+
+export const RATE_LIMIT_PER_MINUTE = 60
+
+const WINDOW_MS = 60_000
+
+// Windows are dropped once this many clients are tracked and theirs has ended
+const MAX_TRACKED_CLIENTS = 10_000
+
+export interface RateLimitStatus {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: number // Epoch ms when the window ends
+}
+
+const windows = new Map<string, { count: number; resetAt: number }>()
+
+function pruneExpired(now: number) {
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) windows.delete(key)
+  }
+}
+
+/**
+ * Count a request from a client and report whether it's within the limit.
+ */
+export function checkRateLimit(key: string, now: number = Date.now()): RateLimitStatus {
+  let window = windows.get(key)
+  if (!window || window.resetAt <= now) {
+    if (windows.size >= MAX_TRACKED_CLIENTS) pruneExpired(now)
+    window = { count: 0, resetAt: now + WINDOW_MS }
+    windows.set(key, window)
+  }
+
+  window.count++
+  return {
+    allowed: window.count <= RATE_LIMIT_PER_MINUTE,
+    limit: RATE_LIMIT_PER_MINUTE,
+    remaining: Math.max(0, RATE_LIMIT_PER_MINUTE - window.count),
+    resetAt: window.resetAt,
+  }
+}
+
+/**
+ * The client's IP from the proxy headers, or "unknown" when there are none.
+ */
+export function getClientIp(request: Request): string {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) return forwardedFor.split(',')[0].trim()
+  return request.headers.get('x-real-ip') || 'unknown'
+}
+
+/**
+ * Forget all counts (tests).
+ */
+export function resetRateLimits() {
+  windows.clear()
+}
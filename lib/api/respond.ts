@@ -0,0 +1,97 @@
+/**
+ * Responses for the public API (app/api/v1)
+ *
+ * apiRoute() wraps each route handler with rate limiting, error logging and
+ * CORS headers. apiJson() sends a cacheable JSON body with an ETag, answering
+ * 304 Not Modified when the client already has it.
+ */
+import { createHash } from 'crypto'
+import { NextResponse } from 'next/server'
+import { logError } from '@/lib/errors'
+import { checkRateLimit, getClientIp, type RateLimitStatus } from './rate-limit'
+
+// Browsers and the CDN may reuse a response for this long
+const CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=3600'
+
+/**
+ * JSON error body, e.g. { "error": "Event not found" }.
+ */
+export function apiError(status: number, message: string): NextResponse {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Weak ETag for a response body.
+ */
+export function getETag(body: string): string {
+  return `W/"${createHash('sha1').update(body).digest('base64url')}"`
+}
+
+/**
+ * Whether an If-None-Match header matches the ETag.
+ */
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false
+  if (ifNoneMatch.trim() === '*') return true
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '')
+  return ifNoneMatch.split(',').some((tag) => normalize(tag) === normalize(etag))
+}
+
+/**
+ * Send a JSON body with an ETag, or 304 if the client's copy is current.
+ */
+export function apiJson(request: Request, body: unknown): NextResponse {
+  const json = JSON.stringify(body)
+  const etag = getETag(json)
+  const headers = { ETag: etag, 'Cache-Control': CACHE_CONTROL }
+
+  if (matchesETag(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  return new NextResponse(json, {
+    headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+  })
+}
+
+function setRateLimitHeaders(response: NextResponse, status: RateLimitStatus) {
+  response.headers.set('X-RateLimit-Limit', String(status.limit))
+  response.headers.set('X-RateLimit-Remaining', String(status.remaining))
+  response.headers.set('X-RateLimit-Reset', String(Math.ceil(status.resetAt / 1000)))
+}
+
+/**
+ * Wrap a public API route handler.
+ */
+export function apiRoute<Context>(
+  operation: string,
+  handler: (request: Request, context: Context) => Promise<NextResponse>
+): (request: Request, context: Context) => Promise<NextResponse> {
+  return async (request, context) => {
+    const rateLimit = checkRateLimit(getClientIp(request))
+
+    let response: NextResponse
+    if (!rateLimit.allowed) {
+      response = apiError(429, 'Too many requests. Please slow down.')
+      response.headers.set(
+        'Retry-After',
+        String(Math.max(1, Math.ceil((rateLimit.resetAt - Date.now()) / 1000)))
+      )
+    } else {
+      try {
+        response = await handler(request, context)
+      } catch (error) {
+        logError(error, { operation, context: { url: request.url } })
+        response = apiError(500, 'Internal server error')
+      }
+    }
+
+    setRateLimitHeaders(response, rateLimit)
+    response.headers.set('Access-Control-Allow-Origin', '*')
+    response.headers.set(
+      'Access-Control-Expose-Headers',
+      'ETag, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset'
+    )
+    return response
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Public API shapes (app/api/v1)
+ *
+ * Converts the lib/data types used by the pages into the versioned API
+ * format. Field names here are part of the v1 contract: add fields freely,
+ * but rename or remove them only in a new version.
+ */
+import { getSiteUrl } from '@/lib/site-url'
+import type { EventDetails, EventListing, RegisteredRider } from '@/lib/data/events'
+import type { ActiveRoute, RouteDetail } from '@/lib/data/routes'
+import type { EventResult, RiderInfo, RiderYearResults } from '@/lib/data/results'
+import type { ControlDefinition } from '@/types/control-card'
+
+export interface ApiChapter {
+  slug: string
+  name: string
+}
+
+export interface ApiEvent {
+  id: string | null
+  slug: string
+  name: string
+  date: string // YYYY-MM-DD
+  startTime: string // HH:MM, Toronto time
+  startLocation: string
+  distanceKm: number
+  type: string // brevet, populaire, fleche or permanent
+  status: string
+  chapter: ApiChapter
+  registeredCount: number
+  url: string
+}
+
+export interface ApiEventDetail extends Omit<ApiEvent, 'status' | 'registeredCount'> {
+  description: string | null // Markdown
+  maxRiders: number | null
+  registrationOpensAt: string | null // ISO timestamp
+  registrationClosesAt: string | null
+  route: { slug: string; rwgpsUrl: string | null; cueSheetUrl: string | null } | null
+  // Riders who chose not to share their registration are listed as "Anonymous"
+  registeredRiders: Array<{ name: string }>
+}
+
+export interface ApiRoute {
+  slug: string
+  name: string
+  distanceKm: number | null
+  chapter: ApiChapter | null
+  url: string | null
+}
+
+export interface ApiControl {
+  name: string
+  distanceKm: number
+  address: string | null
+  type: string
+}
+
+export interface ApiRouteDetail extends Omit<ApiRoute, 'chapter'> {
+  description: string | null
+  rwgpsUrl: string | null
+  chapter: ApiChapter | null
+  controls: ApiControl[]
+}
+
+export interface ApiResultEntry {
+  name: string
+  riderSlug: string | null
+  status: string // finished, dnf, dns, otl or dq
+  time: string | null // H:MM elapsed, finished riders only
+}
+
+export interface ApiEventResults {
+  eventId: string | null
+  name: string
+  date: string
+  distanceKm: number
+  chapter: string // Results chapter slug, e.g. "toronto" or "permanent"
+  routeSlug: string | null
+  results: ApiResultEntry[]
+}
+
+export interface ApiRiderResults {
+  rider: { slug: string; firstName: string; lastName: string; riderNumber: number | null }
+  seasons: Array<{
+    season: number
+    completedCount: number
+    totalDistanceKm: number
+    results: Array<{
+      date: string
+      eventName: string
+      distanceKm: number
+      eventType: string
+      chapter: string | null
+      status: string
+      time: string | null
+      awards: string[]
+    }>
+  }>
+}
+
+function getRwgpsUrl(rwgpsId: string | null): string | null {
+  return rwgpsId ? `https://ridewithgps.com/routes/${rwgpsId}` : null
+}
+
+export function toApiEvent(event: EventListing): ApiEvent {
+  return {
+    id: event.id ?? null,
+    slug: event.slug,
+    name: event.name,
+    date: event.date,
+    startTime: event.startTime,
+    startLocation: event.startLocation,
+    distanceKm: Number(event.distance),
+    type: event.type.toLowerCase(),
+    status: event.status,
+    chapter: { slug: event.chapterSlug, name: event.chapterName ?? '' },
+    registeredCount: event.registeredCount ?? 0,
+    url: `${getSiteUrl()}/register/${event.slug}`,
+  }
+}
+
+export function toApiEventDetail(event: EventDetails, riders: RegisteredRider[]): ApiEventDetail {
+  return {
+    id: event.id,
+    slug: event.slug,
+    name: event.name,
+    date: event.date,
+    startTime: event.startTime,
+    startLocation: event.startLocation,
+    distanceKm: event.distance,
+    type: event.type.toLowerCase(),
+    chapter: { slug: event.chapterSlug, name: event.chapterName },
+    description: event.description,
+    maxRiders: event.maxRiders,
+    registrationOpensAt: event.registrationOpensAt,
+    registrationClosesAt: event.registrationClosesAt,
+    route: event.routeSlug
+      ? {
+          slug: event.routeSlug,
+          rwgpsUrl: getRwgpsUrl(event.rwgpsId),
+          cueSheetUrl: event.cueSheetUrl,
+        }
+      : null,
+    registeredRiders: riders.map((rider) => ({ name: rider.name })),
+    url: `${getSiteUrl()}/register/${event.slug}`,
+  }
+}
+
+export function toApiRoute(route: ActiveRoute): ApiRoute {
+  return {
+    slug: route.slug,
+    name: route.name,
+    distanceKm: route.distanceKm,
+    chapter:
+      route.chapterSlug && route.chapterName
+        ? { slug: route.chapterSlug, name: route.chapterName }
+        : null,
+    url: route.chapterSlug ? `${getSiteUrl()}/routes/${route.chapterSlug}/${route.slug}` : null,
+  }
+}
+
+export function toApiRouteDetail(
+  route: RouteDetail,
+  controls: ControlDefinition[]
+): ApiRouteDetail {
+  return {
+    slug: route.slug,
+    name: route.name,
+    distanceKm: route.distanceKm,
+    description: route.description,
+    rwgpsUrl: getRwgpsUrl(route.rwgpsId),
+    chapter: route.chapterSlug ? { slug: route.chapterSlug, name: route.chapterName } : null,
+    controls: controls.map((control) => ({
+      name: control.name,
+      distanceKm: control.distance,
+      address: control.address,
+      type: control.controlType,
+    })),
+    url: route.chapterSlug ? `${getSiteUrl()}/routes/${route.chapterSlug}/${route.slug}` : null,
+  }
+}
+
+/**
+ * The results pages show a finish time or a status label (DNF, DNS, …) in
+ * one column; the API splits them back out.
+ */
+export function toApiResultEntry(time: string): Pick<ApiResultEntry, 'status' | 'time'> {
+  if (/^\d+:\d{2}$/.test(time)) return { status: 'finished', time }
+  return { status: time.toLowerCase(), time: null }
+}
+
+export function toApiEventResults(event: EventResult, chapter: string): ApiEventResults {
+  return {
+    eventId: event.id ?? null,
+    name: event.name,
+    date: event.date,
+    distanceKm: Number(event.distance),
+    chapter,
+    routeSlug: event.routeSlug,
+    results: event.riders.map((rider) => ({
+      name: rider.name,
+      riderSlug: rider.slug,
+      ...toApiResultEntry(rider.time),
+    })),
+  }
+}
+
+export function toApiRiderResults(rider: RiderInfo, years: RiderYearResults[]): ApiRiderResults {
+  return {
+    rider: {
+      slug: rider.slug,
+      firstName: rider.firstName,
+      lastName: rider.lastName,
+      riderNumber: rider.riderNumber,
+    },
+    seasons: years.map((year) => ({
+      season: year.year,
+      completedCount: year.completedCount,
+      totalDistanceKm: year.totalDistanceKm,
+      results: year.results.map((result) => ({
+        date: result.date,
+        eventName: result.eventName,
+        distanceKm: result.distanceKm,
+        eventType: result.eventType,
+        chapter: result.chapterSlug,
+        status: result.status ?? 'pending',
+        time: result.status === 'finished' ? result.time : null,
+        awards: result.awards.map((award) => award.title),
+      })),
+    })),
+  }
+}
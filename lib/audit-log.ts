@@ -1,6 +1,14 @@
 import { getSupabaseAdmin } from '@/lib/supabase-server'
 
-export type AuditAction = 'create' | 'update' | 'delete' | 'status_change' | 'merge' | 'submit'
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'status_change'
+  | 'merge'
+  | 'unmerge'
+  | 'submit'
+  | 'anonymize'
 export type AuditEntityType =
   | 'event'
   | 'route'
@@ -9,9 +17,16 @@ export type AuditEntityType =
   | 'page'
   | 'admin_user'
   | 'news'
+  | 'registration'
+  | 'chapter'
+  | 'membership'
+  | 'award'
+  | 'series'
+  | 'email'
 
 interface AuditLogParams {
-  adminId: string
+  /** Null when a rider made the change through a self-service link */
+  adminId: string | null
   action: AuditAction
   entityType: AuditEntityType
   entityId?: string | null
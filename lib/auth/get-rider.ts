@@ -0,0 +1,87 @@
+import { redirect } from 'next/navigation'
+import { createSupabaseServerClient } from '@/lib/supabase-server-client'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import type { RiderAccount } from '@/types/queries'
+
+const RIDER_ACCOUNT_COLUMNS =
+  'id, slug, first_name, last_name, email, gender, emergency_contact_name, emergency_contact_phone, profile_visibility, exclude_from_records'
+
+export interface RiderSession {
+  userId: string
+  email: string
+  /** Null until the email has been used to register */
+  rider: RiderAccount | null
+}
+
+/**
+ * Get the signed-in rider (magic link session). Admin sessions never count as
+ * riders. The first time a rider signs in, their auth user is linked to the
+ * rider record with the same email.
+ */
+export async function getRiderSession(): Promise<RiderSession | null> {
+  const supabase = await createSupabaseServerClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user?.email) {
+    return null
+  }
+
+  const db = getSupabaseAdmin()
+
+  const { data: admin } = await db.from('admins').select('id').eq('id', user.id).maybeSingle()
+  if (admin) {
+    return null
+  }
+
+  const email = user.email.toLowerCase()
+
+  const { data: linked } = await db
+    .from('riders')
+    .select(RIDER_ACCOUNT_COLUMNS)
+    .eq('auth_user_id', user.id)
+    .maybeSingle()
+
+  if (linked) {
+    return { userId: user.id, email, rider: linked }
+  }
+
+  // Not linked yet: claim the oldest unlinked rider with this email
+  const { data: unlinked } = await db
+    .from('riders')
+    .select('id')
+    .eq('email', email)
+    .is('auth_user_id', null)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (!unlinked) {
+    return { userId: user.id, email, rider: null }
+  }
+
+  const { data: rider } = await db
+    .from('riders')
+    .update({ auth_user_id: user.id })
+    .eq('id', unlinked.id)
+    .is('auth_user_id', null)
+    .select(RIDER_ACCOUNT_COLUMNS)
+    .maybeSingle()
+
+  return { userId: user.id, email, rider }
+}
+
+export async function getRider(): Promise<RiderAccount | null> {
+  const session = await getRiderSession()
+  return session?.rider ?? null
+}
+
+export async function requireRiderSession(): Promise<RiderSession> {
+  const session = await getRiderSession()
+  if (!session) {
+    redirect('/account/login')
+  }
+  return session
+}
@@ -0,0 +1,522 @@
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logError } from '@/lib/errors'
+import { parseFinishTimeToMinutes } from '@/lib/utils'
+import {
+  ENGINE_AWARD_SLUGS,
+  diffAwards,
+  evaluateAwards,
+  planCourseRecord,
+  planFirstBrevet,
+  type AwardResult,
+  type AwardSlug,
+  type CourseRecordPlan,
+  type StoredAward,
+} from '@/lib/awards/rules'
+import { planSeriesAward, type SeriesResult } from '@/lib/series/completion'
+
+const FIRST_BREVET_SLUG = 'first-brevet'
+const COURSE_RECORD_SLUG = 'course-record'
+
+interface RiderResultForAwards {
+  id: string
+  status: string | null
+  distance_km: number
+  events: {
+    event_date: string
+    event_type: string
+    chapters: { slug: string } | null
+  }
+}
+
+interface RouteResultForRecord {
+  id: string
+  rider_id: string
+  status: string | null
+  finish_time: string | null
+  events: { event_date: string }
+}
+
+interface SeriesForAwards {
+  award_id: string | null
+  required_distances: number[]
+  min_events: number
+  events: Array<{
+    event_date: string
+    distance_km: number
+    results: Array<{ id: string; rider_id: string; status: string | null }>
+  }>
+}
+
+interface EventForBrevetChapters {
+  event_date: string
+  chapters: { slug: string } | null
+}
+
+export interface AwardEvaluation {
+  queued: number
+  revoked: number
+}
+
+async function getAwardId(slug: string): Promise<string | null> {
+  const { data } = await getSupabaseAdmin().from('awards').select('id').eq('slug', slug).single()
+  return data?.id ?? null
+}
+
+/**
+ * Years an award change can affect when a result in `season` changes.
+ * O-12 runs can finish in the following year.
+ */
+export function getAwardYears(season: number): number[] {
+  return [season, season + 1]
+}
+
+async function getBrevetChaptersByYear(years: number[]): Promise<Map<number, Set<string>>> {
+  const { data } = await getSupabaseAdmin()
+    .from('events')
+    .select('event_date, chapters (slug)')
+    .eq('event_type', 'brevet')
+    .neq('status', 'cancelled')
+    .gte('event_date', `${Math.min(...years)}-01-01`)
+    .lte('event_date', `${Math.max(...years)}-12-31`)
+
+  const byYear = new Map<number, Set<string>>()
+  for (const event of (data ?? []) as EventForBrevetChapters[]) {
+    if (!event.chapters) continue
+    const year = parseInt(event.event_date.slice(0, 4), 10)
+    const chapters = byYear.get(year) ?? new Set<string>()
+    chapters.add(event.chapters.slug)
+    byYear.set(year, chapters)
+  }
+  return byYear
+}
+
+/**
+ * Move or add a rider's First Brevet so it sits on their earliest finished
+ * brevet. Applied directly, without the publish queue.
+ */
+async function assignFirstBrevet(riderId: string, results: AwardResult[]): Promise<void> {
+  const supabase = getSupabaseAdmin()
+
+  const awardId = await getAwardId(FIRST_BREVET_SLUG)
+  if (!awardId || results.length === 0) return
+
+  const { data: stored } = await supabase
+    .from('result_awards')
+    .select('result_id')
+    .eq('award_id', awardId)
+    .in(
+      'result_id',
+      results.map((r) => r.id)
+    )
+
+  const { attach, revoke } = planFirstBrevet(
+    results,
+    (stored ?? []).map((row) => row.result_id)
+  )
+
+  if (revoke.length > 0) {
+    const { error } = await supabase
+      .from('result_awards')
+      .delete()
+      .eq('award_id', awardId)
+      .in('result_id', revoke)
+    if (error) throw error
+  }
+
+  if (attach) {
+    const { error } = await supabase
+      .from('result_awards')
+      .upsert(
+        { result_id: attach, award_id: awardId },
+        { onConflict: 'result_id,award_id', ignoreDuplicates: true }
+      )
+    if (error) throw error
+  }
+}
+
+/**
+ * Re-evaluate a rider's computed awards for the given years.
+ *
+ * Awards the rider no longer qualifies for are removed from result_awards
+ * straight away. Newly earned awards are queued in pending_awards for an admin
+ * to publish. First Brevet is assigned directly. Best-effort: errors are
+ * logged and null returned so result actions never fail because of awards.
+ */
+export async function evaluateRiderAwards(
+  riderId: string,
+  years: number[]
+): Promise<AwardEvaluation | null> {
+  try {
+    const supabase = getSupabaseAdmin()
+
+    const [{ data: resultRows, error: resultsError }, { data: awardRows }, brevetChapters] =
+      await Promise.all([
+        supabase
+          .from('results')
+          .select('id, status, distance_km, events!inner (event_date, event_type, chapters (slug))')
+          .eq('rider_id', riderId),
+        supabase.from('awards').select('id, slug').in('slug', ENGINE_AWARD_SLUGS),
+        getBrevetChaptersByYear(years),
+      ])
+
+    if (resultsError) throw resultsError
+
+    const results: AwardResult[] = ((resultRows ?? []) as RiderResultForAwards[]).map((r) => ({
+      id: r.id,
+      status: r.status,
+      distanceKm: r.distance_km,
+      eventDate: r.events.event_date,
+      eventType: r.events.event_type,
+      chapterSlug: r.events.chapters?.slug ?? null,
+    }))
+
+    await assignFirstBrevet(riderId, results)
+
+    const awards = awardRows ?? []
+    if (results.length === 0 || awards.length === 0) {
+      return { queued: 0, revoked: 0 }
+    }
+
+    const slugById = new Map(awards.map((a) => [a.id, a.slug as AwardSlug]))
+    const idBySlug = new Map(awards.map((a) => [a.slug as AwardSlug, a.id]))
+    const dateByResult = new Map(results.map((r) => [r.id, r.eventDate]))
+    const resultIds = results.map((r) => r.id)
+    const awardIds = awards.map((a) => a.id)
+
+    const [{ data: storedRows }, { data: pendingRows }] = await Promise.all([
+      supabase
+        .from('result_awards')
+        .select('result_id, award_id')
+        .in('result_id', resultIds)
+        .in('award_id', awardIds),
+      supabase
+        .from('pending_awards')
+        .select('id, result_id, award_id, status')
+        .in('result_id', resultIds)
+        .in('award_id', awardIds),
+    ])
+
+    const stored: StoredAward[] = (storedRows ?? []).map((row) => ({
+      slug: slugById.get(row.award_id)!,
+      resultId: row.result_id,
+      eventDate: dateByResult.get(row.result_id)!,
+    }))
+
+    const earned = evaluateAwards(results, { brevetChaptersByYear: brevetChapters })
+    const { attach, revoke } = diffAwards(earned, stored, years)
+
+    for (const award of revoke) {
+      const { error } = await supabase
+        .from('result_awards')
+        .delete()
+        .eq('result_id', award.resultId)
+        .eq('award_id', idBySlug.get(award.slug)!)
+      if (error) throw error
+    }
+
+    // Drop queued awards that are no longer earned
+    const attachKeys = new Set(attach.map((a) => `${a.resultId}:${idBySlug.get(a.slug)}`))
+    const stalePendingIds = (pendingRows ?? [])
+      .filter((p) => p.status === 'pending' && !attachKeys.has(`${p.result_id}:${p.award_id}`))
+      .filter((p) => years.includes(parseInt(dateByResult.get(p.result_id)!.slice(0, 4), 10)))
+      .map((p) => p.id)
+
+    if (stalePendingIds.length > 0) {
+      const { error } = await supabase.from('pending_awards').delete().in('id', stalePendingIds)
+      if (error) throw error
+    }
+
+    // Queue new awards; existing rows (including dismissed ones) are left as they are
+    const queueKeys = new Set((pendingRows ?? []).map((p) => `${p.result_id}:${p.award_id}`))
+    const toQueue = attach
+      .map((a) => ({ result_id: a.resultId, award_id: idBySlug.get(a.slug)! }))
+      .filter((row) => !queueKeys.has(`${row.result_id}:${row.award_id}`))
+
+    if (toQueue.length > 0) {
+      const { error } = await supabase
+        .from('pending_awards')
+        .upsert(toQueue, { onConflict: 'result_id,award_id', ignoreDuplicates: true })
+      if (error) throw error
+    }
+
+    return { queued: toQueue.length, revoked: revoke.length }
+  } catch (error) {
+    logError(error, { operation: 'evaluateRiderAwards', context: { riderId, years } })
+    return null
+  }
+}
+
+/**
+ * Recalculate a route's course record. When it's beaten (or the record result
+ * stops counting) the Course Record award moves to the new holder(s) and the
+ * change is recorded in course_records for the route's record progression.
+ */
+export async function updateCourseRecord(routeId: string): Promise<CourseRecordPlan | null> {
+  try {
+    const supabase = getSupabaseAdmin()
+
+    const [{ data: resultRows, error: resultsError }, { data: currentRows }, awardId] =
+      await Promise.all([
+        supabase
+          .from('results')
+          .select('id, rider_id, status, finish_time, events!inner (event_date)')
+          .eq('events.route_id', routeId),
+        supabase
+          .from('course_records')
+          .select('id, result_id, finish_time')
+          .eq('route_id', routeId)
+          .is('superseded_at', null)
+          .is('voided_at', null),
+        getAwardId(COURSE_RECORD_SLUG),
+      ])
+
+    if (resultsError) throw resultsError
+
+    const results = (resultRows ?? []) as RouteResultForRecord[]
+    const plan = planCourseRecord(
+      results.map((r) => ({
+        id: r.id,
+        status: r.status,
+        finishMinutes: parseFinishTimeToMinutes(r.finish_time),
+      })),
+      (currentRows ?? []).map((row) => ({
+        id: row.id,
+        resultId: row.result_id,
+        finishMinutes: parseFinishTimeToMinutes(row.finish_time) ?? -1,
+      }))
+    )
+
+    const now = new Date().toISOString()
+
+    if (plan.void.length > 0) {
+      const { error } = await supabase
+        .from('course_records')
+        .update({ voided_at: now })
+        .in('id', plan.void)
+      if (error) throw error
+    }
+
+    if (plan.supersede.length > 0) {
+      const { error } = await supabase
+        .from('course_records')
+        .update({ superseded_at: now })
+        .in('id', plan.supersede)
+      if (error) throw error
+    }
+
+    for (const resultId of plan.add) {
+      const result = results.find((r) => r.id === resultId)!
+
+      // A record that was beaten by a result that no longer counts is restored
+      const { data: previous } = await supabase
+        .from('course_records')
+        .select('id')
+        .eq('result_id', resultId)
+        .is('voided_at', null)
+        .not('superseded_at', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const { error } = previous
+        ? await supabase
+            .from('course_records')
+            .update({ superseded_at: null })
+            .eq('id', previous.id)
+        : await supabase.from('course_records').insert({
+            route_id: routeId,
+            result_id: resultId,
+            rider_id: result.rider_id,
+            finish_time: result.finish_time!,
+            set_on: result.events.event_date,
+          })
+      if (error) throw error
+    }
+
+    if (awardId) {
+      // Only the handful of results holding the award can need it removed, so
+      // look those up rather than filtering on every result for the route
+      const { data: awardRows, error: awardError } = await supabase
+        .from('result_awards')
+        .select('result_id')
+        .eq('award_id', awardId)
+      if (awardError) throw awardError
+
+      const routeResultIds = new Set(results.map((r) => r.id))
+      const formerHolders = (awardRows ?? [])
+        .map((row) => row.result_id)
+        .filter((id) => routeResultIds.has(id) && !plan.holders.includes(id))
+
+      if (formerHolders.length > 0) {
+        const { error } = await supabase
+          .from('result_awards')
+          .delete()
+          .eq('award_id', awardId)
+          .in('result_id', formerHolders)
+        if (error) throw error
+      }
+
+      if (plan.holders.length > 0) {
+        const { error } = await supabase.from('result_awards').upsert(
+          plan.holders.map((resultId) => ({ result_id: resultId, award_id: awardId })),
+          { onConflict: 'result_id,award_id', ignoreDuplicates: true }
+        )
+        if (error) throw error
+      }
+    }
+
+    return plan
+  } catch (error) {
+    logError(error, { operation: 'updateCourseRecord', context: { routeId } })
+    return null
+  }
+}
+
+/**
+ * Grant or revoke a series award (e.g. Completed Devil Week) for every rider
+ * with a result in the series. Like First Brevet, this is applied directly
+ * rather than queued. Best-effort: errors are logged.
+ */
+export async function updateSeriesAwards(seriesId: string): Promise<void> {
+  try {
+    const supabase = getSupabaseAdmin()
+
+    const { data, error } = await supabase
+      .from('event_series')
+      .select(
+        'award_id, required_distances, min_events, events (event_date, distance_km, results (id, rider_id, status))'
+      )
+      .eq('id', seriesId)
+      .single()
+
+    if (error) throw error
+
+    const series = data as SeriesForAwards
+    if (!series.award_id) return
+
+    const resultsByRider = new Map<string, SeriesResult[]>()
+    for (const event of series.events) {
+      for (const result of event.results) {
+        const riderResults = resultsByRider.get(result.rider_id) ?? []
+        riderResults.push({
+          id: result.id,
+          status: result.status,
+          distanceKm: event.distance_km,
+          eventDate: event.event_date,
+        })
+        resultsByRider.set(result.rider_id, riderResults)
+      }
+    }
+
+    const resultIds = [...resultsByRider.values()].flat().map((r) => r.id)
+    if (resultIds.length === 0) return
+
+    const { data: stored, error: storedError } = await supabase
+      .from('result_awards')
+      .select('result_id')
+      .eq('award_id', series.award_id)
+      .in('result_id', resultIds)
+
+    if (storedError) throw storedError
+
+    const storedIds = new Set((stored ?? []).map((row) => row.result_id))
+    const rule = { requiredDistances: series.required_distances, minEvents: series.min_events }
+    const attach: string[] = []
+    const revoke: string[] = []
+
+    for (const results of resultsByRider.values()) {
+      const plan = planSeriesAward(
+        results,
+        rule,
+        results.filter((r) => storedIds.has(r.id)).map((r) => r.id)
+      )
+      if (plan.attach) attach.push(plan.attach)
+      revoke.push(...plan.revoke)
+    }
+
+    if (revoke.length > 0) {
+      const { error: revokeError } = await supabase
+        .from('result_awards')
+        .delete()
+        .eq('award_id', series.award_id)
+        .in('result_id', revoke)
+      if (revokeError) throw revokeError
+    }
+
+    if (attach.length > 0) {
+      const { error: attachError } = await supabase.from('result_awards').upsert(
+        attach.map((resultId) => ({ result_id: resultId, award_id: series.award_id! })),
+        { onConflict: 'result_id,award_id', ignoreDuplicates: true }
+      )
+      if (attachError) throw attachError
+    }
+  } catch (error) {
+    logError(error, { operation: 'updateSeriesAwards', context: { seriesId } })
+  }
+}
+
+/**
+ * Update the awards that depend on an event rather than one rider: the course
+ * record for its route and the award for its series.
+ */
+async function updateEventAwards(eventId: string): Promise<void> {
+  try {
+    const { data: event } = await getSupabaseAdmin()
+      .from('events')
+      .select('route_id, series_id')
+      .eq('id', eventId)
+      .single()
+
+    if (event?.route_id) {
+      await updateCourseRecord(event.route_id)
+    }
+    if (event?.series_id) {
+      await updateSeriesAwards(event.series_id)
+    }
+  } catch (error) {
+    logError(error, { operation: 'updateEventAwards', context: { eventId } })
+  }
+}
+
+/**
+ * Re-evaluate awards after one result is created, changed or removed: the
+ * rider's awards, the course record for the event's route and its series award.
+ */
+export async function evaluateResultAwards(
+  riderId: string,
+  eventId: string,
+  season: number
+): Promise<AwardEvaluation | null> {
+  const evaluation = await evaluateRiderAwards(riderId, getAwardYears(season))
+  await updateEventAwards(eventId)
+  return evaluation
+}
+
+/**
+ * Re-evaluate awards for every rider with a result in an event, the course
+ * record for its route and its series award.
+ */
+export async function evaluateEventAwards(eventId: string): Promise<AwardEvaluation | null> {
+  try {
+    const { data, error } = await getSupabaseAdmin()
+      .from('results')
+      .select('rider_id, season')
+      .eq('event_id', eventId)
+
+    if (error) throw error
+
+    const totals: AwardEvaluation = { queued: 0, revoked: 0 }
+    for (const result of data ?? []) {
+      const evaluation = await evaluateRiderAwards(result.rider_id, getAwardYears(result.season))
+      totals.queued += evaluation?.queued ?? 0
+      totals.revoked += evaluation?.revoked ?? 0
+    }
+
+    await updateEventAwards(eventId)
+
+    return totals
+  } catch (error) {
+    logError(error, { operation: 'evaluateEventAwards', context: { eventId } })
+    return null
+  }
+}
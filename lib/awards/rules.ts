@@ -0,0 +1,378 @@
+/**
+ * Award rules
+ *
+ * Pure functions that work out which awards a rider has earned from their
+ * results. Each earned award is attached to the result that completed it
+ * (e.g. the 600 that finished a Super Randonneur series) and covers a period,
+ * used to match it against awards that are already stored.
+ *
+ * Rules follow the descriptions in components/award-badge.tsx. Seasons are
+ * calendar years.
+ *
+ * First Brevet and Course Record are handled separately at the bottom: they're
+ * assigned directly rather than queued, and Course Record belongs to a route
+ * rather than a rider.
+ */
+
+export type AwardSlug =
+  | 'super-randonneur'
+  | 'o-5000'
+  | 'o-12'
+  | 'ontario-rover'
+  | 'ontario-explorer'
+
+export interface AwardResult {
+  id: string
+  status: string | null
+  distanceKm: number
+  eventDate: string // YYYY-MM-DD
+  eventType: string
+  chapterSlug: string | null
+}
+
+export interface AwardContext {
+  /** Chapters that ran at least one brevet, by year (for Ontario Explorer) */
+  brevetChaptersByYear: Map<number, Set<string>>
+}
+
+export interface EarnedAward {
+  slug: AwardSlug
+  resultId: string
+  eventDate: string
+  periodStart: string
+  periodEnd: string
+}
+
+export interface StoredAward {
+  slug: AwardSlug
+  resultId: string
+  eventDate: string
+}
+
+interface AwardRule {
+  slug: AwardSlug
+  evaluate: (results: AwardResult[], context: AwardContext) => EarnedAward[]
+}
+
+const SR_DISTANCES = [200, 300, 400, 600] as const
+const O_5000_KM = 5000
+const O_12_MONTHS = 12
+const ROVER_KM = 1200
+const ROVER_LONG_KM = 300
+const ROVER_LONG_COUNT = 2
+
+function yearOf(date: string): number {
+  return parseInt(date.slice(0, 4), 10)
+}
+
+function monthIndex(date: string): number {
+  return yearOf(date) * 12 + parseInt(date.slice(5, 7), 10) - 1
+}
+
+function monthStart(index: number): string {
+  const year = Math.floor(index / 12)
+  const month = (index % 12) + 1
+  return `${year}-${String(month).padStart(2, '0')}-01`
+}
+
+function monthEnd(index: number): string {
+  const year = Math.floor(index / 12)
+  const month = (index % 12) + 1
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return `${year}-${String(month).padStart(2, '0')}-${lastDay}`
+}
+
+function groupByYear(results: AwardResult[]): Map<number, AwardResult[]> {
+  const byYear = new Map<number, AwardResult[]>()
+  for (const result of results) {
+    const year = yearOf(result.eventDate)
+    const list = byYear.get(year) ?? []
+    list.push(result)
+    byYear.set(year, list)
+  }
+  return byYear
+}
+
+function yearAward(slug: AwardSlug, result: AwardResult): EarnedAward {
+  const year = yearOf(result.eventDate)
+  return {
+    slug,
+    resultId: result.id,
+    eventDate: result.eventDate,
+    periodStart: `${year}-01-01`,
+    periodEnd: `${year}-12-31`,
+  }
+}
+
+/**
+ * Map a brevet distance to the Super Randonneur distance it counts as.
+ * A 1000 km or longer brevet does not stand in for the 600.
+ */
+export function getSrDistance(distanceKm: number): (typeof SR_DISTANCES)[number] | null {
+  if (distanceKm >= 1000) return null
+  for (let i = SR_DISTANCES.length - 1; i >= 0; i--) {
+    if (distanceKm >= SR_DISTANCES[i]) return SR_DISTANCES[i]
+  }
+  return null
+}
+
+/** 200, 300, 400 and 600 km brevets in the same season */
+const superRandonneur: AwardRule = {
+  slug: 'super-randonneur',
+  evaluate(results) {
+    const earned: EarnedAward[] = []
+    for (const yearResults of groupByYear(results).values()) {
+      const seen = new Set<number>()
+      for (const result of yearResults) {
+        if (result.eventType !== 'brevet') continue
+        const distance = getSrDistance(result.distanceKm)
+        if (distance === null || seen.has(distance)) continue
+        seen.add(distance)
+        if (seen.size === SR_DISTANCES.length) {
+          earned.push(yearAward('super-randonneur', result))
+          break
+        }
+      }
+    }
+    return earned
+  },
+}
+
+/** 5000 km of sanctioned events in a calendar year */
+const o5000: AwardRule = {
+  slug: 'o-5000',
+  evaluate(results) {
+    const earned: EarnedAward[] = []
+    for (const yearResults of groupByYear(results).values()) {
+      let total = 0
+      for (const result of yearResults) {
+        total += result.distanceKm
+        if (total >= O_5000_KM) {
+          earned.push(yearAward('o-5000', result))
+          break
+        }
+      }
+    }
+    return earned
+  },
+}
+
+/**
+ * A 200+ km event in each of 12 consecutive months. Earned again for each
+ * further run of 12 months.
+ */
+const o12: AwardRule = {
+  slug: 'o-12',
+  evaluate(results) {
+    const earned: EarnedAward[] = []
+
+    // First qualifying result in each month
+    const firstByMonth = new Map<number, AwardResult>()
+    for (const result of results) {
+      if (result.distanceKm < 200) continue
+      const month = monthIndex(result.eventDate)
+      if (!firstByMonth.has(month)) firstByMonth.set(month, result)
+    }
+
+    const months = [...firstByMonth.keys()].sort((a, b) => a - b)
+    let streakStart = -1
+    let streak = 0
+    let previous = -Infinity
+
+    for (const month of months) {
+      if (month === previous + 1 && streak > 0) {
+        streak++
+      } else {
+        streak = 1
+        streakStart = month
+      }
+      previous = month
+
+      if (streak === O_12_MONTHS) {
+        const result = firstByMonth.get(month)!
+        earned.push({
+          slug: 'o-12',
+          resultId: result.id,
+          eventDate: result.eventDate,
+          periodStart: monthStart(streakStart),
+          periodEnd: monthEnd(month),
+        })
+        streak = 0
+      }
+    }
+
+    return earned
+  },
+}
+
+/** 1200 km of permanents in a season, at least two of them 300 km or longer */
+const ontarioRover: AwardRule = {
+  slug: 'ontario-rover',
+  evaluate(results) {
+    const earned: EarnedAward[] = []
+    for (const yearResults of groupByYear(results).values()) {
+      let total = 0
+      let long = 0
+      for (const result of yearResults) {
+        if (result.eventType !== 'permanent') continue
+        total += result.distanceKm
+        if (result.distanceKm >= ROVER_LONG_KM) long++
+        if (total >= ROVER_KM && long >= ROVER_LONG_COUNT) {
+          earned.push(yearAward('ontario-rover', result))
+          break
+        }
+      }
+    }
+    return earned
+  },
+}
+
+/** A brevet in every chapter that ran brevets that year */
+const ontarioExplorer: AwardRule = {
+  slug: 'ontario-explorer',
+  evaluate(results, context) {
+    const earned: EarnedAward[] = []
+    for (const [year, yearResults] of groupByYear(results)) {
+      const required = context.brevetChaptersByYear.get(year)
+      if (!required?.size) continue
+
+      const visited = new Set<string>()
+      for (const result of yearResults) {
+        if (result.eventType !== 'brevet' || !result.chapterSlug) continue
+        if (!required.has(result.chapterSlug)) continue
+        visited.add(result.chapterSlug)
+        if (visited.size === required.size) {
+          earned.push(yearAward('ontario-explorer', result))
+          break
+        }
+      }
+    }
+    return earned
+  },
+}
+
+export const AWARD_RULES: AwardRule[] = [superRandonneur, o5000, o12, ontarioRover, ontarioExplorer]
+
+export const ENGINE_AWARD_SLUGS: AwardSlug[] = AWARD_RULES.map((rule) => rule.slug)
+
+/**
+ * Evaluate every award rule against a rider's results. Only finished results
+ * count; order doesn't matter.
+ */
+export function evaluateAwards(results: AwardResult[], context: AwardContext): EarnedAward[] {
+  const finished = results
+    .filter((r) => r.status === 'finished')
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate) || a.id.localeCompare(b.id))
+
+  return AWARD_RULES.flatMap((rule) => rule.evaluate(finished, context))
+}
+
+function matches(earned: EarnedAward, stored: StoredAward): boolean {
+  return (
+    earned.slug === stored.slug &&
+    stored.eventDate >= earned.periodStart &&
+    stored.eventDate <= earned.periodEnd
+  )
+}
+
+/**
+ * Compare earned awards with stored ones for the given years.
+ *
+ * A stored award is kept when it sits on any result inside an earned award's
+ * period, so imported awards attached to a different result aren't moved.
+ * Awards dated outside `years` are left alone.
+ */
+export function diffAwards(
+  earned: EarnedAward[],
+  stored: StoredAward[],
+  years: number[]
+): { attach: EarnedAward[]; revoke: StoredAward[] } {
+  const inScope = (date: string) => years.includes(yearOf(date))
+
+  const scopedEarned = earned.filter((a) => inScope(a.eventDate))
+  const scopedStored = stored.filter((a) => inScope(a.eventDate))
+
+  return {
+    attach: scopedEarned.filter((a) => !stored.some((s) => matches(a, s))),
+    revoke: scopedStored.filter((s) => !earned.some((a) => matches(a, s))),
+  }
+}
+
+/**
+ * Plan First Brevet for a rider: it belongs on their earliest finished brevet.
+ * A stored First Brevet on any finished result is left where it is (imported
+ * history); one on a result that no longer counts is moved.
+ */
+export function planFirstBrevet(
+  results: AwardResult[],
+  storedResultIds: string[]
+): { attach: string | null; revoke: string[] } {
+  const finishedIds = new Set(results.filter((r) => r.status === 'finished').map((r) => r.id))
+  const revoke = storedResultIds.filter((id) => !finishedIds.has(id))
+
+  if (storedResultIds.length > revoke.length) {
+    return { attach: null, revoke }
+  }
+
+  const first = results
+    .filter((r) => r.status === 'finished' && r.eventType === 'brevet')
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate) || a.id.localeCompare(b.id))[0]
+
+  return { attach: first?.id ?? null, revoke }
+}
+
+export interface RecordResult {
+  id: string
+  status: string | null
+  finishMinutes: number | null
+}
+
+export interface CurrentRecord {
+  id: string
+  resultId: string | null
+  finishMinutes: number
+}
+
+export interface CourseRecordPlan {
+  /** Results that hold the record now (several when tied) */
+  holders: string[]
+  /** Current record rows whose result was beaten */
+  supersede: string[]
+  /** Current record rows whose result no longer counts */
+  void: string[]
+  /** Holders that don't have a current record row yet */
+  add: string[]
+}
+
+/**
+ * Work out a route's course record from its results and how it differs from
+ * the current record rows.
+ */
+export function planCourseRecord(
+  results: RecordResult[],
+  current: CurrentRecord[]
+): CourseRecordPlan {
+  const times = new Map<string, number>()
+  for (const result of results) {
+    if (result.status === 'finished' && result.finishMinutes !== null) {
+      times.set(result.id, result.finishMinutes)
+    }
+  }
+
+  const fastest = times.size > 0 ? Math.min(...times.values()) : null
+  const holders = [...times].filter(([, minutes]) => minutes === fastest).map(([id]) => id)
+
+  const voided = current.filter(
+    (row) => !row.resultId || times.get(row.resultId) !== row.finishMinutes
+  )
+  const standing = current.filter((row) => !voided.includes(row))
+  const superseded = standing.filter((row) => !holders.includes(row.resultId!))
+  const standingHolders = new Set(standing.map((row) => row.resultId))
+
+  return {
+    holders,
+    supersede: superseded.map((row) => row.id),
+    void: voided.map((row) => row.id),
+    add: holders.filter((id) => !standingHolders.has(id)),
+  }
+}
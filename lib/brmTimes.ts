@@ -1,4 +1,7 @@
 // brmTimes.ts — ACP/BRM control times with 1200/1300 support
+// Other event types (populaires, flèches, LRM) build on these in lib/time-rules.ts
+
+import type { TimeRuleSet } from '@/lib/time-rules'
 
 export type NominalDistance = 200 | 300 | 400 | 600 | 1000 | 1200 | 1300
 
@@ -90,7 +93,11 @@ export function closeHours(d: number): number {
   return h
 }
 
-function openHours(d: number): number {
+/**
+ * Opening time in hours for distance d (km), by segment speed.
+ * Distances beyond 1300 km continue at the last segment speed.
+ */
+export function openHours(d: number): number {
   let remaining = d
   let hours = 0
   let lastEdge = 0
@@ -103,9 +110,19 @@ function openHours(d: number): number {
     }
     if (remaining <= 0) break
   }
+  if (remaining > 0) {
+    hours += remaining / OPEN_SEGMENTS[OPEN_SEGMENTS.length - 1].v
+  }
   return hours
 }
 
+/**
+ * Official overall time limit in minutes for a nominal BRM distance
+ */
+export function finishLimitMinutes(nominalKm: NominalDistance): number {
+  return FINISH_LIMITS_MIN[nominalKm]
+}
+
 function addMinutes(t: Date, minutes: number): Date {
   const d = new Date(t)
   d.setMinutes(d.getMinutes() + minutes)
@@ -113,35 +130,34 @@ function addMinutes(t: Date, minutes: number): Date {
 }
 
 /**
- * Compute opening & closing times for a control.
- * - Opening: 34/32/30/28/26 km/h by segment (to 1300)
- * - Closing: 1h + d/20 for first 60 km, then 15 km/h to 600, 11.428 to 1000, 13.333 to 1300
- * - Finish control is clamped to official overall limit (200–1300)
+ * Compute opening & closing times for a control under a time rule set.
+ * - Opening/closing come from the rule set (see lib/time-rules.ts)
+ * - Finish control is clamped to the rule set's overall limit for the route
  */
 export function computeControlTimes(
   start: Date,
   controlKm: number,
-  nominalKm: NominalDistance,
-  routeKm?: number,
+  rules: TimeRuleSet,
+  routeKm: number,
   opts: Options = {}
 ) {
   const { truncateKm = true } = opts
 
   const dCtrl = truncateKm ? Math.trunc(controlKm) : controlKm
-  const dRoute = routeKm == null ? nominalKm : truncateKm ? Math.trunc(routeKm) : routeKm
+  const dRoute = truncateKm ? Math.trunc(routeKm) : routeKm
 
   // Opening
-  const openMin = Math.round(openHours(dCtrl) * 60)
+  const openMin = Math.round(rules.openMinutes(dCtrl))
   const openAt = addMinutes(start, openMin)
 
   // Closing
-  let closeMin = Math.round(closeHours(dCtrl) * 60)
+  let closeMin = Math.round(rules.closeMinutes(dCtrl))
 
-  // Finish detection should use the *route length* (actual if provided, else nominal),
-  // but the cutoff must use the *nominal* distance.
+  // Finish detection uses the route length; the cutoff is the rule set's overall limit
+  // (for brevets, based on the *nominal* distance).
   const isFinish = dCtrl >= dRoute - 1e-4
   if (isFinish) {
-    closeMin = FINISH_LIMITS_MIN[nominalKm]
+    closeMin = Math.round(rules.finishLimitMinutes(dRoute))
   }
 
   const closeAt = addMinutes(start, closeMin)
@@ -157,19 +173,6 @@ export function formatHM(minutes: number): string {
   return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`
 }
 
-/**
- * Get the nominal BRM distance for a given actual distance
- */
-export function getNominalDistance(distance: number): NominalDistance {
-  if (distance <= 200) return 200
-  if (distance <= 300) return 300
-  if (distance <= 400) return 400
-  if (distance <= 600) return 600
-  if (distance <= 1000) return 1000
-  if (distance <= 1200) return 1200
-  return 1300
-}
-
 /**
  * Format a date/time for control card display
  * Returns format like "Thu 04:30" in Toronto timezone
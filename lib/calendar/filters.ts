@@ -0,0 +1,99 @@
+/**
+ * Calendar filters shared by the calendar pages and the iCal feeds, so a
+ * subscription made from a filtered page lists the same events.
+ */
+
+export type DistanceBand = 'populaire' | '200' | '300' | '400' | '600' | '1000'
+
+export const DISTANCE_BANDS: DistanceBand[] = ['populaire', '200', '300', '400', '600', '1000']
+
+export const CALENDAR_EVENT_TYPES = ['brevet', 'populaire', 'fleche'] as const
+
+export type CalendarEventType = (typeof CALENDAR_EVENT_TYPES)[number]
+
+export interface CalendarFeedFilters {
+  distances: DistanceBand[] | null
+  types: CalendarEventType[] | null
+}
+
+export function isDistanceBand(value: string): value is DistanceBand {
+  return (DISTANCE_BANDS as string[]).includes(value)
+}
+
+/**
+ * Populaires are anything under 200 km and 1000 covers 1000 km and longer;
+ * the other bands are the standard brevet distances.
+ */
+export function matchesDistanceBand(distanceKm: number, band: DistanceBand): boolean {
+  switch (band) {
+    case 'populaire':
+      return distanceKm < 200
+    case '1000':
+      return distanceKm >= 1000
+    default:
+      return distanceKm === parseInt(band, 10)
+  }
+}
+
+/**
+ * Split a comma-separated query parameter, dropping blanks and duplicates.
+ */
+export function parseListParam(value: string | null): string[] {
+  if (!value) return []
+  return [
+    ...new Set(
+      value
+        .split(',')
+        .map((item) => item.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ]
+}
+
+/**
+ * Read the distance and type filters from a feed URL, e.g.
+ * ?distance=200,300&type=brevet. Unknown values are an error rather than
+ * silently ignored, so a typo doesn't subscribe someone to every event.
+ */
+export function parseCalendarFilters(
+  searchParams: URLSearchParams
+): CalendarFeedFilters | { error: string } {
+  const distances = parseListParam(searchParams.get('distance'))
+  const invalidDistance = distances.find((distance) => !isDistanceBand(distance))
+  if (invalidDistance) {
+    return {
+      error: `Invalid distance "${invalidDistance}". Valid distances: ${DISTANCE_BANDS.join(', ')}`,
+    }
+  }
+
+  const types = parseListParam(searchParams.get('type'))
+  const invalidType = types.find(
+    (type) => !(CALENDAR_EVENT_TYPES as readonly string[]).includes(type)
+  )
+  if (invalidType) {
+    return {
+      error: `Invalid type "${invalidType}". Valid types: ${CALENDAR_EVENT_TYPES.join(', ')}`,
+    }
+  }
+
+  return {
+    distances: distances.length > 0 ? (distances as DistanceBand[]) : null,
+    types: types.length > 0 ? (types as CalendarEventType[]) : null,
+  }
+}
+
+export function matchesCalendarFilters(
+  event: { distance_km: number; event_type: string },
+  filters: CalendarFeedFilters
+): boolean {
+  if (filters.types && !(filters.types as string[]).includes(event.event_type)) {
+    return false
+  }
+  if (
+    filters.distances &&
+    !filters.distances.some((band) => matchesDistanceBand(event.distance_km, band))
+  ) {
+    return false
+  }
+  return true
+}
@@ -0,0 +1,175 @@
+/**
+ * iCal feed generation for /api/calendar. Chapter, all-chapter and personal
+ * rider feeds all build their events here so they look the same in a
+ * subscriber's calendar app.
+ */
+import { createEvents, type EventAttributes } from 'ics'
+import { formatEventType } from '@/lib/utils'
+import { getSiteUrl } from '@/lib/site-url'
+import type { EventForCalendar } from '@/types/queries'
+
+export const CALENDAR_EVENT_FIELDS =
+  'id, slug, name, event_date, start_time, start_location, distance_km, event_type, description, status'
+
+/**
+ * BRM time limits for brevets (in hours).
+ * These are the official Audax Club Parisien time limits.
+ */
+const BRM_TIME_LIMITS: Record<number, number> = {
+  200: 13.5,
+  300: 20,
+  400: 27,
+  600: 40,
+  1000: 75,
+  1200: 90,
+}
+
+/**
+ * Get event duration as hours and minutes (for valid iCal DURATION format).
+ * - Brevets 200km+: Use BRM time limits
+ * - Fleche: 24 hours
+ * - Populaires: Use distance / 15 km/h
+ */
+export function getEventDuration(
+  distanceKm: number,
+  eventType: string
+): { hours: number; minutes: number } {
+  let totalHours: number
+
+  // Fleche is always 24 hours
+  if (eventType === 'fleche') {
+    totalHours = 24
+  } else if (eventType === 'brevet' && BRM_TIME_LIMITS[distanceKm]) {
+    // For brevets, use BRM time limits if we have an exact match
+    totalHours = BRM_TIME_LIMITS[distanceKm]
+  } else if (eventType === 'brevet' && distanceKm >= 200) {
+    // For brevets without exact match, interpolate or use closest
+    const distances = Object.keys(BRM_TIME_LIMITS)
+      .map(Number)
+      .sort((a, b) => a - b)
+    totalHours = BRM_TIME_LIMITS[distances[0]] // Default to 200km limit
+
+    for (let i = 0; i < distances.length - 1; i++) {
+      if (distanceKm >= distances[i] && distanceKm < distances[i + 1]) {
+        totalHours = BRM_TIME_LIMITS[distances[i]]
+        break
+      }
+    }
+
+    // If longer than 1200km, extrapolate at ~15 km/h
+    if (distanceKm > 1200) {
+      totalHours = Math.ceil(distanceKm / 15)
+    }
+  } else {
+    // For populaires, permanents and other events, use ~15 km/h average
+    totalHours = Math.ceil(distanceKm / 15)
+  }
+
+  // Convert decimal hours to hours and minutes
+  const hours = Math.floor(totalHours)
+  const minutes = Math.round((totalHours - hours) * 60)
+
+  return { hours, minutes }
+}
+
+/**
+ * Convert a Toronto local date and time to UTC date parts for iCal.
+ */
+export function getUtcStart(
+  eventDate: string,
+  startTime: string | null
+): [number, number, number, number, number] {
+  const [year, month, day] = eventDate.split('-').map(Number)
+  const [hour, minute] = (startTime || '08:00').split(':').map(Number)
+
+  // Get the UTC time by using Intl to find Toronto's offset on this date
+  const torontoFormatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/Toronto',
+    hour: 'numeric',
+    hour12: false,
+  })
+  // At noon UTC, what hour is it in Toronto?
+  const refDate = new Date(Date.UTC(year, month - 1, day, 12, 0, 0))
+  const torontoHourAtNoonUTC = parseInt(torontoFormatter.format(refDate), 10)
+  const offsetHours = 12 - torontoHourAtNoonUTC // Toronto's offset from UTC
+
+  // Create the actual UTC date for this Toronto local time
+  const utcDate = new Date(Date.UTC(year, month - 1, day, hour + offsetHours, minute))
+
+  return [
+    utcDate.getUTCFullYear(),
+    utcDate.getUTCMonth() + 1,
+    utcDate.getUTCDate(),
+    utcDate.getUTCHours(),
+    utcDate.getUTCMinutes(),
+  ]
+}
+
+/**
+ * Convert an event to an iCal event. Cancelled events stay in the feed with
+ * STATUS:CANCELLED so calendar apps mark them cancelled instead of the entry
+ * quietly disappearing. Permanent requests the coordinator hasn't approved
+ * yet are STATUS:TENTATIVE.
+ */
+export function toIcsEvent(
+  event: EventForCalendar,
+  siteUrl: string = getSiteUrl()
+): EventAttributes {
+  const siteHostname = siteUrl.replace(/^https?:\/\//, '')
+  const cancelled = event.status === 'cancelled'
+  const tentative = event.status === 'requested'
+
+  // Calculate duration based on event type and distance
+  const duration = getEventDuration(event.distance_km, event.event_type)
+
+  const eventType = formatEventType(event.event_type)
+  const title = `${cancelled ? 'Cancelled: ' : ''}${event.name} (${event.distance_km}km ${eventType})`
+
+  // Build description
+  const descriptionParts = [
+    cancelled ? 'This event has been cancelled.' : '',
+    tentative ? 'Awaiting approval from the route coordinator.' : '',
+    `${event.distance_km}km ${eventType}`,
+    event.description || '',
+    '',
+    `Details & Registration: ${siteUrl}/register/${event.slug}`,
+  ].filter(Boolean)
+
+  const organizerName = event.chapters?.name
+    ? `Randonneurs Ontario - ${event.chapters.name}`
+    : 'Randonneurs Ontario'
+
+  return {
+    uid: `${event.id}@${siteHostname}`,
+    title,
+    start: getUtcStart(event.event_date, event.start_time),
+    startInputType: 'utc',
+    startOutputType: 'utc',
+    duration,
+    location: event.start_location || undefined,
+    description: descriptionParts.join('\n'),
+    url: `${siteUrl}/event/${event.slug}`,
+    categories: [eventType, 'Cycling', 'Randonneuring'],
+    status: cancelled ? 'CANCELLED' : tentative ? 'TENTATIVE' : 'CONFIRMED',
+    busyStatus: cancelled ? 'FREE' : tentative ? 'TENTATIVE' : 'BUSY',
+    organizer: { name: organizerName, email: `info@${siteHostname}` },
+  }
+}
+
+/**
+ * Build the iCal file for a feed.
+ */
+export function buildCalendar(
+  events: EventForCalendar[],
+  calName: string
+): { error: Error | null; value: string | undefined } {
+  const siteUrl = getSiteUrl()
+  const { error, value } = createEvents(
+    events.map((event) => toIcsEvent(event, siteUrl)),
+    {
+      calName,
+      productId: '-//Randonneurs Ontario//Calendar//EN',
+    }
+  )
+  return { error: error ?? null, value }
+}
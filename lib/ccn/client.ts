@@ -4,70 +4,171 @@
  * Queries the CCN membership API to verify rider membership status.
  * @see docs/registration-check.md for API documentation
  */
+import { fuzzyNameScore, getNameVariants } from '@/lib/utils/fuzzy-match'
+import type { MembershipType } from '@/types/queries'
+import type { MembershipCandidate } from '@/types/membership-review'
 
 export type CCNSearchResult =
   | {
       found: true
       membershipId: number
-      type:
-        | 'Individual Membership'
-        | 'Additional Family Member'
-        | 'Family Membership > PRIMARY FAMILY MEMBER'
-        | 'Trial Member'
+      type: MembershipType
     }
   | {
       found: false
+      ambiguous?: false
+    }
+  | {
+      // Several members could be this rider; an admin has to pick one
+      found: false
+      ambiguous: true
+      candidates: MembershipCandidate[]
     }
 
+export interface CCNSearchOptions {
+  email?: string | null
+  birthYear?: number | null
+}
+
+interface CCNMember {
+  id: number
+  full_name: string
+  registration_category: string
+  // Not in the current payload; used if CCN starts returning them
+  email?: string | null
+  birth_year?: number | null
+  date_of_birth?: string | null
+}
+
 interface CCNAPIResponse {
   count: number
-  results: Array<{
-    id: number
-    full_name: string
-    registration_category: string
-  }>
+  results: CCNMember[]
+}
+
+// Candidates scoring below this are not considered the same person
+export const CCN_MATCH_THRESHOLD = 0.85
+
+async function fetchMembers(endpoint: string, search: string): Promise<CCNMember[]> {
+  const url = `${endpoint}&search=${encodeURIComponent(search)}`
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`CCN API error: ${response.status}`)
+  }
+
+  const data: CCNAPIResponse = await response.json()
+  return data.count === 0 ? [] : data.results
+}
+
+/**
+ * Best fuzzy score for a CCN full name, trying every first/last split
+ * so multi-word surnames ("Anne de Vries") are handled.
+ */
+function scoreFullName(firstName: string, lastName: string, fullName: string): number {
+  const parts = fullName.trim().split(/\s+/)
+  if (parts.length < 2) return fuzzyNameScore(firstName, lastName, fullName, '')
+
+  let best = 0
+  for (let i = 1; i < parts.length; i++) {
+    const score = fuzzyNameScore(
+      firstName,
+      lastName,
+      parts.slice(0, i).join(' '),
+      parts.slice(i).join(' ')
+    )
+    best = Math.max(best, score)
+  }
+  return best
+}
+
+function getBirthYear(member: CCNMember): number | null {
+  if (member.birth_year) return member.birth_year
+  const year = member.date_of_birth ? parseInt(member.date_of_birth.slice(0, 4), 10) : NaN
+  return Number.isNaN(year) ? null : year
+}
+
+/**
+ * Drop candidates whose email or birth year contradicts what we know about the
+ * rider. Candidates without the field are kept. If exactly one candidate has
+ * a matching email, it wins outright.
+ */
+function filterByIdentity(members: CCNMember[], options: CCNSearchOptions): CCNMember[] {
+  let remaining = members
+
+  const email = options.email?.trim().toLowerCase()
+  if (email) {
+    const emailMatches = remaining.filter((m) => m.email?.trim().toLowerCase() === email)
+    if (emailMatches.length === 1) return emailMatches
+    remaining = remaining.filter((m) => !m.email || m.email.trim().toLowerCase() === email)
+  }
+
+  if (options.birthYear) {
+    remaining = remaining.filter((m) => {
+      const year = getBirthYear(m)
+      return year === null || year === options.birthYear
+    })
+  }
+
+  return remaining
 }
 
 /**
  * Search CCN API for a member by name.
  *
+ * Every returned member is scored against the rider's name with
+ * fuzzyNameScore, so nicknames ("Bob" vs "Robert") and small typos match.
+ * When the first name has known nicknames, the surname is also searched
+ * on its own, since CCN only matches the literal name.
+ *
+ * A single exact (or nickname) match is returned as found. Several matches,
+ * or only near matches, come back as ambiguous with the candidates so an
+ * admin can decide instead of us guessing.
+ *
  * @param firstName - Rider's first name
  * @param lastName - Rider's last name
- * @returns Membership data if found, or { found: false }
+ * @param options - Email / birth year to tell same-named members apart
+ * @returns Membership data if found, candidates if ambiguous, or { found: false }
  * @throws Error if API request fails
  */
 export async function searchCCNMembership(
   firstName: string,
-  lastName: string
+  lastName: string,
+  options: CCNSearchOptions = {}
 ): Promise<CCNSearchResult> {
   const endpoint = process.env.CCN_ENDPOINT
   if (!endpoint) {
     throw new Error('CCN_ENDPOINT environment variable not set')
   }
 
-  const fullName = `${firstName} ${lastName}`
-  const url = `${endpoint}&search=${encodeURIComponent(fullName)}`
+  const members = await fetchMembers(endpoint, `${firstName} ${lastName}`)
 
-  const response = await fetch(url)
-  if (!response.ok) {
-    throw new Error(`CCN API error: ${response.status}`)
+  const hasNicknames = getNameVariants(firstName).length > 1
+  const hasExactMatch = members.some((m) => scoreFullName(firstName, lastName, m.full_name) === 1)
+  if (hasNicknames && !hasExactMatch) {
+    const seen = new Set(members.map((m) => m.id))
+    for (const member of await fetchMembers(endpoint, lastName)) {
+      if (!seen.has(member.id)) members.push(member)
+    }
   }
 
-  const data: CCNAPIResponse = await response.json()
+  const candidates: MembershipCandidate[] = filterByIdentity(members, options)
+    .map((m) => ({
+      membershipId: m.id,
+      fullName: m.full_name,
+      type: m.registration_category as MembershipType,
+      score: scoreFullName(firstName, lastName, m.full_name),
+    }))
+    .filter((c) => c.score >= CCN_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
 
-  if (data.count === 0 || data.results.length === 0) {
+  if (candidates.length === 0) {
     return { found: false }
   }
 
-  // Take the first result (future: handle multiple matches)
-  const member = data.results[0]
-  return {
-    found: true,
-    membershipId: member.id,
-    type: member.registration_category as
-      | 'Individual Membership'
-      | 'Additional Family Member'
-      | 'Family Membership > PRIMARY FAMILY MEMBER'
-      | 'Trial Member',
+  const exact = candidates.filter((c) => c.score === 1)
+  if (exact.length === 1) {
+    return { found: true, membershipId: exact[0].membershipId, type: exact[0].type }
   }
+
+  return { found: false, ambiguous: true, candidates }
 }
@@ -8,7 +8,7 @@ export interface ChapterInfo {
   name: string
   description: string
   coverImage?: string
-  dbSlug: string | null // null means uses collection field instead of chapter
+  dbSlug: string | null // null means events are found by event_series.collection instead
 }
 
 // Core chapters (calendar, routes)
@@ -79,7 +79,7 @@ const resultsOnlyChapters: Record<string, ChapterInfo> = {
     name: 'Granite Anvil',
     description: 'Results from the Granite Anvil 1000km+ series.',
     coverImage: '/granite-anvil.jpg',
-    dbSlug: null, // Uses collection field instead of chapter
+    dbSlug: null, // Events belong to a 'granite-anvil' event series
   },
 }
 
@@ -119,7 +119,7 @@ export function getAllResultsChapterSlugs(): string[] {
 
 /**
  * Convert URL slug to database slug
- * Returns null for chapters that use collection field instead
+ * Returns null for chapters whose events come from an event series instead
  */
 export function getDbSlug(urlSlug: string): string | null {
   return allChapters[urlSlug]?.dbSlug ?? null
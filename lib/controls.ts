@@ -0,0 +1,86 @@
+/**
+ * Control definitions
+ *
+ * Routes store their controls in route_controls. An event can override them
+ * with its own rows in event_controls; otherwise it uses its route's controls.
+ * These helpers are shared by the admin editors, control cards and route pages.
+ */
+import type { ControlDefinition, ControlType } from '@/types/control-card'
+import type { ControlRow } from '@/types/queries'
+import type { RouteWaypoint } from '@/lib/routes/route-file'
+
+export const CONTROL_TYPES: { value: ControlType; label: string }[] = [
+  { value: 'staffed', label: 'Staffed' },
+  { value: 'info', label: 'Info' },
+  { value: 'photo', label: 'Photo' },
+  { value: 'receipt', label: 'Receipt' },
+]
+
+export function getControlTypeLabel(type: ControlType): string {
+  return CONTROL_TYPES.find((t) => t.value === type)?.label ?? type
+}
+
+function isControlType(value: string): value is ControlType {
+  return CONTROL_TYPES.some((t) => t.value === value)
+}
+
+/**
+ * Map a route_controls / event_controls row to a ControlDefinition.
+ */
+export function toControlDefinition(row: ControlRow): ControlDefinition {
+  return {
+    name: row.name,
+    distance: Number(row.distance_km),
+    address: row.address,
+    controlType: isControlType(row.control_type) ? row.control_type : 'staffed',
+    infoQuestion: row.info_question,
+  }
+}
+
+/**
+ * Validate and normalize controls before saving.
+ * Trims text, drops info questions from non-info controls, and sorts by distance.
+ */
+export function normalizeControls(
+  controls: ControlDefinition[]
+): { controls: ControlDefinition[]; error?: undefined } | { controls?: undefined; error: string } {
+  const normalized: ControlDefinition[] = []
+
+  for (const control of controls) {
+    const name = control.name.trim()
+    if (!name) {
+      return { error: 'Every control needs a name' }
+    }
+    if (!Number.isFinite(control.distance) || control.distance < 0) {
+      return { error: `Invalid distance for control "${name}"` }
+    }
+    if (!isControlType(control.controlType)) {
+      return { error: `Invalid control type for control "${name}"` }
+    }
+
+    normalized.push({
+      name,
+      distance: Math.round(control.distance * 10) / 10,
+      address: control.address?.trim() || null,
+      controlType: control.controlType,
+      infoQuestion: control.controlType === 'info' ? control.infoQuestion?.trim() || null : null,
+    })
+  }
+
+  // Stable sort keeps the entered order for controls at the same km
+  normalized.sort((a, b) => a.distance - b.distance)
+  return { controls: normalized }
+}
+
+/**
+ * Propose controls from a route file's named waypoints.
+ */
+export function waypointsToControls(waypoints: RouteWaypoint[]): ControlDefinition[] {
+  return waypoints.map((waypoint) => ({
+    name: waypoint.name,
+    distance: waypoint.distanceKm,
+    address: null,
+    controlType: 'staffed',
+    infoQuestion: null,
+  }))
+}
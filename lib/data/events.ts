@@ -26,6 +26,7 @@ import { unstable_cache } from 'next/cache'
 import { getSupabase } from '@/lib/supabase'
 import { formatEventType } from '@/lib/utils'
 import { handleDataError } from '@/lib/errors'
+import { resolveRegistrationWindow } from '@/lib/registrations/window'
 import type { Event } from '@/components/event-card'
 import {
   getChapterInfo,
@@ -70,6 +71,7 @@ const getEventsByChapterInner = cache(async (urlSlug: string): Promise<Event[]>
   const { data: events, error: eventsError } = await getSupabase()
     .from('events')
     .select('*, registrations(count), chapters!inner(slug)')
+    .eq('registrations.status', 'registered')
     .eq('chapters.slug', dbSlug)
     .eq('status', 'scheduled')
     .neq('event_type', 'permanent')
@@ -125,6 +127,7 @@ const getAllUpcomingEventsInner = cache(async (): Promise<Event[]> => {
   const { data: events, error } = await getSupabase()
     .from('events')
     .select('*, registrations(count), chapters!inner(slug, name)')
+    .eq('registrations.status', 'registered')
     .eq('status', 'scheduled')
     .neq('event_type', 'permanent')
     .gte('event_date', today)
@@ -167,6 +170,7 @@ const getPermanentEventsInner = cache(async (): Promise<Event[]> => {
   const { data: events, error } = await getSupabase()
     .from('events')
     .select('*, registrations(count)')
+    .eq('registrations.status', 'registered')
     .eq('event_type', 'permanent')
     .eq('status', 'scheduled')
     .gte('event_date', today)
@@ -197,6 +201,83 @@ export async function getPermanentEvents(): Promise<Event[]> {
   })()
 }
 
+/**
+ * An event in a date range, with its chapter and status (see getEventsInRange).
+ */
+export interface EventListing extends Event {
+  chapterSlug: string // URL slug, e.g. "simcoe-muskoka"
+  status: string // scheduled, cancelled, completed or submitted
+}
+
+/**
+ * Get all events between two dates (inclusive), past or upcoming, in any
+ * status except permanent requests awaiting approval. Used by the public API
+ * (app/api/v1/events).
+ *
+ * @param from - First date, YYYY-MM-DD
+ * @param to - Last date, YYYY-MM-DD
+ * @param urlSlug - Optional chapter URL slug to filter by
+ * @returns Events sorted by date, longest first on the same day
+ */
+const getEventsInRangeInner = cache(
+  async (from: string, to: string, urlSlug: string | null): Promise<EventListing[]> => {
+    let query = getSupabase()
+      .from('events')
+      .select('*, registrations(count), chapters!inner(slug, name)')
+      .eq('registrations.status', 'registered')
+      .neq('status', 'requested')
+      .gte('event_date', from)
+      .lte('event_date', to)
+
+    if (urlSlug) {
+      const dbSlug = getDbSlug(urlSlug)
+      if (!dbSlug) return []
+      query = query.eq('chapters.slug', dbSlug)
+    }
+
+    const { data: events, error } = await query
+      .order('event_date', { ascending: true })
+      .order('distance_km', { ascending: false })
+
+    if (error) {
+      return handleDataError(
+        error,
+        { operation: 'getEventsInRange', context: { from, to, urlSlug } },
+        []
+      )
+    }
+
+    return (events as EventWithRegistrationCountAndChapter[]).map((event) => ({
+      id: event.id,
+      slug: event.slug,
+      date: event.event_date,
+      name: event.name,
+      type: formatEventType(event.event_type),
+      distance: event.distance_km.toString(),
+      startLocation: event.start_location || '',
+      startTime: event.start_time || '08:00',
+      registeredCount: event.registrations?.[0]?.count ?? 0,
+      chapterName: event.chapters?.name || '',
+      chapterSlug: event.chapters?.slug ? getUrlSlugFromDbSlug(event.chapters.slug) : '',
+      status: event.status ?? 'scheduled',
+    }))
+  }
+)
+
+export async function getEventsInRange(
+  from: string,
+  to: string,
+  urlSlug: string | null = null
+): Promise<EventListing[]> {
+  return unstable_cache(
+    async () => getEventsInRangeInner(from, to, urlSlug),
+    [`events-in-range-${from}-${to}-${urlSlug ?? 'all'}`],
+    {
+      tags: urlSlug ? ['events', `chapter-${urlSlug}`] : ['events'],
+    }
+  )()
+}
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -221,6 +302,9 @@ export interface EventDetails {
   cueSheetUrl: string | null // PDF cue sheet download URL
   description: string | null // Optional markdown event description
   imageUrl: string | null // Optional event image URL
+  maxRiders: number | null // Rider limit; null for no limit
+  registrationOpensAt: string | null // Effective window (event override or chapter default), ISO
+  registrationClosesAt: string | null
 }
 
 /**
@@ -332,7 +416,10 @@ const getEventBySlugInner = cache(async (slug: string): Promise<EventDetails | n
       event_type,
       description,
       image_url,
-      chapters (name, slug),
+      max_riders,
+      registration_opens_at,
+      registration_closes_at,
+      chapters (name, slug, registration_opens_days_before, registration_closes_hours_before),
       routes (slug, rwgps_id, cue_sheet_url)
     `
     )
@@ -350,6 +437,11 @@ const getEventBySlugInner = cache(async (slug: string): Promise<EventDetails | n
   // Type assertion for the query result with joins
   const typedEvent = event as EventWithRelations
   const dbChapterSlug = typedEvent.chapters?.slug
+  // Permanents are self-scheduled and follow their own advance-notice rule
+  const registrationWindow =
+    typedEvent.event_type === 'permanent'
+      ? { opensAt: null, closesAt: null }
+      : resolveRegistrationWindow(typedEvent, typedEvent.chapters)
   return {
     id: typedEvent.id,
     slug: typedEvent.slug,
@@ -366,6 +458,9 @@ const getEventBySlugInner = cache(async (slug: string): Promise<EventDetails | n
     cueSheetUrl: typedEvent.routes?.cue_sheet_url || null,
     description: typedEvent.description || null,
     imageUrl: typedEvent.image_url || null,
+    maxRiders: typedEvent.max_riders ?? null,
+    registrationOpensAt: registrationWindow.opensAt?.toISOString() ?? null,
+    registrationClosesAt: registrationWindow.closesAt?.toISOString() ?? null,
   }
 })
 
@@ -37,7 +37,7 @@ const CACHE_TTL_CURRENT = 3600 // 1 hour
 
 // Helper to convert RPC result to RiderRecord array
 function toRiderRecords(
-  data: Array<{ rank: number; rider_slug: string; rider_name: string; value: number }> | null
+  data: Array<{ rank: number; rider_slug: string | null; rider_name: string; value: number }> | null
 ): RiderRecord[] {
   if (!data) return []
   return data.map((row) => ({
@@ -53,7 +53,7 @@ function toSeasonRiderRecords(
   data: Array<{
     rank: number
     season: number
-    rider_slug: string
+    rider_slug: string | null
     rider_name: string
     value: number
   }> | null
@@ -106,7 +106,7 @@ function toRouteRecords(
 function toRiderTimeRecords(
   data: Array<{
     rank: number
-    rider_slug: string
+    rider_slug: string | null
     rider_name: string
     finish_time: string
     event_date: string
@@ -126,7 +126,7 @@ function toRiderTimeRecords(
 function toStreakRecords(
   data: Array<{
     rank: number
-    rider_slug: string
+    rider_slug: string | null
     rider_name: string
     streak_length: number
     streak_end_season: number
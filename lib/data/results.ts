@@ -69,12 +69,12 @@ const getAvailableYearsInner = cache(async (urlSlug: string): Promise<number[]>
 
   let events: EventWithSeasonAndResults[] | null = null
 
-  // Collection-based query (e.g., granite-anvil)
+  // Series-based query (e.g., granite-anvil), by event_series.collection
   if (dbSlug === null) {
     const { data } = await getSupabase()
       .from('events')
-      .select('id, season, results(season)')
-      .eq('collection', urlSlug)
+      .select('id, season, results(season), event_series!inner(collection)')
+      .eq('event_series.collection', urlSlug)
       .limit(2000)
     events = data
   } else if (urlSlug === 'permanent') {
@@ -148,7 +148,7 @@ const getChapterResultsInner = cache(
     let events: EventWithPublicResults[] | null = null
     let eventsError: Error | null = null
 
-    // Collection-based query (e.g., granite-anvil)
+    // Series-based query (e.g., granite-anvil), by event_series.collection
     if (dbSlug === null) {
       const result = await getSupabase()
         .from('events')
@@ -156,12 +156,13 @@ const getChapterResultsInner = cache(
           `
         id, name, event_date, distance_km,
         routes (slug),
+        event_series!inner (collection),
         public_results (
           id, finish_time, status, team_name, rider_slug, first_name, last_name
         )
       `
         )
-        .eq('collection', urlSlug)
+        .eq('event_series.collection', urlSlug)
         .gte('event_date', `${year}-01-01`)
         .lte('event_date', `${year}-12-31`)
         .order('event_date', { ascending: true })
@@ -20,9 +20,17 @@ import {
   getDbSlug,
   getUrlSlugFromDbSlug,
 } from '@/lib/chapter-config'
-import { formatFinishTime, formatStatus, parseFinishTimeToMinutes } from '@/lib/utils'
+import { formatFinishTime, formatStatus } from '@/lib/utils'
 import { handleDataError } from '@/lib/errors'
-import type { RouteWithChapter, RouteWithChapterName, RouteBasic } from '@/types/queries'
+import { toControlDefinition } from '@/lib/controls'
+import type {
+  ControlRow,
+  RouteWithChapter,
+  RouteWithChapterName,
+  RouteBasic,
+  GetRouteRecordProgressionResult,
+} from '@/types/queries'
+import type { ControlDefinition } from '@/types/control-card'
 
 // Re-export chapter utilities for convenience
 export { getChapterInfo, getAllChapterSlugs }
@@ -106,7 +114,7 @@ const getRouteResultsInner = cache(async (routeSlug: string): Promise<RouteResul
 
   if (!events) return []
 
-  // Collect all result IDs to check for First Brevet awards
+  // Collect all result IDs to check for First Brevet and Course Record awards
   type EventWithResults = (typeof events)[number]
   const allResultIds: string[] = []
   for (const event of events as EventWithResults[]) {
@@ -117,46 +125,20 @@ const getRouteResultsInner = cache(async (routeSlug: string): Promise<RouteResul
     }
   }
 
-  // Query for First Brevet awards
+  // Both awards are assigned by the award engine (lib/awards/engine.ts)
   const firstBrevetResultIds = new Set<string>()
+  const courseRecordResultIds = new Set<string>()
   if (allResultIds.length > 0) {
     const { data: awardData } = await getSupabase()
       .from('result_awards')
       .select('result_id, awards!inner(title)')
       .in('result_id', allResultIds)
-      .eq('awards.title', 'First Brevet')
+      .in('awards.title', ['First Brevet', 'Course Record'])
 
     if (awardData) {
-      for (const award of awardData) {
-        firstBrevetResultIds.add(award.result_id)
-      }
-    }
-  }
-
-  // Find the course record (fastest finish time across all results)
-  // Track all result IDs with the fastest time to handle ties
-  const courseRecordResultIds = new Set<string>()
-  let fastestTimeMinutes: number | null = null
-
-  for (const event of events as EventWithResults[]) {
-    const eventResults = event.public_results
-    if (!eventResults) continue
-
-    for (const result of eventResults) {
-      // Only consider finished results with valid times
-      if (result.status !== 'finished' || !result.finish_time || !result.id) continue
-
-      const timeInMinutes = parseFinishTimeToMinutes(result.finish_time as string)
-      if (timeInMinutes === null) continue
-
-      if (fastestTimeMinutes === null || timeInMinutes < fastestTimeMinutes) {
-        // New fastest time - clear previous records and add this one
-        fastestTimeMinutes = timeInMinutes
-        courseRecordResultIds.clear()
-        courseRecordResultIds.add(result.id)
-      } else if (timeInMinutes === fastestTimeMinutes) {
-        // Tie - add to existing records
-        courseRecordResultIds.add(result.id)
+      for (const award of awardData as Array<{ result_id: string; awards: { title: string } }>) {
+        if (award.awards.title === 'First Brevet') firstBrevetResultIds.add(award.result_id)
+        else courseRecordResultIds.add(award.result_id)
       }
     }
   }
@@ -207,6 +189,82 @@ export async function getRouteResults(routeSlug: string): Promise<RouteResultEve
   )()
 }
 
+export interface RouteRecordEntry {
+  date: string
+  time: string
+  riderName: string
+  riderSlug: string | null
+  /** Still the course record (several entries when tied) */
+  isCurrent: boolean
+}
+
+function getCourseRecordRider(row: GetRouteRecordProgressionResult) {
+  // The record stands, but riders who left the records tables aren't named
+  if (row.rider_excluded) return { riderName: 'Private rider', riderSlug: null }
+  return { riderName: row.rider_name ?? 'Unknown rider', riderSlug: row.rider_slug }
+}
+
+const getRouteRecordProgressionInner = cache(
+  async (routeSlug: string): Promise<RouteRecordEntry[]> => {
+    // Names come back masked for the rider's privacy settings
+    const { data, error } = await getSupabase().rpc('get_route_record_progression', {
+      p_route_slug: routeSlug,
+    })
+
+    if (error) {
+      return handleDataError(
+        error,
+        { operation: 'getRouteRecordProgression', context: { routeSlug } },
+        []
+      )
+    }
+
+    return (data ?? []).map((row: GetRouteRecordProgressionResult) => ({
+      date: row.set_on,
+      time: formatFinishTime(row.finish_time),
+      ...getCourseRecordRider(row),
+      isCurrent: row.superseded_at === null,
+    }))
+  }
+)
+
+/**
+ * Every time the course record for a route was set or tied, oldest first.
+ */
+export async function getRouteRecordProgression(routeSlug: string): Promise<RouteRecordEntry[]> {
+  return unstable_cache(
+    async () => getRouteRecordProgressionInner(routeSlug),
+    [`route-record-progression-${routeSlug}`],
+    {
+      tags: ['routes', 'results', `route-${routeSlug}`],
+    }
+  )()
+}
+
+const getRouteControlsInner = cache(async (routeSlug: string): Promise<ControlDefinition[]> => {
+  const { data, error } = await getSupabase()
+    .from('route_controls')
+    .select('name, distance_km, address, control_type, info_question, routes!inner(slug)')
+    .eq('routes.slug', routeSlug)
+    .order('position', { ascending: true })
+
+  if (error) {
+    return handleDataError(error, { operation: 'getRouteControls', context: { routeSlug } }, [])
+  }
+
+  return ((data as ControlRow[]) ?? []).map(toControlDefinition)
+})
+
+export async function getRouteControls(routeSlug: string): Promise<ControlDefinition[]> {
+  return unstable_cache(
+    async () => getRouteControlsInner(routeSlug),
+    [`route-controls-${routeSlug}`],
+    {
+      tags: ['routes', `route-${routeSlug}`],
+    }
+  )()
+}
+
 // Distance categories in display order
 const DISTANCE_CATEGORIES = [
   { name: 'Populaires', min: 0, max: 199 },
@@ -299,6 +357,7 @@ export interface ActiveRoute {
   distanceKm: number | null
   chapterId: string | null
   chapterName: string | null
+  chapterSlug: string | null // URL slug, e.g. "simcoe-muskoka"
 }
 
 const getActiveRoutesInner = cache(async (): Promise<ActiveRoute[]> => {
@@ -311,7 +370,7 @@ const getActiveRoutesInner = cache(async (): Promise<ActiveRoute[]> => {
       slug,
       distance_km,
       chapter_id,
-      chapters (name)
+      chapters (name, slug)
     `
     )
     .eq('is_active', true)
@@ -332,6 +391,7 @@ const getActiveRoutesInner = cache(async (): Promise<ActiveRoute[]> => {
     distanceKm: route.distance_km,
     chapterId: route.chapter_id,
     chapterName: route.chapters?.name ?? null,
+    chapterSlug: route.chapters?.slug ? getUrlSlugFromDbSlug(route.chapters.slug) : null,
   }))
 })
 
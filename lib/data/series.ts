@@ -0,0 +1,216 @@
+/**
+ * Event Series Data Fetching Module
+ *
+ * READ operations for event series (Devil Week, Granite Anvil): the series
+ * page with its events and the live progress board.
+ *
+ * @see lib/series/completion.ts for the completion rules
+ * @see docs/DATA_LAYER.md for data layer documentation
+ */
+import { cache } from 'react'
+import { unstable_cache } from 'next/cache'
+import { getSupabase } from '@/lib/supabase'
+import { formatFinishTime, formatStatus } from '@/lib/utils'
+import { handleDataError } from '@/lib/errors'
+import { resolveRegistrationWindow } from '@/lib/registrations/window'
+import { describeSeriesRule, isSeriesComplete, type SeriesRule } from '@/lib/series/completion'
+import type { EventSeriesWithEvents } from '@/types/queries'
+
+export interface SeriesLeg {
+  id: string
+  slug: string
+  name: string
+  date: string
+  startTime: string
+  startLocation: string
+  distance: number
+  status: string | null
+  registrationOpensAt: string | null // Effective window (event override or chapter default), ISO
+  registrationClosesAt: string | null
+}
+
+export interface SeriesDetails {
+  id: string
+  slug: string
+  name: string
+  description: string | null
+  season: number
+  awardTitle: string | null
+  rule: SeriesRule
+  ruleDescription: string
+  legs: SeriesLeg[]
+}
+
+export interface SeriesProgressEntry {
+  /** Result status (finished, dnf, …) or registration status (registered, waitlisted) */
+  status: string
+  /** Finish time for finished results, otherwise the formatted status */
+  label: string
+}
+
+export interface SeriesProgressRow {
+  /** Null for riders who have only registered or have no public profile */
+  riderSlug: string | null
+  name: string
+  /** Keyed by event id */
+  legs: Record<string, SeriesProgressEntry>
+  finished: number
+  complete: boolean
+}
+
+const RESULT_STATUSES = ['finished', 'dnf', 'dns', 'otl', 'dq']
+
+function getProgressLabel(status: string, finishTime: string | null): string {
+  if (status === 'finished') return formatFinishTime(finishTime)
+  if (status === 'registered') return 'Registered'
+  if (status === 'waitlisted') return 'Waitlisted'
+  return formatStatus(status) ?? status
+}
+
+const getSeriesBySlugInner = cache(async (slug: string): Promise<SeriesDetails | null> => {
+  const { data, error } = await getSupabase()
+    .from('event_series')
+    .select(
+      `
+      *,
+      awards (title),
+      events (
+        id, slug, name, event_date, start_time, start_location, distance_km, event_type, status,
+        registration_opens_at, registration_closes_at,
+        chapters (registration_opens_days_before, registration_closes_hours_before)
+      )
+    `
+    )
+    .eq('slug', slug)
+    .single()
+
+  if (error || !data) {
+    if (error && error.code !== 'PGRST116') {
+      return handleDataError(error, { operation: 'getSeriesBySlug', context: { slug } }, null)
+    }
+    return null
+  }
+
+  const series = data as EventSeriesWithEvents
+  const rule: SeriesRule = {
+    requiredDistances: series.required_distances,
+    minEvents: series.min_events,
+  }
+
+  const legs = series.events
+    .filter((event) => event.status !== 'cancelled')
+    .sort((a, b) => a.event_date.localeCompare(b.event_date) || b.distance_km - a.distance_km)
+    .map((event) => {
+      const registrationWindow = resolveRegistrationWindow(event, event.chapters)
+      return {
+        id: event.id,
+        slug: event.slug,
+        name: event.name,
+        date: event.event_date,
+        startTime: event.start_time || '08:00',
+        startLocation: event.start_location || '',
+        distance: event.distance_km,
+        status: event.status,
+        registrationOpensAt: registrationWindow.opensAt?.toISOString() ?? null,
+        registrationClosesAt: registrationWindow.closesAt?.toISOString() ?? null,
+      }
+    })
+
+  return {
+    id: series.id,
+    slug: series.slug,
+    name: series.name,
+    description: series.description,
+    season: series.season,
+    awardTitle: series.awards?.title ?? null,
+    rule,
+    ruleDescription: describeSeriesRule(rule),
+    legs,
+  }
+})
+
+export async function getSeriesBySlug(slug: string): Promise<SeriesDetails | null> {
+  return unstable_cache(async () => getSeriesBySlugInner(slug), [`series-by-slug-${slug}`], {
+    tags: ['events', 'series', `series-${slug}`],
+  })()
+}
+
+/**
+ * Progress board for a series: each rider's result or registration for every
+ * event, and whether they've completed the series. Riders who chose not to
+ * share their registration are left out until they have a result.
+ */
+const getSeriesProgressInner = cache(async (slug: string): Promise<SeriesProgressRow[]> => {
+  const series = await getSeriesBySlugInner(slug)
+  if (!series) return []
+
+  const { data, error } = await getSupabase().rpc('get_series_progress', {
+    p_series_id: series.id,
+  })
+
+  if (error) {
+    return handleDataError(error, { operation: 'getSeriesProgress', context: { slug } }, [])
+  }
+
+  const distances = new Map(series.legs.map((leg) => [leg.id, leg.distance]))
+  const riders = new Map<
+    string,
+    {
+      slug: string | null
+      firstName: string
+      lastName: string
+      legs: Record<string, SeriesProgressEntry>
+      hasResults: boolean
+    }
+  >()
+
+  for (const entry of data ?? []) {
+    if (!distances.has(entry.event_id)) continue
+
+    // Riders without a public profile have no slug, so key by id
+    const rider = riders.get(entry.rider_id) ?? {
+      slug: entry.rider_slug,
+      firstName: entry.first_name,
+      lastName: entry.last_name,
+      legs: {},
+      hasResults: false,
+    }
+    rider.legs[entry.event_id] = {
+      status: entry.status,
+      label: getProgressLabel(entry.status, entry.finish_time),
+    }
+    if (RESULT_STATUSES.includes(entry.status)) rider.hasResults = true
+    riders.set(entry.rider_id, rider)
+  }
+
+  return [...riders.values()]
+    .map((rider) => {
+      const finishedDistances = Object.entries(rider.legs)
+        .filter(([, leg]) => leg.status === 'finished')
+        .map(([eventId]) => distances.get(eventId)!)
+
+      // Riders with results are shown by full name, as on the results pages;
+      // registrants as "First L.", as on the event page
+      return {
+        riderSlug: rider.hasResults ? rider.slug : null,
+        name: rider.hasResults
+          ? `${rider.firstName} ${rider.lastName}`.trim()
+          : `${rider.firstName} ${rider.lastName ? `${rider.lastName.charAt(0)}.` : ''}`.trim(),
+        legs: rider.legs,
+        finished: finishedDistances.length,
+        complete: isSeriesComplete(finishedDistances, series.rule),
+      }
+    })
+    .sort(
+      (a, b) =>
+        Number(b.complete) - Number(a.complete) ||
+        b.finished - a.finished ||
+        a.name.localeCompare(b.name)
+    )
+})
+
+export async function getSeriesProgress(slug: string): Promise<SeriesProgressRow[]> {
+  return unstable_cache(async () => getSeriesProgressInner(slug), [`series-progress-${slug}`], {
+    tags: ['results', 'registrations', `series-${slug}`],
+  })()
+}
@@ -0,0 +1,67 @@
+/**
+ * Chapter contacts by role
+ *
+ * Admin notifications resolve their recipients from the chapters table
+ * (edited on /admin/chapters) rather than from addresses in code.
+ */
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logError } from '@/lib/errors'
+
+export type ChapterContactRole = 'vp' | 'route_coordinator' | 'treasurer'
+
+export interface ChapterContacts {
+  vp_email: string | null
+  route_coordinator_email: string | null
+  treasurer_email: string | null
+}
+
+/**
+ * Pick the address for a role. Chapters without a route coordinator send
+ * permanent requests to their VP.
+ */
+export function resolveContactEmail(
+  contacts: ChapterContacts | null,
+  role: ChapterContactRole
+): string | null {
+  if (!contacts) return null
+  switch (role) {
+    case 'vp':
+      return contacts.vp_email || null
+    case 'route_coordinator':
+      return contacts.route_coordinator_email || contacts.vp_email || null
+    case 'treasurer':
+      return contacts.treasurer_email || null
+  }
+}
+
+export async function getChapterContacts(chapterSlug: string): Promise<ChapterContacts | null> {
+  if (!chapterSlug) return null
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('chapters')
+    .select('vp_email, route_coordinator_email, treasurer_email')
+    .eq('slug', chapterSlug)
+    .maybeSingle()
+
+  if (error) {
+    logError(error, { operation: 'getChapterContacts', context: { chapterSlug } })
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Addresses for the given roles in a chapter, without duplicates (one person
+ * often holds more than one role). Roles with no address are skipped.
+ */
+export async function getChapterContactEmails(
+  chapterSlug: string,
+  roles: ChapterContactRole[]
+): Promise<string[]> {
+  const contacts = await getChapterContacts(chapterSlug)
+  const emails = roles
+    .map((role) => resolveContactEmail(contacts, role))
+    .filter((email): email is string => !!email)
+  return [...new Set(emails)]
+}
@@ -0,0 +1,250 @@
+/**
+ * Email outbox
+ *
+ * Every outbound email is stored in email_outbox before it's sent, so nothing
+ * is lost when delivery fails. queueEmail() stores the message and tries to
+ * send it straight away; failed messages are retried with backoff by
+ * processEmailOutbox() (the /api/cron/send-emails worker) until they run out
+ * of attempts. Admins can inspect and resend messages on /admin/emails.
+ */
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logError } from '@/lib/errors'
+import { fromEmail } from './sendgrid'
+import { getEmailTransport, type EmailAttachment } from './transport'
+import type { EmailOutbox, EmailOutboxInsert } from '@/types/queries'
+
+export type EmailKind =
+  | 'registration_confirmation'
+  | 'waitlist_promotion'
+  | 'registration_change'
+  | 'result_submission_request'
+  | 'result_submission_reminder'
+  | 'results_submission'
+  | 'results_digest'
+  | 'event_reminder'
+  | 'event_roster'
+  | 'permanent_request_update'
+
+export interface OutboxEmail {
+  kind: EmailKind
+  to: string | string[]
+  cc?: string[]
+  replyTo?: string
+  subject: string
+  text: string
+  html?: string
+  attachments?: EmailAttachment[]
+  /** Links the message to a rider and/or event for the admin emails page */
+  riderId?: string | null
+  eventId?: string | null
+}
+
+export interface QueueEmailResult {
+  /** Null if the message couldn't be stored */
+  emailId: string | null
+  /** Delivered on the first attempt; otherwise it's retried by the worker */
+  sent: boolean
+  error?: string
+}
+
+// Minutes to wait after each failed attempt; the last delay repeats
+const RETRY_DELAYS_MINUTES = [5, 15, 60, 240]
+
+// A 'sending' row older than this belongs to a worker that died mid-send
+const STALE_SENDING_MINUTES = 15
+
+export function getRetryDelayMinutes(attempts: number): number {
+  return RETRY_DELAYS_MINUTES[Math.min(Math.max(attempts, 1), RETRY_DELAYS_MINUTES.length) - 1]
+}
+
+/**
+ * What happens to a message after a failed attempt: retried later, or given
+ * up on once it has used all its attempts.
+ */
+export function planDeliveryFailure(
+  attempts: number,
+  maxAttempts: number,
+  now: Date
+): { status: 'pending' | 'failed'; nextAttemptAt: string | null } {
+  if (attempts >= maxAttempts) {
+    return { status: 'failed', nextAttemptAt: null }
+  }
+  return {
+    status: 'pending',
+    nextAttemptAt: new Date(now.getTime() + getRetryDelayMinutes(attempts) * 60_000).toISOString(),
+  }
+}
+
+/**
+ * Try to send one stored message. The row is claimed first (pending →
+ * sending), so a message is never sent twice by overlapping workers.
+ */
+async function deliverEmail(email: EmailOutbox): Promise<boolean> {
+  const supabase = getSupabaseAdmin()
+  const attempts = email.attempts + 1
+
+  const { data: claimed } = await supabase
+    .from('email_outbox')
+    .update({ status: 'sending', attempts })
+    .eq('id', email.id)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle()
+
+  if (!claimed) return false
+
+  const transport = getEmailTransport()
+
+  try {
+    await transport.send({
+      to: email.to_emails,
+      cc: email.cc_emails,
+      replyTo: email.reply_to ?? undefined,
+      from: fromEmail,
+      subject: email.subject,
+      text: email.text_body,
+      html: email.html_body ?? undefined,
+      attachments: email.attachments as unknown as EmailAttachment[],
+    })
+
+    await supabase
+      .from('email_outbox')
+      .update({
+        status: 'sent',
+        sent_at: new Date().toISOString(),
+        last_error: null,
+        transport: transport.name,
+      })
+      .eq('id', email.id)
+
+    return true
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown email error'
+    const plan = planDeliveryFailure(attempts, email.max_attempts, new Date())
+
+    logError(error, {
+      operation: 'deliverEmail',
+      context: { emailId: email.id, kind: email.kind, attempts },
+    })
+
+    await supabase
+      .from('email_outbox')
+      .update({
+        status: plan.status,
+        next_attempt_at: plan.nextAttemptAt ?? email.next_attempt_at,
+        last_error: message,
+        transport: transport.name,
+      })
+      .eq('id', email.id)
+
+    return false
+  }
+}
+
+async function insertAndDeliver(row: EmailOutboxInsert): Promise<QueueEmailResult> {
+  const { data: email, error } = await getSupabaseAdmin()
+    .from('email_outbox')
+    .insert(row)
+    .select('*')
+    .single()
+
+  if (error || !email) {
+    logError(error, { operation: 'queueEmail', context: { kind: row.kind } })
+    return { emailId: null, sent: false, error: error?.message || 'Failed to queue email' }
+  }
+
+  const sent = await deliverEmail(email)
+  return sent
+    ? { emailId: email.id, sent }
+    : { emailId: email.id, sent, error: 'Delivery failed; it will be retried' }
+}
+
+/**
+ * Store an email in the outbox and try to send it now.
+ */
+export async function queueEmail(email: OutboxEmail): Promise<QueueEmailResult> {
+  return insertAndDeliver({
+    kind: email.kind,
+    to_emails: Array.isArray(email.to) ? email.to : [email.to],
+    cc_emails: email.cc ?? [],
+    reply_to: email.replyTo ?? null,
+    subject: email.subject,
+    text_body: email.text,
+    html_body: email.html ?? null,
+    attachments: (email.attachments ?? []) as unknown as EmailOutboxInsert['attachments'],
+    rider_id: email.riderId ?? null,
+    event_id: email.eventId ?? null,
+  })
+}
+
+/**
+ * Send a stored message again as a new outbox row (the original keeps its
+ * delivery history).
+ */
+export async function requeueEmail(emailId: string): Promise<QueueEmailResult> {
+  const { data: original, error } = await getSupabaseAdmin()
+    .from('email_outbox')
+    .select('*')
+    .eq('id', emailId)
+    .single()
+
+  if (error || !original) {
+    return { emailId: null, sent: false, error: 'Email not found' }
+  }
+
+  return insertAndDeliver({
+    kind: original.kind,
+    to_emails: original.to_emails,
+    cc_emails: original.cc_emails,
+    reply_to: original.reply_to,
+    subject: original.subject,
+    text_body: original.text_body,
+    html_body: original.html_body,
+    attachments: original.attachments,
+    rider_id: original.rider_id,
+    event_id: original.event_id,
+    resend_of: original.id,
+  })
+}
+
+export interface ProcessOutboxResult {
+  processed: number
+  sent: number
+  failed: number
+}
+
+/**
+ * Retry due messages (the worker). Messages left 'sending' by a worker that
+ * died are put back in the queue first.
+ */
+export async function processEmailOutbox(limit = 50): Promise<ProcessOutboxResult> {
+  const supabase = getSupabaseAdmin()
+  const now = new Date()
+
+  await supabase
+    .from('email_outbox')
+    .update({ status: 'pending' })
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(now.getTime() - STALE_SENDING_MINUTES * 60_000).toISOString())
+
+  const { data: due, error } = await supabase
+    .from('email_outbox')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    logError(error, { operation: 'processEmailOutbox' })
+    return { processed: 0, sent: 0, failed: 0 }
+  }
+
+  let sent = 0
+  for (const email of due ?? []) {
+    if (await deliverEmail(email)) sent++
+  }
+
+  const processed = due?.length ?? 0
+  return { processed, sent, failed: processed - sent }
+}
@@ -1,45 +1,140 @@
-import { sendgrid, fromEmail, suppressAdminEmails } from './sendgrid'
-import { buildRegistrationConfirmationEmail, type RegistrationEmailData } from './templates'
-import { getVpEmail } from './vp-emails'
-import { logError } from '@/lib/errors'
+import { suppressAdminEmails } from './sendgrid'
+import {
+  buildRegistrationConfirmationEmail,
+  buildWaitlistPromotionEmail,
+  buildRegistrationChangeEmail,
+  buildPermanentRequestUpdateEmail,
+  type RegistrationEmailData,
+  type WaitlistPromotionEmailData,
+  type RegistrationChangeEmailData,
+  type PermanentRequestUpdateEmailData,
+} from './templates'
+import { getChapterContactEmails, type ChapterContactRole } from './chapter-contacts'
+import { queueEmail, type QueueEmailResult } from './outbox'
 
 export interface SendEmailResult {
   success: boolean
   error?: string
 }
 
+function toSendEmailResult(result: QueueEmailResult): SendEmailResult {
+  return result.sent ? { success: true } : { success: false, error: result.error }
+}
+
+/**
+ * Chapter contacts copied on a confirmation: the VP, or the route coordinator
+ * for a permanent request, plus the treasurer when membership couldn't be
+ * verified.
+ */
+function getConfirmationContactRoles(data: RegistrationEmailData): ChapterContactRole[] {
+  const roles: ChapterContactRole[] = [data.eventType === 'Permanent' ? 'route_coordinator' : 'vp']
+  if (data.membershipStatus === 'none' || data.membershipStatus === 'trial-used') {
+    roles.push('treasurer')
+  }
+  return roles
+}
+
 export async function sendRegistrationConfirmationEmail(
   data: RegistrationEmailData
 ): Promise<SendEmailResult> {
-  // Check if SendGrid is configured
-  if (!process.env.SENDGRID_API_KEY) {
-    console.warn('SendGrid API key not configured, skipping email')
+  const { subject, text, html } = buildRegistrationConfirmationEmail(data)
+  const contactEmails = suppressAdminEmails
+    ? []
+    : await getChapterContactEmails(data.chapterSlug, getConfirmationContactRoles(data))
+
+  const result = await queueEmail({
+    kind: 'registration_confirmation',
+    to: data.registrantEmail,
+    cc: contactEmails,
+    replyTo: contactEmails[0],
+    subject,
+    text,
+    html,
+    riderId: data.riderId,
+    eventId: data.eventId,
+  })
+
+  return toSendEmailResult(result)
+}
+
+export async function sendWaitlistPromotionEmail(
+  data: WaitlistPromotionEmailData
+): Promise<SendEmailResult> {
+  const { subject, text, html } = buildWaitlistPromotionEmail(data)
+  const contactEmails = suppressAdminEmails
+    ? []
+    : await getChapterContactEmails(data.chapterSlug, ['vp'])
+
+  const result = await queueEmail({
+    kind: 'waitlist_promotion',
+    to: data.riderEmail,
+    cc: contactEmails,
+    replyTo: contactEmails[0],
+    subject,
+    text,
+    html,
+    riderId: data.riderId,
+    eventId: data.eventId,
+  })
+
+  return toSendEmailResult(result)
+}
+
+/**
+ * Notify the chapter VP that a rider changed their registration.
+ * Skipped when admin emails are suppressed or the chapter has no VP address.
+ */
+export async function sendRegistrationChangeNotification(
+  data: RegistrationChangeEmailData
+): Promise<SendEmailResult> {
+  if (suppressAdminEmails) {
     return { success: true }
   }
 
-  const { subject, text, html } = buildRegistrationConfirmationEmail(data)
-  const vpEmail = getVpEmail(data.chapterSlug)
-
-  try {
-    await sendgrid.send({
-      to: data.registrantEmail,
-      from: fromEmail,
-      replyTo: suppressAdminEmails ? undefined : vpEmail || undefined,
-      cc: suppressAdminEmails ? undefined : vpEmail || undefined,
-      subject,
-      text,
-      html,
-    })
-
-    console.log('Registration email sent successfully')
+  const [vpEmail] = await getChapterContactEmails(data.chapterSlug, ['vp'])
+  if (!vpEmail) {
     return { success: true }
-  } catch (error) {
-    logError(error, {
-      operation: 'sendRegistrationConfirmationEmail',
-    })
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown email error',
-    }
   }
+
+  const { subject, text, html } = buildRegistrationChangeEmail(data)
+
+  const result = await queueEmail({
+    kind: 'registration_change',
+    to: vpEmail,
+    replyTo: data.riderEmail || undefined,
+    subject,
+    text,
+    html,
+    riderId: data.riderId,
+    eventId: data.eventId,
+  })
+
+  return toSendEmailResult(result)
+}
+
+/**
+ * Tell a rider the route coordinator approved, rejected or proposed a change
+ * to their permanent request. Replies go to the coordinator.
+ */
+export async function sendPermanentRequestUpdateEmail(
+  data: PermanentRequestUpdateEmailData
+): Promise<SendEmailResult> {
+  const { subject, text, html } = buildPermanentRequestUpdateEmail(data)
+  const contactEmails = suppressAdminEmails
+    ? []
+    : await getChapterContactEmails(data.chapterSlug, ['route_coordinator'])
+
+  const result = await queueEmail({
+    kind: 'permanent_request_update',
+    to: data.riderEmail,
+    cc: contactEmails,
+    replyTo: contactEmails[0],
+    subject,
+    text,
+    html,
+    riderId: data.riderId,
+    eventId: data.eventId,
+  })
+
+  return toSendEmailResult(result)
 }
@@ -24,7 +24,17 @@ export interface RegistrationEmailData {
   routeUrl?: string
   notes?: string
   membershipType?: string
-  membershipStatus?: 'valid' | 'none' | 'trial-used'
+  /** 'pending-review': CCN found several possible members and an admin is picking one */
+  membershipStatus?: 'valid' | 'none' | 'trial-used' | 'pending-review'
+  /** Set when the event was full and the rider was added to the waitlist */
+  waitlisted?: boolean
+  /** Set for permanents awaiting the route coordinator's approval */
+  pendingApproval?: boolean
+  /** Self-service link for cancelling or changing the registration */
+  manageUrl?: string
+  /** Rider and event the email is about (outbox log, not shown in the email) */
+  riderId?: string
+  eventId?: string
 }
 
 export function buildRegistrationConfirmationEmail(data: RegistrationEmailData): {
@@ -33,7 +43,11 @@ export function buildRegistrationConfirmationEmail(data: RegistrationEmailData):
   html: string
 } {
   const rideName = `${data.eventName} ${data.eventDistance}`
-  const subject = `Registration Received: ${rideName}`
+  const subject = data.waitlisted
+    ? `Waitlisted: ${rideName}`
+    : data.pendingApproval
+      ? `Permanent Request Received: ${rideName}`
+      : `Registration Received: ${rideName}`
 
   // Escape user-supplied values for safe HTML interpolation
   const safe = {
@@ -46,6 +60,7 @@ export function buildRegistrationConfirmationEmail(data: RegistrationEmailData):
     notes: data.notes ? escapeHtml(data.notes) : '(none)',
     membershipType: data.membershipType ? escapeHtml(data.membershipType) : '',
     routeUrl: data.routeUrl ? escapeHtml(data.routeUrl) : '',
+    manageUrl: data.manageUrl ? escapeHtml(data.manageUrl) : '',
   }
 
   // Membership warning for text version
@@ -68,7 +83,16 @@ Your trial membership was used for a previous event this season. Please upgrade
 ---
 
 `
-        : ''
+        : data.membershipStatus === 'pending-review'
+          ? `
+We're confirming your membership
+
+Your name matches more than one member in the club's membership records, so a club volunteer is checking which one is you. Your registration will be confirmed once that's done. You don't need to do anything unless we get in touch.
+
+---
+
+`
+          : ''
 
   // Membership warning for HTML version
   const membershipWarningHtml =
@@ -94,7 +118,65 @@ Your trial membership was used for a previous event this season. Please upgrade
     </p>
   </div>
 `
-        : ''
+        : data.membershipStatus === 'pending-review'
+          ? `
+  <div style="background-color: #fffbeb; border: 1px solid #fde68a; border-radius: 8px; padding: 16px; margin: 16px 0;">
+    <p style="color: #b45309; font-weight: 600; margin: 0 0 8px 0;">We're confirming your membership</p>
+    <p style="color: #78350f; margin: 0;">
+      Your name matches more than one member in the club's membership records, so a club
+      volunteer is checking which one is you. Your registration will be confirmed once that's
+      done. You don't need to do anything unless we get in touch.
+    </p>
+  </div>
+`
+          : ''
+
+  // Waitlist notice (only shown when membership is valid - otherwise the warning takes priority)
+  const waitlistNoticeText =
+    data.waitlisted && data.membershipStatus === 'valid'
+      ? `
+This event is currently full, so you've been added to the waitlist. If a spot opens up we'll move you onto the start list automatically and email you.
+
+---
+
+`
+      : ''
+
+  const waitlistNoticeHtml =
+    data.waitlisted && data.membershipStatus === 'valid'
+      ? `
+  <div style="background-color: #fffbeb; border: 1px solid #fde68a; border-radius: 8px; padding: 16px; margin: 16px 0;">
+    <p style="color: #b45309; font-weight: 600; margin: 0 0 8px 0;">You're on the waitlist</p>
+    <p style="color: #78350f; margin: 0;">
+      This event is currently full. If a spot opens up we'll move you onto the start list
+      automatically and email you.
+    </p>
+  </div>
+`
+      : ''
+
+  // Permanent approval notice
+  const approvalNoticeText = data.pendingApproval
+    ? `
+Your permanent request has been sent to the ${data.chapterName} route coordinator for approval. We'll email you once it's approved, or if they need to suggest a different date, start time or start location.
+
+---
+
+`
+    : ''
+
+  const approvalNoticeHtml = data.pendingApproval
+    ? `
+  <div style="background-color: #eff6ff; border: 1px solid #bfdbfe; border-radius: 8px; padding: 16px; margin: 16px 0;">
+    <p style="color: #1d4ed8; font-weight: 600; margin: 0 0 8px 0;">Awaiting approval</p>
+    <p style="color: #1e3a8a; margin: 0;">
+      Your permanent request has been sent to the ${safe.chapterName} route coordinator for approval.
+      We'll email you once it's approved, or if they need to suggest a different date, start time or
+      start location.
+    </p>
+  </div>
+`
+    : ''
 
   // Membership type row for table (only if valid)
   const membershipTypeRow =
@@ -125,9 +207,26 @@ Your trial membership was used for a previous event this season. Please upgrade
 
   const routeSection = data.routeUrl ? `Route: ${data.routeUrl}` : ''
 
+  const manageSectionText = data.manageUrl
+    ? `
+Can't make it, or need to update your details? Manage your registration here:
+${data.manageUrl}
+`
+    : ''
+
+  const manageSectionHtml = data.manageUrl
+    ? `
+  <p style="background-color: #f5f5f5; padding: 12px 16px; border-radius: 6px; font-size: 14px;">
+    Can't make it, or need to update your details?
+    <a href="${safe.manageUrl}" style="color: #0066cc;">Manage your registration</a>.
+    This link is unique to you - please don't share it with others.
+  </p>
+`
+    : ''
+
   const text = `
 Hi ${data.registrantName},
-${membershipWarningText}
+${membershipWarningText}${waitlistNoticeText}${approvalNoticeText}
 Thanks for your interest in our ${rideName}. We've received your registration request and we'll be following up if we need anything more.
 
 Rider name: ${data.registrantName}
@@ -138,7 +237,7 @@ Start time: ${data.eventTime} ${data.eventDate}
 Start location: ${data.eventLocation}
 ${membershipTypeRow}
 ${notesSection}
-
+${manageSectionText}
 --------------------
 Brevet Rules
 --------------------
@@ -177,7 +276,7 @@ https://randonneursontario.ca
 </head>
 <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
   <p>Hi ${safe.registrantName},</p>
-${membershipWarningHtml}
+${membershipWarningHtml}${waitlistNoticeHtml}${approvalNoticeHtml}
   <p>Thanks for your interest in our <strong>${safe.rideName}</strong>. We've received your registration request and we'll be following up if we need anything more.</p>
 
   <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
@@ -208,7 +307,7 @@ ${membershipWarningHtml}
       <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.notes}</td>
     </tr>
   </table>
-
+${manageSectionHtml}
   <h2 style="font-size: 18px; margin-bottom: 16px;">Brevet Rules</h2>
   <ul style="padding-left: 20px; margin: 0 0 24px 0;">
     <li>Be an active member of Randonneurs Ontario and Ontario Cycling.</li>
@@ -253,6 +352,11 @@ export interface ResultSubmissionEmailData {
   eventDistance: number
   chapterName: string
   submissionUrl: string
+  /** Set for follow-up reminders to riders who haven't submitted yet */
+  reminder?: {
+    deadline: string // e.g. "June 28, 2025"
+    deadlineAction: 'flag' | 'dns'
+  }
 }
 
 export function buildResultSubmissionRequestEmail(data: ResultSubmissionEmailData): {
@@ -261,7 +365,17 @@ export function buildResultSubmissionRequestEmail(data: ResultSubmissionEmailDat
   html: string
 } {
   const rideName = `${data.eventName} ${data.eventDistance}km`
-  const subject = `Submit Your Results: ${rideName}`
+  const subject = data.reminder
+    ? `Reminder: Submit Your Results: ${rideName}`
+    : `Submit Your Results: ${rideName}`
+
+  const introText = data.reminder
+    ? `We haven't received your results for the ${rideName} yet. Please submit them by ${data.reminder.deadline}${
+        data.reminder.deadlineAction === 'dns'
+          ? ", after which you'll be listed as DNS (did not start)"
+          : ''
+      }.`
+    : `The ${rideName} has finished! Please submit your results using the link below.`
 
   // Escape user-supplied values for safe HTML interpolation
   const safe = {
@@ -272,10 +386,20 @@ export function buildResultSubmissionRequestEmail(data: ResultSubmissionEmailDat
     submissionUrl: escapeHtml(data.submissionUrl),
   }
 
+  const introHtml = data.reminder
+    ? `We haven't received your results for the <strong>${safe.rideName}</strong> yet. Please submit them by ${escapeHtml(
+        data.reminder.deadline
+      )}${
+        data.reminder.deadlineAction === 'dns'
+          ? ", after which you'll be listed as DNS (did not start)"
+          : ''
+      }.`
+    : `The <strong>${safe.rideName}</strong> has finished! Please submit your results using the button below.`
+
   const text = `
 Hi ${data.riderName},
 
-The ${rideName} has finished! Please submit your results using the link below.
+${introText}
 
 Event: ${rideName}
 Date: ${data.eventDate}
@@ -310,7 +434,7 @@ https://randonneursontario.ca
 <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
   <p>Hi ${safe.riderName},</p>
 
-  <p>The <strong>${safe.rideName}</strong> has finished! Please submit your results using the button below.</p>
+  <p>${introHtml}</p>
 
   <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
     <tr>
@@ -359,3 +483,922 @@ https://randonneursontario.ca
 
   return { subject, text, html }
 }
+
+export interface WaitlistPromotionEmailData {
+  riderName: string
+  riderEmail: string
+  eventName: string
+  eventDate: string
+  eventTime: string
+  eventLocation: string
+  eventDistance: number
+  chapterName: string
+  chapterSlug: string
+  eventUrl: string
+  manageUrl?: string
+  /** Rider and event the email is about (outbox log, not shown in the email) */
+  riderId?: string
+  eventId?: string
+}
+
+export function buildWaitlistPromotionEmail(data: WaitlistPromotionEmailData): {
+  subject: string
+  text: string
+  html: string
+} {
+  const rideName = `${data.eventName} ${data.eventDistance}km`
+  const subject = `You're In: ${rideName}`
+
+  // Escape user-supplied values for safe HTML interpolation
+  const safe = {
+    riderName: escapeHtml(data.riderName),
+    rideName: escapeHtml(rideName),
+    eventDate: escapeHtml(data.eventDate),
+    eventTime: escapeHtml(data.eventTime),
+    eventLocation: escapeHtml(data.eventLocation),
+    chapterName: escapeHtml(data.chapterName),
+    eventUrl: escapeHtml(data.eventUrl),
+    manageUrl: data.manageUrl ? escapeHtml(data.manageUrl) : '',
+  }
+
+  const cancelText = data.manageUrl
+    ? `If you can no longer make it, please cancel here so the spot can go to the next rider on the waitlist:
+${data.manageUrl}`
+    : `If you can no longer make it, please let the ${data.chapterName} Chapter VP know so the spot can go to the next rider on the waitlist.`
+
+  const cancelHtml = data.manageUrl
+    ? `If you can no longer make it, please <a href="${safe.manageUrl}" style="color: #0066cc;">cancel your registration</a> so the spot can go to the next rider on the waitlist.`
+    : `If you can no longer make it, please let the ${safe.chapterName} Chapter VP know so the spot can go to the next rider on the waitlist.`
+
+  const text = `
+Hi ${data.riderName},
+
+Good news! A spot has opened up on the ${rideName} and you've been moved from the waitlist onto the start list.
+
+Event: ${rideName}
+Chapter: ${data.chapterName}
+Start time: ${data.eventTime} ${data.eventDate}
+Start location: ${data.eventLocation}
+
+Event details: ${data.eventUrl}
+
+${cancelText}
+
+See you on the road,
+
+Randonneurs Ontario
+https://randonneursontario.ca
+  `.trim()
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <p>Hi ${safe.riderName},</p>
+
+  <p>Good news! A spot has opened up on the <strong>${safe.rideName}</strong> and you've been moved from the waitlist onto the start list.</p>
+
+  <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600; width: 180px;">Event</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.rideName}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Chapter</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.chapterName}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Start time</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.eventTime} ${safe.eventDate}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; font-weight: 600;">Start location</td>
+      <td style="padding: 8px 0;">${safe.eventLocation}</td>
+    </tr>
+  </table>
+
+  <p style="text-align: center; margin: 32px 0;">
+    <a href="${safe.eventUrl}" style="display: inline-block; background-color: #0066cc; color: white; padding: 12px 32px; text-decoration: none; border-radius: 6px; font-weight: 600;">View Event Details</a>
+  </p>
+
+  <p>${cancelHtml}</p>
+
+  <p>See you on the road,</p>
+
+  <p>
+    <strong>Randonneurs Ontario</strong><br>
+    <a href="https://randonneursontario.ca" style="color: #0066cc;">randonneursontario.ca</a>
+  </p>
+</body>
+</html>
+  `.trim()
+
+  return { subject, text, html }
+}
+
+export interface RegistrationChangeEmailData {
+  riderName: string
+  riderEmail: string
+  eventName: string
+  eventDate: string
+  eventDistance: number
+  chapterName: string
+  chapterSlug: string
+  /** Short label for the subject line, e.g. "Cancelled" */
+  changeLabel: string
+  /** One line per field that changed, e.g. "Start time: 7:00 AM → 6:00 AM" */
+  changes: string[]
+  /** Rider and event the email is about (outbox log, not shown in the email) */
+  riderId?: string
+  eventId?: string
+}
+
+/**
+ * Notification to the chapter VP when a rider changes their own registration
+ * through the self-service manage link.
+ */
+export function buildRegistrationChangeEmail(data: RegistrationChangeEmailData): {
+  subject: string
+  text: string
+  html: string
+} {
+  const rideName = `${data.eventName} ${data.eventDistance}km`
+  const subject = `Registration ${data.changeLabel}: ${data.riderName} - ${rideName}`
+
+  // Escape user-supplied values for safe HTML interpolation
+  const safe = {
+    riderName: escapeHtml(data.riderName),
+    riderEmail: escapeHtml(data.riderEmail),
+    rideName: escapeHtml(rideName),
+    eventDate: escapeHtml(data.eventDate),
+    chapterName: escapeHtml(data.chapterName),
+    changes: data.changes.map(escapeHtml),
+  }
+
+  const text = `
+${data.riderName} has updated their registration for the ${rideName}.
+
+Rider: ${data.riderName} (${data.riderEmail})
+Event: ${rideName}
+Date: ${data.eventDate}
+Chapter: ${data.chapterName}
+
+Changes:
+${data.changes.map((change) => `- ${change}`).join('\n')}
+
+This change was made by the rider using the link in their registration confirmation email.
+  `.trim()
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <p><strong>${safe.riderName}</strong> has updated their registration for the <strong>${safe.rideName}</strong>.</p>
+
+  <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600; width: 120px;">Rider</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.riderName} (${safe.riderEmail})</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Event</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.rideName}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Date</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.eventDate}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; font-weight: 600;">Chapter</td>
+      <td style="padding: 8px 0;">${safe.chapterName}</td>
+    </tr>
+  </table>
+
+  <h2 style="font-size: 18px; margin-bottom: 16px;">Changes</h2>
+  <ul style="padding-left: 20px; margin: 0 0 24px 0;">
+    ${safe.changes.map((change) => `<li>${change}</li>`).join('\n    ')}
+  </ul>
+
+  <p style="color: #666; font-size: 14px;">This change was made by the rider using the link in their registration confirmation email.</p>
+</body>
+</html>
+  `.trim()
+
+  return { subject, text, html }
+}
+
+export interface EventReminderControl {
+  name: string
+  distanceKm: number
+  address: string | null
+}
+
+export interface EventReminderEmailData {
+  riderName: string
+  riderEmail: string
+  eventName: string
+  eventDate: string
+  eventTime: string
+  eventLocation: string
+  eventDistance: number
+  chapterName: string
+  eventUrl: string
+  routeUrl?: string
+  controls: EventReminderControl[]
+  /** Chapter checklist, one item per line */
+  checklist?: string | null
+  organizerEmail?: string | null
+  manageUrl?: string
+  /** Rider and event the email is about (outbox log, not shown in the email) */
+  riderId?: string
+  eventId?: string
+}
+
+/**
+ * Split a chapter checklist into items, dropping blank lines and list markers.
+ */
+function getChecklistItems(checklist: string | null | undefined): string[] {
+  return (checklist ?? '')
+    .split('\n')
+    .map((line) => line.replace(/^\s*[-*•]\s*/, '').trim())
+    .filter(Boolean)
+}
+
+function formatControlDistance(km: number): string {
+  return `${Number.isInteger(km) ? km : km.toFixed(1)} km`
+}
+
+/**
+ * Pre-ride reminder sent to each registered rider a few days before the start.
+ */
+export function buildEventReminderEmail(data: EventReminderEmailData): {
+  subject: string
+  text: string
+  html: string
+} {
+  const rideName = `${data.eventName} ${data.eventDistance}km`
+  const subject = `Ride Reminder: ${rideName} on ${data.eventDate}`
+  const checklist = getChecklistItems(data.checklist)
+
+  // Escape user-supplied values for safe HTML interpolation
+  const safe = {
+    riderName: escapeHtml(data.riderName),
+    rideName: escapeHtml(rideName),
+    eventDate: escapeHtml(data.eventDate),
+    eventTime: escapeHtml(data.eventTime),
+    eventLocation: escapeHtml(data.eventLocation),
+    chapterName: escapeHtml(data.chapterName),
+    eventUrl: escapeHtml(data.eventUrl),
+    routeUrl: data.routeUrl ? escapeHtml(data.routeUrl) : '',
+    organizerEmail: data.organizerEmail ? escapeHtml(data.organizerEmail) : '',
+    manageUrl: data.manageUrl ? escapeHtml(data.manageUrl) : '',
+    checklist: checklist.map(escapeHtml),
+  }
+
+  const controlsText =
+    data.controls.length > 0
+      ? data.controls
+          .map(
+            (control) =>
+              `- ${formatControlDistance(control.distanceKm)}: ${control.name}${
+                control.address ? ` (${control.address})` : ''
+              }`
+          )
+          .join('\n')
+      : 'See the route for controls.'
+
+  const controlsHtml =
+    data.controls.length > 0
+      ? `
+  <table style="width: 100%; border-collapse: collapse; margin: 0 0 24px 0;">
+    ${data.controls
+      .map(
+        (control) => `<tr>
+      <td style="padding: 6px 0; border-bottom: 1px solid #eee; font-weight: 600; width: 80px; vertical-align: top;">${escapeHtml(formatControlDistance(control.distanceKm))}</td>
+      <td style="padding: 6px 0; border-bottom: 1px solid #eee;">${escapeHtml(control.name)}${
+        control.address
+          ? `<br><span style="color: #666; font-size: 14px;">${escapeHtml(control.address)}</span>`
+          : ''
+      }</td>
+    </tr>`
+      )
+      .join('\n    ')}
+  </table>`
+      : `
+  <p>See the route for controls.</p>`
+
+  const checklistText =
+    checklist.length > 0
+      ? `
+Before you ride:
+${checklist.map((item) => `- ${item}`).join('\n')}
+`
+      : ''
+
+  const checklistHtml =
+    safe.checklist.length > 0
+      ? `
+  <h2 style="font-size: 18px; margin-bottom: 16px;">Before You Ride</h2>
+  <ul style="padding-left: 20px; margin: 0 0 24px 0;">
+    ${safe.checklist.map((item) => `<li>${item}</li>`).join('\n    ')}
+  </ul>`
+      : ''
+
+  const routeText = data.routeUrl ? `Route: ${data.routeUrl}\n` : ''
+
+  const routeRowHtml = data.routeUrl
+    ? `
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Route</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;"><a href="${safe.routeUrl}" style="color: #0066cc;">View the route</a></td>
+    </tr>`
+    : ''
+
+  const organizerText = data.organizerEmail
+    ? `Questions? Contact the organizer at ${data.organizerEmail}.`
+    : `Questions? Contact the ${data.chapterName} Chapter VP.`
+
+  const organizerHtml = data.organizerEmail
+    ? `Questions? Contact the organizer at <a href="mailto:${safe.organizerEmail}" style="color: #0066cc;">${safe.organizerEmail}</a>.`
+    : `Questions? Contact the ${safe.chapterName} Chapter VP.`
+
+  const manageText = data.manageUrl
+    ? `
+Can't make it? Please cancel so your spot can go to someone else:
+${data.manageUrl}
+`
+    : ''
+
+  const manageHtml = data.manageUrl
+    ? `
+  <p style="background-color: #f5f5f5; padding: 12px 16px; border-radius: 6px; font-size: 14px;">
+    Can't make it? Please <a href="${safe.manageUrl}" style="color: #0066cc;">cancel your registration</a> so your spot can go to someone else.
+  </p>`
+    : ''
+
+  const text = `
+Hi ${data.riderName},
+
+The ${rideName} is coming up. Here's what you need for the start.
+
+Event: ${rideName}
+Chapter: ${data.chapterName}
+Start time: ${data.eventTime} ${data.eventDate}
+Start location: ${data.eventLocation}
+${routeText}Event details: ${data.eventUrl}
+
+Controls:
+${controlsText}
+${checklistText}${manageText}
+${organizerText}
+
+See you on the road,
+
+Randonneurs Ontario
+https://randonneursontario.ca
+  `.trim()
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <p>Hi ${safe.riderName},</p>
+
+  <p>The <strong>${safe.rideName}</strong> is coming up. Here's what you need for the start.</p>
+
+  <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600; width: 180px;">Event</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.rideName}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Chapter</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.chapterName}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Start time</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.eventTime} ${safe.eventDate}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Start location</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.eventLocation}</td>
+    </tr>${routeRowHtml}
+  </table>
+
+  <h2 style="font-size: 18px; margin-bottom: 16px;">Controls</h2>${controlsHtml}
+${checklistHtml}
+
+  <p style="text-align: center; margin: 32px 0;">
+    <a href="${safe.eventUrl}" style="display: inline-block; background-color: #0066cc; color: white; padding: 12px 32px; text-decoration: none; border-radius: 6px; font-weight: 600;">View Event Details</a>
+  </p>
+${manageHtml}
+
+  <p>${organizerHtml}</p>
+
+  <p>See you on the road,</p>
+
+  <p>
+    <strong>Randonneurs Ontario</strong><br>
+    <a href="https://randonneursontario.ca" style="color: #0066cc;">randonneursontario.ca</a>
+  </p>
+</body>
+</html>
+  `.trim()
+
+  return { subject, text, html }
+}
+
+export interface EventRosterRider {
+  name: string
+  email: string | null
+  emergencyContactName: string | null
+  emergencyContactPhone: string | null
+}
+
+export interface EventRosterEmailData {
+  eventName: string
+  eventDate: string
+  eventTime: string
+  eventLocation: string
+  eventDistance: number
+  chapterName: string
+  riders: EventRosterRider[]
+  waitlistedCount: number
+  adminEventUrl: string
+  /** Event the email is about (outbox log, not shown in the email) */
+  eventId?: string
+}
+
+/**
+ * Final roster sent to the organizer once registration closes, with each
+ * rider's emergency contact for the day.
+ */
+export function buildEventRosterEmail(data: EventRosterEmailData): {
+  subject: string
+  text: string
+  html: string
+} {
+  const rideName = `${data.eventName} ${data.eventDistance}km`
+  const subject = `Roster: ${rideName} on ${data.eventDate} (${data.riders.length} riders)`
+
+  // Escape user-supplied values for safe HTML interpolation
+  const safe = {
+    rideName: escapeHtml(rideName),
+    eventDate: escapeHtml(data.eventDate),
+    eventTime: escapeHtml(data.eventTime),
+    eventLocation: escapeHtml(data.eventLocation),
+    chapterName: escapeHtml(data.chapterName),
+    adminEventUrl: escapeHtml(data.adminEventUrl),
+  }
+
+  const formatEmergencyContact = (rider: EventRosterRider): string =>
+    [rider.emergencyContactName, rider.emergencyContactPhone].filter(Boolean).join(', ') ||
+    'Not provided'
+
+  const ridersText =
+    data.riders.length > 0
+      ? data.riders
+          .map(
+            (rider, index) =>
+              `${index + 1}. ${rider.name}${rider.email ? ` <${rider.email}>` : ''}\n   Emergency contact: ${formatEmergencyContact(rider)}`
+          )
+          .join('\n')
+      : 'No riders are registered.'
+
+  const ridersHtml =
+    data.riders.length > 0
+      ? `
+  <table style="width: 100%; border-collapse: collapse; margin: 0 0 24px 0; font-size: 14px;">
+    <tr>
+      <th style="padding: 6px 4px; border-bottom: 2px solid #ddd; text-align: left;">#</th>
+      <th style="padding: 6px 4px; border-bottom: 2px solid #ddd; text-align: left;">Rider</th>
+      <th style="padding: 6px 4px; border-bottom: 2px solid #ddd; text-align: left;">Emergency contact</th>
+    </tr>
+    ${data.riders
+      .map(
+        (rider, index) => `<tr>
+      <td style="padding: 6px 4px; border-bottom: 1px solid #eee; vertical-align: top;">${index + 1}</td>
+      <td style="padding: 6px 4px; border-bottom: 1px solid #eee; vertical-align: top;">${escapeHtml(rider.name)}${
+        rider.email ? `<br><span style="color: #666;">${escapeHtml(rider.email)}</span>` : ''
+      }</td>
+      <td style="padding: 6px 4px; border-bottom: 1px solid #eee; vertical-align: top;">${escapeHtml(formatEmergencyContact(rider))}</td>
+    </tr>`
+      )
+      .join('\n    ')}
+  </table>`
+      : `
+  <p>No riders are registered.</p>`
+
+  const waitlistText =
+    data.waitlistedCount > 0 ? `\n${data.waitlistedCount} more on the waitlist.\n` : ''
+
+  const waitlistHtml =
+    data.waitlistedCount > 0 ? `\n  <p>${data.waitlistedCount} more on the waitlist.</p>` : ''
+
+  const text = `
+Registration for the ${rideName} has closed. Here is the final roster.
+
+Event: ${rideName}
+Chapter: ${data.chapterName}
+Start time: ${data.eventTime} ${data.eventDate}
+Start location: ${data.eventLocation}
+
+Registered riders (${data.riders.length}):
+${ridersText}
+${waitlistText}
+Late changes and the full registration list are on the event page:
+${data.adminEventUrl}
+  `.trim()
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <p>Registration for the <strong>${safe.rideName}</strong> has closed. Here is the final roster.</p>
+
+  <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600; width: 180px;">Event</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.rideName}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Chapter</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.chapterName}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Start time</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.eventTime} ${safe.eventDate}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; font-weight: 600;">Start location</td>
+      <td style="padding: 8px 0;">${safe.eventLocation}</td>
+    </tr>
+  </table>
+
+  <h2 style="font-size: 18px; margin-bottom: 16px;">Registered Riders (${data.riders.length})</h2>${ridersHtml}${waitlistHtml}
+
+  <p style="color: #666; font-size: 14px;">Late changes and the full registration list are on the <a href="${safe.adminEventUrl}" style="color: #0066cc;">event page</a>.</p>
+</body>
+</html>
+  `.trim()
+
+  return { subject, text, html }
+}
+
+export interface ResultsDigestRider {
+  name: string
+  email: string | null
+  /** Link to the rider's row in the admin results manager */
+  adminUrl: string
+}
+
+export interface ResultsDigestEmailData {
+  eventName: string
+  eventDate: string
+  eventDistance: number
+  chapterName: string
+  /** Riders whose result is still pending (or was just marked DNS) */
+  riders: ResultsDigestRider[]
+  /** What just happened, e.g. "Reminder 1 of 2 sent" */
+  stepLabel: string
+  deadline: string
+  deadlineAction: 'flag' | 'dns'
+  /** True once the deadline has passed and the action has been applied */
+  deadlinePassed: boolean
+  adminEventUrl: string
+  /** Event the email is about (outbox log, not shown in the email) */
+  eventId?: string
+}
+
+/**
+ * Digest for the organizer listing riders who haven't submitted their
+ * result, sent at each follow-up step.
+ */
+export function buildResultsDigestEmail(data: ResultsDigestEmailData): {
+  subject: string
+  text: string
+  html: string
+} {
+  const rideName = `${data.eventName} ${data.eventDistance}km`
+  const subject = data.deadlinePassed
+    ? `Results Deadline Passed: ${rideName} (${data.riders.length} without results)`
+    : `Awaiting Results: ${rideName} (${data.riders.length} not yet submitted)`
+
+  // Escape user-supplied values for safe HTML interpolation
+  const safe = {
+    rideName: escapeHtml(rideName),
+    eventDate: escapeHtml(data.eventDate),
+    chapterName: escapeHtml(data.chapterName),
+    stepLabel: escapeHtml(data.stepLabel),
+    adminEventUrl: escapeHtml(data.adminEventUrl),
+  }
+
+  const outcome = data.deadlinePassed
+    ? data.deadlineAction === 'dns'
+      ? 'The submission deadline has passed and these riders have been marked DNS. Change any that are wrong on the event page before submitting results.'
+      : 'The submission deadline has passed. These riders are flagged on the event page; please follow up or enter their results before submitting.'
+    : `These riders haven't submitted their results yet. They'll be ${
+        data.deadlineAction === 'dns' ? 'marked DNS' : 'flagged'
+      } if there's no response by ${data.deadline}.`
+
+  const ridersText = data.riders
+    .map((rider) => `- ${rider.name}${rider.email ? ` <${rider.email}>` : ''}\n  ${rider.adminUrl}`)
+    .join('\n')
+
+  const ridersHtml = data.riders
+    .map(
+      (rider) =>
+        `<li><a href="${escapeHtml(rider.adminUrl)}" style="color: #0066cc;">${escapeHtml(rider.name)}</a>${
+          rider.email ? ` <span style="color: #666;">${escapeHtml(rider.email)}</span>` : ''
+        }</li>`
+    )
+    .join('\n    ')
+
+  const text = `
+${data.stepLabel} for the ${rideName}.
+
+Event: ${rideName}
+Date: ${data.eventDate}
+Chapter: ${data.chapterName}
+
+${outcome}
+
+Without results (${data.riders.length}):
+${ridersText}
+
+Enter results on the event page:
+${data.adminEventUrl}
+  `.trim()
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <p>${safe.stepLabel} for the <strong>${safe.rideName}</strong>.</p>
+
+  <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600; width: 120px;">Event</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.rideName}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600;">Date</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${safe.eventDate}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; font-weight: 600;">Chapter</td>
+      <td style="padding: 8px 0;">${safe.chapterName}</td>
+    </tr>
+  </table>
+
+  <p>${escapeHtml(outcome)}</p>
+
+  <h2 style="font-size: 18px; margin-bottom: 16px;">Without Results (${data.riders.length})</h2>
+  <ul style="padding-left: 20px; margin: 0 0 24px 0;">
+    ${ridersHtml}
+  </ul>
+
+  <p style="text-align: center; margin: 32px 0;">
+    <a href="${safe.adminEventUrl}" style="display: inline-block; background-color: #0066cc; color: white; padding: 12px 32px; text-decoration: none; border-radius: 6px; font-weight: 600;">Open Event Results</a>
+  </p>
+</body>
+</html>
+  `.trim()
+
+  return { subject, text, html }
+}
+
+export interface PermanentRequestControl {
+  name: string
+  distanceKm: number
+  /** Opening and closing times, e.g. "Sat 08:29" */
+  opens: string
+  closes: string
+}
+
+export interface PermanentRequestUpdateEmailData {
+  riderName: string
+  riderEmail: string
+  eventName: string
+  eventDistance: number
+  chapterName: string
+  decision: 'approved' | 'rejected' | 'proposed'
+  /** The ride as it stands (as approved, or as requested) */
+  eventDate: string
+  eventTime: string
+  eventLocation: string
+  /** The coordinator's proposal, for 'proposed' */
+  proposed?: { eventDate: string; eventTime: string; eventLocation: string }
+  /** The coordinator's note to the rider */
+  note?: string | null
+  /** Control card times, for 'approved' */
+  controls?: PermanentRequestControl[]
+  chapterSlug: string
+  routeUrl?: string
+  manageUrl?: string
+  /** Rider and event the email is about (outbox log, not shown in the email) */
+  riderId?: string
+  eventId?: string
+}
+
+/**
+ * Sent to each rider on a permanent request when the route coordinator
+ * approves it, rejects it or proposes a change.
+ */
+export function buildPermanentRequestUpdateEmail(data: PermanentRequestUpdateEmailData): {
+  subject: string
+  text: string
+  html: string
+} {
+  const rideName = `${data.eventName} ${data.eventDistance}km`
+  const subject = {
+    approved: `Permanent Approved: ${rideName} on ${data.eventDate}`,
+    rejected: `Permanent Request Declined: ${rideName}`,
+    proposed: `Change Proposed: ${rideName}`,
+  }[data.decision]
+
+  // Escape user-supplied values for safe HTML interpolation
+  const safe = {
+    riderName: escapeHtml(data.riderName),
+    rideName: escapeHtml(rideName),
+    chapterName: escapeHtml(data.chapterName),
+    eventDate: escapeHtml(data.eventDate),
+    eventTime: escapeHtml(data.eventTime),
+    eventLocation: escapeHtml(data.eventLocation),
+    note: data.note ? escapeHtml(data.note) : '',
+    routeUrl: data.routeUrl ? escapeHtml(data.routeUrl) : '',
+    manageUrl: data.manageUrl ? escapeHtml(data.manageUrl) : '',
+  }
+
+  const introText = {
+    approved: `Your permanent ride ${rideName} has been approved by the ${data.chapterName} route coordinator. You're all set!`,
+    rejected: `Unfortunately the ${data.chapterName} route coordinator couldn't approve your permanent ride ${rideName} on ${data.eventDate}.`,
+    proposed: `The ${data.chapterName} route coordinator has proposed a change to your permanent ride ${rideName}. Please review it below.`,
+  }[data.decision]
+
+  const introHtml = {
+    approved: `Your permanent ride <strong>${safe.rideName}</strong> has been approved by the ${safe.chapterName} route coordinator. You're all set!`,
+    rejected: `Unfortunately the ${safe.chapterName} route coordinator couldn't approve your permanent ride <strong>${safe.rideName}</strong> on ${safe.eventDate}.`,
+    proposed: `The ${safe.chapterName} route coordinator has proposed a change to your permanent ride <strong>${safe.rideName}</strong>. Please review it below.`,
+  }[data.decision]
+
+  const noteText = data.note ? `\nNote from the coordinator:\n${data.note}\n` : ''
+  const noteHtml = data.note
+    ? `
+  <div style="background-color: #f5f5f5; border-radius: 8px; padding: 16px; margin: 16px 0;">
+    <p style="font-weight: 600; margin: 0 0 8px 0;">Note from the coordinator</p>
+    <p style="margin: 0; white-space: pre-line;">${safe.note}</p>
+  </div>
+`
+    : ''
+
+  // Details: the proposal next to the original request, or the ride as it stands
+  const detailRows: [string, string][] =
+    data.decision === 'proposed' && data.proposed
+      ? [
+          ['Date', `${data.eventDate} → ${data.proposed.eventDate}`],
+          ['Start time', `${data.eventTime} → ${data.proposed.eventTime}`],
+          ['Start location', `${data.eventLocation} → ${data.proposed.eventLocation}`],
+        ]
+      : [
+          ['Date', data.eventDate],
+          ['Start time', data.eventTime],
+          ['Start location', data.eventLocation],
+        ]
+
+  const detailsText = [['Ride', rideName], ...detailRows]
+    .map(([label, value]) => `${label}: ${value}`)
+    .join('\n')
+
+  const detailsHtml = [['Ride', rideName], ...detailRows]
+    .map(
+      ([label, value]) => `<tr>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee; font-weight: 600; width: 140px;">${escapeHtml(label)}</td>
+      <td style="padding: 8px 0; border-bottom: 1px solid #eee;">${escapeHtml(value)}</td>
+    </tr>`
+    )
+    .join('\n    ')
+
+  const controls = data.decision === 'approved' ? (data.controls ?? []) : []
+  const controlsText =
+    controls.length > 0
+      ? `
+Controls:
+${controls
+  .map(
+    (control) =>
+      `- ${formatControlDistance(control.distanceKm)}: ${control.name} (open ${control.opens}, close ${control.closes})`
+  )
+  .join('\n')}
+`
+      : ''
+
+  const controlsHtml =
+    controls.length > 0
+      ? `
+  <h2 style="font-size: 18px; margin-bottom: 16px;">Controls</h2>
+  <table style="width: 100%; border-collapse: collapse; margin: 0 0 24px 0;">
+    ${controls
+      .map(
+        (control) => `<tr>
+      <td style="padding: 6px 0; border-bottom: 1px solid #eee; font-weight: 600; width: 80px; vertical-align: top;">${escapeHtml(formatControlDistance(control.distanceKm))}</td>
+      <td style="padding: 6px 0; border-bottom: 1px solid #eee;">${escapeHtml(control.name)}<br><span style="color: #666; font-size: 14px;">Open ${escapeHtml(control.opens)} · Close ${escapeHtml(control.closes)}</span></td>
+    </tr>`
+      )
+      .join('\n    ')}
+  </table>`
+      : ''
+
+  const nextStepText = {
+    approved: data.manageUrl
+      ? `Your control card will be ready at the start. If you can no longer make it, cancel here:\n${data.manageUrl}`
+      : 'Your control card will be ready at the start.',
+    rejected:
+      'You are welcome to request another date or route. Just reply to this email if you have any questions.',
+    proposed: data.manageUrl
+      ? `Accept the change, or cancel your request, here:\n${data.manageUrl}`
+      : 'Reply to this email to accept the change.',
+  }[data.decision]
+
+  const nextStepHtml = {
+    approved: data.manageUrl
+      ? `Your control card will be ready at the start. If you can no longer make it, please <a href="${safe.manageUrl}" style="color: #0066cc;">cancel your registration</a>.`
+      : 'Your control card will be ready at the start.',
+    rejected:
+      'You are welcome to request another date or route. Just reply to this email if you have any questions.',
+    proposed: data.manageUrl
+      ? `<a href="${safe.manageUrl}" style="color: #0066cc;">Accept the change, or cancel your request</a>.`
+      : 'Reply to this email to accept the change.',
+  }[data.decision]
+
+  const routeText = data.routeUrl ? `\nRoute: ${data.routeUrl}\n` : ''
+  const routeHtml = data.routeUrl
+    ? `
+  <p><a href="${safe.routeUrl}" style="color: #0066cc;">View the route</a></p>`
+    : ''
+
+  const text = `
+Hi ${data.riderName},
+
+${introText}
+${noteText}
+${detailsText}
+${routeText}${controlsText}
+${nextStepText}
+
+See you on the road,
+
+Randonneurs Ontario
+https://randonneursontario.ca
+  `.trim()
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <p>Hi ${safe.riderName},</p>
+
+  <p>${introHtml}</p>
+${noteHtml}
+  <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
+    ${detailsHtml}
+  </table>
+${routeHtml}${controlsHtml}
+  <p>${nextStepHtml}</p>
+
+  <p>See you on the road,</p>
+
+  <p>
+    <strong>Randonneurs Ontario</strong><br>
+    <a href="https://randonneursontario.ca" style="color: #0066cc;">randonneursontario.ca</a>
+  </p>
+</body>
+</html>
+  `.trim()
+
+  return { subject, text, html }
+}
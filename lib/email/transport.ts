@@ -0,0 +1,109 @@
+/**
+ * Email transports
+ *
+ * The outbox hands each message to a transport. SendGrid is used in
+ * production; local dev and tests can log to the console or write each message
+ * to a file instead. Chosen with EMAIL_TRANSPORT ('sendgrid', 'console' or
+ * 'file'); without it, SendGrid is used when SENDGRID_API_KEY is set and the
+ * console otherwise.
+ */
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { sendgrid } from './sendgrid'
+
+export interface EmailAttachment {
+  filename: string
+  type: string
+  /** Base64-encoded */
+  content: string
+}
+
+export interface EmailMessage {
+  to: string[]
+  cc?: string[]
+  replyTo?: string
+  from: string
+  subject: string
+  text: string
+  html?: string
+  attachments?: EmailAttachment[]
+}
+
+export interface EmailTransport {
+  name: string
+  /** Throws if the message couldn't be sent */
+  send(message: EmailMessage): Promise<void>
+}
+
+export const sendgridTransport: EmailTransport = {
+  name: 'sendgrid',
+  async send(message) {
+    await sendgrid.send({
+      to: message.to,
+      cc: message.cc && message.cc.length > 0 ? message.cc : undefined,
+      replyTo: message.replyTo,
+      from: message.from,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments?.map((attachment) => ({
+        ...attachment,
+        disposition: 'attachment',
+      })),
+    })
+  },
+}
+
+export const consoleTransport: EmailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(
+      `[email] To: ${message.to.join(', ')}${
+        message.cc?.length ? ` Cc: ${message.cc.join(', ')}` : ''
+      } Subject: ${message.subject}`
+    )
+  },
+}
+
+/**
+ * Write each message to `dir` as JSON, one file per message.
+ */
+export function createFileTransport(dir: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(dir, { recursive: true })
+      const slug = message.subject
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .slice(0, 60)
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}.json`
+      await writeFile(path.join(dir, fileName), JSON.stringify(message, null, 2))
+    },
+  }
+}
+
+let transportOverride: EmailTransport | null = null
+
+/**
+ * Replace the transport (tests). Pass null to go back to the configured one.
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  transportOverride = transport
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (transportOverride) return transportOverride
+
+  const configured =
+    process.env.EMAIL_TRANSPORT || (process.env.SENDGRID_API_KEY ? 'sendgrid' : 'console')
+
+  switch (configured) {
+    case 'sendgrid':
+      return sendgridTransport
+    case 'file':
+      return createFileTransport(process.env.EMAIL_FILE_DIR || '.emails')
+    default:
+      return consoleTransport
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Offline queue for day-of check-ins.
+ *
+ * The check-in console is used at the start, often on a phone with patchy
+ * signal, so taps are applied to the roster straight away and queued in
+ * localStorage until they can be synced. The queue keeps only the latest
+ * change per registration: checking a rider in and undoing it offline sends
+ * nothing stale to the server.
+ */
+
+export interface CheckInChange {
+  registrationId: string
+  /** When the rider was checked in, or null to undo a check-in */
+  checkedInAt: string | null
+}
+
+/** Pending changes, keyed by registration id */
+export type CheckInQueue = Record<string, CheckInChange>
+
+export function getCheckInQueueKey(eventId: string): string {
+  return `ro-check-ins-${eventId}`
+}
+
+/**
+ * Read a queue saved in localStorage, dropping anything malformed.
+ */
+export function parseCheckInQueue(raw: string | null): CheckInQueue {
+  if (!raw) return {}
+
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!parsed || typeof parsed !== 'object') return {}
+
+    const queue: CheckInQueue = {}
+    for (const change of Object.values(parsed)) {
+      if (
+        change &&
+        typeof change.registrationId === 'string' &&
+        (change.checkedInAt === null || typeof change.checkedInAt === 'string')
+      ) {
+        queue[change.registrationId] = {
+          registrationId: change.registrationId,
+          checkedInAt: change.checkedInAt,
+        }
+      }
+    }
+    return queue
+  } catch {
+    return {}
+  }
+}
+
+export function queueCheckIn(queue: CheckInQueue, change: CheckInChange): CheckInQueue {
+  return { ...queue, [change.registrationId]: change }
+}
+
+/**
+ * Drop changes the server has accepted. A change made while the sync was in
+ * flight replaces the queued one, so it stays queued for the next sync.
+ */
+export function removeSyncedChanges(queue: CheckInQueue, synced: CheckInChange[]): CheckInQueue {
+  const remaining = { ...queue }
+  for (const change of synced) {
+    if (remaining[change.registrationId]?.checkedInAt === change.checkedInAt) {
+      delete remaining[change.registrationId]
+    }
+  }
+  return remaining
+}
+
+/**
+ * The roster as the organizer last saw it: server state with unsynced
+ * changes on top.
+ */
+export function applyCheckInQueue<T extends { id: string; checked_in_at: string | null }>(
+  registrations: T[],
+  queue: CheckInQueue
+): T[] {
+  return registrations.map((registration) => {
+    const change = queue[registration.id]
+    return change ? { ...registration, checked_in_at: change.checkedInAt } : registration
+  })
+}
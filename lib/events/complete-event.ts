@@ -1,5 +1,5 @@
 import { getSupabaseAdmin } from '@/lib/supabase-server'
-import { sendgrid, fromEmail } from '@/lib/email/sendgrid'
+import { queueEmail } from '@/lib/email/outbox'
 import { buildResultSubmissionRequestEmail } from '@/lib/email/templates'
 import { format } from 'date-fns'
 import type {
@@ -32,7 +32,9 @@ export interface CompleteEventResult {
 
 /**
  * Creates pending results for all registered riders and sends them
- * emails with links to submit their own results.
+ * emails with links to submit their own results. Emails go through the
+ * outbox, so ones that fail now are retried by the send-emails worker;
+ * emailsSent counts those delivered straight away.
  *
  * This is called both by:
  * - The cron job when auto-completing events
@@ -136,23 +138,20 @@ export async function createPendingResultsAndSendEmails(
 
     const { subject, text, html } = buildResultSubmissionRequestEmail(emailData)
 
-    try {
-      if (process.env.SENDGRID_API_KEY) {
-        await sendgrid.send({
-          to: result.riderEmail,
-          from: fromEmail,
-          subject,
-          text,
-          html,
-        })
-        emailsSent++
-        console.log(`Sent result submission email for event ${event.name}`)
-      } else {
-        console.warn('SendGrid not configured, skipping result submission email')
-      }
-    } catch (emailError) {
-      const errorMessage = emailError instanceof Error ? emailError.message : 'Unknown error'
-      errors.push(`Failed to send result submission email: ${errorMessage}`)
+    const { emailId, sent, error: emailError } = await queueEmail({
+      kind: 'result_submission_request',
+      to: result.riderEmail,
+      subject,
+      text,
+      html,
+      riderId: result.riderId,
+      eventId: event.id,
+    })
+
+    if (sent) {
+      emailsSent++
+    } else if (!emailId) {
+      errors.push(`Failed to queue result submission email: ${emailError}`)
     }
   }
 
@@ -0,0 +1,79 @@
+import { createSlug } from '@/lib/utils'
+import type { EventForDayOf, RegistrationForDayOf } from '@/types/queries'
+
+/**
+ * Day-of roster for organizers: everyone expected at the start, with their
+ * rider number and emergency contact. The console builds the CSV in the
+ * browser, so the organizer can still download the roster with no signal.
+ */
+
+/** Registrations that are expected at the start (waitlisted riders aren't) */
+export const DAY_OF_REGISTRATION_STATUSES = ['registered', 'incomplete: membership']
+
+const ROSTER_COLUMNS = [
+  'Rider #',
+  'Last name',
+  'First name',
+  'Emergency contact',
+  'Emergency phone',
+  'Checked in',
+  'Membership',
+  'Notes',
+]
+
+/**
+ * Roster order: by last name, then first name, as riders give them at the start.
+ */
+export function sortDayOfRoster(registrations: RegistrationForDayOf[]): RegistrationForDayOf[] {
+  return [...registrations].sort(
+    (a, b) =>
+      (a.riders?.last_name ?? '').localeCompare(b.riders?.last_name ?? '') ||
+      (a.riders?.first_name ?? '').localeCompare(b.riders?.first_name ?? '')
+  )
+}
+
+function escapeCsvValue(value: string | number | null): string {
+  if (value === null) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Check-in time as the organizer's clock reads it, e.g. "06:58"
+ */
+export function formatCheckInTime(checkedInAt: string): string {
+  return new Date(checkedInAt).toLocaleTimeString('en-CA', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+    timeZone: 'America/Toronto',
+  })
+}
+
+/**
+ * Build the roster CSV, one row per rider in roster order.
+ */
+export function buildDayOfRosterCsv(registrations: RegistrationForDayOf[]): string {
+  const rows = registrations.map((registration) => [
+    registration.riders?.rider_number ?? null,
+    registration.riders?.last_name ?? null,
+    registration.riders?.first_name ?? null,
+    registration.riders?.emergency_contact_name ?? null,
+    registration.riders?.emergency_contact_phone ?? null,
+    registration.checked_in_at ? formatCheckInTime(registration.checked_in_at) : null,
+    registration.status === 'registered' ? 'OK' : 'Incomplete',
+    registration.notes,
+  ])
+
+  return [ROSTER_COLUMNS, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(','))
+    .join('\r\n')
+    .concat('\r\n')
+}
+
+/**
+ * File name for an event's roster, e.g. "roster-2026-05-02-spring-classic.csv"
+ */
+export function getDayOfRosterFileName(event: Pick<EventForDayOf, 'name' | 'event_date'>): string {
+  return `roster-${event.event_date}-${createSlug(event.name)}.csv`
+}
@@ -0,0 +1,40 @@
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { toControlDefinition } from '@/lib/controls'
+import type { ControlRow } from '@/types/queries'
+import type { ControlDefinition } from '@/types/control-card'
+
+export type EventControlsSource = 'event' | 'route' | 'none'
+
+const CONTROL_COLUMNS = 'name, distance_km, address, control_type, info_question'
+
+/**
+ * Controls for an event: its own event_controls win, otherwise the route's controls.
+ */
+export async function getEventControls(
+  eventId: string,
+  routeId: string | null
+): Promise<{ controls: ControlDefinition[]; source: EventControlsSource }> {
+  const { data: eventControls } = await getSupabaseAdmin()
+    .from('event_controls')
+    .select(CONTROL_COLUMNS)
+    .eq('event_id', eventId)
+    .order('position', { ascending: true })
+
+  if (eventControls && eventControls.length > 0) {
+    return { controls: (eventControls as ControlRow[]).map(toControlDefinition), source: 'event' }
+  }
+
+  if (routeId) {
+    const { data: routeControls } = await getSupabaseAdmin()
+      .from('route_controls')
+      .select(CONTROL_COLUMNS)
+      .eq('route_id', routeId)
+      .order('position', { ascending: true })
+
+    if (routeControls && routeControls.length > 0) {
+      return { controls: (routeControls as ControlRow[]).map(toControlDefinition), source: 'route' }
+    }
+  }
+
+  return { controls: [], source: 'none' }
+}
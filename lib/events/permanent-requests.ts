@@ -0,0 +1,351 @@
+/**
+ * Permanent requests
+ *
+ * A rider's permanent starts as a 'requested' event. The chapter's route
+ * coordinator approves it (optionally imposing a start time or location),
+ * rejects it, or proposes a different date, start time or start location,
+ * which the rider accepts from their manage registration page. Riders on the
+ * request are emailed at each step.
+ *
+ * Approval schedules the event and copies the route's controls onto it, so
+ * the control cards and reminder emails are ready without further setup.
+ */
+import { format, parseISO } from 'date-fns'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logError } from '@/lib/errors'
+import { getEventControls } from '@/lib/events/event-controls'
+import { sendPermanentRequestUpdateEmail } from '@/lib/email/send-registration-email'
+import { computeControlTimes, createTorontoDate, formatControlTime } from '@/lib/brmTimes'
+import { getTimeRuleSet } from '@/lib/time-rules'
+import type { PermanentRequestControl } from '@/lib/email/templates'
+import type { ControlDefinition } from '@/types/control-card'
+import type {
+  EventForPermanentRequest,
+  EventUpdate,
+  RegistrationForPermanentRequest,
+} from '@/types/queries'
+
+export type PermanentRequestDecision = 'approved' | 'rejected' | 'proposed'
+
+export const PERMANENT_REQUEST_FIELDS = `
+  id, slug, name, event_date, start_time, start_location, distance_km, event_type,
+  status, route_id, proposed_event_date, proposed_start_time, proposed_start_location,
+  review_note,
+  chapters (name, slug),
+  routes (name, slug)
+`
+
+export interface PermanentRequestChanges {
+  eventDate?: string | null // YYYY-MM-DD
+  startTime?: string | null // HH:MM
+  startLocation?: string | null
+}
+
+export interface ApprovePermanentOptions extends PermanentRequestChanges {
+  /** Admin approving the request; null when the rider accepts a proposal */
+  reviewedBy: string | null
+  note?: string | null
+}
+
+export type PermanentRequestResult =
+  | { success: true; event: EventForPermanentRequest }
+  | { success: false; error: string }
+
+/**
+ * Slug for a rider-scheduled permanent: one event per route and date, shared
+ * by every rider who picks the same ride.
+ */
+export function getPermanentSlug(routeSlug: string, eventDate: string): string {
+  return `permanent-${routeSlug}-${eventDate}`
+}
+
+/**
+ * Format a time string (HH:MM) for display in 12-hour format.
+ * @example formatEventTime("14:30") → "2:30 PM"
+ */
+function formatEventTime(timeStr: string | null): string {
+  if (!timeStr) return 'TBD'
+  const [hours, minutes] = timeStr.split(':')
+  const hour = parseInt(hours, 10)
+  const ampm = hour >= 12 ? 'PM' : 'AM'
+  const hour12 = hour % 12 || 12
+  return `${hour12}:${minutes} ${ampm}`
+}
+
+function formatEventDate(dateStr: string): string {
+  return format(parseISO(dateStr), 'EEEE, MMMM d, yyyy')
+}
+
+export async function getPermanentRequest(
+  eventId: string
+): Promise<EventForPermanentRequest | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('events')
+    .select(PERMANENT_REQUEST_FIELDS)
+    .eq('id', eventId)
+    .eq('event_type', 'permanent')
+    .maybeSingle()
+
+  if (error) {
+    logError(error, { operation: 'getPermanentRequest', context: { eventId } })
+    return null
+  }
+
+  return data as EventForPermanentRequest | null
+}
+
+/**
+ * Opening and closing times for each control, from the event's start.
+ */
+export function getPermanentControlTimes(
+  event: Pick<EventForPermanentRequest, 'event_date' | 'start_time' | 'distance_km' | 'event_type'>,
+  controls: ControlDefinition[]
+): PermanentRequestControl[] {
+  const [year, month, day] = event.event_date.split('-').map(Number)
+  const [hours, minutes] = (event.start_time || '06:00').split(':').map(Number)
+  const start = createTorontoDate(year, month - 1, day, hours, minutes)
+  const rules = getTimeRuleSet(event.event_type, event.distance_km)
+
+  return controls.map((control) => {
+    const { openAt, closeAt } = computeControlTimes(
+      start,
+      control.distance,
+      rules,
+      event.distance_km
+    )
+    return {
+      name: control.name,
+      distanceKm: control.distance,
+      opens: formatControlTime(openAt),
+      closes: formatControlTime(closeAt),
+    }
+  })
+}
+
+/**
+ * Copy the route's controls onto the event, unless the coordinator has already
+ * set event controls. Returns the event's controls either way.
+ */
+export async function snapshotEventControls(
+  eventId: string,
+  routeId: string | null
+): Promise<ControlDefinition[]> {
+  const { controls, source } = await getEventControls(eventId, routeId)
+
+  if (source === 'route') {
+    const { error } = await getSupabaseAdmin()
+      .from('event_controls')
+      .insert(
+        controls.map((control, index) => ({
+          event_id: eventId,
+          position: index,
+          name: control.name,
+          distance_km: control.distance,
+          address: control.address,
+          control_type: control.controlType,
+          info_question: control.infoQuestion,
+        }))
+      )
+
+    if (error) {
+      logError(error, { operation: 'snapshotEventControls', context: { eventId, routeId } })
+    }
+  }
+
+  return controls
+}
+
+/**
+ * Email every rider still on the request about the coordinator's decision.
+ * Failures are logged; the outbox retries delivery.
+ */
+export async function notifyPermanentRiders(
+  event: EventForPermanentRequest,
+  decision: PermanentRequestDecision,
+  options: { controls?: ControlDefinition[] } = {}
+): Promise<number> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('registrations')
+    .select('id, rider_id, status, manage_token, riders (first_name, last_name, email)')
+    .eq('event_id', event.id)
+    .neq('status', 'cancelled')
+
+  if (error) {
+    logError(error, { operation: 'notifyPermanentRiders', context: { eventId: event.id } })
+    return 0
+  }
+
+  const registrations = ((data || []) as RegistrationForPermanentRequest[]).filter(
+    (registration) => registration.riders?.email
+  )
+
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://randonneursontario.ca'
+  const chapterSlug = event.chapters?.slug || ''
+  const eventLocation = event.start_location || 'Start control per route'
+  const controls =
+    decision === 'approved' ? getPermanentControlTimes(event, options.controls ?? []) : undefined
+  const proposed =
+    decision === 'proposed'
+      ? {
+          eventDate: formatEventDate(event.proposed_event_date || event.event_date),
+          eventTime: formatEventTime(event.proposed_start_time || event.start_time),
+          eventLocation: event.proposed_start_location || eventLocation,
+        }
+      : undefined
+
+  let sent = 0
+  for (const registration of registrations) {
+    const rider = registration.riders!
+    const result = await sendPermanentRequestUpdateEmail({
+      riderName: `${rider.first_name} ${rider.last_name}`,
+      riderEmail: rider.email!,
+      riderId: registration.rider_id,
+      eventId: event.id,
+      eventName: event.name,
+      eventDistance: event.distance_km,
+      chapterName: event.chapters?.name || '',
+      chapterSlug,
+      decision,
+      eventDate: formatEventDate(event.event_date),
+      eventTime: formatEventTime(event.start_time),
+      eventLocation,
+      proposed,
+      note: event.review_note,
+      controls,
+      routeUrl:
+        chapterSlug && event.routes?.slug
+          ? `${baseUrl}/routes/${chapterSlug}/${event.routes.slug}`
+          : undefined,
+      manageUrl: registration.manage_token
+        ? `${baseUrl}/register/manage/${registration.manage_token}`
+        : undefined,
+    })
+
+    if (result.success) {
+      sent++
+    } else {
+      logError(new Error(result.error || 'Failed to send permanent request email'), {
+        operation: 'notifyPermanentRiders.sendEmail',
+        context: { eventId: event.id, registrationId: registration.id, decision },
+      })
+    }
+  }
+
+  return sent
+}
+
+/**
+ * Approve a permanent request: schedule it (with any imposed changes), copy
+ * the route's controls onto it and email the riders. The status check in the
+ * update makes a second approval a no-op error rather than a second email.
+ */
+export async function approvePermanent(
+  eventId: string,
+  options: ApprovePermanentOptions
+): Promise<PermanentRequestResult> {
+  const request = await getPermanentRequest(eventId)
+  if (!request) {
+    return { success: false, error: 'Permanent request not found' }
+  }
+  if (request.status !== 'requested') {
+    return { success: false, error: 'This permanent request has already been reviewed' }
+  }
+
+  const eventDate = options.eventDate || request.event_date
+  const update: EventUpdate = {
+    status: 'scheduled',
+    event_date: eventDate,
+    start_time: options.startTime || request.start_time,
+    start_location:
+      options.startLocation !== undefined
+        ? options.startLocation?.trim() || null
+        : request.start_location,
+    proposed_event_date: null,
+    proposed_start_time: null,
+    proposed_start_location: null,
+    review_note: options.note?.trim() || null,
+    reviewed_at: new Date().toISOString(),
+    reviewed_by: options.reviewedBy,
+  }
+
+  // A new date moves the ride to that date's slug, if no one else has it
+  if (eventDate !== request.event_date && request.routes?.slug) {
+    const slug = getPermanentSlug(request.routes.slug, eventDate)
+    const { data: existing } = await getSupabaseAdmin()
+      .from('events')
+      .select('id')
+      .eq('slug', slug)
+      .maybeSingle()
+
+    if (existing) {
+      return {
+        success: false,
+        error: 'Another permanent on this route is already booked for that date',
+      }
+    }
+    update.slug = slug
+  }
+
+  const { data: updated, error } = await getSupabaseAdmin()
+    .from('events')
+    .update(update)
+    .eq('id', eventId)
+    .eq('status', 'requested')
+    .select(PERMANENT_REQUEST_FIELDS)
+
+  if (error) {
+    logError(error, { operation: 'approvePermanent', context: { eventId } })
+    return { success: false, error: 'Failed to approve permanent request' }
+  }
+
+  const event = (updated as EventForPermanentRequest[] | null)?.[0]
+  if (!event) {
+    return { success: false, error: 'This permanent request has already been reviewed' }
+  }
+
+  const controls = await snapshotEventControls(event.id, event.route_id)
+  await notifyPermanentRiders(event, 'approved', { controls })
+
+  return { success: true, event }
+}
+
+/**
+ * Close permanent requests whose ride date passed without a decision. They
+ * are cancelled like a rejection, and riders are emailed, so they drop out of
+ * the approval queue and riders' calendars. A pending proposal for a later
+ * date keeps the request open. Called hourly by the complete-events cron.
+ */
+export async function expirePermanentRequests(now: Date = new Date()): Promise<number> {
+  const today = now.toLocaleDateString('en-CA', { timeZone: 'America/Toronto' })
+
+  const update: EventUpdate = {
+    status: 'cancelled',
+    proposed_event_date: null,
+    proposed_start_time: null,
+    proposed_start_location: null,
+    review_note: 'The ride date passed before the request was reviewed.',
+    reviewed_at: now.toISOString(),
+    reviewed_by: null,
+  }
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('events')
+    .update(update)
+    .eq('event_type', 'permanent')
+    .eq('status', 'requested')
+    .lt('event_date', today)
+    .or(`proposed_event_date.is.null,proposed_event_date.lt.${today}`)
+    .select(PERMANENT_REQUEST_FIELDS)
+
+  if (error) {
+    logError(error, { operation: 'expirePermanentRequests' })
+    return 0
+  }
+
+  const expired = (data || []) as EventForPermanentRequest[]
+  for (const event of expired) {
+    await notifyPermanentRiders(event, 'rejected')
+  }
+
+  return expired.length
+}
@@ -0,0 +1,322 @@
+/**
+ * Pre-ride emails
+ *
+ * A reminder goes to each registered rider a few days before the start (the
+ * chapter's reminder_days_before), with the start details, controls and the
+ * chapter checklist. The organizer gets the final roster with emergency
+ * contacts once registration closes. Events can opt out of either on the
+ * event form.
+ *
+ * Called by the /api/cron/send-reminders job. Each registration's
+ * reminder_sent_at and the event's roster_sent_at are claimed before the email
+ * is queued, so overlapping or repeated runs never send twice.
+ */
+import { addDays, format, parseISO, subDays } from 'date-fns'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logError } from '@/lib/errors'
+import { queueEmail } from '@/lib/email/outbox'
+import { suppressAdminEmails } from '@/lib/email/sendgrid'
+import { resolveContactEmail } from '@/lib/email/chapter-contacts'
+import { buildEventReminderEmail, buildEventRosterEmail } from '@/lib/email/templates'
+import { getEventStart, resolveRegistrationWindow } from '@/lib/registrations/window'
+import { getUrlSlugFromDbSlug } from '@/lib/chapter-config'
+import type {
+  EventForReminders,
+  RegistrationForReminder,
+  RegistrationForRoster,
+} from '@/types/queries'
+
+// Latest chapter reminder_days_before (see the migration's CHECK)
+const MAX_REMINDER_DAYS = 14
+
+// Roster for events whose registration stays open until the start
+const ROSTER_HOURS_BEFORE_START = 24
+
+export interface ReminderRunResult {
+  checked: number
+  remindersSent: number
+  rostersSent: number
+  errors: { id: string; name: string; error: string }[]
+}
+
+/**
+ * When riders get their reminder: the chapter's number of days before the start.
+ */
+export function getReminderDueAt(start: Date, daysBefore: number): Date {
+  return new Date(start.getTime() - daysBefore * 86_400_000)
+}
+
+/**
+ * When the organizer gets the roster: when registration closes, or a day
+ * before the start if it stays open until then.
+ */
+export function getRosterDueAt(start: Date, registrationClosesAt: Date | null): Date {
+  if (registrationClosesAt && registrationClosesAt < start) {
+    return registrationClosesAt
+  }
+  return new Date(start.getTime() - ROSTER_HOURS_BEFORE_START * 3_600_000)
+}
+
+/**
+ * Format time for display (e.g., "14:30" -> "2:30 PM")
+ */
+function formatEventTime(timeStr: string | null): string {
+  if (!timeStr) return 'TBD'
+  const [hours, minutes] = timeStr.split(':')
+  const hour = parseInt(hours, 10)
+  const ampm = hour >= 12 ? 'PM' : 'AM'
+  const hour12 = hour % 12 || 12
+  return `${hour12}:${minutes} ${ampm}`
+}
+
+/**
+ * The organizer for an event: the route coordinator for permanents (as on the
+ * registration confirmation), otherwise the chapter VP.
+ */
+function getOrganizerEmail(event: EventForReminders): string | null {
+  return resolveContactEmail(
+    event.chapters,
+    event.event_type === 'permanent' ? 'route_coordinator' : 'vp'
+  )
+}
+
+async function sendRiderReminders(
+  event: EventForReminders,
+  now: Date
+): Promise<{ sent: number; errors: string[] }> {
+  const supabase = getSupabaseAdmin()
+  const errors: string[] = []
+  let sent = 0
+
+  const { data: registrations, error: regError } = await supabase
+    .from('registrations')
+    .select('id, rider_id, manage_token, riders(first_name, last_name, email)')
+    .eq('event_id', event.id)
+    .eq('status', 'registered')
+    .is('reminder_sent_at', null)
+
+  if (regError) {
+    return { sent, errors: [`Failed to fetch registrations: ${regError.message}`] }
+  }
+
+  const pending = ((registrations || []) as RegistrationForReminder[]).filter(
+    (reg) => reg.riders?.email
+  )
+  if (pending.length === 0) return { sent, errors }
+
+  const { data: controls, error: controlsError } = await supabase
+    .from('event_controls')
+    .select('name, distance_km, address')
+    .eq('event_id', event.id)
+    .order('position', { ascending: true })
+
+  if (controlsError) {
+    return { sent, errors: [`Failed to fetch controls: ${controlsError.message}`] }
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://randonneursontario.ca'
+  const chapterSlug = event.chapters?.slug ? getUrlSlugFromDbSlug(event.chapters.slug) : null
+
+  for (const registration of pending) {
+    // Claim the reminder so a concurrent run skips this rider
+    const { data: claimed } = await supabase
+      .from('registrations')
+      .update({ reminder_sent_at: now.toISOString() })
+      .eq('id', registration.id)
+      .is('reminder_sent_at', null)
+      .select('id')
+
+    if (!claimed || claimed.length === 0) continue
+
+    const rider = registration.riders!
+    const { subject, text, html } = buildEventReminderEmail({
+      riderName: `${rider.first_name} ${rider.last_name}`,
+      riderEmail: rider.email!,
+      eventName: event.name,
+      eventDate: format(parseISO(event.event_date), 'EEEE, MMMM d, yyyy'),
+      eventTime: formatEventTime(event.start_time),
+      eventLocation: event.start_location || 'TBD',
+      eventDistance: event.distance_km,
+      chapterName: event.chapters?.name || '',
+      eventUrl: `${baseUrl}/register/${event.slug}`,
+      routeUrl:
+        chapterSlug && event.routes?.slug
+          ? `${baseUrl}/routes/${chapterSlug}/${event.routes.slug}`
+          : undefined,
+      controls: (controls || []).map((control) => ({
+        name: control.name,
+        distanceKm: control.distance_km,
+        address: control.address,
+      })),
+      checklist: event.chapters?.reminder_checklist,
+      organizerEmail: suppressAdminEmails ? null : getOrganizerEmail(event),
+      manageUrl: registration.manage_token
+        ? `${baseUrl}/register/manage/${registration.manage_token}`
+        : undefined,
+    })
+
+    const result = await queueEmail({
+      kind: 'event_reminder',
+      to: rider.email!,
+      subject,
+      text,
+      html,
+      riderId: registration.rider_id,
+      eventId: event.id,
+    })
+
+    if (!result.emailId) {
+      // Not stored: release the claim so the next run tries again
+      await supabase
+        .from('registrations')
+        .update({ reminder_sent_at: null })
+        .eq('id', registration.id)
+      errors.push(`Failed to queue reminder for ${rider.email}: ${result.error}`)
+      continue
+    }
+
+    if (result.sent) sent++
+  }
+
+  return { sent, errors }
+}
+
+async function sendOrganizerRoster(
+  event: EventForReminders,
+  now: Date
+): Promise<{ sent: boolean; error?: string }> {
+  const supabase = getSupabaseAdmin()
+
+  const organizerEmail = getOrganizerEmail(event)
+  if (!organizerEmail) {
+    return { sent: false, error: 'No VP email is set for the chapter; roster not sent' }
+  }
+
+  // Claim the roster so a concurrent run doesn't send it again
+  const { data: claimed } = await supabase
+    .from('events')
+    .update({ roster_sent_at: now.toISOString() })
+    .eq('id', event.id)
+    .is('roster_sent_at', null)
+    .select('id')
+
+  if (!claimed || claimed.length === 0) return { sent: false }
+
+  const { data: registrations, error: regError } = await supabase
+    .from('registrations')
+    .select(
+      'id, status, registered_at, riders(first_name, last_name, email, emergency_contact_name, emergency_contact_phone)'
+    )
+    .eq('event_id', event.id)
+    .in('status', ['registered', 'waitlisted'])
+    .order('registered_at', { ascending: true })
+
+  if (regError) {
+    await supabase.from('events').update({ roster_sent_at: null }).eq('id', event.id)
+    return { sent: false, error: `Failed to fetch registrations: ${regError.message}` }
+  }
+
+  const typedRegistrations = (registrations || []) as RegistrationForRoster[]
+  const riders = typedRegistrations
+    .filter((reg) => reg.status === 'registered' && reg.riders)
+    .map((reg) => ({
+      name: `${reg.riders!.first_name} ${reg.riders!.last_name}`.trim(),
+      email: reg.riders!.email,
+      emergencyContactName: reg.riders!.emergency_contact_name,
+      emergencyContactPhone: reg.riders!.emergency_contact_phone,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://randonneursontario.ca'
+  const { subject, text, html } = buildEventRosterEmail({
+    eventName: event.name,
+    eventDate: format(parseISO(event.event_date), 'EEEE, MMMM d, yyyy'),
+    eventTime: formatEventTime(event.start_time),
+    eventLocation: event.start_location || 'TBD',
+    eventDistance: event.distance_km,
+    chapterName: event.chapters?.name || '',
+    riders,
+    waitlistedCount: typedRegistrations.filter((reg) => reg.status === 'waitlisted').length,
+    adminEventUrl: `${baseUrl}/admin/events/${event.id}`,
+  })
+
+  const result = await queueEmail({
+    kind: 'event_roster',
+    to: organizerEmail,
+    subject,
+    text,
+    html,
+    eventId: event.id,
+  })
+
+  if (!result.emailId) {
+    await supabase.from('events').update({ roster_sent_at: null }).eq('id', event.id)
+    return { sent: false, error: `Failed to queue roster: ${result.error}` }
+  }
+
+  return { sent: result.sent }
+}
+
+/**
+ * Send every reminder and roster that is due. Safe to run as often as needed.
+ */
+export async function sendDueEventReminders(now: Date = new Date()): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { checked: 0, remindersSent: 0, rostersSent: 0, errors: [] }
+
+  // Date bounds are widened by a day either side; exact times are checked below
+  const { data: events, error } = await getSupabaseAdmin()
+    .from('events')
+    .select(
+      `
+      id, slug, name, event_date, start_time, start_location, distance_km, event_type,
+      registration_opens_at, registration_closes_at, send_reminders, send_roster, roster_sent_at,
+      chapters (
+        name, slug, vp_email, route_coordinator_email, treasurer_email,
+        registration_opens_days_before, registration_closes_hours_before,
+        reminder_days_before, reminder_checklist
+      ),
+      routes (slug)
+    `
+    )
+    .eq('status', 'scheduled')
+    .or('send_reminders.eq.true,send_roster.eq.true')
+    .gte('event_date', format(subDays(now, 1), 'yyyy-MM-dd'))
+    .lte('event_date', format(addDays(now, MAX_REMINDER_DAYS + 1), 'yyyy-MM-dd'))
+
+  if (error) {
+    logError(error, { operation: 'sendDueEventReminders.fetchEvents' })
+    result.errors.push({ id: '', name: '', error: `Failed to fetch events: ${error.message}` })
+    return result
+  }
+
+  for (const event of (events || []) as EventForReminders[]) {
+    const start = getEventStart(event.event_date, event.start_time)
+    if (now >= start) continue
+    result.checked++
+
+    const daysBefore = event.chapters?.reminder_days_before ?? 2
+    if (event.send_reminders && now >= getReminderDueAt(start, daysBefore)) {
+      const { sent, errors } = await sendRiderReminders(event, now)
+      result.remindersSent += sent
+      for (const err of errors) {
+        result.errors.push({ id: event.id, name: event.name, error: err })
+      }
+    }
+
+    const { closesAt } = resolveRegistrationWindow(event, event.chapters)
+    if (
+      event.send_roster &&
+      !event.roster_sent_at &&
+      !suppressAdminEmails &&
+      now >= getRosterDueAt(start, closesAt)
+    ) {
+      const { sent, error: rosterError } = await sendOrganizerRoster(event, now)
+      if (sent) result.rostersSent++
+      if (rosterError) {
+        result.errors.push({ id: event.id, name: event.name, error: rosterError })
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,297 @@
+/**
+ * Result follow-up
+ *
+ * After an event closes, riders get one email with their result submission
+ * link (lib/events/complete-event.ts). Riders whose result is still pending
+ * are reminded on the chapter's result_reminder_days (days after the event
+ * closes); at result_deadline_days the remaining results are flagged as
+ * overdue or marked DNS, depending on result_deadline_action. The organizer
+ * gets a digest of who hasn't responded at each step.
+ *
+ * Called by the /api/cron/result-reminders job. Each step is claimed on
+ * events.results_followup_stage before anything is sent, so repeated or
+ * overlapping runs never send a step twice.
+ */
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { format, subDays } from 'date-fns'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { logError } from '@/lib/errors'
+import { queueEmail } from '@/lib/email/outbox'
+import { suppressAdminEmails } from '@/lib/email/sendgrid'
+import { resolveContactEmail } from '@/lib/email/chapter-contacts'
+import { buildResultSubmissionRequestEmail, buildResultsDigestEmail } from '@/lib/email/templates'
+import { getEventStart } from '@/lib/registrations/window'
+import { getTimeRuleSet } from '@/lib/time-rules'
+import type { EventForResultFollowup, PendingResultForFollowup } from '@/types/queries'
+
+// Oldest events checked: the longest deadline plus time for the longest events
+const LOOKBACK_DAYS = 100
+
+export type ResultDeadlineAction = 'flag' | 'dns'
+
+export interface ResultFollowupRule {
+  reminderDays: number[]
+  deadlineDays: number
+  deadlineAction: ResultDeadlineAction
+}
+
+export interface ResultFollowupPlan {
+  remind: boolean
+  deadline: boolean
+}
+
+export interface ResultFollowupRunResult {
+  checked: number
+  remindersSent: number
+  digestsSent: number
+  resultsFlagged: number
+  resultsMarkedDns: number
+  errors: { id: string; name: string; error: string }[]
+}
+
+/**
+ * Reminder days in order, leaving out any on or after the deadline.
+ */
+export function getReminderSchedule(rule: ResultFollowupRule): number[] {
+  return [...new Set(rule.reminderDays)]
+    .filter((days) => days > 0 && days < rule.deadlineDays)
+    .sort((a, b) => a - b)
+}
+
+/**
+ * How many follow-up steps are due: one per reminder day that has passed,
+ * then one more for the deadline.
+ */
+export function getFollowupStage(closedAt: Date, now: Date, rule: ResultFollowupRule): number {
+  const daysSinceClose = (now.getTime() - closedAt.getTime()) / 86_400_000
+  const reminders = getReminderSchedule(rule)
+  if (daysSinceClose >= rule.deadlineDays) return reminders.length + 1
+  return reminders.filter((days) => daysSinceClose >= days).length
+}
+
+/**
+ * What to do when an event moves from one follow-up stage to another. Steps
+ * missed between runs are skipped: only the latest reminder goes out, and
+ * none once the deadline has passed.
+ */
+export function planFollowup(
+  previousStage: number,
+  stage: number,
+  rule: ResultFollowupRule
+): ResultFollowupPlan {
+  const reminderCount = getReminderSchedule(rule).length
+  if (stage <= previousStage) return { remind: false, deadline: false }
+  if (stage > reminderCount) {
+    return { remind: false, deadline: previousStage <= reminderCount }
+  }
+  return { remind: true, deadline: false }
+}
+
+function getEventClosedAt(event: EventForResultFollowup): Date {
+  const start = getEventStart(event.event_date, event.start_time)
+  const limitMinutes = getTimeRuleSet(event.event_type, event.distance_km).finishLimitMinutes(
+    event.distance_km
+  )
+  return new Date(start.getTime() + limitMinutes * 60_000)
+}
+
+function getFollowupRule(event: EventForResultFollowup): ResultFollowupRule {
+  return {
+    reminderDays: event.chapters?.result_reminder_days ?? [3, 7],
+    deadlineDays: event.chapters?.result_deadline_days ?? 14,
+    deadlineAction: event.chapters?.result_deadline_action === 'dns' ? 'dns' : 'flag',
+  }
+}
+
+/**
+ * Run every follow-up step that is due. Safe to run as often as needed.
+ */
+export async function sendDueResultFollowups(
+  now: Date = new Date()
+): Promise<ResultFollowupRunResult> {
+  const supabase = getSupabaseAdmin()
+  const run: ResultFollowupRunResult = {
+    checked: 0,
+    remindersSent: 0,
+    digestsSent: 0,
+    resultsFlagged: 0,
+    resultsMarkedDns: 0,
+    errors: [],
+  }
+
+  const { data: events, error } = await supabase
+    .from('events')
+    .select(
+      `
+      id, name, event_date, start_time, distance_km, event_type, results_followup_stage,
+      chapters (
+        name, vp_email, route_coordinator_email, treasurer_email,
+        result_reminder_days, result_deadline_days, result_deadline_action
+      )
+    `
+    )
+    .eq('status', 'completed')
+    .gte('event_date', format(subDays(now, LOOKBACK_DAYS), 'yyyy-MM-dd'))
+
+  if (error) {
+    logError(error, { operation: 'sendDueResultFollowups.fetchEvents' })
+    run.errors.push({ id: '', name: '', error: `Failed to fetch events: ${error.message}` })
+    return run
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://randonneursontario.ca'
+
+  for (const event of (events || []) as EventForResultFollowup[]) {
+    run.checked++
+    const addError = (message: string) =>
+      run.errors.push({ id: event.id, name: event.name, error: message })
+
+    const rule = getFollowupRule(event)
+    const closedAt = getEventClosedAt(event)
+    const previousStage = event.results_followup_stage
+    const stage = getFollowupStage(closedAt, now, rule)
+    const plan = planFollowup(previousStage, stage, rule)
+    if (!plan.remind && !plan.deadline) continue
+
+    // Claim the step so a concurrent run skips it
+    const { data: claimed } = await supabase
+      .from('events')
+      .update({ results_followup_stage: stage })
+      .eq('id', event.id)
+      .eq('results_followup_stage', previousStage)
+      .select('id')
+
+    if (!claimed || claimed.length === 0) continue
+
+    const { data: pendingResults, error: resultsError } = await supabase
+      .from('results')
+      .select('id, rider_id, submission_token, riders(first_name, last_name, email)')
+      .eq('event_id', event.id)
+      .eq('status', 'pending')
+
+    if (resultsError) {
+      addError(`Failed to fetch pending results: ${resultsError.message}`)
+      continue
+    }
+
+    const pending = (pendingResults || []) as PendingResultForFollowup[]
+    if (pending.length === 0) continue
+
+    const reminderCount = getReminderSchedule(rule).length
+    const deadline = format(
+      new Date(closedAt.getTime() + rule.deadlineDays * 86_400_000),
+      'MMMM d, yyyy'
+    )
+    const eventDate = format(getEventStart(event.event_date, null), 'MMMM d, yyyy')
+    const chapterName = event.chapters?.name || 'Randonneurs Ontario'
+
+    if (plan.remind) {
+      for (const result of pending) {
+        const rider = result.riders
+        if (!rider?.email || !result.submission_token) continue
+
+        const { subject, text, html } = buildResultSubmissionRequestEmail({
+          riderName: `${rider.first_name} ${rider.last_name}`,
+          riderEmail: rider.email,
+          eventName: event.name,
+          eventDate,
+          eventDistance: event.distance_km,
+          chapterName,
+          submissionUrl: `${baseUrl}/results/submit/${result.submission_token}`,
+          reminder: { deadline, deadlineAction: rule.deadlineAction },
+        })
+
+        const queued = await queueEmail({
+          kind: 'result_submission_reminder',
+          to: rider.email,
+          subject,
+          text,
+          html,
+          riderId: result.rider_id,
+          eventId: event.id,
+        })
+
+        if (queued.sent) {
+          run.remindersSent++
+        } else if (!queued.emailId) {
+          addError(`Failed to queue result reminder for ${rider.email}: ${queued.error}`)
+        }
+      }
+    }
+
+    if (plan.deadline) {
+      const resultIds = pending.map((result) => result.id)
+      const update =
+        rule.deadlineAction === 'dns'
+          ? { status: 'dns', overdue_at: now.toISOString() }
+          : { overdue_at: now.toISOString() }
+
+      const { error: updateError } = await supabase
+        .from('results')
+        .update(update)
+        .in('id', resultIds)
+        .eq('status', 'pending')
+
+      if (updateError) {
+        addError(`Failed to update overdue results: ${updateError.message}`)
+      } else if (rule.deadlineAction === 'dns') {
+        run.resultsMarkedDns += resultIds.length
+        revalidateTag('results', 'max')
+      } else {
+        run.resultsFlagged += resultIds.length
+      }
+      revalidatePath(`/admin/events/${event.id}`)
+    }
+
+    if (suppressAdminEmails) continue
+
+    const organizerEmail = resolveContactEmail(
+      event.chapters,
+      event.event_type === 'permanent' ? 'route_coordinator' : 'vp'
+    )
+    if (!organizerEmail) {
+      addError('No VP email is set for the chapter; results digest not sent')
+      continue
+    }
+
+    const adminEventUrl = `${baseUrl}/admin/events/${event.id}`
+    const { subject, text, html } = buildResultsDigestEmail({
+      eventName: event.name,
+      eventDate,
+      eventDistance: event.distance_km,
+      chapterName,
+      riders: pending
+        .filter((result) => result.riders)
+        .map((result) => ({
+          name: `${result.riders!.first_name} ${result.riders!.last_name}`,
+          email: result.riders!.email,
+          adminUrl: `${adminEventUrl}#rider-${result.rider_id}`,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      stepLabel: plan.deadline
+        ? 'The results submission deadline has passed'
+        : `Result reminder ${stage} of ${reminderCount} sent`,
+      deadline,
+      deadlineAction: rule.deadlineAction,
+      deadlinePassed: plan.deadline,
+      adminEventUrl,
+    })
+
+    const queued = await queueEmail({
+      kind: 'results_digest',
+      to: organizerEmail,
+      subject,
+      text,
+      html,
+      eventId: event.id,
+    })
+
+    if (queued.sent) {
+      run.digestsSent++
+    } else if (!queued.emailId) {
+      addError(`Failed to queue results digest: ${queued.error}`)
+    }
+  }
+
+  return run
+}
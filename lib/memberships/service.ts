@@ -6,32 +6,85 @@
  */
 import { getSupabaseAdmin } from '@/lib/supabase-server'
 import { searchCCNMembership } from '@/lib/ccn/client'
+import { logError } from '@/lib/errors'
+import { getRegistrationSlotStatus } from '@/lib/registrations/waitlist'
+import type { Json } from '@/types/supabase'
 import type { MembershipType } from '@/types/queries'
+import type { MembershipCandidate } from '@/types/membership-review'
 
-const getCurrentSeason = () => parseInt(process.env.NEXT_PUBLIC_CURRENT_SEASON || '2026', 10)
+export const getCurrentSeason = () => parseInt(process.env.NEXT_PUBLIC_CURRENT_SEASON || '2026', 10)
+
+export const MEMBERSHIP_TYPES: MembershipType[] = [
+  'Individual Membership',
+  'Additional Family Member',
+  'Family Membership > PRIMARY FAMILY MEMBER',
+  'Trial Member',
+]
 
 export type MembershipResult =
   | {
       found: true
-      membershipId: number
+      membershipId: number | null
       type: MembershipType
     }
   | {
       found: false
+      // CCN returned several possible members; queued for an admin to pick
+      needsReview?: boolean
     }
 
+/**
+ * Queue an ambiguous CCN lookup for admin review. Refreshes the candidates
+ * if the rider already has an open review this season.
+ */
+async function queueMembershipReview(
+  riderId: string,
+  season: number,
+  candidates: MembershipCandidate[]
+): Promise<void> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: existing } = await supabase
+    .from('membership_reviews')
+    .select('id')
+    .eq('rider_id', riderId)
+    .eq('season', season)
+    .eq('status', 'pending')
+    .maybeSingle()
+
+  const { error } = existing
+    ? await supabase
+        .from('membership_reviews')
+        .update({ candidates: candidates as unknown as Json })
+        .eq('id', existing.id)
+    : await supabase.from('membership_reviews').insert({
+        rider_id: riderId,
+        season,
+        candidates: candidates as unknown as Json,
+      })
+
+  if (error) {
+    logError(error, { operation: 'queueMembershipReview', context: { riderId, season } })
+  }
+}
+
 /**
  * Get membership for a rider, checking database first then CCN API.
  *
+ * When CCN can't tell which member the rider is, the candidates go to the
+ * admin review queue and the rider is treated as not found until resolved.
+ *
  * @param riderId - Rider's UUID
  * @param firstName - Rider's first name (for CCN lookup)
  * @param lastName - Rider's last name (for CCN lookup)
+ * @param email - Rider's email, to tell same-named CCN members apart
  * @returns Membership data if found, or { found: false }
  */
 export async function getMembershipForRider(
   riderId: string,
   firstName: string,
-  lastName: string
+  lastName: string,
+  email?: string | null
 ): Promise<MembershipResult> {
   const supabase = getSupabaseAdmin()
   const currentSeason = getCurrentSeason()
@@ -53,9 +106,13 @@ export async function getMembershipForRider(
   }
 
   // Query CCN API
-  const ccnResult = await searchCCNMembership(firstName, lastName)
+  const ccnResult = await searchCCNMembership(firstName, lastName, { email })
 
   if (!ccnResult.found) {
+    if (ccnResult.ambiguous) {
+      await queueMembershipReview(riderId, currentSeason, ccnResult.candidates)
+      return { found: false, needsReview: true }
+    }
     return { found: false }
   }
 
@@ -113,3 +170,64 @@ export async function isTrialUsed(riderId: string): Promise<boolean> {
 
   return registrations !== null && registrations.length > 0
 }
+
+/**
+ * Move a rider's `incomplete: membership` registrations for upcoming events
+ * in a season onto the start list, once their membership has been confirmed.
+ * Each one goes to `registered`, or to `waitlisted` if its event has filled up
+ * in the meantime. Trial Members only get their earliest event, and only if
+ * the trial is unused.
+ *
+ * @returns Number of registrations moved out of incomplete
+ */
+export async function promoteIncompleteRegistrations(
+  riderId: string,
+  season: number,
+  type: MembershipType
+): Promise<number> {
+  const supabase = getSupabaseAdmin()
+  const today = new Date().toISOString().split('T')[0]
+
+  const { data: registrations } = await supabase
+    .from('registrations')
+    .select('id, event_id, events!inner(event_date, season, max_riders)')
+    .eq('rider_id', riderId)
+    .eq('status', 'incomplete: membership')
+    .eq('events.season', season)
+    .gte('events.event_date', today)
+
+  let pending = (
+    (registrations ?? []) as {
+      id: string
+      event_id: string
+      events: { event_date: string; max_riders: number | null }
+    }[]
+  ).sort((a, b) => a.events.event_date.localeCompare(b.events.event_date))
+  if (type === 'Trial Member') {
+    pending = (await isTrialUsed(riderId)) ? [] : pending.slice(0, 1)
+  }
+
+  let promoted = 0
+  for (const registration of pending) {
+    const status = await getRegistrationSlotStatus(
+      registration.event_id,
+      registration.events.max_riders
+    )
+    const { error } = await supabase
+      .from('registrations')
+      .update({ status })
+      .eq('id', registration.id)
+      .eq('status', 'incomplete: membership')
+
+    if (error) {
+      logError(error, {
+        operation: 'promoteIncompleteRegistrations',
+        context: { riderId, season, registrationId: registration.id },
+      })
+      continue
+    }
+    promoted++
+  }
+
+  return promoted
+}
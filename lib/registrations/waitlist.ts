@@ -0,0 +1,219 @@
+/**
+ * Event Capacity & Waitlist
+ *
+ * Events may set an optional rider limit (`events.max_riders`). Once the
+ * number of `registered` riders reaches that limit, new registrants are
+ * recorded with the `waitlisted` status instead.
+ *
+ * When a registered rider cancels, the oldest waitlisted rider (by
+ * `registered_at`) is promoted to `registered` and emailed.
+ *
+ * Only `registered` rows count against the limit: riders whose membership
+ * could not be verified (`incomplete: membership`) don't hold a spot.
+ *
+ * The checks here pick the status to ask for. The database has the final
+ * say: a trigger locks the event and stores `waitlisted` instead if the
+ * last spot was taken in the meantime, so callers read the stored status back.
+ */
+import { format, parseISO } from 'date-fns'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { sendWaitlistPromotionEmail } from '@/lib/email/send-registration-email'
+import { logError } from '@/lib/errors'
+import type { EventWithRelations, Registration, Rider } from '@/types/queries'
+
+export type RegistrationSlotStatus = 'registered' | 'waitlisted'
+
+export interface EventCapacity {
+  maxRiders: number | null
+  registeredCount: number
+  isFull: boolean
+}
+
+type WaitlistedRegistration = Pick<Registration, 'id' | 'rider_id' | 'manage_token'> & {
+  riders: Pick<Rider, 'first_name' | 'last_name' | 'email'> | null
+}
+
+/**
+ * Format a time string (HH:MM) for display in 12-hour format.
+ * @example formatEventTime("14:30") → "2:30 PM"
+ */
+function formatEventTime(timeStr: string | null): string {
+  if (!timeStr) return 'TBD'
+  const [hours, minutes] = timeStr.split(':')
+  const hour = parseInt(hours, 10)
+  const ampm = hour >= 12 ? 'PM' : 'AM'
+  const hour12 = hour % 12 || 12
+  return `${hour12}:${minutes} ${ampm}`
+}
+
+/**
+ * Whether an event with the given limit has room for one more rider.
+ * A null limit means the event is uncapped.
+ */
+export function hasCapacity(maxRiders: number | null, registeredCount: number): boolean {
+  return maxRiders === null || registeredCount < maxRiders
+}
+
+/**
+ * Get the rider limit and current registered count for an event.
+ *
+ * @param eventId - Event ID
+ * @param maxRiders - The event's limit, if the caller already has it
+ */
+export async function getEventCapacity(
+  eventId: string,
+  maxRiders?: number | null
+): Promise<EventCapacity> {
+  let limit = maxRiders ?? null
+
+  if (maxRiders === undefined) {
+    const { data: event } = await getSupabaseAdmin()
+      .from('events')
+      .select('max_riders')
+      .eq('id', eventId)
+      .single()
+
+    limit = (event as { max_riders: number | null } | null)?.max_riders ?? null
+  }
+
+  if (limit === null) {
+    return { maxRiders: null, registeredCount: 0, isFull: false }
+  }
+
+  const { count } = await getSupabaseAdmin()
+    .from('registrations')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_id', eventId)
+    .eq('status', 'registered')
+
+  const registeredCount = count ?? 0
+  return {
+    maxRiders: limit,
+    registeredCount,
+    isFull: !hasCapacity(limit, registeredCount),
+  }
+}
+
+/**
+ * Decide whether a new registration should be created as registered or waitlisted.
+ *
+ * @param eventId - Event ID
+ * @param maxRiders - The event's limit, if the caller already has it
+ */
+export async function getRegistrationSlotStatus(
+  eventId: string,
+  maxRiders?: number | null
+): Promise<RegistrationSlotStatus> {
+  const { isFull } = await getEventCapacity(eventId, maxRiders)
+  return isFull ? 'waitlisted' : 'registered'
+}
+
+/**
+ * Promote the next waitlisted rider for an event if a spot is free.
+ * Sends the promoted rider an email (fire-and-forget).
+ *
+ * @param eventId - Event ID
+ * @returns The promoted rider's ID, or null if nobody was promoted
+ */
+export async function promoteFromWaitlist(eventId: string): Promise<string | null> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: eventData } = await supabase
+    .from('events')
+    .select(
+      `
+      id, slug, status, name, event_date, start_time,
+      start_location, distance_km, event_type, max_riders,
+      chapters (slug, name)
+    `
+    )
+    .eq('id', eventId)
+    .single()
+
+  if (!eventData) return null
+
+  const event = eventData as EventWithRelations
+  if (event.status !== 'scheduled') return null
+
+  const { isFull } = await getEventCapacity(eventId, event.max_riders)
+  if (isFull) return null
+
+  const { data: nextInLine } = await supabase
+    .from('registrations')
+    .select('id, rider_id, manage_token, riders (first_name, last_name, email)')
+    .eq('event_id', eventId)
+    .eq('status', 'waitlisted')
+    .order('registered_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (!nextInLine) return null
+
+  const registration = nextInLine as WaitlistedRegistration
+
+  // Guard on status so two concurrent cancellations can't promote the same rider twice
+  const { data: promoted, error: updateError } = await supabase
+    .from('registrations')
+    .update({ status: 'registered' })
+    .eq('id', registration.id)
+    .eq('status', 'waitlisted')
+    .select('status')
+    .maybeSingle()
+
+  if (updateError) {
+    logError(updateError, {
+      operation: 'promoteFromWaitlist',
+      context: { eventId, registrationId: registration.id },
+    })
+    return null
+  }
+
+  // The database keeps the rider waitlisted if the spot was taken in the meantime
+  if (promoted?.status !== 'registered') return null
+
+  const rider = registration.riders
+  if (rider?.email) {
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://randonneursontario.ca'
+    sendWaitlistPromotionEmail({
+      riderName: `${rider.first_name} ${rider.last_name}`,
+      riderEmail: rider.email,
+      riderId: registration.rider_id,
+      eventId,
+      eventName: event.name,
+      eventDate: format(parseISO(event.event_date), 'EEEE, MMMM d, yyyy'),
+      eventTime: formatEventTime(event.start_time),
+      eventLocation: event.start_location || 'TBD',
+      eventDistance: event.distance_km,
+      chapterName: event.chapters?.name || '',
+      chapterSlug: event.chapters?.slug || '',
+      eventUrl: `${baseUrl}/register/${event.slug}`,
+      manageUrl: registration.manage_token
+        ? `${baseUrl}/register/manage/${registration.manage_token}`
+        : undefined,
+    }).catch((error) => {
+      logError(error, {
+        operation: 'promoteFromWaitlist.sendEmail',
+        context: { eventId, riderId: registration.rider_id },
+      })
+    })
+  }
+
+  return registration.rider_id
+}
+
+/**
+ * Promote waitlisted riders until the event is full or the waitlist is empty.
+ * Used when an admin raises or removes an event's rider limit.
+ *
+ * @param eventId - Event ID
+ * @returns IDs of the promoted riders
+ */
+export async function fillFromWaitlist(eventId: string): Promise<string[]> {
+  const promoted: string[] = []
+  let riderId = await promoteFromWaitlist(eventId)
+  while (riderId) {
+    promoted.push(riderId)
+    riderId = await promoteFromWaitlist(eventId)
+  }
+  return promoted
+}
@@ -0,0 +1,133 @@
+/**
+ * Registration windows
+ *
+ * An event's registration window comes from its own registration_opens_at /
+ * registration_closes_at when set, otherwise from its chapter's defaults
+ * (e.g. "close 48 hours before start"). Defaults are measured from the
+ * event's start in Toronto time.
+ */
+import { createTorontoDate } from '@/lib/brmTimes'
+
+const DEFAULT_START_TIME = '08:00'
+
+export type RegistrationWindowState = 'not-yet-open' | 'open' | 'closed'
+
+export interface RegistrationWindow {
+  opensAt: Date | null
+  closesAt: Date | null
+}
+
+export interface RegistrationWindowEvent {
+  event_date: string // YYYY-MM-DD
+  start_time: string | null // HH:MM or HH:MM:SS
+  registration_opens_at: string | null
+  registration_closes_at: string | null
+}
+
+export interface ChapterRegistrationDefaults {
+  registration_opens_days_before: number | null
+  registration_closes_hours_before: number | null
+}
+
+/**
+ * Get the event's start as a Date, interpreting date and time in Toronto.
+ */
+export function getEventStart(eventDate: string, startTime: string | null): Date {
+  const [year, month, day] = eventDate.split('-').map(Number)
+  const [hour, minute] = (startTime || DEFAULT_START_TIME).split(':').map(Number)
+  return createTorontoDate(year, month - 1, day, hour, minute)
+}
+
+/**
+ * Resolve the effective registration window for an event.
+ * Explicit event values win; missing ones fall back to the chapter defaults.
+ */
+export function resolveRegistrationWindow(
+  event: RegistrationWindowEvent,
+  defaults: ChapterRegistrationDefaults | null
+): RegistrationWindow {
+  const start = getEventStart(event.event_date, event.start_time)
+
+  let opensAt: Date | null = null
+  if (event.registration_opens_at) {
+    opensAt = new Date(event.registration_opens_at)
+  } else if (defaults?.registration_opens_days_before != null) {
+    opensAt = new Date(start.getTime() - defaults.registration_opens_days_before * 86_400_000)
+  }
+
+  let closesAt: Date | null = null
+  if (event.registration_closes_at) {
+    closesAt = new Date(event.registration_closes_at)
+  } else if (defaults?.registration_closes_hours_before != null) {
+    closesAt = new Date(start.getTime() - defaults.registration_closes_hours_before * 3_600_000)
+  }
+
+  return { opensAt, closesAt }
+}
+
+/**
+ * Where `now` falls relative to a registration window.
+ */
+export function getRegistrationWindowState(
+  registrationWindow: RegistrationWindow,
+  now: Date = new Date()
+): RegistrationWindowState {
+  if (registrationWindow.opensAt && now < registrationWindow.opensAt) return 'not-yet-open'
+  if (registrationWindow.closesAt && now >= registrationWindow.closesAt) return 'closed'
+  return 'open'
+}
+
+/**
+ * Format a window boundary for riders, e.g. "Monday, May 4 at 8:00 AM".
+ */
+export function formatRegistrationWindowDate(date: Date): string {
+  const day = date.toLocaleDateString('en-US', {
+    timeZone: 'America/Toronto',
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  })
+  const time = date.toLocaleTimeString('en-US', {
+    timeZone: 'America/Toronto',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+  return `${day} at ${time}`
+}
+
+/**
+ * Error message for a registration attempt outside the window, or null when open.
+ */
+export function getRegistrationWindowError(
+  registrationWindow: RegistrationWindow,
+  now: Date = new Date()
+): string | null {
+  const state = getRegistrationWindowState(registrationWindow, now)
+  if (state === 'not-yet-open' && registrationWindow.opensAt) {
+    return `Registration for this event opens ${formatRegistrationWindowDate(registrationWindow.opensAt)}`
+  }
+  if (state === 'closed') {
+    return 'Registration for this event has closed'
+  }
+  return null
+}
+
+/**
+ * Format the time remaining until a window boundary, e.g. "2 days, 4 hours".
+ */
+export function formatCountdown(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60_000)
+  if (totalMinutes < 1) return 'less than a minute'
+
+  const days = Math.floor(totalMinutes / 1440)
+  const hours = Math.floor((totalMinutes % 1440) / 60)
+  const minutes = totalMinutes % 60
+  const unit = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`
+
+  if (days > 0)
+    return hours > 0 ? `${unit(days, 'day')}, ${unit(hours, 'hour')}` : unit(days, 'day')
+  if (hours > 0) {
+    return minutes > 0 ? `${unit(hours, 'hour')}, ${unit(minutes, 'minute')}` : unit(hours, 'hour')
+  }
+  return unit(minutes, 'minute')
+}
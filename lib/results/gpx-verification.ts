@@ -0,0 +1,219 @@
+/**
+ * GPX verification of rider-submitted results
+ *
+ * Checks a rider's GPX track against the event: that it passes within
+ * CONTROL_RADIUS_KM of each control (in order), reaches each control between
+ * its open and close times, and that its elapsed time matches the claimed
+ * finish time. Controls are placed on the route's own GPX/TCX track by km,
+ * so routes without a route file can only get the distance and time checks.
+ *
+ * Missed controls and arriving after a control closes fail; everything else
+ * that looks off is a warning for an organizer to review.
+ */
+import { computeControlTimes, formatControlTime, formatHM } from '@/lib/brmTimes'
+import { haversineKm, type ParsedRouteFile, type TrackPoint } from '@/lib/routes/route-file'
+import type { TimeRuleSet } from '@/lib/time-rules'
+import type { ControlDefinition } from '@/types/control-card'
+import type { GpxCheck, GpxCheckStatus, GpxVerificationReport } from '@/types/gpx-verification'
+
+export const CONTROL_RADIUS_KM = 0.5
+
+// Claimed and GPX elapsed times may differ by this much before we warn
+export const FINISH_TIME_TOLERANCE_MINUTES = 15
+
+// Warn when the track covers less than this share of the route
+const MIN_DISTANCE_RATIO = 0.95
+
+export interface GpxVerificationInput {
+  track: ParsedRouteFile // the rider's GPX
+  routeTrack: TrackPoint[] | null // the route file's track, used to place controls
+  controls: ControlDefinition[] // event or route controls; start and finish are used if empty
+  start: Date
+  rules: TimeRuleSet
+  routeKm: number
+  claimedFinishMinutes: number | null
+}
+
+const STATUS_RANK: Record<GpxCheckStatus, number> = { pass: 0, warn: 1, fail: 2 }
+
+function worstStatus(checks: GpxCheck[]): GpxCheckStatus {
+  return checks.reduce<GpxCheckStatus>(
+    (worst, check) => (STATUS_RANK[check.status] > STATUS_RANK[worst] ? check.status : worst),
+    'pass'
+  )
+}
+
+function toTime(point: TrackPoint): number | null {
+  if (!point.time) return null
+  const time = Date.parse(point.time)
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * The track point at (or just past) km along the track
+ */
+export function locateOnTrack(points: TrackPoint[], km: number): TrackPoint {
+  if (km <= 0) return points[0]
+
+  let distance = 0
+  for (let i = 1; i < points.length; i++) {
+    distance += haversineKm(points[i - 1], points[i])
+    if (distance >= km) return points[i]
+  }
+  return points[points.length - 1]
+}
+
+/**
+ * First visit to within CONTROL_RADIUS_KM of a position, starting at fromIndex.
+ * Returns the indexes of the consecutive points inside the radius.
+ */
+function findVisit(
+  points: TrackPoint[],
+  position: { lat: number; lon: number },
+  fromIndex: number
+): { first: number; last: number } | null {
+  let first = -1
+  for (let i = fromIndex; i < points.length; i++) {
+    const inside = haversineKm(points[i], position) <= CONTROL_RADIUS_KM
+    if (inside && first === -1) first = i
+    if (!inside && first !== -1) return { first, last: i - 1 }
+  }
+  return first === -1 ? null : { first, last: points.length - 1 }
+}
+
+function controlLabel(control: ControlDefinition): string {
+  return `Control: ${control.name} (${control.distance} km)`
+}
+
+/**
+ * Verify a rider's GPX track. Pure: all data is passed in.
+ */
+export function verifyGpxTrack(input: GpxVerificationInput): GpxVerificationReport {
+  const { track, routeTrack, start, rules, routeKm, claimedFinishMinutes } = input
+  const points = track.points
+  const checks: GpxCheck[] = []
+
+  // Distance
+  checks.push(
+    track.distanceKm >= routeKm * MIN_DISTANCE_RATIO
+      ? { label: 'Distance', status: 'pass', detail: `Track covers ${track.distanceKm} km` }
+      : {
+          label: 'Distance',
+          status: 'warn',
+          detail: `Track covers ${track.distanceKm} km of a ${routeKm} km route`,
+        }
+  )
+
+  const hasTimes = points.some((p) => toTime(p) !== null)
+  if (!hasTimes) {
+    checks.push({
+      label: 'Timestamps',
+      status: 'warn',
+      detail: 'GPX has no timestamps, so control and finish times were not checked',
+    })
+  }
+
+  // Controls
+  let finishArrival: number | null = null
+  if (!routeTrack) {
+    checks.push({
+      label: 'Controls',
+      status: 'warn',
+      detail: 'Route has no GPX/TCX file, so control locations could not be checked',
+    })
+  } else {
+    const controls: ControlDefinition[] =
+      input.controls.length > 0
+        ? input.controls
+        : [
+            {
+              name: 'Start',
+              distance: 0,
+              address: null,
+              controlType: 'staffed',
+              infoQuestion: null,
+            },
+            {
+              name: 'Finish',
+              distance: routeKm,
+              address: null,
+              controlType: 'staffed',
+              infoQuestion: null,
+            },
+          ]
+
+    let searchFrom = 0
+    for (const [index, control] of controls.entries()) {
+      const label = controlLabel(control)
+      const visit = findVisit(points, locateOnTrack(routeTrack, control.distance), searchFrom)
+
+      if (!visit) {
+        checks.push({
+          label,
+          status: 'fail',
+          detail: `Track does not pass within ${CONTROL_RADIUS_KM * 1000} m`,
+        })
+        continue
+      }
+      searchFrom = visit.last + 1
+
+      const times = points
+        .slice(visit.first, visit.last + 1)
+        .map(toTime)
+        .filter((t): t is number => t !== null)
+
+      if (times.length === 0) {
+        checks.push({ label, status: 'pass', detail: 'Passed' })
+        continue
+      }
+
+      if (index === controls.length - 1) finishArrival = times[0]
+
+      const { openAt, closeAt } = computeControlTimes(start, control.distance, rules, routeKm)
+      const arrived = new Date(times[0])
+      const left = new Date(times[times.length - 1])
+
+      if (times.some((t) => t >= openAt.getTime() && t <= closeAt.getTime())) {
+        checks.push({ label, status: 'pass', detail: `Reached ${formatControlTime(arrived)}` })
+      } else if (left < openAt) {
+        checks.push({
+          label,
+          status: 'warn',
+          detail: `Left ${formatControlTime(left)}, before it opened at ${formatControlTime(openAt)}`,
+        })
+      } else {
+        checks.push({
+          label,
+          status: 'fail',
+          detail: `Reached ${formatControlTime(arrived)}, after it closed at ${formatControlTime(closeAt)}`,
+        })
+      }
+    }
+  }
+
+  // Elapsed time
+  if (hasTimes && claimedFinishMinutes !== null) {
+    const lastTime = points
+      .map(toTime)
+      .filter((t): t is number => t !== null)
+      .pop()!
+    const elapsedMinutes = Math.round(((finishArrival ?? lastTime) - start.getTime()) / 60000)
+    const difference = Math.abs(elapsedMinutes - claimedFinishMinutes)
+
+    checks.push(
+      difference <= FINISH_TIME_TOLERANCE_MINUTES
+        ? {
+            label: 'Finish time',
+            status: 'pass',
+            detail: `GPX elapsed ${formatHM(elapsedMinutes)} matches claimed ${formatHM(claimedFinishMinutes)}`,
+          }
+        : {
+            label: 'Finish time',
+            status: 'warn',
+            detail: `GPX elapsed ${formatHM(elapsedMinutes)}, claimed ${formatHM(claimedFinishMinutes)}`,
+          }
+    )
+  }
+
+  return { status: worstStatus(checks), checks }
+}
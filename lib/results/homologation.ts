@@ -0,0 +1,125 @@
+/**
+ * Homologation export
+ *
+ * Builds the CSV the chapter VP sends to ACP (brevets and flèches) or LRM
+ * (1200 km+ grand randonnées) to homologate an event's finishers. Only
+ * finished results are included; times use ACP's HHhMM notation.
+ *
+ * Homologation numbers come back on the returned brevet cards and are entered
+ * per result on the admin event page.
+ */
+import { createSlug, parseFinishTimeToMinutes } from '@/lib/utils'
+
+export type HomologationAuthority = 'ACP' | 'LRM'
+
+// Randonneurs Ontario's club code with ACP, set per deployment
+export const ACP_CLUB_CODE = process.env.ACP_CLUB_CODE || ''
+
+export const HOMOLOGATION_COLUMNS = [
+  'Rider Number',
+  'Last Name',
+  'First Name',
+  'Gender',
+  'Club Code',
+  'Event Date',
+  'Distance (km)',
+  'Time',
+  'Medal',
+  'Homologation Number',
+] as const
+
+export interface HomologationEvent {
+  name: string
+  event_date: string
+  event_type: string
+  distance_km: number
+}
+
+export interface HomologationResult {
+  status: string | null
+  finish_time: string | null
+  medal_requested: boolean
+  homologation_number: string | null
+  riders: {
+    first_name: string
+    last_name: string
+    gender: string | null
+    rider_number: number | null
+  } | null
+}
+
+/**
+ * Who homologates an event: LRM for rides over 1000 km, ACP otherwise.
+ */
+export function getHomologationAuthority(event: {
+  event_type: string
+  distance_km: number
+}): HomologationAuthority {
+  return event.event_type !== 'fleche' && event.distance_km > 1000 ? 'LRM' : 'ACP'
+}
+
+/**
+ * Format minutes as ACP's HHhMM, e.g. 812 -> "13h32", 4000 -> "66h40"
+ */
+export function formatAcpTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return `${hours.toString().padStart(2, '0')}h${minutes.toString().padStart(2, '0')}`
+}
+
+function escapeCsvValue(value: string | number | null): string {
+  if (value === null) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * ACP only records women separately; anything other than M/F is left blank.
+ */
+function formatGender(gender: string | null): string {
+  return gender === 'M' || gender === 'F' ? gender : ''
+}
+
+/**
+ * Build the homologation CSV for an event's finishers, sorted by name.
+ */
+export function buildHomologationCsv(
+  event: HomologationEvent,
+  results: HomologationResult[],
+  clubCode: string = ACP_CLUB_CODE
+): string {
+  const rows = results
+    .filter((r) => r.status === 'finished' && r.riders)
+    .sort(
+      (a, b) =>
+        a.riders!.last_name.localeCompare(b.riders!.last_name) ||
+        a.riders!.first_name.localeCompare(b.riders!.first_name)
+    )
+    .map((r) => {
+      const minutes = parseFinishTimeToMinutes(r.finish_time)
+      return [
+        r.riders!.rider_number,
+        r.riders!.last_name,
+        r.riders!.first_name,
+        formatGender(r.riders!.gender),
+        clubCode,
+        event.event_date,
+        event.distance_km,
+        minutes === null ? '' : formatAcpTime(minutes),
+        r.medal_requested ? 'Y' : 'N',
+        r.homologation_number,
+      ]
+    })
+
+  return [HOMOLOGATION_COLUMNS, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(','))
+    .join('\r\n')
+    .concat('\r\n')
+}
+
+/**
+ * File name for an event's homologation CSV, e.g. "ACP-2026-05-02-200-spring-classic.csv"
+ */
+export function getHomologationFileName(event: HomologationEvent): string {
+  return `${getHomologationAuthority(event)}-${event.event_date}-${event.distance_km}-${createSlug(event.name)}.csv`
+}
@@ -0,0 +1,117 @@
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import { createTorontoDate } from '@/lib/brmTimes'
+import { getTimeRuleSet } from '@/lib/time-rules'
+import { getEventControls } from '@/lib/events/event-controls'
+import { parseRouteFile, type TrackPoint } from '@/lib/routes/route-file'
+import { verifyGpxTrack } from '@/lib/results/gpx-verification'
+import { parseFinishTimeToMinutes } from '@/lib/utils'
+import { logError } from '@/lib/errors'
+import type { Json } from '@/types/supabase'
+import type { GpxVerificationReport } from '@/types/gpx-verification'
+
+interface ResultForVerification {
+  id: string
+  finish_time: string | null
+  gpx_file_path: string | null
+  events: {
+    id: string
+    event_date: string
+    start_time: string | null
+    distance_km: number
+    event_type: string
+    route_id: string | null
+    routes: { route_file_path: string | null } | null
+  } | null
+}
+
+async function downloadText(bucket: string, path: string): Promise<string | null> {
+  const { data, error } = await getSupabaseAdmin().storage.from(bucket).download(path)
+  if (error || !data) {
+    logError(error, { operation: 'verifyResultGpx.download', context: { bucket, path } })
+    return null
+  }
+  return data.text()
+}
+
+async function getRouteTrack(routeFilePath: string | null): Promise<TrackPoint[] | null> {
+  if (!routeFilePath) return null
+  const text = await downloadText('route-files', routeFilePath)
+  return text ? (parseRouteFile(text).route?.points ?? null) : null
+}
+
+/**
+ * Check a result's uploaded GPX against its event and store the report in
+ * results.gpx_verification. Best-effort: errors are logged and null returned,
+ * so callers (rider uploads) never fail because of verification.
+ */
+export async function verifyResultGpx(resultId: string): Promise<GpxVerificationReport | null> {
+  try {
+    const supabase = getSupabaseAdmin()
+
+    const { data, error } = await supabase
+      .from('results')
+      .select(
+        `
+        id, finish_time, gpx_file_path,
+        events (id, event_date, start_time, distance_km, event_type, route_id, routes (route_file_path))
+      `
+      )
+      .eq('id', resultId)
+      .single()
+
+    if (error || !data) {
+      logError(error, { operation: 'verifyResultGpx.fetch', context: { resultId } })
+      return null
+    }
+
+    const result = data as ResultForVerification
+    const event = result.events
+    if (!result.gpx_file_path || !event) return null
+
+    let report: GpxVerificationReport
+    const gpxText = await downloadText('rider-submissions', result.gpx_file_path)
+    const parsed = gpxText ? parseRouteFile(gpxText) : { error: 'File could not be downloaded' }
+
+    if (parsed.error !== undefined) {
+      report = {
+        status: 'fail',
+        checks: [{ label: 'GPX file', status: 'fail', detail: parsed.error }],
+      }
+    } else {
+      const [year, month, day] = event.event_date.split('-').map(Number)
+      const [hours, minutes] = (event.start_time || '06:00').split(':').map(Number)
+
+      const [routeTrack, { controls }] = await Promise.all([
+        getRouteTrack(event.routes?.route_file_path ?? null),
+        getEventControls(event.id, event.route_id),
+      ])
+
+      report = verifyGpxTrack({
+        track: parsed.route,
+        routeTrack,
+        controls,
+        start: createTorontoDate(year, month - 1, day, hours, minutes),
+        rules: getTimeRuleSet(event.event_type, event.distance_km),
+        routeKm: event.distance_km,
+        claimedFinishMinutes: parseFinishTimeToMinutes(result.finish_time),
+      })
+    }
+
+    const { error: updateError } = await supabase
+      .from('results')
+      .update({
+        gpx_verification: report as unknown as Json,
+        gpx_verified_at: new Date().toISOString(),
+      })
+      .eq('id', resultId)
+
+    if (updateError) {
+      logError(updateError, { operation: 'verifyResultGpx.update', context: { resultId } })
+    }
+
+    return report
+  } catch (error) {
+    logError(error, { operation: 'verifyResultGpx', context: { resultId } })
+    return null
+  }
+}
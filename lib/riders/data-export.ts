@@ -0,0 +1,170 @@
+/**
+ * Personal data export
+ *
+ * Everything we hold about a rider, for the download on /account: their
+ * profile, registrations, results, memberships, name and email changes from
+ * registrations, the emails we've sent them and their data requests.
+ * Internal tokens (manage links, submission links, calendar feed) are left
+ * out; they are credentials, not personal data.
+ *
+ * The export is JSON by default. The CSV version flattens it into one
+ * section,item,field,value row per value so it opens in a spreadsheet.
+ */
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import type {
+  EmailForExport,
+  Membership,
+  RegistrationForExport,
+  ResultForExport,
+  RiderDataRequest,
+  RiderForExport,
+} from '@/types/queries'
+import type { Database } from '@/types/supabase'
+
+type RiderMerge = Database['public']['Tables']['rider_merges']['Row']
+
+export interface RiderDataExport {
+  exportedAt: string
+  profile: RiderForExport
+  registrations: RegistrationForExport[]
+  results: ResultForExport[]
+  memberships: Pick<Membership, 'season' | 'type' | 'source' | 'membership_id' | 'created_at'>[]
+  /** Details riders submitted at registration that differed from their record */
+  registrationDetails: Pick<
+    RiderMerge,
+    | 'merged_at'
+    | 'submitted_first_name'
+    | 'submitted_last_name'
+    | 'submitted_email'
+    | 'previous_first_name'
+    | 'previous_last_name'
+    | 'previous_email'
+  >[]
+  emails: EmailForExport[]
+  dataRequests: Pick<RiderDataRequest, 'request_type' | 'status' | 'requested_at' | 'resolved_at'>[]
+}
+
+const EXPORT_SECTIONS = [
+  'registrations',
+  'results',
+  'memberships',
+  'registrationDetails',
+  'emails',
+  'dataRequests',
+] as const
+
+/**
+ * Collect a rider's data with the service role. Throws if any query fails,
+ * so a partial export is never handed out.
+ */
+export async function getRiderDataExport(riderId: string): Promise<RiderDataExport | null> {
+  const supabase = getSupabaseAdmin()
+
+  const [profile, registrations, results, memberships, merges, emails, requests] =
+    await Promise.all([
+      supabase
+        .from('riders')
+        .select(
+          'id, first_name, last_name, email, gender, emergency_contact_name, emergency_contact_phone, rider_number, slug, profile_visibility, exclude_from_records, created_at, updated_at'
+        )
+        .eq('id', riderId)
+        .maybeSingle(),
+      supabase
+        .from('registrations')
+        .select(
+          'id, status, registered_at, notes, share_registration, events (name, event_date, distance_km)'
+        )
+        .eq('rider_id', riderId)
+        .order('registered_at', { ascending: true }),
+      supabase
+        .from('results')
+        .select(
+          'id, status, finish_time, season, distance_km, team_name, note, rider_notes, medal_requested, homologation_number, gpx_url, submitted_at, events (name, event_date)'
+        )
+        .eq('rider_id', riderId)
+        .order('season', { ascending: true }),
+      supabase
+        .from('memberships')
+        .select('season, type, source, membership_id, created_at')
+        .eq('rider_id', riderId)
+        .order('season', { ascending: true }),
+      supabase
+        .from('rider_merges')
+        .select(
+          'merged_at, submitted_first_name, submitted_last_name, submitted_email, previous_first_name, previous_last_name, previous_email'
+        )
+        .eq('rider_id', riderId)
+        .order('merged_at', { ascending: true }),
+      supabase
+        .from('email_outbox')
+        .select('created_at, sent_at, status, kind, subject, to_emails')
+        .eq('rider_id', riderId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('rider_data_requests')
+        .select('request_type, status, requested_at, resolved_at')
+        .eq('rider_id', riderId)
+        .order('requested_at', { ascending: true }),
+    ])
+
+  for (const response of [profile, registrations, results, memberships, merges, emails, requests]) {
+    if (response.error) throw response.error
+  }
+
+  if (!profile.data) return null
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: profile.data as RiderForExport,
+    registrations: (registrations.data as RegistrationForExport[] | null) ?? [],
+    results: (results.data as ResultForExport[] | null) ?? [],
+    memberships: memberships.data ?? [],
+    registrationDetails: merges.data ?? [],
+    emails: emails.data ?? [],
+    dataRequests: requests.data ?? [],
+  }
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Flatten a record into field/value pairs; nested objects use dotted names
+ * ("events.name") and arrays are joined with "; ".
+ */
+function flattenRecord(record: object, prefix = ''): [string, string][] {
+  return Object.entries(record).flatMap(([key, value]): [string, string][] => {
+    const field = prefix ? `${prefix}.${key}` : key
+    if (value === null || value === undefined) return [[field, '']]
+    if (Array.isArray(value)) return [[field, value.join('; ')]]
+    if (typeof value === 'object') return flattenRecord(value, field)
+    return [[field, String(value)]]
+  })
+}
+
+/**
+ * The export as CSV: one section,item,field,value row per value. Items are
+ * numbered from 1 within each section.
+ */
+export function buildRiderDataExportCsv(data: RiderDataExport): string {
+  const rows: string[][] = [['section', 'item', 'field', 'value']]
+
+  rows.push(['export', '1', 'exported_at', data.exportedAt])
+  for (const [field, value] of flattenRecord(data.profile)) {
+    rows.push(['profile', '1', field, value])
+  }
+
+  for (const section of EXPORT_SECTIONS) {
+    data[section].forEach((record, index) => {
+      for (const [field, value] of flattenRecord(record)) {
+        rows.push([section, String(index + 1), field, value])
+      }
+    })
+  }
+
+  return rows
+    .map((row) => row.map(escapeCsvValue).join(','))
+    .join('\r\n')
+    .concat('\r\n')
+}
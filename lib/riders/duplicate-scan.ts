@@ -0,0 +1,194 @@
+/**
+ * Duplicate rider scan
+ *
+ * Loads every rider, finds likely duplicates with lib/riders/duplicates.ts and
+ * replaces the pending clusters in rider_duplicate_clusters. Riders in a
+ * dismissed cluster are never proposed together again.
+ *
+ * Called nightly by the /api/cron/duplicate-riders job and from the "Scan now"
+ * button on /admin/riders/duplicates.
+ */
+import { getSupabaseAdmin } from '@/lib/supabase-server'
+import {
+  clusterDuplicatePairs,
+  findCandidatePairs,
+  getDismissedPairKeys,
+  scoreCandidatePair,
+  type DuplicatePair,
+  type DuplicateRider,
+  type RiderHistory,
+} from '@/lib/riders/duplicates'
+
+const BATCH_SIZE = 1000
+const HISTORY_CHUNK_SIZE = 200
+
+export interface DuplicateScanResult {
+  riders: number
+  clusters: number
+  added: number
+  removed: number
+}
+
+interface ExistingCluster {
+  id: string
+  cluster_key: string
+  rider_ids: string[]
+  status: string
+}
+
+/** Page through a query that may return more than Supabase's row limit */
+async function selectAll<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  let rows: T[] = []
+  let from = 0
+
+  while (true) {
+    const { data, error } = await query(from, from + BATCH_SIZE - 1)
+    if (error) throw error
+    if (!data || data.length === 0) break
+
+    rows = rows.concat(data)
+
+    if (data.length < BATCH_SIZE) break
+    from += BATCH_SIZE
+  }
+
+  return rows
+}
+
+async function getAllRiders(): Promise<DuplicateRider[]> {
+  const rows = await selectAll((from, to) =>
+    getSupabaseAdmin()
+      .from('riders')
+      .select('id, first_name, last_name, email')
+      .order('id', { ascending: true })
+      .range(from, to)
+  )
+
+  return rows.map((rider) => ({
+    id: rider.id,
+    firstName: rider.first_name,
+    lastName: rider.last_name,
+    email: rider.email,
+  }))
+}
+
+/** Events (registered or with a result) and seasons for each rider */
+async function getRiderHistories(riderIds: string[]): Promise<Map<string, RiderHistory>> {
+  const histories = new Map<string, RiderHistory>(
+    riderIds.map((id) => [id, { eventIds: new Set(), seasons: new Set() }])
+  )
+
+  for (let i = 0; i < riderIds.length; i += HISTORY_CHUNK_SIZE) {
+    const chunk = riderIds.slice(i, i + HISTORY_CHUNK_SIZE)
+
+    const [results, registrations] = await Promise.all([
+      selectAll((from, to) =>
+        getSupabaseAdmin()
+          .from('results')
+          .select('id, rider_id, event_id, season')
+          .in('rider_id', chunk)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      // A cancelled registration doesn't mean the rider was on the event
+      selectAll((from, to) =>
+        getSupabaseAdmin()
+          .from('registrations')
+          .select('id, rider_id, event_id, events (season)')
+          .in('rider_id', chunk)
+          .neq('status', 'cancelled')
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+    ])
+
+    for (const result of results) {
+      const history = histories.get(result.rider_id)
+      history?.eventIds.add(result.event_id)
+      history?.seasons.add(result.season)
+    }
+
+    for (const registration of registrations as Array<{
+      rider_id: string
+      event_id: string
+      events: { season: number | null } | null
+    }>) {
+      const history = histories.get(registration.rider_id)
+      history?.eventIds.add(registration.event_id)
+      if (registration.events?.season) history?.seasons.add(registration.events.season)
+    }
+  }
+
+  return histories
+}
+
+/**
+ * Scan the riders table and refresh the pending duplicate clusters. Throws on
+ * database errors; callers log them.
+ */
+export async function scanForDuplicateRiders(): Promise<DuplicateScanResult> {
+  const supabase = getSupabaseAdmin()
+
+  const [riders, { data: existingRows, error: existingError }] = await Promise.all([
+    getAllRiders(),
+    supabase.from('rider_duplicate_clusters').select('id, cluster_key, rider_ids, status'),
+  ])
+
+  if (existingError) throw existingError
+
+  const existing = (existingRows ?? []) as ExistingCluster[]
+  const dismissedPairKeys = getDismissedPairKeys(
+    existing.filter((c) => c.status === 'dismissed').map((c) => c.rider_ids)
+  )
+
+  const candidates = findCandidatePairs(riders, dismissedPairKeys)
+  const candidateRiderIds = Array.from(new Set(candidates.flatMap((pair) => pair.riderIds)))
+  const histories = await getRiderHistories(candidateRiderIds)
+  const riderById = new Map(riders.map((rider) => [rider.id, rider]))
+
+  const pairs = candidates
+    .map((pair) =>
+      scoreCandidatePair(
+        pair,
+        riderById.get(pair.riderIds[0])!,
+        riderById.get(pair.riderIds[1])!,
+        histories.get(pair.riderIds[0])!,
+        histories.get(pair.riderIds[1])!
+      )
+    )
+    .filter((pair): pair is DuplicatePair => pair !== null)
+
+  const clusters = clusterDuplicatePairs(pairs)
+  const clusterKeys = new Set(clusters.map((c) => c.key))
+  const pending = existing.filter((c) => c.status === 'pending')
+  const pendingKeys = new Set(pending.map((c) => c.cluster_key))
+
+  // Clusters that no longer hold (merged, renamed, or grown into a new cluster)
+  const staleIds = pending.filter((c) => !clusterKeys.has(c.cluster_key)).map((c) => c.id)
+  if (staleIds.length > 0) {
+    const { error } = await supabase.from('rider_duplicate_clusters').delete().in('id', staleIds)
+    if (error) throw error
+  }
+
+  if (clusters.length > 0) {
+    const { error } = await supabase.from('rider_duplicate_clusters').upsert(
+      clusters.map((cluster) => ({
+        cluster_key: cluster.key,
+        rider_ids: cluster.riderIds,
+        score: cluster.score,
+        reasons: cluster.reasons,
+      })),
+      { onConflict: 'cluster_key' }
+    )
+    if (error) throw error
+  }
+
+  return {
+    riders: riders.length,
+    clusters: clusters.length,
+    added: clusters.filter((c) => !pendingKeys.has(c.key)).length,
+    removed: staleIds.length,
+  }
+}
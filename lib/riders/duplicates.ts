@@ -0,0 +1,295 @@
+/**
+ * Duplicate rider detection
+ *
+ * Pure functions that find riders who are probably the same person. Names are
+ * compared with the fuzzy matcher used at registration (nicknames, typos,
+ * surname prefixes). A shared email is a strong signal on its own. Event
+ * history settles the rest: one person can't ride the same event twice, so
+ * riders with an event in common are only kept when they share an email.
+ *
+ * Riders are compared within blocks (same surname start, same first name or
+ * nickname, same email) rather than every pair, so a full scan stays fast.
+ * Likely pairs are then joined into clusters for an admin to merge or dismiss.
+ *
+ * Scanning and storage live in lib/riders/duplicate-scan.ts.
+ */
+import { fuzzyNameScore, getNameVariants } from '@/lib/utils/fuzzy-match'
+
+/** Names scoring at least this are compared further */
+export const NAME_MATCH_THRESHOLD = 0.85
+
+/** Pairs scoring below this after the email and history signals are dropped */
+export const DUPLICATE_SCORE_THRESHOLD = 0.8
+
+const SAME_EMAIL_BONUS = 0.3
+const DIFFERENT_EMAIL_PENALTY = 0.1
+const SHARED_SEASON_BONUS = 0.05
+
+export type DuplicateReason =
+  | 'Same email'
+  | 'Same name'
+  | 'Similar names'
+  | 'Different emails'
+  | 'Active in the same seasons'
+  | 'No events in common'
+
+// Order reasons are listed in for a cluster
+const REASON_ORDER: DuplicateReason[] = [
+  'Same email',
+  'Same name',
+  'Similar names',
+  'Active in the same seasons',
+  'No events in common',
+  'Different emails',
+]
+
+export interface DuplicateRider {
+  id: string
+  firstName: string
+  lastName: string
+  email: string | null
+}
+
+export interface RiderHistory {
+  eventIds: Set<string>
+  seasons: Set<number>
+}
+
+export interface CandidatePair {
+  riderIds: [string, string]
+  nameScore: number
+  sameEmail: boolean
+}
+
+export interface DuplicatePair {
+  riderIds: [string, string]
+  score: number
+  reasons: DuplicateReason[]
+}
+
+export interface DuplicateCluster {
+  key: string
+  riderIds: string[] // sorted
+  score: number
+  reasons: DuplicateReason[]
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+function normalizeEmail(email: string | null): string | null {
+  const normalized = email?.trim().toLowerCase()
+  return normalized || null
+}
+
+/** Stable key for a pair of riders, whichever order they're given in */
+export function getPairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`
+}
+
+/** Stable key for a set of riders */
+export function getClusterKey(riderIds: string[]): string {
+  return [...riderIds].sort().join(':')
+}
+
+/**
+ * Every pair in a dismissed cluster is "not a duplicate", so a later scan
+ * won't propose any of them together again.
+ */
+export function getDismissedPairKeys(dismissedClusters: string[][]): Set<string> {
+  const keys = new Set<string>()
+  for (const riderIds of dismissedClusters) {
+    for (let i = 0; i < riderIds.length; i++) {
+      for (let j = i + 1; j < riderIds.length; j++) {
+        keys.add(getPairKey(riderIds[i], riderIds[j]))
+      }
+    }
+  }
+  return keys
+}
+
+function getBlockingKeys(rider: DuplicateRider): string[] {
+  const keys: string[] = []
+
+  const lastName = normalizeName(rider.lastName)
+  if (lastName.length >= 2) {
+    keys.push(`last:${lastName.slice(0, 2)}`)
+  }
+
+  // "Jean-Pierre", "Xinhua (Luke)" and "Mary Ann" are blocked under each part
+  for (const part of rider.firstName.split(/[\s\-()]+/)) {
+    const firstName = normalizeName(part)
+    if (firstName.length < 2) continue
+    for (const variant of getNameVariants(firstName)) {
+      keys.push(`first:${variant}`)
+    }
+  }
+
+  const email = normalizeEmail(rider.email)
+  if (email) {
+    keys.push(`email:${email}`)
+  }
+
+  return keys
+}
+
+/**
+ * Find pairs of riders with matching names or a shared email. Pairs in
+ * `dismissedPairKeys` (see getDismissedPairKeys) are skipped.
+ */
+export function findCandidatePairs(
+  riders: DuplicateRider[],
+  dismissedPairKeys: Set<string> = new Set()
+): CandidatePair[] {
+  const blocks = new Map<string, DuplicateRider[]>()
+  for (const rider of riders) {
+    for (const key of getBlockingKeys(rider)) {
+      const block = blocks.get(key)
+      if (block) {
+        block.push(rider)
+      } else {
+        blocks.set(key, [rider])
+      }
+    }
+  }
+
+  const compared = new Set<string>()
+  const pairs: CandidatePair[] = []
+
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = block[i]
+        const b = block[j]
+        const key = getPairKey(a.id, b.id)
+        if (compared.has(key) || dismissedPairKeys.has(key)) continue
+        compared.add(key)
+
+        const emailA = normalizeEmail(a.email)
+        const sameEmail = emailA !== null && emailA === normalizeEmail(b.email)
+        const nameScore = fuzzyNameScore(a.firstName, a.lastName, b.firstName, b.lastName)
+
+        if (sameEmail || nameScore >= NAME_MATCH_THRESHOLD) {
+          pairs.push({ riderIds: a.id < b.id ? [a.id, b.id] : [b.id, a.id], nameScore, sameEmail })
+        }
+      }
+    }
+  }
+
+  return pairs
+}
+
+function countShared<T>(a: Set<T>, b: Set<T>): number {
+  let count = 0
+  for (const value of a) {
+    if (b.has(value)) count++
+  }
+  return count
+}
+
+/**
+ * Weigh a candidate pair's emails and event histories. Returns null when the
+ * pair isn't a likely duplicate.
+ */
+export function scoreCandidatePair(
+  pair: CandidatePair,
+  riderA: DuplicateRider,
+  riderB: DuplicateRider,
+  historyA: RiderHistory,
+  historyB: RiderHistory
+): DuplicatePair | null {
+  const sharedEvents = countShared(historyA.eventIds, historyB.eventIds)
+
+  // Two people on the same event, unless it's one person entered twice
+  if (sharedEvents > 0 && !pair.sameEmail) {
+    return null
+  }
+
+  const reasons: DuplicateReason[] = []
+  let score = pair.nameScore
+
+  if (pair.sameEmail) {
+    score += SAME_EMAIL_BONUS
+    reasons.push('Same email')
+  } else if (normalizeEmail(riderA.email) && normalizeEmail(riderB.email)) {
+    score -= DIFFERENT_EMAIL_PENALTY
+    reasons.push('Different emails')
+  }
+
+  if (pair.nameScore >= 1) {
+    reasons.push('Same name')
+  } else if (pair.nameScore >= NAME_MATCH_THRESHOLD) {
+    reasons.push('Similar names')
+  }
+
+  if (countShared(historyA.seasons, historyB.seasons) > 0) {
+    score += SHARED_SEASON_BONUS
+    reasons.push('Active in the same seasons')
+  }
+
+  if (historyA.eventIds.size > 0 && historyB.eventIds.size > 0 && sharedEvents === 0) {
+    reasons.push('No events in common')
+  }
+
+  score = Math.min(1, score)
+  if (score < DUPLICATE_SCORE_THRESHOLD) {
+    return null
+  }
+
+  return { riderIds: pair.riderIds, score: Math.round(score * 1000) / 1000, reasons }
+}
+
+/**
+ * Join duplicate pairs that share a rider into clusters, best score first.
+ * A cluster's score is the average of its pairs.
+ */
+export function clusterDuplicatePairs(pairs: DuplicatePair[]): DuplicateCluster[] {
+  const parent = new Map<string, string>()
+
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!
+    }
+    parent.set(id, root)
+    return root
+  }
+
+  for (const pair of pairs) {
+    for (const id of pair.riderIds) {
+      if (!parent.has(id)) parent.set(id, id)
+    }
+    const rootA = find(pair.riderIds[0])
+    const rootB = find(pair.riderIds[1])
+    if (rootA !== rootB) parent.set(rootB, rootA)
+  }
+
+  const groups = new Map<string, { riderIds: Set<string>; pairs: DuplicatePair[] }>()
+  for (const pair of pairs) {
+    const root = find(pair.riderIds[0])
+    let group = groups.get(root)
+    if (!group) {
+      group = { riderIds: new Set(), pairs: [] }
+      groups.set(root, group)
+    }
+    group.riderIds.add(pair.riderIds[0])
+    group.riderIds.add(pair.riderIds[1])
+    group.pairs.push(pair)
+  }
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const riderIds = Array.from(group.riderIds).sort()
+      const score = group.pairs.reduce((sum, p) => sum + p.score, 0) / group.pairs.length
+      const reasons = new Set(group.pairs.flatMap((p) => p.reasons))
+
+      return {
+        key: getClusterKey(riderIds),
+        riderIds,
+        score: Math.round(score * 1000) / 1000,
+        reasons: REASON_ORDER.filter((reason) => reasons.has(reason)),
+      }
+    })
+    .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key))
+}
@@ -0,0 +1,43 @@
+/**
+ * Rider privacy settings
+ *
+ * Riders choose how they appear publicly from /account:
+ * - public: full name, profile page and directory listing
+ * - initials: initials only ("J. D."), no profile page
+ * - hidden: full name in event results, no profile page
+ *
+ * Riders can also leave the records tables altogether (exclude_from_records).
+ *
+ * The database applies the same rules in the public_results view and the
+ * records functions (rider_public_name and rider_public_slug in
+ * supabase/migrations/20260322120000_add_rider_privacy.sql). Public reads of
+ * the riders table itself only return public riders, so public pages should
+ * take names from those rather than masking them here.
+ */
+
+export const PROFILE_VISIBILITIES = ['public', 'initials', 'hidden'] as const
+
+export type ProfileVisibility = (typeof PROFILE_VISIBILITIES)[number]
+
+export function isProfileVisibility(value: unknown): value is ProfileVisibility {
+  return PROFILE_VISIBILITIES.includes(value as ProfileVisibility)
+}
+
+/** One name part as the public should see it */
+export function getPublicNamePart(name: string, visibility: string): string {
+  if (visibility !== 'initials') return name
+  return name ? `${name.charAt(0).toUpperCase()}.` : ''
+}
+
+export function getPublicRiderName(
+  firstName: string,
+  lastName: string,
+  visibility: string
+): string {
+  return `${getPublicNamePart(firstName, visibility)} ${getPublicNamePart(lastName, visibility)}`.trim()
+}
+
+/** Slugs are built from names and email prefixes, so only public riders get one */
+export function getPublicRiderSlug(slug: string, visibility: string): string | null {
+  return visibility === 'public' ? slug : null
+}
@@ -0,0 +1,242 @@
+/**
+ * GPX / TCX route file parsing
+ *
+ * Reads the track, its length, elevation gain and named waypoints from an
+ * uploaded route file. Parsing is plain string matching so it runs the same
+ * in the browser (instant preview in the route form) and on the server
+ * (validating uploads, proposing controls).
+ */
+
+export type RouteFileFormat = 'gpx' | 'tcx'
+
+export interface TrackPoint {
+  lat: number
+  lon: number
+  ele: number | null // metres
+  time: string | null // ISO timestamp, when the file has one
+}
+
+export interface RouteWaypoint {
+  name: string
+  lat: number
+  lon: number
+  distanceKm: number // cumulative km at the nearest track point
+}
+
+export interface ParsedRouteFile {
+  format: RouteFileFormat
+  name: string | null
+  distanceKm: number
+  elevationGainM: number | null // null when the file has no elevation data
+  points: TrackPoint[]
+  waypoints: RouteWaypoint[] // sorted by distanceKm
+}
+
+// Waypoints further than this from the track aren't on the route (e.g. a hotel)
+const MAX_WAYPOINT_OFFSET_KM = 0.5
+
+// Ignore elevation changes smaller than this to filter out GPS/DEM noise
+const ELEVATION_THRESHOLD_M = 3
+
+const EARTH_RADIUS_KM = 6371
+
+/**
+ * Great-circle distance between two points in km
+ */
+export function haversineKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLon = toRad(b.lon - a.lon)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+function getTag(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`))
+  return match ? decodeXml(match[1]) : null
+}
+
+function getAttr(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))
+  return match ? match[1] : null
+}
+
+function toNumber(value: string | null): number | null {
+  if (value === null || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+function isValidPosition(lat: number | null, lon: number | null): boolean {
+  return lat !== null && lon !== null && Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+}
+
+/**
+ * Every <tag …>…</tag> or <tag …/> element, as [attributes, body]
+ */
+function getElements(xml: string, tag: string): [string, string][] {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g')
+  return Array.from(xml.matchAll(pattern), (m) => [m[1], m[2] ?? ''])
+}
+
+function parseGpx(xml: string) {
+  const toPoint = ([attrs, body]: [string, string]): TrackPoint | null => {
+    const lat = toNumber(getAttr(attrs, 'lat'))
+    const lon = toNumber(getAttr(attrs, 'lon'))
+    if (!isValidPosition(lat, lon)) return null
+    return { lat: lat!, lon: lon!, ele: toNumber(getTag(body, 'ele')), time: getTag(body, 'time') }
+  }
+
+  // Prefer the track; fall back to route points for route-only files
+  let points = getElements(xml, 'trkpt').map(toPoint)
+  if (points.length === 0) {
+    points = getElements(xml, 'rtept').map(toPoint)
+  }
+
+  const waypoints = getElements(xml, 'wpt').map(([attrs, body]) => ({
+    name: getTag(body, 'name'),
+    lat: toNumber(getAttr(attrs, 'lat')),
+    lon: toNumber(getAttr(attrs, 'lon')),
+  }))
+
+  const trk = getTag(xml, 'trk')
+  const metadata = getTag(xml, 'metadata')
+  const name = (trk && getTag(trk, 'name')) || (metadata && getTag(metadata, 'name'))
+
+  return { points, waypoints, name }
+}
+
+function parseTcx(xml: string) {
+  const points = getElements(xml, 'Trackpoint').map(([, body]): TrackPoint | null => {
+    const lat = toNumber(getTag(body, 'LatitudeDegrees'))
+    const lon = toNumber(getTag(body, 'LongitudeDegrees'))
+    if (!isValidPosition(lat, lon)) return null
+    return {
+      lat: lat!,
+      lon: lon!,
+      ele: toNumber(getTag(body, 'AltitudeMeters')),
+      time: getTag(body, 'Time'),
+    }
+  })
+
+  const waypoints = getElements(xml, 'CoursePoint').map(([, body]) => ({
+    name: getTag(body, 'Name'),
+    lat: toNumber(getTag(body, 'LatitudeDegrees')),
+    lon: toNumber(getTag(body, 'LongitudeDegrees')),
+  }))
+
+  // A course's own <Name> comes before its laps, track and course points
+  const course = getTag(xml, 'Course')
+  const name = course ? getTag(course, 'Name') : null
+
+  return { points, waypoints, name }
+}
+
+/**
+ * Total climbing in metres, counting only rises of at least ELEVATION_THRESHOLD_M
+ */
+function computeElevationGain(points: TrackPoint[]): number | null {
+  const elevations = points.map((p) => p.ele).filter((e): e is number => e !== null)
+  if (elevations.length < 2) return null
+
+  let gain = 0
+  let reference = elevations[0]
+  for (const ele of elevations.slice(1)) {
+    if (ele - reference >= ELEVATION_THRESHOLD_M) {
+      gain += ele - reference
+      reference = ele
+    } else if (ele < reference) {
+      reference = ele
+    }
+  }
+  return Math.round(gain)
+}
+
+/**
+ * Parse a GPX or TCX file.
+ * Returns an error message when the file isn't a route file or has no track.
+ */
+export function parseRouteFile(
+  text: string
+): { route: ParsedRouteFile; error?: undefined } | { route?: undefined; error: string } {
+  let format: RouteFileFormat
+  let parsed: ReturnType<typeof parseGpx>
+
+  if (/<gpx\b/.test(text)) {
+    format = 'gpx'
+    parsed = parseGpx(text)
+  } else if (/<TrainingCenterDatabase\b/.test(text)) {
+    format = 'tcx'
+    parsed = parseTcx(text)
+  } else {
+    return { error: 'File is not a GPX or TCX route file' }
+  }
+
+  const points = parsed.points.filter((p): p is TrackPoint => p !== null)
+  if (points.length < 2) {
+    return { error: 'Route file has no track points' }
+  }
+
+  // Cumulative distance at each track point
+  const cumulativeKm: number[] = [0]
+  for (let i = 1; i < points.length; i++) {
+    cumulativeKm.push(cumulativeKm[i - 1] + haversineKm(points[i - 1], points[i]))
+  }
+
+  const waypoints: RouteWaypoint[] = []
+  for (const wpt of parsed.waypoints) {
+    if (!wpt.name || !isValidPosition(wpt.lat, wpt.lon)) continue
+    const position = { lat: wpt.lat!, lon: wpt.lon! }
+
+    let nearestIndex = 0
+    let nearestKm = Infinity
+    points.forEach((point, index) => {
+      const km = haversineKm(position, point)
+      if (km < nearestKm) {
+        nearestKm = km
+        nearestIndex = index
+      }
+    })
+
+    if (nearestKm > MAX_WAYPOINT_OFFSET_KM) continue
+
+    waypoints.push({
+      name: wpt.name,
+      ...position,
+      distanceKm: Math.round(cumulativeKm[nearestIndex] * 10) / 10,
+    })
+  }
+  waypoints.sort((a, b) => a.distanceKm - b.distanceKm)
+
+  return {
+    route: {
+      format,
+      name: parsed.name,
+      distanceKm: Math.round(cumulativeKm[cumulativeKm.length - 1] * 10) / 10,
+      elevationGainM: computeElevationGain(points),
+      points,
+      waypoints,
+    },
+  }
+}
+
+/**
+ * File extension for a route file name, or null if it isn't GPX/TCX
+ */
+export function getRouteFileFormat(filename: string): RouteFileFormat | null {
+  const ext = filename.split('.').pop()?.toLowerCase()
+  return ext === 'gpx' || ext === 'tcx' ? ext : null
+}
@@ -0,0 +1,96 @@
+/**
+ * Event series completion rules (pure functions, no database access).
+ *
+ * A series is complete when a rider has finished at least `minEvents` of its
+ * events, covering every required distance. An event covers a distance if it
+ * is at least that long, and each event covers one distance only: Devil Week's
+ * 200/300/400/600 needs four finished brevets, not a single 600.
+ */
+
+export interface SeriesRule {
+  requiredDistances: number[]
+  minEvents: number
+}
+
+export interface SeriesResult {
+  id: string
+  status: string | null
+  distanceKm: number
+  eventDate: string
+}
+
+/**
+ * Whether finished events of these distances complete the series.
+ */
+export function isSeriesComplete(distances: number[], rule: SeriesRule): boolean {
+  if (distances.length < Math.max(rule.minEvents, 1)) return false
+
+  // Fill the longest requirement first with the shortest event that covers it
+  const available = [...distances].sort((a, b) => a - b)
+  const required = [...rule.requiredDistances].sort((a, b) => b - a)
+  for (const distance of required) {
+    const index = available.findIndex((km) => km >= distance)
+    if (index === -1) return false
+    available.splice(index, 1)
+  }
+  return true
+}
+
+/**
+ * The result that completed the series (the finish that first satisfied the
+ * rule, in date order), or null if the rider hasn't completed it.
+ */
+export function getSeriesCompletion(results: SeriesResult[], rule: SeriesRule): string | null {
+  const finished = results
+    .filter((r) => r.status === 'finished')
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate) || a.id.localeCompare(b.id))
+
+  const distances: number[] = []
+  for (const result of finished) {
+    distances.push(result.distanceKm)
+    if (isSeriesComplete(distances, rule)) return result.id
+  }
+  return null
+}
+
+/**
+ * Work out which of a rider's series results should carry the series award.
+ * A stored award on a finished result is kept (e.g. imported history);
+ * otherwise it goes on the result that completed the series.
+ */
+export function planSeriesAward(
+  results: SeriesResult[],
+  rule: SeriesRule,
+  storedResultIds: string[]
+): { attach: string | null; revoke: string[] } {
+  const completedBy = getSeriesCompletion(results, rule)
+  if (!completedBy) {
+    return { attach: null, revoke: storedResultIds }
+  }
+
+  const finishedIds = new Set(results.filter((r) => r.status === 'finished').map((r) => r.id))
+  const revoke = storedResultIds.filter((id) => !finishedIds.has(id))
+
+  if (storedResultIds.length > revoke.length) {
+    return { attach: null, revoke }
+  }
+  return { attach: completedBy, revoke }
+}
+
+/**
+ * Describe a series rule for display, e.g. "Finish a 200, 300, 400 and 600 km event".
+ */
+export function describeSeriesRule(rule: SeriesRule): string {
+  const distances = [...rule.requiredDistances].sort((a, b) => a - b)
+  if (distances.length === 0) {
+    return rule.minEvents === 1 ? 'Finish any event' : `Finish any ${rule.minEvents} events`
+  }
+
+  const list =
+    distances.length === 1
+      ? `${distances[0]}`
+      : `${distances.slice(0, -1).join(', ')} and ${distances[distances.length - 1]}`
+  const extra =
+    rule.minEvents > distances.length ? ` (at least ${rule.minEvents} events in all)` : ''
+  return `Finish a ${list} km event${extra}`
+}
@@ -0,0 +1,7 @@
+/**
+ * Absolute site URL for links that leave the site: API responses, calendar
+ * feeds. No trailing slash, so callers can append paths directly.
+ */
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || 'https://randonneursontario.ca').replace(/\/$/, '')
+}
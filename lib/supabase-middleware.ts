@@ -31,6 +31,19 @@ export async function updateSession(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser()
 
+  // Rider account pages need a signed-in rider (magic link session)
+  const isAccountRoute = request.nextUrl.pathname.startsWith('/account')
+  const isAccountPublicPage =
+    request.nextUrl.pathname === '/account/login' ||
+    request.nextUrl.pathname === '/account/callback'
+
+  if (isAccountRoute && !isAccountPublicPage && !user) {
+    const url = request.nextUrl.clone()
+    url.pathname = '/account/login'
+    url.searchParams.set('next', request.nextUrl.pathname)
+    return NextResponse.redirect(url)
+  }
+
   // Check if accessing admin routes
   const isAdminRoute = request.nextUrl.pathname.startsWith('/admin')
   const isLoginPage = request.nextUrl.pathname === '/admin/login'
@@ -43,28 +56,31 @@ export async function updateSession(request: NextRequest) {
     return NextResponse.redirect(url)
   }
 
-  if (isLoginPage && user) {
+  if (!isAdminRoute || !user) {
+    return supabaseResponse
+  }
+
+  // Logged in and accessing admin routes: riders are signed in too, so
+  // verify they are an admin
+  const { data: admin } = await supabase
+    .from('admins')
+    .select('id, role')
+    .eq('id', user.id)
+    .single()
+
+  if (isLoginPage && admin) {
     // Already logged in, redirect to admin dashboard
     const url = request.nextUrl.clone()
     url.pathname = '/admin'
     return NextResponse.redirect(url)
   }
 
-  // If logged in and accessing admin routes, verify they are an admin
-  if (isAdminRoute && !isLoginPage && user) {
-    const { data: admin } = await supabase
-      .from('admins')
-      .select('id, role')
-      .eq('id', user.id)
-      .single()
-
-    if (!admin) {
-      // User exists but is not an admin
-      const url = request.nextUrl.clone()
-      url.pathname = '/admin/login'
-      url.searchParams.set('error', 'unauthorized')
-      return NextResponse.redirect(url)
-    }
+  if (!isLoginPage && !admin) {
+    // User exists but is not an admin
+    const url = request.nextUrl.clone()
+    url.pathname = '/admin/login'
+    url.searchParams.set('error', 'unauthorized')
+    return NextResponse.redirect(url)
   }
 
   return supabaseResponse
@@ -0,0 +1,124 @@
+/**
+ * Control time rule sets
+ *
+ * Each event type has its own rules for when controls open and close and
+ * how long riders have overall. Pick one with getTimeRuleSet(eventType, km)
+ * and pass it to computeControlTimes() in lib/brmTimes.ts.
+ *
+ * To add a rule set, implement TimeRuleSet and return it from getTimeRuleSet.
+ */
+import { closeHours, finishLimitMinutes, openHours, type NominalDistance } from '@/lib/brmTimes'
+
+export type TimeRuleSetId = 'brm' | 'lrm' | 'populaire' | 'fleche' | 'permanent'
+
+export interface TimeRuleSet {
+  id: TimeRuleSetId
+  name: string // Shown on control cards, e.g. "ACP Brevet"
+  /** Minutes after the start that a control at controlKm opens */
+  openMinutes(controlKm: number): number
+  /** Minutes after the start that a control at controlKm closes */
+  closeMinutes(controlKm: number): number
+  /** Overall time limit in minutes for a route of routeKm */
+  finishLimitMinutes(routeKm: number): number
+}
+
+const BREVET_DISTANCES: NominalDistance[] = [1000, 600, 400, 300, 200]
+
+/**
+ * Nominal brevet distance for a route: the largest standard distance it covers
+ * (a 203 km route is a 200, not a 300).
+ */
+function getBrevetDistance(routeKm: number): NominalDistance {
+  return BREVET_DISTANCES.find((d) => routeKm >= d) ?? 200
+}
+
+/**
+ * ACP brevets (200–1000 km). Overall limit comes from the nominal distance.
+ */
+export const BRM_RULES: TimeRuleSet = {
+  id: 'brm',
+  name: 'ACP Brevet',
+  openMinutes: (km) => openHours(km) * 60,
+  closeMinutes: (km) => closeHours(km) * 60,
+  finishLimitMinutes: (routeKm) => finishLimitMinutes(getBrevetDistance(routeKm)),
+}
+
+/**
+ * LRM grand randonnées (1200 km and up). 1200 km allows 90 h; longer events
+ * are rounded up to the next 100 km and allow 12 km/h (1300 km = 108h20).
+ */
+export const LRM_RULES: TimeRuleSet = {
+  id: 'lrm',
+  name: 'LRM 1200+',
+  openMinutes: (km) => openHours(km) * 60,
+  closeMinutes: (km) => closeHours(km) * 60,
+  finishLimitMinutes: (routeKm) => {
+    if (routeKm <= 1200) return 90 * 60
+    const nominalKm = Math.ceil(routeKm / 100) * 100
+    return (nominalKm / 12) * 60
+  },
+}
+
+/**
+ * RUSA/ACP populaires (under 200 km). Controls open at brevet speeds and
+ * close at 1h + 20 km/h for the first 60 km, then 15 km/h. The overall
+ * limit is the route distance at 15 km/h.
+ */
+export const POPULAIRE_RULES: TimeRuleSet = {
+  id: 'populaire',
+  name: 'Populaire',
+  openMinutes: (km) => openHours(km) * 60,
+  closeMinutes: (km) => (km <= 60 ? 60 + (km / 20) * 60 : (km / 15) * 60),
+  finishLimitMinutes: (routeKm) => (routeKm / 15) * 60,
+}
+
+/**
+ * Flèches: team rides of 24 hours. Intermediate controls have no opening or
+ * closing times of their own; every control closes at 24 h.
+ */
+export const FLECHE_RULES: TimeRuleSet = {
+  id: 'fleche',
+  name: 'Flèche (24 h)',
+  openMinutes: () => 0,
+  closeMinutes: () => 24 * 60,
+  finishLimitMinutes: () => 24 * 60,
+}
+
+/**
+ * Permanents: controls open and close on the brevet tables at any distance.
+ * The overall limit depends on the route: 15 km/h under 200 km, the nominal
+ * brevet limit up to 1000 km, and the LRM limit beyond that.
+ */
+export const PERMANENT_RULES: TimeRuleSet = {
+  id: 'permanent',
+  name: 'Permanent',
+  openMinutes: (km) => openHours(km) * 60,
+  closeMinutes: (km) => closeHours(km) * 60,
+  finishLimitMinutes: (routeKm) => {
+    if (routeKm < 200) return POPULAIRE_RULES.finishLimitMinutes(routeKm)
+    if (routeKm > 1000) return LRM_RULES.finishLimitMinutes(routeKm)
+    return BRM_RULES.finishLimitMinutes(routeKm)
+  },
+}
+
+/**
+ * Get the time rule set for an event.
+ * Brevets outside 200–1000 km follow the rules for their distance.
+ */
+export function getTimeRuleSet(
+  eventType: string | null | undefined,
+  distanceKm: number
+): TimeRuleSet {
+  switch (eventType) {
+    case 'fleche':
+      return FLECHE_RULES
+    case 'populaire':
+      return POPULAIRE_RULES
+    case 'permanent':
+      return PERMANENT_RULES
+    default:
+      if (distanceKm < 200) return POPULAIRE_RULES
+      if (distanceKm > 1000) return LRM_RULES
+      return BRM_RULES
+  }
+}
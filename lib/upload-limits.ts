@@ -0,0 +1,12 @@
+/**
+ * Upload size limits
+ *
+ * Server actions reject request bodies over serverActions.bodySizeLimit
+ * (next.config.ts), so a file uploaded through an action has to fit inside
+ * it along with the rest of the form.
+ */
+
+export const SERVER_ACTION_BODY_SIZE_LIMIT = 6 * 1024 * 1024 // 6MB
+
+/** GPX / TCX route files (uploadRouteFile) */
+export const MAX_ROUTE_FILE_SIZE = 5 * 1024 * 1024 // 5MB
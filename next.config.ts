@@ -1,10 +1,11 @@
 import { withSentryConfig } from "@sentry/nextjs";
 import type { NextConfig } from "next";
+import { SERVER_ACTION_BODY_SIZE_LIMIT } from "./lib/upload-limits";
 
 const nextConfig: NextConfig = {
   experimental: {
     serverActions: {
-      bodySizeLimit: "6mb",
+      bodySizeLimit: SERVER_ACTION_BODY_SIZE_LIMIT,
     },
   },
   headers: async () => [
@@ -9,5 +9,7 @@ export const config = {
   matcher: [
     // Match all admin routes
     '/admin/:path*',
+    // Match rider account routes
+    '/account/:path*',
   ],
 }
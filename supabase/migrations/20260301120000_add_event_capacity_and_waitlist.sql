@@ -0,0 +1,20 @@
+-- Per-event rider limit with an automatic waitlist
+-- NULL max_riders means the event has no cap
+ALTER TABLE events
+  ADD COLUMN max_riders INT CHECK (max_riders IS NULL OR max_riders > 0);
+
+-- Extend registrations.status to include 'waitlisted'
+ALTER TABLE registrations
+  DROP CONSTRAINT registrations_status_check;
+
+ALTER TABLE registrations
+  ADD CONSTRAINT registrations_status_check
+  CHECK (status IN ('registered', 'cancelled', 'incomplete: membership', 'waitlisted'));
+
+-- Index for capacity counts and waitlist promotion (oldest waitlisted first)
+CREATE INDEX idx_registrations_event_status ON registrations(event_id, status, registered_at);
+
+-- Add 'registration' to the entity_type CHECK constraint on audit_logs
+ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_entity_type_check;
+ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN ('event', 'route', 'rider', 'result', 'page', 'admin_user', 'news', 'registration'));
@@ -0,0 +1,6 @@
+-- Rider self-service registration management
+-- Unique token for the "manage your registration" link in confirmation emails (no auth required)
+ALTER TABLE registrations ADD COLUMN manage_token UUID DEFAULT gen_random_uuid() UNIQUE;
+
+-- Changes made by riders through the manage link are audit-logged without an admin
+ALTER TABLE audit_logs ALTER COLUMN admin_id DROP NOT NULL;
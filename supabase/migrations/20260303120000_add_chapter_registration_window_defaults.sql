@@ -0,0 +1,13 @@
+-- Chapter-level defaults for event registration windows
+-- Events with registration_opens_at / registration_closes_at set override these.
+-- NULL means no default (registration open until the event starts)
+ALTER TABLE chapters
+  ADD COLUMN registration_opens_days_before INT
+    CHECK (registration_opens_days_before IS NULL OR registration_opens_days_before >= 0),
+  ADD COLUMN registration_closes_hours_before INT
+    CHECK (registration_closes_hours_before IS NULL OR registration_closes_hours_before >= 0);
+
+-- Add 'chapter' to the entity_type CHECK constraint on audit_logs
+ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_entity_type_check;
+ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN ('event', 'route', 'rider', 'result', 'page', 'admin_user', 'news', 'registration', 'chapter'));
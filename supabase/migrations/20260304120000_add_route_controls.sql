@@ -0,0 +1,54 @@
+-- Control definitions stored per route, so organizers don't re-enter them each time a route runs
+CREATE TABLE route_controls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  route_id UUID NOT NULL REFERENCES routes(id) ON DELETE CASCADE,
+  position INT NOT NULL,
+  name TEXT NOT NULL,
+  distance_km NUMERIC(6, 1) NOT NULL CHECK (distance_km >= 0),
+  address TEXT,
+  control_type TEXT NOT NULL DEFAULT 'staffed'
+    CHECK (control_type IN ('staffed', 'info', 'photo', 'receipt')),
+  info_question TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_route_controls_route ON route_controls(route_id, position);
+
+CREATE TRIGGER set_route_controls_updated_at
+  BEFORE UPDATE ON route_controls
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Event-level override: when an event has rows here, they replace its route's controls
+-- (detours, a closed café, a different start)
+CREATE TABLE event_controls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  position INT NOT NULL,
+  name TEXT NOT NULL,
+  distance_km NUMERIC(6, 1) NOT NULL CHECK (distance_km >= 0),
+  address TEXT,
+  control_type TEXT NOT NULL DEFAULT 'staffed'
+    CHECK (control_type IN ('staffed', 'info', 'photo', 'receipt')),
+  info_question TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_event_controls_event ON event_controls(event_id, position);
+
+CREATE TRIGGER set_event_controls_updated_at
+  BEFORE UPDATE ON event_controls
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: controls are public (shown on route pages); writes go through server actions (service role)
+ALTER TABLE route_controls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_controls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "route_controls_select_public" ON route_controls
+  FOR SELECT USING (true);
+
+CREATE POLICY "event_controls_select_public" ON event_controls
+  FOR SELECT USING (true);
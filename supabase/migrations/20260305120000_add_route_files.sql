@@ -0,0 +1,20 @@
+-- Canonical GPX/TCX file per route, plus the elevation gain parsed from it
+ALTER TABLE routes
+  ADD COLUMN route_file_path TEXT,
+  ADD COLUMN elevation_gain_m INT CHECK (elevation_gain_m IS NULL OR elevation_gain_m >= 0);
+
+COMMENT ON COLUMN routes.route_file_path IS 'Path in the route-files storage bucket';
+
+-- Storage bucket for route files. Uploads go through the service role (admin server action).
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'route-files',
+  'route-files',
+  true,
+  10485760, -- 10MB
+  ARRAY['application/gpx+xml', 'application/vnd.garmin.tcx+xml', 'application/xml', 'text/xml']
+) ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Public read access for route files"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'route-files');
@@ -0,0 +1,6 @@
+-- Automated check of rider-submitted GPX tracks against the route's controls
+ALTER TABLE results
+  ADD COLUMN gpx_verification JSONB,
+  ADD COLUMN gpx_verified_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN results.gpx_verification IS 'Report from lib/results/gpx-verification.ts: { status, checks[] }';
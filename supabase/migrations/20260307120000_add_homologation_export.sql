@@ -0,0 +1,22 @@
+-- Homologation export: medal requests and homologation numbers per result,
+-- and the CSV sent to the chapter VP stored on the event
+ALTER TABLE results
+  ADD COLUMN medal_requested BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN homologation_number TEXT;
+
+ALTER TABLE events
+  ADD COLUMN homologation_file_path TEXT;
+
+COMMENT ON COLUMN results.homologation_number IS 'Number assigned by ACP/LRM when the brevet card is returned';
+COMMENT ON COLUMN events.homologation_file_path IS 'Path in the homologation-files storage bucket';
+
+-- Private bucket: files contain rider names and genders. Downloads use signed URLs
+-- created by the service role (admin server action).
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'homologation-files',
+  'homologation-files',
+  false,
+  1048576, -- 1MB
+  ARRAY['text/csv']
+) ON CONFLICT (id) DO NOTHING;
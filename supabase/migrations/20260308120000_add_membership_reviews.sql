@@ -0,0 +1,34 @@
+-- Queue of riders whose CCN lookup matched several members (or only near matches).
+-- An admin picks the right member, which creates the memberships row.
+CREATE TABLE membership_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rider_id UUID NOT NULL REFERENCES riders(id) ON DELETE CASCADE,
+  season INT NOT NULL,
+  candidates JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'resolved', 'dismissed')),
+  resolved_membership_id INT,
+  resolved_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- One open review per rider per season
+CREATE UNIQUE INDEX idx_membership_reviews_pending
+  ON membership_reviews(rider_id, season) WHERE status = 'pending';
+
+CREATE INDEX idx_membership_reviews_status ON membership_reviews(status, created_at);
+
+CREATE TRIGGER set_membership_reviews_updated_at
+  BEFORE UPDATE ON membership_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: admin-only data, read and written through server actions (service role)
+ALTER TABLE membership_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Add 'membership' to the entity_type CHECK constraint on audit_logs
+ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_entity_type_check;
+ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN ('event', 'route', 'rider', 'result', 'page', 'admin_user', 'news', 'registration', 'chapter', 'membership'));
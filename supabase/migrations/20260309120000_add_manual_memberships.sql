@@ -0,0 +1,11 @@
+-- Manual memberships entered by admins (e.g. when the CCN lookup fails), alongside the CCN cache.
+-- Manual entries may not have a CCN membership number.
+ALTER TABLE memberships
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'ccn' CHECK (source IN ('ccn', 'manual')),
+  ADD COLUMN note TEXT,
+  ADD COLUMN created_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+  ALTER COLUMN membership_id DROP NOT NULL,
+  ADD CONSTRAINT memberships_ccn_has_membership_id
+    CHECK (source = 'manual' OR membership_id IS NOT NULL);
+
+COMMENT ON COLUMN memberships.note IS 'Why an admin added this membership manually';
@@ -0,0 +1,38 @@
+-- Awards computed by lib/awards (Super Randonneur, O-5000, O-12, Ontario Rover,
+-- Ontario Explorer). Make sure each exists; imported rows are left as they are.
+INSERT INTO awards (slug, title, description) VALUES
+  ('super-randonneur', 'Super Randonneur', 'Completed a 200, 300, 400, and 600 km brevet in the same season.'),
+  ('o-5000', 'O-5000', 'Completed at least 5000 km of sanctioned events in a calendar year.'),
+  ('o-12', 'O-12', 'Completed a club-sanctioned 200+ km event for 12 consecutive months.'),
+  ('ontario-rover', 'Ontario Rover', 'Accumulate 1200 km of Permanents with at least two being 300 km or more.'),
+  ('ontario-explorer', 'Ontario Explorer', 'Completed at least one brevet in every chapter during a calendar year.')
+ON CONFLICT (slug) DO NOTHING;
+
+-- Newly earned awards wait here until an admin publishes them to result_awards.
+-- Dismissed rows are kept so the engine doesn't propose them again.
+CREATE TABLE pending_awards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  result_id UUID NOT NULL REFERENCES results(id) ON DELETE CASCADE,
+  award_id UUID NOT NULL REFERENCES awards(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  reviewed_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (result_id, award_id)
+);
+
+CREATE INDEX idx_pending_awards_status ON pending_awards(status, created_at);
+
+CREATE TRIGGER set_pending_awards_updated_at
+  BEFORE UPDATE ON pending_awards
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: admin-only data, read and written through server actions (service role)
+ALTER TABLE pending_awards ENABLE ROW LEVEL SECURITY;
+
+-- Add 'award' to the entity_type CHECK constraint on audit_logs
+ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_entity_type_check;
+ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN ('event', 'route', 'rider', 'result', 'page', 'admin_user', 'news', 'registration', 'chapter', 'membership', 'award'));
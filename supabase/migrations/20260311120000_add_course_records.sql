@@ -0,0 +1,76 @@
+-- First Brevet and Course Record are now stored awards, assigned by lib/awards
+INSERT INTO awards (slug, title, description) VALUES
+  ('first-brevet', 'First Brevet', 'Rode their first brevet with Randonneurs Ontario.'),
+  ('course-record', 'Course Record', 'Fastest recorded time for this route')
+ON CONFLICT (slug) DO NOTHING;
+
+-- Course record history per route. A row is added each time a result sets
+-- (or ties) the record. superseded_at is set when it's beaten; voided_at when
+-- the result stops counting (deleted, or changed from finished). Rider, time
+-- and date are copied so the history survives the result being removed.
+CREATE TABLE course_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  route_id UUID NOT NULL REFERENCES routes(id) ON DELETE CASCADE,
+  result_id UUID REFERENCES results(id) ON DELETE SET NULL,
+  rider_id UUID REFERENCES riders(id) ON DELETE SET NULL,
+  finish_time INTERVAL NOT NULL,
+  set_on DATE NOT NULL,
+  superseded_at TIMESTAMPTZ,
+  voided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_course_records_route ON course_records(route_id, set_on);
+CREATE INDEX idx_course_records_result ON course_records(result_id);
+
+-- RLS: public read (route pages), written by server actions (service role)
+ALTER TABLE course_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "course_records_select_public" ON course_records
+  FOR SELECT USING (true);
+
+-- Backfill the progression from existing results: every finished result that
+-- was at least as fast as everything before it on the route
+WITH route_results AS (
+  SELECT
+    e.route_id,
+    r.id AS result_id,
+    r.rider_id,
+    r.finish_time,
+    e.event_date,
+    MIN(r.finish_time) OVER (
+      PARTITION BY e.route_id
+      ORDER BY e.event_date, r.finish_time
+      ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+    ) AS previous_best
+  FROM results r
+  JOIN events e ON e.id = r.event_id
+  WHERE r.status = 'finished'
+    AND r.finish_time IS NOT NULL
+    AND e.route_id IS NOT NULL
+),
+records AS (
+  SELECT * FROM route_results
+  WHERE previous_best IS NULL OR finish_time <= previous_best
+)
+INSERT INTO course_records (route_id, result_id, rider_id, finish_time, set_on, superseded_at)
+SELECT
+  rec.route_id,
+  rec.result_id,
+  rec.rider_id,
+  rec.finish_time,
+  rec.event_date,
+  (
+    SELECT MIN(later.event_date)::TIMESTAMPTZ
+    FROM records later
+    WHERE later.route_id = rec.route_id AND later.finish_time < rec.finish_time
+  )
+FROM records rec;
+
+-- Current holders get the Course Record award
+INSERT INTO result_awards (result_id, award_id)
+SELECT cr.result_id, a.id
+FROM course_records cr
+JOIN awards a ON a.slug = 'course-record'
+WHERE cr.superseded_at IS NULL AND cr.result_id IS NOT NULL
+ON CONFLICT DO NOTHING;
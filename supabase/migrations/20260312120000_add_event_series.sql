@@ -0,0 +1,191 @@
+-- Event series: a set of events ridden as one challenge (Devil Week, Granite
+-- Anvil). Each row is one edition; `collection` groups editions of the same
+-- series for the results pages (replaces events.collection).
+CREATE TABLE event_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  collection TEXT,
+  season INTEGER NOT NULL,
+  award_id UUID REFERENCES awards(id) ON DELETE SET NULL,
+  -- Completion rule: a finished event of at least each distance (each event
+  -- counts once), and at least min_events finished events overall
+  required_distances INTEGER[] NOT NULL DEFAULT '{}',
+  min_events INTEGER NOT NULL DEFAULT 1 CHECK (min_events >= 1),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_event_series_collection ON event_series(collection) WHERE collection IS NOT NULL;
+
+CREATE TRIGGER set_event_series_updated_at
+  BEFORE UPDATE ON event_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: public read (series pages), written by server actions (service role)
+ALTER TABLE event_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "event_series_select_public" ON event_series
+  FOR SELECT USING (true);
+
+ALTER TABLE events ADD COLUMN series_id UUID REFERENCES event_series(id) ON DELETE SET NULL;
+CREATE INDEX idx_events_series ON events(series_id) WHERE series_id IS NOT NULL;
+
+-- Series awards are granted automatically on completion (lib/awards/engine.ts)
+INSERT INTO awards (slug, title, description) VALUES
+  ('completed-devil-week', 'Completed Devil Week', 'Rode a 200, 300, 400, and 600km brevet during the club''s Devil Week.'),
+  ('granite-anvil', 'Granite Anvil', 'Completed the Granite Anvil 1200km brevet')
+ON CONFLICT (slug) DO NOTHING;
+
+-- Backfill: one Granite Anvil edition per year from the old collection tag
+INSERT INTO event_series (slug, name, collection, season, award_id, min_events)
+SELECT DISTINCT
+  'granite-anvil-' || EXTRACT(YEAR FROM e.event_date)::INTEGER,
+  'Granite Anvil ' || EXTRACT(YEAR FROM e.event_date)::INTEGER,
+  'granite-anvil',
+  EXTRACT(YEAR FROM e.event_date)::INTEGER,
+  (SELECT id FROM awards WHERE slug = 'granite-anvil'),
+  1
+FROM events e
+WHERE e.collection = 'granite-anvil';
+
+UPDATE events e
+SET series_id = s.id
+FROM event_series s
+WHERE e.collection = 'granite-anvil'
+  AND s.slug = 'granite-anvil-' || EXTRACT(YEAR FROM e.event_date)::INTEGER;
+
+-- Backfill: one Devil Week edition per year ("... (Devil Week)" event names
+-- from the import, "dw-" slugs for events created since)
+INSERT INTO event_series (slug, name, collection, season, award_id, required_distances)
+SELECT DISTINCT
+  'devil-week-' || EXTRACT(YEAR FROM e.event_date)::INTEGER,
+  'Devil Week ' || EXTRACT(YEAR FROM e.event_date)::INTEGER,
+  'devil-week',
+  EXTRACT(YEAR FROM e.event_date)::INTEGER,
+  (SELECT id FROM awards WHERE slug = 'completed-devil-week'),
+  '{200,300,400,600}'::INTEGER[]
+FROM events e
+WHERE e.name ILIKE '%(devil week)%' OR e.slug LIKE 'dw-%';
+
+UPDATE events e
+SET series_id = s.id
+FROM event_series s
+WHERE (e.name ILIKE '%(devil week)%' OR e.slug LIKE 'dw-%')
+  AND s.slug = 'devil-week-' || EXTRACT(YEAR FROM e.event_date)::INTEGER;
+
+-- Granite Anvil records now find their events through the series
+CREATE OR REPLACE FUNCTION get_granite_anvil_completion_counts(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC)::INTEGER AS rank,
+    r.slug AS rider_slug,
+    TRIM(CONCAT(r.first_name, ' ', r.last_name)) AS rider_name,
+    COUNT(*) AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  JOIN event_series s ON e.series_id = s.id
+  WHERE res.status = 'finished'
+    AND s.collection = 'granite-anvil'
+  GROUP BY r.id, r.slug, r.first_name, r.last_name
+  ORDER BY COUNT(*) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_granite_anvil_fastest_times(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  finish_time TEXT,
+  event_date DATE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY res.finish_time ASC)::INTEGER AS rank,
+    r.slug AS rider_slug,
+    TRIM(CONCAT(r.first_name, ' ', r.last_name)) AS rider_name,
+    res.finish_time::TEXT AS finish_time,
+    e.event_date AS event_date
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  JOIN event_series s ON e.series_id = s.id
+  WHERE res.status = 'finished'
+    AND s.collection = 'granite-anvil'
+    AND res.finish_time IS NOT NULL
+  ORDER BY res.finish_time ASC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP INDEX IF EXISTS idx_events_collection;
+ALTER TABLE events DROP COLUMN collection;
+
+-- Progress board for a series page: every rider's result or registration for
+-- each event. Uses SECURITY DEFINER to bypass RLS on riders/registrations;
+-- riders who chose not to share their registration are left out.
+CREATE OR REPLACE FUNCTION get_series_progress(p_series_id UUID)
+RETURNS TABLE (
+  rider_slug TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  event_id UUID,
+  status TEXT,
+  finish_time TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.slug,
+    r.first_name,
+    r.last_name,
+    res.event_id,
+    res.status,
+    res.finish_time::TEXT
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  WHERE e.series_id = p_series_id
+  UNION ALL
+  SELECT
+    r.slug,
+    r.first_name,
+    r.last_name,
+    reg.event_id,
+    reg.status,
+    NULL::TEXT
+  FROM registrations reg
+  JOIN riders r ON reg.rider_id = r.id
+  JOIN events e ON reg.event_id = e.id
+  WHERE e.series_id = p_series_id
+    AND reg.status IN ('registered', 'waitlisted')
+    AND reg.share_registration
+    AND NOT EXISTS (
+      SELECT 1 FROM results res
+      WHERE res.event_id = reg.event_id AND res.rider_id = reg.rider_id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_series_progress(UUID) TO anon, authenticated;
+
+-- Add 'series' to audit log entity types
+ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_entity_type_check;
+ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN ('event', 'route', 'rider', 'result', 'page', 'admin_user', 'news', 'registration', 'chapter', 'membership', 'award', 'series'));
+
+COMMENT ON TABLE event_series IS 'Events ridden as one challenge (Devil Week, Granite Anvil), with completion rules and an award';
+COMMENT ON COLUMN events.series_id IS 'Event series this event is part of, if any';
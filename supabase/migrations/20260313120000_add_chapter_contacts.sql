@@ -0,0 +1,17 @@
+-- Chapter contacts by role. Admin notifications (result submissions,
+-- membership warnings, permanent requests, registration changes) are sent to
+-- these addresses; edited on /admin/chapters.
+ALTER TABLE chapters
+  ADD COLUMN vp_email TEXT,
+  ADD COLUMN route_coordinator_email TEXT,
+  ADD COLUMN treasurer_email TEXT;
+
+-- Backfill from the addresses previously hard-coded in lib/email/vp-emails.ts
+UPDATE chapters
+SET vp_email = 'vp-' || slug || '@randonneursontario.ca',
+    treasurer_email = 'treasurer@randonneursontario.ca'
+WHERE slug IN ('huron', 'ottawa', 'simcoe', 'toronto');
+
+COMMENT ON COLUMN chapters.vp_email IS 'Chapter VP: receives result submissions and registration notices';
+COMMENT ON COLUMN chapters.route_coordinator_email IS 'Receives new permanent requests (falls back to the VP)';
+COMMENT ON COLUMN chapters.treasurer_email IS 'Copied on membership warnings';
@@ -0,0 +1,49 @@
+-- Every outbound email is stored here before it's sent. Delivery is tried
+-- straight away; failures stay 'pending' with a later next_attempt_at and are
+-- retried by /api/cron/send-emails until max_attempts, then marked 'failed'.
+CREATE TABLE email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL,
+  to_emails TEXT[] NOT NULL,
+  cc_emails TEXT[] NOT NULL DEFAULT '{}',
+  reply_to TEXT,
+  subject TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  html_body TEXT,
+  -- [{ filename, type, content (base64) }]
+  attachments JSONB NOT NULL DEFAULT '[]',
+  rider_id UUID REFERENCES riders(id) ON DELETE SET NULL,
+  event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ,
+  transport TEXT,
+  resend_of UUID REFERENCES email_outbox(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_email_outbox_due ON email_outbox(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_email_outbox_created ON email_outbox(created_at DESC);
+CREATE INDEX idx_email_outbox_rider ON email_outbox(rider_id) WHERE rider_id IS NOT NULL;
+CREATE INDEX idx_email_outbox_event ON email_outbox(event_id) WHERE event_id IS NOT NULL;
+
+CREATE TRIGGER set_email_outbox_updated_at
+  BEFORE UPDATE ON email_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: admin-only data, read and written through server code (service role)
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Add 'email' to audit log entity types (admin resends)
+ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_entity_type_check;
+ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN ('event', 'route', 'rider', 'result', 'page', 'admin_user', 'news', 'registration', 'chapter', 'membership', 'award', 'series', 'email'));
+
+COMMENT ON TABLE email_outbox IS 'Outbound email queue and delivery log';
+COMMENT ON COLUMN email_outbox.kind IS 'What the email is, e.g. registration_confirmation, result_submission_request';
+COMMENT ON COLUMN email_outbox.resend_of IS 'The message an admin resent to create this one';
@@ -0,0 +1,40 @@
+-- Pre-ride emails: a reminder to each registered rider N days before the
+-- start, and the final roster (with emergency contacts) to the organizer.
+-- Sent by the /api/cron/send-reminders job; the *_sent_at columns make each
+-- email go out once however often the job runs.
+ALTER TABLE chapters
+  ADD COLUMN reminder_days_before INTEGER NOT NULL DEFAULT 2
+    CHECK (reminder_days_before BETWEEN 1 AND 14),
+  ADD COLUMN reminder_checklist TEXT;
+
+-- Starting checklist for every chapter, from the brevet rules
+UPDATE chapters SET reminder_checklist = E'Helmet\nFront and rear lights, solidly attached, with spare batteries\nReflective vest and ankle bands for riding from an hour before sunset to an hour after sunrise\nYour brevet card and a pen\nYour Randonneurs Ontario membership in good standing';
+
+ALTER TABLE events
+  ADD COLUMN send_reminders BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN send_roster BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN roster_sent_at TIMESTAMPTZ;
+
+ALTER TABLE registrations ADD COLUMN reminder_sent_at TIMESTAMPTZ;
+
+CREATE INDEX idx_registrations_reminder_pending ON registrations(event_id)
+  WHERE reminder_sent_at IS NULL AND status = 'registered';
+
+-- Events already run, or starting too soon for a useful reminder, are marked
+-- as sent so the first run doesn't email about them
+UPDATE registrations reg
+SET reminder_sent_at = now()
+FROM events e
+WHERE reg.event_id = e.id
+  AND e.event_date <= CURRENT_DATE + 1;
+
+UPDATE events
+SET roster_sent_at = now()
+WHERE event_date <= CURRENT_DATE + 1;
+
+COMMENT ON COLUMN chapters.reminder_days_before IS 'Days before the start that riders get their pre-ride reminder';
+COMMENT ON COLUMN chapters.reminder_checklist IS 'Checklist text included in every pre-ride reminder for the chapter';
+COMMENT ON COLUMN events.send_reminders IS 'Email registered riders a pre-ride reminder';
+COMMENT ON COLUMN events.send_roster IS 'Email the organizer the final roster with emergency contacts';
+COMMENT ON COLUMN events.roster_sent_at IS 'When the roster email was queued';
+COMMENT ON COLUMN registrations.reminder_sent_at IS 'When the pre-ride reminder was queued for this rider';
@@ -0,0 +1,27 @@
+-- Result follow-up: riders who haven't submitted their result get reminders
+-- a set number of days after the event, and once the chapter's deadline
+-- passes their result is flagged or marked DNS. The organizer gets a digest
+-- of who hasn't responded at each step. Sent by /api/cron/result-reminders.
+ALTER TABLE chapters
+  ADD COLUMN result_reminder_days INTEGER[] NOT NULL DEFAULT '{3,7}',
+  ADD COLUMN result_deadline_days INTEGER NOT NULL DEFAULT 14
+    CHECK (result_deadline_days BETWEEN 1 AND 90),
+  ADD COLUMN result_deadline_action TEXT NOT NULL DEFAULT 'flag'
+    CHECK (result_deadline_action IN ('flag', 'dns'));
+
+-- Follow-up steps done for the event: 1 per reminder, then 1 for the deadline
+ALTER TABLE events ADD COLUMN results_followup_stage INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE results ADD COLUMN overdue_at TIMESTAMPTZ;
+
+-- Events from before this change don't get a burst of reminders
+UPDATE events
+SET results_followup_stage = 99
+WHERE status IN ('completed', 'submitted')
+  AND event_date < CURRENT_DATE - 30;
+
+COMMENT ON COLUMN chapters.result_reminder_days IS 'Days after the event that riders with a pending result are reminded';
+COMMENT ON COLUMN chapters.result_deadline_days IS 'Days after the event that pending results are flagged or marked DNS';
+COMMENT ON COLUMN chapters.result_deadline_action IS 'What happens to pending results at the deadline: flag or dns';
+COMMENT ON COLUMN events.results_followup_stage IS 'Result follow-up steps done (reminders, then the deadline)';
+COMMENT ON COLUMN results.overdue_at IS 'When the result passed its submission deadline without a response';
@@ -0,0 +1,10 @@
+-- Personal calendar feeds: each rider gets a secret token for
+-- /api/calendar/rider/[token].ics, which lists the events they're registered
+-- for (including permanents). The token is the only credential, so it is
+-- random and can be rotated by setting a new value.
+ALTER TABLE riders
+  ADD COLUMN calendar_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX idx_riders_calendar_token ON riders(calendar_token);
+
+COMMENT ON COLUMN riders.calendar_token IS 'Secret token for the rider''s personal calendar feed';
@@ -0,0 +1,25 @@
+-- Permanent requests: a rider's permanent ride starts as 'requested' and the
+-- route coordinator approves it, rejects it or proposes a different date,
+-- start time or start location, which the rider accepts from their manage
+-- link. Riders are emailed at each step.
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_status_check;
+
+ALTER TABLE events ADD CONSTRAINT events_status_check
+  CHECK (status IN ('requested', 'scheduled', 'cancelled', 'completed', 'submitted'));
+
+ALTER TABLE events
+  ADD COLUMN proposed_event_date DATE,
+  ADD COLUMN proposed_start_time TIME,
+  ADD COLUMN proposed_start_location TEXT,
+  ADD COLUMN review_note TEXT,
+  ADD COLUMN reviewed_at TIMESTAMPTZ,
+  ADD COLUMN reviewed_by UUID REFERENCES admins(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_events_requested ON events(event_date) WHERE status = 'requested';
+
+COMMENT ON COLUMN events.proposed_event_date IS 'Permanent request: date proposed by the coordinator, pending the rider''s acceptance';
+COMMENT ON COLUMN events.proposed_start_time IS 'Permanent request: start time proposed by the coordinator';
+COMMENT ON COLUMN events.proposed_start_location IS 'Permanent request: start location proposed by the coordinator';
+COMMENT ON COLUMN events.review_note IS 'Permanent request: coordinator''s note to the rider (reason for rejection or proposal)';
+COMMENT ON COLUMN events.reviewed_at IS 'Permanent request: when it was last approved, rejected or given a proposal';
+COMMENT ON COLUMN events.reviewed_by IS 'Permanent request: admin who last reviewed it';
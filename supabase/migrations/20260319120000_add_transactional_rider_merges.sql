@@ -0,0 +1,329 @@
+-- Rider merges run as a single database function so a failure can't leave
+-- history split between riders. Each merge keeps a snapshot of the riders it
+-- removed, the rows it moved and the duplicate rows it dropped, so an admin
+-- can undo it with unmerge_riders().
+
+CREATE TABLE rider_merge_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key: the snapshot has to outlive the target being merged again
+  target_rider_id UUID NOT NULL,
+  target_before JSONB NOT NULL,               -- target riders row before the merge
+  source_riders JSONB NOT NULL,               -- deleted riders rows
+  moved_rows JSONB NOT NULL DEFAULT '{}',     -- { table: [{ id, rider_id }] } moved to the target
+  dropped_rows JSONB NOT NULL DEFAULT '{}',   -- { table: [row] } removed as duplicates
+  merged_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  unmerged_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+  unmerged_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_rider_merge_snapshots_target ON rider_merge_snapshots(target_rider_id, merged_at DESC);
+
+-- RLS: admin-only data, read and written through server actions (service role)
+ALTER TABLE rider_merge_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- merge_riders
+-- ============================================
+-- Moves everything owned by the source riders onto the target, then deletes
+-- the sources. Where the target and a source both have a row for the same
+-- event (or membership season), one row is kept:
+--   registrations: active over cancelled, then the target's, then the earliest
+--   results: finished > otl > dnf > dq > dns, then the target's, then fastest
+--   memberships / pending membership reviews: the target's, then the earliest
+CREATE OR REPLACE FUNCTION merge_riders(
+  p_target_id UUID,
+  p_source_ids UUID[],
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT DEFAULT NULL,
+  p_gender TEXT DEFAULT NULL,
+  p_merged_by UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_sources UUID[];
+  v_all UUID[];
+  v_merge_id UUID;
+  v_target_before JSONB;
+  v_source_riders JSONB;
+  v_drop_ids UUID[];
+  v_dropped JSONB := '{}';
+  v_moved JSONB;
+  v_rider_number INT;
+BEGIN
+  v_sources := ARRAY(
+    SELECT DISTINCT s FROM unnest(p_source_ids) AS s WHERE s IS NOT NULL AND s <> p_target_id
+  );
+  v_all := v_sources || p_target_id;
+
+  IF array_length(v_sources, 1) IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'At least 2 riders are required to merge');
+  END IF;
+
+  -- Lock every rider involved so concurrent merges can't interleave
+  PERFORM 1 FROM riders WHERE id = ANY(v_all) ORDER BY id FOR UPDATE;
+
+  SELECT to_jsonb(r) INTO v_target_before FROM riders r WHERE r.id = p_target_id;
+  IF v_target_before IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Rider not found');
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(r)) INTO v_source_riders FROM riders r WHERE r.id = ANY(v_sources);
+  IF jsonb_array_length(COALESCE(v_source_riders, '[]')) <> array_length(v_sources, 1) THEN
+    RETURN json_build_object('success', false, 'error', 'One or more riders no longer exist');
+  END IF;
+
+  -- Registrations on the same event
+  SELECT array_agg(id) INTO v_drop_ids FROM (
+    SELECT id, row_number() OVER (
+      PARTITION BY event_id
+      ORDER BY
+        CASE status WHEN 'registered' THEN 0 WHEN 'cancelled' THEN 2 ELSE 1 END,
+        (rider_id = p_target_id) DESC,
+        registered_at
+    ) AS rn
+    FROM registrations WHERE rider_id = ANY(v_all)
+  ) ranked WHERE rn > 1;
+
+  v_dropped := v_dropped || jsonb_build_object('registrations',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(r)), '[]') FROM registrations r WHERE r.id = ANY(v_drop_ids)));
+  DELETE FROM registrations WHERE id = ANY(v_drop_ids);
+
+  -- Results on the same event. Awards hang off results, so keep them too.
+  SELECT array_agg(id) INTO v_drop_ids FROM (
+    SELECT id, row_number() OVER (
+      PARTITION BY event_id
+      ORDER BY
+        CASE status
+          WHEN 'finished' THEN 0 WHEN 'otl' THEN 1 WHEN 'dnf' THEN 2 WHEN 'dq' THEN 3 ELSE 4
+        END,
+        (rider_id = p_target_id) DESC,
+        finish_time NULLS LAST
+    ) AS rn
+    FROM results WHERE rider_id = ANY(v_all)
+  ) ranked WHERE rn > 1;
+
+  v_dropped := v_dropped || jsonb_build_object(
+    'results',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(r)), '[]') FROM results r WHERE r.id = ANY(v_drop_ids)),
+    'result_awards',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(ra)), '[]') FROM result_awards ra WHERE ra.result_id = ANY(v_drop_ids)),
+    'pending_awards',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(pa)), '[]') FROM pending_awards pa WHERE pa.result_id = ANY(v_drop_ids)),
+    'course_records',
+    (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', cr.id, 'result_id', cr.result_id)), '[]')
+     FROM course_records cr WHERE cr.result_id = ANY(v_drop_ids))
+  );
+  DELETE FROM results WHERE id = ANY(v_drop_ids);
+
+  -- One membership per rider per season
+  SELECT array_agg(id) INTO v_drop_ids FROM (
+    SELECT id, row_number() OVER (
+      PARTITION BY season ORDER BY (rider_id = p_target_id) DESC, created_at
+    ) AS rn
+    FROM memberships WHERE rider_id = ANY(v_all)
+  ) ranked WHERE rn > 1;
+
+  v_dropped := v_dropped || jsonb_build_object('memberships',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(m)), '[]') FROM memberships m WHERE m.id = ANY(v_drop_ids)));
+  DELETE FROM memberships WHERE id = ANY(v_drop_ids);
+
+  -- One pending membership review per rider per season
+  SELECT array_agg(id) INTO v_drop_ids FROM (
+    SELECT id, row_number() OVER (
+      PARTITION BY season ORDER BY (rider_id = p_target_id) DESC, created_at
+    ) AS rn
+    FROM membership_reviews WHERE rider_id = ANY(v_all) AND status = 'pending'
+  ) ranked WHERE rn > 1;
+
+  v_dropped := v_dropped || jsonb_build_object('membership_reviews',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(mr)), '[]') FROM membership_reviews mr WHERE mr.id = ANY(v_drop_ids)));
+  DELETE FROM membership_reviews WHERE id = ANY(v_drop_ids);
+
+  -- Record what's about to move, then move it
+  v_moved := jsonb_build_object(
+    'registrations', (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'rider_id', rider_id)), '[]')
+                      FROM registrations WHERE rider_id = ANY(v_sources)),
+    'results', (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'rider_id', rider_id)), '[]')
+                FROM results WHERE rider_id = ANY(v_sources)),
+    'memberships', (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'rider_id', rider_id)), '[]')
+                    FROM memberships WHERE rider_id = ANY(v_sources)),
+    'membership_reviews', (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'rider_id', rider_id)), '[]')
+                           FROM membership_reviews WHERE rider_id = ANY(v_sources)),
+    'rider_merges', (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'rider_id', rider_id)), '[]')
+                     FROM rider_merges WHERE rider_id = ANY(v_sources)),
+    'email_outbox', (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'rider_id', rider_id)), '[]')
+                     FROM email_outbox WHERE rider_id = ANY(v_sources)),
+    'course_records', (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'rider_id', rider_id)), '[]')
+                       FROM course_records WHERE rider_id = ANY(v_sources))
+  );
+
+  UPDATE registrations SET rider_id = p_target_id WHERE rider_id = ANY(v_sources);
+  UPDATE results SET rider_id = p_target_id WHERE rider_id = ANY(v_sources);
+  UPDATE memberships SET rider_id = p_target_id WHERE rider_id = ANY(v_sources);
+  UPDATE membership_reviews SET rider_id = p_target_id WHERE rider_id = ANY(v_sources);
+  UPDATE rider_merges SET rider_id = p_target_id WHERE rider_id = ANY(v_sources);
+  UPDATE email_outbox SET rider_id = p_target_id WHERE rider_id = ANY(v_sources);
+  UPDATE course_records SET rider_id = p_target_id WHERE rider_id = ANY(v_sources);
+
+  -- A target without a rider number takes the earliest one among the sources
+  SELECT MIN(rider_number) INTO v_rider_number FROM riders WHERE id = ANY(v_all);
+
+  DELETE FROM riders WHERE id = ANY(v_sources);
+
+  UPDATE riders SET
+    first_name = trim(p_first_name),
+    last_name = trim(p_last_name),
+    email = NULLIF(trim(p_email), ''),
+    gender = CASE WHEN p_gender IN ('M', 'F', 'X') THEN p_gender ELSE NULL END,
+    rider_number = COALESCE(rider_number, v_rider_number)
+  WHERE id = p_target_id;
+
+  INSERT INTO rider_merge_snapshots (
+    target_rider_id, target_before, source_riders, moved_rows, dropped_rows, merged_by
+  ) VALUES (
+    p_target_id, v_target_before, v_source_riders, v_moved, v_dropped, p_merged_by
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'merge_id', v_merge_id,
+    'moved_registrations', jsonb_array_length(v_moved->'registrations'),
+    'moved_results', jsonb_array_length(v_moved->'results'),
+    'dropped_registrations', jsonb_array_length(v_dropped->'registrations'),
+    'dropped_results', jsonb_array_length(v_dropped->'results')
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- ============================================
+-- unmerge_riders
+-- ============================================
+-- Restores the source riders and moves their rows back. Rows created for the
+-- target after the merge stay with the target. Merges into the same rider
+-- have to be undone newest first.
+CREATE OR REPLACE FUNCTION unmerge_riders(
+  p_merge_id UUID,
+  p_unmerged_by UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_merge rider_merge_snapshots%ROWTYPE;
+BEGIN
+  SELECT * INTO v_merge FROM rider_merge_snapshots WHERE id = p_merge_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Merge not found');
+  END IF;
+
+  IF v_merge.unmerged_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'This merge has already been undone');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM rider_merge_snapshots
+    WHERE target_rider_id = v_merge.target_rider_id
+      AND unmerged_at IS NULL
+      AND merged_at > v_merge.merged_at
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Undo the later merge into this rider first');
+  END IF;
+
+  PERFORM 1 FROM riders WHERE id = v_merge.target_rider_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false,
+      'error', 'This rider has since been merged into another rider. Undo that merge first');
+  END IF;
+
+  -- Restore the target's details first so its email and rider number are free
+  UPDATE riders t SET
+    first_name = b.first_name,
+    last_name = b.last_name,
+    email = b.email,
+    gender = b.gender,
+    rider_number = b.rider_number
+  FROM jsonb_populate_record(NULL::riders, v_merge.target_before) b
+  WHERE t.id = b.id;
+
+  -- Bring the sources back. A rider number handed out since is not reclaimed.
+  INSERT INTO riders
+  SELECT (jsonb_populate_record(
+    NULL::riders,
+    CASE
+      WHEN EXISTS (SELECT 1 FROM riders WHERE rider_number = (s->>'rider_number')::INT)
+        THEN s || '{"rider_number": null}'
+      ELSE s
+    END
+  )).*
+  FROM jsonb_array_elements(v_merge.source_riders) s;
+
+  UPDATE registrations r SET rider_id = m.rider_id
+  FROM jsonb_to_recordset(COALESCE(v_merge.moved_rows->'registrations', '[]')) AS m(id UUID, rider_id UUID)
+  WHERE r.id = m.id;
+  UPDATE results r SET rider_id = m.rider_id
+  FROM jsonb_to_recordset(COALESCE(v_merge.moved_rows->'results', '[]')) AS m(id UUID, rider_id UUID)
+  WHERE r.id = m.id;
+  UPDATE memberships r SET rider_id = m.rider_id
+  FROM jsonb_to_recordset(COALESCE(v_merge.moved_rows->'memberships', '[]')) AS m(id UUID, rider_id UUID)
+  WHERE r.id = m.id;
+  UPDATE membership_reviews r SET rider_id = m.rider_id
+  FROM jsonb_to_recordset(COALESCE(v_merge.moved_rows->'membership_reviews', '[]')) AS m(id UUID, rider_id UUID)
+  WHERE r.id = m.id;
+  UPDATE rider_merges r SET rider_id = m.rider_id
+  FROM jsonb_to_recordset(COALESCE(v_merge.moved_rows->'rider_merges', '[]')) AS m(id UUID, rider_id UUID)
+  WHERE r.id = m.id;
+  UPDATE email_outbox r SET rider_id = m.rider_id
+  FROM jsonb_to_recordset(COALESCE(v_merge.moved_rows->'email_outbox', '[]')) AS m(id UUID, rider_id UUID)
+  WHERE r.id = m.id;
+  UPDATE course_records r SET rider_id = m.rider_id
+  FROM jsonb_to_recordset(COALESCE(v_merge.moved_rows->'course_records', '[]')) AS m(id UUID, rider_id UUID)
+  WHERE r.id = m.id;
+
+  -- Put back the duplicates the merge dropped
+  INSERT INTO registrations
+  SELECT * FROM jsonb_populate_recordset(NULL::registrations, COALESCE(v_merge.dropped_rows->'registrations', '[]'))
+  ON CONFLICT DO NOTHING;
+  INSERT INTO results
+  SELECT * FROM jsonb_populate_recordset(NULL::results, COALESCE(v_merge.dropped_rows->'results', '[]'))
+  ON CONFLICT DO NOTHING;
+  INSERT INTO result_awards
+  SELECT ra.* FROM jsonb_populate_recordset(NULL::result_awards, COALESCE(v_merge.dropped_rows->'result_awards', '[]')) ra
+  WHERE EXISTS (SELECT 1 FROM results WHERE id = ra.result_id)
+  ON CONFLICT DO NOTHING;
+  INSERT INTO pending_awards
+  SELECT pa.* FROM jsonb_populate_recordset(NULL::pending_awards, COALESCE(v_merge.dropped_rows->'pending_awards', '[]')) pa
+  WHERE EXISTS (SELECT 1 FROM results WHERE id = pa.result_id)
+  ON CONFLICT DO NOTHING;
+  UPDATE course_records cr SET result_id = m.result_id
+  FROM jsonb_to_recordset(COALESCE(v_merge.dropped_rows->'course_records', '[]')) AS m(id UUID, result_id UUID)
+  WHERE cr.id = m.id AND cr.result_id IS NULL
+    AND EXISTS (SELECT 1 FROM results WHERE id = m.result_id);
+  INSERT INTO memberships
+  SELECT * FROM jsonb_populate_recordset(NULL::memberships, COALESCE(v_merge.dropped_rows->'memberships', '[]'))
+  ON CONFLICT DO NOTHING;
+  INSERT INTO membership_reviews
+  SELECT * FROM jsonb_populate_recordset(NULL::membership_reviews, COALESCE(v_merge.dropped_rows->'membership_reviews', '[]'))
+  ON CONFLICT DO NOTHING;
+
+  UPDATE rider_merge_snapshots
+  SET unmerged_at = now(), unmerged_by = p_unmerged_by
+  WHERE id = p_merge_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'target_rider_id', v_merge.target_rider_id,
+    'restored_rider_ids', (SELECT json_agg(s->>'id') FROM jsonb_array_elements(v_merge.source_riders) s)
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Server actions call these with the service role only
+REVOKE EXECUTE ON FUNCTION merge_riders(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION unmerge_riders(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Add 'unmerge' to the action CHECK constraint on audit_logs
+ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_action_check;
+ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'status_change', 'merge', 'unmerge', 'submit'));
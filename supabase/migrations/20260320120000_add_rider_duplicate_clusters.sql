@@ -0,0 +1,26 @@
+-- Possible duplicate riders found by the nightly scan (lib/riders/duplicate-scan.ts).
+-- Pending clusters are replaced on each scan. Dismissed clusters are kept so
+-- the riders in them aren't proposed together again.
+CREATE TABLE rider_duplicate_clusters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cluster_key TEXT NOT NULL UNIQUE,           -- sorted rider ids joined with ':'
+  rider_ids UUID[] NOT NULL,
+  score NUMERIC(4, 3) NOT NULL,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  reviewed_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_rider_duplicate_clusters_status ON rider_duplicate_clusters(status, score DESC);
+CREATE INDEX idx_rider_duplicate_clusters_riders ON rider_duplicate_clusters USING GIN (rider_ids);
+
+CREATE TRIGGER set_rider_duplicate_clusters_updated_at
+  BEFORE UPDATE ON rider_duplicate_clusters
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: admin-only data, read and written through server actions (service role)
+ALTER TABLE rider_duplicate_clusters ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,36 @@
+-- Rider accounts: riders sign in with an emailed magic link (Supabase auth)
+-- and manage their own profile at /account. A rider's auth user is linked on
+-- first sign-in by matching email. Rider auth users are never admins; the
+-- sign-in flow refuses admin emails and admin sessions.
+ALTER TABLE riders
+  ADD COLUMN auth_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN profile_visibility TEXT NOT NULL DEFAULT 'public'
+    CHECK (profile_visibility IN ('public', 'hidden'));
+
+CREATE UNIQUE INDEX idx_riders_auth_user_id ON riders(auth_user_id)
+  WHERE auth_user_id IS NOT NULL;
+
+COMMENT ON COLUMN riders.auth_user_id IS 'Supabase auth user the rider signs in with (magic link)';
+COMMENT ON COLUMN riders.profile_visibility IS 'public: listed in the rider directory; hidden: no public profile page';
+
+-- Signed-in riders use the 'authenticated' role, which could otherwise read
+-- every rider's email and emergency contact. Give it the same column-level
+-- access as anon; admin pages read riders with the service role.
+REVOKE SELECT ON riders FROM authenticated;
+GRANT SELECT (id, slug, first_name, last_name, gender, rider_number, created_at, updated_at) ON riders TO authenticated;
+
+-- public_riders runs as the caller, so both roles need the new column for the filter
+GRANT SELECT (profile_visibility) ON riders TO anon, authenticated;
+
+-- Hidden riders drop out of the directory and /riders/[slug]
+DROP VIEW IF EXISTS public_riders;
+
+CREATE VIEW public_riders
+WITH (security_invoker = true, security_barrier = true)
+AS
+SELECT id, slug, first_name, last_name, gender, rider_number, created_at, updated_at
+FROM riders
+WHERE profile_visibility = 'public'
+  AND EXISTS (SELECT 1 FROM results WHERE results.rider_id = riders.id);
+
+GRANT SELECT ON public_riders TO anon, authenticated;
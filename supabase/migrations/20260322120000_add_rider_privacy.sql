@@ -0,0 +1,780 @@
+-- Rider privacy: riders choose how they appear publicly from /account, can
+-- download everything we hold about them, and can ask to be erased. Erasure
+-- anonymizes the rider rather than deleting them, so results, club totals and
+-- route stats keep their counts.
+--
+--   public   - full name, profile page and directory listing
+--   initials - initials only ("J. D."), no profile page
+--   hidden   - full name in event results, no profile page
+--
+-- Independently, exclude_from_records keeps a rider out of every records
+-- table (/records, streaks, PBP and Granite Anvil). Club-wide aggregates
+-- (riders per season, total distance, route participation) still count them.
+ALTER TABLE riders DROP CONSTRAINT IF EXISTS riders_profile_visibility_check;
+ALTER TABLE riders ADD CONSTRAINT riders_profile_visibility_check
+  CHECK (profile_visibility IN ('public', 'initials', 'hidden'));
+
+ALTER TABLE riders
+  ADD COLUMN exclude_from_records BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN anonymized_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN riders.profile_visibility IS 'public: full name and profile page; initials: initials only, no profile page; hidden: full name in results, no profile page';
+COMMENT ON COLUMN riders.exclude_from_records IS 'Leave the rider out of the records tables';
+COMMENT ON COLUMN riders.anonymized_at IS 'When the rider''s personal data was erased (see anonymize_rider)';
+
+-- Course records are read straight from riders by the route pages
+GRANT SELECT (exclude_from_records) ON riders TO anon, authenticated;
+
+-- ============================================================================
+-- PUBLIC NAME HELPERS
+-- ============================================================================
+
+-- One name part as the public should see it
+CREATE OR REPLACE FUNCTION rider_public_name_part(p_name TEXT, p_visibility TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_visibility = 'initials' THEN
+      CASE WHEN COALESCE(p_name, '') = '' THEN '' ELSE UPPER(LEFT(p_name, 1)) || '.' END
+    ELSE p_name
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION rider_public_name(p_first_name TEXT, p_last_name TEXT, p_visibility TEXT)
+RETURNS TEXT AS $$
+  SELECT TRIM(CONCAT(
+    rider_public_name_part(p_first_name, p_visibility),
+    ' ',
+    rider_public_name_part(p_last_name, p_visibility)
+  ));
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Slugs are built from names and email prefixes, so only public riders get one
+CREATE OR REPLACE FUNCTION rider_public_slug(p_slug TEXT, p_visibility TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE WHEN p_visibility = 'public' THEN p_slug ELSE NULL END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- ============================================================================
+-- PUBLIC VIEWS
+-- ============================================================================
+
+DROP VIEW IF EXISTS public_results;
+
+CREATE VIEW public_results
+WITH (security_invoker = true, security_barrier = true)
+AS
+SELECT
+  r.id,
+  r.event_id,
+  r.finish_time,
+  r.status,
+  r.note,
+  r.team_name,
+  r.season,
+  r.distance_km,
+  r.created_at,
+  rider_public_slug(ri.slug, ri.profile_visibility) AS rider_slug,
+  rider_public_name_part(ri.first_name, ri.profile_visibility) AS first_name,
+  rider_public_name_part(ri.last_name, ri.profile_visibility) AS last_name
+FROM results r
+JOIN riders ri ON r.rider_id = ri.id;
+
+GRANT SELECT ON public_results TO anon;
+GRANT SELECT ON public_results TO authenticated;
+
+-- public_riders already lists only profile_visibility = 'public' riders, so
+-- initials and hidden riders have no /riders/[slug] page.
+
+-- ============================================================================
+-- RECORDS FUNCTIONS
+-- ============================================================================
+-- Same queries as before, with names masked and excluded riders left out.
+
+CREATE OR REPLACE FUNCTION get_rider_completion_counts(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    COUNT(*) AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  WHERE res.status = 'finished'
+    AND NOT r.exclude_from_records
+  GROUP BY r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  ORDER BY COUNT(*) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_rider_distance_totals(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY SUM(e.distance_km) DESC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    SUM(e.distance_km)::BIGINT AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  WHERE res.status = 'finished'
+    AND NOT r.exclude_from_records
+  GROUP BY r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  ORDER BY SUM(e.distance_km) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_rider_active_seasons(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY COUNT(DISTINCT res.season) DESC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    COUNT(DISTINCT res.season) AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  WHERE res.status = 'finished'
+    AND NOT r.exclude_from_records
+  GROUP BY r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  ORDER BY COUNT(DISTINCT res.season) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_rider_permanent_counts(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    COUNT(*) AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  WHERE res.status = 'finished'
+    AND e.event_type = 'permanent'
+    AND NOT r.exclude_from_records
+  GROUP BY r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  HAVING COUNT(*) > 0
+  ORDER BY COUNT(*) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_rider_award_counts(p_award_slug TEXT, limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY COUNT(DISTINCT res.season) DESC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    COUNT(DISTINCT res.season) AS value
+  FROM result_awards ra
+  JOIN awards a ON ra.award_id = a.id
+  JOIN results res ON ra.result_id = res.id
+  JOIN riders r ON res.rider_id = r.id
+  WHERE a.slug = p_award_slug
+    AND NOT r.exclude_from_records
+  GROUP BY r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  HAVING COUNT(DISTINCT res.season) > 0
+  ORDER BY COUNT(DISTINCT res.season) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_best_season_event_counts(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  season INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC)::INTEGER AS rank,
+    res.season AS season,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    COUNT(*) AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  WHERE res.status = 'finished'
+    AND res.season IS NOT NULL
+    AND NOT r.exclude_from_records
+  GROUP BY res.season, r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  ORDER BY COUNT(*) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_best_season_distances(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  season INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY SUM(e.distance_km) DESC)::INTEGER AS rank,
+    res.season AS season,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    SUM(e.distance_km)::BIGINT AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  WHERE res.status = 'finished'
+    AND res.season IS NOT NULL
+    AND NOT r.exclude_from_records
+  GROUP BY res.season, r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  ORDER BY SUM(e.distance_km) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_current_season_distances(p_season INTEGER, limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY SUM(e.distance_km) DESC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    SUM(e.distance_km)::BIGINT AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  WHERE res.status = 'finished'
+    AND res.season = p_season
+    AND NOT r.exclude_from_records
+  GROUP BY r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  ORDER BY SUM(e.distance_km) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_pbp_completion_counts(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    COUNT(*) AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  WHERE res.status = 'finished'
+    AND e.name = 'Paris-Brest-Paris'
+    AND NOT r.exclude_from_records
+  GROUP BY r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  ORDER BY COUNT(*) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_pbp_fastest_times(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  finish_time TEXT,
+  event_date DATE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY res.finish_time ASC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    res.finish_time::TEXT AS finish_time,
+    e.event_date AS event_date
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  WHERE res.status = 'finished'
+    AND e.name = 'Paris-Brest-Paris'
+    AND res.finish_time IS NOT NULL
+    AND NOT r.exclude_from_records
+  ORDER BY res.finish_time ASC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_granite_anvil_completion_counts(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  value BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    COUNT(*) AS value
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  JOIN event_series s ON e.series_id = s.id
+  WHERE res.status = 'finished'
+    AND s.collection = 'granite-anvil'
+    AND NOT r.exclude_from_records
+  GROUP BY r.id, r.slug, r.first_name, r.last_name, r.profile_visibility
+  ORDER BY COUNT(*) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_granite_anvil_fastest_times(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  finish_time TEXT,
+  event_date DATE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY res.finish_time ASC)::INTEGER AS rank,
+    rider_public_slug(r.slug, r.profile_visibility) AS rider_slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS rider_name,
+    res.finish_time::TEXT AS finish_time,
+    e.event_date AS event_date
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  JOIN event_series s ON e.series_id = s.id
+  WHERE res.status = 'finished'
+    AND s.collection = 'granite-anvil'
+    AND res.finish_time IS NOT NULL
+    AND NOT r.exclude_from_records
+  ORDER BY res.finish_time ASC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_rider_longest_streaks(
+  p_current_season INTEGER,
+  limit_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  streak_length INTEGER,
+  streak_end_season INTEGER
+) AS $$
+WITH rider_seasons AS (
+  -- Get distinct seasons per rider where they finished at least one event
+  SELECT DISTINCT
+    r.id AS rider_id,
+    rider_public_slug(r.slug, r.profile_visibility) AS slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS name,
+    res.season
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  WHERE res.status = 'finished'
+    AND res.season IS NOT NULL
+    AND NOT r.exclude_from_records
+),
+season_groups AS (
+  -- Identify streak groups using the gap technique
+  -- Consecutive seasons will have the same streak_group value
+  SELECT
+    rider_id,
+    slug,
+    name,
+    season,
+    season - ROW_NUMBER() OVER (PARTITION BY rider_id ORDER BY season)::INTEGER AS streak_group
+  FROM rider_seasons
+),
+streaks AS (
+  -- Calculate streak lengths and boundaries
+  SELECT
+    rider_id,
+    slug,
+    name,
+    MIN(season) AS streak_start,
+    MAX(season) AS streak_end,
+    COUNT(*)::INTEGER AS streak_len
+  FROM season_groups
+  GROUP BY rider_id, slug, name, streak_group
+),
+active_streaks AS (
+  -- Only include streaks that are still "active" (ended in current or previous season)
+  SELECT *
+  FROM streaks
+  WHERE streak_end >= p_current_season - 1
+),
+best_streaks AS (
+  -- Get best active streak per rider (prefer ongoing streaks in ties)
+  SELECT DISTINCT ON (rider_id)
+    slug,
+    name,
+    streak_len,
+    streak_end
+  FROM active_streaks
+  ORDER BY rider_id, streak_len DESC, streak_end DESC
+)
+SELECT
+  ROW_NUMBER() OVER (ORDER BY streak_len DESC, streak_end DESC)::INTEGER AS rank,
+  slug AS rider_slug,
+  name AS rider_name,
+  streak_len AS streak_length,
+  streak_end AS streak_end_season
+FROM best_streaks
+ORDER BY streak_len DESC, streak_end DESC
+LIMIT limit_count;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+
+CREATE OR REPLACE FUNCTION get_rider_sr_streaks(
+  p_current_season INTEGER,
+  limit_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  rank INTEGER,
+  rider_slug TEXT,
+  rider_name TEXT,
+  streak_length INTEGER,
+  streak_end_season INTEGER
+) AS $$
+WITH rider_sr_seasons AS (
+  -- Get distinct seasons per rider where they earned Super Randonneur
+  -- Awards are linked through result_awards → results → riders
+  SELECT DISTINCT
+    r.id AS rider_id,
+    rider_public_slug(r.slug, r.profile_visibility) AS slug,
+    rider_public_name(r.first_name, r.last_name, r.profile_visibility) AS name,
+    res.season
+  FROM result_awards ra
+  JOIN awards a ON ra.award_id = a.id
+  JOIN results res ON ra.result_id = res.id
+  JOIN riders r ON res.rider_id = r.id
+  WHERE a.slug = 'super-randonneur'
+    AND res.season IS NOT NULL
+    AND NOT r.exclude_from_records
+),
+season_groups AS (
+  -- Identify streak groups using the gap technique
+  SELECT
+    rider_id,
+    slug,
+    name,
+    season,
+    season - ROW_NUMBER() OVER (PARTITION BY rider_id ORDER BY season)::INTEGER AS streak_group
+  FROM rider_sr_seasons
+),
+streaks AS (
+  -- Calculate streak lengths and boundaries
+  SELECT
+    rider_id,
+    slug,
+    name,
+    MIN(season) AS streak_start,
+    MAX(season) AS streak_end,
+    COUNT(*)::INTEGER AS streak_len
+  FROM season_groups
+  GROUP BY rider_id, slug, name, streak_group
+),
+best_streaks AS (
+  -- Get best streak per rider (prefer ongoing/recent streaks in ties)
+  SELECT DISTINCT ON (rider_id)
+    slug,
+    name,
+    streak_len,
+    streak_end
+  FROM streaks
+  ORDER BY rider_id, streak_len DESC, streak_end DESC
+)
+SELECT
+  ROW_NUMBER() OVER (ORDER BY streak_len DESC, streak_end DESC)::INTEGER AS rank,
+  slug AS rider_slug,
+  name AS rider_name,
+  streak_len AS streak_length,
+  streak_end AS streak_end_season
+FROM best_streaks
+ORDER BY streak_len DESC, streak_end DESC
+LIMIT limit_count;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- OTHER PUBLIC RIDER LISTS
+-- ============================================================================
+
+-- Event page registrant list (shown as "First L.")
+CREATE OR REPLACE FUNCTION get_registered_riders(p_event_id UUID)
+RETURNS TABLE (
+  first_name TEXT,
+  last_name TEXT,
+  share_registration BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    rider_public_name_part(r.first_name, r.profile_visibility),
+    rider_public_name_part(r.last_name, r.profile_visibility),
+    reg.share_registration
+  FROM registrations reg
+  JOIN riders r ON reg.rider_id = r.id
+  WHERE reg.event_id = p_event_id
+    AND reg.status = 'registered'
+  ORDER BY reg.registered_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Series progress board. Returns the rider id so riders without a public
+-- slug can still be told apart.
+DROP FUNCTION IF EXISTS get_series_progress(UUID);
+
+CREATE OR REPLACE FUNCTION get_series_progress(p_series_id UUID)
+RETURNS TABLE (
+  rider_id UUID,
+  rider_slug TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  event_id UUID,
+  status TEXT,
+  finish_time TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    rider_public_slug(r.slug, r.profile_visibility),
+    rider_public_name_part(r.first_name, r.profile_visibility),
+    rider_public_name_part(r.last_name, r.profile_visibility),
+    res.event_id,
+    res.status,
+    res.finish_time::TEXT
+  FROM results res
+  JOIN riders r ON res.rider_id = r.id
+  JOIN events e ON res.event_id = e.id
+  WHERE e.series_id = p_series_id
+  UNION ALL
+  SELECT
+    r.id,
+    rider_public_slug(r.slug, r.profile_visibility),
+    rider_public_name_part(r.first_name, r.profile_visibility),
+    rider_public_name_part(r.last_name, r.profile_visibility),
+    reg.event_id,
+    reg.status,
+    NULL::TEXT
+  FROM registrations reg
+  JOIN riders r ON reg.rider_id = r.id
+  JOIN events e ON reg.event_id = e.id
+  WHERE e.series_id = p_series_id
+    AND reg.status IN ('registered', 'waitlisted')
+    AND reg.share_registration
+    AND NOT EXISTS (
+      SELECT 1 FROM results res
+      WHERE res.event_id = reg.event_id AND res.rider_id = reg.rider_id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_series_progress(UUID) TO anon, authenticated;
+
+-- ============================================================================
+-- DATA REQUESTS
+-- ============================================================================
+
+-- Data exports and erasure requests made from /account. Exports are logged
+-- as completed when downloaded; erasure requests wait for an admin.
+CREATE TABLE rider_data_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rider_id UUID NOT NULL REFERENCES riders(id) ON DELETE CASCADE,
+  request_type TEXT NOT NULL CHECK (request_type IN ('export', 'erasure')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'declined')),
+  note TEXT,                                   -- from the rider
+  resolution_note TEXT,                       -- from the admin, e.g. why it was declined
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES admins(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_rider_data_requests_status ON rider_data_requests(status, requested_at);
+CREATE INDEX idx_rider_data_requests_rider ON rider_data_requests(rider_id);
+
+-- One open erasure request per rider
+CREATE UNIQUE INDEX idx_rider_data_requests_pending_erasure ON rider_data_requests(rider_id)
+  WHERE request_type = 'erasure' AND status = 'pending';
+
+-- RLS: admin-only data, read and written through server actions (service role)
+ALTER TABLE rider_data_requests ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE rider_data_requests IS 'Rider data exports and erasure requests';
+
+-- ============================================================================
+-- ANONYMIZATION
+-- ============================================================================
+
+-- Erase a rider's personal data in one transaction. Results, registrations
+-- and memberships stay (with free-text fields cleared) so season, route and
+-- club totals don't change; the rider becomes "Anonymous Rider" with no
+-- profile and no records entries. The rider number is kept because it's
+-- part of the homologation records sent to the ACP. Merge history,
+-- duplicate clusters and queued emails that hold the old name or email are
+-- deleted.
+--
+-- Returns the auth user to delete and the uploaded files to remove from the
+-- rider-submissions bucket, which the caller does after the commit.
+CREATE OR REPLACE FUNCTION anonymize_rider(
+  p_rider_id UUID,
+  p_anonymized_by UUID DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_rider riders%ROWTYPE;
+  v_file_paths TEXT[];
+BEGIN
+  SELECT * INTO v_rider FROM riders WHERE id = p_rider_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rider not found';
+  END IF;
+
+  IF v_rider.anonymized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Rider has already been anonymized';
+  END IF;
+
+  SELECT COALESCE(array_agg(path), '{}') INTO v_file_paths
+  FROM (
+    SELECT unnest(ARRAY[gpx_file_path, control_card_front_path, control_card_back_path]) AS path
+    FROM results
+    WHERE rider_id = p_rider_id
+  ) files
+  WHERE path IS NOT NULL;
+
+  UPDATE results SET
+    rider_notes = NULL,
+    team_name = NULL,
+    gpx_url = NULL,
+    gpx_file_path = NULL,
+    gpx_verification = NULL,
+    gpx_verified_at = NULL,
+    control_card_front_path = NULL,
+    control_card_back_path = NULL,
+    submission_token = NULL
+  WHERE rider_id = p_rider_id;
+
+  UPDATE registrations SET
+    notes = NULL,
+    share_registration = false,
+    manage_token = NULL
+  WHERE rider_id = p_rider_id;
+
+  UPDATE memberships SET note = NULL WHERE rider_id = p_rider_id;
+
+  DELETE FROM membership_reviews WHERE rider_id = p_rider_id;
+  DELETE FROM rider_merges WHERE rider_id = p_rider_id;
+  DELETE FROM email_outbox WHERE rider_id = p_rider_id;
+  DELETE FROM rider_duplicate_clusters WHERE p_rider_id = ANY(rider_ids);
+  DELETE FROM rider_merge_snapshots
+  WHERE target_rider_id = p_rider_id
+    OR source_riders @> jsonb_build_array(jsonb_build_object('id', p_rider_id));
+
+  UPDATE rider_data_requests SET
+    status = 'completed',
+    resolved_at = now(),
+    resolved_by = p_anonymized_by
+  WHERE rider_id = p_rider_id
+    AND request_type = 'erasure'
+    AND status = 'pending';
+
+  UPDATE riders SET
+    first_name = 'Anonymous',
+    last_name = 'Rider',
+    slug = 'anonymous-' || LEFT(p_rider_id::TEXT, 8),
+    email = NULL,
+    gender = NULL,
+    emergency_contact_name = NULL,
+    emergency_contact_phone = NULL,
+    auth_user_id = NULL,
+    calendar_token = gen_random_uuid(),
+    profile_visibility = 'hidden',
+    exclude_from_records = true,
+    anonymized_at = now()
+  WHERE id = p_rider_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'auth_user_id', v_rider.auth_user_id,
+    'file_paths', to_json(v_file_paths)
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Server actions call this with the service role only
+REVOKE EXECUTE ON FUNCTION anonymize_rider(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Add 'anonymize' to audit log actions
+ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_action_check;
+ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'status_change', 'merge', 'unmerge', 'submit', 'anonymize'));
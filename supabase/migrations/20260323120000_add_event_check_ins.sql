@@ -0,0 +1,11 @@
+-- Day-of check-in: organizers check riders in at the start from
+-- /admin/events/[id]/day-of, often on a phone with patchy signal. Check-ins
+-- are queued in the browser and synced later, so checked_in_at is the time
+-- the organizer tapped the rider in, not when the server heard about it.
+-- Registered riders who never checked in can then be marked DNS in one go.
+ALTER TABLE registrations
+  ADD COLUMN checked_in_at TIMESTAMPTZ,
+  ADD COLUMN checked_in_by UUID REFERENCES admins(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN registrations.checked_in_at IS 'When the rider was checked in at the start (null: not checked in)';
+COMMENT ON COLUMN registrations.checked_in_by IS 'Admin who checked the rider in';
@@ -0,0 +1,48 @@
+-- Enforce event rider limits in the database. The app decides between
+-- 'registered' and 'waitlisted' by counting first, so two riders signing up
+-- for the last spot at the same moment could both get in. This trigger
+-- takes a row lock on the event, recounts, and turns the row into a
+-- waitlisted one if the event filled up in the meantime. Callers read the
+-- stored status back rather than trusting the one they asked for.
+CREATE OR REPLACE FUNCTION enforce_event_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_max_riders INT;
+  v_registered INT;
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'registered'
+     OR (TG_OP = 'UPDATE' AND OLD.status = 'registered') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serializes sign-ins (and waitlist promotions) for the same event
+  SELECT max_riders INTO v_max_riders
+  FROM events
+  WHERE id = NEW.event_id
+  FOR UPDATE;
+
+  IF v_max_riders IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_registered
+  FROM registrations
+  WHERE event_id = NEW.event_id
+    AND status = 'registered'
+    AND id <> NEW.id;
+
+  IF v_registered >= v_max_riders THEN
+    NEW.status := 'waitlisted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_enforce_event_capacity
+  BEFORE INSERT OR UPDATE OF status ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_event_capacity();
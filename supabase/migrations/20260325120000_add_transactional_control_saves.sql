@@ -0,0 +1,43 @@
+-- Saving controls replaces the whole list. Doing the delete and insert as
+-- separate requests could leave a route (or an event override) with no
+-- controls if the insert failed, so both happen in one function call.
+-- p_controls is a JSON array of rows: position, name, distance_km, address,
+-- control_type, info_question.
+
+CREATE OR REPLACE FUNCTION replace_route_controls(p_route_id UUID, p_controls JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM route_controls WHERE route_id = p_route_id;
+
+  INSERT INTO route_controls (
+    route_id, position, name, distance_km, address, control_type, info_question
+  )
+  SELECT p_route_id, c.position, c.name, c.distance_km, c.address,
+         COALESCE(c.control_type, 'staffed'), c.info_question
+  FROM jsonb_to_recordset(COALESCE(p_controls, '[]')) AS c(
+    position INT, name TEXT, distance_km NUMERIC, address TEXT,
+    control_type TEXT, info_question TEXT
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION replace_event_controls(p_event_id UUID, p_controls JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM event_controls WHERE event_id = p_event_id;
+
+  INSERT INTO event_controls (
+    event_id, position, name, distance_km, address, control_type, info_question
+  )
+  SELECT p_event_id, c.position, c.name, c.distance_km, c.address,
+         COALESCE(c.control_type, 'staffed'), c.info_question
+  FROM jsonb_to_recordset(COALESCE(p_controls, '[]')) AS c(
+    position INT, name TEXT, distance_km NUMERIC, address TEXT,
+    control_type TEXT, info_question TEXT
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Server actions call these with the service role only
+REVOKE EXECUTE ON FUNCTION replace_route_controls(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION replace_event_controls(UUID, JSONB) FROM PUBLIC, anon, authenticated;
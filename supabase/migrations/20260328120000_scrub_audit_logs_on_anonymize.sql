@@ -0,0 +1,123 @@
+-- anonymize_rider left the rider's name (and sometimes email) in audit log
+-- descriptions such as "Cancelled registration for Jane Doe in ...". It now
+-- replaces them. Otherwise unchanged from 20260322120000.
+
+-- Erase a rider's personal data in one transaction. Results, registrations
+-- and memberships stay (with free-text fields cleared) so season, route and
+-- club totals don't change; the rider becomes "Anonymous Rider" with no
+-- profile and no records entries. The rider number is kept because it's
+-- part of the homologation records sent to the ACP. Merge history,
+-- duplicate clusters and queued emails that hold the old name or email are
+-- deleted. Audit log entries about the rider, their rows or the events they
+-- rode keep the action, with the name and email replaced.
+--
+-- Returns the auth user to delete and the uploaded files to remove from the
+-- rider-submissions bucket, which the caller does after the commit.
+CREATE OR REPLACE FUNCTION anonymize_rider(
+  p_rider_id UUID,
+  p_anonymized_by UUID DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_rider riders%ROWTYPE;
+  v_file_paths TEXT[];
+  v_name TEXT;
+BEGIN
+  SELECT * INTO v_rider FROM riders WHERE id = p_rider_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rider not found';
+  END IF;
+
+  IF v_rider.anonymized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Rider has already been anonymized';
+  END IF;
+
+  SELECT COALESCE(array_agg(path), '{}') INTO v_file_paths
+  FROM (
+    SELECT unnest(ARRAY[gpx_file_path, control_card_front_path, control_card_back_path]) AS path
+    FROM results
+    WHERE rider_id = p_rider_id
+  ) files
+  WHERE path IS NOT NULL;
+
+  UPDATE results SET
+    rider_notes = NULL,
+    team_name = NULL,
+    gpx_url = NULL,
+    gpx_file_path = NULL,
+    gpx_verification = NULL,
+    gpx_verified_at = NULL,
+    control_card_front_path = NULL,
+    control_card_back_path = NULL,
+    submission_token = NULL
+  WHERE rider_id = p_rider_id;
+
+  UPDATE registrations SET
+    notes = NULL,
+    share_registration = false,
+    manage_token = NULL
+  WHERE rider_id = p_rider_id;
+
+  UPDATE memberships SET note = NULL WHERE rider_id = p_rider_id;
+
+  -- Before membership reviews are deleted, since entries point at them too
+  v_name := v_rider.first_name || ' ' || v_rider.last_name;
+  UPDATE audit_logs SET description = CASE
+    WHEN v_rider.email IS NULL THEN replace(description, v_name, 'Anonymous Rider')
+    ELSE replace(replace(description, v_name, 'Anonymous Rider'), v_rider.email, '[email removed]')
+  END
+  WHERE entity_id IN (
+    SELECT p_rider_id::TEXT
+    UNION SELECT id::TEXT FROM registrations WHERE rider_id = p_rider_id
+    UNION SELECT event_id::TEXT FROM registrations WHERE rider_id = p_rider_id
+    UNION SELECT id::TEXT FROM results WHERE rider_id = p_rider_id
+    UNION SELECT event_id::TEXT FROM results WHERE rider_id = p_rider_id
+    UNION SELECT id::TEXT FROM memberships WHERE rider_id = p_rider_id
+    UNION SELECT id::TEXT FROM membership_reviews WHERE rider_id = p_rider_id
+  )
+  AND (
+    description LIKE '%' || v_name || '%'
+    OR (v_rider.email IS NOT NULL AND description LIKE '%' || v_rider.email || '%')
+  );
+
+  DELETE FROM membership_reviews WHERE rider_id = p_rider_id;
+  DELETE FROM rider_merges WHERE rider_id = p_rider_id;
+  DELETE FROM email_outbox WHERE rider_id = p_rider_id;
+  DELETE FROM rider_duplicate_clusters WHERE p_rider_id = ANY(rider_ids);
+  DELETE FROM rider_merge_snapshots
+  WHERE target_rider_id = p_rider_id
+    OR source_riders @> jsonb_build_array(jsonb_build_object('id', p_rider_id));
+
+  UPDATE rider_data_requests SET
+    status = 'completed',
+    resolved_at = now(),
+    resolved_by = p_anonymized_by
+  WHERE rider_id = p_rider_id
+    AND request_type = 'erasure'
+    AND status = 'pending';
+
+  UPDATE riders SET
+    first_name = 'Anonymous',
+    last_name = 'Rider',
+    slug = 'anonymous-' || LEFT(p_rider_id::TEXT, 8),
+    email = NULL,
+    gender = NULL,
+    emergency_contact_name = NULL,
+    emergency_contact_phone = NULL,
+    auth_user_id = NULL,
+    calendar_token = gen_random_uuid(),
+    profile_visibility = 'hidden',
+    exclude_from_records = true,
+    anonymized_at = now()
+  WHERE id = p_rider_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'auth_user_id', v_rider.auth_user_id,
+    'file_paths', to_json(v_file_paths)
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Server actions call this with the service role only
+REVOKE EXECUTE ON FUNCTION anonymize_rider(UUID, UUID) FROM PUBLIC, anon, authenticated;
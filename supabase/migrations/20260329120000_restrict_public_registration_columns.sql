@@ -0,0 +1,8 @@
+-- The registrations table is publicly readable (for event registration
+-- counts), but it also holds each rider's manage_token and the admin notes.
+-- Anyone holding a manage token can change or cancel that registration, so
+-- limit anon and authenticated reads to the non-sensitive columns. Server
+-- actions that look up or rotate tokens use the service role.
+REVOKE SELECT ON registrations FROM anon, authenticated;
+GRANT SELECT (id, event_id, rider_id, status, registered_at, share_registration)
+  ON registrations TO anon, authenticated;
@@ -0,0 +1,95 @@
+-- Profile visibility was only applied in the public views and functions:
+-- anon and signed-in riders could still read every rider's full name and
+-- slug straight from the riders table (or through embeds such as
+-- course_records -> riders). Direct reads now only see public riders, and
+-- the places that list everyone go through definer functions that mask.
+
+DROP POLICY IF EXISTS "riders_select_public" ON riders;
+
+CREATE POLICY "riders_select_public" ON riders
+  FOR SELECT USING (profile_visibility = 'public' OR is_admin());
+
+-- Only the route pages read this column, and they now use
+-- get_route_record_progression
+REVOKE SELECT (exclude_from_records) ON riders FROM anon, authenticated;
+
+-- ============================================================================
+-- PUBLIC RESULTS
+-- ============================================================================
+
+-- A rider's name and slug as the public should see them. public_results runs
+-- as the caller, who can no longer see initials or hidden riders' rows.
+CREATE OR REPLACE FUNCTION rider_public_identity(p_rider_id UUID)
+RETURNS TABLE (
+  slug TEXT,
+  first_name TEXT,
+  last_name TEXT
+) AS $$
+  SELECT
+    rider_public_slug(r.slug, r.profile_visibility),
+    rider_public_name_part(r.first_name, r.profile_visibility),
+    rider_public_name_part(r.last_name, r.profile_visibility)
+  FROM riders r
+  WHERE r.id = p_rider_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP VIEW IF EXISTS public_results;
+
+CREATE VIEW public_results
+WITH (security_invoker = true, security_barrier = true)
+AS
+SELECT
+  r.id,
+  r.event_id,
+  r.finish_time,
+  r.status,
+  r.note,
+  r.team_name,
+  r.season,
+  r.distance_km,
+  r.created_at,
+  ri.slug AS rider_slug,
+  ri.first_name,
+  ri.last_name
+FROM results r
+CROSS JOIN LATERAL rider_public_identity(r.rider_id) ri;
+
+GRANT SELECT ON public_results TO anon;
+GRANT SELECT ON public_results TO authenticated;
+
+-- ============================================================================
+-- COURSE RECORDS
+-- ============================================================================
+
+-- Every time the course record for a route was set or tied, oldest first.
+-- Riders who left the records tables keep their entries but aren't named.
+CREATE OR REPLACE FUNCTION get_route_record_progression(p_route_slug TEXT)
+RETURNS TABLE (
+  set_on DATE,
+  finish_time INTERVAL,
+  superseded_at TIMESTAMPTZ,
+  rider_slug TEXT,
+  rider_name TEXT,
+  rider_excluded BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    cr.set_on,
+    cr.finish_time,
+    cr.superseded_at,
+    CASE WHEN r.exclude_from_records THEN NULL
+      ELSE rider_public_slug(r.slug, r.profile_visibility) END,
+    CASE WHEN r.exclude_from_records THEN NULL
+      ELSE rider_public_name(r.first_name, r.last_name, r.profile_visibility) END,
+    COALESCE(r.exclude_from_records, false)
+  FROM course_records cr
+  JOIN routes rt ON cr.route_id = rt.id
+  LEFT JOIN riders r ON cr.rider_id = r.id
+  WHERE rt.slug = p_route_slug
+    AND cr.voided_at IS NULL
+  ORDER BY cr.set_on ASC, cr.finish_time DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_route_record_progression(TEXT) TO anon, authenticated;
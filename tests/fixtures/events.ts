@@ -19,13 +19,25 @@ export const mockEvents: Event[] = [
     route_id: 'route-1',
     description: null,
     image_url: null,
-    collection: null,
+    max_riders: null,
+    series_id: null,
     season: 2025,
     created_at: null,
     updated_at: null,
     external_register_url: null,
+    homologation_file_path: null,
     registration_opens_at: null,
     registration_closes_at: null,
+    send_reminders: true,
+    send_roster: true,
+    roster_sent_at: null,
+    results_followup_stage: 0,
+    proposed_event_date: null,
+    proposed_start_time: null,
+    proposed_start_location: null,
+    review_note: null,
+    reviewed_at: null,
+    reviewed_by: null,
   },
   {
     id: 'event-2',
@@ -41,13 +53,25 @@ export const mockEvents: Event[] = [
     route_id: 'route-2',
     description: null,
     image_url: null,
-    collection: null,
+    max_riders: null,
+    series_id: null,
     season: 2025,
     created_at: null,
     updated_at: null,
     external_register_url: null,
+    homologation_file_path: null,
     registration_opens_at: null,
     registration_closes_at: null,
+    send_reminders: true,
+    send_roster: true,
+    roster_sent_at: null,
+    results_followup_stage: 0,
+    proposed_event_date: null,
+    proposed_start_time: null,
+    proposed_start_location: null,
+    review_note: null,
+    reviewed_at: null,
+    reviewed_by: null,
   },
 ]
 
@@ -65,11 +89,23 @@ export const mockPermanentEvent: Event = {
   route_id: 'route-1',
   description: null,
   image_url: null,
-  collection: null,
+  max_riders: null,
+  series_id: null,
   season: 2025,
   created_at: null,
   updated_at: null,
   external_register_url: null,
+  homologation_file_path: null,
   registration_opens_at: null,
   registration_closes_at: null,
+  send_reminders: true,
+  send_roster: true,
+  roster_sent_at: null,
+  results_followup_stage: 0,
+  proposed_event_date: null,
+  proposed_start_time: null,
+  proposed_start_location: null,
+  review_note: null,
+  reviewed_at: null,
+  reviewed_by: null,
 }
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Integration tests for rider account actions (magic link sign-in and the
+ * self-service profile).
+ */
+
+let mockAdminRecord: { id: string } | null = null
+let mockOtpError: Error | null = null
+let mockUpdateError: { code: string; message: string } | null = null
+let mockInsertError: { code: string; message: string } | null = null
+let mockRider: {
+  id: string
+  slug: string
+  first_name: string
+  last_name: string
+  email: string | null
+  gender: string | null
+  emergency_contact_name: string | null
+  emergency_contact_phone: string | null
+  profile_visibility: string
+  exclude_from_records: boolean
+} | null = null
+
+const mockSignInWithOtp = vi.fn(() => Promise.resolve({ error: mockOtpError }))
+const mockRiderUpdate = vi.fn()
+const mockInsert = vi.fn()
+
+vi.mock('@/lib/supabase-server-client', () => ({
+  createSupabaseServerClient: vi.fn(() =>
+    Promise.resolve({
+      auth: {
+        signInWithOtp: mockSignInWithOtp,
+        signOut: vi.fn(() => Promise.resolve({ error: null })),
+      },
+    })
+  ),
+}))
+
+vi.mock('@/lib/supabase-server', () => ({
+  getSupabaseAdmin: vi.fn(() => ({
+    from: vi.fn(() => ({
+      select: vi.fn(() => ({
+        eq: vi.fn(() => ({
+          maybeSingle: vi.fn(() => Promise.resolve({ data: mockAdminRecord, error: null })),
+        })),
+      })),
+      update: vi.fn((data: unknown) => {
+        mockRiderUpdate(data)
+        return {
+          eq: vi.fn(() => Promise.resolve({ error: mockUpdateError })),
+        }
+      }),
+      insert: vi.fn((data: unknown) => {
+        mockInsert(data)
+        return Promise.resolve({ error: mockInsertError })
+      }),
+    })),
+  })),
+}))
+
+vi.mock('@/lib/auth/get-rider', () => ({
+  getRider: vi.fn(() => Promise.resolve(mockRider)),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+  revalidateTag: vi.fn(),
+}))
+
+vi.mock('next/navigation', () => ({
+  redirect: vi.fn(),
+}))
+
+// Import after mocks are set up
+import {
+  getAccountRegistrationDetails,
+  requestRiderErasure,
+  requestRiderMagicLink,
+  updateAccountProfile,
+} from '@/lib/actions/account'
+
+function resetMockState() {
+  mockAdminRecord = null
+  mockOtpError = null
+  mockUpdateError = null
+  mockInsertError = null
+  mockRider = {
+    id: 'rider-1',
+    slug: 'john-doe',
+    first_name: 'John',
+    last_name: 'Doe',
+    email: 'john@example.com',
+    gender: 'M',
+    emergency_contact_name: 'Jane Doe',
+    emergency_contact_phone: null,
+    profile_visibility: 'public',
+    exclude_from_records: false,
+  }
+  vi.clearAllMocks()
+}
+
+describe('requestRiderMagicLink', () => {
+  beforeEach(() => {
+    resetMockState()
+  })
+
+  it('sends a link that returns to the callback with the next page', async () => {
+    const result = await requestRiderMagicLink('  John@Example.com ', '/register/spring-200')
+
+    expect(result.success).toBe(true)
+    expect(mockSignInWithOtp).toHaveBeenCalledWith({
+      email: 'john@example.com',
+      options: {
+        emailRedirectTo: expect.stringContaining('/account/callback?next=%2Fregister%2Fspring-200'),
+        shouldCreateUser: true,
+      },
+    })
+  })
+
+  it('ignores off-site next pages', async () => {
+    await requestRiderMagicLink('john@example.com', '//evil.example.com')
+
+    expect(mockSignInWithOtp).toHaveBeenCalledWith(
+      expect.objectContaining({
+        options: expect.objectContaining({
+          emailRedirectTo: expect.stringContaining('next=%2Faccount'),
+        }),
+      })
+    )
+  })
+
+  it('rejects invalid emails', async () => {
+    const result = await requestRiderMagicLink('not-an-email')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Please enter a valid email address')
+    expect(mockSignInWithOtp).not.toHaveBeenCalled()
+  })
+
+  it('refuses admin emails', async () => {
+    mockAdminRecord = { id: 'admin-1' }
+
+    const result = await requestRiderMagicLink('admin@example.com')
+
+    expect(result.success).toBe(false)
+    expect(mockSignInWithOtp).not.toHaveBeenCalled()
+  })
+
+  it('returns auth errors', async () => {
+    mockOtpError = new Error('Email rate limit exceeded')
+
+    const result = await requestRiderMagicLink('john@example.com')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Email rate limit exceeded')
+  })
+})
+
+describe('getAccountRegistrationDetails', () => {
+  beforeEach(() => {
+    resetMockState()
+  })
+
+  it('returns the signed-in rider details', async () => {
+    const result = await getAccountRegistrationDetails()
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john@example.com',
+        gender: 'M',
+        emergencyContactName: 'Jane Doe',
+        emergencyContactPhone: '',
+      },
+    })
+  })
+
+  it('returns null when no rider is signed in', async () => {
+    mockRider = null
+
+    const result = await getAccountRegistrationDetails()
+
+    expect(result).toEqual({ success: true, data: null })
+  })
+})
+
+describe('updateAccountProfile', () => {
+  const profile = {
+    gender: 'F',
+    emergencyContactName: ' Sam Doe ',
+    emergencyContactPhone: '',
+    profileVisibility: 'initials' as const,
+    excludeFromRecords: true,
+  }
+
+  beforeEach(() => {
+    resetMockState()
+  })
+
+  it('updates the signed-in rider', async () => {
+    const result = await updateAccountProfile(profile)
+
+    expect(result.success).toBe(true)
+    expect(mockRiderUpdate).toHaveBeenCalledWith({
+      gender: 'F',
+      emergency_contact_name: 'Sam Doe',
+      emergency_contact_phone: null,
+      profile_visibility: 'initials',
+      exclude_from_records: true,
+    })
+  })
+
+  it('requires a signed-in rider', async () => {
+    mockRider = null
+
+    const result = await updateAccountProfile(profile)
+
+    expect(result.success).toBe(false)
+    expect(mockRiderUpdate).not.toHaveBeenCalled()
+  })
+
+  it('rejects invalid gender', async () => {
+    const result = await updateAccountProfile({ ...profile, gender: 'Q' })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Invalid gender')
+  })
+
+  it('rejects unknown visibility settings', async () => {
+    const result = await updateAccountProfile({
+      ...profile,
+      profileVisibility: 'friends' as unknown as 'public',
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Invalid profile visibility')
+    expect(mockRiderUpdate).not.toHaveBeenCalled()
+  })
+
+  it('returns an error when the update fails', async () => {
+    mockUpdateError = { code: '42501', message: 'permission denied' }
+
+    const result = await updateAccountProfile(profile)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Failed to update your profile')
+  })
+})
+
+describe('requestRiderErasure', () => {
+  beforeEach(() => {
+    resetMockState()
+  })
+
+  it('records a pending erasure request for the signed-in rider', async () => {
+    const result = await requestRiderErasure(' Moving away ')
+
+    expect(result.success).toBe(true)
+    expect(mockInsert).toHaveBeenCalledWith({
+      rider_id: 'rider-1',
+      request_type: 'erasure',
+      note: 'Moving away',
+    })
+  })
+
+  it('requires a signed-in rider', async () => {
+    mockRider = null
+
+    const result = await requestRiderErasure('')
+
+    expect(result.success).toBe(false)
+    expect(mockInsert).not.toHaveBeenCalled()
+  })
+
+  it('explains when a request is already pending', async () => {
+    mockInsertError = { code: '23505', message: 'duplicate key value' }
+
+    const result = await requestRiderErasure('')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('You already have an erasure request pending')
+  })
+})
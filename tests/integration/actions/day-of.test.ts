@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Integration tests for the day-of console: syncing queued check-ins and
+ * marking riders who never checked in as DNS.
+ */
+
+let mockEvent: Record<string, unknown> | null = null
+let mockUncheckedRegistrations: Array<{ rider_id: string }> = []
+let mockResults: Array<{ id: string; rider_id: string; status: string }> = []
+let mockUpdatedRows: Array<{ id: string }> = []
+
+const mockInsert = vi.fn()
+const mockUpdate = vi.fn()
+const mockEq = vi.fn()
+
+function createBuilder(table: string) {
+  const builder: Record<string, unknown> = {}
+  for (const method of ['select', 'in', 'is']) {
+    builder[method] = vi.fn(() => builder)
+  }
+  builder.eq = vi.fn((column: string, value: unknown) => {
+    mockEq(table, column, value)
+    return builder
+  })
+  builder.insert = vi.fn((rows: unknown) => {
+    mockInsert(table, rows)
+    return builder
+  })
+  builder.update = vi.fn((data: unknown) => {
+    mockUpdate(table, data)
+    return builder
+  })
+  builder.single = vi.fn(() => Promise.resolve({ data: mockEvent, error: null }))
+  builder.then = (resolve: (value: unknown) => void) => {
+    if (table === 'registrations') {
+      const data = mockUpdate.mock.calls.length ? mockUpdatedRows : mockUncheckedRegistrations
+      return resolve({ data, error: null })
+    }
+    return resolve({ data: mockResults, error: null })
+  }
+  return builder
+}
+
+vi.mock('@/lib/supabase-server', () => ({
+  getSupabaseAdmin: vi.fn(() => ({
+    from: vi.fn((table: string) => createBuilder(table)),
+  })),
+}))
+
+vi.mock('@/lib/auth/get-admin', () => ({
+  requireAdmin: vi.fn(() =>
+    Promise.resolve({
+      id: 'admin-1',
+      email: 'admin@test.com',
+      name: 'Admin',
+      role: 'chapter_admin',
+    })
+  ),
+}))
+
+vi.mock('@/lib/audit-log', () => ({
+  logAuditEvent: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+  revalidateTag: vi.fn(),
+}))
+
+// Import after mocks are set up
+import { markNonStartersDns, syncCheckIns } from '@/lib/actions/day-of'
+import { logAuditEvent } from '@/lib/audit-log'
+import { revalidateTag } from 'next/cache'
+
+function resetMockState() {
+  mockEvent = {
+    name: 'Spring 200',
+    status: 'scheduled',
+    event_date: '2026-05-02',
+    season: 2026,
+    distance_km: 200,
+    chapters: { slug: 'toronto' },
+  }
+  mockUncheckedRegistrations = []
+  mockResults = []
+  mockUpdatedRows = [{ id: 'reg-1' }]
+  vi.clearAllMocks()
+}
+
+describe('syncCheckIns', () => {
+  beforeEach(() => {
+    resetMockState()
+  })
+
+  it('saves each check-in with the time it was made', async () => {
+    const result = await syncCheckIns('event-1', [
+      { registrationId: 'reg-1', checkedInAt: '2026-05-02T10:58:00.000Z' },
+    ])
+
+    expect(result.success).toBe(true)
+    expect(result.data?.synced).toBe(1)
+    expect(mockUpdate).toHaveBeenCalledWith('registrations', {
+      checked_in_at: '2026-05-02T10:58:00.000Z',
+      checked_in_by: 'admin-1',
+    })
+    expect(mockEq).toHaveBeenCalledWith('registrations', 'event_id', 'event-1')
+  })
+
+  it('clears undone check-ins', async () => {
+    await syncCheckIns('event-1', [{ registrationId: 'reg-1', checkedInAt: null }])
+
+    expect(mockUpdate).toHaveBeenCalledWith('registrations', {
+      checked_in_at: null,
+      checked_in_by: null,
+    })
+  })
+
+  it('clamps check-in times from the future to now', async () => {
+    const before = Date.now()
+
+    await syncCheckIns('event-1', [
+      { registrationId: 'reg-1', checkedInAt: '2099-01-01T00:00:00.000Z' },
+    ])
+
+    const saved = mockUpdate.mock.calls[0][1] as { checked_in_at: string }
+    expect(new Date(saved.checked_in_at).getTime()).toBeGreaterThanOrEqual(before)
+    expect(new Date(saved.checked_in_at).getTime()).toBeLessThanOrEqual(Date.now())
+  })
+
+  it('skips changes with an unreadable time', async () => {
+    const result = await syncCheckIns('event-1', [
+      { registrationId: 'reg-1', checkedInAt: 'not a date' },
+    ])
+
+    expect(result.success).toBe(true)
+    expect(result.data?.synced).toBe(0)
+    expect(mockUpdate).not.toHaveBeenCalled()
+  })
+})
+
+describe('markNonStartersDns', () => {
+  beforeEach(() => {
+    resetMockState()
+  })
+
+  it('adds DNS results and converts pending ones, leaving entered results alone', async () => {
+    mockUncheckedRegistrations = [
+      { rider_id: 'rider-1' },
+      { rider_id: 'rider-2' },
+      { rider_id: 'rider-3' },
+    ]
+    mockResults = [
+      { id: 'result-2', rider_id: 'rider-2', status: 'pending' },
+      { id: 'result-3', rider_id: 'rider-3', status: 'finished' },
+    ]
+
+    const result = await markNonStartersDns('event-1')
+
+    expect(result.success).toBe(true)
+    expect(result.data?.marked).toBe(2)
+    expect(mockInsert).toHaveBeenCalledWith('results', [
+      { event_id: 'event-1', rider_id: 'rider-1', status: 'dns', season: 2026, distance_km: 200 },
+    ])
+    expect(mockUpdate).toHaveBeenCalledWith('results', { status: 'dns' })
+    expect(logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'update',
+        entityType: 'result',
+        description: 'Marked 2 riders DNS for Spring 200 (not checked in)',
+      })
+    )
+    expect(revalidateTag).toHaveBeenCalledWith('results', 'max')
+  })
+
+  it('does nothing when everyone checked in', async () => {
+    const result = await markNonStartersDns('event-1')
+
+    expect(result.success).toBe(true)
+    expect(result.data?.marked).toBe(0)
+    expect(mockInsert).not.toHaveBeenCalled()
+    expect(logAuditEvent).not.toHaveBeenCalled()
+  })
+
+  it('refuses before the event day', async () => {
+    mockEvent = { ...mockEvent, event_date: '2099-05-02' }
+
+    const result = await markNonStartersDns('event-1')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Riders can only be marked DNS once the event has started')
+    expect(mockInsert).not.toHaveBeenCalled()
+  })
+
+  it('refuses for cancelled events', async () => {
+    mockEvent = { ...mockEvent, status: 'cancelled' }
+
+    const result = await markNonStartersDns('event-1')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Riders can only be marked DNS for scheduled or completed events')
+    expect(mockInsert).not.toHaveBeenCalled()
+  })
+
+  it('uses the Toronto date, not the UTC date', async () => {
+    // 9 PM in Toronto on May 1 is already May 2 in UTC
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-05-02T01:00:00Z'))
+
+    const result = await markNonStartersDns('event-1')
+
+    vi.useRealTimers()
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Riders can only be marked DNS once the event has started')
+  })
+
+  it('returns an error for unknown events', async () => {
+    mockEvent = null
+
+    const result = await markNonStartersDns('missing')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Event not found')
+  })
+})
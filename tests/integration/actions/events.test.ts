@@ -280,6 +280,21 @@ describe('createEvent', () => {
       expect(result.success).toBe(false)
       expect(result.error).toBe('Missing required fields')
     })
+
+    it('returns error when registration closes before it opens', async () => {
+      const result = await createEvent({
+        name: 'Test Brevet',
+        chapterId: 'chapter-1',
+        eventType: 'brevet',
+        distanceKm: 200,
+        eventDate: '2025-06-15',
+        registrationOpensAt: '2025-06-10T12:00:00.000Z',
+        registrationClosesAt: '2025-06-01T12:00:00.000Z',
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Registration must open before it closes')
+    })
   })
 
   describe('successful creation', () => {
@@ -0,0 +1,331 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Integration tests for rider self-service registration management.
+ *
+ * These tests focus on:
+ * 1. Token and input validation
+ * 2. Guard conditions (cancelled, past events, shared permanents)
+ * 3. Audit logging and VP notification on change
+ * 4. Accepting a route coordinator's proposal for a permanent request
+ */
+
+vi.mock('@/lib/supabase-server', () => {
+  const queryBuilder: Record<string, ReturnType<typeof vi.fn>> = {}
+  ;['select', 'eq', 'neq', 'update'].forEach((method) => {
+    queryBuilder[method] = vi.fn(() => queryBuilder)
+  })
+  queryBuilder.single = vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } })
+  queryBuilder.then = vi.fn((resolve) => resolve({ data: null, error: null, count: 0 }))
+
+  return {
+    getSupabaseAdmin: vi.fn(() => ({
+      from: vi.fn(() => queryBuilder),
+    })),
+    __queryBuilder: queryBuilder,
+  }
+})
+
+vi.mock('@/lib/audit-log', () => ({
+  logAuditEvent: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('@/lib/registrations/waitlist', () => ({
+  promoteFromWaitlist: vi.fn().mockResolvedValue(null),
+}))
+
+vi.mock('@/lib/email/send-registration-email', () => ({
+  sendRegistrationChangeNotification: vi.fn().mockResolvedValue({ success: true }),
+}))
+
+vi.mock('@/lib/events/permanent-requests', () => ({
+  approvePermanent: vi.fn().mockResolvedValue({
+    success: true,
+    event: { id: 'event-1', slug: 'permanent-spring-200-2099-06-08' },
+  }),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+  revalidateTag: vi.fn(),
+}))
+
+// Import after mocks
+import {
+  getRegistrationByToken,
+  cancelRegistrationByToken,
+  updateRegistrationStartTime,
+  updateRegistrationEmergencyContact,
+  acceptPermanentProposal,
+} from '@/lib/actions/manage-registration'
+import { logAuditEvent } from '@/lib/audit-log'
+import { approvePermanent } from '@/lib/events/permanent-requests'
+import { promoteFromWaitlist } from '@/lib/registrations/waitlist'
+import { sendRegistrationChangeNotification } from '@/lib/email/send-registration-email'
+
+const { __queryBuilder: queryBuilder } = await vi.importMock<{
+  __queryBuilder: Record<string, ReturnType<typeof vi.fn>>
+}>('@/lib/supabase-server')
+
+function mockRegistration(
+  overrides: {
+    status?: string
+    eventType?: string
+    eventDate?: string
+    eventStatus?: string
+    proposedEventDate?: string | null
+  } = {}
+) {
+  queryBuilder.single.mockResolvedValueOnce({
+    data: {
+      id: 'reg-1',
+      event_id: 'event-1',
+      rider_id: 'rider-1',
+      status: overrides.status ?? 'registered',
+      events: {
+        id: 'event-1',
+        slug: 'spring-200',
+        name: 'Spring 200',
+        event_date: overrides.eventDate ?? '2099-06-01',
+        start_time: '07:00:00',
+        start_location: 'Tim Hortons',
+        distance_km: 200,
+        event_type: overrides.eventType ?? 'brevet',
+        status: overrides.eventStatus ?? 'scheduled',
+        proposed_event_date: overrides.proposedEventDate ?? null,
+        proposed_start_time: null,
+        proposed_start_location: null,
+        review_note: overrides.proposedEventDate ? 'The start control is closed that day' : null,
+        chapters: { name: 'Toronto', slug: 'toronto' },
+      },
+      riders: {
+        first_name: 'Jane',
+        last_name: 'Rider',
+        email: 'jane@example.com',
+        emergency_contact_name: 'John Rider',
+        emergency_contact_phone: '555-1234',
+        calendar_token: 'calendar-token-1',
+      },
+    },
+    error: null,
+  })
+}
+
+function mockOtherRegistrations(count: number) {
+  queryBuilder.then.mockImplementationOnce((resolve) => resolve({ data: null, error: null, count }))
+}
+
+describe('manage registration actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    queryBuilder.single.mockResolvedValue({ data: null, error: { code: 'PGRST116' } })
+    queryBuilder.then.mockImplementation((resolve) =>
+      resolve({ data: null, error: null, count: 0 })
+    )
+  })
+
+  describe('getRegistrationByToken', () => {
+    it('returns error for an empty token', async () => {
+      const result = await getRegistrationByToken('')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Invalid registration link')
+    })
+
+    it('returns error for an unknown token', async () => {
+      const result = await getRegistrationByToken('unknown')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Registration not found or invalid link')
+    })
+
+    it('allows changes to an upcoming registration', async () => {
+      mockRegistration()
+
+      const result = await getRegistrationByToken('token-1')
+
+      expect(result.success).toBe(true)
+      expect(result.data?.canChange).toBe(true)
+      expect(result.data?.canChangeStartTime).toBe(false)
+      expect(result.data?.startTime).toBe('07:00')
+      expect(result.data?.calendarToken).toBe('calendar-token-1')
+    })
+
+    it('blocks changes after the event date', async () => {
+      mockRegistration({ eventDate: '2000-01-01' })
+
+      const result = await getRegistrationByToken('token-1')
+
+      expect(result.data?.canChange).toBe(false)
+    })
+
+    it('allows start time changes on an unshared permanent', async () => {
+      mockRegistration({ eventType: 'permanent' })
+      mockOtherRegistrations(0)
+
+      const result = await getRegistrationByToken('token-1')
+
+      expect(result.data?.isPermanent).toBe(true)
+      expect(result.data?.canChangeStartTime).toBe(true)
+    })
+
+    it('shows a permanent request awaiting approval with its proposal', async () => {
+      mockRegistration({
+        eventType: 'permanent',
+        eventStatus: 'requested',
+        proposedEventDate: '2099-06-08',
+      })
+
+      const result = await getRegistrationByToken('token-1')
+
+      expect(result.data?.canChange).toBe(true)
+      expect(result.data?.awaitingApproval).toBe(true)
+      expect(result.data?.proposal).toEqual({
+        eventDate: '2099-06-08',
+        startTime: '07:00',
+        startLocation: 'Tim Hortons',
+        note: 'The start control is closed that day',
+      })
+    })
+  })
+
+  describe('acceptPermanentProposal', () => {
+    it('returns error when there is no proposal', async () => {
+      mockRegistration({ eventType: 'permanent', eventStatus: 'requested' })
+
+      const result = await acceptPermanentProposal('token-1')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('There is no proposed change to accept')
+      expect(approvePermanent).not.toHaveBeenCalled()
+    })
+
+    it('approves the request with the proposed details and logs the change', async () => {
+      mockRegistration({
+        eventType: 'permanent',
+        eventStatus: 'requested',
+        proposedEventDate: '2099-06-08',
+      })
+
+      const result = await acceptPermanentProposal('token-1')
+
+      expect(result.success).toBe(true)
+      expect(approvePermanent).toHaveBeenCalledWith('event-1', {
+        reviewedBy: null,
+        eventDate: '2099-06-08',
+        startTime: '07:00',
+        startLocation: 'Tim Hortons',
+        note: 'The start control is closed that day',
+      })
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ adminId: null, entityType: 'registration' })
+      )
+      expect(sendRegistrationChangeNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ changeLabel: 'Proposal Accepted' })
+      )
+    })
+  })
+
+  describe('cancelRegistrationByToken', () => {
+    it('returns error when already cancelled', async () => {
+      mockRegistration({ status: 'cancelled' })
+
+      const result = await cancelRegistrationByToken('token-1')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('This registration can no longer be changed')
+    })
+
+    it('cancels, promotes the waitlist, logs, and notifies the VP', async () => {
+      mockRegistration()
+
+      const result = await cancelRegistrationByToken('token-1')
+
+      expect(result.success).toBe(true)
+      expect(queryBuilder.update).toHaveBeenCalledWith({ status: 'cancelled' })
+      expect(promoteFromWaitlist).toHaveBeenCalledWith('event-1')
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          adminId: null,
+          action: 'status_change',
+          entityType: 'registration',
+          entityId: 'reg-1',
+        })
+      )
+      expect(sendRegistrationChangeNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ chapterSlug: 'toronto', changeLabel: 'Cancelled' })
+      )
+    })
+  })
+
+  describe('updateRegistrationStartTime', () => {
+    it('rejects an invalid time', async () => {
+      const result = await updateRegistrationStartTime('token-1', '25:00')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('Invalid start time')
+    })
+
+    it('rejects non-permanent events', async () => {
+      mockRegistration()
+
+      const result = await updateRegistrationStartTime('token-1', '06:00')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Start times can only be changed for permanent rides')
+    })
+
+    it('rejects permanents shared with other riders', async () => {
+      mockRegistration({ eventType: 'permanent' })
+      mockOtherRegistrations(1)
+
+      const result = await updateRegistrationStartTime('token-1', '06:00')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('Other riders are registered')
+    })
+
+    it('updates the start time of an unshared permanent', async () => {
+      mockRegistration({ eventType: 'permanent' })
+      mockOtherRegistrations(0)
+
+      const result = await updateRegistrationStartTime('token-1', '06:00')
+
+      expect(result.success).toBe(true)
+      expect(queryBuilder.update).toHaveBeenCalledWith({ start_time: '06:00' })
+      expect(sendRegistrationChangeNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ changes: ['Start time: 7:00 AM → 6:00 AM'] })
+      )
+    })
+  })
+
+  describe('updateRegistrationEmergencyContact', () => {
+    it('requires both name and phone', async () => {
+      const result = await updateRegistrationEmergencyContact('token-1', {
+        name: 'John',
+        phone: '  ',
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Emergency contact name and phone are required')
+    })
+
+    it('updates the rider emergency contact', async () => {
+      mockRegistration()
+
+      const result = await updateRegistrationEmergencyContact('token-1', {
+        name: ' Mary Rider ',
+        phone: '555-9876',
+      })
+
+      expect(result.success).toBe(true)
+      expect(queryBuilder.update).toHaveBeenCalledWith({
+        emergency_contact_name: 'Mary Rider',
+        emergency_contact_phone: '555-9876',
+      })
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ adminId: null, action: 'update' })
+      )
+    })
+  })
+})
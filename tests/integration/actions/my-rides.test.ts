@@ -1,10 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 // Mock supabase before imports
-const mockSingle = vi.fn()
-const mockEq = vi.fn()
-const mockSelect = vi.fn()
 const mockFrom = vi.fn()
+const mockGetRider = vi.fn()
 
 vi.mock('@/lib/supabase-server', () => ({
   getSupabaseAdmin: vi.fn(() => ({
@@ -12,20 +10,13 @@ vi.mock('@/lib/supabase-server', () => ({
   })),
 }))
 
+vi.mock('@/lib/auth/get-rider', () => ({
+  getRider: () => mockGetRider(),
+}))
+
 import { getMyUpcomingRides } from '@/lib/actions/my-rides'
 
-function setupRiderLookup(rider: { id: string } | null) {
-  // First .from('riders') call chain: .select().eq().single()
-  const riderChain = {
-    select: vi.fn().mockReturnThis(),
-    eq: vi.fn().mockReturnThis(),
-    single: vi.fn().mockResolvedValue({
-      data: rider,
-      error: rider ? null : { code: 'PGRST116' },
-    }),
-  }
-  return riderChain
-}
+const signedInRider = { id: 'rider-1', first_name: 'John', last_name: 'Doe' }
 
 function setupRegistrationsQuery(registrations: unknown[] | null, error: unknown = null) {
   const regChain = {
@@ -49,50 +40,36 @@ function setupRegistrationsQuery(registrations: unknown[] | null, error: unknown
 describe('getMyUpcomingRides', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockGetRider.mockResolvedValue(signedInRider)
   })
 
-  it('returns [] for empty email', async () => {
-    const result = await getMyUpcomingRides('')
+  it('returns null when no rider is signed in', async () => {
+    mockGetRider.mockResolvedValue(null)
 
-    expect(result.success).toBe(true)
-    expect(result.data).toEqual([])
-    expect(mockFrom).not.toHaveBeenCalled()
-  })
-
-  it('returns [] for whitespace-only email', async () => {
-    const result = await getMyUpcomingRides('   ')
+    const result = await getMyUpcomingRides()
 
     expect(result.success).toBe(true)
-    expect(result.data).toEqual([])
-  })
-
-  it('returns [] for unknown email', async () => {
-    const riderChain = setupRiderLookup(null)
-    mockFrom.mockReturnValue(riderChain)
-
-    const result = await getMyUpcomingRides('unknown@example.com')
-
-    expect(result.success).toBe(true)
-    expect(result.data).toEqual([])
+    expect(result.data).toBeNull()
+    expect(mockFrom).not.toHaveBeenCalled()
   })
 
-  it('normalizes email to lowercase and trims', async () => {
-    const riderChain = setupRiderLookup(null)
-    mockFrom.mockReturnValue(riderChain)
+  it('looks up registrations for the signed-in rider', async () => {
+    const regChain = setupRegistrationsQuery([])
+    mockFrom.mockReturnValue(regChain)
 
-    await getMyUpcomingRides('  John@Example.COM  ')
+    const result = await getMyUpcomingRides()
 
-    expect(riderChain.eq).toHaveBeenCalledWith('email', 'john@example.com')
+    expect(regChain.eq).toHaveBeenCalledWith('rider_id', 'rider-1')
+    expect(result.data).toEqual({ firstName: 'John', rides: [] })
   })
 
   it('returns upcoming events for a known rider', async () => {
-    const riderChain = setupRiderLookup({ id: 'rider-1' })
     const regChain = setupRegistrationsQuery([
       {
         events: {
-          slug: 'test-ride-200km-2026-04-15',
+          slug: 'test-ride-200km-2099-04-15',
           name: 'Test Ride',
-          event_date: '2026-04-15',
+          event_date: '2099-04-15',
           distance_km: 200,
           start_time: '07:00',
           start_location: 'City Hall',
@@ -102,9 +79,9 @@ describe('getMyUpcomingRides', () => {
       },
       {
         events: {
-          slug: 'spring-ride-100km-2026-05-01',
+          slug: 'spring-ride-100km-2099-05-01',
           name: 'Spring Ride',
-          event_date: '2026-05-01',
+          event_date: '2099-05-01',
           distance_km: 100,
           start_time: '08:00',
           start_location: 'Park',
@@ -114,31 +91,25 @@ describe('getMyUpcomingRides', () => {
       },
     ])
 
-    let fromCallCount = 0
-    mockFrom.mockImplementation(() => {
-      fromCallCount++
-      if (fromCallCount === 1) return riderChain
-      return regChain
-    })
+    mockFrom.mockReturnValue(regChain)
 
-    const result = await getMyUpcomingRides('test@example.com')
+    const result = await getMyUpcomingRides()
 
     expect(result.success).toBe(true)
-    expect(result.data).toHaveLength(2)
-    expect(result.data![0]).toEqual({
-      slug: 'test-ride-200km-2026-04-15',
+    expect(result.data!.rides).toHaveLength(2)
+    expect(result.data!.rides[0]).toEqual({
+      slug: 'test-ride-200km-2099-04-15',
       name: 'Test Ride',
-      date: '2026-04-15',
+      date: '2099-04-15',
       distance: 200,
       startTime: '07:00',
       startLocation: 'City Hall',
       chapterName: 'Toronto',
     })
-    expect(result.data![1].name).toBe('Spring Ride')
+    expect(result.data!.rides[1].name).toBe('Spring Ride')
   })
 
   it('excludes past events', async () => {
-    const riderChain = setupRiderLookup({ id: 'rider-1' })
     const regChain = setupRegistrationsQuery([
       {
         events: {
@@ -154,27 +125,21 @@ describe('getMyUpcomingRides', () => {
       },
     ])
 
-    let fromCallCount = 0
-    mockFrom.mockImplementation(() => {
-      fromCallCount++
-      if (fromCallCount === 1) return riderChain
-      return regChain
-    })
+    mockFrom.mockReturnValue(regChain)
 
-    const result = await getMyUpcomingRides('test@example.com')
+    const result = await getMyUpcomingRides()
 
     expect(result.success).toBe(true)
-    expect(result.data).toEqual([])
+    expect(result.data!.rides).toEqual([])
   })
 
   it('excludes cancelled events', async () => {
-    const riderChain = setupRiderLookup({ id: 'rider-1' })
     const regChain = setupRegistrationsQuery([
       {
         events: {
-          slug: 'cancelled-ride-200km-2026-06-01',
+          slug: 'cancelled-ride-200km-2099-06-01',
           name: 'Cancelled Ride',
-          event_date: '2026-06-01',
+          event_date: '2099-06-01',
           distance_km: 200,
           start_time: '07:00',
           start_location: 'City Hall',
@@ -184,27 +149,21 @@ describe('getMyUpcomingRides', () => {
       },
     ])
 
-    let fromCallCount = 0
-    mockFrom.mockImplementation(() => {
-      fromCallCount++
-      if (fromCallCount === 1) return riderChain
-      return regChain
-    })
+    mockFrom.mockReturnValue(regChain)
 
-    const result = await getMyUpcomingRides('test@example.com')
+    const result = await getMyUpcomingRides()
 
     expect(result.success).toBe(true)
-    expect(result.data).toEqual([])
+    expect(result.data!.rides).toEqual([])
   })
 
   it('sorts results by date ascending', async () => {
-    const riderChain = setupRiderLookup({ id: 'rider-1' })
     const regChain = setupRegistrationsQuery([
       {
         events: {
           slug: 'later-ride',
           name: 'Later Ride',
-          event_date: '2026-08-01',
+          event_date: '2099-08-01',
           distance_km: 300,
           start_time: '06:00',
           start_location: 'Start',
@@ -216,7 +175,7 @@ describe('getMyUpcomingRides', () => {
         events: {
           slug: 'earlier-ride',
           name: 'Earlier Ride',
-          event_date: '2026-04-01',
+          event_date: '2099-04-01',
           distance_km: 200,
           start_time: '07:00',
           start_location: 'Start',
@@ -226,29 +185,23 @@ describe('getMyUpcomingRides', () => {
       },
     ])
 
-    let fromCallCount = 0
-    mockFrom.mockImplementation(() => {
-      fromCallCount++
-      if (fromCallCount === 1) return riderChain
-      return regChain
-    })
+    mockFrom.mockReturnValue(regChain)
 
-    const result = await getMyUpcomingRides('test@example.com')
+    const result = await getMyUpcomingRides()
 
     expect(result.success).toBe(true)
-    expect(result.data).toHaveLength(2)
-    expect(result.data![0].name).toBe('Earlier Ride')
-    expect(result.data![1].name).toBe('Later Ride')
+    expect(result.data!.rides).toHaveLength(2)
+    expect(result.data!.rides[0].name).toBe('Earlier Ride')
+    expect(result.data!.rides[1].name).toBe('Later Ride')
   })
 
   it('defaults start_time and start_location when null', async () => {
-    const riderChain = setupRiderLookup({ id: 'rider-1' })
     const regChain = setupRegistrationsQuery([
       {
         events: {
           slug: 'minimal-ride',
           name: 'Minimal Ride',
-          event_date: '2026-06-01',
+          event_date: '2099-06-01',
           distance_km: 200,
           start_time: null,
           start_location: null,
@@ -258,18 +211,13 @@ describe('getMyUpcomingRides', () => {
       },
     ])
 
-    let fromCallCount = 0
-    mockFrom.mockImplementation(() => {
-      fromCallCount++
-      if (fromCallCount === 1) return riderChain
-      return regChain
-    })
+    mockFrom.mockReturnValue(regChain)
 
-    const result = await getMyUpcomingRides('test@example.com')
+    const result = await getMyUpcomingRides()
 
     expect(result.success).toBe(true)
-    expect(result.data![0].startTime).toBe('08:00')
-    expect(result.data![0].startLocation).toBe('')
-    expect(result.data![0].chapterName).toBe('')
+    expect(result.data!.rides[0].startTime).toBe('08:00')
+    expect(result.data!.rides[0].startLocation).toBe('')
+    expect(result.data!.rides[0].chapterName).toBe('')
   })
 })
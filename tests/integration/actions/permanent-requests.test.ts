@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Integration tests for the permanent request review actions.
+ *
+ * These tests focus on:
+ * 1. Input validation for approve, reject and propose
+ * 2. Status guards (a request can only be reviewed while 'requested')
+ * 3. Control snapshots and rider emails for each decision
+ * 4. Expiring requests that were never reviewed
+ */
+
+vi.mock('@/lib/supabase-server', () => {
+  const queryBuilder: Record<string, ReturnType<typeof vi.fn>> = {}
+  ;['select', 'eq', 'neq', 'lt', 'or', 'update', 'insert'].forEach((method) => {
+    queryBuilder[method] = vi.fn(() => queryBuilder)
+  })
+  queryBuilder.maybeSingle = vi.fn().mockResolvedValue({ data: null, error: null })
+  queryBuilder.then = vi.fn((resolve) => resolve({ data: null, error: null }))
+
+  return {
+    getSupabaseAdmin: vi.fn(() => ({
+      from: vi.fn(() => queryBuilder),
+    })),
+    __queryBuilder: queryBuilder,
+  }
+})
+
+vi.mock('@/lib/auth/get-admin', () => ({
+  requireAdmin: vi
+    .fn()
+    .mockResolvedValue({ id: 'admin-1', email: 'admin@test.com', name: 'Test Admin' }),
+}))
+
+vi.mock('@/lib/audit-log', () => ({
+  logAuditEvent: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('@/lib/events/event-controls', () => ({
+  getEventControls: vi.fn().mockResolvedValue({
+    controls: [
+      { name: 'Start', distance: 0, address: null, controlType: 'staffed', infoQuestion: null },
+      { name: 'Finish', distance: 200, address: null, controlType: 'staffed', infoQuestion: null },
+    ],
+    source: 'route',
+  }),
+}))
+
+vi.mock('@/lib/email/send-registration-email', () => ({
+  sendPermanentRequestUpdateEmail: vi.fn().mockResolvedValue({ success: true }),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+  revalidateTag: vi.fn(),
+}))
+
+// Import after mocks
+import {
+  approvePermanentRequest,
+  proposePermanentChange,
+  rejectPermanentRequest,
+} from '@/lib/actions/permanent-requests'
+import { expirePermanentRequests } from '@/lib/events/permanent-requests'
+import { logAuditEvent } from '@/lib/audit-log'
+import { sendPermanentRequestUpdateEmail } from '@/lib/email/send-registration-email'
+
+const { __queryBuilder: queryBuilder } = await vi.importMock<{
+  __queryBuilder: Record<string, ReturnType<typeof vi.fn>>
+}>('@/lib/supabase-server')
+
+function makeRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'event-1',
+    slug: 'permanent-lakeshore-200-2099-06-01',
+    name: 'Lakeshore 200',
+    event_date: '2099-06-01',
+    start_time: '07:00:00',
+    start_location: null,
+    distance_km: 200,
+    event_type: 'permanent',
+    status: 'requested',
+    route_id: 'route-1',
+    proposed_event_date: null,
+    proposed_start_time: null,
+    proposed_start_location: null,
+    review_note: null,
+    chapters: { name: 'Toronto', slug: 'toronto' },
+    routes: { name: 'Lakeshore 200', slug: 'lakeshore-200' },
+    ...overrides,
+  }
+}
+
+const riderRegistrations = [
+  {
+    id: 'reg-1',
+    rider_id: 'rider-1',
+    status: 'registered',
+    manage_token: 'token-1',
+    riders: { first_name: 'Jane', last_name: 'Rider', email: 'jane@example.com' },
+  },
+]
+
+function mockRequest(request: ReturnType<typeof makeRequest> | null) {
+  queryBuilder.maybeSingle.mockResolvedValueOnce({ data: request, error: null })
+}
+
+/** Resolve the awaited queries in order: update, then any inserts and lookups. */
+function mockQueryResults(...results: unknown[]) {
+  for (const data of results) {
+    queryBuilder.then.mockImplementationOnce((resolve) => resolve({ data, error: null }))
+  }
+}
+
+describe('permanent request actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    queryBuilder.maybeSingle.mockResolvedValue({ data: null, error: null })
+    queryBuilder.then.mockImplementation((resolve) => resolve({ data: null, error: null }))
+  })
+
+  describe('approvePermanentRequest', () => {
+    it('rejects an invalid start time', async () => {
+      const result = await approvePermanentRequest('event-1', { startTime: '7am' })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('Invalid start time')
+    })
+
+    it('returns error when the request was already reviewed', async () => {
+      mockRequest(makeRequest({ status: 'scheduled' }))
+
+      const result = await approvePermanentRequest('event-1')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('This permanent request has already been reviewed')
+      expect(queryBuilder.update).not.toHaveBeenCalled()
+    })
+
+    it('schedules the ride, copies the route controls and emails control times', async () => {
+      mockRequest(makeRequest())
+      const approved = makeRequest({
+        status: 'scheduled',
+        start_location: 'Tim Hortons',
+        review_note: 'Start from the Tim Hortons',
+      })
+      mockQueryResults([approved], null, riderRegistrations)
+
+      const result = await approvePermanentRequest('event-1', {
+        startLocation: ' Tim Hortons ',
+        note: 'Start from the Tim Hortons',
+      })
+
+      expect(result.success).toBe(true)
+      expect(queryBuilder.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'scheduled',
+          start_location: 'Tim Hortons',
+          review_note: 'Start from the Tim Hortons',
+          reviewed_by: 'admin-1',
+        })
+      )
+      expect(queryBuilder.eq).toHaveBeenCalledWith('status', 'requested')
+      expect(queryBuilder.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ event_id: 'event-1', position: 0, name: 'Start' }),
+        expect.objectContaining({ event_id: 'event-1', position: 1, name: 'Finish' }),
+      ])
+      expect(sendPermanentRequestUpdateEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          decision: 'approved',
+          riderEmail: 'jane@example.com',
+          eventLocation: 'Tim Hortons',
+          manageUrl: expect.stringContaining('/register/manage/token-1'),
+          controls: [
+            expect.objectContaining({ name: 'Start', opens: 'Mon 07:00', closes: 'Mon 08:00' }),
+            expect.objectContaining({ name: 'Finish', opens: 'Mon 12:53', closes: 'Mon 20:30' }),
+          ],
+        })
+      )
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ adminId: 'admin-1', action: 'status_change' })
+      )
+    })
+  })
+
+  describe('rejectPermanentRequest', () => {
+    it('requires a reason', async () => {
+      const result = await rejectPermanentRequest('event-1', '  ')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Please give the rider a reason')
+    })
+
+    it('cancels the ride and emails riders the reason', async () => {
+      mockRequest(makeRequest())
+      mockQueryResults(
+        [makeRequest({ status: 'cancelled', review_note: 'Bridge closed' })],
+        riderRegistrations
+      )
+
+      const result = await rejectPermanentRequest('event-1', 'Bridge closed')
+
+      expect(result.success).toBe(true)
+      expect(queryBuilder.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'cancelled', review_note: 'Bridge closed' })
+      )
+      expect(sendPermanentRequestUpdateEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ decision: 'rejected', note: 'Bridge closed' })
+      )
+    })
+  })
+
+  describe('proposePermanentChange', () => {
+    it('requires at least one change', async () => {
+      const result = await proposePermanentChange('event-1', { note: 'Please move it' })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Propose a new date, start time or start location')
+    })
+
+    it('rejects a date in the past', async () => {
+      const result = await proposePermanentChange('event-1', {
+        eventDate: '2000-01-01',
+        note: 'Please move it',
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('The proposed date has already passed')
+    })
+
+    it('saves the proposal, keeps the request open and emails riders', async () => {
+      mockRequest(makeRequest())
+      mockQueryResults(
+        [makeRequest({ proposed_event_date: '2099-06-08', review_note: 'Bridge closed' })],
+        riderRegistrations
+      )
+
+      const result = await proposePermanentChange('event-1', {
+        eventDate: '2099-06-08',
+        note: 'Bridge closed',
+      })
+
+      expect(result.success).toBe(true)
+      expect(queryBuilder.update).toHaveBeenCalledWith(
+        expect.not.objectContaining({ status: expect.anything() })
+      )
+      expect(queryBuilder.update).toHaveBeenCalledWith(
+        expect.objectContaining({ proposed_event_date: '2099-06-08', proposed_start_time: null })
+      )
+      expect(sendPermanentRequestUpdateEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          decision: 'proposed',
+          proposed: expect.objectContaining({ eventDate: 'Monday, June 8, 2099' }),
+        })
+      )
+    })
+  })
+
+  describe('expirePermanentRequests', () => {
+    it('cancels requests whose date passed in Toronto and emails riders', async () => {
+      mockQueryResults(
+        [makeRequest({ event_date: '2026-05-01', status: 'cancelled' })],
+        riderRegistrations
+      )
+
+      // 9 PM in Toronto on May 2 is already May 3 in UTC
+      const expired = await expirePermanentRequests(new Date('2026-05-03T01:00:00Z'))
+
+      expect(expired).toBe(1)
+      expect(queryBuilder.eq).toHaveBeenCalledWith('status', 'requested')
+      expect(queryBuilder.lt).toHaveBeenCalledWith('event_date', '2026-05-02')
+      expect(queryBuilder.or).toHaveBeenCalledWith(
+        'proposed_event_date.is.null,proposed_event_date.lt.2026-05-02'
+      )
+      expect(queryBuilder.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'cancelled', reviewed_by: null })
+      )
+      expect(sendPermanentRequestUpdateEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ decision: 'rejected' })
+      )
+    })
+
+    it('does nothing when no requests have expired', async () => {
+      mockQueryResults([])
+
+      const expired = await expirePermanentRequests(new Date('2026-05-03T12:00:00Z'))
+
+      expect(expired).toBe(0)
+      expect(sendPermanentRequestUpdateEmail).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -24,6 +24,7 @@ vi.mock('@/lib/supabase-server', () => ({
 // Mock Next.js cache
 vi.mock('next/cache', () => ({
   revalidatePath: vi.fn(),
+  revalidateTag: vi.fn(),
 }))
 
 // Mock email sending
@@ -31,8 +32,18 @@ vi.mock('@/lib/email/send-registration-email', () => ({
   sendRegistrationConfirmationEmail: vi.fn().mockResolvedValue({ success: true }),
 }))
 
+vi.mock('@/lib/memberships/service', () => ({
+  getMembershipForRider: vi.fn().mockResolvedValue({ found: true, type: 'Individual' }),
+  isTrialUsed: vi.fn().mockResolvedValue(false),
+}))
+
+vi.mock('@/lib/registrations/waitlist', () => ({
+  getRegistrationSlotStatus: vi.fn().mockResolvedValue('registered'),
+}))
+
 // Import after mocks are set up
-import { registerForEvent, registerForPermanent } from '@/lib/actions/register'
+import { registerForEvent, registerForPermanent, registerForSeries } from '@/lib/actions/register'
+import { getSupabaseAdmin } from '@/lib/supabase-server'
 
 describe('registerForEvent', () => {
   describe('validation', () => {
@@ -209,3 +220,192 @@ describe('registerForPermanent', () => {
     })
   })
 })
+
+describe('registering again after cancelling', () => {
+  const mockInsert = vi.fn()
+  const mockUpdate = vi.fn()
+  const defaultClient = vi.mocked(getSupabaseAdmin).getMockImplementation()
+
+  function createBuilder(table: string) {
+    const builder: Record<string, unknown> = {}
+    for (const method of ['select', 'eq', 'neq']) {
+      builder[method] = vi.fn(() => builder)
+    }
+    builder.insert = vi.fn((row: unknown) => {
+      mockInsert(table, row)
+      return builder
+    })
+    builder.update = vi.fn((data: unknown) => {
+      mockUpdate(table, data)
+      return builder
+    })
+    builder.maybeSingle = vi.fn(() =>
+      Promise.resolve({ data: table === 'registrations' ? { id: 'reg-old' } : null, error: null })
+    )
+    builder.single = vi.fn(() => {
+      if (table === 'events') {
+        return Promise.resolve({
+          data: {
+            id: 'event-1',
+            slug: 'spring-200',
+            status: 'scheduled',
+            name: 'Spring 200',
+            event_date: '2099-05-02',
+            start_time: '07:00',
+            start_location: 'Toronto',
+            distance_km: 200,
+            event_type: 'brevet',
+            max_riders: null,
+            registration_opens_at: null,
+            registration_closes_at: null,
+            chapters: { slug: 'toronto', name: 'Toronto' },
+            routes: { slug: 'spring' },
+          },
+          error: null,
+        })
+      }
+      if (table === 'riders') {
+        return Promise.resolve({ data: { id: 'rider-1' }, error: null })
+      }
+      // The duplicate check ignores the cancelled row
+      if (!mockUpdate.mock.calls.some(([t]) => t === 'registrations')) {
+        return Promise.resolve({ data: null, error: { code: 'PGRST116' } })
+      }
+      return Promise.resolve({
+        data: { manage_token: 'token-new', status: 'registered' },
+        error: null,
+      })
+    })
+    builder.then = (resolve: (value: unknown) => void) => resolve({ data: null, error: null })
+    return builder
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getSupabaseAdmin).mockImplementation(
+      () =>
+        ({ from: vi.fn((table: string) => createBuilder(table)) }) as unknown as ReturnType<
+          typeof getSupabaseAdmin
+        >
+    )
+  })
+
+  afterEach(() => {
+    vi.mocked(getSupabaseAdmin).mockImplementation(defaultClient!)
+  })
+
+  it('reactivates the cancelled registration instead of inserting a new one', async () => {
+    const result = await registerForEvent({
+      eventId: 'event-1',
+      firstName: 'Test',
+      lastName: 'User',
+      email: 'test@example.com',
+      shareRegistration: true,
+      notes: 'Back on',
+      emergencyContactName: 'Emergency Contact',
+      emergencyContactPhone: '555-1234',
+    })
+
+    expect(result.success).toBe(true)
+    expect(mockInsert).not.toHaveBeenCalledWith('registrations', expect.anything())
+    expect(mockUpdate).toHaveBeenCalledWith(
+      'registrations',
+      expect.objectContaining({
+        status: 'registered',
+        share_registration: true,
+        notes: 'Back on',
+        manage_token: expect.any(String),
+        checked_in_at: null,
+      })
+    )
+  })
+})
+
+describe('registerForSeries', () => {
+  const defaultClient = vi.mocked(getSupabaseAdmin).getMockImplementation()
+
+  function seriesEvent(id: string, name: string) {
+    return {
+      id,
+      slug: id,
+      status: 'scheduled',
+      name,
+      event_date: '2099-06-20',
+      start_time: '07:00',
+      start_location: 'Toronto',
+      distance_km: 200,
+      event_type: 'brevet',
+      max_riders: null,
+      registration_opens_at: null,
+      registration_closes_at: null,
+      chapters: { slug: 'toronto', name: 'Toronto' },
+      routes: { slug: id },
+    }
+  }
+
+  function createBuilder(table: string) {
+    let insertedEventId: string | null = null
+    const builder: Record<string, unknown> = {}
+    for (const method of ['select', 'eq', 'neq', 'order', 'update']) {
+      builder[method] = vi.fn(() => builder)
+    }
+    builder.insert = vi.fn((row: { event_id: string }) => {
+      insertedEventId = row.event_id
+      return builder
+    })
+    builder.maybeSingle = vi.fn(() => Promise.resolve({ data: null, error: null }))
+    builder.single = vi.fn(() => {
+      if (table === 'riders') {
+        return Promise.resolve({ data: { id: 'rider-1' }, error: null })
+      }
+      if (insertedEventId === 'event-2') {
+        return Promise.resolve({ data: null, error: { message: 'insert failed' } })
+      }
+      if (insertedEventId) {
+        return Promise.resolve({
+          data: { manage_token: 'token', status: 'registered' },
+          error: null,
+        })
+      }
+      return Promise.resolve({ data: null, error: { code: 'PGRST116' } })
+    })
+    builder.then = (resolve: (value: unknown) => void) =>
+      resolve({
+        data:
+          table === 'events'
+            ? [seriesEvent('event-1', 'Devil Week 200'), seriesEvent('event-2', 'Devil Week 300')]
+            : null,
+        error: null,
+      })
+    return builder
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getSupabaseAdmin).mockImplementation(
+      () =>
+        ({ from: vi.fn((table: string) => createBuilder(table)) }) as unknown as ReturnType<
+          typeof getSupabaseAdmin
+        >
+    )
+  })
+
+  afterEach(() => {
+    vi.mocked(getSupabaseAdmin).mockImplementation(defaultClient!)
+  })
+
+  it('keeps the events that worked and reports the ones that failed', async () => {
+    const result = await registerForSeries({
+      seriesId: 'series-1',
+      firstName: 'Test',
+      lastName: 'User',
+      email: 'test@example.com',
+      shareRegistration: false,
+      emergencyContactName: 'Emergency Contact',
+      emergencyContactPhone: '555-1234',
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.failedEvents).toEqual(['Devil Week 300'])
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Integration tests for registration management actions.
+ *
+ * These tests focus on:
+ * 1. Guard conditions (not found, already cancelled, past events)
+ * 2. Waitlist promotion when a registered rider cancels
+ */
+
+vi.mock('@/lib/supabase-server', () => {
+  const queryBuilder: Record<string, ReturnType<typeof vi.fn>> = {}
+  ;['select', 'eq', 'in', 'order', 'limit', 'insert', 'update'].forEach((method) => {
+    queryBuilder[method] = vi.fn(() => queryBuilder)
+  })
+  queryBuilder.single = vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } })
+  queryBuilder.then = vi.fn((resolve) => resolve({ data: null, error: null }))
+
+  return {
+    getSupabaseAdmin: vi.fn(() => ({
+      from: vi.fn(() => queryBuilder),
+    })),
+    __queryBuilder: queryBuilder,
+  }
+})
+
+vi.mock('@/lib/auth/get-admin', () => ({
+  requireAdmin: vi.fn().mockResolvedValue({
+    id: 'admin-1',
+    email: 'admin@test.com',
+    name: 'Test Admin',
+    role: 'admin',
+  }),
+}))
+
+vi.mock('@/lib/registrations/waitlist', () => ({
+  promoteFromWaitlist: vi.fn().mockResolvedValue(null),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+  revalidateTag: vi.fn(),
+}))
+
+// Import after mocks
+import { cancelRegistration } from '@/lib/actions/registrations'
+import { promoteFromWaitlist } from '@/lib/registrations/waitlist'
+
+const { __queryBuilder: queryBuilder } = await vi.importMock<{
+  __queryBuilder: Record<string, ReturnType<typeof vi.fn>>
+}>('@/lib/supabase-server')
+
+function mockRegistration(status: string, eventDate = '2099-06-01') {
+  queryBuilder.single.mockResolvedValueOnce({
+    data: {
+      id: 'reg-1',
+      event_id: 'event-1',
+      status,
+      riders: { first_name: 'Jane', last_name: 'Rider' },
+      events: { name: 'Spring 200', slug: 'spring-200', event_date: eventDate },
+    },
+    error: null,
+  })
+}
+
+describe('cancelRegistration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    queryBuilder.single.mockResolvedValue({ data: null, error: { code: 'PGRST116' } })
+    queryBuilder.then.mockImplementation((resolve) => resolve({ data: null, error: null }))
+  })
+
+  it('returns error when registration not found', async () => {
+    const result = await cancelRegistration('missing')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Registration not found')
+  })
+
+  it('returns error when registration is already cancelled', async () => {
+    mockRegistration('cancelled')
+
+    const result = await cancelRegistration('reg-1')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Registration is already cancelled')
+  })
+
+  it('returns error for past events', async () => {
+    mockRegistration('registered', '2000-01-01')
+
+    const result = await cancelRegistration('reg-1')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Cannot cancel registrations for past events')
+  })
+
+  it('promotes the next waitlisted rider when a registered rider cancels', async () => {
+    mockRegistration('registered')
+
+    const result = await cancelRegistration('reg-1')
+
+    expect(result.success).toBe(true)
+    expect(queryBuilder.update).toHaveBeenCalledWith({ status: 'cancelled' })
+    expect(promoteFromWaitlist).toHaveBeenCalledWith('event-1')
+  })
+
+  it('does not promote anyone when a waitlisted rider cancels', async () => {
+    mockRegistration('waitlisted')
+
+    const result = await cancelRegistration('reg-1')
+
+    expect(result.success).toBe(true)
+    expect(promoteFromWaitlist).not.toHaveBeenCalled()
+  })
+
+  it('handles database errors on update', async () => {
+    mockRegistration('registered')
+    queryBuilder.then.mockImplementationOnce((resolve) =>
+      resolve({ data: null, error: { code: '500', message: 'update failed' } })
+    )
+
+    const result = await cancelRegistration('reg-1')
+
+    expect(result.success).toBe(false)
+    expect(promoteFromWaitlist).not.toHaveBeenCalled()
+  })
+})
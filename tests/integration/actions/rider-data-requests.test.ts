@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Integration tests for rider erasure: anonymizing a rider and declining
+ * erasure requests.
+ */
+
+let mockAdminRole = 'admin'
+let mockRider: { slug: string } | null = null
+let mockRpcResponse: unknown = null
+let mockRpcError: { code: string; message: string } | null = null
+let mockDeclined: { rider_id: string } | null = null
+
+const mockRpc = vi.fn(() => Promise.resolve({ data: mockRpcResponse, error: mockRpcError }))
+const mockRemove = vi.fn(() => Promise.resolve({ data: [], error: null }))
+const mockDeleteUser = vi.fn(() => Promise.resolve({ data: {}, error: null }))
+const mockUpdate = vi.fn()
+
+vi.mock('@/lib/supabase-server', () => {
+  const builder: Record<string, ReturnType<typeof vi.fn>> = {}
+  for (const method of ['select', 'eq']) {
+    builder[method] = vi.fn(() => builder)
+  }
+  builder.update = vi.fn((data: unknown) => {
+    mockUpdate(data)
+    return builder
+  })
+  builder.maybeSingle = vi.fn(() => Promise.resolve({ data: mockRider, error: null }))
+  builder.single = vi.fn(() =>
+    Promise.resolve({
+      data: mockDeclined,
+      error: mockDeclined ? null : { code: 'PGRST116', message: 'No rows' },
+    })
+  )
+
+  return {
+    getSupabaseAdmin: vi.fn(() => ({
+      from: vi.fn(() => builder),
+      rpc: mockRpc,
+      storage: { from: vi.fn(() => ({ remove: mockRemove })) },
+      auth: { admin: { deleteUser: mockDeleteUser } },
+    })),
+  }
+})
+
+vi.mock('@/lib/auth/get-admin', () => ({
+  requireAdmin: vi.fn(() =>
+    Promise.resolve({ id: 'admin-1', email: 'admin@test.com', name: 'Admin', role: mockAdminRole })
+  ),
+}))
+
+vi.mock('@/lib/audit-log', () => ({
+  logAuditEvent: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+  revalidateTag: vi.fn(),
+}))
+
+// Import after mocks are set up
+import { anonymizeRider, declineDataRequest } from '@/lib/actions/rider-data-requests'
+import { logAuditEvent } from '@/lib/audit-log'
+import { revalidateTag } from 'next/cache'
+
+function resetMockState() {
+  mockAdminRole = 'admin'
+  mockRider = { slug: 'jane-doe' }
+  mockRpcResponse = {
+    success: true,
+    auth_user_id: 'auth-1',
+    file_paths: ['result-1/gpx.gpx', 'result-1/card-front.jpg'],
+  }
+  mockRpcError = null
+  mockDeclined = { rider_id: 'rider-1' }
+  vi.clearAllMocks()
+}
+
+describe('anonymizeRider', () => {
+  beforeEach(() => {
+    resetMockState()
+  })
+
+  it('anonymizes the rider and removes their files and sign-in account', async () => {
+    const result = await anonymizeRider('rider-1')
+
+    expect(result.success).toBe(true)
+    expect(mockRpc).toHaveBeenCalledWith('anonymize_rider', {
+      p_rider_id: 'rider-1',
+      p_anonymized_by: 'admin-1',
+    })
+    expect(mockRemove).toHaveBeenCalledWith(['result-1/gpx.gpx', 'result-1/card-front.jpg'])
+    expect(mockDeleteUser).toHaveBeenCalledWith('auth-1')
+    expect(revalidateTag).toHaveBeenCalledWith('rider-jane-doe', 'max')
+  })
+
+  it('logs the erasure without naming the rider', async () => {
+    await anonymizeRider('rider-1')
+
+    expect(logAuditEvent).toHaveBeenCalledWith({
+      adminId: 'admin-1',
+      action: 'anonymize',
+      entityType: 'rider',
+      entityId: 'rider-1',
+      description: 'Erased personal data for a rider',
+    })
+  })
+
+  it('skips storage and auth cleanup when there is nothing to remove', async () => {
+    mockRpcResponse = { success: true, auth_user_id: null, file_paths: [] }
+
+    const result = await anonymizeRider('rider-1')
+
+    expect(result.success).toBe(true)
+    expect(mockRemove).not.toHaveBeenCalled()
+    expect(mockDeleteUser).not.toHaveBeenCalled()
+  })
+
+  it('requires a full admin', async () => {
+    mockAdminRole = 'chapter_admin'
+
+    const result = await anonymizeRider('rider-1')
+
+    expect(result.success).toBe(false)
+    expect(mockRpc).not.toHaveBeenCalled()
+  })
+
+  it('returns an error for unknown riders', async () => {
+    mockRider = null
+
+    const result = await anonymizeRider('missing')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Rider not found')
+    expect(mockRpc).not.toHaveBeenCalled()
+  })
+
+  it('explains when the rider was already anonymized', async () => {
+    mockRpcError = { code: 'P0001', message: 'Rider has already been anonymized' }
+
+    const result = await anonymizeRider('rider-1')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('This rider has already been anonymized')
+    expect(logAuditEvent).not.toHaveBeenCalled()
+  })
+})
+
+describe('declineDataRequest', () => {
+  beforeEach(() => {
+    resetMockState()
+  })
+
+  it('declines the request with the admin note', async () => {
+    const result = await declineDataRequest('request-1', ' Could not verify identity ')
+
+    expect(result.success).toBe(true)
+    expect(mockUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'declined',
+        resolution_note: 'Could not verify identity',
+        resolved_by: 'admin-1',
+      })
+    )
+    expect(logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'update', entityId: 'rider-1' })
+    )
+  })
+
+  it('returns an error when the request is already resolved', async () => {
+    mockDeclined = null
+
+    const result = await declineDataRequest('request-1', '')
+
+    expect(result.success).toBe(false)
+    expect(logAuditEvent).not.toHaveBeenCalled()
+  })
+})
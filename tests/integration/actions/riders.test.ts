@@ -24,6 +24,7 @@ vi.mock('@/lib/supabase-server', () => {
       'or',
       'in',
       'ilike',
+      'overlaps',
       'order',
       'limit',
       'range',
@@ -45,13 +46,18 @@ vi.mock('@/lib/supabase-server', () => {
   }
 
   const queryBuilder = createQueryBuilder()
+  const rpc = vi.fn().mockResolvedValue({ data: { success: true }, error: null })
 
   return {
     getSupabaseAdmin: vi.fn(() => ({
       from: vi.fn(() => queryBuilder),
+      rpc,
     })),
     __queryBuilder: queryBuilder,
+    __rpc: rpc,
     __reset: () => {
+      rpc.mockReset()
+      rpc.mockResolvedValue({ data: { success: true }, error: null })
       queryBuilder.single.mockReset()
       queryBuilder.single.mockResolvedValue({ data: null, error: { code: 'PGRST116' } })
       queryBuilder.then.mockReset()
@@ -106,10 +112,18 @@ vi.mock('@/lib/utils/rider-search', () => ({
 }))
 
 // Import after mocking
-import { searchRiders, createRider, mergeRiders, getRiderCounts } from '@/lib/actions/riders'
+import {
+  searchRiders,
+  createRider,
+  mergeRiders,
+  unmergeRiders,
+  getRiderCounts,
+} from '@/lib/actions/riders'
+import { logAuditEvent } from '@/lib/audit-log'
 
 const mockModule = await vi.importMock<{
   __queryBuilder: Record<string, ReturnType<typeof vi.fn>>
+  __rpc: ReturnType<typeof vi.fn>
   __reset: () => void
   __mockRidersFound: (riders: unknown[]) => void
   __mockRiderFound: (rider: unknown) => void
@@ -360,4 +374,121 @@ describe('mergeRiders', () => {
       expect(result.success).toBe(true)
     })
   })
+
+  it('merges in one database call, excluding the target from the sources', async () => {
+    mockModule.__rpc.mockResolvedValueOnce({
+      data: {
+        success: true,
+        merge_id: 'merge-1',
+        moved_registrations: 3,
+        moved_results: 2,
+        dropped_registrations: 1,
+        dropped_results: 1,
+      },
+      error: null,
+    })
+
+    const result = await mergeRiders({
+      targetRiderId: 'rider-2',
+      sourceRiderIds: ['rider-1', 'rider-2', 'rider-3'],
+      riderData: { firstName: ' Jane ', lastName: 'Doe', email: null, gender: 'F' },
+    })
+
+    expect(mockModule.__rpc).toHaveBeenCalledWith('merge_riders', {
+      p_target_id: 'rider-2',
+      p_source_ids: ['rider-1', 'rider-3'],
+      p_first_name: 'Jane',
+      p_last_name: 'Doe',
+      p_email: undefined,
+      p_gender: 'F',
+      p_merged_by: 'admin-1',
+    })
+    expect(result).toEqual({
+      success: true,
+      mergeId: 'merge-1',
+      updatedRegistrationsCount: 3,
+      updatedResultsCount: 2,
+      droppedRegistrationsCount: 1,
+      droppedResultsCount: 1,
+      deletedRidersCount: 2,
+    })
+    expect(logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'merge',
+        entityId: 'rider-2',
+        description: expect.stringContaining('2 duplicate event rows removed'),
+      })
+    )
+  })
+
+  it('returns the error reported by the merge function', async () => {
+    mockModule.__rpc.mockResolvedValueOnce({
+      data: { success: false, error: 'One or more riders no longer exist' },
+      error: null,
+    })
+
+    const result = await mergeRiders({
+      targetRiderId: 'rider-1',
+      sourceRiderIds: ['rider-1', 'rider-2'],
+      riderData: { firstName: 'Test', lastName: 'User' },
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('One or more riders no longer exist')
+    expect(logAuditEvent).not.toHaveBeenCalled()
+  })
+
+  it('returns a generic error when the transaction fails', async () => {
+    mockModule.__rpc.mockResolvedValueOnce({
+      data: null,
+      error: { code: '40P01', message: 'deadlock detected' },
+    })
+
+    const result = await mergeRiders({
+      targetRiderId: 'rider-1',
+      sourceRiderIds: ['rider-1', 'rider-2'],
+      riderData: { firstName: 'Test', lastName: 'User' },
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Failed to merge riders')
+  })
+})
+
+describe('unmergeRiders', () => {
+  beforeEach(() => {
+    mockModule.__reset()
+    vi.clearAllMocks()
+  })
+
+  it('restores the merged riders and logs the unmerge', async () => {
+    mockModule.__rpc.mockResolvedValueOnce({
+      data: { success: true, target_rider_id: 'rider-1', restored_rider_ids: ['rider-2'] },
+      error: null,
+    })
+
+    const result = await unmergeRiders('merge-1')
+
+    expect(mockModule.__rpc).toHaveBeenCalledWith('unmerge_riders', {
+      p_merge_id: 'merge-1',
+      p_unmerged_by: 'admin-1',
+    })
+    expect(result).toEqual({ success: true, restoredRiderIds: ['rider-2'] })
+    expect(logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'unmerge', entityType: 'rider', entityId: 'rider-1' })
+    )
+  })
+
+  it('returns the error when a later merge has to be undone first', async () => {
+    mockModule.__rpc.mockResolvedValueOnce({
+      data: { success: false, error: 'Undo the later merge into this rider first' },
+      error: null,
+    })
+
+    const result = await unmergeRiders('merge-1')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Undo the later merge into this rider first')
+    expect(logAuditEvent).not.toHaveBeenCalled()
+  })
 })
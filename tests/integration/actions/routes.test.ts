@@ -121,7 +121,9 @@ import {
   deleteRoute,
   toggleRouteActive,
   mergeRoutes,
+  uploadRouteFile,
 } from '@/lib/actions/routes'
+import { MAX_ROUTE_FILE_SIZE, SERVER_ACTION_BODY_SIZE_LIMIT } from '@/lib/upload-limits'
 
 const mockModule = await vi.importMock<{
   __queryBuilder: Record<string, ReturnType<typeof vi.fn>>
@@ -401,3 +403,48 @@ describe('mergeRoutes', () => {
     }
   })
 })
+
+describe('uploadRouteFile', () => {
+  function formDataWith(file?: File) {
+    const formData = new FormData()
+    if (file) formData.append('file', file)
+    return formData
+  }
+
+  it('should reject when no file is provided', async () => {
+    const result = await uploadRouteFile(formDataWith())
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('No file provided')
+  })
+
+  it('should reject files that are not GPX or TCX', async () => {
+    const result = await uploadRouteFile(formDataWith(new File(['data'], 'route.fit')))
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Route files must be GPX or TCX')
+  })
+
+  it('should reject GPX files without a track', async () => {
+    const result = await uploadRouteFile(
+      formDataWith(new File(['<gpx><wpt lat="43" lon="-79"/></gpx>'], 'route.gpx'))
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Route file has no track points')
+  })
+  it('should reject files over the route file limit', async () => {
+    const file = new File(['x'.repeat(MAX_ROUTE_FILE_SIZE + 1)], 'route.gpx')
+
+    const result = await uploadRouteFile(formDataWith(file))
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe(
+      `File too large. Maximum size: ${MAX_ROUTE_FILE_SIZE / 1024 / 1024}MB`
+    )
+  })
+
+  it('keeps the route file limit within the server action body limit', () => {
+    expect(MAX_ROUTE_FILE_SIZE).toBeLessThan(SERVER_ACTION_BODY_SIZE_LIMIT)
+  })
+})
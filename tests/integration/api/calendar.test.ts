@@ -76,6 +76,20 @@ vi.mock('@/lib/supabase', () => {
   }
 })
 
+vi.mock('@/lib/supabase-server', () => {
+  const builder: Record<string, ReturnType<typeof vi.fn>> = {}
+  for (const method of ['select', 'eq', 'gte', 'order']) {
+    builder[method] = vi.fn(() => builder)
+  }
+  builder.maybeSingle = vi.fn().mockResolvedValue({ data: null, error: null })
+  builder.then = vi.fn((resolve) => resolve({ data: [], error: null }))
+
+  return {
+    getSupabaseAdmin: vi.fn(() => ({ from: vi.fn(() => builder) })),
+    __adminQueryBuilder: builder,
+  }
+})
+
 vi.mock('next/cache', () => ({
   unstable_cache: vi.fn((fn) => fn),
 }))
@@ -116,7 +130,7 @@ vi.mock('@/lib/errors', () => ({
 }))
 
 vi.mock('ics', () => ({
-  createEvents: vi.fn((events, options) => {
+  createEvents: vi.fn((events) => {
     if (events.length === 0) {
       // Empty events still produces valid calendar
       return { error: null, value: 'BEGIN:VCALENDAR\nVERSION:2.0\nEND:VCALENDAR' }
@@ -130,6 +144,7 @@ vi.mock('ics', () => ({
 
 // Import after mocks
 import { GET } from '@/app/api/calendar/[chapter]/route'
+import { GET as GET_RIDER } from '@/app/api/calendar/rider/[token]/route'
 
 const mockModule = await vi.importMock<{
   __queryBuilder: Record<string, ReturnType<typeof vi.fn>>
@@ -139,6 +154,12 @@ const mockModule = await vi.importMock<{
   __mockEventsFound: (events: unknown[]) => void
 }>('@/lib/supabase')
 
+const { __adminQueryBuilder: adminQueryBuilder } = await vi.importMock<{
+  __adminQueryBuilder: Record<string, ReturnType<typeof vi.fn>>
+}>('@/lib/supabase-server')
+
+const RIDER_TOKEN = '8f14e45f-ceea-4e67-a8b1-5c2d3e4f5a6b'
+
 describe('Calendar API Route', () => {
   beforeEach(() => {
     mockModule.__reset()
@@ -244,5 +265,195 @@ describe('Calendar API Route', () => {
 
       expect(response.status).toBe(200)
     })
+
+    it('serves all chapters combined', async () => {
+      mockModule.__mockEventsFound([])
+
+      const request = new Request('http://localhost/api/calendar/all.ics')
+      const params = Promise.resolve({ chapter: 'all.ics' })
+
+      const response = await GET(request, { params })
+
+      expect(response.status).toBe(200)
+      expect(mockModule.__queryBuilder.in).not.toHaveBeenCalled()
+    })
+
+    it('narrows the combined feed to the requested chapters', async () => {
+      mockModule.__mockEventsFound([])
+
+      const request = new Request(
+        'http://localhost/api/calendar/all.ics?chapters=toronto,simcoe-muskoka'
+      )
+      const params = Promise.resolve({ chapter: 'all.ics' })
+
+      const response = await GET(request, { params })
+
+      expect(response.status).toBe(200)
+      expect(mockModule.__queryBuilder.in).toHaveBeenCalledWith('chapters.slug', [
+        'toronto',
+        'simcoe',
+      ])
+    })
+
+    it('returns 404 for an unknown chapter in the combined feed', async () => {
+      const request = new Request('http://localhost/api/calendar/all.ics?chapters=toronto,atlantis')
+      const params = Promise.resolve({ chapter: 'all.ics' })
+
+      const response = await GET(request, { params })
+
+      expect(response.status).toBe(404)
+    })
+
+    it('returns 400 for an invalid filter', async () => {
+      const request = new Request('http://localhost/api/calendar/toronto.ics?distance=250')
+      const params = Promise.resolve({ chapter: 'toronto.ics' })
+
+      const response = await GET(request, { params })
+
+      expect(response.status).toBe(400)
+      const json = await response.json()
+      expect(json.error).toContain('Invalid distance')
+    })
+
+    it('applies distance and type filters to the feed', async () => {
+      const { createEvents } = await import('ics')
+      mockModule.__mockEventsFound([
+        {
+          id: 'event-1',
+          slug: 'spring-200',
+          name: 'Spring 200',
+          event_date: '2099-05-15',
+          start_time: '08:00',
+          start_location: null,
+          distance_km: 200,
+          event_type: 'brevet',
+          description: null,
+          status: 'scheduled',
+        },
+        {
+          id: 'event-2',
+          slug: 'spring-300',
+          name: 'Spring 300',
+          event_date: '2099-05-22',
+          start_time: '07:00',
+          start_location: null,
+          distance_km: 300,
+          event_type: 'brevet',
+          description: null,
+          status: 'cancelled',
+        },
+        {
+          id: 'event-3',
+          slug: 'pop-100',
+          name: 'Pop 100',
+          event_date: '2099-05-29',
+          start_time: '09:00',
+          start_location: null,
+          distance_km: 100,
+          event_type: 'populaire',
+          description: null,
+          status: 'scheduled',
+        },
+      ])
+
+      const request = new Request(
+        'http://localhost/api/calendar/toronto.ics?distance=300,populaire&type=brevet'
+      )
+      const params = Promise.resolve({ chapter: 'toronto.ics' })
+
+      const response = await GET(request, { params })
+
+      expect(response.status).toBe(200)
+      const icsEvents = vi.mocked(createEvents).mock.calls[0][0] as {
+        title: string
+        status: string
+      }[]
+      expect(icsEvents).toHaveLength(1)
+      expect(icsEvents[0].status).toBe('CANCELLED')
+    })
+  })
+
+  describe('GET /api/calendar/rider/[token]', () => {
+    beforeEach(() => {
+      adminQueryBuilder.maybeSingle.mockResolvedValue({ data: null, error: null })
+      adminQueryBuilder.then.mockImplementation((resolve) => resolve({ data: [], error: null }))
+    })
+
+    it('returns 404 for a malformed token without querying', async () => {
+      const request = new Request('http://localhost/api/calendar/rider/not-a-token.ics')
+      const params = Promise.resolve({ token: 'not-a-token.ics' })
+
+      const response = await GET_RIDER(request, { params })
+
+      expect(response.status).toBe(404)
+      expect(adminQueryBuilder.maybeSingle).not.toHaveBeenCalled()
+    })
+
+    it('returns 404 for an unknown token', async () => {
+      const request = new Request(`http://localhost/api/calendar/rider/${RIDER_TOKEN}.ics`)
+      const params = Promise.resolve({ token: `${RIDER_TOKEN}.ics` })
+
+      const response = await GET_RIDER(request, { params })
+
+      expect(response.status).toBe(404)
+    })
+
+    it("serves the rider's registered events privately", async () => {
+      const { createEvents } = await import('ics')
+      adminQueryBuilder.maybeSingle.mockResolvedValueOnce({
+        data: { id: 'rider-1', first_name: 'Jane', last_name: 'Rider' },
+        error: null,
+      })
+      adminQueryBuilder.then.mockImplementationOnce((resolve) =>
+        resolve({
+          data: [
+            {
+              events: {
+                id: 'event-2',
+                slug: 'perm',
+                name: 'Permanent',
+                event_date: '2099-06-10',
+                start_time: '06:00',
+                start_location: null,
+                distance_km: 200,
+                event_type: 'permanent',
+                description: null,
+                status: 'scheduled',
+              },
+            },
+            {
+              events: {
+                id: 'event-1',
+                slug: 'spring-200',
+                name: 'Spring 200',
+                event_date: '2099-05-15',
+                start_time: '08:00',
+                start_location: null,
+                distance_km: 200,
+                event_type: 'brevet',
+                description: null,
+                status: 'cancelled',
+              },
+            },
+          ],
+          error: null,
+        })
+      )
+
+      const request = new Request(`http://localhost/api/calendar/rider/${RIDER_TOKEN}.ics`)
+      const params = Promise.resolve({ token: `${RIDER_TOKEN}.ics` })
+
+      const response = await GET_RIDER(request, { params })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('cache-control')).toContain('private')
+      expect(adminQueryBuilder.eq).toHaveBeenCalledWith('calendar_token', RIDER_TOKEN)
+      expect(adminQueryBuilder.eq).toHaveBeenCalledWith('status', 'registered')
+      const icsEvents = vi.mocked(createEvents).mock.calls[0][0] as {
+        uid: string
+        status: string
+      }[]
+      expect(icsEvents.map((event) => event.status)).toEqual(['CANCELLED', 'CONFIRMED'])
+    })
   })
 })
@@ -48,6 +48,10 @@ vi.mock('@/lib/supabase-server', () => {
   }
 })
 
+vi.mock('@/lib/events/permanent-requests', () => ({
+  expirePermanentRequests: vi.fn().mockResolvedValue(0),
+}))
+
 // Import the route handler after mocking
 import { GET } from '@/app/api/cron/complete-events/route'
 
@@ -126,6 +130,20 @@ describe('complete-events cron endpoint', () => {
     expect(json.checked).toBe(0)
     expect(json.completed).toBe(0)
   })
+
+  it('expires unreviewed permanent requests', async () => {
+    const { expirePermanentRequests } = await import('@/lib/events/permanent-requests')
+    vi.mocked(expirePermanentRequests).mockResolvedValueOnce(2)
+
+    const request = new Request('http://localhost/api/cron/complete-events', {
+      headers: { authorization: `Bearer ${CRON_SECRET}` },
+    })
+    const response = await GET(request)
+
+    const json = await response.json()
+    expect(expirePermanentRequests).toHaveBeenCalled()
+    expect(json.expiredRequests).toBe(2)
+  })
 })
 
 describe('closing time calculation', () => {
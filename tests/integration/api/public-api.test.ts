@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Integration tests for the public API routes (app/api/v1).
+ *
+ * The lib/data functions are mocked; these tests cover parameter handling,
+ * pagination, ETags, rate limiting and the response shapes.
+ */
+
+vi.mock('@/lib/data/events', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/data/events')>()
+  return {
+    ...actual,
+    getEventsInRange: vi.fn(),
+    getEventBySlug: vi.fn(),
+    getRegisteredRiders: vi.fn(),
+  }
+})
+
+vi.mock('@/lib/data/results', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/data/results')>()
+  return {
+    ...actual,
+    getChapterResults: vi.fn(),
+  }
+})
+
+import { GET as getEvents } from '@/app/api/v1/events/route'
+import { GET as getEvent } from '@/app/api/v1/events/[slug]/route'
+import { GET as getResults } from '@/app/api/v1/results/route'
+import { getEventBySlug, getEventsInRange, getRegisteredRiders } from '@/lib/data/events'
+import { getChapterResults } from '@/lib/data/results'
+import { resetRateLimits, RATE_LIMIT_PER_MINUTE } from '@/lib/api/rate-limit'
+
+const BASE = 'https://randonneursontario.ca/api/v1'
+
+function makeListing(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'event-1',
+    slug: 'spring-200-2025-06-14',
+    date: '2025-06-14',
+    name: 'Spring 200',
+    type: 'Brevet' as const,
+    distance: '200',
+    startLocation: 'Tim Hortons, Port Hope',
+    startTime: '07:00',
+    registeredCount: 12,
+    chapterName: 'Toronto',
+    chapterSlug: 'toronto',
+    status: 'scheduled',
+    ...overrides,
+  }
+}
+
+const noContext = { params: Promise.resolve({}) }
+
+describe('GET /api/v1/events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetRateLimits()
+    vi.mocked(getEventsInRange).mockResolvedValue([])
+  })
+
+  it('returns events in the API format with pagination', async () => {
+    vi.mocked(getEventsInRange).mockResolvedValue([
+      makeListing(),
+      makeListing({ id: 'event-2', slug: 'summer-300', type: 'Populaire', distance: '100' }),
+    ])
+
+    const response = await getEvents(
+      new Request(`${BASE}/events?chapter=toronto&from=2025-01-01&to=2025-12-31&per_page=1`),
+      noContext
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(getEventsInRange).toHaveBeenCalledWith('2025-01-01', '2025-12-31', 'toronto')
+    expect(body.pagination).toEqual({ page: 1, perPage: 1, total: 2, totalPages: 2 })
+    expect(body.data[0]).toMatchObject({
+      slug: 'spring-200-2025-06-14',
+      distanceKm: 200,
+      type: 'brevet',
+      chapter: { slug: 'toronto', name: 'Toronto' },
+      registeredCount: 12,
+    })
+    expect(body.data[0].url).toContain('/register/spring-200-2025-06-14')
+  })
+
+  it('filters by event type', async () => {
+    vi.mocked(getEventsInRange).mockResolvedValue([
+      makeListing(),
+      makeListing({ id: 'event-2', slug: 'pop-100', type: 'Populaire' }),
+    ])
+
+    const response = await getEvents(new Request(`${BASE}/events?type=populaire`), noContext)
+    const body = await response.json()
+
+    expect(body.data.map((event: { slug: string }) => event.slug)).toEqual(['pop-100'])
+  })
+
+  it('rejects bad parameters', async () => {
+    const cases = [
+      'chapter=atlantis',
+      'type=gravel',
+      'from=2025-13-01',
+      'from=2025-06-01&to=2025-05-01',
+      'from=2025-01-01&to=2026-06-01',
+      'page=0',
+    ]
+
+    for (const query of cases) {
+      const response = await getEvents(new Request(`${BASE}/events?${query}`), noContext)
+      expect(response.status, query).toBe(400)
+      expect((await response.json()).error).toBeTruthy()
+    }
+    expect(getEventsInRange).not.toHaveBeenCalled()
+  })
+
+  it('answers 304 when the ETag matches', async () => {
+    const first = await getEvents(new Request(`${BASE}/events`), noContext)
+    const etag = first.headers.get('etag')
+    expect(etag).toBeTruthy()
+    expect(first.headers.get('access-control-allow-origin')).toBe('*')
+
+    const second = await getEvents(
+      new Request(`${BASE}/events`, { headers: { 'if-none-match': etag! } }),
+      noContext
+    )
+    expect(second.status).toBe(304)
+    expect(await second.text()).toBe('')
+  })
+
+  it('rate limits each client', async () => {
+    const request = () =>
+      new Request(`${BASE}/events`, { headers: { 'x-forwarded-for': '203.0.113.9' } })
+
+    for (let i = 0; i < RATE_LIMIT_PER_MINUTE; i++) {
+      await getEvents(request(), noContext)
+    }
+    const limited = await getEvents(request(), noContext)
+
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('retry-after')).toBeTruthy()
+    expect(limited.headers.get('x-ratelimit-remaining')).toBe('0')
+  })
+
+  it('returns 500 when loading fails', async () => {
+    vi.mocked(getEventsInRange).mockRejectedValue(new Error('boom'))
+
+    const response = await getEvents(new Request(`${BASE}/events`), noContext)
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ error: 'Internal server error' })
+  })
+})
+
+describe('GET /api/v1/events/{slug}', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetRateLimits()
+  })
+
+  it('returns 404 for an unknown event', async () => {
+    vi.mocked(getEventBySlug).mockResolvedValue(null)
+
+    const response = await getEvent(new Request(`${BASE}/events/nope`), {
+      params: Promise.resolve({ slug: 'nope' }),
+    })
+
+    expect(response.status).toBe(404)
+  })
+
+  it('includes registered riders as shown on the event page', async () => {
+    vi.mocked(getEventBySlug).mockResolvedValue({
+      id: 'event-1',
+      slug: 'spring-200-2025-06-14',
+      name: 'Spring 200',
+      date: '2025-06-14',
+      startTime: '07:00',
+      startLocation: 'Port Hope',
+      distance: 200,
+      type: 'Brevet',
+      chapterName: 'Toronto',
+      chapterSlug: 'toronto',
+      rwgpsId: '123',
+      routeSlug: 'port-hope-200',
+      cueSheetUrl: null,
+      description: null,
+      imageUrl: null,
+      maxRiders: 40,
+      registrationOpensAt: null,
+      registrationClosesAt: null,
+    })
+    vi.mocked(getRegisteredRiders).mockResolvedValue([{ name: 'Jane D.' }, { name: 'Anonymous' }])
+
+    const response = await getEvent(new Request(`${BASE}/events/spring-200-2025-06-14`), {
+      params: Promise.resolve({ slug: 'spring-200-2025-06-14' }),
+    })
+    const { data } = await response.json()
+
+    expect(getRegisteredRiders).toHaveBeenCalledWith('event-1')
+    expect(data.registeredRiders).toEqual([{ name: 'Jane D.' }, { name: 'Anonymous' }])
+    expect(data.route).toEqual({
+      slug: 'port-hope-200',
+      rwgpsUrl: 'https://ridewithgps.com/routes/123',
+      cueSheetUrl: null,
+    })
+  })
+})
+
+describe('GET /api/v1/results', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetRateLimits()
+    vi.mocked(getChapterResults).mockResolvedValue([])
+  })
+
+  it('requires a season', async () => {
+    const response = await getResults(new Request(`${BASE}/results`), noContext)
+    expect(response.status).toBe(400)
+  })
+
+  it("returns one chapter's results with statuses split out", async () => {
+    vi.mocked(getChapterResults).mockResolvedValue([
+      {
+        id: 'event-1',
+        date: '2025-06-14',
+        name: 'Spring 200',
+        distance: '200',
+        routeSlug: null,
+        riders: [
+          { name: 'Jane Doe', slug: 'jane-doe', time: '12:30', isFirstBrevet: false },
+          { name: 'John Smith', slug: 'john-smith', time: 'DNF', isFirstBrevet: false },
+        ],
+      },
+    ])
+
+    const response = await getResults(
+      new Request(`${BASE}/results?season=2025&chapter=toronto`),
+      noContext
+    )
+    const body = await response.json()
+
+    expect(getChapterResults).toHaveBeenCalledWith('toronto', 2025)
+    expect(body.data[0].results).toEqual([
+      { name: 'Jane Doe', riderSlug: 'jane-doe', status: 'finished', time: '12:30' },
+      { name: 'John Smith', riderSlug: 'john-smith', status: 'dnf', time: null },
+    ])
+  })
+
+  it('lists each event once across all chapters', async () => {
+    const event = {
+      id: 'event-1',
+      date: '2025-06-14',
+      name: 'Spring 200',
+      distance: '200',
+      routeSlug: null,
+      riders: [],
+    }
+    vi.mocked(getChapterResults).mockImplementation(async (slug) =>
+      slug === 'toronto' || slug === 'other' ? [event] : []
+    )
+
+    const response = await getResults(new Request(`${BASE}/results?season=2025`), noContext)
+    const body = await response.json()
+
+    expect(getChapterResults).not.toHaveBeenCalledWith('pbp', 2025)
+    expect(getChapterResults).not.toHaveBeenCalledWith('granite-anvil', 2025)
+    expect(body.pagination.total).toBe(1)
+  })
+})
@@ -266,6 +266,14 @@ describe('getEventsByChapter', () => {
     // Verify permanent events are excluded
     expect(mockModule.__queryBuilder.neq).toHaveBeenCalledWith('event_type', 'permanent')
   })
+
+  it('counts only registered riders, not the waitlist or cancellations', async () => {
+    mockModule.__mockEventsEmpty()
+
+    await getEventsByChapter('toronto')
+
+    expect(mockModule.__queryBuilder.eq).toHaveBeenCalledWith('registrations.status', 'registered')
+  })
 })
 
 describe('getPermanentEvents', () => {
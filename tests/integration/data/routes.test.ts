@@ -42,12 +42,15 @@ vi.mock('@/lib/supabase', () => {
   }
 
   const queryBuilder = createQueryBuilder()
+  const rpc = vi.fn().mockResolvedValue({ data: [], error: null })
 
   return {
     getSupabase: vi.fn(() => ({
       from: vi.fn(() => queryBuilder),
+      rpc,
     })),
     __queryBuilder: queryBuilder,
+    __rpc: rpc,
     __reset: () => {
       // Use mockReset to clear implementation queue, then set default
       queryBuilder.then.mockReset()
@@ -98,10 +101,12 @@ import {
   getRoutesByChapter,
   getRouteResults,
   getActiveRoutes,
+  getRouteRecordProgression,
 } from '@/lib/data/routes'
 
 const mockModule = await vi.importMock<{
   __queryBuilder: Record<string, ReturnType<typeof vi.fn>>
+  __rpc: ReturnType<typeof vi.fn>
   __reset: () => void
   __mockRouteFound: (route: unknown) => void
   __mockRoutesFound: (routes: unknown[]) => void
@@ -198,6 +203,74 @@ describe('getRouteResults', () => {
   // which is complex to set up reliably. Full transform behavior is covered by E2E tests.
 })
 
+describe('getRouteRecordProgression', () => {
+  beforeEach(() => {
+    mockModule.__reset()
+    vi.clearAllMocks()
+  })
+
+  it('uses the masked names from the database', async () => {
+    mockModule.__rpc.mockResolvedValueOnce({
+      data: [
+        {
+          set_on: '2024-05-04',
+          finish_time: '10:15:00',
+          superseded_at: '2025-05-03T12:00:00Z',
+          rider_slug: null,
+          rider_name: 'J. D.',
+          rider_excluded: false,
+        },
+        {
+          set_on: '2025-05-03',
+          finish_time: '09:50:00',
+          superseded_at: null,
+          rider_slug: null,
+          rider_name: null,
+          rider_excluded: true,
+        },
+        {
+          set_on: '2025-05-03',
+          finish_time: '09:50:00',
+          superseded_at: null,
+          rider_slug: null,
+          rider_name: null,
+          rider_excluded: false,
+        },
+      ],
+      error: null,
+    })
+
+    const result = await getRouteRecordProgression('toronto-200')
+
+    expect(mockModule.__rpc).toHaveBeenCalledWith('get_route_record_progression', {
+      p_route_slug: 'toronto-200',
+    })
+    expect(result).toEqual([
+      {
+        date: '2024-05-04',
+        time: '10:15:00',
+        riderName: 'J. D.',
+        riderSlug: null,
+        isCurrent: false,
+      },
+      {
+        date: '2025-05-03',
+        time: '09:50:00',
+        riderName: 'Private rider',
+        riderSlug: null,
+        isCurrent: true,
+      },
+      {
+        date: '2025-05-03',
+        time: '09:50:00',
+        riderName: 'Unknown rider',
+        riderSlug: null,
+        isCurrent: true,
+      },
+    ])
+  })
+})
+
 describe('getActiveRoutes', () => {
   beforeEach(() => {
     mockModule.__reset()
@@ -220,7 +293,7 @@ describe('getActiveRoutes', () => {
         slug: 'toronto-200',
         distance_km: 200,
         chapter_id: 'chapter-1',
-        chapters: { name: 'Toronto' },
+        chapters: { name: 'Toronto', slug: 'toronto' },
       },
     ]
 
@@ -230,5 +303,6 @@ describe('getActiveRoutes', () => {
 
     expect(result).toHaveLength(1)
     expect(result[0].name).toBe('Toronto 200')
+    expect(result[0].chapterSlug).toBe('toronto')
   })
 })
@@ -6,7 +6,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { EventForm } from '@/components/admin/event-form'
-import type { ChapterOption } from '@/types/ui'
+import type { ChapterOptionWithWindowDefaults } from '@/types/ui'
 import type { ActiveRoute } from '@/lib/data/routes'
 
 // Mock server actions
@@ -60,9 +60,19 @@ vi.mock('date-fns', () => ({
 }))
 
 describe('EventForm', () => {
-  const mockChapters: ChapterOption[] = [
-    { id: 'chapter-1', name: 'Toronto' },
-    { id: 'chapter-2', name: 'Ottawa' },
+  const mockChapters: ChapterOptionWithWindowDefaults[] = [
+    {
+      id: 'chapter-1',
+      name: 'Toronto',
+      registration_opens_days_before: null,
+      registration_closes_hours_before: 48,
+    },
+    {
+      id: 'chapter-2',
+      name: 'Ottawa',
+      registration_opens_days_before: null,
+      registration_closes_hours_before: null,
+    },
   ]
 
   const mockRoutes: ActiveRoute[] = [
@@ -73,6 +83,7 @@ describe('EventForm', () => {
       distanceKm: 200,
       chapterId: 'chapter-1',
       chapterName: 'Toronto',
+      chapterSlug: 'toronto',
     },
   ]
 
@@ -126,6 +137,12 @@ describe('EventForm', () => {
       startLocation: 'Toronto',
       description: 'Test event',
       imageUrl: null,
+      maxRiders: null,
+      registrationOpensAt: null,
+      registrationClosesAt: null,
+      seriesId: null,
+      sendReminders: true,
+      sendRoster: true,
     }
 
     it('pre-fills form with event data', () => {
@@ -146,6 +163,15 @@ describe('EventForm', () => {
       expect(screen.getByRole('button', { name: /save changes/i })).toBeInTheDocument()
     })
 
+    it('shows the chapter default registration window', () => {
+      render(
+        <EventForm chapters={mockChapters} routes={mockRoutes} event={mockEvent} mode="edit" />
+      )
+
+      expect(screen.getByLabelText(/registration closes/i)).toBeInTheDocument()
+      expect(screen.getByText(/closes 48 hours before start/i)).toBeInTheDocument()
+    })
+
     // Note: Full form submission in edit mode requires all fields to be valid,
     // including date/chapter selected via Radix UI components.
     // Complete edit flow is covered by E2E tests.
@@ -6,14 +6,14 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { MyRidesSection } from '@/components/my-rides-section'
-import type { MyUpcomingRide } from '@/lib/actions/my-rides'
+import type { MyUpcomingRide, MyUpcomingRides } from '@/lib/actions/my-rides'
 import type { ActionResult } from '@/types/actions'
 
 // Mock server action
-const mockGetMyUpcomingRides = vi.fn<(email: string) => Promise<ActionResult<MyUpcomingRide[]>>>()
+const mockGetMyUpcomingRides = vi.fn<() => Promise<ActionResult<MyUpcomingRides | null>>>()
 
 vi.mock('@/lib/actions/my-rides', () => ({
-  getMyUpcomingRides: (...args: unknown[]) => mockGetMyUpcomingRides(args[0] as string),
+  getMyUpcomingRides: () => mockGetMyUpcomingRides(),
 }))
 
 const sampleRides: MyUpcomingRide[] = [
@@ -40,82 +40,76 @@ const sampleRides: MyUpcomingRide[] = [
 describe('MyRidesSection', () => {
   beforeEach(() => {
     vi.clearAllMocks()
-    localStorage.clear()
+    mockGetMyUpcomingRides.mockResolvedValue({ success: true, data: null })
   })
 
   afterEach(() => {
     vi.clearAllMocks()
   })
 
-  it('renders nothing with no localStorage data', () => {
+  it('renders nothing when no rider is signed in', async () => {
     const { container } = render(<MyRidesSection />)
 
+    await waitFor(() => {
+      expect(mockGetMyUpcomingRides).toHaveBeenCalled()
+    })
+
     expect(container.innerHTML).toBe('')
   })
 
-  it('renders nothing when server returns empty array', async () => {
-    localStorage.setItem(
-      'ro-registration',
-      JSON.stringify({ email: 'test@example.com', firstName: 'John' })
-    )
-    mockGetMyUpcomingRides.mockResolvedValue({ success: true, data: [] })
+  it('renders nothing when the rider has no upcoming rides', async () => {
+    mockGetMyUpcomingRides.mockResolvedValue({
+      success: true,
+      data: { firstName: 'John', rides: [] },
+    })
 
     const { container } = render(<MyRidesSection />)
 
-    // Wait for the effect to complete
     await waitFor(() => {
-      expect(mockGetMyUpcomingRides).toHaveBeenCalledWith('test@example.com')
+      expect(mockGetMyUpcomingRides).toHaveBeenCalled()
     })
 
     expect(container.querySelector('section')).not.toBeInTheDocument()
   })
 
-  it('renders ride list when server returns rides', async () => {
+  it('ignores a saved registration email when not signed in', async () => {
     localStorage.setItem(
       'ro-registration',
       JSON.stringify({ email: 'test@example.com', firstName: 'John' })
     )
-    mockGetMyUpcomingRides.mockResolvedValue({ success: true, data: sampleRides })
-
-    render(<MyRidesSection />)
-
-    await waitFor(() => {
-      expect(screen.getByText('Your Upcoming Rides')).toBeInTheDocument()
-    })
-
-    expect(screen.getByText('Welcome back, John')).toBeInTheDocument()
-    expect(screen.getByText('Test Ride')).toBeInTheDocument()
-    expect(screen.getByText('Spring Ride')).toBeInTheDocument()
-  })
-
-  it('handles corrupted localStorage gracefully', async () => {
-    localStorage.setItem('ro-registration', 'not-json{{{')
 
     const { container } = render(<MyRidesSection />)
 
-    // Should not crash or call the server action
     await waitFor(() => {
-      expect(mockGetMyUpcomingRides).not.toHaveBeenCalled()
+      expect(mockGetMyUpcomingRides).toHaveBeenCalledWith()
     })
 
     expect(container.innerHTML).toBe('')
+    localStorage.clear()
   })
 
-  it('renders nothing when localStorage has no email', async () => {
-    localStorage.setItem('ro-registration', JSON.stringify({ firstName: 'John' }))
+  it('renders ride list when server returns rides', async () => {
+    mockGetMyUpcomingRides.mockResolvedValue({
+      success: true,
+      data: { firstName: 'John', rides: sampleRides },
+    })
 
-    const { container } = render(<MyRidesSection />)
+    render(<MyRidesSection />)
 
     await waitFor(() => {
-      expect(mockGetMyUpcomingRides).not.toHaveBeenCalled()
+      expect(screen.getByText('Your Upcoming Rides')).toBeInTheDocument()
     })
 
-    expect(container.innerHTML).toBe('')
+    expect(screen.getByText('Welcome back, John')).toBeInTheDocument()
+    expect(screen.getByText('Test Ride')).toBeInTheDocument()
+    expect(screen.getByText('Spring Ride')).toBeInTheDocument()
   })
 
   it('renders without firstName greeting when firstName is missing', async () => {
-    localStorage.setItem('ro-registration', JSON.stringify({ email: 'test@example.com' }))
-    mockGetMyUpcomingRides.mockResolvedValue({ success: true, data: sampleRides })
+    mockGetMyUpcomingRides.mockResolvedValue({
+      success: true,
+      data: { firstName: '', rides: sampleRides },
+    })
 
     render(<MyRidesSection />)
 
@@ -137,11 +131,10 @@ describe('MyRidesSection', () => {
       chapterName: 'Toronto',
     }))
 
-    localStorage.setItem(
-      'ro-registration',
-      JSON.stringify({ email: 'test@example.com', firstName: 'John' })
-    )
-    mockGetMyUpcomingRides.mockResolvedValue({ success: true, data: manyRides })
+    mockGetMyUpcomingRides.mockResolvedValue({
+      success: true,
+      data: { firstName: 'John', rides: manyRides },
+    })
 
     render(<MyRidesSection />)
 
@@ -177,11 +170,10 @@ describe('MyRidesSection', () => {
   })
 
   it('does not show expand button when 3 or fewer rides', async () => {
-    localStorage.setItem(
-      'ro-registration',
-      JSON.stringify({ email: 'test@example.com', firstName: 'John' })
-    )
-    mockGetMyUpcomingRides.mockResolvedValue({ success: true, data: sampleRides })
+    mockGetMyUpcomingRides.mockResolvedValue({
+      success: true,
+      data: { firstName: 'John', rides: sampleRides },
+    })
 
     render(<MyRidesSection />)
 
@@ -17,6 +17,12 @@ vi.mock('@/lib/actions/register', () => ({
   completeRegistrationWithRider: (...args: unknown[]) => mockCompleteRegistrationWithRider(...args),
 }))
 
+const mockGetAccountRegistrationDetails = vi.fn()
+
+vi.mock('@/lib/actions/account', () => ({
+  getAccountRegistrationDetails: () => mockGetAccountRegistrationDetails(),
+}))
+
 // Mock router
 const mockRefresh = vi.fn()
 
@@ -79,6 +85,7 @@ describe('PermanentRegistrationForm', () => {
       distanceKm: 200,
       chapterId: 'chapter-1',
       chapterName: 'Toronto',
+      chapterSlug: 'toronto',
     },
     {
       id: 'route-2',
@@ -87,6 +94,7 @@ describe('PermanentRegistrationForm', () => {
       distanceKm: 300,
       chapterId: 'chapter-2',
       chapterName: 'Ottawa',
+      chapterSlug: 'ottawa',
     },
   ]
 
@@ -94,6 +102,7 @@ describe('PermanentRegistrationForm', () => {
     vi.clearAllMocks()
     localStorage.clear()
     mockRegisterForPermanent.mockResolvedValue({ success: true })
+    mockGetAccountRegistrationDetails.mockResolvedValue({ success: true, data: null })
   })
 
   afterEach(() => {
@@ -141,6 +150,33 @@ describe('PermanentRegistrationForm', () => {
       expect(screen.getByDisplayValue('John')).toBeInTheDocument()
       expect(screen.getByDisplayValue('Doe')).toBeInTheDocument()
     })
+
+    it('pre-fills from the signed-in rider account over saved data', async () => {
+      localStorage.setItem(
+        'ro-registration',
+        JSON.stringify({ firstName: 'Old', lastName: 'Name', email: 'old@example.com' })
+      )
+      mockGetAccountRegistrationDetails.mockResolvedValue({
+        success: true,
+        data: {
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john@example.com',
+          gender: 'M',
+          emergencyContactName: 'Jane Doe',
+          emergencyContactPhone: '555-1234',
+        },
+      })
+
+      render(<PermanentRegistrationForm routes={mockRoutes} />)
+
+      await waitFor(() => {
+        expect(screen.getByDisplayValue('john@example.com')).toBeInTheDocument()
+      })
+      expect(screen.getByDisplayValue('John')).toBeInTheDocument()
+      expect(screen.getByDisplayValue('Jane Doe')).toBeInTheDocument()
+      expect(screen.queryByDisplayValue('Old')).not.toBeInTheDocument()
+    })
   })
 
   describe('validation', () => {
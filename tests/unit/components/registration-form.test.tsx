@@ -16,6 +16,12 @@ vi.mock('@/lib/actions/register', () => ({
   completeRegistrationWithRider: (...args: unknown[]) => mockCompleteRegistrationWithRider(...args),
 }))
 
+const mockGetAccountRegistrationDetails = vi.fn()
+
+vi.mock('@/lib/actions/account', () => ({
+  getAccountRegistrationDetails: () => mockGetAccountRegistrationDetails(),
+}))
+
 // Mock router
 const mockRefresh = vi.fn()
 const mockPush = vi.fn()
@@ -59,6 +65,7 @@ describe('RegistrationForm', () => {
     vi.clearAllMocks()
     localStorage.clear()
     mockRegisterForEvent.mockResolvedValue({ success: true })
+    mockGetAccountRegistrationDetails.mockResolvedValue({ success: true, data: null })
   })
 
   afterEach(() => {
@@ -101,6 +108,33 @@ describe('RegistrationForm', () => {
       expect(screen.getByDisplayValue('Doe')).toBeInTheDocument()
       expect(screen.getByDisplayValue('john@example.com')).toBeInTheDocument()
     })
+
+    it('pre-fills from the signed-in rider account over saved data', async () => {
+      localStorage.setItem(
+        'ro-registration',
+        JSON.stringify({ firstName: 'Old', lastName: 'Name', email: 'old@example.com' })
+      )
+      mockGetAccountRegistrationDetails.mockResolvedValue({
+        success: true,
+        data: {
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john@example.com',
+          gender: 'M',
+          emergencyContactName: 'Jane Doe',
+          emergencyContactPhone: '555-1234',
+        },
+      })
+
+      render(<RegistrationForm {...defaultProps} />)
+
+      await waitFor(() => {
+        expect(screen.getByDisplayValue('john@example.com')).toBeInTheDocument()
+      })
+      expect(screen.getByDisplayValue('John')).toBeInTheDocument()
+      expect(screen.getByDisplayValue('Jane Doe')).toBeInTheDocument()
+      expect(screen.queryByDisplayValue('Old')).not.toBeInTheDocument()
+    })
   })
 
   describe('form submission', () => {
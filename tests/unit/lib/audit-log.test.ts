@@ -53,6 +53,23 @@ describe('logAuditEvent', () => {
     )
   })
 
+  it('records rider self-service changes without an admin', async () => {
+    await logAuditEvent({
+      adminId: null,
+      action: 'status_change',
+      entityType: 'registration',
+      entityId: 'reg-1',
+      description: 'Rider self-service (Jane Rider, Spring 200): Cancelled registration',
+    })
+
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        admin_id: null,
+        entity_type: 'registration',
+      })
+    )
+  })
+
   it('handles undefined entityId', async () => {
     await logAuditEvent({
       adminId: 'admin-123',
@@ -105,7 +122,16 @@ describe('logAuditEvent', () => {
   })
 
   it('accepts all valid action types', async () => {
-    const actions = ['create', 'update', 'delete', 'status_change', 'merge', 'submit'] as const
+    const actions = [
+      'create',
+      'update',
+      'delete',
+      'status_change',
+      'merge',
+      'unmerge',
+      'submit',
+      'anonymize',
+    ] as const
 
     for (const action of actions) {
       await logAuditEvent({
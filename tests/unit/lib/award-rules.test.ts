@@ -0,0 +1,280 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diffAwards,
+  evaluateAwards,
+  getSrDistance,
+  planCourseRecord,
+  planFirstBrevet,
+  type AwardContext,
+  type AwardResult,
+} from '@/lib/awards/rules'
+
+const CONTEXT: AwardContext = { brevetChaptersByYear: new Map() }
+
+let nextId = 0
+
+function result(eventDate: string, distanceKm: number, overrides: Partial<AwardResult> = {}) {
+  nextId++
+  return {
+    id: `r${nextId}`,
+    status: 'finished',
+    distanceKm,
+    eventDate,
+    eventType: 'brevet',
+    chapterSlug: 'toronto',
+    ...overrides,
+  } satisfies AwardResult
+}
+
+function slugs(results: AwardResult[], context = CONTEXT) {
+  return evaluateAwards(results, context).map((a) => a.slug)
+}
+
+describe('getSrDistance', () => {
+  it('maps brevet distances to the series distance they count as', () => {
+    expect(getSrDistance(200)).toBe(200)
+    expect(getSrDistance(210)).toBe(200)
+    expect(getSrDistance(300)).toBe(300)
+    expect(getSrDistance(400)).toBe(400)
+    expect(getSrDistance(600)).toBe(600)
+    expect(getSrDistance(1000)).toBeNull()
+    expect(getSrDistance(100)).toBeNull()
+  })
+})
+
+describe('Super Randonneur', () => {
+  it('is earned on the result that completes the series', () => {
+    const closing = result('2026-06-20', 600)
+    const awards = evaluateAwards(
+      [result('2026-04-25', 200), result('2026-05-09', 300), result('2026-05-30', 400), closing],
+      CONTEXT
+    )
+
+    expect(awards).toHaveLength(1)
+    expect(awards[0]).toMatchObject({
+      slug: 'super-randonneur',
+      resultId: closing.id,
+      periodStart: '2026-01-01',
+      periodEnd: '2026-12-31',
+    })
+  })
+
+  it('needs all four distances in the same season and finished', () => {
+    expect(
+      slugs([
+        result('2025-09-01', 200),
+        result('2026-05-09', 300),
+        result('2026-05-30', 400),
+        result('2026-06-20', 600),
+      ])
+    ).not.toContain('super-randonneur')
+
+    expect(
+      slugs([
+        result('2026-04-25', 200),
+        result('2026-05-09', 300),
+        result('2026-05-30', 400),
+        result('2026-06-20', 600, { status: 'dnf' }),
+      ])
+    ).not.toContain('super-randonneur')
+  })
+
+  it('does not count permanents', () => {
+    expect(
+      slugs([
+        result('2026-04-25', 200, { eventType: 'permanent' }),
+        result('2026-05-09', 300),
+        result('2026-05-30', 400),
+        result('2026-06-20', 600),
+      ])
+    ).not.toContain('super-randonneur')
+  })
+})
+
+describe('O-5000', () => {
+  it('is earned on the result that crosses 5000 km in a calendar year', () => {
+    const rides = Array.from({ length: 9 }, (_, i) =>
+      result(`2026-0${i + 1}-15`, 600, { eventType: 'permanent' })
+    )
+    const awards = evaluateAwards(rides, CONTEXT).filter((a) => a.slug === 'o-5000')
+
+    expect(awards).toHaveLength(1)
+    expect(awards[0].resultId).toBe(rides[8].id)
+  })
+})
+
+describe('O-12', () => {
+  it('needs a 200+ km event in 12 consecutive months, across years', () => {
+    const rides = Array.from({ length: 12 }, (_, i) => {
+      const month = (i + 6) % 12
+      const year = i + 6 >= 12 ? 2026 : 2025
+      return result(`${year}-${String(month + 1).padStart(2, '0')}-10`, 200, {
+        eventType: 'permanent',
+      })
+    })
+    const awards = evaluateAwards(rides, CONTEXT).filter((a) => a.slug === 'o-12')
+
+    expect(awards).toHaveLength(1)
+    expect(awards[0]).toMatchObject({
+      resultId: rides[11].id,
+      periodStart: '2025-07-01',
+      periodEnd: '2026-06-30',
+    })
+  })
+
+  it('is not earned when a month is missed', () => {
+    const rides = Array.from({ length: 12 }, (_, i) =>
+      result(`2026-${String(i + 1).padStart(2, '0')}-10`, i === 5 ? 100 : 200)
+    )
+    expect(slugs(rides)).not.toContain('o-12')
+  })
+})
+
+describe('Ontario Rover', () => {
+  it('needs 1200 km of permanents with two of 300 km or more', () => {
+    const perm = { eventType: 'permanent' }
+    expect(
+      slugs([
+        result('2026-04-01', 300, perm),
+        result('2026-05-01', 300, perm),
+        result('2026-06-01', 200, perm),
+        result('2026-07-01', 200, perm),
+        result('2026-08-01', 200, perm),
+      ])
+    ).toContain('ontario-rover')
+
+    expect(
+      slugs([
+        result('2026-04-01', 600, perm),
+        result('2026-05-01', 200, perm),
+        result('2026-06-01', 200, perm),
+        result('2026-07-01', 200, perm),
+      ])
+    ).not.toContain('ontario-rover')
+  })
+})
+
+describe('Ontario Explorer', () => {
+  const context: AwardContext = {
+    brevetChaptersByYear: new Map([[2026, new Set(['toronto', 'ottawa', 'huron'])]]),
+  }
+
+  it('needs a brevet in every chapter that ran brevets that year', () => {
+    const rides = [
+      result('2026-04-01', 200, { chapterSlug: 'toronto' }),
+      result('2026-05-01', 200, { chapterSlug: 'ottawa' }),
+      result('2026-06-01', 200, { chapterSlug: 'huron' }),
+    ]
+    expect(slugs(rides, context)).toContain('ontario-explorer')
+    expect(slugs(rides.slice(0, 2), context)).not.toContain('ontario-explorer')
+  })
+})
+
+describe('diffAwards', () => {
+  const earned = evaluateAwards(
+    [
+      result('2026-04-25', 200),
+      result('2026-05-09', 300),
+      result('2026-05-30', 400),
+      result('2026-06-20', 600),
+    ],
+    CONTEXT
+  )
+
+  it('attaches earned awards that are not stored yet', () => {
+    const { attach, revoke } = diffAwards(earned, [], [2026])
+    expect(attach.map((a) => a.slug)).toEqual(['super-randonneur'])
+    expect(revoke).toEqual([])
+  })
+
+  it('keeps a stored award on another result in the same period', () => {
+    const stored = [
+      { slug: 'super-randonneur' as const, resultId: 'imported', eventDate: '2026-04-25' },
+    ]
+    expect(diffAwards(earned, stored, [2026])).toEqual({ attach: [], revoke: [] })
+  })
+
+  it('revokes stored awards that are no longer earned, only within scope', () => {
+    const stored = [
+      { slug: 'o-5000' as const, resultId: 'a', eventDate: '2026-09-01' },
+      { slug: 'o-5000' as const, resultId: 'b', eventDate: '2019-09-01' },
+    ]
+    const { revoke } = diffAwards(earned, stored, [2026, 2027])
+    expect(revoke.map((a) => a.resultId)).toEqual(['a'])
+  })
+})
+
+describe('planFirstBrevet', () => {
+  it('attaches to the earliest finished brevet', () => {
+    const dnf = result('2026-03-01', 200, { status: 'dnf' })
+    const populaire = result('2026-03-15', 100, { eventType: 'populaire' })
+    const first = result('2026-04-25', 200)
+    const rides = [result('2026-05-09', 300), first, populaire, dnf]
+
+    expect(planFirstBrevet(rides, [])).toEqual({ attach: first.id, revoke: [] })
+  })
+
+  it('keeps a stored award on a finished result', () => {
+    const imported = result('2026-05-09', 300)
+    const rides = [result('2026-04-25', 200), imported]
+
+    expect(planFirstBrevet(rides, [imported.id])).toEqual({ attach: null, revoke: [] })
+  })
+
+  it('moves the award when its result no longer counts', () => {
+    const dnf = result('2026-04-25', 200, { status: 'dnf' })
+    const next = result('2026-05-09', 300)
+
+    expect(planFirstBrevet([dnf, next], [dnf.id])).toEqual({ attach: next.id, revoke: [dnf.id] })
+  })
+})
+
+describe('planCourseRecord', () => {
+  const finished = (id: string, finishMinutes: number) => ({
+    id,
+    status: 'finished',
+    finishMinutes,
+  })
+
+  it('adds the first record on a route', () => {
+    expect(planCourseRecord([finished('a', 600), finished('b', 540)], [])).toEqual({
+      holders: ['b'],
+      supersede: [],
+      void: [],
+      add: ['b'],
+    })
+  })
+
+  it('supersedes the previous holder when the record is beaten', () => {
+    const plan = planCourseRecord(
+      [finished('a', 540), finished('b', 520)],
+      [{ id: 'rec-a', resultId: 'a', finishMinutes: 540 }]
+    )
+    expect(plan).toMatchObject({ holders: ['b'], supersede: ['rec-a'], void: [], add: ['b'] })
+  })
+
+  it('gives tied riders the record together', () => {
+    const plan = planCourseRecord(
+      [finished('a', 540), finished('b', 540)],
+      [{ id: 'rec-a', resultId: 'a', finishMinutes: 540 }]
+    )
+    expect(plan).toMatchObject({ holders: ['a', 'b'], supersede: [], add: ['b'] })
+  })
+
+  it('voids a record whose result was deleted, changed or is no longer finished', () => {
+    const plan = planCourseRecord(
+      [finished('a', 560), { id: 'b', status: 'dnf', finishMinutes: null }],
+      [
+        { id: 'rec-a', resultId: 'a', finishMinutes: 540 },
+        { id: 'rec-b', resultId: 'b', finishMinutes: 530 },
+        { id: 'rec-c', resultId: null, finishMinutes: 520 },
+      ]
+    )
+    expect(plan).toEqual({
+      holders: ['a'],
+      supersede: [],
+      void: ['rec-a', 'rec-b', 'rec-c'],
+      add: ['a'],
+    })
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  matchesCalendarFilters,
+  matchesDistanceBand,
+  parseCalendarFilters,
+  parseListParam,
+  type CalendarFeedFilters,
+} from '@/lib/calendar/filters'
+import { buildCalendar, getEventDuration, getUtcStart, toIcsEvent } from '@/lib/calendar/ics'
+import type { EventForCalendar } from '@/types/queries'
+
+function makeEvent(overrides: Partial<EventForCalendar> = {}): EventForCalendar {
+  return {
+    id: 'event-1',
+    slug: 'spring-200',
+    name: 'Spring 200',
+    event_date: '2026-05-16',
+    start_time: '07:00',
+    start_location: 'Tim Hortons',
+    distance_km: 200,
+    event_type: 'brevet',
+    description: null,
+    status: 'scheduled',
+    chapters: { slug: 'toronto', name: 'Toronto' },
+    ...overrides,
+  }
+}
+
+describe('calendar filters', () => {
+  it('matches distance bands the same way as the calendar page', () => {
+    expect(matchesDistanceBand(100, 'populaire')).toBe(true)
+    expect(matchesDistanceBand(200, 'populaire')).toBe(false)
+    expect(matchesDistanceBand(300, '300')).toBe(true)
+    expect(matchesDistanceBand(310, '300')).toBe(false)
+    expect(matchesDistanceBand(1200, '1000')).toBe(true)
+  })
+
+  it('splits list params, dropping blanks and duplicates', () => {
+    expect(parseListParam(' Toronto,ottawa,,toronto ')).toEqual(['toronto', 'ottawa'])
+    expect(parseListParam(null)).toEqual([])
+  })
+
+  it('parses distance and type filters', () => {
+    const filters = parseCalendarFilters(new URLSearchParams('distance=200,300&type=brevet'))
+
+    expect(filters).toEqual({ distances: ['200', '300'], types: ['brevet'] })
+  })
+
+  it('returns no filters when none are given', () => {
+    expect(parseCalendarFilters(new URLSearchParams())).toEqual({
+      distances: null,
+      types: null,
+    })
+  })
+
+  it('rejects unknown filter values', () => {
+    expect(parseCalendarFilters(new URLSearchParams('distance=250'))).toEqual({
+      error: expect.stringContaining('Invalid distance "250"'),
+    })
+    expect(parseCalendarFilters(new URLSearchParams('type=permanent'))).toEqual({
+      error: expect.stringContaining('Invalid type "permanent"'),
+    })
+  })
+
+  it('keeps events matching any band and type', () => {
+    const filters: CalendarFeedFilters = { distances: ['populaire', '300'], types: ['brevet'] }
+
+    expect(matchesCalendarFilters({ distance_km: 300, event_type: 'brevet' }, filters)).toBe(true)
+    expect(matchesCalendarFilters({ distance_km: 200, event_type: 'brevet' }, filters)).toBe(false)
+    expect(matchesCalendarFilters({ distance_km: 100, event_type: 'populaire' }, filters)).toBe(
+      false
+    )
+  })
+})
+
+describe('calendar iCal events', () => {
+  it('uses BRM time limits for brevet durations', () => {
+    expect(getEventDuration(200, 'brevet')).toEqual({ hours: 13, minutes: 30 })
+    expect(getEventDuration(360, 'fleche')).toEqual({ hours: 24, minutes: 0 })
+    expect(getEventDuration(100, 'populaire')).toEqual({ hours: 7, minutes: 0 })
+  })
+
+  it('converts Toronto start times to UTC across daylight saving', () => {
+    expect(getUtcStart('2026-07-01', '07:00')).toEqual([2026, 7, 1, 11, 0])
+    expect(getUtcStart('2026-01-10', '07:00')).toEqual([2026, 1, 10, 12, 0])
+  })
+
+  it('marks scheduled events confirmed', () => {
+    const event = toIcsEvent(makeEvent(), 'https://example.com')
+
+    expect(event.status).toBe('CONFIRMED')
+    expect(event.title).toBe('Spring 200 (200km Brevet)')
+    expect(event.uid).toBe('event-1@example.com')
+    expect(event.organizer?.name).toBe('Randonneurs Ontario - Toronto')
+  })
+
+  it('marks cancelled events cancelled instead of dropping them', () => {
+    const event = toIcsEvent(makeEvent({ status: 'cancelled' }), 'https://example.com')
+
+    expect(event.status).toBe('CANCELLED')
+    expect(event.title).toBe('Cancelled: Spring 200 (200km Brevet)')
+    expect(event.busyStatus).toBe('FREE')
+  })
+
+  it('marks permanent requests awaiting approval tentative', () => {
+    const event = toIcsEvent(
+      makeEvent({ event_type: 'permanent', status: 'requested' }),
+      'https://example.com'
+    )
+
+    expect(event.status).toBe('TENTATIVE')
+    expect(event.busyStatus).toBe('TENTATIVE')
+    expect(event.description).toContain('Awaiting approval')
+  })
+
+  it('writes STATUS:CANCELLED into the feed', () => {
+    const { error, value } = buildCalendar(
+      [makeEvent(), makeEvent({ id: 'event-2', status: 'cancelled' })],
+      'Test Feed'
+    )
+
+    expect(error).toBeNull()
+    expect(value).toContain('STATUS:CONFIRMED')
+    expect(value).toContain('STATUS:CANCELLED')
+    expect(value).toContain('X-WR-CALNAME:Test Feed')
+  })
+})
@@ -57,6 +57,117 @@ describe('searchCCNMembership', () => {
     expect(result).toEqual({ found: false })
   })
 
+  it('returns ambiguous with candidates when several members match', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        count: 2,
+        results: [
+          { id: 1, full_name: 'Mark Allen', registration_category: 'Individual Membership' },
+          { id: 2, full_name: 'Mark Allen', registration_category: 'Trial Member' },
+        ],
+      }),
+    })
+
+    const { searchCCNMembership } = await import('@/lib/ccn/client')
+    const result = await searchCCNMembership('Mark', 'Allen')
+
+    expect(result).toEqual({
+      found: false,
+      ambiguous: true,
+      candidates: [
+        { membershipId: 1, fullName: 'Mark Allen', type: 'Individual Membership', score: 1 },
+        { membershipId: 2, fullName: 'Mark Allen', type: 'Trial Member', score: 1 },
+      ],
+    })
+  })
+
+  it('picks the member whose email matches when the payload includes one', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        count: 2,
+        results: [
+          {
+            id: 1,
+            full_name: 'Mark Allen',
+            registration_category: 'Individual Membership',
+            email: 'other@example.com',
+          },
+          {
+            id: 2,
+            full_name: 'Mark Allen',
+            registration_category: 'Trial Member',
+            email: 'Mark@Example.com',
+          },
+        ],
+      }),
+    })
+
+    const { searchCCNMembership } = await import('@/lib/ccn/client')
+    const result = await searchCCNMembership('Mark', 'Allen', { email: 'mark@example.com' })
+
+    expect(result).toEqual({ found: true, membershipId: 2, type: 'Trial Member' })
+  })
+
+  it('ignores members whose name does not match', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        count: 2,
+        results: [
+          { id: 1, full_name: 'Marcia Allenby', registration_category: 'Individual Membership' },
+          { id: 2, full_name: 'Mark Allen', registration_category: 'Individual Membership' },
+        ],
+      }),
+    })
+
+    const { searchCCNMembership } = await import('@/lib/ccn/client')
+    const result = await searchCCNMembership('Mark', 'Allen')
+
+    expect(result).toEqual({ found: true, membershipId: 2, type: 'Individual Membership' })
+  })
+
+  it('finds a member registered under the full form of a nickname', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ count: 0, results: [] }) })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          count: 2,
+          results: [
+            { id: 7, full_name: 'Robert Smith', registration_category: 'Individual Membership' },
+            { id: 8, full_name: 'Alice Smith', registration_category: 'Individual Membership' },
+          ],
+        }),
+      })
+
+    const { searchCCNMembership } = await import('@/lib/ccn/client')
+    const result = await searchCCNMembership('Bob', 'Smith')
+
+    expect(result).toEqual({ found: true, membershipId: 7, type: 'Individual Membership' })
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      'https://ccnbikes.com/en/rest/v2/event_app/registration-search/?event_id=21392&search=Smith'
+    )
+  })
+
+  it('returns ambiguous for a near match instead of guessing', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        count: 1,
+        results: [
+          { id: 3, full_name: 'Mark Alen', registration_category: 'Individual Membership' },
+        ],
+      }),
+    })
+
+    const { searchCCNMembership } = await import('@/lib/ccn/client')
+    const result = await searchCCNMembership('Mark', 'Allen')
+
+    expect(result).toMatchObject({ found: false, ambiguous: true })
+  })
+
   it('throws error when API fails', async () => {
     mockFetch.mockResolvedValueOnce({
       ok: false,
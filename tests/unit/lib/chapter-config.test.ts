@@ -131,7 +131,7 @@ describe('getDbSlug', () => {
     expect(getDbSlug('pbp')).toBe('other')
   })
 
-  it('returns null for granite-anvil (uses collection)', () => {
+  it('returns null for granite-anvil (uses its event series)', () => {
     expect(getDbSlug('granite-anvil')).toBeNull()
   })
 
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { resolveContactEmail, type ChapterContacts } from '@/lib/email/chapter-contacts'
+
+const CONTACTS: ChapterContacts = {
+  vp_email: 'vp-toronto@randonneursontario.ca',
+  route_coordinator_email: 'routes-toronto@randonneursontario.ca',
+  treasurer_email: 'treasurer@randonneursontario.ca',
+}
+
+describe('resolveContactEmail', () => {
+  it('returns the address for each role', () => {
+    expect(resolveContactEmail(CONTACTS, 'vp')).toBe('vp-toronto@randonneursontario.ca')
+    expect(resolveContactEmail(CONTACTS, 'route_coordinator')).toBe(
+      'routes-toronto@randonneursontario.ca'
+    )
+    expect(resolveContactEmail(CONTACTS, 'treasurer')).toBe('treasurer@randonneursontario.ca')
+  })
+
+  it('sends permanent requests to the VP when there is no route coordinator', () => {
+    const contacts = { ...CONTACTS, route_coordinator_email: null }
+    expect(resolveContactEmail(contacts, 'route_coordinator')).toBe(
+      'vp-toronto@randonneursontario.ca'
+    )
+  })
+
+  it('does not fall back for the VP or treasurer', () => {
+    const contacts = { ...CONTACTS, vp_email: null, treasurer_email: '' }
+    expect(resolveContactEmail(contacts, 'vp')).toBeNull()
+    expect(resolveContactEmail(contacts, 'treasurer')).toBeNull()
+  })
+
+  it('returns null for an unknown chapter', () => {
+    expect(resolveContactEmail(null, 'vp')).toBeNull()
+  })
+})
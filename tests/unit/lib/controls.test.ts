@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeControls, toControlDefinition, getControlTypeLabel } from '@/lib/controls'
+import type { ControlDefinition } from '@/types/control-card'
+
+function control(overrides: Partial<ControlDefinition> = {}): ControlDefinition {
+  return {
+    name: 'Uxbridge',
+    distance: 52.3,
+    address: null,
+    controlType: 'staffed',
+    infoQuestion: null,
+    ...overrides,
+  }
+}
+
+describe('normalizeControls', () => {
+  it('trims text and sorts controls by distance', () => {
+    const result = normalizeControls([
+      control({ name: ' Finish ', distance: 203 }),
+      control({ name: 'Start', distance: 0, address: '  1 Main St ' }),
+      control({ name: 'Port Perry', distance: 98.76 }),
+    ])
+
+    expect(result.error).toBeUndefined()
+    expect(result.controls?.map((c) => c.name)).toEqual(['Start', 'Port Perry', 'Finish'])
+    expect(result.controls?.[0].address).toBe('1 Main St')
+    expect(result.controls?.[1].distance).toBe(98.8)
+  })
+
+  it('keeps info questions only on info controls', () => {
+    const result = normalizeControls([
+      control({ controlType: 'info', infoQuestion: ' Colour of the church door? ' }),
+      control({ name: 'Bakery', controlType: 'receipt', infoQuestion: 'Ignored' }),
+    ])
+
+    expect(result.controls?.[0].infoQuestion).toBe('Colour of the church door?')
+    expect(result.controls?.[1].infoQuestion).toBeNull()
+  })
+
+  it('rejects controls without a name', () => {
+    expect(normalizeControls([control({ name: '  ' })]).error).toBe('Every control needs a name')
+  })
+
+  it('rejects missing or negative distances', () => {
+    expect(normalizeControls([control({ distance: NaN })]).error).toBe(
+      'Invalid distance for control "Uxbridge"'
+    )
+    expect(normalizeControls([control({ distance: -1 })]).error).toBe(
+      'Invalid distance for control "Uxbridge"'
+    )
+  })
+
+  it('rejects unknown control types', () => {
+    const result = normalizeControls([
+      control({ controlType: 'secret' as ControlDefinition['controlType'] }),
+    ])
+    expect(result.error).toBe('Invalid control type for control "Uxbridge"')
+  })
+
+  it('accepts an empty list', () => {
+    expect(normalizeControls([])).toEqual({ controls: [] })
+  })
+})
+
+describe('toControlDefinition', () => {
+  it('maps a database row', () => {
+    expect(
+      toControlDefinition({
+        name: 'Sunderland',
+        distance_km: 75.5,
+        address: '12 River St',
+        control_type: 'photo',
+        info_question: null,
+      })
+    ).toEqual({
+      name: 'Sunderland',
+      distance: 75.5,
+      address: '12 River St',
+      controlType: 'photo',
+      infoQuestion: null,
+    })
+  })
+
+  it('falls back to staffed for unknown types', () => {
+    const result = toControlDefinition({
+      name: 'Sunderland',
+      distance_km: 75.5,
+      address: null,
+      control_type: 'legacy',
+      info_question: null,
+    })
+    expect(result.controlType).toBe('staffed')
+  })
+})
+
+describe('getControlTypeLabel', () => {
+  it('returns a display label', () => {
+    expect(getControlTypeLabel('receipt')).toBe('Receipt')
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyCheckInQueue,
+  parseCheckInQueue,
+  queueCheckIn,
+  removeSyncedChanges,
+} from '@/lib/events/check-in-queue'
+import { buildDayOfRosterCsv, getDayOfRosterFileName, sortDayOfRoster } from '@/lib/events/day-of'
+import type { RegistrationForDayOf } from '@/types/queries'
+
+function registration(
+  id: string,
+  firstName: string,
+  lastName: string,
+  overrides: Partial<RegistrationForDayOf> = {}
+): RegistrationForDayOf {
+  return {
+    id,
+    rider_id: `rider-${id}`,
+    status: 'registered',
+    notes: null,
+    checked_in_at: null,
+    riders: {
+      first_name: firstName,
+      last_name: lastName,
+      rider_number: null,
+      emergency_contact_name: null,
+      emergency_contact_phone: null,
+    },
+    ...overrides,
+  }
+}
+
+describe('check-in queue', () => {
+  it('keeps only the latest change per registration', () => {
+    let queue = queueCheckIn({}, { registrationId: 'reg-1', checkedInAt: '2026-05-02T10:58:00Z' })
+    queue = queueCheckIn(queue, { registrationId: 'reg-1', checkedInAt: null })
+
+    expect(Object.values(queue)).toEqual([{ registrationId: 'reg-1', checkedInAt: null }])
+  })
+
+  it('keeps changes made while a sync was in flight', () => {
+    const sent = { registrationId: 'reg-1', checkedInAt: '2026-05-02T10:58:00Z' }
+    const queue = queueCheckIn(queueCheckIn({}, { registrationId: 'reg-1', checkedInAt: null }), {
+      registrationId: 'reg-2',
+      checkedInAt: '2026-05-02T10:59:00Z',
+    })
+
+    expect(Object.keys(removeSyncedChanges(queue, [sent]))).toEqual(['reg-1', 'reg-2'])
+    expect(Object.keys(removeSyncedChanges(queue, [queue['reg-2']]))).toEqual(['reg-1'])
+  })
+
+  it('puts unsynced changes on top of the server roster', () => {
+    const roster = [
+      registration('reg-1', 'Jane', 'Doe', { checked_in_at: '2026-05-02T10:50:00Z' }),
+      registration('reg-2', 'Sam', 'Lee'),
+    ]
+    const queue = queueCheckIn({}, { registrationId: 'reg-1', checkedInAt: null })
+
+    const applied = applyCheckInQueue(roster, queue)
+
+    expect(applied.map((r) => r.checked_in_at)).toEqual([null, null])
+    expect(roster[0].checked_in_at).toBe('2026-05-02T10:50:00Z')
+  })
+
+  it('reads a saved queue and drops malformed entries', () => {
+    const raw = JSON.stringify({
+      'reg-1': { registrationId: 'reg-1', checkedInAt: '2026-05-02T10:58:00Z' },
+      'reg-2': { registrationId: 'reg-2', checkedInAt: 42 },
+      'reg-3': null,
+    })
+
+    expect(Object.keys(parseCheckInQueue(raw))).toEqual(['reg-1'])
+    expect(parseCheckInQueue('not json')).toEqual({})
+    expect(parseCheckInQueue(null)).toEqual({})
+  })
+})
+
+describe('day-of roster', () => {
+  it('sorts by last name, then first name', () => {
+    const sorted = sortDayOfRoster([
+      registration('reg-1', 'Sam', 'Lee'),
+      registration('reg-2', 'Jane', 'Doe'),
+      registration('reg-3', 'Alex', 'Doe'),
+    ])
+
+    expect(sorted.map((r) => r.id)).toEqual(['reg-3', 'reg-2', 'reg-1'])
+  })
+
+  it('builds the roster CSV with check-in times in Toronto time', () => {
+    const csv = buildDayOfRosterCsv([
+      registration('reg-1', 'Jane', 'Doe', {
+        checked_in_at: '2026-05-02T10:58:00Z',
+        notes: 'Allergic to bees, carries epipen',
+        riders: {
+          first_name: 'Jane',
+          last_name: 'Doe',
+          rider_number: 1042,
+          emergency_contact_name: 'Sam Doe',
+          emergency_contact_phone: '416-555-0100',
+        },
+      }),
+      registration('reg-2', 'Alex', 'Lee', { status: 'incomplete: membership' }),
+    ])
+
+    expect(csv.split('\r\n')).toEqual([
+      'Rider #,Last name,First name,Emergency contact,Emergency phone,Checked in,Membership,Notes',
+      '1042,Doe,Jane,Sam Doe,416-555-0100,06:58,OK,"Allergic to bees, carries epipen"',
+      ',Lee,Alex,,,,Incomplete,',
+      '',
+    ])
+  })
+
+  it('names the file after the event', () => {
+    expect(getDayOfRosterFileName({ name: 'Spring Classic', event_date: '2026-05-02' })).toBe(
+      'roster-2026-05-02-spring-classic.csv'
+    )
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { getRetryDelayMinutes, planDeliveryFailure } from '@/lib/email/outbox'
+import {
+  consoleTransport,
+  createFileTransport,
+  getEmailTransport,
+  sendgridTransport,
+  setEmailTransport,
+  type EmailMessage,
+} from '@/lib/email/transport'
+
+vi.mock('@/lib/supabase-server', () => ({
+  getSupabaseAdmin: vi.fn(),
+}))
+
+const MESSAGE: EmailMessage = {
+  to: ['rider@example.com'],
+  cc: ['vp-toronto@randonneursontario.ca'],
+  from: 'noreply@randonneursontario.ca',
+  subject: 'Registration Confirmed: Spring 200',
+  text: 'See you at the start.',
+}
+
+describe('getRetryDelayMinutes', () => {
+  it('backs off after each failed attempt', () => {
+    expect(getRetryDelayMinutes(1)).toBe(5)
+    expect(getRetryDelayMinutes(2)).toBe(15)
+    expect(getRetryDelayMinutes(3)).toBe(60)
+    expect(getRetryDelayMinutes(4)).toBe(240)
+  })
+
+  it('repeats the longest delay', () => {
+    expect(getRetryDelayMinutes(10)).toBe(240)
+  })
+
+  it('treats zero attempts as the first', () => {
+    expect(getRetryDelayMinutes(0)).toBe(5)
+  })
+})
+
+describe('planDeliveryFailure', () => {
+  const now = new Date('2026-05-01T12:00:00Z')
+
+  it('schedules a retry while attempts remain', () => {
+    expect(planDeliveryFailure(1, 5, now)).toEqual({
+      status: 'pending',
+      nextAttemptAt: '2026-05-01T12:05:00.000Z',
+    })
+    expect(planDeliveryFailure(3, 5, now)).toEqual({
+      status: 'pending',
+      nextAttemptAt: '2026-05-01T13:00:00.000Z',
+    })
+  })
+
+  it('gives up after the last attempt', () => {
+    expect(planDeliveryFailure(5, 5, now)).toEqual({ status: 'failed', nextAttemptAt: null })
+  })
+})
+
+describe('getEmailTransport', () => {
+  afterEach(() => {
+    setEmailTransport(null)
+    vi.unstubAllEnvs()
+  })
+
+  it('uses SendGrid when an API key is set', () => {
+    vi.stubEnv('EMAIL_TRANSPORT', '')
+    vi.stubEnv('SENDGRID_API_KEY', 'SG.test')
+    expect(getEmailTransport()).toBe(sendgridTransport)
+  })
+
+  it('falls back to the console without an API key', () => {
+    vi.stubEnv('EMAIL_TRANSPORT', '')
+    vi.stubEnv('SENDGRID_API_KEY', '')
+    expect(getEmailTransport()).toBe(consoleTransport)
+  })
+
+  it('honours EMAIL_TRANSPORT', () => {
+    vi.stubEnv('SENDGRID_API_KEY', 'SG.test')
+    vi.stubEnv('EMAIL_TRANSPORT', 'console')
+    expect(getEmailTransport()).toBe(consoleTransport)
+
+    vi.stubEnv('EMAIL_TRANSPORT', 'file')
+    expect(getEmailTransport().name).toBe('file')
+  })
+
+  it('prefers an override', () => {
+    const transport = { name: 'test', send: vi.fn() }
+    setEmailTransport(transport)
+    expect(getEmailTransport()).toBe(transport)
+  })
+})
+
+describe('createFileTransport', () => {
+  let dir: string | null = null
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true })
+    dir = null
+  })
+
+  it('writes each message to a JSON file', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'emails-'))
+    const outputDir = path.join(dir, 'outbox')
+
+    await createFileTransport(outputDir).send(MESSAGE)
+
+    const files = await readdir(outputDir)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toMatch(/registration-confirmed-spring-200\.json$/)
+    expect(JSON.parse(await readFile(path.join(outputDir, files[0]), 'utf8'))).toEqual(MESSAGE)
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getReminderDueAt, getRosterDueAt } from '@/lib/events/reminders'
+import { buildEventReminderEmail, buildEventRosterEmail } from '@/lib/email/templates'
+
+vi.mock('@/lib/supabase-server', () => ({
+  getSupabaseAdmin: vi.fn(),
+}))
+
+// Saturday, June 14 2025, 7:00 AM in Toronto (EDT)
+const START = new Date('2025-06-14T11:00:00Z')
+
+describe('getReminderDueAt', () => {
+  it('counts the chapter days back from the start', () => {
+    expect(getReminderDueAt(START, 2).toISOString()).toBe('2025-06-12T11:00:00.000Z')
+    expect(getReminderDueAt(START, 7).toISOString()).toBe('2025-06-07T11:00:00.000Z')
+  })
+})
+
+describe('getRosterDueAt', () => {
+  it('is due when registration closes', () => {
+    const closesAt = new Date('2025-06-12T11:00:00Z')
+    expect(getRosterDueAt(START, closesAt)).toEqual(closesAt)
+  })
+
+  it('is due a day before the start when registration stays open', () => {
+    expect(getRosterDueAt(START, null).toISOString()).toBe('2025-06-13T11:00:00.000Z')
+  })
+
+  it('ignores a close time after the start', () => {
+    const closesAt = new Date('2025-06-14T12:00:00Z')
+    expect(getRosterDueAt(START, closesAt).toISOString()).toBe('2025-06-13T11:00:00.000Z')
+  })
+})
+
+const EVENT = {
+  eventName: 'Spring 200',
+  eventDate: 'Saturday, June 14, 2025',
+  eventTime: '7:00 AM',
+  eventLocation: 'Tim Hortons, Port Hope',
+  eventDistance: 200,
+  chapterName: 'Toronto',
+}
+
+describe('buildEventReminderEmail', () => {
+  const data = {
+    ...EVENT,
+    riderName: 'Jane Doe',
+    riderEmail: 'jane@example.com',
+    eventUrl: 'https://randonneursontario.ca/register/spring-200-2025-06-14',
+    routeUrl: 'https://randonneursontario.ca/routes/toronto/port-hope-200',
+    controls: [
+      { name: 'Start', distanceKm: 0, address: '1 Main St, Port Hope' },
+      { name: 'Warkworth', distanceKm: 52.5, address: null },
+      { name: 'Finish', distanceKm: 201, address: '1 Main St, Port Hope' },
+    ],
+    checklist: '- Front and rear lights\n\n* Reflective vest\nBrevet card',
+    organizerEmail: 'vp-toronto@randonneursontario.ca',
+    manageUrl: 'https://randonneursontario.ca/register/manage/abc123',
+  }
+
+  it('includes the start details, route, controls and organizer', () => {
+    const { subject, text } = buildEventReminderEmail(data)
+
+    expect(subject).toBe('Ride Reminder: Spring 200 200km on Saturday, June 14, 2025')
+    expect(text).toContain('Start time: 7:00 AM Saturday, June 14, 2025')
+    expect(text).toContain('Start location: Tim Hortons, Port Hope')
+    expect(text).toContain('Route: https://randonneursontario.ca/routes/toronto/port-hope-200')
+    expect(text).toContain('- 0 km: Start (1 Main St, Port Hope)')
+    expect(text).toContain('- 52.5 km: Warkworth\n')
+    expect(text).toContain('Contact the organizer at vp-toronto@randonneursontario.ca')
+    expect(text).toContain(data.manageUrl)
+  })
+
+  it('lists one checklist item per line without list markers or blank lines', () => {
+    const { text, html } = buildEventReminderEmail(data)
+
+    expect(text).toContain(
+      'Before you ride:\n- Front and rear lights\n- Reflective vest\n- Brevet card'
+    )
+    expect(html).toContain('<li>Reflective vest</li>')
+  })
+
+  it('leaves out sections that are not set', () => {
+    const { text, html } = buildEventReminderEmail({
+      ...data,
+      routeUrl: undefined,
+      controls: [],
+      checklist: null,
+      organizerEmail: null,
+      manageUrl: undefined,
+    })
+
+    expect(text).not.toContain('Route:')
+    expect(text).not.toContain('Before you ride')
+    expect(text).toContain('See the route for controls.')
+    expect(text).toContain('Contact the Toronto Chapter VP.')
+    expect(html).not.toContain('Before You Ride')
+    expect(html).not.toContain('cancel your registration')
+  })
+})
+
+describe('buildEventRosterEmail', () => {
+  const data = {
+    ...EVENT,
+    riders: [
+      {
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        emergencyContactName: 'John Doe',
+        emergencyContactPhone: '555-1234',
+      },
+      {
+        name: 'Sam Smith',
+        email: null,
+        emergencyContactName: null,
+        emergencyContactPhone: null,
+      },
+    ],
+    waitlistedCount: 3,
+    adminEventUrl: 'https://randonneursontario.ca/admin/events/event-1',
+  }
+
+  it('lists each rider with their emergency contact', () => {
+    const { subject, text } = buildEventRosterEmail(data)
+
+    expect(subject).toBe('Roster: Spring 200 200km on Saturday, June 14, 2025 (2 riders)')
+    expect(text).toContain(
+      '1. Jane Doe <jane@example.com>\n   Emergency contact: John Doe, 555-1234'
+    )
+    expect(text).toContain('2. Sam Smith\n   Emergency contact: Not provided')
+    expect(text).toContain('3 more on the waitlist.')
+  })
+
+  it('says so when nobody is registered', () => {
+    const { subject, text } = buildEventRosterEmail({ ...data, riders: [], waitlistedCount: 0 })
+
+    expect(subject).toContain('(0 riders)')
+    expect(text).toContain('No riders are registered.')
+    expect(text).not.toContain('waitlist')
+  })
+})
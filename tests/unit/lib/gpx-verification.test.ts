@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { verifyGpxTrack, locateOnTrack } from '@/lib/results/gpx-verification'
+import { haversineKm, type ParsedRouteFile, type TrackPoint } from '@/lib/routes/route-file'
+import { FLECHE_RULES, POPULAIRE_RULES } from '@/lib/time-rules'
+import type { ControlDefinition } from '@/types/control-card'
+
+// 06:00 in Toronto
+const START = new Date('2026-06-06T10:00:00Z')
+
+// Ten points heading due north, ~1.11 km apart (~10 km)
+const ROUTE: TrackPoint[] = Array.from({ length: 10 }, (_, i) => ({
+  lat: 43 + i * 0.01,
+  lon: -79.5,
+  ele: null,
+  time: null,
+}))
+
+function control(name: string, distance: number): ControlDefinition {
+  return { name, distance, address: null, controlType: 'staffed', infoQuestion: null }
+}
+
+const CONTROLS = [control('Start', 0), control('Uxbridge', 5.6), control('Finish', 10)]
+
+function riderTrack(minutesBetweenPoints: number | null, points = ROUTE): ParsedRouteFile {
+  const withTimes = points.map((p, i) => ({
+    ...p,
+    time:
+      minutesBetweenPoints === null
+        ? null
+        : new Date(START.getTime() + i * minutesBetweenPoints * 60000).toISOString(),
+  }))
+  let distanceKm = 0
+  for (let i = 1; i < withTimes.length; i++) {
+    distanceKm += haversineKm(withTimes[i - 1], withTimes[i])
+  }
+  return {
+    format: 'gpx',
+    name: null,
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    elevationGainM: null,
+    points: withTimes,
+    waypoints: [],
+  }
+}
+
+function verify(overrides: Partial<Parameters<typeof verifyGpxTrack>[0]> = {}) {
+  return verifyGpxTrack({
+    track: riderTrack(2),
+    routeTrack: ROUTE,
+    controls: CONTROLS,
+    start: START,
+    rules: FLECHE_RULES,
+    routeKm: 10,
+    claimedFinishMinutes: 18,
+    ...overrides,
+  })
+}
+
+describe('verifyGpxTrack', () => {
+  it('passes a track that visits every control in time', () => {
+    const report = verify()
+
+    expect(report.status).toBe('pass')
+    expect(report.checks.map((c) => c.label)).toEqual([
+      'Distance',
+      'Control: Start (0 km)',
+      'Control: Uxbridge (5.6 km)',
+      'Control: Finish (10 km)',
+      'Finish time',
+    ])
+  })
+
+  it('fails when the track misses a control', () => {
+    // Detour ~1.6 km east around the middle of the route
+    const detour = ROUTE.map((p, i) => (i >= 4 && i <= 6 ? { ...p, lon: p.lon + 0.02 } : p))
+    const report = verify({ track: riderTrack(2, detour) })
+
+    expect(report.status).toBe('fail')
+    expect(report.checks.find((c) => c.label.includes('Uxbridge'))).toMatchObject({
+      status: 'fail',
+      detail: 'Track does not pass within 500 m',
+    })
+  })
+
+  it('fails when a control is reached after it closes', () => {
+    // 20 minutes between points: Uxbridge (5 km) closes 75 minutes after the start
+    const report = verify({ track: riderTrack(20), rules: POPULAIRE_RULES })
+
+    const uxbridge = report.checks.find((c) => c.label.includes('Uxbridge'))
+    expect(uxbridge?.status).toBe('fail')
+    expect(uxbridge?.detail).toContain('after it closed')
+  })
+
+  it('warns when the claimed finish time does not match the track', () => {
+    const report = verify({ claimedFinishMinutes: 60 })
+
+    expect(report.status).toBe('warn')
+    expect(report.checks.at(-1)).toEqual({
+      label: 'Finish time',
+      status: 'warn',
+      detail: 'GPX elapsed 00:18, claimed 01:00',
+    })
+  })
+
+  it('warns when the track is much shorter than the route', () => {
+    const report = verify({ track: riderTrack(2, ROUTE.slice(0, 5)), routeTrack: null })
+
+    expect(report.checks[0]).toMatchObject({ label: 'Distance', status: 'warn' })
+  })
+
+  it('warns that controls cannot be located without a route file', () => {
+    const report = verify({ routeTrack: null })
+
+    expect(report.status).toBe('warn')
+    expect(report.checks.find((c) => c.label === 'Controls')?.status).toBe('warn')
+  })
+
+  it('uses the start and finish when there are no saved controls', () => {
+    const report = verify({ controls: [] })
+
+    expect(report.checks.map((c) => c.label)).toContain('Control: Finish (10 km)')
+  })
+
+  it('skips time checks for tracks without timestamps', () => {
+    const report = verify({ track: riderTrack(null) })
+
+    expect(report.status).toBe('warn')
+    expect(report.checks.find((c) => c.label === 'Timestamps')?.status).toBe('warn')
+    expect(report.checks.find((c) => c.label === 'Finish time')).toBeUndefined()
+  })
+})
+
+describe('locateOnTrack', () => {
+  it('finds the point at a distance along the track', () => {
+    expect(locateOnTrack(ROUTE, 0)).toEqual(ROUTE[0])
+    expect(locateOnTrack(ROUTE, 3)).toEqual(ROUTE[3])
+    expect(locateOnTrack(ROUTE, 50)).toEqual(ROUTE[9])
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildHomologationCsv,
+  formatAcpTime,
+  getHomologationAuthority,
+  getHomologationFileName,
+  type HomologationResult,
+} from '@/lib/results/homologation'
+
+const EVENT = {
+  name: 'Spring Classic',
+  event_date: '2026-05-02',
+  event_type: 'brevet',
+  distance_km: 200,
+}
+
+function result(lastName: string, overrides: Partial<HomologationResult> = {}): HomologationResult {
+  return {
+    status: 'finished',
+    finish_time: '09:45:00',
+    medal_requested: false,
+    homologation_number: null,
+    riders: { first_name: 'Sam', last_name: lastName, gender: 'F', rider_number: 1042 },
+    ...overrides,
+  }
+}
+
+describe('formatAcpTime', () => {
+  it('formats minutes as HHhMM', () => {
+    expect(formatAcpTime(585)).toBe('09h45')
+    expect(formatAcpTime(812)).toBe('13h32')
+    expect(formatAcpTime(4000)).toBe('66h40')
+  })
+})
+
+describe('getHomologationAuthority', () => {
+  it('uses LRM for rides over 1000 km and ACP otherwise', () => {
+    expect(getHomologationAuthority(EVENT)).toBe('ACP')
+    expect(getHomologationAuthority({ event_type: 'brevet', distance_km: 1200 })).toBe('LRM')
+    expect(getHomologationAuthority({ event_type: 'fleche', distance_km: 360 })).toBe('ACP')
+  })
+})
+
+describe('buildHomologationCsv', () => {
+  it('lists finishers sorted by name with ACP times', () => {
+    const csv = buildHomologationCsv(
+      EVENT,
+      [
+        result('Tremblay', { finish_time: '1 day 02:30:00', medal_requested: true }),
+        result('Ahmed', { riders: null }),
+        result('Brown', { status: 'dnf', finish_time: null }),
+        result('Allen', {
+          riders: { first_name: 'Mark', last_name: 'Allen', gender: 'M', rider_number: null },
+        }),
+      ],
+      '901004'
+    )
+
+    expect(csv.split('\r\n')).toEqual([
+      'Rider Number,Last Name,First Name,Gender,Club Code,Event Date,Distance (km),Time,Medal,Homologation Number',
+      ',Allen,Mark,M,901004,2026-05-02,200,09h45,N,',
+      '1042,Tremblay,Sam,F,901004,2026-05-02,200,26h30,Y,',
+      '',
+    ])
+  })
+
+  it('quotes values containing commas or quotes', () => {
+    const csv = buildHomologationCsv(EVENT, [
+      result('Smith, Jr.', { homologation_number: '123456' }),
+      result('O"Neil', { homologation_number: '123457' }),
+    ])
+
+    expect(csv).toContain('1042,"O""Neil",Sam,')
+    expect(csv).toContain('1042,"Smith, Jr.",Sam,')
+    expect(csv).toContain(',N,123457\r\n')
+  })
+
+  it('leaves gender blank unless it is M or F', () => {
+    const csv = buildHomologationCsv(EVENT, [
+      result('Lee', {
+        riders: { first_name: 'Alex', last_name: 'Lee', gender: 'X', rider_number: 7 },
+      }),
+    ])
+
+    expect(csv.split('\r\n')[1].split(',')[3]).toBe('')
+  })
+})
+
+describe('getHomologationFileName', () => {
+  it('includes the authority, date, distance and event name', () => {
+    expect(getHomologationFileName(EVENT)).toBe('ACP-2026-05-02-200-spring-classic.csv')
+  })
+})
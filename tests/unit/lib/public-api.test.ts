@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { paginate, parsePageRequest, MAX_PER_PAGE } from '@/lib/api/pagination'
+import {
+  checkRateLimit,
+  getClientIp,
+  resetRateLimits,
+  RATE_LIMIT_PER_MINUTE,
+} from '@/lib/api/rate-limit'
+import { getETag, matchesETag } from '@/lib/api/respond'
+import { parseDateParam, parseSeasonParam } from '@/lib/api/params'
+import { toApiResultEntry } from '@/lib/api/serialize'
+
+describe('parsePageRequest', () => {
+  it('defaults to the first page', () => {
+    expect(parsePageRequest(new URLSearchParams())).toEqual({ page: 1, perPage: 50 })
+  })
+
+  it('reads page and per_page', () => {
+    expect(parsePageRequest(new URLSearchParams('page=3&per_page=10'))).toEqual({
+      page: 3,
+      perPage: 10,
+    })
+  })
+
+  it('rejects values that are not positive whole numbers', () => {
+    expect(parsePageRequest(new URLSearchParams('page=0'))).toHaveProperty('error')
+    expect(parsePageRequest(new URLSearchParams('page=abc'))).toHaveProperty('error')
+    expect(parsePageRequest(new URLSearchParams('per_page=1.5'))).toHaveProperty('error')
+    expect(parsePageRequest(new URLSearchParams(`per_page=${MAX_PER_PAGE + 1}`))).toHaveProperty(
+      'error'
+    )
+  })
+})
+
+describe('paginate', () => {
+  const items = Array.from({ length: 25 }, (_, i) => i + 1)
+
+  it('slices the requested page and reports the totals', () => {
+    expect(paginate(items, { page: 3, perPage: 10 })).toEqual({
+      data: [21, 22, 23, 24, 25],
+      pagination: { page: 3, perPage: 10, total: 25, totalPages: 3 },
+    })
+  })
+
+  it('returns an empty page past the end', () => {
+    expect(paginate(items, { page: 4, perPage: 10 }).data).toEqual([])
+  })
+})
+
+describe('ETags', () => {
+  it('is stable for the same body and changes with it', () => {
+    expect(getETag('{"a":1}')).toBe(getETag('{"a":1}'))
+    expect(getETag('{"a":1}')).not.toBe(getETag('{"a":2}'))
+    expect(getETag('{"a":1}')).toMatch(/^W\/".+"$/)
+  })
+
+  it('matches If-None-Match lists, strong or weak, and *', () => {
+    const etag = getETag('body')
+    expect(matchesETag(etag, etag)).toBe(true)
+    expect(matchesETag(`"other", ${etag.replace('W/', '')}`, etag)).toBe(true)
+    expect(matchesETag('*', etag)).toBe(true)
+    expect(matchesETag('"other"', etag)).toBe(false)
+    expect(matchesETag(null, etag)).toBe(false)
+  })
+})
+
+describe('checkRateLimit', () => {
+  beforeEach(() => {
+    resetRateLimits()
+  })
+
+  it('allows requests up to the limit in a window', () => {
+    const now = 1_000_000
+    for (let i = 0; i < RATE_LIMIT_PER_MINUTE; i++) {
+      expect(checkRateLimit('1.2.3.4', now).allowed).toBe(true)
+    }
+    const limited = checkRateLimit('1.2.3.4', now)
+    expect(limited.allowed).toBe(false)
+    expect(limited.remaining).toBe(0)
+
+    // Other clients have their own count
+    expect(checkRateLimit('5.6.7.8', now).allowed).toBe(true)
+  })
+
+  it('starts a new window after a minute', () => {
+    const now = 1_000_000
+    for (let i = 0; i <= RATE_LIMIT_PER_MINUTE; i++) checkRateLimit('1.2.3.4', now)
+
+    const next = checkRateLimit('1.2.3.4', now + 60_000)
+    expect(next.allowed).toBe(true)
+    expect(next.remaining).toBe(RATE_LIMIT_PER_MINUTE - 1)
+  })
+
+  it('uses the first forwarded IP', () => {
+    const request = new Request('https://example.com', {
+      headers: { 'x-forwarded-for': '1.2.3.4, 10.0.0.1' },
+    })
+    expect(getClientIp(request)).toBe('1.2.3.4')
+    expect(getClientIp(new Request('https://example.com'))).toBe('unknown')
+  })
+})
+
+describe('query parameters', () => {
+  it('parses dates and rejects bad ones', () => {
+    expect(parseDateParam(new URLSearchParams('from=2025-06-14'), 'from')).toBe('2025-06-14')
+    expect(parseDateParam(new URLSearchParams(), 'from')).toBeNull()
+    expect(parseDateParam(new URLSearchParams('from=2025-02-30'), 'from')).toHaveProperty('error')
+    expect(parseDateParam(new URLSearchParams('from=June'), 'from')).toHaveProperty('error')
+  })
+
+  it('parses seasons', () => {
+    expect(parseSeasonParam(new URLSearchParams('season=2025'))).toBe(2025)
+    expect(parseSeasonParam(new URLSearchParams())).toBeNull()
+    expect(parseSeasonParam(new URLSearchParams('season=25'))).toHaveProperty('error')
+  })
+})
+
+describe('toApiResultEntry', () => {
+  it('splits finish times from status labels', () => {
+    expect(toApiResultEntry('13:05')).toEqual({ status: 'finished', time: '13:05' })
+    expect(toApiResultEntry('105:45')).toEqual({ status: 'finished', time: '105:45' })
+    expect(toApiResultEntry('DNF')).toEqual({ status: 'dnf', time: null })
+  })
+})
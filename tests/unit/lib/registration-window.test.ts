@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getEventStart,
+  resolveRegistrationWindow,
+  getRegistrationWindowState,
+  getRegistrationWindowError,
+  formatCountdown,
+} from '@/lib/registrations/window'
+
+const event = {
+  event_date: '2026-06-06',
+  start_time: '07:00:00',
+  registration_opens_at: null,
+  registration_closes_at: null,
+}
+
+const noDefaults = {
+  registration_opens_days_before: null,
+  registration_closes_hours_before: null,
+}
+
+describe('getEventStart', () => {
+  it('interprets the start in Toronto time', () => {
+    // June is EDT (UTC-4)
+    expect(getEventStart('2026-06-06', '07:00:00').toISOString()).toBe('2026-06-06T11:00:00.000Z')
+  })
+
+  it('defaults to 8:00 when there is no start time', () => {
+    // January is EST (UTC-5)
+    expect(getEventStart('2026-01-10', null).toISOString()).toBe('2026-01-10T13:00:00.000Z')
+  })
+})
+
+describe('resolveRegistrationWindow', () => {
+  it('has no window without event values or chapter defaults', () => {
+    expect(resolveRegistrationWindow(event, noDefaults)).toEqual({ opensAt: null, closesAt: null })
+    expect(resolveRegistrationWindow(event, null)).toEqual({ opensAt: null, closesAt: null })
+  })
+
+  it('computes chapter defaults from the event start', () => {
+    const window = resolveRegistrationWindow(event, {
+      registration_opens_days_before: 30,
+      registration_closes_hours_before: 48,
+    })
+
+    expect(window.opensAt?.toISOString()).toBe('2026-05-07T11:00:00.000Z')
+    expect(window.closesAt?.toISOString()).toBe('2026-06-04T11:00:00.000Z')
+  })
+
+  it('prefers explicit event values over chapter defaults', () => {
+    const window = resolveRegistrationWindow(
+      { ...event, registration_closes_at: '2026-06-05T22:00:00+00:00' },
+      { registration_opens_days_before: null, registration_closes_hours_before: 48 }
+    )
+
+    expect(window.opensAt).toBeNull()
+    expect(window.closesAt?.toISOString()).toBe('2026-06-05T22:00:00.000Z')
+  })
+})
+
+describe('getRegistrationWindowState', () => {
+  const window = {
+    opensAt: new Date('2026-05-01T12:00:00Z'),
+    closesAt: new Date('2026-06-04T11:00:00Z'),
+  }
+
+  it('is not yet open before opensAt', () => {
+    expect(getRegistrationWindowState(window, new Date('2026-04-30T12:00:00Z'))).toBe(
+      'not-yet-open'
+    )
+  })
+
+  it('is open between the boundaries', () => {
+    expect(getRegistrationWindowState(window, new Date('2026-05-15T12:00:00Z'))).toBe('open')
+  })
+
+  it('is closed at and after closesAt', () => {
+    expect(getRegistrationWindowState(window, new Date('2026-06-04T11:00:00Z'))).toBe('closed')
+  })
+
+  it('is always open without boundaries', () => {
+    expect(getRegistrationWindowState({ opensAt: null, closesAt: null })).toBe('open')
+  })
+})
+
+describe('getRegistrationWindowError', () => {
+  const window = {
+    opensAt: new Date('2026-05-01T12:00:00Z'),
+    closesAt: new Date('2026-06-04T11:00:00Z'),
+  }
+
+  it('names the opening time before registration opens', () => {
+    expect(getRegistrationWindowError(window, new Date('2026-04-01T12:00:00Z'))).toBe(
+      'Registration for this event opens Friday, May 1 at 8:00 AM'
+    )
+  })
+
+  it('reports closed after registration closes', () => {
+    expect(getRegistrationWindowError(window, new Date('2026-06-05T12:00:00Z'))).toBe(
+      'Registration for this event has closed'
+    )
+  })
+
+  it('returns null while open', () => {
+    expect(getRegistrationWindowError(window, new Date('2026-05-15T12:00:00Z'))).toBeNull()
+  })
+})
+
+describe('formatCountdown', () => {
+  it('formats days and hours', () => {
+    expect(formatCountdown((2 * 24 + 4) * 3_600_000 + 5 * 60_000)).toBe('2 days, 4 hours')
+  })
+
+  it('formats hours and minutes', () => {
+    expect(formatCountdown(3_600_000 + 30 * 60_000)).toBe('1 hour, 30 minutes')
+  })
+
+  it('formats less than a minute', () => {
+    expect(formatCountdown(30_000)).toBe('less than a minute')
+  })
+})
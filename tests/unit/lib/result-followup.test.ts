@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  getFollowupStage,
+  getReminderSchedule,
+  planFollowup,
+  type ResultFollowupRule,
+} from '@/lib/events/result-followup'
+import { buildResultSubmissionRequestEmail, buildResultsDigestEmail } from '@/lib/email/templates'
+
+vi.mock('@/lib/supabase-server', () => ({
+  getSupabaseAdmin: vi.fn(),
+}))
+
+// Event closed Saturday, June 14 2025, 8:30 PM in Toronto (EDT)
+const CLOSED_AT = new Date('2025-06-15T00:30:00Z')
+const RULE: ResultFollowupRule = { reminderDays: [3, 7], deadlineDays: 14, deadlineAction: 'flag' }
+
+function daysAfterClose(days: number): Date {
+  return new Date(CLOSED_AT.getTime() + days * 86_400_000)
+}
+
+describe('getReminderSchedule', () => {
+  it('sorts the reminder days and drops any on or after the deadline', () => {
+    expect(getReminderSchedule({ ...RULE, reminderDays: [10, 3, 3, 14, 20] })).toEqual([3, 10])
+  })
+})
+
+describe('getFollowupStage', () => {
+  it('counts the reminder days that have passed', () => {
+    expect(getFollowupStage(CLOSED_AT, daysAfterClose(1), RULE)).toBe(0)
+    expect(getFollowupStage(CLOSED_AT, daysAfterClose(3), RULE)).toBe(1)
+    expect(getFollowupStage(CLOSED_AT, daysAfterClose(8), RULE)).toBe(2)
+  })
+
+  it('is the last stage once the deadline has passed', () => {
+    expect(getFollowupStage(CLOSED_AT, daysAfterClose(14), RULE)).toBe(3)
+    expect(getFollowupStage(CLOSED_AT, daysAfterClose(60), RULE)).toBe(3)
+  })
+
+  it('goes straight to the deadline without reminders', () => {
+    const rule = { ...RULE, reminderDays: [] }
+    expect(getFollowupStage(CLOSED_AT, daysAfterClose(7), rule)).toBe(0)
+    expect(getFollowupStage(CLOSED_AT, daysAfterClose(14), rule)).toBe(1)
+  })
+})
+
+describe('planFollowup', () => {
+  it('does nothing when the stage has not moved', () => {
+    expect(planFollowup(0, 0, RULE)).toEqual({ remind: false, deadline: false })
+    expect(planFollowup(3, 3, RULE)).toEqual({ remind: false, deadline: false })
+  })
+
+  it('sends a reminder for a new reminder stage', () => {
+    expect(planFollowup(0, 1, RULE)).toEqual({ remind: true, deadline: false })
+    expect(planFollowup(0, 2, RULE)).toEqual({ remind: true, deadline: false })
+  })
+
+  it('applies the deadline without a last reminder', () => {
+    expect(planFollowup(1, 3, RULE)).toEqual({ remind: false, deadline: true })
+    expect(planFollowup(0, 3, RULE)).toEqual({ remind: false, deadline: true })
+  })
+})
+
+const EVENT = {
+  eventName: 'Spring 200',
+  eventDate: 'June 14, 2025',
+  eventDistance: 200,
+  chapterName: 'Toronto',
+}
+
+describe('buildResultSubmissionRequestEmail reminder', () => {
+  const data = {
+    ...EVENT,
+    riderName: 'Jane Doe',
+    riderEmail: 'jane@example.com',
+    submissionUrl: 'https://randonneursontario.ca/results/submit/abc123',
+  }
+
+  it('mentions the deadline', () => {
+    const { subject, text } = buildResultSubmissionRequestEmail({
+      ...data,
+      reminder: { deadline: 'June 28, 2025', deadlineAction: 'flag' },
+    })
+
+    expect(subject).toBe('Reminder: Submit Your Results: Spring 200 200km')
+    expect(text).toContain('Please submit them by June 28, 2025.')
+    expect(text).not.toContain('listed as DNS')
+    expect(text).toContain(data.submissionUrl)
+  })
+
+  it('warns riders they will be marked DNS', () => {
+    const { text } = buildResultSubmissionRequestEmail({
+      ...data,
+      reminder: { deadline: 'June 28, 2025', deadlineAction: 'dns' },
+    })
+
+    expect(text).toContain("after which you'll be listed as DNS (did not start)")
+  })
+})
+
+describe('buildResultsDigestEmail', () => {
+  const data = {
+    ...EVENT,
+    riders: [
+      {
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        adminUrl: 'https://randonneursontario.ca/admin/events/e1#rider-r1',
+      },
+      {
+        name: 'John Smith',
+        email: null,
+        adminUrl: 'https://randonneursontario.ca/admin/events/e1#rider-r2',
+      },
+    ],
+    stepLabel: 'Result reminder 1 of 2 sent',
+    deadline: 'June 28, 2025',
+    deadlineAction: 'flag' as const,
+    deadlinePassed: false,
+    adminEventUrl: 'https://randonneursontario.ca/admin/events/e1',
+  }
+
+  it('lists riders without results with links to the event page', () => {
+    const { subject, text, html } = buildResultsDigestEmail(data)
+
+    expect(subject).toBe('Awaiting Results: Spring 200 200km (2 not yet submitted)')
+    expect(text).toContain("flagged if there's no response by June 28, 2025")
+    expect(text).toContain(
+      '- Jane Doe <jane@example.com>\n  https://randonneursontario.ca/admin/events/e1#rider-r1'
+    )
+    expect(text).toContain('- John Smith\n')
+    expect(html).toContain('href="https://randonneursontario.ca/admin/events/e1#rider-r2"')
+  })
+
+  it('says riders were marked DNS once the deadline has passed', () => {
+    const { subject, text } = buildResultsDigestEmail({
+      ...data,
+      stepLabel: 'The results submission deadline has passed',
+      deadlineAction: 'dns',
+      deadlinePassed: true,
+    })
+
+    expect(subject).toBe('Results Deadline Passed: Spring 200 200km (2 without results)')
+    expect(text).toContain('these riders have been marked DNS')
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import {
+  clusterDuplicatePairs,
+  findCandidatePairs,
+  getDismissedPairKeys,
+  getPairKey,
+  scoreCandidatePair,
+  type DuplicatePair,
+  type DuplicateRider,
+  type RiderHistory,
+} from '@/lib/riders/duplicates'
+
+function rider(id: string, firstName: string, lastName: string, email: string | null = null) {
+  return { id, firstName, lastName, email } satisfies DuplicateRider
+}
+
+function history(eventIds: string[] = [], seasons: number[] = []): RiderHistory {
+  return { eventIds: new Set(eventIds), seasons: new Set(seasons) }
+}
+
+function pairIds(riders: DuplicateRider[], dismissed?: Set<string>) {
+  return findCandidatePairs(riders, dismissed).map((p) => p.riderIds.join('+'))
+}
+
+describe('findCandidatePairs', () => {
+  it('pairs nicknames and surname typos', () => {
+    const riders = [
+      rider('a', 'Bob', 'Smith'),
+      rider('b', 'Robert', 'Smith'),
+      rider('c', 'Katherine', 'McDonald'),
+      rider('d', 'Katherine', 'MacDonald'),
+    ]
+
+    expect(pairIds(riders)).toEqual(expect.arrayContaining(['a+b', 'c+d']))
+    expect(pairIds(riders)).not.toContain('a+c')
+  })
+
+  it('does not pair different first names with the same surname', () => {
+    expect(pairIds([rider('a', 'John', 'Smith'), rider('b', 'Jane', 'Smith')])).toEqual([])
+  })
+
+  it('pairs riders with the same email whatever their names', () => {
+    const pairs = findCandidatePairs([
+      rider('a', 'Xinhua', 'Li', 'luke@example.com'),
+      rider('b', 'Luke', 'Lee', 'Luke@Example.com '),
+    ])
+
+    expect(pairs).toEqual([expect.objectContaining({ riderIds: ['a', 'b'], sameEmail: true })])
+  })
+
+  it('skips dismissed pairs', () => {
+    const riders = [rider('a', 'Bob', 'Smith'), rider('b', 'Robert', 'Smith')]
+    const dismissed = getDismissedPairKeys([['b', 'a']])
+
+    expect(pairIds(riders, dismissed)).toEqual([])
+  })
+})
+
+describe('getDismissedPairKeys', () => {
+  it('covers every pair in a dismissed cluster', () => {
+    const keys = getDismissedPairKeys([['a', 'b', 'c']])
+
+    expect(keys).toEqual(
+      new Set([getPairKey('a', 'b'), getPairKey('a', 'c'), getPairKey('b', 'c')])
+    )
+    expect(getPairKey('c', 'a')).toBe(getPairKey('a', 'c'))
+  })
+})
+
+describe('scoreCandidatePair', () => {
+  const bob = rider('a', 'Bob', 'Smith')
+  const robert = rider('b', 'Robert', 'Smith')
+  const pair = { riderIds: ['a', 'b'] as [string, string], nameScore: 1, sameEmail: false }
+
+  it('keeps matching names with no events in common', () => {
+    const result = scoreCandidatePair(
+      pair,
+      bob,
+      robert,
+      history(['e1'], [2015]),
+      history(['e2'], [2015])
+    )
+
+    expect(result).toEqual({
+      riderIds: ['a', 'b'],
+      score: 1,
+      reasons: ['Same name', 'Active in the same seasons', 'No events in common'],
+    })
+  })
+
+  it('drops riders who rode the same event', () => {
+    expect(scoreCandidatePair(pair, bob, robert, history(['e1']), history(['e1']))).toBeNull()
+  })
+
+  it('keeps riders on the same event when they share an email', () => {
+    const result = scoreCandidatePair(
+      { ...pair, nameScore: 0.5, sameEmail: true },
+      rider('a', 'Bob', 'Smith', 'bob@example.com'),
+      rider('b', 'Rob', 'Smyth', 'bob@example.com'),
+      history(['e1']),
+      history(['e1'])
+    )
+
+    expect(result).toEqual(expect.objectContaining({ score: 0.8, reasons: ['Same email'] }))
+  })
+
+  it('lowers the score for different emails', () => {
+    const result = scoreCandidatePair(
+      { ...pair, nameScore: 0.88 },
+      rider('a', 'Mark', 'Jones', 'mark@example.com'),
+      rider('b', 'Mark', 'Johns', 'mj@example.com'),
+      history(),
+      history()
+    )
+
+    expect(result).toBeNull()
+  })
+})
+
+describe('clusterDuplicatePairs', () => {
+  it('joins pairs that share a rider and averages their scores', () => {
+    const pairs: DuplicatePair[] = [
+      { riderIds: ['a', 'b'], score: 1, reasons: ['Same name'] },
+      { riderIds: ['b', 'c'], score: 0.9, reasons: ['Similar names', 'No events in common'] },
+      { riderIds: ['x', 'y'], score: 0.85, reasons: ['Same email'] },
+    ]
+
+    expect(clusterDuplicatePairs(pairs)).toEqual([
+      {
+        key: 'a:b:c',
+        riderIds: ['a', 'b', 'c'],
+        score: 0.95,
+        reasons: ['Same name', 'Similar names', 'No events in common'],
+      },
+      { key: 'x:y', riderIds: ['x', 'y'], score: 0.85, reasons: ['Same email'] },
+    ])
+  })
+})
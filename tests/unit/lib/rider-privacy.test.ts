@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/lib/supabase-server', () => ({
+  getSupabaseAdmin: vi.fn(),
+}))
+
+import {
+  getPublicNamePart,
+  getPublicRiderName,
+  getPublicRiderSlug,
+  isProfileVisibility,
+} from '@/lib/riders/privacy'
+import { buildRiderDataExportCsv, type RiderDataExport } from '@/lib/riders/data-export'
+
+describe('rider privacy helpers', () => {
+  it('shows full names for public and hidden riders', () => {
+    expect(getPublicRiderName('Jane', 'Doe', 'public')).toBe('Jane Doe')
+    expect(getPublicRiderName('Jane', 'Doe', 'hidden')).toBe('Jane Doe')
+  })
+
+  it('shows initials only when asked', () => {
+    expect(getPublicRiderName('jane', 'van Dyke', 'initials')).toBe('J. V.')
+    expect(getPublicNamePart('', 'initials')).toBe('')
+  })
+
+  it('only gives public riders a profile slug', () => {
+    expect(getPublicRiderSlug('jane-doe', 'public')).toBe('jane-doe')
+    expect(getPublicRiderSlug('jane-doe', 'initials')).toBeNull()
+    expect(getPublicRiderSlug('jane-doe', 'hidden')).toBeNull()
+  })
+
+  it('recognizes visibility settings', () => {
+    expect(isProfileVisibility('initials')).toBe(true)
+    expect(isProfileVisibility('friends')).toBe(false)
+    expect(isProfileVisibility(null)).toBe(false)
+  })
+})
+
+describe('buildRiderDataExportCsv', () => {
+  const data: RiderDataExport = {
+    exportedAt: '2026-10-19T12:00:00.000Z',
+    profile: {
+      id: 'rider-1',
+      first_name: 'Jane',
+      last_name: 'Doe',
+      email: 'jane@example.com',
+      gender: 'F',
+      emergency_contact_name: 'Sam "Sammy" Doe',
+      emergency_contact_phone: null,
+      rider_number: 1042,
+      slug: 'jane-doe',
+      profile_visibility: 'public',
+      exclude_from_records: false,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: null,
+    },
+    registrations: [],
+    results: [
+      {
+        id: 'result-1',
+        status: 'finished',
+        finish_time: '09:45:00',
+        season: 2026,
+        distance_km: 200,
+        team_name: null,
+        note: null,
+        rider_notes: 'Windy, cold',
+        medal_requested: false,
+        homologation_number: null,
+        gpx_url: null,
+        submitted_at: null,
+        events: { name: 'Spring Classic', event_date: '2026-05-02' },
+      },
+    ],
+    memberships: [],
+    registrationDetails: [],
+    emails: [
+      {
+        created_at: '2026-05-01T00:00:00Z',
+        sent_at: null,
+        status: 'sent',
+        kind: 'registration',
+        subject: 'You are registered',
+        to_emails: ['jane@example.com', 'organizer@example.com'],
+      },
+    ],
+    dataRequests: [],
+  }
+
+  it('writes one row per value with nested fields flattened', () => {
+    const lines = buildRiderDataExportCsv(data).split('\r\n')
+
+    expect(lines[0]).toBe('section,item,field,value')
+    expect(lines).toContain('export,1,exported_at,2026-10-19T12:00:00.000Z')
+    expect(lines).toContain('profile,1,email,jane@example.com')
+    expect(lines).toContain('profile,1,emergency_contact_phone,')
+    expect(lines).toContain('results,1,events.name,Spring Classic')
+    expect(lines).toContain('emails,1,to_emails,jane@example.com; organizer@example.com')
+  })
+
+  it('escapes quotes and commas', () => {
+    const lines = buildRiderDataExportCsv(data).split('\r\n')
+
+    expect(lines).toContain('profile,1,emergency_contact_name,"Sam ""Sammy"" Doe"')
+    expect(lines).toContain('results,1,rider_notes,"Windy, cold"')
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { parseRouteFile, getRouteFileFormat, haversineKm } from '@/lib/routes/route-file'
+
+// Ten points heading due north, 0.01° (~1.11 km) apart
+const LATS = Array.from({ length: 10 }, (_, i) => (43 + i * 0.01).toFixed(2))
+const ELEVATIONS = [100, 101, 102, 110, 108, 120, 119, 118, 130, 130]
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>Metadata Name</name></metadata>
+  <wpt lat="43.00" lon="-79.5"><name>Start &amp; Finish</name></wpt>
+  <wpt lat="43.05" lon="-79.5001"><name>Uxbridge</name></wpt>
+  <wpt lat="44.00" lon="-79.5"><name>Hotel</name></wpt>
+  <wpt lat="43.02" lon="-79.5"></wpt>
+  <trk>
+    <name>Uxbridge 10</name>
+    <trkseg>
+${LATS.map((lat, i) => `      <trkpt lat="${lat}" lon="-79.5"><ele>${ELEVATIONS[i]}</ele></trkpt>`).join('\n')}
+    </trkseg>
+  </trk>
+</gpx>`
+
+const TCX = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Courses>
+    <Course>
+      <Name>Uxbridge TCX</Name>
+      <Track>
+${LATS.map(
+  (lat) => `        <Trackpoint>
+          <Time>2026-06-06T10:00:00Z</Time>
+          <Position><LatitudeDegrees>${lat}</LatitudeDegrees><LongitudeDegrees>-79.5</LongitudeDegrees></Position>
+        </Trackpoint>`
+).join('\n')}
+      </Track>
+      <CoursePoint>
+        <Name>Port Perry</Name>
+        <Position><LatitudeDegrees>43.09</LatitudeDegrees><LongitudeDegrees>-79.5</LongitudeDegrees></Position>
+      </CoursePoint>
+    </Course>
+  </Courses>
+</TrainingCenterDatabase>`
+
+describe('parseRouteFile', () => {
+  it('reads track length, name and elevation gain from GPX', () => {
+    const { route, error } = parseRouteFile(GPX)
+
+    expect(error).toBeUndefined()
+    expect(route?.format).toBe('gpx')
+    expect(route?.name).toBe('Uxbridge 10')
+    expect(route?.points).toHaveLength(10)
+    expect(route?.distanceKm).toBe(10)
+    // 100 → 110 (+10), 108 → 120 (+12), 118 → 130 (+12); smaller wiggles are ignored
+    expect(route?.elevationGainM).toBe(34)
+  })
+
+  it('places named waypoints on the track by cumulative km', () => {
+    const { route } = parseRouteFile(GPX)
+
+    expect(route?.waypoints.map((w) => [w.name, w.distanceKm])).toEqual([
+      ['Start & Finish', 0],
+      ['Uxbridge', 5.6],
+    ])
+  })
+
+  it('reads TCX courses and course points', () => {
+    const { route, error } = parseRouteFile(TCX)
+
+    expect(error).toBeUndefined()
+    expect(route?.format).toBe('tcx')
+    expect(route?.name).toBe('Uxbridge TCX')
+    expect(route?.distanceKm).toBe(10)
+    expect(route?.elevationGainM).toBeNull()
+    expect(route?.points[0].time).toBe('2026-06-06T10:00:00Z')
+    expect(route?.waypoints).toEqual([
+      { name: 'Port Perry', lat: 43.09, lon: -79.5, distanceKm: 10 },
+    ])
+  })
+
+  it('falls back to route points when a GPX has no track', () => {
+    const gpx = `<gpx><rte>
+      <rtept lat="43.00" lon="-79.5"/>
+      <rtept lat="43.01" lon="-79.5"/>
+    </rte></gpx>`
+
+    expect(parseRouteFile(gpx).route?.distanceKm).toBe(1.1)
+  })
+
+  it('rejects files that are not GPX or TCX', () => {
+    expect(parseRouteFile('<kml></kml>').error).toBe('File is not a GPX or TCX route file')
+  })
+
+  it('rejects files without a track', () => {
+    expect(parseRouteFile('<gpx><wpt lat="43" lon="-79"/></gpx>').error).toBe(
+      'Route file has no track points'
+    )
+  })
+})
+
+describe('getRouteFileFormat', () => {
+  it('detects the format from the file name', () => {
+    expect(getRouteFileFormat('route.GPX')).toBe('gpx')
+    expect(getRouteFileFormat('course.tcx')).toBe('tcx')
+    expect(getRouteFileFormat('route.fit')).toBeNull()
+  })
+})
+
+describe('haversineKm', () => {
+  it('measures one degree of latitude as about 111 km', () => {
+    expect(haversineKm({ lat: 43, lon: -79 }, { lat: 44, lon: -79 })).toBeCloseTo(111.2, 1)
+  })
+})
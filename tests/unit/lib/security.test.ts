@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest'
-import { buildRegistrationConfirmationEmail, buildResultSubmissionRequestEmail } from '@/lib/email/templates'
+import {
+  buildRegistrationConfirmationEmail,
+  buildResultSubmissionRequestEmail,
+  buildRegistrationChangeEmail,
+  buildEventReminderEmail,
+  buildEventRosterEmail,
+  buildResultsDigestEmail,
+  buildPermanentRequestUpdateEmail,
+} from '@/lib/email/templates'
 
 describe('Email template HTML escaping', () => {
   const baseData = {
@@ -84,6 +92,17 @@ describe('Email template HTML escaping', () => {
     // The href value is escaped for HTML attributes
   })
 
+  it('escapes HTML in manage URL attribute', () => {
+    const data = {
+      ...baseData,
+      manageUrl: '"><script>alert(1)</script>',
+    }
+    const { html } = buildRegistrationConfirmationEmail(data)
+
+    expect(html).not.toContain('"><script>')
+    expect(html).toContain('&quot;&gt;&lt;script&gt;')
+  })
+
   it('does not modify plain text version', () => {
     const data = {
       ...baseData,
@@ -141,6 +160,156 @@ describe('Result submission email HTML escaping', () => {
   })
 })
 
+describe('Registration change email HTML escaping', () => {
+  const baseData = {
+    riderName: 'Jane Doe',
+    riderEmail: 'jane@example.com',
+    eventName: 'Ottawa Brevet',
+    eventDate: 'Saturday, July 1, 2025',
+    eventDistance: 300,
+    chapterName: 'Ottawa',
+    chapterSlug: 'ottawa',
+    changeLabel: 'Emergency Contact Updated',
+    changes: ['Emergency contact: John Doe (555-1234)'],
+  }
+
+  it('escapes HTML in rider-supplied change details', () => {
+    const data = {
+      ...baseData,
+      changes: ['Emergency contact: <script>alert(1)</script> (555-1234)'],
+    }
+    const { html, text } = buildRegistrationChangeEmail(data)
+
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;')
+    expect(text).toContain('- Emergency contact: <script>alert(1)</script> (555-1234)')
+  })
+})
+
+describe('Pre-ride email HTML escaping', () => {
+  const eventData = {
+    eventName: 'Ottawa Brevet',
+    eventDate: 'Saturday, July 1, 2025',
+    eventTime: '7:00 AM',
+    eventLocation: 'Tim Hortons, Kanata',
+    eventDistance: 300,
+    chapterName: 'Ottawa',
+  }
+
+  it('escapes HTML in the chapter checklist and control addresses', () => {
+    const { html } = buildEventReminderEmail({
+      ...eventData,
+      riderName: 'Jane Doe',
+      riderEmail: 'jane@example.com',
+      eventUrl: 'https://randonneursontario.ca/register/ottawa-brevet',
+      controls: [{ name: 'Start', distanceKm: 0, address: '<img src=x onerror=alert(1)>' }],
+      checklist: '<script>alert(1)</script>',
+    })
+
+    expect(html).not.toContain('<script>')
+    expect(html).not.toContain('<img')
+    expect(html).toContain('&lt;script&gt;')
+  })
+
+  it('escapes HTML in rider-supplied emergency contacts', () => {
+    const { html, text } = buildEventRosterEmail({
+      ...eventData,
+      riders: [
+        {
+          name: 'Jane Doe',
+          email: 'jane@example.com',
+          emergencyContactName: '<script>alert(1)</script>',
+          emergencyContactPhone: '555-1234',
+        },
+      ],
+      waitlistedCount: 0,
+      adminEventUrl: 'https://randonneursontario.ca/admin/events/event-1',
+    })
+
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;, 555-1234')
+    expect(text).toContain('Emergency contact: <script>alert(1)</script>, 555-1234')
+  })
+
+  it('escapes HTML in rider names in the results digest', () => {
+    const { html } = buildResultsDigestEmail({
+      eventName: 'Ottawa Brevet',
+      eventDate: 'July 1, 2025',
+      eventDistance: 300,
+      chapterName: 'Ottawa',
+      riders: [
+        {
+          name: '<script>alert(1)</script>',
+          email: 'jane@example.com',
+          adminUrl: 'https://randonneursontario.ca/admin/events/event-1#rider-r1',
+        },
+      ],
+      stepLabel: 'Result reminder 1 of 2 sent',
+      deadline: 'July 15, 2025',
+      deadlineAction: 'flag',
+      deadlinePassed: false,
+      adminEventUrl: 'https://randonneursontario.ca/admin/events/event-1',
+    })
+
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+  })
+})
+
+describe('Permanent request email HTML escaping', () => {
+  const baseData = {
+    riderName: 'Jane Doe',
+    riderEmail: 'jane@example.com',
+    eventName: 'Lakeshore 200',
+    eventDistance: 200,
+    chapterName: 'Toronto',
+    chapterSlug: 'toronto',
+    eventDate: 'Monday, June 1, 2026',
+    eventTime: '7:00 AM',
+    eventLocation: 'Tim Hortons',
+  }
+
+  it('escapes HTML in the coordinator note and proposed start location', () => {
+    const { subject, html, text } = buildPermanentRequestUpdateEmail({
+      ...baseData,
+      decision: 'proposed',
+      proposed: {
+        eventDate: 'Monday, June 8, 2026',
+        eventTime: '7:00 AM',
+        eventLocation: '<img src=x onerror=alert(1)>',
+      },
+      note: '<script>alert(1)</script>',
+      manageUrl: 'https://randonneursontario.ca/register/manage/token-1',
+    })
+
+    expect(subject).toBe('Change Proposed: Lakeshore 200 200km')
+    expect(html).not.toContain('<script>')
+    expect(html).not.toContain('<img')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(text).toContain('Date: Monday, June 1, 2026 → Monday, June 8, 2026')
+  })
+
+  it('lists control times only for approvals', () => {
+    const controls = [
+      { name: '<b>Start</b>', distanceKm: 0, opens: 'Mon 07:00', closes: 'Mon 08:00' },
+    ]
+    const approved = buildPermanentRequestUpdateEmail({
+      ...baseData,
+      decision: 'approved',
+      controls,
+    })
+    const rejected = buildPermanentRequestUpdateEmail({
+      ...baseData,
+      decision: 'rejected',
+      controls,
+    })
+
+    expect(approved.html).toContain('&lt;b&gt;Start&lt;/b&gt;')
+    expect(approved.text).toContain('(open Mon 07:00, close Mon 08:00)')
+    expect(rejected.text).not.toContain('Controls:')
+  })
+})
+
 describe('Admin login redirect validation', () => {
   // Test the getSafeRedirectUrl logic that was added to the login page
   function getSafeRedirectUrl(redirect: string | null): string {
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  describeSeriesRule,
+  getSeriesCompletion,
+  isSeriesComplete,
+  planSeriesAward,
+  type SeriesResult,
+  type SeriesRule,
+} from '@/lib/series/completion'
+
+const DEVIL_WEEK: SeriesRule = { requiredDistances: [200, 300, 400, 600], minEvents: 1 }
+const GRANITE_ANVIL: SeriesRule = { requiredDistances: [], minEvents: 1 }
+
+function result(
+  id: string,
+  eventDate: string,
+  distanceKm: number,
+  status = 'finished'
+): SeriesResult {
+  return { id, status, distanceKm, eventDate }
+}
+
+describe('isSeriesComplete', () => {
+  it('requires an event for each distance', () => {
+    expect(isSeriesComplete([200, 300, 400, 600], DEVIL_WEEK)).toBe(true)
+    expect(isSeriesComplete([200, 300, 600], DEVIL_WEEK)).toBe(false)
+  })
+
+  it('counts each event towards one distance only', () => {
+    expect(isSeriesComplete([600], DEVIL_WEEK)).toBe(false)
+    expect(isSeriesComplete([600, 600, 600], DEVIL_WEEK)).toBe(false)
+  })
+
+  it('accepts a longer event in place of a shorter distance', () => {
+    expect(isSeriesComplete([300, 300, 400, 600], DEVIL_WEEK)).toBe(true)
+    expect(isSeriesComplete([210, 310, 400, 610], DEVIL_WEEK)).toBe(true)
+  })
+
+  it('does not use a long event for a short distance when it is needed', () => {
+    // Greedy by shortest covering event: 600 must go to the 600 requirement
+    expect(isSeriesComplete([600, 400, 300, 250], DEVIL_WEEK)).toBe(true)
+  })
+
+  it('enforces the minimum number of events', () => {
+    const rule = { requiredDistances: [200], minEvents: 3 }
+    expect(isSeriesComplete([200, 200], rule)).toBe(false)
+    expect(isSeriesComplete([200, 200, 200], rule)).toBe(true)
+  })
+
+  it('completes a series with no distances on any finish', () => {
+    expect(isSeriesComplete([1200], GRANITE_ANVIL)).toBe(true)
+    expect(isSeriesComplete([], GRANITE_ANVIL)).toBe(false)
+  })
+})
+
+describe('getSeriesCompletion', () => {
+  it('returns the finish that completed the series', () => {
+    const results = [
+      result('r600', '2026-06-21', 600),
+      result('r200', '2026-06-18', 200),
+      result('r400', '2026-06-20', 400),
+      result('r300', '2026-06-19', 300),
+    ]
+    expect(getSeriesCompletion(results, DEVIL_WEEK)).toBe('r600')
+  })
+
+  it('ignores results that are not finishes', () => {
+    const results = [
+      result('r200', '2026-06-18', 200),
+      result('r300', '2026-06-19', 300),
+      result('r400', '2026-06-20', 400),
+      result('r600', '2026-06-21', 600, 'dnf'),
+    ]
+    expect(getSeriesCompletion(results, DEVIL_WEEK)).toBeNull()
+  })
+})
+
+describe('planSeriesAward', () => {
+  const complete = [
+    result('r200', '2026-06-18', 200),
+    result('r300', '2026-06-19', 300),
+    result('r400', '2026-06-20', 400),
+    result('r600', '2026-06-21', 600),
+  ]
+
+  it('attaches the award to the completing result', () => {
+    expect(planSeriesAward(complete, DEVIL_WEEK, [])).toEqual({ attach: 'r600', revoke: [] })
+  })
+
+  it('keeps a stored award on a finished result', () => {
+    expect(planSeriesAward(complete, DEVIL_WEEK, ['r200'])).toEqual({ attach: null, revoke: [] })
+  })
+
+  it('moves an award off a result that is no longer a finish', () => {
+    const results = [...complete.slice(0, 3), result('r600', '2026-06-21', 600, 'dq')]
+    expect(planSeriesAward(results, DEVIL_WEEK, ['r600'])).toEqual({
+      attach: null,
+      revoke: ['r600'],
+    })
+  })
+
+  it('revokes every stored award when the series is incomplete', () => {
+    expect(planSeriesAward(complete.slice(0, 2), DEVIL_WEEK, ['r300'])).toEqual({
+      attach: null,
+      revoke: ['r300'],
+    })
+  })
+})
+
+describe('describeSeriesRule', () => {
+  it('lists the required distances', () => {
+    expect(describeSeriesRule(DEVIL_WEEK)).toBe('Finish a 200, 300, 400 and 600 km event')
+  })
+
+  it('mentions a minimum above the number of distances', () => {
+    expect(describeSeriesRule({ requiredDistances: [200], minEvents: 3 })).toBe(
+      'Finish a 200 km event (at least 3 events in all)'
+    )
+  })
+
+  it('describes a series with no distances', () => {
+    expect(describeSeriesRule(GRANITE_ANVIL)).toBe('Finish any event')
+    expect(describeSeriesRule({ requiredDistances: [], minEvents: 2 })).toBe('Finish any 2 events')
+  })
+})
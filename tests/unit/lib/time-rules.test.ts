@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { computeControlTimes } from '@/lib/brmTimes'
+import {
+  getTimeRuleSet,
+  BRM_RULES,
+  LRM_RULES,
+  POPULAIRE_RULES,
+  FLECHE_RULES,
+  PERMANENT_RULES,
+} from '@/lib/time-rules'
+
+const start = new Date('2026-06-06T11:00:00Z')
+
+describe('getTimeRuleSet', () => {
+  it('picks rules from the event type', () => {
+    expect(getTimeRuleSet('brevet', 200)).toBe(BRM_RULES)
+    expect(getTimeRuleSet('populaire', 100)).toBe(POPULAIRE_RULES)
+    expect(getTimeRuleSet('fleche', 360)).toBe(FLECHE_RULES)
+  })
+
+  it('uses LRM rules for brevets over 1000 km', () => {
+    expect(getTimeRuleSet('brevet', 1200)).toBe(LRM_RULES)
+  })
+
+  it('uses permanent rules for permanents of any distance', () => {
+    expect(getTimeRuleSet('permanent', 120)).toBe(PERMANENT_RULES)
+    expect(getTimeRuleSet('permanent', 300)).toBe(PERMANENT_RULES)
+    expect(getTimeRuleSet('permanent', 1300)).toBe(PERMANENT_RULES)
+  })
+})
+
+describe('overall time limits', () => {
+  it('uses nominal brevet limits', () => {
+    expect(BRM_RULES.finishLimitMinutes(200)).toBe(13 * 60 + 30)
+    expect(BRM_RULES.finishLimitMinutes(600)).toBe(40 * 60)
+  })
+
+  it('uses LRM limits for 1200 km and up', () => {
+    expect(LRM_RULES.finishLimitMinutes(1200)).toBe(90 * 60)
+    expect(LRM_RULES.finishLimitMinutes(1300)).toBe(108 * 60 + 20)
+    expect(LRM_RULES.finishLimitMinutes(1400)).toBe(116 * 60 + 40)
+  })
+
+  it('gives populaires 15 km/h overall instead of 200 km limits', () => {
+    expect(POPULAIRE_RULES.finishLimitMinutes(100)).toBe(6 * 60 + 40)
+  })
+
+  it('gives permanents the limit for their distance', () => {
+    expect(PERMANENT_RULES.finishLimitMinutes(120)).toBe(8 * 60)
+    expect(PERMANENT_RULES.finishLimitMinutes(300)).toBe(20 * 60)
+    expect(PERMANENT_RULES.finishLimitMinutes(1300)).toBe(108 * 60 + 20)
+  })
+
+  it('gives flèches 24 hours', () => {
+    expect(FLECHE_RULES.finishLimitMinutes(400)).toBe(24 * 60)
+  })
+})
+
+describe('computeControlTimes', () => {
+  it('computes brevet intermediate and finish controls', () => {
+    const mid = computeControlTimes(start, 100, BRM_RULES, 203)
+    expect(mid.openMin).toBe(176) // 100 km at 34 km/h
+    expect(mid.closeMin).toBe(400) // 100 km at 15 km/h
+
+    const finish = computeControlTimes(start, 203, BRM_RULES, 203)
+    expect(finish.closeMin).toBe(13 * 60 + 30)
+    expect(finish.closeAt.toISOString()).toBe('2026-06-07T00:30:00.000Z')
+  })
+
+  it('closes early populaire controls at 1h + 20 km/h', () => {
+    expect(computeControlTimes(start, 0, POPULAIRE_RULES, 100).closeMin).toBe(60)
+    expect(computeControlTimes(start, 40, POPULAIRE_RULES, 100).closeMin).toBe(180)
+    expect(computeControlTimes(start, 100, POPULAIRE_RULES, 100).closeMin).toBe(400)
+  })
+
+  it('closes permanent controls on the brevet tables', () => {
+    expect(computeControlTimes(start, 40, PERMANENT_RULES, 120).closeMin).toBe(160)
+    expect(computeControlTimes(start, 120, PERMANENT_RULES, 120).closeMin).toBe(8 * 60)
+  })
+
+  it('keeps flèche controls open for the full 24 hours', () => {
+    const control = computeControlTimes(start, 180, FLECHE_RULES, 360)
+    expect(control.openMin).toBe(0)
+    expect(control.closeMin).toBe(24 * 60)
+  })
+})
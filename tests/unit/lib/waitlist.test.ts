@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const mockCount = vi.fn()
+const mockEvent = vi.fn()
+const mockNextInLine = vi.fn()
+const mockPromoted = vi.fn()
+
+vi.mock('@/lib/supabase-server', () => ({
+  getSupabaseAdmin: vi.fn(() => {
+    const builder: Record<string, unknown> = {}
+    let updating = false
+    for (const method of ['select', 'eq', 'order', 'limit']) {
+      builder[method] = vi.fn(() => builder)
+    }
+    builder.update = vi.fn(() => {
+      updating = true
+      return builder
+    })
+    builder.single = vi.fn(() => Promise.resolve({ data: mockEvent(), error: null }))
+    builder.maybeSingle = vi.fn(() =>
+      Promise.resolve({ data: updating ? mockPromoted() : mockNextInLine(), error: null })
+    )
+    builder.then = (resolve: (value: unknown) => void) => resolve({ count: mockCount() })
+    return { from: vi.fn(() => builder) }
+  }),
+}))
+
+vi.mock('@/lib/email/send-registration-email', () => ({
+  sendWaitlistPromotionEmail: vi.fn().mockResolvedValue({ success: true }),
+}))
+
+import {
+  hasCapacity,
+  getEventCapacity,
+  getRegistrationSlotStatus,
+  promoteFromWaitlist,
+} from '@/lib/registrations/waitlist'
+import { sendWaitlistPromotionEmail } from '@/lib/email/send-registration-email'
+
+describe('hasCapacity', () => {
+  it('always has capacity when there is no limit', () => {
+    expect(hasCapacity(null, 0)).toBe(true)
+    expect(hasCapacity(null, 500)).toBe(true)
+  })
+
+  it('has capacity while below the limit', () => {
+    expect(hasCapacity(10, 9)).toBe(true)
+  })
+
+  it('is full at or above the limit', () => {
+    expect(hasCapacity(10, 10)).toBe(false)
+    expect(hasCapacity(10, 11)).toBe(false)
+  })
+})
+
+describe('getEventCapacity', () => {
+  beforeEach(() => {
+    mockCount.mockReset()
+  })
+
+  it('skips the count query for uncapped events', async () => {
+    const capacity = await getEventCapacity('event-1', null)
+
+    expect(capacity).toEqual({ maxRiders: null, registeredCount: 0, isFull: false })
+    expect(mockCount).not.toHaveBeenCalled()
+  })
+
+  it('reports full when registered riders reach the limit', async () => {
+    mockCount.mockReturnValue(20)
+
+    const capacity = await getEventCapacity('event-1', 20)
+
+    expect(capacity).toEqual({ maxRiders: 20, registeredCount: 20, isFull: true })
+  })
+})
+
+describe('getRegistrationSlotStatus', () => {
+  beforeEach(() => {
+    mockCount.mockReset()
+  })
+
+  it('registers riders while spots remain', async () => {
+    mockCount.mockReturnValue(5)
+    expect(await getRegistrationSlotStatus('event-1', 20)).toBe('registered')
+  })
+
+  it('waitlists riders once the event is full', async () => {
+    mockCount.mockReturnValue(20)
+    expect(await getRegistrationSlotStatus('event-1', 20)).toBe('waitlisted')
+  })
+})
+
+describe('promoteFromWaitlist', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockCount.mockReturnValue(19)
+    mockEvent.mockReturnValue({
+      id: 'event-1',
+      slug: 'spring-200',
+      status: 'scheduled',
+      name: 'Spring 200',
+      event_date: '2026-05-02',
+      start_time: '07:00',
+      start_location: null,
+      distance_km: 200,
+      event_type: 'brevet',
+      max_riders: 20,
+      chapters: { slug: 'toronto', name: 'Toronto' },
+    })
+    mockNextInLine.mockReturnValue({
+      id: 'reg-1',
+      rider_id: 'rider-1',
+      manage_token: 'token-1',
+      riders: { first_name: 'Jane', last_name: 'Doe', email: 'jane@example.com' },
+    })
+  })
+
+  it('promotes the next rider and emails them', async () => {
+    mockPromoted.mockReturnValue({ status: 'registered' })
+
+    expect(await promoteFromWaitlist('event-1')).toBe('rider-1')
+    expect(sendWaitlistPromotionEmail).toHaveBeenCalled()
+  })
+
+  it('leaves the rider waitlisted when the database finds the event full', async () => {
+    mockPromoted.mockReturnValue({ status: 'waitlisted' })
+
+    expect(await promoteFromWaitlist('event-1')).toBeNull()
+    expect(sendWaitlistPromotionEmail).not.toHaveBeenCalled()
+  })
+})
@@ -31,13 +31,25 @@ export function createMockEvent(overrides?: Partial<Event>): Event {
     route_id: null,
     description: null,
     image_url: null,
-    collection: null,
+    max_riders: null,
+    series_id: null,
     season: 2025,
     created_at: null,
     updated_at: null,
     external_register_url: null,
+    homologation_file_path: null,
     registration_opens_at: null,
     registration_closes_at: null,
+    send_reminders: true,
+    send_roster: true,
+    roster_sent_at: null,
+    results_followup_stage: 0,
+    proposed_event_date: null,
+    proposed_start_time: null,
+    proposed_start_location: null,
+    review_note: null,
+    reviewed_at: null,
+    reviewed_by: null,
     ...overrides,
   }
 }
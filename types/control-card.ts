@@ -1,4 +1,18 @@
-import type { NominalDistance } from '@/lib/brmTimes'
+/**
+ * How riders prove passage at a control
+ */
+export type ControlType = 'staffed' | 'info' | 'photo' | 'receipt'
+
+/**
+ * A saved control definition (route default or event override)
+ */
+export interface ControlDefinition {
+  name: string
+  distance: number // km from start
+  address: string | null
+  controlType: ControlType
+  infoQuestion: string | null // info controls: question the rider answers on the card
+}
 
 /**
  * A control point on a route
@@ -9,6 +23,8 @@ export interface ControlPoint {
   distance: number // km from start
   openTime: string // formatted time like "Thu 04h30"
   closeTime: string // formatted time like "Thu 05h30"
+  controlType?: ControlType
+  infoQuestion?: string | null
 }
 
 /**
@@ -37,7 +53,7 @@ export interface CardEvent {
   name: string
   routeName: string
   distance: number // actual distance in km
-  nominalDistance: NominalDistance
+  timeRules: string // name of the control time rule set, e.g. "ACP Brevet"
   date: Date
   startTime: string // formatted start time
   startLocation: string
@@ -0,0 +1,21 @@
+/**
+ * Outcome of one GPX check, or of the whole report (the worst of its checks)
+ */
+export type GpxCheckStatus = 'pass' | 'warn' | 'fail'
+
+/**
+ * A single check in a GPX verification report
+ */
+export interface GpxCheck {
+  label: string // e.g. "Control: Uxbridge (52.3 km)"
+  status: GpxCheckStatus
+  detail: string
+}
+
+/**
+ * Stored in results.gpx_verification
+ */
+export interface GpxVerificationReport {
+  status: GpxCheckStatus
+  checks: GpxCheck[]
+}
@@ -0,0 +1,13 @@
+import type { MembershipType } from './queries'
+
+/**
+ * A CCN member who could be the rider, stored on membership_reviews.candidates
+ */
+export interface MembershipCandidate {
+  membershipId: number
+  fullName: string
+  type: MembershipType
+  score: number // fuzzyNameScore against the rider's name, 0–1
+}
+
+export type MembershipReviewStatus = 'pending' | 'resolved' | 'dismissed'
@@ -7,6 +7,8 @@
  */
 
 import type { Database } from './supabase'
+import type { GpxVerificationReport } from './gpx-verification'
+import type { MembershipCandidate } from './membership-review'
 
 // Base table types
 export type Chapter = Database['public']['Tables']['chapters']['Row']
@@ -18,8 +20,20 @@ export type Result = Omit<Database['public']['Tables']['results']['Row'], 'finis
   finish_time: string | null
 }
 export type Registration = Database['public']['Tables']['registrations']['Row']
+export type RouteControl = Database['public']['Tables']['route_controls']['Row']
+export type EventControl = Database['public']['Tables']['event_controls']['Row']
 export type Membership = Database['public']['Tables']['memberships']['Row']
 export type MembershipInsert = Database['public']['Tables']['memberships']['Insert']
+export type MembershipReview = Database['public']['Tables']['membership_reviews']['Row']
+export type Award = Database['public']['Tables']['awards']['Row']
+export type PendingAward = Database['public']['Tables']['pending_awards']['Row']
+export type EventSeries = Database['public']['Tables']['event_series']['Row']
+export type EventSeriesInsert = Database['public']['Tables']['event_series']['Insert']
+export type EmailOutbox = Database['public']['Tables']['email_outbox']['Row']
+export type EmailOutboxInsert = Database['public']['Tables']['email_outbox']['Insert']
+export type RiderMergeSnapshot = Database['public']['Tables']['rider_merge_snapshots']['Row']
+export type RiderDuplicateCluster = Database['public']['Tables']['rider_duplicate_clusters']['Row']
+export type RiderDataRequest = Database['public']['Tables']['rider_data_requests']['Row']
 
 // Membership type enum for type safety
 export type MembershipType =
@@ -45,7 +59,10 @@ export type EventWithChapter = Event & {
  * Event with chapter and route information
  */
 export type EventWithRelations = Event & {
-  chapters: Pick<Chapter, 'id' | 'name' | 'slug'> | null
+  chapters: Pick<
+    Chapter,
+    'id' | 'name' | 'slug' | 'registration_opens_days_before' | 'registration_closes_hours_before'
+  > | null
   routes: Pick<Route, 'id' | 'slug' | 'rwgps_id' | 'cue_sheet_url'> | null
 }
 
@@ -128,7 +145,7 @@ export type RouteWithChapterName = Pick<
   Route,
   'id' | 'name' | 'slug' | 'distance_km' | 'chapter_id'
 > & {
-  chapters: Pick<Chapter, 'name'> | null
+  chapters: Pick<Chapter, 'name' | 'slug'> | null
 }
 
 /**
@@ -177,6 +194,9 @@ export type GetRegisteredRidersResult =
 export type GetDistinctSeasonsResult =
   Database['public']['Functions']['get_distinct_seasons']['Returns'][number]
 
+export type GetRouteRecordProgressionResult =
+  Database['public']['Functions']['get_route_record_progression']['Returns'][number]
+
 /**
  * Insert types (for create operations)
  */
@@ -200,6 +220,7 @@ export type RiderMergeInsert = Database['public']['Tables']['rider_merges']['Ins
  */
 export type RiderIdOnly = Pick<Rider, 'id'>
 export type EventIdOnly = Pick<Event, 'id'>
+export type EventIdWithStatus = Pick<Event, 'id' | 'status'>
 export type RouteIdOnly = Pick<Route, 'id'>
 
 /**
@@ -277,7 +298,16 @@ export type ResultForAdminList = Pick<
  */
 export type EventDetailForAdmin = Pick<
   Event,
-  'id' | 'name' | 'event_date' | 'start_time' | 'distance_km' | 'event_type' | 'status' | 'season'
+  | 'id'
+  | 'name'
+  | 'event_date'
+  | 'start_time'
+  | 'distance_km'
+  | 'event_type'
+  | 'status'
+  | 'season'
+  | 'max_riders'
+  | 'homologation_file_path'
 > & {
   chapters: Pick<Chapter, 'id' | 'name'> | null
 }
@@ -304,6 +334,14 @@ export type RegistrationWithRiderForAdmin = Pick<
     | null
 }
 
+/**
+ * Registration with rider and event for admin cancellation
+ */
+export type RegistrationForCancellation = Pick<Registration, 'id' | 'event_id' | 'status'> & {
+  riders: Pick<Rider, 'first_name' | 'last_name'> | null
+  events: Pick<Event, 'name' | 'slug' | 'event_date'> | null
+}
+
 /**
  * Result with rider for admin event page
  */
@@ -321,7 +359,12 @@ export type ResultWithRiderForAdmin = Pick<
   | 'control_card_back_path'
   | 'rider_notes'
   | 'submitted_at'
+  | 'gpx_verified_at'
+  | 'medal_requested'
+  | 'homologation_number'
+  | 'overdue_at'
 > & {
+  gpx_verification: GpxVerificationReport | null
   riders: Pick<Rider, 'id' | 'first_name' | 'last_name' | 'email'> | null
 }
 
@@ -349,6 +392,27 @@ export type RiderWithStats = Pick<
   memberships: Array<{ type: string; season: number }> | null
 }
 
+/**
+ * Rider in a possible-duplicate cluster, for the duplicates report
+ */
+export type DuplicateRiderForAdmin = Pick<
+  Rider,
+  'id' | 'first_name' | 'last_name' | 'email' | 'gender' | 'created_at'
+> & {
+  registrations: Array<{ count: number }> | null
+  results: Array<Pick<Result, 'season'>> | null
+}
+
+/**
+ * Possible-duplicate cluster with its riders, for the duplicates report
+ */
+export type DuplicateClusterForAdmin = Pick<
+  RiderDuplicateCluster,
+  'id' | 'score' | 'reasons' | 'created_at'
+> & {
+  riders: DuplicateRiderForAdmin[]
+}
+
 /**
  * Event detail for edit form
  */
@@ -365,6 +429,12 @@ export type EventDetailForEdit = Pick<
   | 'start_location'
   | 'description'
   | 'image_url'
+  | 'max_riders'
+  | 'registration_opens_at'
+  | 'registration_closes_at'
+  | 'series_id'
+  | 'send_reminders'
+  | 'send_roster'
 >
 
 /**
@@ -390,11 +460,53 @@ export type RegistrationForControlCards = Pick<Registration, 'id' | 'rider_id'>
   riders: Pick<Rider, 'id' | 'first_name' | 'last_name'> | null
 }
 
+/**
+ * Event for the day-of check-in console
+ */
+export type EventForDayOf = Pick<
+  Event,
+  'id' | 'name' | 'event_date' | 'start_time' | 'start_location' | 'distance_km' | 'season'
+> & {
+  chapters: Pick<Chapter, 'name' | 'slug'> | null
+}
+
+/**
+ * Registration with rider and emergency contact for the day-of roster
+ */
+export type RegistrationForDayOf = Pick<
+  Registration,
+  'id' | 'rider_id' | 'status' | 'notes' | 'checked_in_at'
+> & {
+  riders: Pick<
+    Rider,
+    | 'first_name'
+    | 'last_name'
+    | 'rider_number'
+    | 'emergency_contact_name'
+    | 'emergency_contact_phone'
+  > | null
+}
+
 /**
  * Rider detail for admin rider page
  */
 export type RiderDetail = Rider
 
+/**
+ * Merge into a rider, for the merge history on the admin rider page
+ */
+export type RiderMergeForAdmin = Pick<
+  RiderMergeSnapshot,
+  'id' | 'merged_at' | 'unmerged_at' | 'source_riders' | 'dropped_rows'
+> & {
+  merged_by_admin: { name: string } | null
+}
+
+/**
+ * Rider row as stored in a merge snapshot
+ */
+export type MergedRiderSnapshot = Pick<Rider, 'id' | 'first_name' | 'last_name' | 'email'>
+
 /**
  * Registration with event for rider page
  */
@@ -426,14 +538,24 @@ export type EventForCalendar = Pick<
   | 'distance_km'
   | 'event_type'
   | 'description'
->
+  | 'status'
+> & {
+  chapters?: Pick<Chapter, 'slug' | 'name'> | null
+}
+
+/**
+ * Registration with its event for a rider's personal calendar feed
+ */
+export type RegistrationForRiderCalendar = {
+  events: EventForCalendar | null
+}
 
 /**
  * Event for cron completion check
  */
 export type EventForCronCompletion = Pick<
   Event,
-  'id' | 'name' | 'event_date' | 'start_time' | 'distance_km'
+  'id' | 'name' | 'event_date' | 'start_time' | 'distance_km' | 'event_type'
 > & {
   chapters: Pick<Chapter, 'name'> | null
 }
@@ -482,6 +604,50 @@ export type RegistrationWithRider = Pick<Registration, 'id' | 'rider_id'> & {
  */
 export type ResultWithSubmissionToken = Pick<Result, 'submission_token'>
 
+/**
+ * Registration with manage token for confirmation emails, and the status it
+ * was stored with
+ */
+export type RegistrationWithManageToken = Pick<Registration, 'manage_token' | 'status'>
+
+/**
+ * Registration with event and rider for the self-service manage page
+ */
+export type RegistrationForManagement = Pick<
+  Registration,
+  'id' | 'event_id' | 'rider_id' | 'status'
+> & {
+  events:
+    | (Pick<
+        Event,
+        | 'id'
+        | 'slug'
+        | 'name'
+        | 'event_date'
+        | 'start_time'
+        | 'start_location'
+        | 'distance_km'
+        | 'event_type'
+        | 'status'
+        | 'proposed_event_date'
+        | 'proposed_start_time'
+        | 'proposed_start_location'
+        | 'review_note'
+      > & {
+        chapters: Pick<Chapter, 'name' | 'slug'> | null
+      })
+    | null
+  riders: Pick<
+    Rider,
+    | 'first_name'
+    | 'last_name'
+    | 'email'
+    | 'emergency_contact_name'
+    | 'emergency_contact_phone'
+    | 'calendar_token'
+  > | null
+}
+
 /**
  * Result with event and rider for submission page
  */
@@ -510,7 +676,10 @@ export type ResultForSubmission = Pick<
 /**
  * Result with event status for validation
  */
-export type ResultWithEventStatus = Pick<Result, 'id'> & {
+export type ResultWithEventStatus = Pick<
+  Result,
+  'id' | 'event_id' | 'rider_id' | 'season' | 'gpx_file_path'
+> & {
   events: Pick<Event, 'status'> | null
 }
 
@@ -548,3 +717,348 @@ export type NewsInsert = Database['public']['Tables']['news']['Insert']
  * News item update type
  */
 export type NewsUpdate = Database['public']['Tables']['news']['Update']
+
+/**
+ * Saved control fields shared by route_controls and event_controls
+ */
+export type ControlRow = Pick<
+  RouteControl,
+  'name' | 'distance_km' | 'address' | 'control_type' | 'info_question'
+>
+
+/**
+ * Pending CCN membership review for the admin review queue
+ */
+export type MembershipReviewForAdmin = Pick<MembershipReview, 'id' | 'season' | 'created_at'> & {
+  candidates: MembershipCandidate[]
+  riders: Pick<Rider, 'id' | 'first_name' | 'last_name' | 'email' | 'slug'> | null
+}
+
+/**
+ * Membership row for the admin memberships list
+ */
+export type MembershipForAdmin = Pick<
+  Membership,
+  'id' | 'season' | 'membership_id' | 'type' | 'source' | 'note' | 'created_at'
+> & {
+  riders: Pick<Rider, 'id' | 'first_name' | 'last_name' | 'email'> | null
+  admins: { name: string } | null
+}
+
+/**
+ * Registration waiting on a membership check, for the admin memberships page
+ */
+export type IncompleteRegistrationForAdmin = Pick<Registration, 'id' | 'registered_at'> & {
+  riders: Pick<Rider, 'id' | 'first_name' | 'last_name' | 'email'> | null
+  events: Pick<Event, 'id' | 'name' | 'event_date' | 'season'>
+}
+
+/**
+ * Newly earned award waiting to be published, for the admin awards page
+ */
+export type PendingAwardForAdmin = Pick<PendingAward, 'id' | 'created_at'> & {
+  awards: Pick<Award, 'id' | 'slug' | 'title' | 'description'>
+  results: Pick<Result, 'id' | 'season'> & {
+    riders: Pick<Rider, 'id' | 'first_name' | 'last_name'> | null
+    events: Pick<Event, 'id' | 'name' | 'event_date' | 'distance_km'> | null
+  }
+}
+
+/**
+ * Event series row for the admin series list
+ */
+export type EventSeriesForAdmin = Pick<
+  EventSeries,
+  'id' | 'slug' | 'name' | 'season' | 'collection' | 'required_distances' | 'min_events'
+> & {
+  awards: Pick<Award, 'title'> | null
+  events: Array<{ count: number }>
+}
+
+/**
+ * Event in a series, for the series page and series registration
+ */
+export type SeriesEvent = Pick<
+  Event,
+  | 'id'
+  | 'slug'
+  | 'name'
+  | 'event_date'
+  | 'start_time'
+  | 'start_location'
+  | 'distance_km'
+  | 'event_type'
+  | 'status'
+  | 'registration_opens_at'
+  | 'registration_closes_at'
+> & {
+  chapters: Pick<
+    Chapter,
+    'registration_opens_days_before' | 'registration_closes_hours_before'
+  > | null
+}
+
+/**
+ * Event series with its events, for the public series page
+ */
+export type EventSeriesWithEvents = EventSeries & {
+  awards: Pick<Award, 'title'> | null
+  events: SeriesEvent[]
+}
+
+/**
+ * Outbox message for the admin emails page
+ */
+export type EmailOutboxForAdmin = Pick<
+  EmailOutbox,
+  | 'id'
+  | 'kind'
+  | 'to_emails'
+  | 'cc_emails'
+  | 'subject'
+  | 'status'
+  | 'attempts'
+  | 'max_attempts'
+  | 'last_error'
+  | 'next_attempt_at'
+  | 'sent_at'
+  | 'created_at'
+  | 'resend_of'
+> & {
+  riders: Pick<Rider, 'id' | 'slug' | 'first_name' | 'last_name'> | null
+  events: Pick<Event, 'id' | 'name' | 'event_date'> | null
+}
+
+/**
+ * Upcoming event for the pre-ride reminder and roster emails
+ */
+export type EventForReminders = Pick<
+  Event,
+  | 'id'
+  | 'slug'
+  | 'name'
+  | 'event_date'
+  | 'start_time'
+  | 'start_location'
+  | 'distance_km'
+  | 'event_type'
+  | 'registration_opens_at'
+  | 'registration_closes_at'
+  | 'send_reminders'
+  | 'send_roster'
+  | 'roster_sent_at'
+> & {
+  chapters: Pick<
+    Chapter,
+    | 'name'
+    | 'slug'
+    | 'vp_email'
+    | 'route_coordinator_email'
+    | 'treasurer_email'
+    | 'registration_opens_days_before'
+    | 'registration_closes_hours_before'
+    | 'reminder_days_before'
+    | 'reminder_checklist'
+  > | null
+  routes: Pick<Route, 'slug'> | null
+}
+
+/**
+ * Registration awaiting its pre-ride reminder
+ */
+export type RegistrationForReminder = Pick<Registration, 'id' | 'rider_id' | 'manage_token'> & {
+  riders: Pick<Rider, 'first_name' | 'last_name' | 'email'> | null
+}
+
+/**
+ * Registration with the rider's emergency contact for the roster email
+ */
+export type RegistrationForRoster = Pick<Registration, 'id' | 'status' | 'registered_at'> & {
+  riders: Pick<
+    Rider,
+    'first_name' | 'last_name' | 'email' | 'emergency_contact_name' | 'emergency_contact_phone'
+  > | null
+}
+
+/**
+ * Completed event awaiting rider results, for the result follow-up job
+ */
+export type EventForResultFollowup = Pick<
+  Event,
+  | 'id'
+  | 'name'
+  | 'event_date'
+  | 'start_time'
+  | 'distance_km'
+  | 'event_type'
+  | 'results_followup_stage'
+> & {
+  chapters: Pick<
+    Chapter,
+    | 'name'
+    | 'vp_email'
+    | 'route_coordinator_email'
+    | 'treasurer_email'
+    | 'result_reminder_days'
+    | 'result_deadline_days'
+    | 'result_deadline_action'
+  > | null
+}
+
+/**
+ * Pending result with the rider's submission link details
+ */
+export type PendingResultForFollowup = Pick<Result, 'id' | 'rider_id' | 'submission_token'> & {
+  riders: Pick<Rider, 'first_name' | 'last_name' | 'email'> | null
+}
+
+/**
+ * Permanent request with its route, for review and rider notifications
+ */
+export type EventForPermanentRequest = Pick<
+  Event,
+  | 'id'
+  | 'slug'
+  | 'name'
+  | 'event_date'
+  | 'start_time'
+  | 'start_location'
+  | 'distance_km'
+  | 'event_type'
+  | 'status'
+  | 'route_id'
+  | 'proposed_event_date'
+  | 'proposed_start_time'
+  | 'proposed_start_location'
+  | 'review_note'
+> & {
+  chapters: Pick<Chapter, 'name' | 'slug'> | null
+  routes: Pick<Route, 'name' | 'slug'> | null
+}
+
+/**
+ * Rider on a permanent request, for decision emails
+ */
+export type RegistrationForPermanentRequest = Pick<
+  Registration,
+  'id' | 'rider_id' | 'status' | 'manage_token'
+> & {
+  riders: Pick<Rider, 'first_name' | 'last_name' | 'email'> | null
+}
+
+/**
+ * Permanent request in the admin approval queue
+ */
+export type PermanentRequestForAdmin = EventForPermanentRequest &
+  Pick<Event, 'created_at' | 'reviewed_at'> & {
+    registrations: (Pick<Registration, 'id' | 'status' | 'notes'> & {
+      riders: Pick<Rider, 'id' | 'first_name' | 'last_name' | 'email'> | null
+    })[]
+  }
+
+/**
+ * Signed-in rider's own record, for /account and registration pre-fill
+ */
+export type RiderAccount = Pick<
+  Rider,
+  | 'id'
+  | 'slug'
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'gender'
+  | 'emergency_contact_name'
+  | 'emergency_contact_phone'
+  | 'profile_visibility'
+  | 'exclude_from_records'
+>
+
+/**
+ * Registration with event for the rider's account page
+ */
+export type RegistrationForAccount = Pick<
+  Registration,
+  'id' | 'status' | 'registered_at' | 'manage_token'
+> & {
+  events:
+    | (Pick<Event, 'id' | 'slug' | 'name' | 'event_date' | 'distance_km' | 'status'> & {
+        chapters: Pick<Chapter, 'name'> | null
+      })
+    | null
+}
+
+/**
+ * Result waiting for the rider to submit, for the account page
+ */
+export type PendingResultForAccount = Pick<Result, 'id' | 'submission_token'> & {
+  events: Pick<Event, 'name' | 'event_date' | 'distance_km'> | null
+}
+
+/**
+ * Rider profile in a personal data export
+ */
+export type RiderForExport = Pick<
+  Rider,
+  | 'id'
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'gender'
+  | 'emergency_contact_name'
+  | 'emergency_contact_phone'
+  | 'rider_number'
+  | 'slug'
+  | 'profile_visibility'
+  | 'exclude_from_records'
+  | 'created_at'
+  | 'updated_at'
+>
+
+/**
+ * Registration with event in a personal data export
+ */
+export type RegistrationForExport = Pick<
+  Registration,
+  'id' | 'status' | 'registered_at' | 'notes' | 'share_registration'
+> & {
+  events: Pick<Event, 'name' | 'event_date' | 'distance_km'> | null
+}
+
+/**
+ * Result with event in a personal data export
+ */
+export type ResultForExport = Pick<
+  Result,
+  | 'id'
+  | 'status'
+  | 'finish_time'
+  | 'season'
+  | 'distance_km'
+  | 'team_name'
+  | 'note'
+  | 'rider_notes'
+  | 'medal_requested'
+  | 'homologation_number'
+  | 'gpx_url'
+  | 'submitted_at'
+> & {
+  events: Pick<Event, 'name' | 'event_date'> | null
+}
+
+/**
+ * Email sent to the rider, in a personal data export (without the body)
+ */
+export type EmailForExport = Pick<
+  EmailOutbox,
+  'created_at' | 'sent_at' | 'status' | 'kind' | 'subject' | 'to_emails'
+>
+
+/**
+ * Erasure request in the admin queue
+ */
+export type RiderDataRequestForAdmin = Pick<
+  RiderDataRequest,
+  'id' | 'request_type' | 'status' | 'note' | 'requested_at'
+> & {
+  riders: Pick<Rider, 'id' | 'first_name' | 'last_name' | 'email' | 'anonymized_at'> | null
+}
@@ -10,7 +10,7 @@
  */
 export interface RiderRecord {
   rank: number
-  riderSlug: string
+  riderSlug: string | null // null when the rider has no public profile
   riderName: string
   value: number // count or distance in km
 }
@@ -20,7 +20,7 @@ export interface RiderRecord {
  */
 export interface RiderTimeRecord {
   rank: number
-  riderSlug: string
+  riderSlug: string | null // null when the rider has no public profile
   riderName: string
   time: string // formatted finish time (e.g., "45:30")
   eventDate: string // when the record was set
@@ -32,7 +32,7 @@ export interface RiderTimeRecord {
 export interface SeasonRiderRecord {
   rank: number
   season: number
-  riderSlug: string
+  riderSlug: string | null // null when the rider has no public profile
   riderName: string
   value: number // count or distance
 }
@@ -63,7 +63,7 @@ export interface RouteRecord {
  */
 export interface StreakRecord {
   rank: number
-  riderSlug: string
+  riderSlug: string | null // null when the rider has no public profile
   riderName: string
   streakLength: number
   streakEndSeason: number
@@ -72,7 +72,7 @@ export type Database = {
       audit_logs: {
         Row: {
           action: string
-          admin_id: string
+          admin_id: string | null
           created_at: string | null
           description: string
           entity_id: string | null
@@ -81,7 +81,7 @@ export type Database = {
         }
         Insert: {
           action: string
-          admin_id: string
+          admin_id?: string | null
           created_at?: string | null
           description: string
           entity_id?: string | null
@@ -90,7 +90,7 @@ export type Database = {
         }
         Update: {
           action?: string
-          admin_id?: string
+          admin_id?: string | null
           created_at?: string | null
           description?: string
           entity_id?: string | null
@@ -144,8 +144,18 @@ export type Database = {
           founded_year: number | null
           id: string
           name: string
+          registration_closes_hours_before: number | null
+          registration_opens_days_before: number | null
+          reminder_checklist: string | null
+          reminder_days_before: number
+          result_deadline_action: string
+          result_deadline_days: number
+          result_reminder_days: number[]
+          route_coordinator_email: string | null
           slug: string
+          treasurer_email: string | null
           updated_at: string | null
+          vp_email: string | null
         }
         Insert: {
           created_at?: string | null
@@ -153,8 +163,18 @@ export type Database = {
           founded_year?: number | null
           id?: string
           name: string
+          registration_closes_hours_before?: number | null
+          registration_opens_days_before?: number | null
+          reminder_checklist?: string | null
+          reminder_days_before?: number
+          result_deadline_action?: string
+          result_deadline_days?: number
+          result_reminder_days?: number[]
+          route_coordinator_email?: string | null
           slug: string
+          treasurer_email?: string | null
           updated_at?: string | null
+          vp_email?: string | null
         }
         Update: {
           created_at?: string | null
@@ -162,28 +182,299 @@ export type Database = {
           founded_year?: number | null
           id?: string
           name?: string
+          registration_closes_hours_before?: number | null
+          registration_opens_days_before?: number | null
+          reminder_checklist?: string | null
+          reminder_days_before?: number
+          result_deadline_action?: string
+          result_deadline_days?: number
+          result_reminder_days?: number[]
+          route_coordinator_email?: string | null
           slug?: string
+          treasurer_email?: string | null
           updated_at?: string | null
+          vp_email?: string | null
         }
         Relationships: []
       }
+      course_records: {
+        Row: {
+          created_at: string | null
+          finish_time: string
+          id: string
+          result_id: string | null
+          rider_id: string | null
+          route_id: string
+          set_on: string
+          superseded_at: string | null
+          voided_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          finish_time: string
+          id?: string
+          result_id?: string | null
+          rider_id?: string | null
+          route_id: string
+          set_on: string
+          superseded_at?: string | null
+          voided_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          finish_time?: string
+          id?: string
+          result_id?: string | null
+          rider_id?: string | null
+          route_id?: string
+          set_on?: string
+          superseded_at?: string | null
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'course_records_result_id_fkey'
+            columns: ['result_id']
+            isOneToOne: false
+            referencedRelation: 'results'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'course_records_rider_id_fkey'
+            columns: ['rider_id']
+            isOneToOne: false
+            referencedRelation: 'riders'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'course_records_route_id_fkey'
+            columns: ['route_id']
+            isOneToOne: false
+            referencedRelation: 'routes'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      event_controls: {
+        Row: {
+          address: string | null
+          control_type: string
+          created_at: string | null
+          distance_km: number
+          event_id: string
+          id: string
+          info_question: string | null
+          name: string
+          position: number
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          control_type?: string
+          created_at?: string | null
+          distance_km: number
+          event_id: string
+          id?: string
+          info_question?: string | null
+          name: string
+          position: number
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          control_type?: string
+          created_at?: string | null
+          distance_km?: number
+          event_id?: string
+          id?: string
+          info_question?: string | null
+          name?: string
+          position?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'event_controls_event_id_fkey'
+            columns: ['event_id']
+            isOneToOne: false
+            referencedRelation: 'events'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          attachments: Json
+          attempts: number
+          cc_emails: string[]
+          created_at: string | null
+          event_id: string | null
+          html_body: string | null
+          id: string
+          kind: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          reply_to: string | null
+          resend_of: string | null
+          rider_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          text_body: string
+          to_emails: string[]
+          transport: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          attachments?: Json
+          attempts?: number
+          cc_emails?: string[]
+          created_at?: string | null
+          event_id?: string | null
+          html_body?: string | null
+          id?: string
+          kind: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          reply_to?: string | null
+          resend_of?: string | null
+          rider_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          text_body: string
+          to_emails: string[]
+          transport?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          attachments?: Json
+          attempts?: number
+          cc_emails?: string[]
+          created_at?: string | null
+          event_id?: string | null
+          html_body?: string | null
+          id?: string
+          kind?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          reply_to?: string | null
+          resend_of?: string | null
+          rider_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          text_body?: string
+          to_emails?: string[]
+          transport?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'email_outbox_event_id_fkey'
+            columns: ['event_id']
+            isOneToOne: false
+            referencedRelation: 'events'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'email_outbox_resend_of_fkey'
+            columns: ['resend_of']
+            isOneToOne: false
+            referencedRelation: 'email_outbox'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'email_outbox_rider_id_fkey'
+            columns: ['rider_id']
+            isOneToOne: false
+            referencedRelation: 'riders'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      event_series: {
+        Row: {
+          award_id: string | null
+          collection: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          min_events: number
+          name: string
+          required_distances: number[]
+          season: number
+          slug: string
+          updated_at: string | null
+        }
+        Insert: {
+          award_id?: string | null
+          collection?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          min_events?: number
+          name: string
+          required_distances?: number[]
+          season: number
+          slug: string
+          updated_at?: string | null
+        }
+        Update: {
+          award_id?: string | null
+          collection?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          min_events?: number
+          name?: string
+          required_distances?: number[]
+          season?: number
+          slug?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'event_series_award_id_fkey'
+            columns: ['award_id']
+            isOneToOne: false
+            referencedRelation: 'awards'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       events: {
         Row: {
           chapter_id: string
-          collection: string | null
           created_at: string | null
           description: string | null
           distance_km: number
           event_date: string
           event_type: string
           external_register_url: string | null
+          homologation_file_path: string | null
           id: string
           image_url: string | null
+          max_riders: number | null
           name: string
+          proposed_event_date: string | null
+          proposed_start_location: string | null
+          proposed_start_time: string | null
           registration_closes_at: string | null
           registration_opens_at: string | null
+          results_followup_stage: number
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          roster_sent_at: string | null
           route_id: string | null
           season: number | null
+          send_reminders: boolean
+          send_roster: boolean
+          series_id: string | null
           slug: string
           start_location: string | null
           start_time: string | null
@@ -192,20 +483,32 @@ export type Database = {
         }
         Insert: {
           chapter_id: string
-          collection?: string | null
           created_at?: string | null
           description?: string | null
           distance_km: number
           event_date: string
           event_type: string
           external_register_url?: string | null
+          homologation_file_path?: string | null
           id?: string
           image_url?: string | null
+          max_riders?: number | null
           name: string
+          proposed_event_date?: string | null
+          proposed_start_location?: string | null
+          proposed_start_time?: string | null
           registration_closes_at?: string | null
           registration_opens_at?: string | null
+          results_followup_stage?: number
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          roster_sent_at?: string | null
           route_id?: string | null
           season?: number | null
+          send_reminders?: boolean
+          send_roster?: boolean
+          series_id?: string | null
           slug: string
           start_location?: string | null
           start_time?: string | null
@@ -214,20 +517,32 @@ export type Database = {
         }
         Update: {
           chapter_id?: string
-          collection?: string | null
           created_at?: string | null
           description?: string | null
           distance_km?: number
           event_date?: string
           event_type?: string
           external_register_url?: string | null
+          homologation_file_path?: string | null
           id?: string
           image_url?: string | null
+          max_riders?: number | null
           name?: string
+          proposed_event_date?: string | null
+          proposed_start_location?: string | null
+          proposed_start_time?: string | null
           registration_closes_at?: string | null
           registration_opens_at?: string | null
+          results_followup_stage?: number
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          roster_sent_at?: string | null
           route_id?: string | null
           season?: number | null
+          send_reminders?: boolean
+          send_roster?: boolean
+          series_id?: string | null
           slug?: string
           start_location?: string | null
           start_time?: string | null
@@ -242,6 +557,13 @@ export type Database = {
             referencedRelation: 'chapters'
             referencedColumns: ['id']
           },
+          {
+            foreignKeyName: 'events_reviewed_by_fkey'
+            columns: ['reviewed_by']
+            isOneToOne: false
+            referencedRelation: 'admins'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'events_route_id_fkey'
             columns: ['route_id']
@@ -249,6 +571,13 @@ export type Database = {
             referencedRelation: 'routes'
             referencedColumns: ['id']
           },
+          {
+            foreignKeyName: 'events_series_id_fkey'
+            columns: ['series_id']
+            isOneToOne: false
+            referencedRelation: 'event_series'
+            referencedColumns: ['id']
+          },
         ]
       }
       images: {
@@ -290,35 +619,105 @@ export type Database = {
         }
         Relationships: []
       }
+      membership_reviews: {
+        Row: {
+          candidates: Json
+          created_at: string | null
+          id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_membership_id: number | null
+          rider_id: string
+          season: number
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          candidates?: Json
+          created_at?: string | null
+          id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_membership_id?: number | null
+          rider_id: string
+          season: number
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          candidates?: Json
+          created_at?: string | null
+          id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_membership_id?: number | null
+          rider_id?: string
+          season?: number
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'membership_reviews_resolved_by_fkey'
+            columns: ['resolved_by']
+            isOneToOne: false
+            referencedRelation: 'admins'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'membership_reviews_rider_id_fkey'
+            columns: ['rider_id']
+            isOneToOne: false
+            referencedRelation: 'riders'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       memberships: {
         Row: {
           created_at: string | null
+          created_by: string | null
           id: string
-          membership_id: number
+          membership_id: number | null
+          note: string | null
           rider_id: string
           season: number
+          source: string
           type: string
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
+          created_by?: string | null
           id?: string
-          membership_id: number
+          membership_id?: number | null
+          note?: string | null
           rider_id: string
           season: number
+          source?: string
           type: string
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
+          created_by?: string | null
           id?: string
-          membership_id?: number
+          membership_id?: number | null
+          note?: string | null
           rider_id?: string
           season?: number
+          source?: string
           type?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: 'memberships_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'admins'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'memberships_rider_id_fkey'
             columns: ['rider_id']
@@ -376,35 +775,109 @@ export type Database = {
           },
         ]
       }
+      pending_awards: {
+        Row: {
+          award_id: string
+          created_at: string | null
+          id: string
+          result_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          award_id: string
+          created_at?: string | null
+          id?: string
+          result_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          award_id?: string
+          created_at?: string | null
+          id?: string
+          result_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'pending_awards_award_id_fkey'
+            columns: ['award_id']
+            isOneToOne: false
+            referencedRelation: 'awards'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'pending_awards_result_id_fkey'
+            columns: ['result_id']
+            isOneToOne: false
+            referencedRelation: 'results'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'pending_awards_reviewed_by_fkey'
+            columns: ['reviewed_by']
+            isOneToOne: false
+            referencedRelation: 'admins'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       registrations: {
         Row: {
+          checked_in_at: string | null
+          checked_in_by: string | null
           event_id: string
           id: string
+          manage_token: string | null
           notes: string | null
           registered_at: string | null
+          reminder_sent_at: string | null
           rider_id: string
           share_registration: boolean | null
           status: string | null
         }
         Insert: {
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           event_id: string
           id?: string
+          manage_token?: string | null
           notes?: string | null
           registered_at?: string | null
+          reminder_sent_at?: string | null
           rider_id: string
           share_registration?: boolean | null
           status?: string | null
         }
         Update: {
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           event_id?: string
           id?: string
+          manage_token?: string | null
           notes?: string | null
           registered_at?: string | null
+          reminder_sent_at?: string | null
           rider_id?: string
           share_registration?: boolean | null
           status?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: 'registrations_checked_in_by_fkey'
+            columns: ['checked_in_by']
+            isOneToOne: false
+            referencedRelation: 'admins'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'registrations_event_id_fkey'
             columns: ['event_id']
@@ -475,8 +948,13 @@ export type Database = {
           finish_time: string | null
           gpx_file_path: string | null
           gpx_url: string | null
+          gpx_verification: Json | null
+          gpx_verified_at: string | null
+          homologation_number: string | null
           id: string
+          medal_requested: boolean
           note: string | null
+          overdue_at: string | null
           rider_id: string
           rider_notes: string | null
           season: number
@@ -495,8 +973,13 @@ export type Database = {
           finish_time?: string | null
           gpx_file_path?: string | null
           gpx_url?: string | null
+          gpx_verification?: Json | null
+          gpx_verified_at?: string | null
+          homologation_number?: string | null
           id?: string
+          medal_requested?: boolean
           note?: string | null
+          overdue_at?: string | null
           rider_id: string
           rider_notes?: string | null
           season: number
@@ -515,8 +998,13 @@ export type Database = {
           finish_time?: string | null
           gpx_file_path?: string | null
           gpx_url?: string | null
+          gpx_verification?: Json | null
+          gpx_verified_at?: string | null
+          homologation_number?: string | null
           id?: string
+          medal_requested?: boolean
           note?: string | null
+          overdue_at?: string | null
           rider_id?: string
           rider_notes?: string | null
           season?: number
@@ -550,6 +1038,165 @@ export type Database = {
           },
         ]
       }
+      rider_data_requests: {
+        Row: {
+          id: string
+          note: string | null
+          request_type: string
+          resolution_note: string | null
+          requested_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+          rider_id: string
+          status: string
+        }
+        Insert: {
+          id?: string
+          note?: string | null
+          request_type: string
+          resolution_note?: string | null
+          requested_at?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rider_id: string
+          status?: string
+        }
+        Update: {
+          id?: string
+          note?: string | null
+          request_type?: string
+          resolution_note?: string | null
+          requested_at?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rider_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rider_data_requests_resolved_by_fkey'
+            columns: ['resolved_by']
+            isOneToOne: false
+            referencedRelation: 'admins'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'rider_data_requests_rider_id_fkey'
+            columns: ['rider_id']
+            isOneToOne: false
+            referencedRelation: 'public_riders'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'rider_data_requests_rider_id_fkey'
+            columns: ['rider_id']
+            isOneToOne: false
+            referencedRelation: 'riders'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      rider_duplicate_clusters: {
+        Row: {
+          cluster_key: string
+          created_at: string | null
+          id: string
+          reasons: string[]
+          reviewed_at: string | null
+          reviewed_by: string | null
+          rider_ids: string[]
+          score: number
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          cluster_key: string
+          created_at?: string | null
+          id?: string
+          reasons?: string[]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rider_ids: string[]
+          score: number
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          cluster_key?: string
+          created_at?: string | null
+          id?: string
+          reasons?: string[]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rider_ids?: string[]
+          score?: number
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rider_duplicate_clusters_reviewed_by_fkey'
+            columns: ['reviewed_by']
+            isOneToOne: false
+            referencedRelation: 'admins'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      rider_merge_snapshots: {
+        Row: {
+          dropped_rows: Json
+          id: string
+          merged_at: string
+          merged_by: string | null
+          moved_rows: Json
+          source_riders: Json
+          target_before: Json
+          target_rider_id: string
+          unmerged_at: string | null
+          unmerged_by: string | null
+        }
+        Insert: {
+          dropped_rows?: Json
+          id?: string
+          merged_at?: string
+          merged_by?: string | null
+          moved_rows?: Json
+          source_riders: Json
+          target_before: Json
+          target_rider_id: string
+          unmerged_at?: string | null
+          unmerged_by?: string | null
+        }
+        Update: {
+          dropped_rows?: Json
+          id?: string
+          merged_at?: string
+          merged_by?: string | null
+          moved_rows?: Json
+          source_riders?: Json
+          target_before?: Json
+          target_rider_id?: string
+          unmerged_at?: string | null
+          unmerged_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rider_merge_snapshots_merged_by_fkey'
+            columns: ['merged_by']
+            isOneToOne: false
+            referencedRelation: 'admins'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'rider_merge_snapshots_unmerged_by_fkey'
+            columns: ['unmerged_by']
+            isOneToOne: false
+            referencedRelation: 'admins'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       rider_merges: {
         Row: {
           id: string
@@ -606,49 +1253,111 @@ export type Database = {
       }
       riders: {
         Row: {
+          anonymized_at: string | null
+          auth_user_id: string | null
+          calendar_token: string
           created_at: string | null
           email: string | null
           emergency_contact_name: string | null
           emergency_contact_phone: string | null
+          exclude_from_records: boolean
           first_name: string
           full_name: string | null
           gender: string | null
           id: string
           last_name: string
+          profile_visibility: string
           rider_number: number | null
           slug: string
           updated_at: string | null
         }
         Insert: {
+          anonymized_at?: string | null
+          auth_user_id?: string | null
+          calendar_token?: string
           created_at?: string | null
           email?: string | null
           emergency_contact_name?: string | null
           emergency_contact_phone?: string | null
+          exclude_from_records?: boolean
           first_name: string
           full_name?: string | null
           gender?: string | null
           id?: string
           last_name: string
+          profile_visibility?: string
           rider_number?: number | null
           slug: string
           updated_at?: string | null
         }
         Update: {
+          anonymized_at?: string | null
+          auth_user_id?: string | null
+          calendar_token?: string
           created_at?: string | null
           email?: string | null
           emergency_contact_name?: string | null
           emergency_contact_phone?: string | null
+          exclude_from_records?: boolean
           first_name?: string
           full_name?: string | null
           gender?: string | null
           id?: string
           last_name?: string
+          profile_visibility?: string
           rider_number?: number | null
           slug?: string
           updated_at?: string | null
         }
         Relationships: []
       }
+      route_controls: {
+        Row: {
+          address: string | null
+          control_type: string
+          created_at: string | null
+          distance_km: number
+          id: string
+          info_question: string | null
+          name: string
+          position: number
+          route_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          control_type?: string
+          created_at?: string | null
+          distance_km: number
+          id?: string
+          info_question?: string | null
+          name: string
+          position: number
+          route_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          control_type?: string
+          created_at?: string | null
+          distance_km?: number
+          id?: string
+          info_question?: string | null
+          name?: string
+          position?: number
+          route_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'route_controls_route_id_fkey'
+            columns: ['route_id']
+            isOneToOne: false
+            referencedRelation: 'routes'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       routes: {
         Row: {
           chapter_id: string | null
@@ -657,10 +1366,12 @@ export type Database = {
           cue_sheet_url: string | null
           description: string | null
           distance_km: number | null
+          elevation_gain_m: number | null
           id: string
           is_active: boolean
           name: string
           notes: string | null
+          route_file_path: string | null
           rwgps_id: string | null
           slug: string
           updated_at: string | null
@@ -672,10 +1383,12 @@ export type Database = {
           cue_sheet_url?: string | null
           description?: string | null
           distance_km?: number | null
+          elevation_gain_m?: number | null
           id?: string
           is_active?: boolean
           name: string
           notes?: string | null
+          route_file_path?: string | null
           rwgps_id?: string | null
           slug: string
           updated_at?: string | null
@@ -687,10 +1400,12 @@ export type Database = {
           cue_sheet_url?: string | null
           description?: string | null
           distance_km?: number | null
+          elevation_gain_m?: number | null
           id?: string
           is_active?: boolean
           name?: string
           notes?: string | null
+          route_file_path?: string | null
           rwgps_id?: string | null
           slug?: string
           updated_at?: string | null
@@ -767,6 +1482,10 @@ export type Database = {
       }
     }
     Functions: {
+      anonymize_rider: {
+        Args: { p_anonymized_by?: string; p_rider_id: string }
+        Returns: Json
+      }
       get_best_season_distances: {
         Args: { limit_count?: number }
         Returns: {
@@ -941,6 +1660,29 @@ export type Database = {
           value: number
         }[]
       }
+      get_route_record_progression: {
+        Args: { p_route_slug: string }
+        Returns: {
+          finish_time: string
+          rider_excluded: boolean
+          rider_name: string | null
+          rider_slug: string | null
+          set_on: string
+          superseded_at: string | null
+        }[]
+      }
+      get_series_progress: {
+        Args: { p_series_id: string }
+        Returns: {
+          event_id: string
+          finish_time: string | null
+          first_name: string
+          last_name: string
+          rider_id: string
+          rider_slug: string | null
+          status: string
+        }[]
+      }
       get_season_event_counts: {
         Args: { limit_count?: number }
         Returns: {
@@ -967,6 +1709,50 @@ export type Database = {
       }
       is_admin: { Args: never; Returns: boolean }
       is_chapter_admin: { Args: { check_chapter_id: string }; Returns: boolean }
+      merge_riders: {
+        Args: {
+          p_email?: string
+          p_first_name: string
+          p_gender?: string
+          p_last_name: string
+          p_merged_by?: string
+          p_source_ids: string[]
+          p_target_id: string
+        }
+        Returns: Json
+      }
+      replace_event_controls: {
+        Args: { p_controls: Json; p_event_id: string }
+        Returns: undefined
+      }
+      replace_route_controls: {
+        Args: { p_controls: Json; p_route_id: string }
+        Returns: undefined
+      }
+      rider_public_identity: {
+        Args: { p_rider_id: string }
+        Returns: {
+          first_name: string
+          last_name: string
+          slug: string | null
+        }[]
+      }
+      rider_public_name: {
+        Args: { p_first_name: string; p_last_name: string; p_visibility: string }
+        Returns: string
+      }
+      rider_public_name_part: {
+        Args: { p_name: string; p_visibility: string }
+        Returns: string
+      }
+      rider_public_slug: {
+        Args: { p_slug: string; p_visibility: string }
+        Returns: string
+      }
+      unmerge_riders: {
+        Args: { p_merge_id: string; p_unmerged_by?: string }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -18,6 +18,49 @@ export interface ChapterOptionWithSlug extends ChapterOption {
   slug: string
 }
 
+/**
+ * Chapter option with registration window defaults (event form hints)
+ */
+export interface ChapterOptionWithWindowDefaults extends ChapterOption {
+  registration_opens_days_before: number | null
+  registration_closes_hours_before: number | null
+}
+
+/**
+ * Chapter option with contact addresses by role (admin chapter settings)
+ */
+export interface ChapterOptionWithContacts extends ChapterOption {
+  vp_email: string | null
+  route_coordinator_email: string | null
+  treasurer_email: string | null
+}
+
+/**
+ * Chapter option with pre-ride reminder settings (admin chapter settings)
+ */
+export interface ChapterOptionWithReminders extends ChapterOption {
+  reminder_days_before: number
+  reminder_checklist: string | null
+}
+
+/**
+ * Chapter option with result follow-up settings (admin chapter settings)
+ */
+export interface ChapterOptionWithResultFollowup extends ChapterOption {
+  result_reminder_days: number[]
+  result_deadline_days: number
+  result_deadline_action: string
+}
+
+/**
+ * Minimal event series info for the event form
+ */
+export interface SeriesOption {
+  id: string
+  name: string
+  season: number
+}
+
 /**
  * Minimal route info for display
  */
@@ -33,6 +76,8 @@ export interface RouteOption {
   cue_sheet_url: string | null
   notes: string | null
   is_active: boolean
+  route_file_path: string | null
+  elevation_gain_m: number | null
 }
 
 /**